@@ -0,0 +1,293 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { toast } from 'react-toastify';
+import { useAppSelector } from '@/lib/redux/hooks';
+import {
+  orderApi,
+  ReportInterval,
+  RevenueReport,
+  SalesSummary,
+  TopSkusReport,
+} from '@/lib/api/order';
+import { CurrencyInfo, formatMoney } from '@/lib/currency';
+
+/** YYYY-MM-DD of `days` days ago */
+const daysAgo = (days: number) => new Date(Date.now() - days * 86_400_000).toISOString().slice(0, 10);
+
+/**
+ * Admin Sales Analytics Page
+ *
+ * Revenue and order reports built by the order service: revenue and order
+ * count per day, week or month, average order value, best-selling SKUs,
+ * orders per status and the cancellation rate, for a date range and
+ * currency (all currencies are reported in the base currency).
+ *
+ * @returns Admin analytics page
+ */
+export default function AdminAnalyticsPage() {
+  const router = useRouter();
+  const { user, isAuthenticated, loading: authLoading } = useAppSelector((state) => state.auth);
+
+  const [createdFrom, setCreatedFrom] = useState(daysAgo(29));
+  const [createdTo, setCreatedTo] = useState(daysAgo(0));
+  const [currency, setCurrency] = useState('');
+  const [interval, setReportInterval] = useState<ReportInterval>('day');
+  const [sortBy, setSortBy] = useState<'revenue' | 'units'>('revenue');
+  const [currencies, setCurrencies] = useState<CurrencyInfo[]>([]);
+
+  const [summary, setSummary] = useState<SalesSummary | null>(null);
+  const [revenue, setRevenue] = useState<RevenueReport | null>(null);
+  const [topSkus, setTopSkus] = useState<TopSkusReport | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const isAdmin = user?.email?.toLowerCase().includes('admin') || user?.role === 'admin';
+
+  const fetchReports = useCallback(async () => {
+    const query = {
+      createdFrom: createdFrom || undefined,
+      createdTo: createdTo || undefined,
+      currency: currency || undefined,
+    };
+    try {
+      setLoading(true);
+      const [summaryData, revenueData, skusData] = await Promise.all([
+        orderApi.getSalesSummary(query),
+        orderApi.getRevenueReport({ ...query, interval }),
+        orderApi.getTopSkus({ ...query, sortBy, limit: 10 }),
+      ]);
+      setSummary(summaryData);
+      setRevenue(revenueData);
+      setTopSkus(skusData);
+    } catch (err: any) {
+      console.error('Error loading analytics:', err);
+      toast.error(err.message || 'Failed to load analytics');
+    } finally {
+      setLoading(false);
+    }
+  }, [createdFrom, createdTo, currency, interval, sortBy]);
+
+  useEffect(() => {
+    if (!authLoading && !isAuthenticated) {
+      router.push('/admin/login');
+      return;
+    }
+    if (!authLoading && isAuthenticated && !isAdmin) {
+      toast.error('Access denied. Admin privileges required.');
+      router.push('/products');
+      return;
+    }
+    if (isAuthenticated && isAdmin) {
+      fetchReports();
+    }
+  }, [isAuthenticated, isAdmin, authLoading, router, fetchReports]);
+
+  useEffect(() => {
+    orderApi
+      .getCurrencies()
+      .then((table) => setCurrencies(table.currencies))
+      .catch((err) => console.error('Error loading currencies:', err));
+  }, []);
+
+  if (authLoading || (loading && !summary)) {
+    return (
+      <div className="container-custom py-12">
+        <div className="flex items-center justify-center min-h-[400px]">
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600 mx-auto mb-4"></div>
+            <p className="text-gray-600">Loading analytics...</p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const reportCurrency = summary?.currency ?? 'USD';
+  const maxRevenue = Math.max(0, ...(revenue?.series ?? []).map((p) => p.revenue));
+  const maxSku = Math.max(
+    0,
+    ...(topSkus?.skus ?? []).map((s) => (sortBy === 'revenue' ? s.revenue : s.units))
+  );
+  const maxStatus = Math.max(0, ...(summary?.statuses ?? []).map((s) => s.count));
+
+  return (
+    <div className="container-custom py-8">
+      {/* Header */}
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">Sales Analytics</h1>
+        <p className="text-gray-600">Revenue and orders for the selected period</p>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-white rounded-lg shadow p-4 mb-6 flex flex-wrap items-end gap-4">
+        <label className="text-sm text-gray-700">
+          From
+          <input
+            type="date"
+            value={createdFrom}
+            onChange={(e) => setCreatedFrom(e.target.value)}
+            className="input block mt-1"
+          />
+        </label>
+        <label className="text-sm text-gray-700">
+          To
+          <input
+            type="date"
+            value={createdTo}
+            onChange={(e) => setCreatedTo(e.target.value)}
+            className="input block mt-1"
+          />
+        </label>
+        <label className="text-sm text-gray-700">
+          Currency
+          <select
+            value={currency}
+            onChange={(e) => setCurrency(e.target.value)}
+            className="input block mt-1 w-48"
+          >
+            <option value="">All (base currency)</option>
+            {currencies.map((c) => (
+              <option key={c.code} value={c.code}>
+                {c.code} orders only
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="text-sm text-gray-700">
+          Group by
+          <select
+            value={interval}
+            onChange={(e) => setReportInterval(e.target.value as ReportInterval)}
+            className="input block mt-1 w-32"
+          >
+            <option value="day">Day</option>
+            <option value="week">Week</option>
+            <option value="month">Month</option>
+          </select>
+        </label>
+        {loading && <span className="text-sm text-gray-500">Refreshing...</span>}
+      </div>
+
+      {/* Summary Cards */}
+      {summary && (
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
+          <div className="bg-white rounded-lg shadow p-4">
+            <p className="text-sm text-gray-600">Revenue</p>
+            <p className="text-2xl font-bold text-gray-900">{formatMoney(summary.revenue, reportCurrency)}</p>
+          </div>
+          <div className="bg-white rounded-lg shadow p-4">
+            <p className="text-sm text-gray-600">Orders</p>
+            <p className="text-2xl font-bold text-gray-900">{summary.orders}</p>
+          </div>
+          <div className="bg-white rounded-lg shadow p-4">
+            <p className="text-sm text-gray-600">Average Order Value</p>
+            <p className="text-2xl font-bold text-gray-900">
+              {formatMoney(summary.averageOrderValue, reportCurrency)}
+            </p>
+          </div>
+          <div className="bg-white rounded-lg shadow p-4">
+            <p className="text-sm text-gray-600">Cancellation Rate</p>
+            <p className="text-2xl font-bold text-gray-900">{(summary.cancellationRate * 100).toFixed(1)}%</p>
+            <p className="text-xs text-gray-500">{summary.cancelledOrders} cancelled</p>
+          </div>
+        </div>
+      )}
+
+      {/* Revenue Chart */}
+      <div className="bg-white rounded-lg shadow p-6 mb-6">
+        <h2 className="text-lg font-semibold text-gray-900 mb-4">Revenue by {interval}</h2>
+        {!revenue?.series.length ? (
+          <p className="text-sm text-gray-500">No orders in this period</p>
+        ) : (
+          <div className="flex items-end h-56 gap-1 overflow-x-auto">
+            {revenue.series.map((point) => (
+              <div
+                key={point.period}
+                className="flex-1 min-w-[8px] flex flex-col justify-end h-full group relative"
+                title={`${point.period}: ${formatMoney(point.revenue, revenue.currency)} from ${point.orders} order(s)`}
+              >
+                <div
+                  className="bg-primary-600 group-hover:bg-primary-700 rounded-t"
+                  style={{ height: `${maxRevenue ? (point.revenue / maxRevenue) * 100 : 0}%` }}
+                />
+              </div>
+            ))}
+          </div>
+        )}
+        {!!revenue?.series.length && (
+          <div className="flex justify-between text-xs text-gray-500 mt-2">
+            <span>{revenue.series[0].period}</span>
+            <span>Peak {formatMoney(maxRevenue, revenue.currency)}</span>
+            <span>{revenue.series[revenue.series.length - 1].period}</span>
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Top SKUs */}
+        <div className="bg-white rounded-lg shadow p-6">
+          <div className="flex justify-between items-center mb-4">
+            <h2 className="text-lg font-semibold text-gray-900">Top Products</h2>
+            <select
+              value={sortBy}
+              onChange={(e) => setSortBy(e.target.value as 'revenue' | 'units')}
+              className="input w-36"
+            >
+              <option value="revenue">By revenue</option>
+              <option value="units">By units</option>
+            </select>
+          </div>
+          {!topSkus?.skus.length ? (
+            <p className="text-sm text-gray-500">No sales in this period</p>
+          ) : (
+            <ul className="space-y-3">
+              {topSkus.skus.map((sku) => {
+                const value = sortBy === 'revenue' ? sku.revenue : sku.units;
+                return (
+                  <li key={sku.sku} className="text-sm">
+                    <div className="flex justify-between mb-1">
+                      <span className="text-gray-900">
+                        {sku.name} <span className="font-mono text-gray-500">{sku.sku}</span>
+                      </span>
+                      <span className="text-gray-700">
+                        {formatMoney(sku.revenue, topSkus.currency)} · {sku.units} units
+                      </span>
+                    </div>
+                    <div className="bg-gray-100 rounded h-2">
+                      <div
+                        className="bg-primary-600 rounded h-2"
+                        style={{ width: `${maxSku ? (value / maxSku) * 100 : 0}%` }}
+                      />
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+
+        {/* Status Funnel */}
+        <div className="bg-white rounded-lg shadow p-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">Orders by Status</h2>
+          <ul className="space-y-3">
+            {(summary?.statuses ?? []).map((status) => (
+              <li key={status.status} className="text-sm">
+                <div className="flex justify-between mb-1">
+                  <span className="text-gray-900 capitalize">{status.status.replace('_', ' ')}</span>
+                  <span className="text-gray-700">{status.count}</span>
+                </div>
+                <div className="bg-gray-100 rounded h-2">
+                  <div
+                    className={`${status.status === 'cancelled' ? 'bg-red-500' : 'bg-green-600'} rounded h-2`}
+                    style={{ width: `${maxStatus ? (status.count / maxStatus) * 100 : 0}%` }}
+                  />
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+    </div>
+  );
+}
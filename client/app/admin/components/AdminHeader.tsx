@@ -93,6 +93,24 @@ export default function AdminHeader() {
             >
               Orders
             </Link>
+            <Link
+              href="/admin/returns"
+              className={`font-medium transition-colors px-3 py-2 rounded ${isActiveLink('/admin/returns')
+                ? 'bg-gray-700 text-white'
+                : 'text-gray-300 hover:bg-gray-700 hover:text-white'
+                }`}
+            >
+              Returns
+            </Link>
+            <Link
+              href="/admin/analytics"
+              className={`font-medium transition-colors px-3 py-2 rounded ${isActiveLink('/admin/analytics')
+                ? 'bg-gray-700 text-white'
+                : 'text-gray-300 hover:bg-gray-700 hover:text-white'
+                }`}
+            >
+              Analytics
+            </Link>
             <Link
               href="/admin/inventory"
               className={`font-medium transition-colors px-3 py-2 rounded ${isActiveLink('/admin/inventory')
@@ -18,6 +18,7 @@ import { toast } from 'react-toastify';
  * - Reserved stock tracking
  * - Available stock display
  * - Sales statistics
+ * - Back-order / pre-order settings per SKU
  * - Search and filter capabilities
  *
  * @returns Admin inventory management page
@@ -33,6 +34,14 @@ export default function AdminInventoryPage() {
   const [stockFilter, setStockFilter] = useState<string>('all');
   const [displayCount, setDisplayCount] = useState(20);
   const itemsPerPage = 20;
+  const [editingSku, setEditingSku] = useState<string | null>(null);
+  const [backorderForm, setBackorderForm] = useState({
+    backorderable: false,
+    preorderable: false,
+    releaseDate: '',
+    maxBackorder: '',
+  });
+  const [savingBackorder, setSavingBackorder] = useState(false);
 
   useEffect(() => {
     // Redirect if not authenticated
@@ -74,6 +83,65 @@ export default function AdminInventoryPage() {
     }
   };
 
+  /**
+   * Open the back-order settings of an item (or close them)
+   */
+  const toggleBackorderForm = (item: InventoryItem) => {
+    if (editingSku === item.sku) {
+      setEditingSku(null);
+      return;
+    }
+    setEditingSku(item.sku);
+    setBackorderForm({
+      backorderable: !!item.backorderable,
+      preorderable: !!item.preorderable,
+      releaseDate: item.releaseDate ? item.releaseDate.slice(0, 10) : '',
+      maxBackorder: item.maxBackorder != null ? String(item.maxBackorder) : '',
+    });
+  };
+
+  /**
+   * Save the back-order settings of the item being edited
+   */
+  const handleSaveBackorder = async (e: React.FormEvent, sku: string) => {
+    e.preventDefault();
+
+    if (backorderForm.preorderable && !backorderForm.releaseDate) {
+      toast.error('Please enter the release date for pre-orders');
+      return;
+    }
+
+    try {
+      setSavingBackorder(true);
+      const updated = await inventoryApi.updateBackorderSettings(sku, {
+        backorderable: backorderForm.backorderable,
+        preorderable: backorderForm.preorderable,
+        releaseDate: backorderForm.releaseDate ? new Date(backorderForm.releaseDate).toISOString() : null,
+        maxBackorder: backorderForm.maxBackorder ? Number(backorderForm.maxBackorder) : null,
+      });
+      setAllInventory((prev) => prev.map((item) => (item.sku === sku ? { ...item, ...updated } : item)));
+      setEditingSku(null);
+      toast.success(`Back-order settings of ${sku} saved`);
+    } catch (err: any) {
+      console.error('Error saving back-order settings:', err);
+      toast.error(err.message || 'Failed to save back-order settings');
+    } finally {
+      setSavingBackorder(false);
+    }
+  };
+
+  /**
+   * Back-order / pre-order mode of an item, for the table
+   */
+  const backorderMode = (item: InventoryItem) => {
+    const modes = [
+      item.backorderable && 'Back-order',
+      item.preorderable && item.releaseDate && `Pre-order until ${new Date(item.releaseDate).toLocaleDateString()}`,
+    ].filter(Boolean);
+    if (!modes.length) return 'Off';
+    return `${modes.join(', ')}${item.maxBackorder != null ? ` (max ${item.maxBackorder})` : ''}`;
+  };
+
   /**
    * Load more items (infinite scroll simulation)
    */
@@ -92,6 +160,8 @@ export default function AdminInventoryPage() {
       filtered = filtered.filter((item: InventoryItem) => item.available === 0);
     } else if (stockFilter === 'reserved') {
       filtered = filtered.filter((item: InventoryItem) => item.reserved > 0);
+    } else if (stockFilter === 'backordered') {
+      filtered = filtered.filter((item: InventoryItem) => (item.backordered ?? 0) > 0);
     }
 
     // Search filter
@@ -111,6 +181,7 @@ export default function AdminInventoryPage() {
     if (stockFilter === 'low') return item.available > 0 && item.available < 10;
     if (stockFilter === 'out') return item.available === 0;
     if (stockFilter === 'reserved') return item.reserved > 0;
+    if (stockFilter === 'backordered') return (item.backordered ?? 0) > 0;
     if (searchTerm) {
       return item.sku.toLowerCase().includes(searchTerm.toLowerCase()) ||
         item.name.toLowerCase().includes(searchTerm.toLowerCase());
@@ -289,6 +360,7 @@ export default function AdminInventoryPage() {
               <option value="low">Low Stock</option>
               <option value="out">Out of Stock</option>
               <option value="reserved">Has Reserved</option>
+              <option value="backordered">Has Back-orders</option>
             </select>
           </div>
           <button onClick={fetchInventory} className="btn-secondary whitespace-nowrap">
@@ -336,6 +408,12 @@ export default function AdminInventoryPage() {
                   <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Available
                   </th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Back-ordered
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Back-orders
+                  </th>
                   {/* <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Sold
                   </th> */}
@@ -346,38 +424,103 @@ export default function AdminInventoryPage() {
               </thead>
               <tbody className="bg-white divide-y divide-gray-200">
                 {filteredInventory.map((item) => (
-                  <tr key={item.sku} className="hover:bg-gray-50">
-                    {/* <td className="px-6 py-4 whitespace-nowrap">
-                      <div className="text-sm font-medium text-gray-900">{item.name}</div>
-                    </td> */}
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <div className="text-sm text-gray-900 font-mono">{item.sku}</div>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-right">
-                      <div className="text-sm font-semibold text-gray-900">{item.stock}</div>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-right">
-                      <div className="flex items-center justify-end gap-1">
-                        <span className={`text-sm font-medium ${item.reserved > 0 ? 'text-orange-600' : 'text-gray-500'}`}>
-                          {item.reserved}
-                        </span>
-                        {item.reserved > 0 && (
-                          <svg className="w-4 h-4 text-orange-500" fill="currentColor" viewBox="0 0 20 20">
-                            <path fillRule="evenodd" d="M5 9V7a5 5 0 0110 0v2a2 2 0 012 2v5a2 2 0 01-2 2H5a2 2 0 01-2-2v-5a2 2 0 012-2zm8-2v2H7V7a3 3 0 016 0z" clipRule="evenodd" />
-                          </svg>
-                        )}
-                      </div>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-right">
-                      <div className="text-sm font-bold text-green-600">{item.available}</div>
-                    </td>
-                    {/* <td className="px-6 py-4 whitespace-nowrap text-right">
-                      <div className="text-sm text-gray-900">{item.sold}</div>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-center">
-                      {getStockBadge(item)}
-                    </td> */}
-                  </tr>
+                  <React.Fragment key={item.sku}>
+                    <tr className="hover:bg-gray-50">
+                      {/* <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="text-sm font-medium text-gray-900">{item.name}</div>
+                      </td> */}
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="text-sm text-gray-900 font-mono">{item.sku}</div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right">
+                        <div className="text-sm font-semibold text-gray-900">{item.stock}</div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right">
+                        <div className="flex items-center justify-end gap-1">
+                          <span className={`text-sm font-medium ${item.reserved > 0 ? 'text-orange-600' : 'text-gray-500'}`}>
+                            {item.reserved}
+                          </span>
+                          {item.reserved > 0 && (
+                            <svg className="w-4 h-4 text-orange-500" fill="currentColor" viewBox="0 0 20 20">
+                              <path fillRule="evenodd" d="M5 9V7a5 5 0 0110 0v2a2 2 0 012 2v5a2 2 0 01-2 2H5a2 2 0 01-2-2v-5a2 2 0 012-2zm8-2v2H7V7a3 3 0 016 0z" clipRule="evenodd" />
+                            </svg>
+                          )}
+                        </div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right">
+                        <div className="text-sm font-bold text-green-600">{item.available}</div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right">
+                        <div className={`text-sm font-medium ${(item.backordered ?? 0) > 0 ? 'text-amber-600' : 'text-gray-500'}`}>
+                          {item.backordered ?? 0}
+                        </div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="flex items-center gap-2">
+                          <span className="text-sm text-gray-700">{backorderMode(item)}</span>
+                          <button onClick={() => toggleBackorderForm(item)} className="text-sm text-primary-600 hover:underline">
+                            {editingSku === item.sku ? 'Close' : 'Edit'}
+                          </button>
+                        </div>
+                      </td>
+                      {/* <td className="px-6 py-4 whitespace-nowrap text-right">
+                        <div className="text-sm text-gray-900">{item.sold}</div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-center">
+                        {getStockBadge(item)}
+                      </td> */}
+                    </tr>
+                    {editingSku === item.sku && (
+                      <tr className="bg-gray-50">
+                        <td colSpan={6} className="px-6 py-4">
+                          <form
+                            onSubmit={(e) => handleSaveBackorder(e, item.sku)}
+                            className="flex flex-col md:flex-row md:items-end gap-4 text-sm"
+                          >
+                            <label className="flex items-center gap-2 text-gray-900">
+                              <input
+                                type="checkbox"
+                                checked={backorderForm.backorderable}
+                                onChange={(e) => setBackorderForm({ ...backorderForm, backorderable: e.target.checked })}
+                              />
+                              Sell when out of stock (back-order)
+                            </label>
+                            <label className="flex items-center gap-2 text-gray-900">
+                              <input
+                                type="checkbox"
+                                checked={backorderForm.preorderable}
+                                onChange={(e) => setBackorderForm({ ...backorderForm, preorderable: e.target.checked })}
+                              />
+                              Pre-order before release
+                            </label>
+                            <label className="flex flex-col text-gray-600">
+                              Release date
+                              <input
+                                type="date"
+                                value={backorderForm.releaseDate}
+                                onChange={(e) => setBackorderForm({ ...backorderForm, releaseDate: e.target.value })}
+                                className="input"
+                              />
+                            </label>
+                            <label className="flex flex-col text-gray-600">
+                              Max back-ordered units
+                              <input
+                                type="number"
+                                min={0}
+                                value={backorderForm.maxBackorder}
+                                onChange={(e) => setBackorderForm({ ...backorderForm, maxBackorder: e.target.value })}
+                                placeholder="No limit"
+                                className="input w-32"
+                              />
+                            </label>
+                            <button type="submit" disabled={savingBackorder} className="btn-primary whitespace-nowrap">
+                              {savingBackorder ? 'Saving...' : 'Save'}
+                            </button>
+                          </form>
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
                 ))}
               </tbody>
             </table>
@@ -1,15 +1,20 @@
 'use client';
 
-import { useState, useEffect, useMemo } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
 import { useRouter } from 'next/navigation';
 import { useAppSelector, useAppDispatch } from '@/lib/redux/hooks';
-import { orderApi } from '@/lib/api/order';
+import { orderApi, FilterOrderQuery } from '@/lib/api/order';
 import { Order } from '@/lib/redux/slices/orderSlice';
 import { addOrder, updateOrderStatus as updateOrderStatusRedux } from '@/lib/redux/slices/orderSlice';
 import { toast } from 'react-toastify';
 import { useInfiniteScroll } from '@/hooks/useInfiniteScroll';
 import { useWebSocket } from '@/hooks/useWebSocket';
 import { socketService } from '@/lib/websocket/socket.service';
+import { formatMoney } from '@/lib/currency';
+import { hasInvoice, saveInvoice } from '@/lib/invoice';
+import { SHIPPABLE_STATUSES, shippableQuantity, unshippedQuantity } from '@/lib/shipments';
+import { allocationLabel } from '@/lib/allocation';
+import { paymentApi, Payment } from '@/lib/api/payment';
 
 /**
  * Admin Orders Management Page
@@ -34,7 +39,20 @@ export default function AdminOrdersPage() {
 
   const [selectedOrder, setSelectedOrder] = useState<Order | null>(null);
   const [updatingStatus, setUpdatingStatus] = useState<string | null>(null);
+  const [downloading, setDownloading] = useState<string | null>(null);
+  const [shipmentForm, setShipmentForm] = useState({
+    carrier: '',
+    trackingNumber: '',
+    quantities: {} as Record<string, number>,
+  });
+  const [shipping, setShipping] = useState(false);
   const [statusFilter, setStatusFilter] = useState<string>('all');
+  const [sortOption, setSortOption] = useState<string>('createdAt:desc');
+  const [createdFrom, setCreatedFrom] = useState('');
+  const [createdTo, setCreatedTo] = useState('');
+  const [buyerFilter, setBuyerFilter] = useState('');
+  const [exportFormat, setExportFormat] = useState<'csv' | 'ndjson'>('csv');
+  const [exportRows, setExportRows] = useState<'order' | 'item'>('order');
   const [searchTerm, setSearchTerm] = useState('');
   const [stats, setStats] = useState({
     total: 0,
@@ -51,10 +69,13 @@ export default function AdminOrdersPage() {
 
   // Local orders state for real-time updates (admin sees new orders from users)
   const [localOrders, setLocalOrders] = useState<Order[]>([]);
+  // Latest payment of each card order (null: none recorded)
+  const [payments, setPayments] = useState<Record<string, Payment | null>>({});
+  const requestedPayments = useRef(new Set<string>());
 
-  // Infinite scroll for orders
-  const fetchOrders = async (page: number, pageSize: number) => {
-    const orders = await orderApi.getOrders({ page, limit: pageSize });
+  // Infinite scroll for orders (status filter and sorting are applied server-side)
+  const fetchOrders = async (page: number, pageSize: number, filters?: FilterOrderQuery) => {
+    const orders = await orderApi.getOrders({ ...filters, page, limit: pageSize });
     return orders;
   };
 
@@ -66,10 +87,48 @@ export default function AdminOrdersPage() {
     setLastElementRef,
     reset,
     refetch,
+    updateFilters,
   } = useInfiniteScroll<Order>(fetchOrders, 1, 20);
 
   const [error, setError] = useState<string | null>(scrollError);
 
+  // Re-query the server when the status filter or sort changes (skip the initial mount)
+  const filtersInitialized = useRef(false);
+  useEffect(() => {
+    if (!filtersInitialized.current) {
+      filtersInitialized.current = true;
+      return;
+    }
+    const [sortBy, sortOrder] = sortOption.split(':') as [
+      FilterOrderQuery['sortBy'],
+      FilterOrderQuery['sortOrder'],
+    ];
+    updateFilters({
+      status: statusFilter === 'all' ? undefined : statusFilter,
+      createdFrom: createdFrom || undefined,
+      createdTo: createdTo || undefined,
+      buyerId: buyerFilter.trim() || undefined,
+      sortBy,
+      sortOrder,
+    });
+  }, [statusFilter, sortOption, createdFrom, createdTo, buyerFilter, updateFilters]);
+
+  /**
+   * Download every order matching the current filters
+   */
+  const handleExport = () => {
+    const link = document.createElement('a');
+    link.href = orderApi.exportOrdersUrl({
+      status: statusFilter === 'all' ? undefined : (statusFilter as Order['status']),
+      createdFrom: createdFrom || undefined,
+      createdTo: createdTo || undefined,
+      buyerId: buyerFilter.trim() || undefined,
+      format: exportFormat,
+      rows: exportRows,
+    });
+    link.click();
+  };
+
   useEffect(() => {
     // Redirect if not authenticated
     if (!authLoading && !isAuthenticated) {
@@ -119,7 +178,14 @@ export default function AdminOrdersPage() {
         userId: data.buyerId || data.userId,
         items: data.items || [],
         subtotal: data.subtotal || 0,
+        discount: data.discount,
+        couponCode: data.couponCode,
+        shippingMethod: data.shippingMethod,
+        shippingCost: data.shippingCost,
         tax: data.tax || 0,
+        currency: data.currency,
+        baseCurrency: data.baseCurrency,
+        baseTotal: data.baseTotal,
         total: data.total || data.totalAmount || 0,
         status: data.status || 'pending',
         shippingAddress: data.shippingAddress || {
@@ -200,6 +266,18 @@ export default function AdminOrdersPage() {
     return filtered;
   }, [localOrders, statusFilter, searchTerm]);
 
+  // Fetch the payment of each card order once it is listed
+  useEffect(() => {
+    for (const order of filteredOrders) {
+      if (order.paymentMethod !== 'card' || requestedPayments.current.has(order._id)) continue;
+      requestedPayments.current.add(order._id);
+      paymentApi
+        .getOrderPayments(order._id)
+        .then((list) => setPayments((prev) => ({ ...prev, [order._id]: list[0] ?? null })))
+        .catch(() => setPayments((prev) => ({ ...prev, [order._id]: null })));
+    }
+  }, [filteredOrders]);
+
   /**
    * Fetch order statistics
    */
@@ -247,6 +325,125 @@ export default function AdminOrdersPage() {
     }
   };
 
+  /**
+   * Show an order returned by a shipment call in the list and the modal
+   */
+  const replaceOrder = (updated: Order) => {
+    setLocalOrders(prev => prev.map(order => (order._id === updated._id ? updated : order)));
+    setSelectedOrder(updated);
+  };
+
+  /**
+   * Ship the chosen quantities (everything left by default)
+   */
+  const handleCreateShipment = async (e: React.FormEvent, order: Order) => {
+    e.preventDefault();
+
+    if (!shipmentForm.carrier.trim() || !shipmentForm.trackingNumber.trim()) {
+      toast.error('Please enter the carrier and tracking number');
+      return;
+    }
+    const items = order.items
+      .map((item) => ({
+        sku: item.sku,
+        quantity: shipmentForm.quantities[item.sku] ?? shippableQuantity(order, item.sku),
+      }))
+      .filter((item) => item.quantity > 0);
+    if (!items.length) {
+      toast.error('Please choose at least one item to ship');
+      return;
+    }
+
+    try {
+      setShipping(true);
+      const updated = await orderApi.createShipment(order._id, {
+        carrier: shipmentForm.carrier.trim(),
+        trackingNumber: shipmentForm.trackingNumber.trim(),
+        items,
+      });
+      replaceOrder(updated);
+      setShipmentForm({ carrier: '', trackingNumber: '', quantities: {} });
+      toast.success(`Shipment created, order ${updated.status.replace('_', ' ')}`);
+      fetchStats();
+    } catch (err: any) {
+      console.error('Error creating shipment:', err);
+      toast.error(err.message || 'Failed to create shipment');
+    } finally {
+      setShipping(false);
+    }
+  };
+
+  /**
+   * Record that a shipment arrived; the order is delivered with its last one
+   */
+  const handleDeliverShipment = async (order: Order, shipmentId: string) => {
+    try {
+      setShipping(true);
+      const updated = await orderApi.deliverShipment(order._id, shipmentId);
+      replaceOrder(updated);
+      toast.success(updated.status === 'delivered' ? 'Order delivered' : 'Shipment delivered');
+      fetchStats();
+    } catch (err: any) {
+      console.error('Error delivering shipment:', err);
+      toast.error(err.message || 'Failed to update shipment');
+    } finally {
+      setShipping(false);
+    }
+  };
+
+  /**
+   * Download the invoice PDF
+   */
+  const handleDownloadInvoice = async (order: Order) => {
+    try {
+      setDownloading(order._id);
+      await saveInvoice(order);
+    } catch (err: any) {
+      console.error('Error downloading invoice:', err);
+      toast.error(err.message || 'Failed to download invoice');
+    } finally {
+      setDownloading(null);
+    }
+  };
+
+  /**
+   * Payment column badge: cash on delivery, or the status of the latest payment
+   */
+  const renderPaymentBadge = (order: Order) => {
+    const payment = payments[order._id];
+    let label = 'Cash on delivery';
+    let color = 'bg-gray-100 text-gray-800';
+    let title: string | undefined;
+
+    if (order.paymentMethod === 'card') {
+      if (payment === undefined) {
+        label = 'Loading...';
+      } else if (payment === null) {
+        label = 'No payment';
+      } else {
+        const badges: Record<Payment['status'], [string, string]> = {
+          created: ['Awaiting payment', 'bg-yellow-100 text-yellow-800'],
+          authorized: ['Authorized', 'bg-blue-100 text-blue-800'],
+          captured: ['Captured', 'bg-green-100 text-green-800'],
+          partially_refunded: ['Partially refunded', 'bg-orange-100 text-orange-800'],
+          refunded: ['Refunded', 'bg-orange-100 text-orange-800'],
+          failed: ['Failed', 'bg-red-100 text-red-800'],
+        };
+        [label, color] = badges[payment.status];
+        if (payment.refundedAmount > 0) {
+          label += ` (${formatMoney(payment.refundedAmount, payment.currency)})`;
+        }
+        title = `${payment.provider} ${payment.paymentId || payment.sessionId || ''}`.trim();
+      }
+    }
+
+    return (
+      <span title={title} className={`text-xs font-semibold rounded-full px-3 py-1 ${color}`}>
+        {label}
+      </span>
+    );
+  };
+
   /**
    * Get status badge color
    */
@@ -254,8 +451,12 @@ export default function AdminOrdersPage() {
     const colors = {
       pending: 'bg-yellow-100 text-yellow-800',
       processing: 'bg-blue-100 text-blue-800',
+      paid: 'bg-indigo-100 text-indigo-800',
+      partially_shipped: 'bg-purple-100 text-purple-800',
       shipped: 'bg-purple-100 text-purple-800',
       delivered: 'bg-green-100 text-green-800',
+      partially_refunded: 'bg-orange-100 text-orange-800',
+      refunded: 'bg-orange-100 text-orange-800',
       cancelled: 'bg-red-100 text-red-800',
     };
     return colors[status] || 'bg-gray-100 text-gray-800';
@@ -388,16 +589,28 @@ export default function AdminOrdersPage() {
               value={statusFilter}
               onChange={(e) => setStatusFilter(e.target.value)}
               className="input w-full"
-              disabled={statusFilter === 'delivered' || statusFilter === 'cancelled'}
             >
               <option value="all">All Statuses</option>
               <option value="pending">Pending</option>
               <option value="processing">Processing</option>
+              <option value="paid">Paid</option>
               <option value="shipped">Shipped</option>
               <option value="delivered">Delivered</option>
               <option value="cancelled">Cancelled</option>
             </select>
           </div>
+          <div className="w-full md:w-48">
+            <select
+              value={sortOption}
+              onChange={(e) => setSortOption(e.target.value)}
+              className="input w-full"
+            >
+              <option value="createdAt:desc">Newest first</option>
+              <option value="createdAt:asc">Oldest first</option>
+              <option value="total:desc">Total: high to low</option>
+              <option value="total:asc">Total: low to high</option>
+            </select>
+          </div>
           <button onClick={() => reset()} className="btn-secondary whitespace-nowrap">
             <svg className="w-5 h-5 inline mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
@@ -405,6 +618,55 @@ export default function AdminOrdersPage() {
             Refresh
           </button>
         </div>
+        <div className="flex flex-col md:flex-row md:items-end gap-4 mt-4">
+          <label className="text-sm text-gray-600">
+            From
+            <input
+              type="date"
+              value={createdFrom}
+              onChange={(e) => setCreatedFrom(e.target.value)}
+              className="input w-full mt-1"
+            />
+          </label>
+          <label className="text-sm text-gray-600">
+            To
+            <input
+              type="date"
+              value={createdTo}
+              onChange={(e) => setCreatedTo(e.target.value)}
+              className="input w-full mt-1"
+            />
+          </label>
+          <label className="text-sm text-gray-600 flex-1">
+            Buyer ID
+            <input
+              type="text"
+              value={buyerFilter}
+              onChange={(e) => setBuyerFilter(e.target.value)}
+              placeholder="Exact buyer ID"
+              className="input w-full mt-1"
+            />
+          </label>
+          <select
+            value={exportFormat}
+            onChange={(e) => setExportFormat(e.target.value as 'csv' | 'ndjson')}
+            className="input md:w-32"
+          >
+            <option value="csv">CSV</option>
+            <option value="ndjson">NDJSON</option>
+          </select>
+          <select
+            value={exportRows}
+            onChange={(e) => setExportRows(e.target.value as 'order' | 'item')}
+            className="input md:w-40"
+          >
+            <option value="order">Row per order</option>
+            <option value="item">Row per item</option>
+          </select>
+          <button onClick={handleExport} className="btn-primary whitespace-nowrap">
+            Export
+          </button>
+        </div>
       </div>
 
       {/* Error Display */}
@@ -440,6 +702,9 @@ export default function AdminOrdersPage() {
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Total
                   </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Payment
+                  </th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Status
                   </th>
@@ -466,19 +731,26 @@ export default function AdminOrdersPage() {
                       <div className="text-sm text-gray-900">{order.items.length} items</div>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
-                      <div className="text-sm font-semibold text-gray-900">${order.total.toFixed(2)}</div>
+                      <div className="text-sm font-semibold text-gray-900">{formatMoney(order.total, order.currency)}</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      {renderPaymentBadge(order)}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       <select
                         value={order.status}
                         onChange={(e) => handleUpdateStatus(order._id, e.target.value as Order['status'])}
-                        disabled={updatingStatus === order._id || order.status === 'delivered' || order.status === 'cancelled'}
+                        disabled={updatingStatus === order._id || order.status === 'delivered' || order.status === 'refunded' || order.status === 'cancelled'}
                         className={`text-sm font-semibold rounded-full px-3 py-1 ${getStatusColor(order.status)} disabled:opacity-50`}
                       >
                         <option value="pending">Pending</option>
                         <option value="processing">Processing</option>
+                        <option value="paid">Paid</option>
+                        <option value="partially_shipped" disabled>Partially shipped</option>
                         <option value="shipped">Shipped</option>
                         <option value="delivered">Delivered</option>
+                        <option value="partially_refunded" disabled>Partially refunded</option>
+                        <option value="refunded" disabled>Refunded</option>
                         <option value="cancelled">Cancelled</option>
                       </select>
                     </td>
@@ -492,6 +764,15 @@ export default function AdminOrdersPage() {
                       >
                         {selectedOrder?._id === order._id ? 'Hide' : 'View'}
                       </button>
+                      {hasInvoice(order) && (
+                        <button
+                          onClick={() => handleDownloadInvoice(order)}
+                          disabled={downloading === order._id}
+                          className="ml-4 text-primary-600 hover:text-primary-900 disabled:opacity-50"
+                        >
+                          {downloading === order._id ? 'Downloading...' : 'Invoice'}
+                        </button>
+                      )}
                     </td>
                   </tr>
                 ))}
@@ -557,6 +838,11 @@ export default function AdminOrdersPage() {
                           <p className="text-sm text-gray-600">
                             ${(item?.unitPrice || 0).toFixed(2)} × {item?.quantity || 0}
                           </p>
+                          {item?.allocation && (
+                            <p className={`text-xs ${allocationLabel(item) ? 'text-amber-600' : 'text-green-600'}`}>
+                              {allocationLabel(item) || 'Allocated'}
+                            </p>
+                          )}
                         </div>
                         <p className="font-semibold text-gray-900">
                           ${((item?.unitPrice || 0) * (item?.quantity || 0)).toFixed(2)}
@@ -588,21 +874,176 @@ export default function AdminOrdersPage() {
                   <p className="text-sm text-gray-500">No shipping address provided</p>
                 </div>
               )}
+              {/* Amendment history */}
+              {!!selectedOrder.amendments?.length && (
+                <div className="mb-6">
+                  <h4 className="font-semibold text-gray-900 mb-4">Amendments</h4>
+                  <div className="space-y-2">
+                    {selectedOrder.amendments.map((amendment) => (
+                      <div key={amendment.id} className="bg-gray-50 p-3 rounded text-sm">
+                        <div className="flex justify-between">
+                          <p className="font-medium text-gray-900">
+                            #{amendment.number} by {amendment.changedBy}
+                          </p>
+                          <span className="text-gray-600">{formatDate(amendment.changedAt)}</span>
+                        </div>
+                        <p className="text-gray-600">
+                          {[
+                            ...amendment.lines.map((line) => `${line.name} ${line.from} → ${line.to}`),
+                            ...(amendment.addressChanged ? ['shipping address changed'] : []),
+                          ].join(', ')}
+                        </p>
+                        <p className="text-gray-600">
+                          Total {formatMoney(amendment.previousTotal, selectedOrder.currency)} →{' '}
+                          {formatMoney(amendment.total, selectedOrder.currency)}
+                          {amendment.reason ? ` - ${amendment.reason}` : ''}
+                        </p>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+              {/* Shipments */}
+              {(!!selectedOrder.shipments?.length || SHIPPABLE_STATUSES.includes(selectedOrder.status)) && (
+                <div className="mb-6">
+                  <h4 className="font-semibold text-gray-900 mb-4">Shipments</h4>
+                  <div className="space-y-2">
+                    {(selectedOrder.shipments || []).map((shipment) => (
+                      <div key={shipment.id} className="bg-gray-50 p-3 rounded text-sm flex justify-between items-center">
+                        <div>
+                          <p className="font-medium text-gray-900">
+                            {shipment.carrier} <span className="font-mono">{shipment.trackingNumber}</span>
+                          </p>
+                          <p className="text-gray-600">
+                            {shipment.items.map((item) => `${item.name} × ${item.quantity}`).join(', ')}
+                          </p>
+                        </div>
+                        {shipment.status === 'delivered' ? (
+                          <span className="text-green-700 font-medium">
+                            Delivered {shipment.deliveredAt ? formatDate(shipment.deliveredAt) : ''}
+                          </span>
+                        ) : (
+                          <button
+                            onClick={() => handleDeliverShipment(selectedOrder, shipment.id)}
+                            disabled={shipping}
+                            className="text-primary-600 hover:text-primary-900 disabled:opacity-50"
+                          >
+                            Mark Delivered
+                          </button>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+
+                  {SHIPPABLE_STATUSES.includes(selectedOrder.status) && (
+                    <form onSubmit={(e) => handleCreateShipment(e, selectedOrder)} className="mt-4 space-y-3">
+                      <div className="flex gap-3">
+                        <input
+                          value={shipmentForm.carrier}
+                          onChange={(e) => setShipmentForm({ ...shipmentForm, carrier: e.target.value })}
+                          placeholder="Carrier"
+                          className="input flex-1"
+                        />
+                        <input
+                          value={shipmentForm.trackingNumber}
+                          onChange={(e) => setShipmentForm({ ...shipmentForm, trackingNumber: e.target.value })}
+                          placeholder="Tracking number"
+                          className="input flex-1"
+                        />
+                      </div>
+                      {selectedOrder.items.map((item) => {
+                        const left = shippableQuantity(selectedOrder, item.sku);
+                        const waiting = unshippedQuantity(selectedOrder, item.sku) - left;
+                        return (
+                          <div key={item.sku} className="flex items-center justify-between text-sm">
+                            <span className="text-gray-900">
+                              {item.name} ({left} of {item.quantity} left
+                              {waiting > 0 ? `, ${waiting} waiting for stock` : ''})
+                            </span>
+                            <input
+                              type="number"
+                              min={0}
+                              max={left}
+                              value={shipmentForm.quantities[item.sku] ?? left}
+                              onChange={(e) =>
+                                setShipmentForm({
+                                  ...shipmentForm,
+                                  quantities: {
+                                    ...shipmentForm.quantities,
+                                    [item.sku]: Math.min(left, Math.max(0, Number(e.target.value))),
+                                  },
+                                })
+                              }
+                              disabled={left === 0}
+                              className="input w-24"
+                            />
+                          </div>
+                        );
+                      })}
+                      <button type="submit" disabled={shipping} className="btn-primary disabled:opacity-50">
+                        {shipping ? 'Shipping...' : 'Create Shipment'}
+                      </button>
+                    </form>
+                  )}
+                </div>
+              )}
+
+              {/* Status History */}
+              {selectedOrder.statusHistory && selectedOrder.statusHistory.length > 0 && (
+                <div className="mb-6">
+                  <h4 className="font-semibold text-gray-900 mb-4">Status History</h4>
+                  <ol className="space-y-2">
+                    {selectedOrder.statusHistory.map((entry, index) => (
+                      <li key={index} className="bg-gray-50 p-3 rounded text-sm">
+                        <div className="flex justify-between">
+                          <span className="font-medium text-gray-900">
+                            {entry.from ? `${entry.from} → ${entry.to}` : entry.to}
+                          </span>
+                          <span className="text-gray-500">{formatDate(entry.changedAt)}</span>
+                        </div>
+                        <p className="text-gray-600">
+                          by {entry.changedBy}
+                          {entry.reason ? ` — ${entry.reason}` : ''}
+                        </p>
+                      </li>
+                    ))}
+                  </ol>
+                </div>
+              )}
+
               {/* Order Summary */}
               <div className="border-t pt-4">
                 <div className="space-y-2">
                   <div className="flex justify-between text-sm text-gray-600">
                     <span>Subtotal:</span>
-                    <span>${(selectedOrder.subtotal || 0).toFixed(2)}</span>
+                    <span>{formatMoney(selectedOrder.subtotal || 0, selectedOrder.currency)}</span>
                   </div>
+                  {!!selectedOrder.discount && (
+                    <div className="flex justify-between text-sm text-gray-600">
+                      <span>Discount{selectedOrder.couponCode ? ` (${selectedOrder.couponCode})` : ''}:</span>
+                      <span>-{formatMoney(selectedOrder.discount, selectedOrder.currency)}</span>
+                    </div>
+                  )}
+                  {selectedOrder.shippingMethod && (
+                    <div className="flex justify-between text-sm text-gray-600">
+                      <span className="capitalize">Shipping ({selectedOrder.shippingMethod}):</span>
+                      <span>{formatMoney(selectedOrder.shippingCost || 0, selectedOrder.currency)}</span>
+                    </div>
+                  )}
                   <div className="flex justify-between text-sm text-gray-600">
-                    <span>Tax (10%):</span>
-                    <span>${(selectedOrder.tax || 0).toFixed(2)}</span>
+                    <span>Tax:</span>
+                    <span>{formatMoney(selectedOrder.tax || 0, selectedOrder.currency)}</span>
                   </div>
                   <div className="flex justify-between items-center text-lg font-bold pt-2 border-t">
                     <span>Total Amount:</span>
-                    <span className="text-primary-600">${selectedOrder.total.toFixed(2)}</span>
+                    <span className="text-primary-600">{formatMoney(selectedOrder.total, selectedOrder.currency)}</span>
                   </div>
+                  {selectedOrder.baseCurrency && selectedOrder.currency !== selectedOrder.baseCurrency && (
+                    <div className="flex justify-between text-xs text-gray-500">
+                      <span>In {selectedOrder.baseCurrency}:</span>
+                      <span>{formatMoney(selectedOrder.baseTotal ?? 0, selectedOrder.baseCurrency)}</span>
+                    </div>
+                  )}
                 </div>
               </div>
             </div>
@@ -0,0 +1,298 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { toast } from 'react-toastify';
+import { useAppSelector } from '@/lib/redux/hooks';
+import { orderApi, ReturnRequest, ReturnStatus } from '@/lib/api/order';
+import { formatMoney } from '@/lib/currency';
+
+/**
+ * Admin Returns Management Page
+ *
+ * Review return requests (approving one asks the payment service for the
+ * refund) and check in the returned goods, splitting every line into
+ * restockable and damaged units. Restockable units go back into inventory.
+ *
+ * @returns Admin returns management page
+ */
+export default function AdminReturnsPage() {
+  const router = useRouter();
+  const { user, isAuthenticated, loading: authLoading } = useAppSelector((state) => state.auth);
+
+  const [returns, setReturns] = useState<ReturnRequest[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState<ReturnStatus | 'all'>('requested');
+  const [working, setWorking] = useState<string | null>(null);
+  /** Restockable units per SKU for the return being received */
+  const [receiving, setReceiving] = useState<{ id: string; restockable: Record<string, number> } | null>(null);
+
+  const isAdmin = user?.email?.toLowerCase().includes('admin') || user?.role === 'admin';
+
+  const fetchReturns = useCallback(async () => {
+    try {
+      setLoading(true);
+      const { data } = await orderApi.listReturns({
+        status: statusFilter === 'all' ? undefined : statusFilter,
+        limit: 100,
+      });
+      setReturns(data);
+    } catch (err: any) {
+      console.error('Error loading returns:', err);
+      toast.error(err.message || 'Failed to load returns');
+    } finally {
+      setLoading(false);
+    }
+  }, [statusFilter]);
+
+  useEffect(() => {
+    if (!authLoading && !isAuthenticated) {
+      router.push('/admin/login');
+      return;
+    }
+    if (!authLoading && isAuthenticated && !isAdmin) {
+      toast.error('Access denied. Admin privileges required.');
+      router.push('/products');
+      return;
+    }
+    if (isAuthenticated && isAdmin) {
+      fetchReturns();
+    }
+  }, [isAuthenticated, isAdmin, authLoading, router, fetchReturns]);
+
+  const replaceReturn = (updated: ReturnRequest) => {
+    setReturns((prev) => prev.map((ret) => (ret.id === updated.id ? updated : ret)));
+  };
+
+  /**
+   * Approve or reject a requested return
+   */
+  const handleReview = async (ret: ReturnRequest, decision: 'approve' | 'reject') => {
+    const note = window.prompt(
+      decision === 'approve'
+        ? `Approve the return and refund ${formatMoney(ret.refundAmount, ret.currency)}? Optional note:`
+        : 'Reject the return? Please tell the customer why:'
+    );
+    if (note === null) return;
+    if (decision === 'reject' && !note.trim()) {
+      toast.error('Please provide a reason for rejecting');
+      return;
+    }
+
+    try {
+      setWorking(ret.id);
+      replaceReturn(await orderApi.reviewReturn(ret.id, decision, note.trim() || undefined));
+      toast.success(decision === 'approve' ? 'Return approved, refund requested' : 'Return rejected');
+    } catch (err: any) {
+      console.error('Error reviewing return:', err);
+      toast.error(err.message || 'Failed to review return');
+    } finally {
+      setWorking(null);
+    }
+  };
+
+  /**
+   * Record the received goods; units not restockable are damaged
+   */
+  const handleReceive = async (ret: ReturnRequest) => {
+    if (!receiving) return;
+
+    try {
+      setWorking(ret.id);
+      const items = ret.items.map((item) => {
+        const restockable = receiving.restockable[item.sku] ?? item.quantity;
+        return { sku: item.sku, restockable, damaged: item.quantity - restockable };
+      });
+      replaceReturn(await orderApi.receiveReturn(ret.id, { items }));
+      setReceiving(null);
+      toast.success('Return received');
+    } catch (err: any) {
+      console.error('Error receiving return:', err);
+      toast.error(err.message || 'Failed to receive return');
+    } finally {
+      setWorking(null);
+    }
+  };
+
+  const getStatusColor = (status: ReturnStatus) => {
+    const colors = {
+      requested: 'bg-yellow-100 text-yellow-800',
+      approved: 'bg-blue-100 text-blue-800',
+      rejected: 'bg-red-100 text-red-800',
+      received: 'bg-green-100 text-green-800',
+    };
+    return colors[status];
+  };
+
+  if (authLoading || (loading && returns.length === 0)) {
+    return (
+      <div className="container-custom py-12">
+        <div className="flex items-center justify-center min-h-[400px]">
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600 mx-auto mb-4"></div>
+            <p className="text-gray-600">Loading returns...</p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container-custom py-8">
+      {/* Header */}
+      <div className="mb-8 flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Returns</h1>
+          <p className="text-gray-600">Review return requests and receive returned goods</p>
+        </div>
+        <select
+          value={statusFilter}
+          onChange={(e) => setStatusFilter(e.target.value as ReturnStatus | 'all')}
+          className="input w-48"
+        >
+          <option value="all">All Returns</option>
+          <option value="requested">Requested</option>
+          <option value="approved">Approved</option>
+          <option value="rejected">Rejected</option>
+          <option value="received">Received</option>
+        </select>
+      </div>
+
+      {returns.length === 0 ? (
+        <div className="text-center py-12 bg-white rounded-lg shadow">
+          <div className="text-6xl mb-4">↩️</div>
+          <h3 className="text-xl font-semibold text-gray-900 mb-2">No returns found</h3>
+          <p className="text-gray-600">Try another status</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {returns.map((ret) => (
+            <div key={ret.id} className="bg-white rounded-lg shadow p-6">
+              <div className="flex justify-between items-start mb-4">
+                <div>
+                  <h3 className="text-lg font-semibold text-gray-900">
+                    Order #{ret.orderId.slice(-8).toUpperCase()}
+                  </h3>
+                  <p className="text-sm text-gray-600">
+                    Customer {ret.buyerId.slice(0, 8)}... - {new Date(ret.createdAt).toLocaleString()}
+                  </p>
+                  <p className="text-sm text-gray-600 mt-1">Reason: {ret.reason}</p>
+                </div>
+                <div className="text-right">
+                  <span className={`px-3 py-1 rounded-full text-sm font-semibold ${getStatusColor(ret.status)}`}>
+                    {ret.status}
+                  </span>
+                  <p className="text-sm font-semibold text-gray-900 mt-2">
+                    Refund {formatMoney(ret.refundAmount, ret.currency)}
+                  </p>
+                </div>
+              </div>
+
+              <table className="min-w-full text-sm mb-4">
+                <thead>
+                  <tr className="text-left text-xs text-gray-500 uppercase">
+                    <th className="py-1">Item</th>
+                    <th className="py-1">Qty</th>
+                    <th className="py-1">Restockable</th>
+                    <th className="py-1">Damaged</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {ret.items.map((item) => {
+                    const restockable = receiving?.id === ret.id
+                      ? receiving.restockable[item.sku] ?? item.quantity
+                      : item.restockedQuantity;
+                    return (
+                      <tr key={item.sku} className="text-gray-900">
+                        <td className="py-1">{item.name} ({item.sku})</td>
+                        <td className="py-1">{item.quantity}</td>
+                        <td className="py-1">
+                          {receiving?.id === ret.id ? (
+                            <input
+                              type="number"
+                              min={0}
+                              max={item.quantity}
+                              value={restockable}
+                              onChange={(e) =>
+                                setReceiving({
+                                  id: ret.id,
+                                  restockable: {
+                                    ...receiving.restockable,
+                                    [item.sku]: Math.min(item.quantity, Math.max(0, Number(e.target.value))),
+                                  },
+                                })
+                              }
+                              className="input w-20"
+                            />
+                          ) : (
+                            restockable ?? '-'
+                          )}
+                        </td>
+                        <td className="py-1">
+                          {restockable === undefined ? '-' : item.quantity - restockable}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+
+              <div className="flex space-x-2">
+                {ret.status === 'requested' && (
+                  <>
+                    <button
+                      onClick={() => handleReview(ret, 'approve')}
+                      disabled={working === ret.id}
+                      className="btn-primary disabled:opacity-50"
+                    >
+                      Approve
+                    </button>
+                    <button
+                      onClick={() => handleReview(ret, 'reject')}
+                      disabled={working === ret.id}
+                      className="btn-secondary disabled:opacity-50"
+                    >
+                      Reject
+                    </button>
+                  </>
+                )}
+                {ret.status === 'approved' && (receiving?.id === ret.id ? (
+                  <>
+                    <button
+                      onClick={() => handleReceive(ret)}
+                      disabled={working === ret.id}
+                      className="btn-primary disabled:opacity-50"
+                    >
+                      {working === ret.id ? 'Saving...' : 'Confirm Receipt'}
+                    </button>
+                    <button onClick={() => setReceiving(null)} className="btn-secondary">
+                      Cancel
+                    </button>
+                  </>
+                ) : (
+                  <button
+                    onClick={() => setReceiving({ id: ret.id, restockable: {} })}
+                    className="btn-outline"
+                  >
+                    Receive Goods
+                  </button>
+                ))}
+              </div>
+
+              {ret.statusHistory.length > 1 && (
+                <ul className="mt-4 space-y-1 text-xs text-gray-500">
+                  {ret.statusHistory.slice(1).map((entry, index) => (
+                    <li key={index}>
+                      {new Date(entry.changedAt).toLocaleString()} - {entry.from} → {entry.to} by {entry.changedBy.slice(0, 8)}
+                      {entry.note ? `: ${entry.note}` : ''}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
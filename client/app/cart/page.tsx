@@ -140,16 +140,16 @@ export default function CartPage() {
               </div>
               <div className="flex justify-between text-gray-600">
                 <span>Shipping</span>
-                <span>Free</span>
+                <span>Calculated at checkout</span>
               </div>
               <div className="flex justify-between text-gray-600">
-                <span>Tax (10%)</span>
-                <span>${(total * 0.1).toFixed(2)}</span>
+                <span>Tax</span>
+                <span>Calculated at checkout</span>
               </div>
               <div className="border-t pt-3">
                 <div className="flex justify-between text-xl font-bold text-gray-900">
-                  <span>Total</span>
-                  <span>${(total * 1.1).toFixed(2)}</span>
+                  <span>Estimated Total</span>
+                  <span>${total.toFixed(2)}</span>
                 </div>
               </div>
             </div>
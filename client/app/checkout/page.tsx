@@ -1,10 +1,13 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useRouter } from 'next/navigation';
+import Link from 'next/link';
 import { useAppSelector, useAppDispatch } from '@/lib/redux/hooks';
-import { clearCart } from '@/lib/redux/slices/cartSlice';
-import { orderApi } from '@/lib/api/order';
+import { clearCart, updatePrices } from '@/lib/redux/slices/cartSlice';
+import { orderApi, PriceChange, CouponQuote, TaxQuote, ShippingOption, CurrencyTable } from '@/lib/api/order';
+import { convertFromBase, formatMoney } from '@/lib/currency';
+import { guestBuyerId, guestOrderUrl, saveGuestOrder } from '@/lib/guestOrders';
 import { toast } from 'react-toastify';
 
 /**
@@ -15,26 +18,68 @@ import { toast } from 'react-toastify';
  * Online payment integration is upcoming.
  *
  * Features:
+ * - Guest checkout with an email, no account needed
  * - Shipping address form
+ * - Shipping method choice, priced by destination and weight
+ * - Pay in any supported currency (prices converted from the base currency)
  * - Order summary
+ * - Promo code with live validation
+ * - Tax quoted by the order service for the shipping address
  * - CoD payment (default)
  * - Real-time order creation
  * - Cart clearing after successful order
- * - Redirect to orders page
+ * - Redirect to orders page (guests: to the order's lookup page)
  *
  * @returns Checkout page with order placement
  */
 export default function CheckoutPage() {
   const router = useRouter();
   const dispatch = useAppDispatch();
-  const { items, total } = useAppSelector((state) => state.cart);
+  const { items } = useAppSelector((state) => state.cart);
   const { user, isAuthenticated } = useAppSelector((state) => state.auth);
 
-  const TAX_RATE = 0.10; // 10% tax rate
-  const tax = total * TAX_RATE;
-  const grandTotal = total + tax;
+  // Guests check out with an email; quotes use the buyer id the order service gives them
+  const [guestEmail, setGuestEmail] = useState('');
+  const isGuest = !isAuthenticated || !user?.id;
+  const guestEmailValid = /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(guestEmail.trim());
+  const buyerId = isGuest ? (guestEmailValid ? guestBuyerId(guestEmail) : undefined) : user?.id;
+
+  const [promoCode, setPromoCode] = useState('');
+  const [coupon, setCoupon] = useState<CouponQuote | null>(null);
+  const [couponError, setCouponError] = useState<string | null>(null);
+  const [checkingCoupon, setCheckingCoupon] = useState(false);
+
+  const [taxQuote, setTaxQuote] = useState<TaxQuote | null>(null);
+  const [shippingOptions, setShippingOptions] = useState<ShippingOption[]>([]);
+  const [shippingMethod, setShippingMethod] = useState<string | null>(null);
+
+  const [currencies, setCurrencies] = useState<CurrencyTable | null>(null);
+  const [currency, setCurrency] = useState('USD');
+
+  // Quotes and cart prices are in the base currency; each part is converted the
+  // way the order service does it and summed in minor units
+  const currencyInfo = currencies?.currencies.find((c) => c.code === currency);
+  const scale = 10 ** (currencyInfo?.minorUnitDigits ?? 2);
+  const toOrderCurrency = (amount: number) => (currencyInfo ? convertFromBase(amount, currencyInfo) : amount);
+  const toMinor = (amount: number) => Math.round(toOrderCurrency(amount) * scale);
+  const money = (amount: number) => formatMoney(amount, currency);
+
+  const selectedShipping = shippingOptions.find((option) => option.method === shippingMethod);
+  const subtotalMinor = items.reduce((sum, item) => sum + toMinor(item.price) * item.quantity, 0);
+  const discountMinor = Math.min(toMinor(coupon?.discount ?? 0), subtotalMinor);
+  const shippingMinor = toMinor(selectedShipping?.cost ?? 0);
+  const taxMinor = toMinor(taxQuote?.tax ?? 0);
+
+  const subtotal = subtotalMinor / scale;
+  const discount = discountMinor / scale;
+  const shippingCost = shippingMinor / scale;
+  const tax = taxMinor / scale;
+  const grandTotal = (subtotalMinor - discountMinor + shippingMinor + taxMinor) / scale;
 
   const [loading, setLoading] = useState(false);
+  const [priceChanges, setPriceChanges] = useState<PriceChange[]>([]);
+  // One Idempotency-Key per checkout attempt: reused while the order body is unchanged
+  const attemptRef = useRef<{ key: string; body: string } | null>(null);
   const [shippingAddress, setShippingAddress] = useState({
     street: '',
     city: '',
@@ -44,20 +89,110 @@ export default function CheckoutPage() {
   });
 
   useEffect(() => {
-    // Redirect if not authenticated
-    if (!isAuthenticated) {
-      toast.info('Please sign in to checkout');
-      router.push('/login');
-      return;
-    }
-
     // Redirect if cart is empty
     if (items.length === 0) {
       toast.info('Your cart is empty');
       router.push('/products');
       return;
     }
-  }, [isAuthenticated, items, router]);
+  }, [items, router]);
+
+  useEffect(() => {
+    orderApi
+      .getCurrencies()
+      .then((table) => {
+        setCurrencies(table);
+        setCurrency(table.baseCurrency);
+      })
+      .catch((error) => console.error('Error loading currencies:', error));
+  }, []);
+
+  useEffect(() => {
+    // Re-check the promo code while typing and whenever the cart changes
+    const code = promoCode.trim();
+    setCoupon(null);
+    setCouponError(null);
+    if (!code || !buyerId || items.length === 0) {
+      setCheckingCoupon(false);
+      return;
+    }
+
+    let stale = false;
+    setCheckingCoupon(true);
+    const timer = setTimeout(async () => {
+      try {
+        const quote = await orderApi.validateCoupon({
+          code,
+          buyerId,
+          items: items.map((item) => ({ sku: item.sku, quantity: item.quantity })),
+        });
+        if (!stale) setCoupon(quote);
+      } catch (error: any) {
+        if (!stale) setCouponError(error.message || 'Invalid promo code');
+      } finally {
+        if (!stale) setCheckingCoupon(false);
+      }
+    }, 500);
+
+    return () => {
+      stale = true;
+      clearTimeout(timer);
+    };
+  }, [promoCode, items, buyerId]);
+
+  useEffect(() => {
+    // Methods and prices depend on the destination and what is in the cart
+    if (items.length === 0) return;
+
+    let stale = false;
+    const timer = setTimeout(async () => {
+      try {
+        const options = await orderApi.quoteShipping(
+          items.map((item) => ({ sku: item.sku, quantity: item.quantity })),
+          shippingAddress
+        );
+        if (stale) return;
+        setShippingOptions(options);
+        // Keep the customer's choice while it is still offered, otherwise pick the cheapest
+        setShippingMethod((current) =>
+          options.some((option) => option.method === current) ? current : options[0]?.method ?? null
+        );
+      } catch (error) {
+        console.error('Error quoting shipping:', error);
+      }
+    }, 500);
+
+    return () => {
+      stale = true;
+      clearTimeout(timer);
+    };
+  }, [shippingAddress, items]);
+
+  useEffect(() => {
+    // Tax depends on the address, cart and discount; the server uses the same rates when placing the order.
+    // Quotes are for signed-in buyers only
+    setTaxQuote(null);
+    if (!buyerId || items.length === 0) return;
+
+    let stale = false;
+    const timer = setTimeout(async () => {
+      try {
+        const quote = await orderApi.quoteTax({
+          items: items.map((item) => ({ sku: item.sku, quantity: item.quantity })),
+          shippingAddress,
+          couponCode: coupon?.code,
+        });
+        if (!stale) setTaxQuote(quote);
+      } catch (error) {
+        console.error('Error quoting tax:', error);
+      }
+    }, 500);
+
+    return () => {
+      stale = true;
+      clearTimeout(timer);
+    };
+  }, [shippingAddress, items, coupon?.code, buyerId]);
 
   /**
    * Handle form input changes
@@ -73,6 +208,10 @@ export default function CheckoutPage() {
    * Validate shipping address
    */
   const validateAddress = (): boolean => {
+    if (isGuest && !guestEmailValid) {
+      toast.error('A valid email is required');
+      return false;
+    }
     if (!shippingAddress.street.trim()) {
       toast.error('Street address is required');
       return false;
@@ -92,46 +231,79 @@ export default function CheckoutPage() {
     return true;
   };
 
+  /**
+   * Accept the current catalog prices returned by a PRICE_CHANGED error
+   */
+  const handleAcceptPrices = () => {
+    dispatch(updatePrices(priceChanges.map((c) => ({ sku: c.sku, price: c.currentBasePrice }))));
+    setPriceChanges([]);
+    toast.info('Cart updated with the latest prices. Please review and place your order.');
+  };
+
   /**
    * Handle order placement
    */
   const handlePlaceOrder = async () => {
     if (!validateAddress()) return;
 
-    if (!user?.id) {
-      toast.error('User session expired. Please login again.');
-      router.push('/login');
-      return;
-    }
-
     try {
       setLoading(true);
 
-      // Prepare order data
+      // Prepare order data - prices are re-checked against the catalog server-side
       const orderData = {
-        buyerId: user.id,
+        ...(isGuest ? { guestEmail: guestEmail.trim() } : { buyerId: user?.id }),
         items: items.map((item) => ({
           sku: item.sku,
           name: item.name,
           quantity: item.quantity,
-          unitPrice: item.price,
+          unitPrice: toOrderCurrency(item.price),
         })),
+        currency,
         shippingAddress,
-        tax, // Include calculated tax (10%)
+        couponCode: coupon?.code,
+        shippingMethod: shippingMethod ?? undefined,
+        paymentMethod: 'cod' as const,
       };
 
+      // Retries of the same attempt reuse its key so a lost response can't create a second order
+      const body = JSON.stringify(orderData);
+      if (attemptRef.current?.body !== body) {
+        attemptRef.current = { key: crypto.randomUUID(), body };
+      }
+
       // Create order
-      const order = await orderApi.createOrder(orderData);
+      const order = await orderApi.createOrder(orderData, attemptRef.current.key);
 
       toast.success('Order placed successfully!');
 
+      attemptRef.current = null;
+
       // Clear cart
       dispatch(clearCart());
 
+      // Guests get a link to the order instead of the orders page
+      if (order.lookupToken) {
+        saveGuestOrder({
+          orderId: order._id,
+          email: guestEmail.trim().toLowerCase(),
+          token: order.lookupToken,
+          placedAt: order.createdAt,
+        });
+        router.push(guestOrderUrl(order.lookupToken));
+        return;
+      }
+
       // Redirect to orders page
       router.push('/orders');
     } catch (error: any) {
       console.error('Error placing order:', error);
+      if (error.code === 'PRICE_CHANGED' && Array.isArray(error.details?.changes)) {
+        setPriceChanges(error.details.changes);
+      }
+      if (error.code === 'INVALID_COUPON') {
+        setCoupon(null);
+        setCouponError(error.message);
+      }
       toast.error(error.message || 'Failed to place order. Please try again.');
     } finally {
       setLoading(false);
@@ -150,6 +322,35 @@ export default function CheckoutPage() {
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
           {/* Shipping Information */}
           <div className="lg:col-span-2">
+            {isGuest && (
+              <div className="card mb-8">
+                <h2 className="text-2xl font-bold text-gray-900 mb-2">Contact</h2>
+                <p className="text-sm text-gray-600 mb-4">
+                  Checking out as a guest.{' '}
+                  <Link href="/login" className="text-primary-600 hover:text-primary-700 font-medium">
+                    Sign in
+                  </Link>{' '}
+                  to use your account instead.
+                </p>
+                <label htmlFor="guestEmail" className="block text-sm font-medium text-gray-700 mb-2">
+                  Email *
+                </label>
+                <input
+                  type="email"
+                  id="guestEmail"
+                  value={guestEmail}
+                  onChange={(e) => setGuestEmail(e.target.value)}
+                  placeholder="you@example.com"
+                  className="input w-full"
+                  required
+                />
+                <p className="text-xs text-gray-500 mt-2">
+                  You will get a link to follow your order. Register later with this email to add the order
+                  to your account.
+                </p>
+              </div>
+            )}
+
             <div className="card">
               <h2 className="text-2xl font-bold text-gray-900 mb-6">Shipping Information</h2>
 
@@ -238,6 +439,44 @@ export default function CheckoutPage() {
                 </div>
               </div>
 
+              {/* Shipping Method */}
+              <div className="mt-8 pt-8 border-t">
+                <h3 className="text-xl font-bold text-gray-900 mb-4">Shipping Method</h3>
+                {shippingOptions.length === 0 ? (
+                  <p className="text-sm text-gray-500">No shipping methods available for this address yet.</p>
+                ) : (
+                  <div className="space-y-3">
+                    {shippingOptions.map((option) => (
+                      <label
+                        key={option.method}
+                        htmlFor={`shipping-${option.method}`}
+                        className={`flex items-center justify-between border rounded-lg p-4 cursor-pointer ${
+                          option.method === shippingMethod ? 'border-blue-400 bg-blue-50' : 'border-gray-200'
+                        }`}
+                      >
+                        <span className="flex items-center">
+                          <input
+                            type="radio"
+                            id={`shipping-${option.method}`}
+                            name="shippingMethod"
+                            checked={option.method === shippingMethod}
+                            onChange={() => setShippingMethod(option.method)}
+                            className="w-4 h-4 text-blue-600"
+                          />
+                          <span className="ml-3">
+                            <span className="block text-gray-900 font-medium">{option.name}</span>
+                            <span className="block text-sm text-gray-600">{option.estimatedDelivery}</span>
+                          </span>
+                        </span>
+                        <span className="text-gray-900 font-semibold">
+                          {option.cost === 0 ? 'FREE' : money(toOrderCurrency(option.cost))}
+                        </span>
+                      </label>
+                    ))}
+                  </div>
+                )}
+              </div>
+
               {/* Payment Method */}
               <div className="mt-8 pt-8 border-t">
                 <h3 className="text-xl font-bold text-gray-900 mb-4">Payment Method</h3>
@@ -274,6 +513,43 @@ export default function CheckoutPage() {
             <div className="card sticky top-4">
               <h2 className="text-xl font-bold text-gray-900 mb-4">Order Summary</h2>
 
+              {currencies && currencies.currencies.length > 1 && (
+                <div className="mb-4">
+                  <label htmlFor="currency" className="block text-sm font-medium text-gray-700 mb-2">
+                    Currency
+                  </label>
+                  <select
+                    id="currency"
+                    value={currency}
+                    onChange={(e) => setCurrency(e.target.value)}
+                    className="input w-full"
+                  >
+                    {currencies.currencies.map((c) => (
+                      <option key={c.code} value={c.code}>
+                        {c.code}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              {priceChanges.length > 0 && (
+                <div className="bg-yellow-50 border border-yellow-300 text-yellow-800 rounded-lg p-4 mb-4 text-sm">
+                  <p className="font-semibold mb-2">Some prices have changed</p>
+                  <ul className="space-y-1 mb-3">
+                    {priceChanges.map((change) => (
+                      <li key={change.sku}>
+                        {change.name}: <span className="line-through">{money(change.submittedPrice)}</span>{' '}
+                        → <span className="font-semibold">{money(change.currentPrice)}</span>
+                      </li>
+                    ))}
+                  </ul>
+                  <button onClick={handleAcceptPrices} className="btn-secondary w-full">
+                    Update cart with new prices
+                  </button>
+                </div>
+              )}
+
               <div className="space-y-3 mb-6">
                 {items.map((item) => (
                   <div key={item.id} className="flex justify-between text-sm">
@@ -281,33 +557,67 @@ export default function CheckoutPage() {
                       <p className="text-gray-900 font-medium">{item.name}</p>
                       <p className="text-gray-600">Qty: {item.quantity}</p>
                     </div>
-                    <p className="text-gray-900 font-semibold">${(item.price * item.quantity).toFixed(2)}</p>
+                    <p className="text-gray-900 font-semibold">{money((toMinor(item.price) * item.quantity) / scale)}</p>
                   </div>
                 ))}
               </div>
 
+              <div className="mb-4">
+                <label htmlFor="promoCode" className="block text-sm font-medium text-gray-700 mb-2">
+                  Promo Code
+                </label>
+                <input
+                  type="text"
+                  id="promoCode"
+                  value={promoCode}
+                  onChange={(e) => setPromoCode(e.target.value.toUpperCase())}
+                  placeholder="SUMMER10"
+                  maxLength={32}
+                  className="input w-full"
+                />
+                {checkingCoupon && <p className="text-xs text-gray-500 mt-1">Checking code...</p>}
+                {coupon && (
+                  <p className="text-xs text-green-600 mt-1">
+                    {coupon.description || `${coupon.code} applied`}
+                  </p>
+                )}
+                {couponError && <p className="text-xs text-red-600 mt-1">{couponError}</p>}
+              </div>
+
               <div className="border-t pt-4 space-y-2">
                 <div className="flex justify-between text-sm">
                   <span className="text-gray-600">Subtotal</span>
-                  <span className="text-gray-900">${total.toFixed(2)}</span>
+                  <span className="text-gray-900">{money(subtotal)}</span>
                 </div>
+                {coupon && (
+                  <div className="flex justify-between text-sm">
+                    <span className="text-gray-600">Discount ({coupon.code})</span>
+                    <span className="text-green-600">-{money(discount)}</span>
+                  </div>
+                )}
                 <div className="flex justify-between text-sm">
-                  <span className="text-gray-600">Shipping</span>
-                  <span className="text-green-600 font-medium">FREE</span>
+                  <span className="text-gray-600">Shipping{selectedShipping ? ` (${selectedShipping.name})` : ''}</span>
+                  {!selectedShipping ? (
+                    <span className="text-gray-900">-</span>
+                  ) : shippingCost === 0 ? (
+                    <span className="text-green-600 font-medium">FREE</span>
+                  ) : (
+                    <span className="text-gray-900">{money(shippingCost)}</span>
+                  )}
                 </div>
                 <div className="flex justify-between text-sm">
-                  <span className="text-gray-600">Tax (10%)</span>
-                  <span className="text-gray-900">${tax.toFixed(2)}</span>
+                  <span className="text-gray-600">Tax{taxQuote?.exempt ? ' (exempt)' : ''}</span>
+                  <span className="text-gray-900">{taxQuote ? money(tax) : 'Calculating...'}</span>
                 </div>
                 <div className="border-t pt-2 flex justify-between">
                   <span className="text-lg font-bold text-gray-900">Total</span>
-                  <span className="text-lg font-bold text-primary-600">${grandTotal.toFixed(2)}</span>
+                  <span className="text-lg font-bold text-primary-600">{money(grandTotal)}</span>
                 </div>
               </div>
 
               <button
                 onClick={handlePlaceOrder}
-                disabled={loading}
+                disabled={loading || checkingCoupon || !taxQuote || !selectedShipping || priceChanges.length > 0}
                 className="w-full mt-6 btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
               >
                 {loading ? (
@@ -0,0 +1,251 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import { toast } from 'react-toastify';
+import { useAppSelector } from '@/lib/redux/hooks';
+import { orderApi } from '@/lib/api/order';
+import { Order } from '@/lib/redux/slices/orderSlice';
+import { formatMoney } from '@/lib/currency';
+import { allocationLabel } from '@/lib/allocation';
+import { forgetGuestOrders, loadGuestOrders } from '@/lib/guestOrders';
+
+/**
+ * Guest Order Page
+ *
+ * Shows an order placed at guest checkout to whoever has its link (the
+ * signed lookup token), without signing in: status, items, shipments with
+ * tracking, shipping address and totals. A signed-in customer whose email
+ * matches can add the guest orders of that email to their account.
+ *
+ * @returns Guest order status page
+ */
+export default function GuestOrderPage() {
+  const searchParams = useSearchParams();
+  const token = searchParams.get('token') || '';
+  const { user, isAuthenticated } = useAppSelector((state) => state.auth);
+
+  const [order, setOrder] = useState<Order | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [claiming, setClaiming] = useState(false);
+
+  useEffect(() => {
+    if (!token) {
+      setError('This order link is incomplete');
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    orderApi
+      .lookupOrder(token)
+      .then((found) => {
+        setOrder(found);
+        setError(null);
+      })
+      .catch((err) => setError(err.message || 'Failed to load order'))
+      .finally(() => setLoading(false));
+  }, [token]);
+
+  const guestEmail = order?.guestEmail;
+  const canClaim =
+    !!guestEmail && !order?.claimedAt && isAuthenticated && user?.email?.toLowerCase() === guestEmail;
+
+  /**
+   * Move the guest orders of this email into the signed-in account
+   */
+  const handleClaim = async () => {
+    if (!guestEmail) return;
+    try {
+      setClaiming(true);
+      const tokens = [token, ...loadGuestOrders().filter((o) => o.email === guestEmail).map((o) => o.token)];
+      const claimed = await orderApi.claimGuestOrders(Array.from(new Set(tokens)));
+      forgetGuestOrders(guestEmail);
+      toast.success(`${claimed.length} order(s) added to your account`);
+      setOrder((current) => claimed.find((o) => o._id === current?._id) ?? current);
+    } catch (err: any) {
+      console.error('Error claiming orders:', err);
+      toast.error(err.message || 'Failed to add orders to your account');
+    } finally {
+      setClaiming(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="container-custom py-12">
+        <div className="text-center py-16">
+          <div className="animate-spin rounded-full h-16 w-16 border-b-2 border-primary-600 mx-auto" />
+          <p className="text-gray-600 mt-4">Loading order...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !order) {
+    return (
+      <div className="container-custom py-12">
+        <div className="text-center py-16">
+          <div className="text-6xl mb-4">🔗</div>
+          <h1 className="text-3xl font-bold text-gray-300 mb-4">Order Not Available</h1>
+          <p className="text-gray-600 mb-8">{error || 'Order not found'}</p>
+          <Link href="/products" className="btn-primary">
+            Browse Products
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container-custom py-12">
+      <div className="max-w-3xl mx-auto">
+        <div className="mb-8">
+          <h1 className="text-4xl font-bold text-gray-300 mb-2">Order #{order._id.slice(-8).toUpperCase()}</h1>
+          <p className="text-gray-600">
+            Placed{' '}
+            {new Date(order.createdAt).toLocaleDateString('en-US', {
+              year: 'numeric',
+              month: 'long',
+              day: 'numeric',
+            })}
+            {guestEmail ? ` by ${guestEmail}` : ''}. Keep this page&apos;s link to check on your order.
+          </p>
+        </div>
+
+        {/* Claim into an account */}
+        {canClaim && (
+          <div className="bg-primary-50 border border-primary-200 rounded-lg p-4 mb-6 flex items-center justify-between gap-4">
+            <p className="text-sm text-gray-700">
+              This order was placed with your email. Add your guest orders to your account to manage them there.
+            </p>
+            <button onClick={handleClaim} disabled={claiming} className="btn-primary whitespace-nowrap disabled:opacity-50">
+              {claiming ? 'Adding...' : 'Add to My Account'}
+            </button>
+          </div>
+        )}
+        {!isAuthenticated && !order.claimedAt && (
+          <div className="bg-gray-50 border rounded-lg p-4 mb-6 text-sm text-gray-700">
+            <Link href="/login" className="text-primary-600 hover:text-primary-700 font-medium">
+              Create an account
+            </Link>{' '}
+            with {guestEmail} to keep all your orders in one place.
+          </div>
+        )}
+        {order.claimedAt && (
+          <div className="bg-gray-50 border rounded-lg p-4 mb-6 text-sm text-gray-700">
+            This order is now in your account.{' '}
+            <Link href="/orders" className="text-primary-600 hover:text-primary-700 font-medium">
+              View my orders
+            </Link>
+          </div>
+        )}
+
+        <div className="card">
+          <div className="flex justify-between items-start mb-4">
+            <h2 className="text-lg font-semibold text-gray-300">Status</h2>
+            <span
+              className={`px-3 py-1 rounded-full text-sm font-semibold ${
+                order.status === 'delivered'
+                  ? 'bg-green-100 text-green-800'
+                  : order.status === 'cancelled'
+                  ? 'bg-red-100 text-red-800'
+                  : order.status === 'shipped' || order.status === 'partially_shipped'
+                  ? 'bg-purple-100 text-purple-800'
+                  : order.status === 'processing'
+                  ? 'bg-blue-100 text-blue-800'
+                  : 'bg-yellow-100 text-yellow-800'
+              }`}
+            >
+              {order.status.charAt(0).toUpperCase() + order.status.slice(1).replace('_', ' ')}
+            </span>
+          </div>
+
+          <div className="border-t pt-4">
+            <h4 className="font-semibold text-gray-300 mb-2">Items:</h4>
+            <ul className="space-y-2">
+              {order.items.map((item, index) => (
+                <li key={index} className="flex justify-between text-sm">
+                  <span className="text-gray-700">
+                    {item.name} x {item.quantity}
+                    {allocationLabel(item) && (
+                      <span className="block text-xs text-amber-600">{allocationLabel(item)}</span>
+                    )}
+                  </span>
+                  <span className="text-gray-300 font-semibold">
+                    {formatMoney(item.unitPrice * item.quantity, order.currency)}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          {/* Shipments with tracking */}
+          {!!order.shipments?.length && (
+            <div className="border-t mt-4 pt-4">
+              <h4 className="font-semibold text-gray-300 mb-2">Shipments:</h4>
+              <ul className="space-y-2">
+                {order.shipments.map((shipment) => (
+                  <li key={shipment.id} className="text-sm">
+                    <div className="flex justify-between">
+                      <span className="text-gray-700">
+                        {shipment.carrier} - tracking <span className="font-mono">{shipment.trackingNumber}</span>
+                      </span>
+                      <span className="text-gray-300 font-semibold capitalize">
+                        {shipment.status}
+                        {shipment.deliveredAt ? ` ${new Date(shipment.deliveredAt).toLocaleDateString()}` : ''}
+                      </span>
+                    </div>
+                    <p className="text-gray-500">
+                      {shipment.items.map((item) => `${item.name} x ${item.quantity}`).join(', ')}
+                    </p>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {order.shippingAddress && (
+            <div className="border-t mt-4 pt-4 text-sm">
+              <h4 className="font-semibold text-gray-300 mb-2">Shipping Address:</h4>
+              <p className="text-gray-600">{order.shippingAddress.street}</p>
+              <p className="text-gray-600">
+                {order.shippingAddress.city}, {order.shippingAddress.state} {order.shippingAddress.zipCode}
+              </p>
+              <p className="text-gray-600">{order.shippingAddress.country}</p>
+            </div>
+          )}
+
+          <div className="border-t mt-4 pt-4 space-y-1">
+            <div className="flex justify-between text-sm text-gray-600">
+              <span>Subtotal</span>
+              <span>{formatMoney(order.subtotal || 0, order.currency)}</span>
+            </div>
+            {!!order.discount && (
+              <div className="flex justify-between text-sm text-gray-600">
+                <span>Discount{order.couponCode ? ` (${order.couponCode})` : ''}</span>
+                <span>-{formatMoney(order.discount, order.currency)}</span>
+              </div>
+            )}
+            {order.shippingMethod && (
+              <div className="flex justify-between text-sm text-gray-600">
+                <span className="capitalize">Shipping ({order.shippingMethod})</span>
+                <span>{formatMoney(order.shippingCost || 0, order.currency)}</span>
+              </div>
+            )}
+            <div className="flex justify-between text-sm text-gray-600">
+              <span>Tax</span>
+              <span>{formatMoney(order.tax || 0, order.currency)}</span>
+            </div>
+            <div className="flex justify-between text-lg font-bold text-gray-900 pt-2 border-t">
+              <span>Total</span>
+              <span>{formatMoney(order.total, order.currency)}</span>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
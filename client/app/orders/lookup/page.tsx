@@ -0,0 +1,23 @@
+import { Suspense } from "react";
+import GuestOrderPage from "./GuestOrderPage";
+
+/**
+ * Guest Order Page Wrapper
+ *
+ * Wraps GuestOrderPage in Suspense because it reads the lookup token with
+ * useSearchParams().
+ */
+export default function Page() {
+  return (
+    <Suspense fallback={
+      <div className="container-custom py-12">
+        <div className="text-center py-16">
+          <div className="animate-spin rounded-full h-16 w-16 border-b-2 border-primary-600 mx-auto" />
+          <p className="text-gray-600 mt-4">Loading order...</p>
+        </div>
+      </div>
+    }>
+      <GuestOrderPage />
+    </Suspense>
+  );
+}
@@ -8,6 +8,10 @@ import { orderApi } from '@/lib/api/order';
 import { Order } from '@/lib/redux/slices/orderSlice';
 import { toast } from 'react-toastify';
 import Link from 'next/link';
+import { formatMoney } from '@/lib/currency';
+import { allocationLabel } from '@/lib/allocation';
+import { hasInvoice, saveInvoice } from '@/lib/invoice';
+import { forgetGuestOrders, GuestOrderLink, guestOrderUrl, loadGuestOrders } from '@/lib/guestOrders';
 
 export default function OrdersPage() {
   const dispatch = useAppDispatch();
@@ -16,6 +20,25 @@ export default function OrdersPage() {
 
   const [selectedOrder, setSelectedOrder] = useState<Order | null>(null);
   const [cancelling, setCancelling] = useState<string | null>(null);
+  const [downloading, setDownloading] = useState<string | null>(null);
+  const [returnForm, setReturnForm] = useState<{
+    orderId: string;
+    quantities: Record<string, number>;
+    reason: string;
+  } | null>(null);
+  const [requestingReturn, setRequestingReturn] = useState(false);
+  const [amendForm, setAmendForm] = useState<{
+    orderId: string;
+    quantities: Record<string, number>;
+    newSku: string;
+    newQuantity: number;
+    shippingAddress: NonNullable<Order['shippingAddress']>;
+    reason: string;
+  } | null>(null);
+  const [amending, setAmending] = useState(false);
+  // Guest checkouts remembered in this browser
+  const [guestOrders, setGuestOrders] = useState<GuestOrderLink[]>([]);
+  const [claiming, setClaiming] = useState(false);
   const [displayCount, setDisplayCount] = useState(10);
   const [recentlyUpdatedOrders, setRecentlyUpdatedOrders] = useState<Set<string>>(new Set());
   const itemsPerPage = 10;
@@ -41,10 +64,20 @@ export default function OrdersPage() {
   const hasMore = userOrders.length < allUserOrders.length;
 
   useEffect(() => {
-    if (isAuthenticated) {
-      dispatch(fetchOrders());
+    if (isAuthenticated && user?.id) {
+      dispatch(fetchOrders({ buyerId: user.id, limit: 100 }));
     }
-  }, [dispatch, isAuthenticated]);
+  }, [dispatch, isAuthenticated, user?.id]);
+
+  useEffect(() => {
+    setGuestOrders(loadGuestOrders());
+  }, []);
+
+  // Guest orders placed with the signed-in email can be moved into the account
+  const claimableGuestOrders = useMemo(
+    () => guestOrders.filter((o) => o.email === user?.email?.toLowerCase()),
+    [guestOrders, user?.email]
+  );
 
   // Detect real-time order status updates
   useEffect(() => {
@@ -110,19 +143,23 @@ export default function OrdersPage() {
   const handleCancelOrder = async (orderId: string, e: React.MouseEvent) => {
     e.stopPropagation();
 
-    const confirmCancel = window.confirm(
-      'Are you sure you want to cancel this order?\n\nThis action cannot be undone.'
+    const reason = window.prompt(
+      'Are you sure you want to cancel this order?\n\nThis action cannot be undone. Please tell us why:'
     );
 
-    if (!confirmCancel) return;
+    if (reason === null) return;
+    if (!reason.trim()) {
+      toast.error('Please provide a reason for cancelling');
+      return;
+    }
 
     try {
       setCancelling(orderId);
-      await orderApi.cancelOrder(orderId);
+      await orderApi.cancelOrder(orderId, reason.trim());
       toast.success('Order cancelled successfully');
 
       // Refresh orders
-      dispatch(fetchOrders());
+      dispatch(fetchOrders({ buyerId: user?.id, limit: 100 }));
     } catch (err: any) {
       console.error('Error cancelling order:', err);
       toast.error(err.message || 'Failed to cancel order');
@@ -131,6 +168,162 @@ export default function OrdersPage() {
     }
   };
 
+  /**
+   * Download the invoice PDF
+   */
+  const handleDownloadInvoice = async (order: Order, e: React.MouseEvent) => {
+    e.stopPropagation();
+
+    try {
+      setDownloading(order._id);
+      await saveInvoice(order);
+    } catch (err: any) {
+      console.error('Error downloading invoice:', err);
+      toast.error(err.message || 'Failed to download invoice');
+    } finally {
+      setDownloading(null);
+    }
+  };
+
+  /**
+   * Open the return form of a delivered order, nothing selected
+   */
+  const handleOpenReturn = (order: Order, e: React.MouseEvent) => {
+    e.stopPropagation();
+    setReturnForm(
+      returnForm?.orderId === order._id ? null : { orderId: order._id, quantities: {}, reason: '' }
+    );
+  };
+
+  /**
+   * Submit a return for the selected quantities
+   */
+  const handleRequestReturn = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!returnForm) return;
+
+    const items = Object.entries(returnForm.quantities)
+      .filter(([, quantity]) => quantity > 0)
+      .map(([sku, quantity]) => ({ sku, quantity }));
+    if (!items.length) {
+      toast.error('Please choose at least one item to return');
+      return;
+    }
+    if (!returnForm.reason.trim()) {
+      toast.error('Please tell us why you are returning the items');
+      return;
+    }
+
+    try {
+      setRequestingReturn(true);
+      const ret = await orderApi.requestReturn({
+        orderId: returnForm.orderId,
+        items,
+        reason: returnForm.reason.trim(),
+      });
+      toast.success(
+        `Return requested - refund of ${formatMoney(ret.refundAmount, ret.currency)} once approved`
+      );
+      setReturnForm(null);
+    } catch (err: any) {
+      console.error('Error requesting return:', err);
+      toast.error(err.message || 'Failed to request return');
+    } finally {
+      setRequestingReturn(false);
+    }
+  };
+
+  /**
+   * Open the edit form of a pending or processing order with its current lines and address
+   */
+  const handleOpenAmend = (order: Order, e: React.MouseEvent) => {
+    e.stopPropagation();
+    setAmendForm(
+      amendForm?.orderId === order._id
+        ? null
+        : {
+            orderId: order._id,
+            quantities: Object.fromEntries(order.items.map((item) => [item.sku, item.quantity])),
+            newSku: '',
+            newQuantity: 1,
+            shippingAddress: order.shippingAddress ?? {
+              street: '',
+              city: '',
+              state: '',
+              zipCode: '',
+              country: '',
+            },
+            reason: '',
+          }
+    );
+  };
+
+  /**
+   * Send only the changed lines, and the address if it changed
+   */
+  const handleAmendOrder = async (order: Order, e: React.FormEvent) => {
+    e.preventDefault();
+    if (!amendForm) return;
+
+    const items = order.items
+      .filter((item) => amendForm.quantities[item.sku] !== item.quantity)
+      .map((item) => ({ sku: item.sku, quantity: amendForm.quantities[item.sku] ?? 0 }));
+    const newSku = amendForm.newSku.trim();
+    if (newSku && amendForm.newQuantity > 0) {
+      items.push({ sku: newSku, quantity: amendForm.newQuantity });
+    }
+    const address = amendForm.shippingAddress;
+    const addressChanged = (['street', 'city', 'state', 'zipCode', 'country'] as const).some(
+      (field) => address[field] !== order.shippingAddress?.[field]
+    );
+
+    if (!items.length && !addressChanged) {
+      toast.error('Nothing was changed');
+      return;
+    }
+
+    try {
+      setAmending(true);
+      const amended = await orderApi.amendOrder(order._id, {
+        ...(items.length && { items }),
+        ...(addressChanged && { shippingAddress: address }),
+        ...(amendForm.reason.trim() && { reason: amendForm.reason.trim() }),
+      });
+      toast.success(`Order updated - new total ${formatMoney(amended.total, amended.currency)}`);
+      setAmendForm(null);
+
+      // Refresh orders
+      dispatch(fetchOrders({ buyerId: user?.id, limit: 100 }));
+    } catch (err: any) {
+      console.error('Error updating order:', err);
+      toast.error(err.message || 'Failed to update order');
+    } finally {
+      setAmending(false);
+    }
+  };
+
+  /**
+   * Add the guest orders placed with this account's email to the account
+   */
+  const handleClaimGuestOrders = async () => {
+    if (!user?.email) return;
+    try {
+      setClaiming(true);
+      const claimed = await orderApi.claimGuestOrders(claimableGuestOrders.map((o) => o.token));
+      forgetGuestOrders(user.email);
+      setGuestOrders(loadGuestOrders());
+      toast.success(`${claimed.length} order(s) added to your account`);
+
+      // Refresh orders
+      dispatch(fetchOrders({ buyerId: user.id, limit: 100 }));
+    } catch (err: any) {
+      console.error('Error claiming guest orders:', err);
+      toast.error(err.message || 'Failed to add orders to your account');
+    } finally {
+      setClaiming(false);
+    }
+  };
+
   if (!isAuthenticated) {
     return (
       <div className="container-custom py-12">
@@ -145,6 +338,23 @@ export default function OrdersPage() {
           <Link href="/login" className="btn-primary">
             Sign In
           </Link>
+          {guestOrders.length > 0 && (
+            <div className="max-w-md mx-auto mt-10 text-left">
+              <h2 className="font-semibold text-gray-300 mb-2">Orders placed as a guest on this device</h2>
+              <ul className="space-y-1 text-sm">
+                {guestOrders.map((o) => (
+                  <li key={o.orderId}>
+                    <Link href={guestOrderUrl(o.token)} className="text-primary-600 hover:text-primary-700">
+                      Order #{o.orderId.slice(-8).toUpperCase()}
+                    </Link>{' '}
+                    <span className="text-gray-500">
+                      {new Date(o.placedAt).toLocaleDateString()} · {o.email}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
         </div>
       </div>
     );
@@ -179,6 +389,9 @@ export default function OrdersPage() {
             <h1 className="text-4xl font-bold text-gray-300 mb-2">My Orders</h1>
             <p className="text-gray-600">View and track your orders</p>
           </div>
+          <Link href="/returns" className="btn-outline">
+            My Returns
+          </Link>
           {/* WebSocket Connection Status Indicator */}
           {/* <div className="flex items-center gap-2">
             <div
@@ -194,6 +407,22 @@ export default function OrdersPage() {
         </div>
       </div>
 
+      {claimableGuestOrders.length > 0 && (
+        <div className="bg-primary-50 border border-primary-200 rounded-lg p-4 mb-6 flex items-center justify-between gap-4">
+          <p className="text-sm text-gray-700">
+            You placed {claimableGuestOrders.length} order(s) as a guest with {user?.email}. Add them to your account
+            to track and manage them here.
+          </p>
+          <button
+            onClick={handleClaimGuestOrders}
+            disabled={claiming}
+            className="btn-primary whitespace-nowrap disabled:opacity-50"
+          >
+            {claiming ? 'Adding...' : 'Add to My Account'}
+          </button>
+        </div>
+      )}
+
       {userOrders.length === 0 ? (
         <div className="text-center py-16">
           <div className="text-6xl mb-4">📦</div>
@@ -241,14 +470,14 @@ export default function OrdersPage() {
                       ? 'bg-green-100 text-green-800'
                       : order.status === 'cancelled'
                       ? 'bg-red-100 text-red-800'
-                      : order.status === 'shipped'
+                      : order.status === 'shipped' || order.status === 'partially_shipped'
                       ? 'bg-purple-100 text-purple-800'
                       : order.status === 'processing'
                       ? 'bg-blue-100 text-blue-800'
                       : 'bg-yellow-100 text-yellow-800'
                   }`}
                 >
-                  {order.status.charAt(0).toUpperCase() + order.status.slice(1)}
+                  {order.status.charAt(0).toUpperCase() + order.status.slice(1).replace('_', ' ')}
                 </span>
               </div>
 
@@ -260,6 +489,9 @@ export default function OrdersPage() {
                       <li key={index} className="flex justify-between text-sm">
                         <span className="text-gray-700">
                           {item?.name || 'Unknown Item'} x {item?.quantity || 0}
+                          {item && allocationLabel(item) && (
+                            <span className="block text-xs text-amber-600">{allocationLabel(item)}</span>
+                          )}
                         </span>
                         <span className="text-gray-300 font-semibold">
                           ${((item?.unitPrice || 0) * (item?.quantity || 0)).toFixed(2)}
@@ -272,6 +504,65 @@ export default function OrdersPage() {
                 </ul>
               </div>
 
+              {/* Shipments with tracking */}
+              {!!order.shipments?.length && (
+                <div className="border-t mt-4 pt-4">
+                  <h4 className="font-semibold text-gray-300 mb-2">Shipments:</h4>
+                  <ul className="space-y-2">
+                    {order.shipments.map((shipment) => (
+                      <li key={shipment.id} className="text-sm">
+                        <div className="flex justify-between">
+                          <span className="text-gray-700">
+                            {shipment.carrier} - tracking <span className="font-mono">{shipment.trackingNumber}</span>
+                          </span>
+                          <span className="text-gray-300 font-semibold capitalize">
+                            {shipment.status}
+                            {shipment.deliveredAt ? ` ${new Date(shipment.deliveredAt).toLocaleDateString()}` : ''}
+                          </span>
+                        </div>
+                        <p className="text-gray-500">
+                          {shipment.items.map((item) => `${item.name} x ${item.quantity}`).join(', ')}
+                        </p>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {/* Amendment history */}
+              {!!order.amendments?.length && (
+                <div className="border-t mt-4 pt-4">
+                  <h4 className="font-semibold text-gray-300 mb-2">Changes:</h4>
+                  <ul className="space-y-2">
+                    {order.amendments.map((amendment) => (
+                      <li key={amendment.id} className="text-sm">
+                        <div className="flex justify-between">
+                          <span className="text-gray-700">
+                            #{amendment.number} on {new Date(amendment.changedAt).toLocaleDateString()}
+                          </span>
+                          <span className="text-gray-300 font-semibold">
+                            {formatMoney(amendment.previousTotal, order.currency)} → {formatMoney(amendment.total, order.currency)}
+                          </span>
+                        </div>
+                        <p className="text-gray-500">
+                          {[
+                            ...amendment.lines.map((line) =>
+                              line.from === 0
+                                ? `Added ${line.name} x ${line.to}`
+                                : line.to === 0
+                                  ? `Removed ${line.name}`
+                                  : `${line.name} ${line.from} → ${line.to}`
+                            ),
+                            ...(amendment.addressChanged ? ['New shipping address'] : []),
+                          ].join(', ')}
+                          {amendment.reason ? ` - ${amendment.reason}` : ''}
+                        </p>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
               {/* Expanded Details */}
               {selectedOrder?._id === order._id && order.shippingAddress && (
                 <div className="mt-6 pt-6 border-t">
@@ -294,21 +585,33 @@ export default function OrdersPage() {
                     <div className="space-y-1">
                       <div className="flex justify-between text-sm text-gray-600">
                         <span>Subtotal</span>
-                        <span>${(order.subtotal || 0).toFixed(2)}</span>
+                        <span>{formatMoney(order.subtotal || 0, order.currency)}</span>
                       </div>
+                      {!!order.discount && (
+                        <div className="flex justify-between text-sm text-gray-600">
+                          <span>Discount{order.couponCode ? ` (${order.couponCode})` : ''}</span>
+                          <span>-{formatMoney(order.discount, order.currency)}</span>
+                        </div>
+                      )}
+                      {order.shippingMethod && (
+                        <div className="flex justify-between text-sm text-gray-600">
+                          <span className="capitalize">Shipping ({order.shippingMethod})</span>
+                          <span>{formatMoney(order.shippingCost || 0, order.currency)}</span>
+                        </div>
+                      )}
                       <div className="flex justify-between text-sm text-gray-600">
-                        <span>Tax (10%)</span>
-                        <span>${(order.tax || 0).toFixed(2)}</span>
+                        <span>Tax</span>
+                        <span>{formatMoney(order.tax || 0, order.currency)}</span>
                       </div>
                       <div className="flex justify-between text-lg font-bold text-gray-900 pt-2 border-t">
                         <span>Total</span>
-                        <span>${order.total.toFixed(2)}</span>
+                        <span>{formatMoney(order.total, order.currency)}</span>
                       </div>
                     </div>
                   </div>
                 </div>
                 <div className="flex space-x-2">
-                  {order.status === 'pending' && (
+                  {['pending', 'processing', 'paid'].includes(order.status) && (
                     <button
                       onClick={(e) => handleCancelOrder(order._id, e)}
                       disabled={cancelling === order._id}
@@ -317,6 +620,31 @@ export default function OrdersPage() {
                       {cancelling === order._id ? 'Cancelling...' : 'Cancel Order'}
                     </button>
                   )}
+                  {hasInvoice(order) && (
+                    <button
+                      onClick={(e) => handleDownloadInvoice(order, e)}
+                      disabled={downloading === order._id}
+                      className="btn-outline disabled:opacity-50"
+                    >
+                      {downloading === order._id ? 'Downloading...' : 'Download Invoice'}
+                    </button>
+                  )}
+                  {['pending', 'processing'].includes(order.status) && !order.shipments?.length && (
+                    <button
+                      onClick={(e) => handleOpenAmend(order, e)}
+                      className="btn-outline"
+                    >
+                      {amendForm?.orderId === order._id ? 'Close Edit' : 'Edit Order'}
+                    </button>
+                  )}
+                  {order.status === 'delivered' && (
+                    <button
+                      onClick={(e) => handleOpenReturn(order, e)}
+                      className="btn-outline"
+                    >
+                      {returnForm?.orderId === order._id ? 'Close Return' : 'Request Return'}
+                    </button>
+                  )}
                   {/* <Link
                     href={`/orders/${order._id}`}
                     className="btn-outline"
@@ -325,6 +653,142 @@ export default function OrdersPage() {
                     View Details
                   </Link> */}
                 </div>
+
+                {/* Amend Order Form */}
+                {amendForm?.orderId === order._id && (
+                  <form
+                    onSubmit={(e) => handleAmendOrder(order, e)}
+                    onClick={(e) => e.stopPropagation()}
+                    className="mt-4 pt-4 border-t space-y-3"
+                  >
+                    <h4 className="font-semibold text-gray-300">Items (0 removes a line)</h4>
+                    {order.items.map((item) => (
+                      <div key={item.sku} className="flex items-center justify-between text-sm">
+                        <span className="text-gray-700">{item.name}</span>
+                        <input
+                          type="number"
+                          min={0}
+                          value={amendForm.quantities[item.sku] ?? 0}
+                          onChange={(e) =>
+                            setAmendForm({
+                              ...amendForm,
+                              quantities: {
+                                ...amendForm.quantities,
+                                [item.sku]: Math.max(0, Math.floor(Number(e.target.value))),
+                              },
+                            })
+                          }
+                          className="input w-24"
+                        />
+                      </div>
+                    ))}
+                    <div className="flex items-center space-x-2 text-sm">
+                      <input
+                        type="text"
+                        value={amendForm.newSku}
+                        onChange={(e) => setAmendForm({ ...amendForm, newSku: e.target.value })}
+                        placeholder="Add a product by SKU"
+                        className="input flex-1"
+                      />
+                      <input
+                        type="number"
+                        min={1}
+                        value={amendForm.newQuantity}
+                        onChange={(e) =>
+                          setAmendForm({
+                            ...amendForm,
+                            newQuantity: Math.max(1, Math.floor(Number(e.target.value))),
+                          })
+                        }
+                        className="input w-24"
+                      />
+                    </div>
+                    <h4 className="font-semibold text-gray-300">Shipping address</h4>
+                    <div className="grid grid-cols-2 gap-2">
+                      {(['street', 'city', 'state', 'zipCode', 'country'] as const).map((field) => (
+                        <input
+                          key={field}
+                          type="text"
+                          value={amendForm.shippingAddress[field]}
+                          onChange={(e) =>
+                            setAmendForm({
+                              ...amendForm,
+                              shippingAddress: { ...amendForm.shippingAddress, [field]: e.target.value },
+                            })
+                          }
+                          placeholder={field === 'zipCode' ? 'ZIP code' : field.charAt(0).toUpperCase() + field.slice(1)}
+                          required
+                          className={`input ${field === 'street' ? 'col-span-2' : ''}`}
+                        />
+                      ))}
+                    </div>
+                    <textarea
+                      value={amendForm.reason}
+                      onChange={(e) => setAmendForm({ ...amendForm, reason: e.target.value })}
+                      placeholder="Why are you changing the order? (optional)"
+                      maxLength={500}
+                      rows={2}
+                      className="input w-full"
+                    />
+                    <p className="text-xs text-gray-500">
+                      The order is priced again with current prices, tax and shipping.
+                    </p>
+                    <button
+                      type="submit"
+                      disabled={amending}
+                      className="btn-primary disabled:opacity-50"
+                    >
+                      {amending ? 'Saving...' : 'Save Changes'}
+                    </button>
+                  </form>
+                )}
+
+                {/* Return Request Form */}
+                {returnForm?.orderId === order._id && (
+                  <form
+                    onSubmit={handleRequestReturn}
+                    onClick={(e) => e.stopPropagation()}
+                    className="mt-4 pt-4 border-t space-y-3"
+                  >
+                    <h4 className="font-semibold text-gray-300">Items to return</h4>
+                    {order.items.map((item) => (
+                      <div key={item.sku} className="flex items-center justify-between text-sm">
+                        <span className="text-gray-700">{item.name}</span>
+                        <input
+                          type="number"
+                          min={0}
+                          max={item.quantity}
+                          value={returnForm.quantities[item.sku] ?? 0}
+                          onChange={(e) =>
+                            setReturnForm({
+                              ...returnForm,
+                              quantities: {
+                                ...returnForm.quantities,
+                                [item.sku]: Math.min(item.quantity, Math.max(0, Number(e.target.value))),
+                              },
+                            })
+                          }
+                          className="input w-24"
+                        />
+                      </div>
+                    ))}
+                    <textarea
+                      value={returnForm.reason}
+                      onChange={(e) => setReturnForm({ ...returnForm, reason: e.target.value })}
+                      placeholder="Why are you returning these items?"
+                      maxLength={500}
+                      rows={2}
+                      className="input w-full"
+                    />
+                    <button
+                      type="submit"
+                      disabled={requestingReturn}
+                      className="btn-primary disabled:opacity-50"
+                    >
+                      {requestingReturn ? 'Submitting...' : 'Submit Return'}
+                    </button>
+                  </form>
+                )}
               </div>
             </div>
           );
@@ -0,0 +1,158 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { toast } from 'react-toastify';
+import { useAppSelector } from '@/lib/redux/hooks';
+import { orderApi, ReturnRequest, ReturnStatus } from '@/lib/api/order';
+import { formatMoney } from '@/lib/currency';
+
+const STATUS_LABELS: Record<ReturnStatus, string> = {
+  requested: 'Awaiting review',
+  approved: 'Approved - refund on its way',
+  rejected: 'Rejected',
+  received: 'Received',
+};
+
+/**
+ * Customer Returns Page
+ *
+ * Lists the current user's return requests with their status history.
+ * Returns are requested from the My Orders page for delivered orders.
+ *
+ * @returns Returns page
+ */
+export default function ReturnsPage() {
+  const { isAuthenticated } = useAppSelector((state) => state.auth);
+
+  const [returns, setReturns] = useState<ReturnRequest[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!isAuthenticated) return;
+
+    orderApi
+      .listReturns({ limit: 100 }, true)
+      .then(({ data }) => setReturns(data))
+      .catch((err: any) => {
+        console.error('Error loading returns:', err);
+        toast.error(err.message || 'Failed to load returns');
+      })
+      .finally(() => setLoading(false));
+  }, [isAuthenticated]);
+
+  const getStatusColor = (status: ReturnStatus) => {
+    const colors = {
+      requested: 'bg-yellow-100 text-yellow-800',
+      approved: 'bg-blue-100 text-blue-800',
+      rejected: 'bg-red-100 text-red-800',
+      received: 'bg-green-100 text-green-800',
+    };
+    return colors[status];
+  };
+
+  if (!isAuthenticated) {
+    return (
+      <div className="container-custom py-12">
+        <div className="text-center py-16">
+          <div className="text-6xl mb-4">🔒</div>
+          <h1 className="text-3xl font-bold text-gray-300 mb-4">
+            Please Sign In
+          </h1>
+          <p className="text-gray-600 mb-8">
+            You need to be logged in to view your returns
+          </p>
+          <Link href="/login" className="btn-primary">
+            Sign In
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  if (loading) {
+    return (
+      <div className="container-custom py-12">
+        <div className="text-center py-16">
+          <div className="animate-spin rounded-full h-16 w-16 border-b-2 border-primary-600 mx-auto" />
+          <p className="text-gray-600 mt-4">Loading returns...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container-custom py-12">
+      <div className="mb-8">
+        <h1 className="text-4xl font-bold text-gray-300 mb-2">My Returns</h1>
+        <p className="text-gray-600">Track your return requests and refunds</p>
+      </div>
+
+      {returns.length === 0 ? (
+        <div className="text-center py-16">
+          <div className="text-6xl mb-4">↩️</div>
+          <h2 className="text-2xl font-bold text-gray-300 mb-4">
+            No Returns
+          </h2>
+          <p className="text-gray-600 mb-8">
+            You can return items of delivered orders from My Orders
+          </p>
+          <Link href="/orders" className="btn-primary">
+            My Orders
+          </Link>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {returns.map((ret) => (
+            <div key={ret.id} className="card p-6">
+              <div className="flex justify-between items-start mb-4">
+                <div>
+                  <h3 className="text-lg font-semibold text-gray-300">
+                    Return for order #{ret.orderId.slice(-8).toUpperCase()}
+                  </h3>
+                  <p className="text-sm text-gray-600">
+                    Requested {new Date(ret.createdAt).toLocaleDateString()}
+                  </p>
+                </div>
+                <span className={`px-3 py-1 rounded-full text-sm font-semibold ${getStatusColor(ret.status)}`}>
+                  {STATUS_LABELS[ret.status]}
+                </span>
+              </div>
+
+              <ul className="space-y-1 mb-4">
+                {ret.items.map((item) => (
+                  <li key={item.sku} className="flex justify-between text-sm">
+                    <span className="text-gray-700">
+                      {item.name} x {item.quantity}
+                    </span>
+                    <span className="text-gray-300 font-semibold">
+                      {formatMoney(item.unitPrice * item.quantity, ret.currency)}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+
+              <div className="flex justify-between text-sm text-gray-600 border-t pt-3">
+                <span>Reason: {ret.reason}</span>
+                <span className="font-bold text-gray-300">
+                  Refund {formatMoney(ret.refundAmount, ret.currency)}
+                </span>
+              </div>
+
+              {ret.statusHistory.length > 1 && (
+                <ul className="mt-3 space-y-1 text-xs text-gray-500">
+                  {ret.statusHistory.slice(1).map((entry, index) => (
+                    <li key={index}>
+                      {new Date(entry.changedAt).toLocaleString()} - {entry.to}
+                      {entry.note ? `: ${entry.note}` : ''}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -14,7 +14,10 @@ import { useAppSelector } from '@/lib/redux/hooks';
  * is preserved across page reloads.
  */
 
-const protectedRoutes = ['/checkout', '/orders'];
+const protectedRoutes = ['/orders'];
+
+// Guest order links work without an account (checkout is open to guests too)
+const publicRoutes = ['/orders/lookup'];
 
 export default function AuthGuard({ children }: { children: React.ReactNode }) {
   console.log("🚀 ~ AuthGuard ~ children:", children)
@@ -27,7 +30,9 @@ export default function AuthGuard({ children }: { children: React.ReactNode }) {
     if (loading) return;
 
     // Check if current route needs protection
-    const isProtectedRoute = protectedRoutes.some((route) => pathname.startsWith(route));
+    const isProtectedRoute =
+      protectedRoutes.some((route) => pathname.startsWith(route)) &&
+      !publicRoutes.some((route) => pathname.startsWith(route));
 
     if (isProtectedRoute && !isAuthenticated) {
       // Save the intended destination
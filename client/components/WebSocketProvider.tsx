@@ -71,11 +71,16 @@ export const WebSocketProvider = ({ children }: WebSocketProviderProps) => {
 
     console.log(`📦 Order ${orderId} status changed to: ${status} (uppercase: ${statusUpper})`);
 
+    // Shipment events carry the parcel with its tracking number
+    const shipment = data.shipment ? { ...data.shipment, id: data.shipment.shipmentId } : undefined;
+
     // Update Redux store
     dispatch(updateOrderStatus({
       orderId: orderId,
       status: status,
       updatedAt: data.updatedAt || new Date().toISOString(),
+      shipment,
+      amended: data.amended,
     }));
 
     // Determine severity and toast type based on status
@@ -102,7 +107,9 @@ export const WebSocketProvider = ({ children }: WebSocketProviderProps) => {
       console.log(`🔵 Toast type: INFO (${status})`);
     }
 
-    const message = data.message || `Your order #${orderId} is now ${status}`;
+    const message = shipment
+      ? `${data.message || `Your order #${orderId} is now ${status}`} - ${shipment.carrier} tracking ${shipment.trackingNumber}`
+      : data.message || `Your order #${orderId} is now ${status}`;
 
     // Add to notification center
     dispatch(addNotification({
@@ -0,0 +1,20 @@
+import { OrderItem } from './redux/slices/orderSlice';
+
+/**
+ * How an order line is covered by stock, for display next to the line, or
+ * null for fully allocated lines and orders inventory has not processed yet
+ */
+export const allocationLabel = (item: OrderItem): string | null => {
+  const allocation = item.allocation;
+  if (!allocation || allocation.backordered <= 0) return null;
+
+  const waiting =
+    allocation.backordered < item.quantity ? `${allocation.backordered} of ${item.quantity}` : 'all units';
+  if (allocation.status === 'preordered') {
+    const release = allocation.releaseDate
+      ? `, releases ${new Date(allocation.releaseDate).toLocaleDateString()}`
+      : '';
+    return `Pre-order (${waiting}${release})`;
+  }
+  return `Back-ordered (${waiting} waiting for stock)`;
+};
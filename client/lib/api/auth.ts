@@ -60,6 +60,8 @@ export interface ApiError {
   message: string;
   statusCode?: number;
   error?: string;
+  code?: string;
+  details?: any;
 }
 
 /**
@@ -10,6 +10,7 @@ const API_URLS = {
   product: GATEWAY_URL,
   inventory: GATEWAY_URL,
   order: GATEWAY_URL,
+  payment: GATEWAY_URL,
 };
 
 
@@ -21,6 +22,8 @@ const createApiClient = (baseURL: string): AxiosInstance => {
       'Content-Type': 'application/json',
     },
     timeout: 10000,
+    // Send the session_id cookie to the gateway (services authenticate from it)
+    withCredentials: true,
   });
 
   // Response interceptor for error handling
@@ -69,6 +72,7 @@ export const userClient = createApiClient(API_URLS.user);
 export const productClient = createApiClient(API_URLS.product);
 export const inventoryClient = createApiClient(API_URLS.inventory);
 export const orderClient = createApiClient(API_URLS.order);
+export const paymentClient = createApiClient(API_URLS.payment);
 
 const apiClients = {
   auth: authClient,
@@ -76,5 +80,6 @@ const apiClients = {
   product: productClient,
   inventory: inventoryClient,
   order: orderClient,
+  payment: paymentClient,
 };
 export default apiClients;
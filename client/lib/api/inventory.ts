@@ -11,6 +11,22 @@ export interface InventoryItem {
   sold: number;
   available: number;
   location?: string;
+  /** Units ordered beyond stock, waiting for stock to be received */
+  backordered?: number;
+  backorderable?: boolean;
+  preorderable?: boolean;
+  releaseDate?: string;
+  maxBackorder?: number;
+}
+
+/**
+ * Back-order / pre-order settings of a SKU (null clears the release date or limit)
+ */
+export interface BackorderSettings {
+  backorderable?: boolean;
+  preorderable?: boolean;
+  releaseDate?: string | null;
+  maxBackorder?: number | null;
 }
 
 /**
@@ -31,6 +47,7 @@ export interface BatchInventoryResponse {
  * - Get inventory by SKU
  * - Get batch inventory for multiple SKUs
  * - List all inventory items
+ * - Update back-order / pre-order settings
  *
  * Base URL: /inventory
  */
@@ -94,6 +111,24 @@ export const inventoryApi = {
     return response.data.data.data;
   },
 
+  /**
+   * Allow (or stop) selling a SKU beyond its stock
+   *
+   * @param sku - Product SKU
+   * @param settings - Back-order / pre-order settings to change
+   * @returns Updated inventory item
+   */
+  async updateBackorderSettings(sku: string, settings: BackorderSettings): Promise<InventoryItem> {
+    const response = await inventoryClient.patch(
+      `/inventory/inventory/${encodeURIComponent(sku)}/backorder`,
+      settings
+    );
+    if (!response.data.data.success) {
+      throw new Error(response.data.data.message || 'Failed to update back-order settings');
+    }
+    return response.data.data.data;
+  },
+
   /**
    * Get all inventory items (alias for listInventory)
    *
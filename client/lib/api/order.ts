@@ -1,6 +1,7 @@
 import { orderClient } from './client';
 import { Order, OrderItem } from '../redux/slices/orderSlice';
 import { ApiError } from './auth';
+import { CurrencyInfo } from '../currency';
 
 /**
  * Order API interfaces and client
@@ -10,19 +11,235 @@ import { ApiError } from './auth';
  */
 
 export interface CreateOrderRequest {
-  buyerId: string;
-  items: OrderItem[];
+  /** Account placing the order; guests send guestEmail instead */
+  buyerId?: string;
+  guestEmail?: string;
+  items: Array<Pick<OrderItem, 'sku' | 'quantity'> & Partial<OrderItem>>;
   shippingAddress?: Order['shippingAddress'];
   currency?: string;
+  couponCode?: string;
+  shippingMethod?: string;
+  paymentMethod?: 'cod' | 'card';
+}
+
+/**
+ * A created order; guest orders come with the token for viewing them later
+ */
+export type CreatedOrder = Order & { lookupToken?: string };
+
+/**
+ * Cart sent to the promo code check; prices come from the catalog.
+ */
+export interface ValidateCouponRequest {
+  code: string;
+  buyerId: string;
+  items: Array<Pick<OrderItem, 'sku' | 'quantity'>>;
+}
+
+export interface CouponQuote {
+  code: string;
+  description?: string;
+  type: 'percentage' | 'fixed';
+  value: number;
+  discount: number;
+}
+
+/**
+ * Cart and address sent for a tax quote; prices come from the catalog and
+ * the buyer is the signed-in user.
+ */
+export interface TaxQuoteRequest {
+  items: Array<Pick<OrderItem, 'sku' | 'quantity'>>;
+  shippingAddress?: Order['shippingAddress'];
+  couponCode?: string;
+}
+
+export interface TaxQuote {
+  subtotal: number;
+  discount: number;
+  taxableAmount: number;
+  tax: number;
+  total: number;
+  exempt: boolean;
+  jurisdiction: string;
+}
+
+/**
+ * Currencies orders can be charged in (see GET /order/currencies).
+ */
+export interface CurrencyTable {
+  baseCurrency: string;
+  currencies: CurrencyInfo[];
+}
+
+/**
+ * A shipping method offered for the cart and destination.
+ */
+export interface ShippingOption {
+  method: string;
+  name: string;
+  estimatedDelivery: string;
+  cost: number;
 }
 
 export interface FilterOrderQuery {
   buyerId?: string;
   status?: Order['status'];
+  sku?: string;
+  createdFrom?: string;
+  createdTo?: string;
+  minTotal?: number;
+  maxTotal?: number;
+  sortBy?: 'createdAt' | 'updatedAt' | 'total' | 'status';
+  sortOrder?: 'asc' | 'desc';
   page?: number;
   limit?: number;
 }
 
+/**
+ * List filters of an export (no sorting or paging: exports are complete,
+ * oldest first) and the file layout.
+ */
+export interface ExportOrdersQuery
+  extends Omit<FilterOrderQuery, 'sortBy' | 'sortOrder' | 'page' | 'limit'> {
+  format?: 'csv' | 'ndjson';
+  /** One row per order (default) or per line item */
+  rows?: 'order' | 'item';
+}
+
+export interface Pagination {
+  page: number;
+  limit: number;
+  total: number;
+  totalPages: number;
+  hasNextPage: boolean;
+  hasPrevPage: boolean;
+}
+
+export interface OrderListResponse {
+  data: Order[];
+  pagination: Pagination;
+}
+
+/**
+ * Returned in `details.changes` when the catalog price of an item no longer
+ * matches the price sent at checkout (error code PRICE_CHANGED).
+ */
+export interface PriceChange {
+  sku: string;
+  name: string;
+  submittedPrice: number;
+  currentPrice: number;
+  /** Catalog price in the base currency, for updating the cart */
+  currentBasePrice: number;
+}
+
+export interface CreateShipmentRequest {
+  carrier: string;
+  trackingNumber: string;
+  /** Everything not shipped yet when omitted */
+  items?: { sku: string; quantity: number }[];
+}
+
+export interface AmendOrderRequest {
+  /** Lines to change; quantity 0 removes a line, a new SKU adds one */
+  items?: { sku: string; quantity: number }[];
+  shippingAddress?: Order['shippingAddress'];
+  reason?: string;
+}
+
+export type ReturnStatus = 'requested' | 'approved' | 'rejected' | 'received';
+
+export interface ReturnItem {
+  sku: string;
+  name: string;
+  unitPrice: number;
+  quantity: number;
+  /** Set once the goods are received */
+  restockedQuantity?: number;
+  damagedQuantity?: number;
+}
+
+export interface ReturnRequest {
+  id: string;
+  orderId: string;
+  buyerId: string;
+  items: ReturnItem[];
+  reason: string;
+  status: ReturnStatus;
+  refundAmount: number;
+  currency: string;
+  statusHistory: {
+    from: ReturnStatus | null;
+    to: ReturnStatus;
+    changedBy: string;
+    note?: string;
+    changedAt: string;
+  }[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateReturnRequest {
+  orderId: string;
+  items: { sku: string; quantity: number }[];
+  reason: string;
+}
+
+export interface ReceiveReturnRequest {
+  items: { sku: string; restockable: number; damaged: number }[];
+  note?: string;
+}
+
+export interface FilterReturnQuery {
+  status?: ReturnStatus;
+  orderId?: string;
+  page?: number;
+  limit?: number;
+}
+
+export interface ReturnListResponse {
+  data: ReturnRequest[];
+  pagination: Pagination;
+}
+
+export type ReportInterval = 'day' | 'week' | 'month';
+
+/**
+ * Date range (ISO dates) and currency of a sales report. Without a
+ * currency every order counts, converted to the base currency.
+ */
+export interface AnalyticsQuery {
+  createdFrom?: string;
+  createdTo?: string;
+  currency?: string;
+}
+
+export interface SalesSummary {
+  currency: string;
+  /** Charged by orders that were not cancelled */
+  revenue: number;
+  orders: number;
+  averageOrderValue: number;
+  cancelledOrders: number;
+  /** Cancelled share of all orders placed, 0-1 */
+  cancellationRate: number;
+  statuses: { status: Order['status']; count: number }[];
+}
+
+export interface RevenueReport {
+  currency: string;
+  interval: ReportInterval;
+  /** Oldest first; period is the first day (YYYY-MM-DD) */
+  series: { period: string; revenue: number; orders: number; averageOrderValue: number }[];
+}
+
+export interface TopSkusReport {
+  currency: string;
+  sortBy: 'revenue' | 'units';
+  skus: { sku: string; name: string; units: number; revenue: number }[];
+}
+
 /**
  * Order API Client
  *
@@ -31,18 +248,21 @@ export interface FilterOrderQuery {
  */
 export const orderApi = {
   /**
-   * Get all orders (admin) or filtered orders
+   * List orders with filters, sorting and pagination
    * @param filters - Optional filter parameters
-   * @returns Promise resolving to list of orders
+   * @returns Promise resolving to a page of orders with pagination metadata
    * @throws ApiError on fetch failure
    */
-  getOrders: async (filters?: FilterOrderQuery): Promise<Order[]> => {
+  listOrders: async (filters?: FilterOrderQuery): Promise<OrderListResponse> => {
     try {
       const response = await orderClient.get('/order/orders', {
         params: filters,
       });
-      // Backend returns array directly
-      return Array.isArray(response.data) ? response.data : [];
+      // Backend returns { success: true, data: [...], pagination: {...} }
+      return {
+        data: Array.isArray(response.data?.data) ? response.data.data : [],
+        pagination: response.data?.pagination,
+      };
     } catch (error: any) {
       const apiError: ApiError = {
         message: error.response?.data?.message || 'Failed to fetch orders',
@@ -53,6 +273,17 @@ export const orderApi = {
     }
   },
 
+  /**
+   * Get all orders (admin) or filtered orders
+   * @param filters - Optional filter parameters
+   * @returns Promise resolving to list of orders (a single page)
+   * @throws ApiError on fetch failure (see listOrders)
+   */
+  getOrders: async (filters?: FilterOrderQuery): Promise<Order[]> => {
+    const { data } = await orderApi.listOrders(filters);
+    return data;
+  },
+
   /**
    * Get order by ID
    * @param id - Order ID
@@ -76,38 +307,159 @@ export const orderApi = {
   /**
    * Get orders for a specific user (buyer)
    * @param buyerId - User/Buyer ID
-   * @returns Promise resolving to user's orders
-   * @throws ApiError on fetch failure
+   * @returns Promise resolving to user's most recent orders (up to 100)
+   * @throws ApiError on fetch failure (see listOrders)
    */
   getUserOrders: async (buyerId: string): Promise<Order[]> => {
+    const { data } = await orderApi.listOrders({ buyerId, limit: 100 });
+    return data;
+  },
+
+  /**
+   * Create a new order
+   * @param orderData - Order creation data
+   * @param idempotencyKey - Sent as Idempotency-Key; retrying with the same key returns the original order
+   * @returns Promise resolving to created order (with a lookupToken for guest orders)
+   * @throws ApiError on creation failure (code PRICE_CHANGED carries the new prices in details.changes)
+   */
+  createOrder: async (orderData: CreateOrderRequest, idempotencyKey?: string): Promise<CreatedOrder> => {
     try {
-      const response = await orderClient.get('/order/orders', {
-        params: { buyerId },
+      const response = await orderClient.post('/order/orders', orderData, {
+        headers: idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : undefined,
       });
-      return Array.isArray(response.data) ? response.data : [];
+      return response.data;
     } catch (error: any) {
       const apiError: ApiError = {
-        message: error.response?.data?.message || 'Failed to fetch user orders',
+        message: error.response?.data?.message || 'Failed to create order',
         statusCode: error.response?.status,
         error: error.response?.data?.error,
+        code: error.response?.data?.code,
+        details: error.response?.data?.details,
       };
       throw apiError;
     }
   },
 
   /**
-   * Create a new order
-   * @param orderData - Order creation data
-   * @returns Promise resolving to created order
-   * @throws ApiError on creation failure
+   * View a guest order without signing in
+   * @param token - Lookup token returned when the order was placed
+   * @returns Promise resolving to the order
+   * @throws ApiError when the token is invalid or expired (401) or the order is gone (404)
    */
-  createOrder: async (orderData: CreateOrderRequest): Promise<Order> => {
+  lookupOrder: async (token: string): Promise<Order> => {
     try {
-      const response = await orderClient.post('/order/orders', orderData);
+      const response = await orderClient.get('/order/orders/lookup', { params: { token } });
       return response.data;
     } catch (error: any) {
       const apiError: ApiError = {
-        message: error.response?.data?.message || 'Failed to create order',
+        message: error.response?.data?.message || 'Failed to fetch order',
+        statusCode: error.response?.status,
+        error: error.response?.data?.error,
+      };
+      throw apiError;
+    }
+  },
+
+  /**
+   * Move orders placed as a guest with the account email into the account
+   * @param tokens - Lookup tokens of those orders (proof the email is the caller's)
+   * @returns Promise resolving to the claimed orders
+   * @throws ApiError when the tokens are invalid (401) or for another email (403)
+   */
+  claimGuestOrders: async (tokens: string[]): Promise<Order[]> => {
+    try {
+      const response = await orderClient.post('/order/orders/guest/claim', { tokens });
+      return Array.isArray(response.data?.data) ? response.data.data : [];
+    } catch (error: any) {
+      const apiError: ApiError = {
+        message: error.response?.data?.message || 'Failed to add orders to your account',
+        statusCode: error.response?.status,
+        error: error.response?.data?.error,
+      };
+      throw apiError;
+    }
+  },
+
+  /**
+   * Check a promo code against the cart before placing the order
+   * @param request - Code, buyer and cart items
+   * @returns Promise resolving to the coupon and the discount it gives this cart
+   * @throws ApiError when the code does not apply (code INVALID_COUPON, reason in details.reason)
+   */
+  validateCoupon: async (request: ValidateCouponRequest): Promise<CouponQuote> => {
+    try {
+      const response = await orderClient.post('/order/coupons/validate', request);
+      return response.data?.data;
+    } catch (error: any) {
+      const apiError: ApiError = {
+        message: error.response?.data?.message || 'Failed to check promo code',
+        statusCode: error.response?.status,
+        error: error.response?.data?.error,
+        code: error.response?.data?.code,
+        details: error.response?.data?.details,
+      };
+      throw apiError;
+    }
+  },
+
+  /**
+   * Quote the tax and total the order would be placed with
+   * @param request - Cart items, shipping address and optional promo code
+   * @returns Promise resolving to the tax quote
+   * @throws ApiError on quote failure (code INVALID_COUPON if the promo code does not apply)
+   */
+  quoteTax: async (request: TaxQuoteRequest): Promise<TaxQuote> => {
+    try {
+      const response = await orderClient.post('/order/tax/quote', request);
+      return response.data?.data;
+    } catch (error: any) {
+      const apiError: ApiError = {
+        message: error.response?.data?.message || 'Failed to calculate tax',
+        statusCode: error.response?.status,
+        error: error.response?.data?.error,
+        code: error.response?.data?.code,
+        details: error.response?.data?.details,
+      };
+      throw apiError;
+    }
+  },
+
+  /**
+   * Get the currencies orders can be placed in, with exchange rates
+   * @returns Promise resolving to the base currency and supported currencies
+   * @throws ApiError on fetch failure
+   */
+  getCurrencies: async (): Promise<CurrencyTable> => {
+    try {
+      const response = await orderClient.get('/order/currencies');
+      return response.data?.data;
+    } catch (error: any) {
+      const apiError: ApiError = {
+        message: error.response?.data?.message || 'Failed to fetch currencies',
+        statusCode: error.response?.status,
+        error: error.response?.data?.error,
+      };
+      throw apiError;
+    }
+  },
+
+  /**
+   * List the shipping methods offered for a cart and destination
+   * @param items - Cart items (priced and weighed from the catalog)
+   * @param shippingAddress - Destination
+   * @returns Promise resolving to the available methods, cheapest first
+   * @throws ApiError on quote failure
+   */
+  quoteShipping: async (
+    items: Array<Pick<OrderItem, 'sku' | 'quantity'>>,
+    shippingAddress?: Order['shippingAddress']
+  ): Promise<ShippingOption[]> => {
+    try {
+      const response = await orderClient.post('/order/shipping/quote', { items, shippingAddress });
+      return Array.isArray(response.data?.data) ? response.data.data : [];
+    } catch (error: any) {
+      const apiError: ApiError = {
+        message: error.response?.data?.message || 'Failed to fetch shipping options',
         statusCode: error.response?.status,
         error: error.response?.data?.error,
       };
@@ -137,16 +489,15 @@ export const orderApi = {
   },
 
   /**
-   * Cancel an order
+   * Cancel one of the current user's orders (allowed until it ships)
    * @param id - Order ID
+   * @param reason - Why the customer is cancelling
    * @returns Promise resolving to cancelled order
    * @throws ApiError on cancellation failure
    */
-  cancelOrder: async (id: string): Promise<Order> => {
+  cancelOrder: async (id: string, reason: string): Promise<Order> => {
     try {
-      const response = await orderClient.patch(`/order/orders/${id}/status`, {
-        status: 'cancelled',
-      });
+      const response = await orderClient.post(`/order/orders/${id}/cancel`, { reason });
       return response.data;
     } catch (error: any) {
       const apiError: ApiError = {
@@ -158,6 +509,208 @@ export const orderApi = {
     }
   },
 
+  /**
+   * Change lines or the shipping address of a pending or processing order
+   * (own orders, or any order for admins). The order is priced again.
+   * @param id - Order ID
+   * @param request - Lines to change and/or the new address
+   * @returns Promise resolving to the amended order
+   * @throws ApiError on failure (code AMENDMENT_NOT_ALLOWED once the order is paid or shipped)
+   */
+  amendOrder: async (id: string, request: AmendOrderRequest): Promise<Order> => {
+    try {
+      const response = await orderClient.patch(`/order/orders/${id}`, request);
+      return response.data?.data;
+    } catch (error: any) {
+      const apiError: ApiError = {
+        message: error.response?.data?.message || 'Failed to update order',
+        statusCode: error.response?.status,
+        error: error.response?.data?.error,
+        code: error.response?.data?.code,
+      };
+      throw apiError;
+    }
+  },
+
+  /**
+   * URL of the order export (Admin only). The browser downloads it directly
+   * so large exports stream to disk instead of being buffered in memory.
+   * @param query - Same filters as the order list, plus format and rows
+   * @returns Absolute URL of the export on the gateway
+   */
+  exportOrdersUrl: (query: ExportOrdersQuery = {}): string => {
+    const params = Object.fromEntries(
+      Object.entries(query).filter(([, value]) => value !== undefined && value !== '')
+    );
+    return orderClient.getUri({ url: '/order/orders/export', params });
+  },
+
+  /**
+   * Download the invoice of a paid order (own orders, or any order for admins)
+   * @param id - Order ID
+   * @param format - pdf (default) or html
+   * @returns Promise resolving to the invoice document
+   * @throws ApiError on failure; code INVOICE_NOT_AVAILABLE until the order is paid
+   */
+  downloadInvoice: async (id: string, format: 'pdf' | 'html' = 'pdf'): Promise<Blob> => {
+    try {
+      const response = await orderClient.get(`/order/orders/${id}/invoice`, {
+        params: { format },
+        responseType: 'blob',
+      });
+      return response.data;
+    } catch (error: any) {
+      // Error bodies arrive as a Blob too because of responseType
+      const data = error.response?.data instanceof Blob
+        ? await error.response.data.text().then(JSON.parse).catch(() => undefined)
+        : error.response?.data;
+      const apiError: ApiError = {
+        message: data?.message || 'Failed to download invoice',
+        statusCode: error.response?.status,
+        error: data?.error,
+        code: data?.code,
+      };
+      throw apiError;
+    }
+  },
+
+  /**
+   * Ship some or all remaining items of an order (Admin only)
+   * @param id - Order ID
+   * @param request - Carrier, tracking number and optional lines
+   * @returns Promise resolving to the order with its shipments
+   * @throws ApiError on failure (code SHIPMENT_NOT_ALLOWED when the items cannot be shipped)
+   */
+  createShipment: async (id: string, request: CreateShipmentRequest): Promise<Order> => {
+    try {
+      const response = await orderClient.post(`/order/orders/${id}/shipments`, request);
+      return response.data?.data;
+    } catch (error: any) {
+      const apiError: ApiError = {
+        message: error.response?.data?.message || 'Failed to create shipment',
+        statusCode: error.response?.status,
+        error: error.response?.data?.error,
+        code: error.response?.data?.code,
+      };
+      throw apiError;
+    }
+  },
+
+  /**
+   * Mark a shipment as delivered (Admin only)
+   * @param id - Order ID
+   * @param shipmentId - Shipment ID
+   * @returns Promise resolving to the order; delivered once every shipment is
+   * @throws ApiError on failure
+   */
+  deliverShipment: async (id: string, shipmentId: string): Promise<Order> => {
+    try {
+      const response = await orderClient.patch(`/order/orders/${id}/shipments/${shipmentId}/deliver`);
+      return response.data?.data;
+    } catch (error: any) {
+      const apiError: ApiError = {
+        message: error.response?.data?.message || 'Failed to update shipment',
+        statusCode: error.response?.status,
+        error: error.response?.data?.error,
+      };
+      throw apiError;
+    }
+  },
+
+  /**
+   * Request a return for items of one of the current user's delivered orders
+   * @param request - Order, items with quantities and reason
+   * @returns Promise resolving to the return, with the refund it would give
+   * @throws ApiError on failure (code RETURN_NOT_ALLOWED when the items cannot be returned)
+   */
+  requestReturn: async (request: CreateReturnRequest): Promise<ReturnRequest> => {
+    try {
+      const response = await orderClient.post('/order/returns', request);
+      return response.data?.data;
+    } catch (error: any) {
+      const apiError: ApiError = {
+        message: error.response?.data?.message || 'Failed to request return',
+        statusCode: error.response?.status,
+        error: error.response?.data?.error,
+        code: error.response?.data?.code,
+      };
+      throw apiError;
+    }
+  },
+
+  /**
+   * List returns, newest first
+   * @param filters - Optional status/order filter and page
+   * @param mine - Only the current user's returns (otherwise admin only)
+   * @returns Promise resolving to a page of returns with pagination metadata
+   * @throws ApiError on fetch failure
+   */
+  listReturns: async (filters?: FilterReturnQuery, mine = false): Promise<ReturnListResponse> => {
+    try {
+      const response = await orderClient.get(mine ? '/order/returns/mine' : '/order/returns', {
+        params: filters,
+      });
+      return {
+        data: Array.isArray(response.data?.data) ? response.data.data : [],
+        pagination: response.data?.pagination,
+      };
+    } catch (error: any) {
+      const apiError: ApiError = {
+        message: error.response?.data?.message || 'Failed to fetch returns',
+        statusCode: error.response?.status,
+        error: error.response?.data?.error,
+      };
+      throw apiError;
+    }
+  },
+
+  /**
+   * Approve (requests the refund) or reject a return (Admin only)
+   * @param id - Return ID
+   * @param decision - approve or reject
+   * @param note - Optional note for the customer
+   * @returns Promise resolving to the updated return
+   * @throws ApiError on failure (409 if already reviewed)
+   */
+  reviewReturn: async (
+    id: string,
+    decision: 'approve' | 'reject',
+    note?: string,
+  ): Promise<ReturnRequest> => {
+    try {
+      const response = await orderClient.patch(`/order/returns/${id}/review`, { decision, note });
+      return response.data?.data;
+    } catch (error: any) {
+      const apiError: ApiError = {
+        message: error.response?.data?.message || 'Failed to review return',
+        statusCode: error.response?.status,
+        error: error.response?.data?.error,
+      };
+      throw apiError;
+    }
+  },
+
+  /**
+   * Record received goods as restockable or damaged (Admin only)
+   * @param id - Return ID
+   * @param request - Restockable and damaged units per SKU
+   * @returns Promise resolving to the received return
+   * @throws ApiError on failure (400 if the counts don't add up)
+   */
+  receiveReturn: async (id: string, request: ReceiveReturnRequest): Promise<ReturnRequest> => {
+    try {
+      const response = await orderClient.patch(`/order/returns/${id}/receive`, request);
+      return response.data?.data;
+    } catch (error: any) {
+      const apiError: ApiError = {
+        message: error.response?.data?.message || 'Failed to receive return',
+        statusCode: error.response?.status,
+        error: error.response?.data?.error,
+      };
+      throw apiError;
+    }
+  },
+
   /**
    * Get order statistics (Admin only)
    * @returns Promise resolving to order statistics
@@ -173,19 +726,9 @@ export const orderApi = {
     totalRevenue: number;
   }> => {
     try {
-      const orders = await orderApi.getOrders();
-      const stats = {
-        total: orders.length,
-        pending: orders.filter((o) => o.status === 'pending').length,
-        processing: orders.filter((o) => o.status === 'processing').length,
-        shipped: orders.filter((o) => o.status === 'shipped').length,
-        delivered: orders.filter((o) => o.status === 'delivered').length,
-        cancelled: orders.filter((o) => o.status === 'cancelled').length,
-        totalRevenue: orders
-          .filter((o) => o.status === 'delivered')
-          .reduce((sum, o) => sum + o.total, 0),
-      };
-      return stats;
+      // Counted and summed by the order service, so no order is downloaded
+      const response = await orderClient.get('/order/orders/stats');
+      return response.data?.data;
     } catch (error: any) {
       const apiError: ApiError = {
         message: error.response?.data?.message || 'Failed to fetch order statistics',
@@ -195,5 +738,69 @@ export const orderApi = {
       throw apiError;
     }
   },
+
+  /**
+   * Revenue, average order value, orders per status and cancellation rate (Admin only)
+   * @param query - Date range and currency
+   * @returns Promise resolving to the summary
+   * @throws ApiError on fetch failure
+   */
+  getSalesSummary: async (query?: AnalyticsQuery): Promise<SalesSummary> => {
+    try {
+      const response = await orderClient.get('/order/analytics/summary', { params: query });
+      return response.data?.data;
+    } catch (error: any) {
+      const apiError: ApiError = {
+        message: error.response?.data?.message || 'Failed to fetch sales summary',
+        statusCode: error.response?.status,
+        error: error.response?.data?.error,
+      };
+      throw apiError;
+    }
+  },
+
+  /**
+   * Revenue and orders per day, week or month (Admin only)
+   * @param query - Date range, currency and interval
+   * @returns Promise resolving to the series, periods without orders included
+   * @throws ApiError on fetch failure
+   */
+  getRevenueReport: async (
+    query?: AnalyticsQuery & { interval?: ReportInterval },
+  ): Promise<RevenueReport> => {
+    try {
+      const response = await orderClient.get('/order/analytics/revenue', { params: query });
+      return response.data?.data;
+    } catch (error: any) {
+      const apiError: ApiError = {
+        message: error.response?.data?.message || 'Failed to fetch revenue report',
+        statusCode: error.response?.status,
+        error: error.response?.data?.error,
+      };
+      throw apiError;
+    }
+  },
+
+  /**
+   * Best-selling SKUs by revenue or units (Admin only)
+   * @param query - Date range, currency, sort and how many SKUs
+   * @returns Promise resolving to the ranked SKUs
+   * @throws ApiError on fetch failure
+   */
+  getTopSkus: async (
+    query?: AnalyticsQuery & { sortBy?: 'revenue' | 'units'; limit?: number },
+  ): Promise<TopSkusReport> => {
+    try {
+      const response = await orderClient.get('/order/analytics/top-skus', { params: query });
+      return response.data?.data;
+    } catch (error: any) {
+      const apiError: ApiError = {
+        message: error.response?.data?.message || 'Failed to fetch top SKUs',
+        statusCode: error.response?.status,
+        error: error.response?.data?.error,
+      };
+      throw apiError;
+    }
+  },
 };
 
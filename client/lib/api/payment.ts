@@ -0,0 +1,125 @@
+import { paymentClient } from './client';
+import { ApiError } from './auth';
+
+/**
+ * Payment API interfaces and client
+ *
+ * Payments are recorded by the payment service per checkout of an order.
+ * All requests are routed through the API gateway.
+ */
+
+export type PaymentStatus =
+  | 'created'
+  | 'authorized'
+  | 'captured'
+  | 'partially_refunded'
+  | 'refunded'
+  | 'failed';
+
+/**
+ * A status change or webhook of a payment; amounts are in the payment currency
+ */
+export interface PaymentLedgerEntry {
+  type: 'status_changed' | 'webhook';
+  at: string;
+  from?: PaymentStatus;
+  to?: PaymentStatus;
+  amount?: number;
+  reference?: string;
+  providerType?: string;
+  reason?: string;
+}
+
+/**
+ * A refund issued on a payment by an admin; pending until the provider
+ * confirms it
+ */
+export interface PaymentRefund {
+  id: string;
+  amount: number;
+  currency: string;
+  reason: string;
+  /** Lines refunded, when the refund was for items */
+  items?: { sku: string; quantity: number }[];
+  status: 'pending' | 'succeeded' | 'failed';
+  providerRefundId?: string;
+  failureReason?: string;
+  createdBy: string;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+/**
+ * What to refund: an amount, or line items at the price paid, but not both
+ */
+export type RefundOrderRequest = { reason: string } & (
+  | { amount: number; items?: never }
+  | { items: { sku: string; quantity: number }[]; amount?: never }
+);
+
+export interface Payment {
+  id: string;
+  orderId: string;
+  userId?: string;
+  provider: string;
+  status: PaymentStatus;
+  currency: string;
+  amount: number;
+  capturedAmount: number;
+  refundedAmount: number;
+  sessionId?: string;
+  paymentId?: string;
+  ledger: PaymentLedgerEntry[];
+  refunds: PaymentRefund[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Payment API Client
+ */
+export const paymentApi = {
+  /**
+   * Payments of an order, newest first (admin)
+   * @param orderId - Order ID
+   * @returns Promise resolving to the order's payments (empty for cash on delivery)
+   * @throws ApiError on fetch failure
+   */
+  getOrderPayments: async (orderId: string): Promise<Payment[]> => {
+    try {
+      const response = await paymentClient.get(`/payment/orders/${orderId}`);
+      return Array.isArray(response.data) ? response.data : [];
+    } catch (error: any) {
+      const apiError: ApiError = {
+        message: error.response?.data?.message || 'Failed to fetch payments',
+        statusCode: error.response?.status,
+        error: error.response?.data?.error,
+      };
+      throw apiError;
+    }
+  },
+
+  /**
+   * Refund an order's captured payment, in part or in full (admin)
+   * @param orderId - Order ID
+   * @param request - Amount or line items to refund, and why
+   * @returns Promise resolving to the refund and the payment it was issued on
+   * @throws ApiError when the refund exceeds what can still be refunded or the provider rejects it
+   */
+  refundOrder: async (
+    orderId: string,
+    request: RefundOrderRequest,
+  ): Promise<{ refund: PaymentRefund; payment: Payment }> => {
+    try {
+      const response = await paymentClient.post(`/payment/orders/${orderId}/refunds`, request);
+      return response.data;
+    } catch (error: any) {
+      const apiError: ApiError = {
+        message: error.response?.data?.message || 'Failed to refund order',
+        statusCode: error.response?.status,
+        error: error.response?.data?.error,
+      };
+      throw apiError;
+    }
+  },
+};
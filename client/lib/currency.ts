@@ -0,0 +1,29 @@
+/**
+ * Currency helpers for storefront prices.
+ *
+ * Catalog prices are in the base currency. Conversions mirror the order
+ * service (round the base price to its minor unit, apply the rate, round to
+ * the target minor unit) so the prices shown match what the order charges.
+ */
+
+export interface CurrencyInfo {
+  code: string;
+  /** Units of this currency per one unit of the base currency */
+  rate: number;
+  minorUnitDigits: number;
+}
+
+/**
+ * Convert a base-currency amount into `currency`.
+ */
+export const convertFromBase = (amount: number, currency: CurrencyInfo, baseDigits = 2): number => {
+  const base = Math.round(amount * 10 ** baseDigits) / 10 ** baseDigits;
+  const factor = 10 ** currency.minorUnitDigits;
+  return Math.round(base * currency.rate * factor) / factor;
+};
+
+/**
+ * Format an amount for display, e.g. formatMoney(12.5, 'EUR') → "€12.50".
+ */
+export const formatMoney = (amount: number, currency = 'USD'): string =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(amount);
@@ -0,0 +1,47 @@
+/**
+ * Orders placed at guest checkout, remembered in this browser so the guest
+ * can reopen them and later claim them into an account.
+ */
+export interface GuestOrderLink {
+  orderId: string;
+  email: string;
+  /** Signed lookup token returned by the order service */
+  token: string;
+  placedAt: string;
+}
+
+const STORAGE_KEY = 'guestOrders';
+
+/**
+ * Buyer id the order service gives a guest, as in the order service
+ */
+export const guestBuyerId = (email: string): string => `guest:${email.trim().toLowerCase()}`;
+
+/** Page showing a guest order without signing in */
+export const guestOrderUrl = (token: string): string => `/orders/lookup?token=${encodeURIComponent(token)}`;
+
+export const loadGuestOrders = (): GuestOrderLink[] => {
+  if (typeof window === 'undefined') return [];
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveGuestOrder = (link: GuestOrderLink): void => {
+  const others = loadGuestOrders().filter((o) => o.orderId !== link.orderId);
+  localStorage.setItem(STORAGE_KEY, JSON.stringify([link, ...others]));
+};
+
+/**
+ * Drop the links of one email, once its orders belong to an account
+ */
+export const forgetGuestOrders = (email: string): void => {
+  const normalized = email.trim().toLowerCase();
+  localStorage.setItem(
+    STORAGE_KEY,
+    JSON.stringify(loadGuestOrders().filter((o) => o.email !== normalized))
+  );
+};
@@ -0,0 +1,32 @@
+import { orderApi } from './api/order';
+import { Order } from './redux/slices/orderSlice';
+
+/**
+ * Statuses that have an invoice, as in the order service. Numbers are
+ * allocated when an order is paid.
+ */
+export const INVOICEABLE_STATUSES: Order['status'][] = [
+  'paid',
+  'partially_shipped',
+  'shipped',
+  'delivered',
+  'partially_refunded',
+  'refunded',
+];
+
+export const hasInvoice = (order: Order): boolean =>
+  !!order.invoiceNumber || INVOICEABLE_STATUSES.includes(order.status);
+
+/**
+ * Download the invoice PDF of an order through the browser.
+ * @throws ApiError if the invoice cannot be fetched
+ */
+export const saveInvoice = async (order: Order): Promise<void> => {
+  const blob = await orderApi.downloadInvoice(order._id);
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `invoice-${order.invoiceNumber ?? order._id}.pdf`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -84,6 +84,23 @@ const cartSlice = createSlice({
         localStorage.removeItem('cart');
       }
     },
+    updatePrices: (state, action: PayloadAction<{ sku: string; price: number }[]>) => {
+      for (const { sku, price } of action.payload) {
+        const item = state.items.find((item) => item.sku === sku);
+        if (item) {
+          item.price = price;
+        }
+      }
+
+      const totals = calculateTotals(state.items);
+      state.itemCount = totals.itemCount;
+      state.total = totals.total;
+
+      // Save to localStorage
+      if (typeof window !== 'undefined') {
+        localStorage.setItem('cart', JSON.stringify(state.items));
+      }
+    },
     loadCartFromStorage: (state, action: PayloadAction<CartItem[]>) => {
       state.items = action.payload;
       const totals = calculateTotals(state.items);
@@ -93,7 +110,13 @@ const cartSlice = createSlice({
   },
 });
 
-export const { addToCart, removeFromCart, updateQuantity, clearCart, loadCartFromStorage } =
-  cartSlice.actions;
+export const {
+  addToCart,
+  removeFromCart,
+  updateQuantity,
+  updatePrices,
+  clearCart,
+  loadCartFromStorage,
+} = cartSlice.actions;
 export default cartSlice.reducer;
 
@@ -1,11 +1,55 @@
 import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
-import { orderApi } from '@/lib/api/order';
+import { orderApi, FilterOrderQuery } from '@/lib/api/order';
+
+/**
+ * How a line is covered by stock; `backordered` units wait for stock to be
+ * received (pre-ordered ones until the release date)
+ */
+export interface LineAllocation {
+  status: 'allocated' | 'backordered' | 'preordered';
+  backordered: number;
+  releaseDate?: string;
+}
 
 export interface OrderItem {
   sku: string;
   name: string;
   quantity: number;
   unitPrice: number;
+  /** Missing until inventory has processed the order */
+  allocation?: LineAllocation;
+}
+
+export interface OrderStatusHistoryEntry {
+  from: Order['status'] | null;
+  to: Order['status'];
+  changedBy: string;
+  reason?: string;
+  changedAt: string;
+}
+
+export interface OrderShipment {
+  id: string;
+  items: { sku: string; name: string; quantity: number }[];
+  carrier: string;
+  trackingNumber: string;
+  status: 'shipped' | 'delivered';
+  shippedAt: string;
+  deliveredAt?: string;
+}
+
+/** A change made to the order before fulfillment */
+export interface OrderAmendment {
+  id: string;
+  number: number;
+  /** Changed lines; from 0 = added, to 0 = removed */
+  lines: { sku: string; name: string; from: number; to: number }[];
+  addressChanged: boolean;
+  previousTotal: number;
+  total: number;
+  changedBy: string;
+  reason?: string;
+  changedAt: string;
 }
 
 export interface Order {
@@ -13,9 +57,31 @@ export interface Order {
   userId: string;
   items: OrderItem[];
   subtotal: number;
+  discount?: number;
+  couponCode?: string;
+  shippingMethod?: string;
+  shippingCost?: number;
+  paymentMethod?: 'cod' | 'card';
   tax: number;
   total: number;
-  status: 'pending' | 'processing' | 'shipped' | 'delivered' | 'cancelled';
+  currency?: string;
+  /** Total in the store's base currency, for reporting */
+  baseTotal?: number;
+  baseCurrency?: string;
+  /** Set once the order is paid */
+  invoiceNumber?: string;
+  status:
+    | 'pending'
+    | 'processing'
+    | 'paid'
+    | 'partially_shipped'
+    | 'shipped'
+    | 'delivered'
+    | 'partially_refunded'
+    | 'refunded'
+    | 'cancelled';
+  /** Refunded so far through the payment service, in the order currency */
+  refundedAmount?: number;
   shippingAddress: {
     street: string;
     city: string;
@@ -23,6 +89,14 @@ export interface Order {
     zipCode: string;
     country: string;
   };
+  statusHistory?: OrderStatusHistoryEntry[];
+  /** Parcels sent so far, with carrier tracking */
+  shipments?: OrderShipment[];
+  /** Changes made before fulfillment, oldest first */
+  amendments?: OrderAmendment[];
+  /** Email of a guest checkout; kept after the order was claimed into an account */
+  guestEmail?: string;
+  claimedAt?: string;
   createdAt: string;
   updatedAt: string;
 }
@@ -61,10 +135,10 @@ export const createOrder = createAsyncThunk(
     }
   }
 );
-// Fetch all orders
-export const fetchOrders = createAsyncThunk('order/orders', async (_, { rejectWithValue }) => {
+// Fetch orders (first page unless filters say otherwise)
+export const fetchOrders = createAsyncThunk('order/orders', async (filters: FilterOrderQuery | undefined, { rejectWithValue }) => {
   try {
-    const response = await orderApi.getOrders();
+    const response = await orderApi.getOrders(filters);
     return response;
   } catch (error: any) {
     return rejectWithValue(error.response?.data?.message || 'Failed to fetch orders');
@@ -96,20 +170,39 @@ const orderSlice = createSlice({
     /**
      * Update order status from WebSocket event
      */
-    updateOrderStatus: (state, action: PayloadAction<{ orderId: string; status: string; updatedAt: string }>) => {
-      const { orderId, status, updatedAt } = action.payload;
+    updateOrderStatus: (
+      state,
+      action: PayloadAction<{
+        orderId: string;
+        status: string;
+        updatedAt: string;
+        shipment?: OrderShipment;
+        /** Re-priced lines and amounts after an amendment */
+        amended?: Partial<Pick<Order, 'items' | 'subtotal' | 'discount' | 'shippingCost' | 'tax' | 'total' | 'shippingAddress'>>;
+      }>
+    ) => {
+      const { orderId, status, updatedAt, shipment, amended } = action.payload;
+
+      const apply = (order: Order) => {
+        order.status = status as Order['status'];
+        order.updatedAt = updatedAt;
+        if (shipment) {
+          order.shipments = [...(order.shipments || []).filter((s) => s.id !== shipment.id), shipment];
+        }
+        if (amended) {
+          Object.assign(order, amended);
+        }
+      };
 
       // Update in orders list
       const orderIndex = state.orders.findIndex(order => order._id === orderId);
       if (orderIndex !== -1) {
-        state.orders[orderIndex].status = status as Order['status'];
-        state.orders[orderIndex].updatedAt = updatedAt;
+        apply(state.orders[orderIndex]);
       }
 
       // Update selected order if it matches
       if (state.selectedOrder?._id === orderId) {
-        state.selectedOrder.status = status as Order['status'];
-        state.selectedOrder.updatedAt = updatedAt;
+        apply(state.selectedOrder);
       }
     },
     /**
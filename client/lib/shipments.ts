@@ -0,0 +1,29 @@
+import { Order } from './redux/slices/orderSlice';
+
+/**
+ * Statuses in which more shipments can be created, as in the order service
+ */
+export const SHIPPABLE_STATUSES: Order['status'][] = ['processing', 'paid', 'partially_shipped', 'partially_refunded'];
+
+/**
+ * Units of `sku` not in any shipment of the order yet
+ */
+export const unshippedQuantity = (order: Order, sku: string): number => {
+  const ordered = order.items.filter((item) => item.sku === sku).reduce((sum, item) => sum + item.quantity, 0);
+  const shipped = (order.shipments || [])
+    .flatMap((shipment) => shipment.items)
+    .filter((item) => item.sku === sku)
+    .reduce((sum, item) => sum + item.quantity, 0);
+  return ordered - shipped;
+};
+
+/**
+ * Units of `sku` that can go in a new shipment: not shipped yet and not
+ * waiting for stock
+ */
+export const shippableQuantity = (order: Order, sku: string): number => {
+  const waiting = order.items
+    .filter((item) => item.sku === sku)
+    .reduce((sum, item) => sum + (item.allocation?.backordered ?? 0), 0);
+  return Math.max(0, unshippedQuantity(order, sku) - waiting);
+};
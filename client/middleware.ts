@@ -12,13 +12,17 @@ import type { NextRequest } from 'next/server';
  * client-side via Redux + axios interceptors.
  */
 
-// Routes that require authentication
+// Routes that require authentication (checkout is open to guests)
 const protectedRoutes = [
-  '/checkout',
   '/orders',
   '/admin',
 ];
 
+// Pages under protected routes that guests reach with a signed link
+const publicRoutes = [
+  '/orders/lookup',
+];
+
 // Routes that should redirect to home if already authenticated
 const authRoutes = [
   '/login',
@@ -38,7 +42,9 @@ export function middleware(request: NextRequest) {
   const isAuthenticated = hasSessionCookie || !!authFlag;
 
   // Check if the route is protected
-  const isProtectedRoute = protectedRoutes.some(route => pathname.startsWith(route));
+  const isProtectedRoute =
+    protectedRoutes.some(route => pathname.startsWith(route)) &&
+    !publicRoutes.some(route => pathname.startsWith(route));
   const isAuthRoute = authRoutes.some(route => pathname.startsWith(route));
 
   // For protected routes without auth, add redirect param but don't block
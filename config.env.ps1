@@ -9,7 +9,8 @@ $env:MONGO_URI_USER = "mongodb://localhost:27017/user-service"
 $env:MONGO_URI_PRODUCT = "mongodb://localhost:27017/product-service"
 $env:MONGO_URI_INVENTORY = "mongodb://localhost:27017/inventory-service"
 $env:MONGO_URI_AUTH = "mongodb://localhost:27017/auth-service"
-$env:MONGO_URI_ORDER = "mongodb://localhost:27017/order-service"
+$env:MONGO_URI_ORDER = "mongodb://localhost:27017/order-service?directConnection=true"
+$env:MONGO_URI_PAYMENT = "mongodb://localhost:27017/payment-service"
 
 # Generic MONGO_URI for services that use it
 $env:MONGO_URI = "mongodb://localhost:27017"
@@ -22,6 +23,9 @@ $env:REDIS_PORT = "6379"
 $env:KAFKA_BROKERS = "localhost:9092"
 $env:KAFKA_BROKER = "localhost:9092"
 
+# Payment provider: "fake" (offline checkout) or "stripe" (needs STRIPE_SECRET_KEY and STRIPE_WEBHOOK_SECRET)
+$env:PAYMENT_PROVIDER = "fake"
+
 # Elasticsearch Configuration
 $env:ELASTICSEARCH_NODE = "http://localhost:9200"
 
@@ -31,6 +35,10 @@ $env:PORT_PRODUCT = "3002"
 $env:PORT_INVENTORY = "3003"
 $env:PORT_AUTH = "4000"
 $env:PORT_ORDER = "5003"
+$env:PORT_PAYMENT = "5005"
+
+# Origins allowed to call the gateway with session cookies (comma-separated)
+$env:CORS_ORIGIN = "http://localhost:3000"
 
 # Auth Service Configuration
 $env:JWT_ISS = "http://localhost:4000"
@@ -10,7 +10,8 @@ export MONGO_URI_USER="mongodb://localhost:27017/user-service"
 export MONGO_URI_PRODUCT="mongodb://localhost:27017/product-service"
 export MONGO_URI_INVENTORY="mongodb://localhost:27017/inventory-service"
 export MONGO_URI_AUTH="mongodb://localhost:27017/auth-service"
-export MONGO_URI_ORDER="mongodb://localhost:27017/order-service"
+export MONGO_URI_ORDER="mongodb://localhost:27017/order-service?directConnection=true"
+export MONGO_URI_PAYMENT="mongodb://localhost:27017/payment-service"
 
 # Generic MONGO_URI for services that use it
 export MONGO_URI="mongodb://localhost:27017"
@@ -23,6 +24,9 @@ export REDIS_PORT="6379"
 export KAFKA_BROKERS="localhost:9092"
 export KAFKA_BROKER="localhost:9092"
 
+# Payment provider: "fake" (offline checkout) or "stripe" (needs STRIPE_SECRET_KEY and STRIPE_WEBHOOK_SECRET)
+export PAYMENT_PROVIDER="fake"
+
 # Elasticsearch Configuration
 export ELASTICSEARCH_NODE="http://localhost:9200"
 
@@ -32,7 +36,11 @@ export PORT_PRODUCT="3002"
 export PORT_INVENTORY="3003"
 export PORT_AUTH="4000"
 export PORT_ORDER="5003"
+export PORT_PAYMENT="5005"
 export PORT_CLIENT="3000"
+
+# Origins allowed to call the gateway with session cookies (comma-separated)
+export CORS_ORIGIN="http://localhost:3000"
 # Auth Service Configuration
 export JWT_ISS="http://localhost:4000"
 
@@ -15,7 +15,7 @@ export class CacheInterceptor implements NestInterceptor {
   private readonly logger = new Logger(CacheInterceptor.name);
 
   // Endpoints to skip caching
-  private readonly skipCachePaths = ['/auth', '/order'];
+  private readonly skipCachePaths = ['/auth', '/order', '/payment'];
 
   // TTL configuration in seconds
   private readonly ttlConfig = {
@@ -42,7 +42,7 @@ export class CacheInterceptor implements NestInterceptor {
       return next.handle();
     }
 
-    // Skip caching for auth and order endpoints
+    // Skip caching for auth, order and payment endpoints
     if (this.shouldSkipCache(request.path)) {
       this.logger.debug(`Skipping cache for path: ${request.path}`);
       return next.handle();
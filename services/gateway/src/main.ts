@@ -6,7 +6,16 @@ import * as cookieParser from 'cookie-parser';
 import { DocumentBuilder, SwaggerModule } from '@nestjs/swagger';
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule, { cors: true });
+  // Allow credentials so the browser sends the session_id cookie to services
+  // that authenticate from it, but only from the client's own origin(s):
+  // CORS_ORIGIN is a comma-separated list
+  const origins = (process.env.CORS_ORIGIN || 'http://localhost:3000')
+    .split(',')
+    .map((origin) => origin.trim())
+    .filter(Boolean);
+  const app = await NestFactory.create(AppModule, {
+    cors: { origin: origins, credentials: true },
+  });
 
   // Security middleware
   app.use(helmet({
@@ -94,6 +94,21 @@ export class ProxyController {
     return this.proxyService.proxyRequest('order', req, res);
   }
 
+  // Provider webhooks go to the payment service directly: they are signed
+  // over the raw body, which the gateway re-serializes
+  @All('payment/*')
+  @ApiOperation({
+    summary: 'Proxy payment requests',
+    description: 'Routes payment requests to the payment service'
+  })
+  @ApiResponse({ status: 200, description: 'Request proxied successfully' })
+  async proxyPayment(
+    @Req() req: Request,
+    @Res() res: Response,
+  ) {
+    return this.proxyService.proxyRequest('payment', req, res);
+  }
+
   // Handle OIDC endpoints without prefix
   @All('.well-known/*')
   @ApiOperation({
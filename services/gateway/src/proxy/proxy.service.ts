@@ -44,7 +44,7 @@ export class ProxyService {
   }
 
   private initializeServiceInstances() {
-    const services = ['auth', 'user', 'product', 'inventory', 'order'];
+    const services = ['auth', 'user', 'product', 'inventory', 'order', 'payment'];
 
     for (const service of services) {
       const urlsEnv = process.env[`${service.toUpperCase()}_SERVICE_URLS`];
@@ -98,6 +98,7 @@ export class ProxyService {
       product: 3002,
       inventory: 3003,
       order: 5003,
+      payment: 5005,
     };
     return ports[service] || 3000;
   }
@@ -12,6 +12,9 @@ import { ListItemsUseCase } from './application/use-cases/list-items.usecase';
 import { ReserveStockUseCase } from './application/use-cases/reserve-stock.usecase';
 import { ReleaseReservedStockUseCase } from './application/use-cases/release-reserved-stock.usecase';
 import { DeductStockUseCase } from './application/use-cases/deduct-stock.usecase';
+import { AdjustStockUseCase } from './application/use-cases/adjust-stock.usecase';
+import { AllocateBackordersUseCase } from './application/use-cases/allocate-backorders.usecase';
+import { UpdateBackorderSettingsUseCase } from './application/use-cases/update-backorder-settings.usecase';
 import { InventoryController } from './presentation/controllers/inventory.controller';
 import { InventoryProducer } from './infrastructure/events/inventory.producer';
 import { OrderInventoryHandler } from './infrastructure/events/order-inventory.handler';
@@ -28,6 +31,7 @@ import { EventBusModule } from './infrastructure/event-bus/event-bus.module';
  * - Stock reservation for orders
  * - Stock release on cancellation
  * - Stock deduction on delivery
+ * - Back-orders / pre-orders, allocated when stock is received
  * - Distributed locking via Redis
  * - Event-driven communication via Kafka
  * - Real-time stock alerts
@@ -65,6 +69,9 @@ import { EventBusModule } from './infrastructure/event-bus/event-bus.module';
     ReserveStockUseCase,
     ReleaseReservedStockUseCase,
     DeductStockUseCase,
+    AdjustStockUseCase,
+    AllocateBackordersUseCase,
+    UpdateBackorderSettingsUseCase,
 
     // Event Producers
     InventoryProducer,
@@ -0,0 +1,26 @@
+import {
+  IsBoolean,
+  IsDateString,
+  IsInt,
+  IsOptional,
+  Min,
+} from 'class-validator';
+
+export class UpdateBackorderSettingsDto {
+  @IsOptional()
+  @IsBoolean()
+  backorderable?: boolean;
+
+  @IsOptional()
+  @IsBoolean()
+  preorderable?: boolean;
+
+  @IsOptional()
+  @IsDateString()
+  releaseDate?: string | null; // null clears it
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  maxBackorder?: number | null; // null => no limit
+}
@@ -0,0 +1,85 @@
+import { InventoryRepository } from '../../infrastructure/repositories/inventory.repository';
+import { InventoryProducer } from '../../infrastructure/events/inventory.producer';
+import { RedisLockService } from '../../infrastructure/redis/redis-lock.service';
+import { AllocateBackordersUseCase } from './allocate-backorders.usecase';
+import { InventoryItem } from '../../domain/entities/inventory-item.entity';
+import { AdjustStockUseCase } from './adjust-stock.usecase';
+
+describe('AdjustStockUseCase', () => {
+  const makeItem = (stock: number, reserved: number, backordered: number) =>
+    new InventoryItem(
+      'i1',
+      'SKU-1',
+      stock,
+      reserved,
+      undefined,
+      0,
+      undefined,
+      undefined,
+      backordered,
+      true,
+    );
+
+  let repo: Record<'findBySku' | 'adjustStock', jest.Mock>;
+  let producer: Record<'publishStockChanged', jest.Mock>;
+  let lockService: Record<'acquireLock' | 'releaseLock', jest.Mock>;
+  let allocateBackorders: Record<'execute', jest.Mock>;
+  let usecase: AdjustStockUseCase;
+
+  beforeEach(() => {
+    repo = {
+      findBySku: jest.fn(),
+      adjustStock: jest.fn(),
+    };
+    producer = {
+      publishStockChanged: jest.fn(),
+    };
+    lockService = {
+      acquireLock: jest.fn().mockResolvedValue('token'),
+      releaseLock: jest.fn(),
+    };
+    allocateBackorders = {
+      execute: jest.fn(),
+    };
+    usecase = new AdjustStockUseCase(
+      repo as unknown as InventoryRepository,
+      producer as unknown as InventoryProducer,
+      lockService as unknown as RedisLockService,
+      allocateBackorders as unknown as AllocateBackordersUseCase,
+    );
+  });
+
+  it('should fill back-orders once received stock is in, after releasing the lock', async () => {
+    repo.findBySku
+      .mockResolvedValueOnce(makeItem(0, 0, 4))
+      .mockResolvedValueOnce(makeItem(5, 4, 0));
+    repo.adjustStock.mockResolvedValue(makeItem(5, 0, 4));
+    allocateBackorders.execute.mockImplementation(() => {
+      expect(lockService.releaseLock).toHaveBeenCalled();
+      return Promise.resolve([{ orderId: 'o1', quantity: 4 }]);
+    });
+
+    await expect(usecase.execute('SKU-1', 5)).resolves.toEqual(
+      makeItem(5, 4, 0),
+    );
+    expect(allocateBackorders.execute).toHaveBeenCalledWith('SKU-1');
+  });
+
+  it('should not allocate when nothing is back-ordered', async () => {
+    repo.findBySku.mockResolvedValue(makeItem(0, 0, 0));
+    repo.adjustStock.mockResolvedValue(makeItem(5, 0, 0));
+
+    await usecase.execute('SKU-1', 5);
+
+    expect(allocateBackorders.execute).not.toHaveBeenCalled();
+  });
+
+  it('should not allocate when stock goes down', async () => {
+    repo.findBySku.mockResolvedValue(makeItem(5, 0, 2));
+    repo.adjustStock.mockResolvedValue(makeItem(3, 0, 2));
+
+    await usecase.execute('SKU-1', -2);
+
+    expect(allocateBackorders.execute).not.toHaveBeenCalled();
+  });
+});
@@ -2,6 +2,8 @@ import { Injectable } from '@nestjs/common';
 import { InventoryRepository } from '../../infrastructure/repositories/inventory.repository';
 import { InventoryProducer } from '../../infrastructure/events/inventory.producer';
 import { RedisLockService } from '../../infrastructure/redis/redis-lock.service';
+import { AllocateBackordersUseCase } from './allocate-backorders.usecase';
+import { InventoryItem } from '../../domain/entities/inventory-item.entity';
 
 @Injectable()
 export class AdjustStockUseCase {
@@ -9,23 +11,57 @@ export class AdjustStockUseCase {
     private readonly repo: InventoryRepository,
     private readonly producer: InventoryProducer,
     private readonly lockService: RedisLockService,
+    private readonly allocateBackorders: AllocateBackordersUseCase,
   ) {}
 
   async execute(sku: string, delta: number) {
+    const updated = await this.apply(sku, delta, () =>
+      this.repo.adjustStock(sku, delta),
+    );
+    if (!updated) throw new Error('Item not found');
+    return updated;
+  }
+
+  /**
+   * Put the returned units of a SKU back into stock, once per return:
+   * a redelivered restock of the same return leaves stock as it is.
+   * Returns null when the SKU is not stocked.
+   */
+  async restock(sku: string, quantity: number, returnId: string) {
+    return this.apply(sku, quantity, () =>
+      this.repo.restock(sku, quantity, returnId),
+    );
+  }
+
+  private async apply(
+    sku: string,
+    delta: number,
+    update: () => Promise<InventoryItem | null>,
+  ): Promise<InventoryItem | null> {
     // Acquire a short lock per SKU to avoid race conditions
     const lockKey = `inventory:lock:${sku}`;
     const token = await this.lockService.acquireLock(lockKey, 5000);
     if (!token) throw new Error('Could not acquire lock');
 
+    let before: InventoryItem | null;
+    let updated: InventoryItem | null;
     try {
-      const before = await this.repo.findBySku(sku);
-      if (!before) throw new Error('Item not found');
+      before = await this.repo.findBySku(sku);
+      if (!before) return null;
 
-      const updated = await this.repo.adjustStock(sku, delta);
+      updated = await update();
+      // Already applied: nothing changed, nothing to tell
+      if (!updated) return before;
       await this.producer.publishStockChanged({ sku, newStock: updated.stock, delta });
-      return updated;
     } finally {
       await this.lockService.releaseLock(lockKey, token);
     }
+
+    // Stock received: back-ordered units are served first
+    if (delta > 0 && updated.backordered > 0) {
+      await this.allocateBackorders.execute(sku);
+      return (await this.repo.findBySku(sku)) ?? updated;
+    }
+    return updated;
   }
 }
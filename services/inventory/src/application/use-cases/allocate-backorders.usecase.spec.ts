@@ -0,0 +1,160 @@
+import { InventoryRepository } from '../../infrastructure/repositories/inventory.repository';
+import { InventoryProducer } from '../../infrastructure/events/inventory.producer';
+import { RedisLockService } from '../../infrastructure/redis/redis-lock.service';
+import { BackorderQueue } from '../../infrastructure/redis/backorder-queue.service';
+import { InventoryItem } from '../../domain/entities/inventory-item.entity';
+import { AllocateBackordersUseCase } from './allocate-backorders.usecase';
+
+describe('AllocateBackordersUseCase', () => {
+  const makeItem = (stock: number, reserved: number, backordered: number) =>
+    new InventoryItem(
+      'i1',
+      'SKU-1',
+      stock,
+      reserved,
+      undefined,
+      0,
+      undefined,
+      undefined,
+      backordered,
+      true,
+    );
+
+  let repository: Record<'findBySku' | 'allocateBackorder', jest.Mock>;
+  let producer: Record<
+    'publishStockReserved' | 'publishAllocationChanged',
+    jest.Mock
+  >;
+  let lockService: Record<'withLock', jest.Mock>;
+  let backorders: Record<'list' | 'take' | 'restore', jest.Mock>;
+  let usecase: AllocateBackordersUseCase;
+
+  beforeEach(() => {
+    repository = {
+      findBySku: jest.fn(),
+      allocateBackorder: jest.fn().mockResolvedValue(makeItem(3, 3, 3)),
+    };
+    producer = {
+      publishStockReserved: jest.fn(),
+      publishAllocationChanged: jest.fn(),
+    };
+    lockService = {
+      withLock: jest.fn((_key: string, callback: () => Promise<unknown>) =>
+        callback(),
+      ),
+    };
+    backorders = {
+      list: jest.fn(),
+      take: jest.fn(),
+      restore: jest.fn(),
+    };
+    usecase = new AllocateBackordersUseCase(
+      repository as unknown as InventoryRepository,
+      producer as unknown as InventoryProducer,
+      lockService as unknown as RedisLockService,
+      backorders as unknown as BackorderQueue,
+    );
+  });
+
+  it('should allocate available units to back-orders oldest first, partially when short', async () => {
+    repository.findBySku.mockResolvedValue(makeItem(3, 0, 6));
+    backorders.list.mockResolvedValue([
+      { orderId: 'o1', quantity: 2, preorder: false },
+      { orderId: 'o2', quantity: 4, preorder: false },
+    ]);
+    backorders.take
+      .mockResolvedValueOnce({ taken: 2, remaining: 0 })
+      .mockResolvedValueOnce({ taken: 1, remaining: 3 });
+
+    await expect(usecase.execute('SKU-1')).resolves.toEqual([
+      { orderId: 'o1', quantity: 2 },
+      { orderId: 'o2', quantity: 1 },
+    ]);
+
+    expect(repository.allocateBackorder).toHaveBeenNthCalledWith(1, 'SKU-1', 2);
+    expect(repository.allocateBackorder).toHaveBeenNthCalledWith(2, 'SKU-1', 1);
+    expect(backorders.take).toHaveBeenNthCalledWith(2, 'SKU-1', 'o2', 1);
+    expect(producer.publishAllocationChanged).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        orderId: 'o2',
+        items: [
+          {
+            sku: 'SKU-1',
+            backordered: 3,
+            preorder: false,
+            releaseDate: undefined,
+          },
+        ],
+      }),
+    );
+  });
+
+  it('should stop once no units are left', async () => {
+    repository.findBySku.mockResolvedValue(makeItem(2, 0, 5));
+    backorders.list.mockResolvedValue([
+      { orderId: 'o1', quantity: 2, preorder: false },
+      { orderId: 'o2', quantity: 3, preorder: false },
+    ]);
+    backorders.take.mockResolvedValue({ taken: 2, remaining: 0 });
+
+    await expect(usecase.execute('SKU-1')).resolves.toEqual([
+      { orderId: 'o1', quantity: 2 },
+    ]);
+    expect(repository.allocateBackorder).toHaveBeenCalledTimes(1);
+  });
+
+  it('should do nothing when the SKU has no back-orders', async () => {
+    repository.findBySku.mockResolvedValue(makeItem(5, 0, 0));
+
+    await expect(usecase.execute('SKU-1')).resolves.toEqual([]);
+    expect(backorders.list).not.toHaveBeenCalled();
+  });
+
+  it('should keep what was allocated when allocation fails midway', async () => {
+    repository.findBySku.mockResolvedValue(makeItem(4, 0, 4));
+    backorders.list.mockResolvedValue([
+      { orderId: 'o1', quantity: 2, preorder: false },
+      { orderId: 'o2', quantity: 2, preorder: false },
+    ]);
+    backorders.take.mockResolvedValue({ taken: 2, remaining: 0 });
+    repository.allocateBackorder
+      .mockResolvedValueOnce(makeItem(4, 2, 2))
+      .mockRejectedValueOnce(new Error('db down'));
+
+    await expect(usecase.execute('SKU-1')).resolves.toEqual([
+      { orderId: 'o1', quantity: 2 },
+    ]);
+    expect(backorders.restore).toHaveBeenCalledTimes(1);
+    expect(backorders.restore).toHaveBeenCalledWith(
+      'SKU-1',
+      { orderId: 'o2', quantity: 2, preorder: false },
+      2,
+    );
+  });
+
+  it('should take units off the queue before reserving them', async () => {
+    repository.findBySku.mockResolvedValue(makeItem(2, 0, 2));
+    backorders.list.mockResolvedValue([
+      { orderId: 'o1', quantity: 2, preorder: false },
+    ]);
+    backorders.take.mockImplementation(() => {
+      expect(repository.allocateBackorder).not.toHaveBeenCalled();
+      return Promise.resolve({ taken: 2, remaining: 0 });
+    });
+
+    await usecase.execute('SKU-1');
+
+    expect(repository.allocateBackorder).toHaveBeenCalledWith('SKU-1', 2);
+  });
+
+  it('should skip a back-order that was already served', async () => {
+    repository.findBySku.mockResolvedValue(makeItem(2, 0, 2));
+    backorders.list.mockResolvedValue([
+      { orderId: 'o1', quantity: 2, preorder: false },
+    ]);
+    backorders.take.mockResolvedValue({ taken: 0, remaining: 0 });
+
+    await expect(usecase.execute('SKU-1')).resolves.toEqual([]);
+    expect(repository.allocateBackorder).not.toHaveBeenCalled();
+  });
+});
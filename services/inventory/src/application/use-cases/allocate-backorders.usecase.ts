@@ -0,0 +1,113 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InventoryRepository } from '../../infrastructure/repositories/inventory.repository';
+import { InventoryProducer } from '../../infrastructure/events/inventory.producer';
+import { RedisLockService } from '../../infrastructure/redis/redis-lock.service';
+import { BackorderQueue } from '../../infrastructure/redis/backorder-queue.service';
+import { InventoryItem } from '../../domain/entities/inventory-item.entity';
+
+/**
+ * ✅ Allocate Back-orders Use Case
+ *
+ * Business Logic:
+ * - Runs when units of a SKU become available (stock received, reserved
+ *   stock released)
+ * - Reserves them for back-ordered (and pre-ordered) orders, oldest first;
+ *   an order may be allocated partially
+ * - Emits inventory.reserved and inventory.allocation_changed events so the
+ *   order service can show each line's allocation
+ *
+ * @Injectable
+ */
+@Injectable()
+export class AllocateBackordersUseCase {
+  private readonly logger = new Logger(AllocateBackordersUseCase.name);
+  private readonly LOCK_TTL_MS = 5000; // 5 seconds lock timeout
+
+  constructor(
+    private readonly repository: InventoryRepository,
+    private readonly producer: InventoryProducer,
+    private readonly lockService: RedisLockService,
+    private readonly backorders: BackorderQueue,
+  ) {}
+
+  /**
+   * Allocate the available units of a SKU to its back-orders
+   *
+   * @param sku - Product SKU
+   * @returns Units allocated per order
+   */
+  async execute(
+    sku: string,
+  ): Promise<Array<{ orderId: string; quantity: number }>> {
+    const allocated: Array<{ orderId: string; quantity: number }> = [];
+
+    try {
+      await this.lockService.withLock(
+        `inventory:lock:${sku}`,
+        async () => {
+          const item = await this.repository.findBySku(sku);
+          if (!item || item.backordered <= 0) return;
+
+          let available = item.available;
+          for (const backorder of await this.backorders.list(sku)) {
+            if (available <= 0) break;
+
+            // Units are taken off the queue first and given back when they
+            // cannot be reserved, so no back-order is ever served twice
+            const { taken: quantity, remaining } = await this.backorders.take(
+              sku,
+              backorder.orderId,
+              Math.min(available, backorder.quantity),
+            );
+            if (quantity <= 0) continue;
+
+            let updated: InventoryItem;
+            try {
+              updated = await this.repository.allocateBackorder(sku, quantity);
+            } catch (error) {
+              await this.backorders.restore(sku, backorder, quantity);
+              throw error;
+            }
+            available -= quantity;
+            allocated.push({ orderId: backorder.orderId, quantity });
+
+            const timestamp = new Date().toISOString();
+            await this.producer.publishStockReserved({
+              orderId: backorder.orderId,
+              sku,
+              quantity,
+              reservedStock: updated.reserved,
+              availableStock: updated.stock - updated.reserved,
+              timestamp,
+            });
+            await this.producer.publishAllocationChanged({
+              orderId: backorder.orderId,
+              items: [
+                {
+                  sku,
+                  backordered: remaining,
+                  preorder: backorder.preorder,
+                  releaseDate: backorder.releaseDate,
+                },
+              ],
+              timestamp,
+            });
+
+            this.logger.log(
+              `✅ Allocated ${quantity} back-ordered units of SKU ${sku} to order ${backorder.orderId} (${remaining} still waiting)`,
+            );
+          }
+        },
+        this.LOCK_TTL_MS,
+      );
+    } catch (error) {
+      // The remaining back-orders are allocated the next time stock changes
+      this.logger.error(
+        `❌ Failed to allocate back-orders for SKU ${sku}: ${(error as Error).message}`,
+        (error as Error).stack,
+      );
+    }
+
+    return allocated;
+  }
+}
@@ -0,0 +1,100 @@
+import { InventoryRepository } from '../../infrastructure/repositories/inventory.repository';
+import { InventoryProducer } from '../../infrastructure/events/inventory.producer';
+import { RedisLockService } from '../../infrastructure/redis/redis-lock.service';
+import { BackorderQueue } from '../../infrastructure/redis/backorder-queue.service';
+import { AllocateBackordersUseCase } from './allocate-backorders.usecase';
+import { InventoryItem } from '../../domain/entities/inventory-item.entity';
+import { ReleaseReservedStockUseCase } from './release-reserved-stock.usecase';
+
+describe('ReleaseReservedStockUseCase', () => {
+  const makeItem = (stock: number, reserved: number) =>
+    new InventoryItem('i1', 'SKU-1', stock, reserved);
+
+  let repository: Record<
+    'releaseReservedStock' | 'releaseBackorder',
+    jest.Mock
+  >;
+  let producer: Record<'publishStockReleased', jest.Mock>;
+  let lockService: Record<'acquireLock' | 'releaseLock', jest.Mock>;
+  let backorders: Record<'take', jest.Mock>;
+  let allocateBackorders: Record<'execute', jest.Mock>;
+  let usecase: ReleaseReservedStockUseCase;
+
+  beforeEach(() => {
+    repository = {
+      releaseReservedStock: jest.fn().mockResolvedValue(makeItem(5, 2)),
+      releaseBackorder: jest.fn(),
+    };
+    producer = {
+      publishStockReleased: jest.fn(),
+    };
+    lockService = {
+      acquireLock: jest.fn().mockResolvedValue('token'),
+      releaseLock: jest.fn(),
+    };
+    backorders = {
+      take: jest.fn().mockResolvedValue({ taken: 0, remaining: 0 }),
+    };
+    allocateBackorders = {
+      execute: jest.fn(),
+    };
+    usecase = new ReleaseReservedStockUseCase(
+      repository as unknown as InventoryRepository,
+      producer as unknown as InventoryProducer,
+      lockService as unknown as RedisLockService,
+      backorders as unknown as BackorderQueue,
+      allocateBackorders as unknown as AllocateBackordersUseCase,
+    );
+  });
+
+  it('should release reserved units and hand them to waiting back-orders', async () => {
+    await expect(
+      usecase.executeBatch('o1', [{ sku: 'SKU-1', quantity: 3 }]),
+    ).resolves.toEqual({ success: true });
+
+    expect(repository.releaseReservedStock).toHaveBeenCalledWith('SKU-1', 3);
+    expect(producer.publishStockReleased).toHaveBeenCalledWith(
+      expect.objectContaining({ orderId: 'o1', sku: 'SKU-1', quantity: 3 }),
+    );
+    expect(lockService.releaseLock).toHaveBeenCalledWith(
+      'inventory:lock:SKU-1',
+      'token',
+    );
+    expect(allocateBackorders.execute).toHaveBeenCalledWith('SKU-1');
+  });
+
+  it("should cancel the order's back-ordered units before releasing reserved ones", async () => {
+    backorders.take.mockResolvedValue({ taken: 2, remaining: 0 });
+
+    await usecase.executeBatch('o1', [{ sku: 'SKU-1', quantity: 3 }]);
+
+    expect(backorders.take).toHaveBeenCalledWith('SKU-1', 'o1', 3);
+    expect(repository.releaseBackorder).toHaveBeenCalledWith('SKU-1', 2);
+    expect(repository.releaseReservedStock).toHaveBeenCalledWith('SKU-1', 1);
+  });
+
+  it('should not allocate back-orders when only back-ordered units were cancelled', async () => {
+    backorders.take.mockResolvedValue({ taken: 3, remaining: 0 });
+
+    await usecase.executeBatch('o1', [{ sku: 'SKU-1', quantity: 3 }]);
+
+    expect(repository.releaseReservedStock).not.toHaveBeenCalled();
+    expect(allocateBackorders.execute).not.toHaveBeenCalled();
+  });
+
+  it('should report SKUs that could not be locked and release the others', async () => {
+    lockService.acquireLock
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce('token');
+
+    await expect(
+      usecase.executeBatch('o1', [
+        { sku: 'SKU-1', quantity: 1 },
+        { sku: 'SKU-2', quantity: 1 },
+      ]),
+    ).resolves.toEqual(
+      expect.objectContaining({ success: false, failedItems: ['SKU-1'] }),
+    );
+    expect(repository.releaseReservedStock).toHaveBeenCalledWith('SKU-2', 1);
+  });
+});
@@ -2,6 +2,8 @@ import { Injectable, Logger } from '@nestjs/common';
 import { InventoryRepository } from '../../infrastructure/repositories/inventory.repository';
 import { InventoryProducer } from '../../infrastructure/events/inventory.producer';
 import { RedisLockService } from '../../infrastructure/redis/redis-lock.service';
+import { BackorderQueue } from '../../infrastructure/redis/backorder-queue.service';
+import { AllocateBackordersUseCase } from './allocate-backorders.usecase';
 
 /**
  * ✅ Release Reserved Stock Use Case
@@ -30,6 +32,8 @@ export class ReleaseReservedStockUseCase {
     private readonly repository: InventoryRepository,
     private readonly producer: InventoryProducer,
     private readonly lockService: RedisLockService,
+    private readonly backorders: BackorderQueue,
+    private readonly allocateBackorders: AllocateBackordersUseCase,
   ) {}
 
   /**
@@ -112,6 +116,8 @@ export class ReleaseReservedStockUseCase {
 
   /**
    * Release reserved stock for multiple items (batch operation)
+   * Units of the order still back-ordered are cancelled first; released
+   * units are then allocated to other orders' back-orders
    *
    * @param orderId - Order ID for tracking
    * @param items - Array of items to release
@@ -126,6 +132,7 @@ export class ReleaseReservedStockUseCase {
     const locks: Map<string, string> = new Map(); // sku -> token
     const released: string[] = [];
     const failed: string[] = [];
+    const freed: string[] = []; // SKUs with units available again
 
     try {
       this.logger.log(
@@ -154,26 +161,38 @@ export class ReleaseReservedStockUseCase {
         }
 
         try {
-          const updatedInventory = await this.repository.releaseReservedStock(
-            item.sku,
-            item.quantity,
-          );
+          const { taken } = await this.backorders.take(item.sku, orderId, item.quantity);
+          if (taken > 0) {
+            await this.repository.releaseBackorder(item.sku, taken);
+            this.logger.debug(
+              `Cancelled ${taken} back-ordered units of SKU ${item.sku} for order ${orderId}`
+            );
+          }
+
+          const quantity = item.quantity - taken;
+          if (quantity > 0) {
+            const updatedInventory = await this.repository.releaseReservedStock(
+              item.sku,
+              quantity,
+            );
+            freed.push(item.sku);
+
+            // Emit event for each successful release
+            await this.producer.publishStockReleased({
+              orderId,
+              sku: item.sku,
+              quantity,
+              reservedStock: updatedInventory.reserved,
+              availableStock: updatedInventory.stock - updatedInventory.reserved,
+              reason,
+              timestamp: new Date().toISOString(),
+            });
+          }
 
           released.push(item.sku);
 
-          // Emit event for each successful release
-          await this.producer.publishStockReleased({
-            orderId,
-            sku: item.sku,
-            quantity: item.quantity,
-            reservedStock: updatedInventory.reserved,
-            availableStock: updatedInventory.stock - updatedInventory.reserved,
-            reason,
-            timestamp: new Date().toISOString(),
-          });
-
           this.logger.debug(
-            `Released ${item.quantity} reserved units of SKU ${item.sku} for order ${orderId}`
+            `Released ${quantity} reserved units of SKU ${item.sku} for order ${orderId}`
           );
         } catch (error: any) {
           this.logger.error(
@@ -223,6 +242,11 @@ export class ReleaseReservedStockUseCase {
           this.logger.error(`Failed to release lock for SKU ${sku}:`, lockError);
         }
       }
+
+      // Hand the released units to orders waiting for them
+      for (const sku of freed) {
+        await this.allocateBackorders.execute(sku);
+      }
     }
   }
 
@@ -0,0 +1,114 @@
+import { InventoryRepository } from '../../infrastructure/repositories/inventory.repository';
+import { InventoryProducer } from '../../infrastructure/events/inventory.producer';
+import { RedisLockService } from '../../infrastructure/redis/redis-lock.service';
+import { BackorderQueue } from '../../infrastructure/redis/backorder-queue.service';
+import { InventoryItem } from '../../domain/entities/inventory-item.entity';
+import { ReserveStockUseCase } from './reserve-stock.usecase';
+
+describe('ReserveStockUseCase', () => {
+  const makeItem = (stock: number, reserved: number, backordered: number) =>
+    new InventoryItem(
+      'i1',
+      'SKU-1',
+      stock,
+      reserved,
+      undefined,
+      0,
+      undefined,
+      undefined,
+      backordered,
+      true,
+    );
+
+  let repository: Record<
+    'reserveOrBackorder' | 'releaseReservedStock' | 'releaseBackorder',
+    jest.Mock
+  >;
+  let producer: Record<
+    | 'publishStockReserved'
+    | 'publishStockBackordered'
+    | 'publishStockReservationRolledBack',
+    jest.Mock
+  >;
+  let lockService: Record<'acquireLock' | 'releaseLock', jest.Mock>;
+  let backorders: Record<'add' | 'take', jest.Mock>;
+  let usecase: ReserveStockUseCase;
+
+  beforeEach(() => {
+    repository = {
+      reserveOrBackorder: jest.fn(),
+      releaseReservedStock: jest.fn(),
+      releaseBackorder: jest.fn(),
+    };
+    producer = {
+      publishStockReserved: jest.fn(),
+      publishStockBackordered: jest.fn(),
+      publishStockReservationRolledBack: jest.fn(),
+    };
+    lockService = {
+      acquireLock: jest.fn().mockResolvedValue('token'),
+      releaseLock: jest.fn(),
+    };
+    backorders = {
+      add: jest.fn(),
+      take: jest.fn(),
+    };
+    usecase = new ReserveStockUseCase(
+      repository as unknown as InventoryRepository,
+      producer as unknown as InventoryProducer,
+      lockService as unknown as RedisLockService,
+      backorders as unknown as BackorderQueue,
+    );
+  });
+
+  it('should reserve what is in stock and back-order the rest', async () => {
+    repository.reserveOrBackorder.mockResolvedValue({
+      item: makeItem(2, 2, 3),
+      reserved: 2,
+      backordered: 3,
+      preorder: false,
+    });
+
+    await expect(
+      usecase.executeBatch('o1', [{ sku: 'SKU-1', quantity: 5 }]),
+    ).resolves.toEqual({ success: true });
+
+    expect(producer.publishStockReserved).toHaveBeenCalledWith(
+      expect.objectContaining({ orderId: 'o1', sku: 'SKU-1', quantity: 2 }),
+    );
+    expect(backorders.add).toHaveBeenCalledWith('SKU-1', {
+      orderId: 'o1',
+      quantity: 3,
+      preorder: false,
+      releaseDate: undefined,
+    });
+    expect(producer.publishStockBackordered).toHaveBeenCalledWith(
+      expect.objectContaining({ orderId: 'o1', sku: 'SKU-1', quantity: 3 }),
+    );
+  });
+
+  it('should roll back reserved and back-ordered units when a later SKU fails', async () => {
+    repository.reserveOrBackorder
+      .mockResolvedValueOnce({
+        item: makeItem(1, 1, 2),
+        reserved: 1,
+        backordered: 2,
+        preorder: false,
+      })
+      .mockRejectedValueOnce(new Error('Insufficient stock'));
+
+    await expect(
+      usecase.executeBatch('o1', [
+        { sku: 'SKU-1', quantity: 3 },
+        { sku: 'SKU-2', quantity: 1 },
+      ]),
+    ).resolves.toEqual(
+      expect.objectContaining({ success: false, failedSku: 'SKU-2' }),
+    );
+
+    expect(repository.releaseReservedStock).toHaveBeenCalledWith('SKU-1', 1);
+    expect(backorders.take).toHaveBeenCalledWith('SKU-1', 'o1', 2);
+    expect(repository.releaseBackorder).toHaveBeenCalledWith('SKU-1', 2);
+    expect(lockService.releaseLock).toHaveBeenCalledTimes(2);
+  });
+});
@@ -2,6 +2,7 @@ import { Injectable, Logger } from '@nestjs/common';
 import { InventoryRepository } from '../../infrastructure/repositories/inventory.repository';
 import { InventoryProducer } from '../../infrastructure/events/inventory.producer';
 import { RedisLockService } from '../../infrastructure/redis/redis-lock.service';
+import { BackorderQueue } from '../../infrastructure/redis/backorder-queue.service';
 
 /**
  * ✅ Reserve Stock Use Case
@@ -12,6 +13,8 @@ import { RedisLockService } from '../../infrastructure/redis/redis-lock.service'
  * - Ensures atomic stock reservation across multiple items
  * - Emits inventory events for downstream services
  * - Implements rollback on failure
+ * - Orders: back-orders (or pre-orders) units beyond the available stock
+ *   when the SKU allows it; they are queued until stock is received
  *
  * Flow:
  * 1. Acquire distributed lock for each SKU
@@ -31,6 +34,7 @@ export class ReserveStockUseCase {
     private readonly repository: InventoryRepository,
     private readonly producer: InventoryProducer,
     private readonly lockService: RedisLockService,
+    private readonly backorders: BackorderQueue,
   ) {}
 
   /**
@@ -109,6 +113,7 @@ export class ReserveStockUseCase {
   /**
    * Reserve stock for multiple items (batch operation)
    * Implements saga pattern with rollback on failure
+   * Units beyond the available stock are back-ordered when the SKU allows it
    *
    * @param orderId - Order ID for tracking
    * @param items - Array of items to reserve
@@ -119,7 +124,7 @@ export class ReserveStockUseCase {
     items: Array<{ sku: string; quantity: number }>,
   ): Promise<{ success: boolean; failedSku?: string; message?: string }> {
     const locks: Map<string, string> = new Map(); // sku -> token
-    const reserved: Array<{ sku: string; quantity: number }> = [];
+    const reserved: Array<{ sku: string; quantity: number; backordered: number }> = [];
 
     try {
       this.logger.log(
@@ -141,25 +146,49 @@ export class ReserveStockUseCase {
       // Step 2: Reserve stock for all items
       for (const item of items) {
         try {
-          const updatedInventory = await this.repository.reserveStock(
+          const result = await this.repository.reserveOrBackorder(
             item.sku,
             item.quantity,
           );
+          const updatedInventory = result.item;
 
-          reserved.push(item);
+          reserved.push({ sku: item.sku, quantity: result.reserved, backordered: result.backordered });
 
           // Emit event for each successful reservation
-          await this.producer.publishStockReserved({
-            orderId,
-            sku: item.sku,
-            quantity: item.quantity,
-            reservedStock: updatedInventory.reserved,
-            availableStock: updatedInventory.stock - updatedInventory.reserved,
-            timestamp: new Date().toISOString(),
-          });
+          if (result.reserved > 0) {
+            await this.producer.publishStockReserved({
+              orderId,
+              sku: item.sku,
+              quantity: result.reserved,
+              reservedStock: updatedInventory.reserved,
+              availableStock: updatedInventory.stock - updatedInventory.reserved,
+              timestamp: new Date().toISOString(),
+            });
+          }
+
+          if (result.backordered > 0) {
+            const releaseDate = result.preorder
+              ? updatedInventory.releaseDate?.toISOString()
+              : undefined;
+            await this.backorders.add(item.sku, {
+              orderId,
+              quantity: result.backordered,
+              preorder: result.preorder,
+              releaseDate,
+            });
+            await this.producer.publishStockBackordered({
+              orderId,
+              sku: item.sku,
+              quantity: result.backordered,
+              backorderedStock: updatedInventory.backordered,
+              preorder: result.preorder,
+              releaseDate,
+              timestamp: new Date().toISOString(),
+            });
+          }
 
           this.logger.debug(
-            `Reserved ${item.quantity} units of SKU ${item.sku} for order ${orderId}`
+            `Reserved ${result.reserved} and back-ordered ${result.backordered} units of SKU ${item.sku} for order ${orderId}`
           );
         } catch (error: any) {
           // Reservation failed for this item
@@ -188,7 +217,13 @@ export class ReserveStockUseCase {
 
         for (const item of reserved) {
           try {
-            await this.repository.releaseReservedStock(item.sku, item.quantity);
+            if (item.quantity > 0) {
+              await this.repository.releaseReservedStock(item.sku, item.quantity);
+            }
+            if (item.backordered > 0) {
+              await this.backorders.take(item.sku, orderId, item.backordered);
+              await this.repository.releaseBackorder(item.sku, item.backordered);
+            }
 
             // Emit rollback event
             await this.producer.publishStockReservationRolledBack({
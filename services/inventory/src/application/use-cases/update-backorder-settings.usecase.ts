@@ -0,0 +1,21 @@
+import { Injectable } from '@nestjs/common';
+import { InventoryRepository } from '../../infrastructure/repositories/inventory.repository';
+import { UpdateBackorderSettingsDto } from '../dto/update-backorder-settings.dto';
+
+@Injectable()
+export class UpdateBackorderSettingsUseCase {
+  constructor(private readonly repo: InventoryRepository) {}
+
+  async execute(sku: string, dto: UpdateBackorderSettingsDto) {
+    // Units already back-ordered stay so when the settings are tightened
+    return this.repo.updateBackorderSettings(sku, {
+      backorderable: dto.backorderable,
+      preorderable: dto.preorderable,
+      releaseDate:
+        dto.releaseDate === undefined || dto.releaseDate === null
+          ? dto.releaseDate
+          : new Date(dto.releaseDate),
+      maxBackorder: dto.maxBackorder,
+    });
+  }
+}
@@ -7,6 +7,34 @@ export class InventoryItem {
     public location?: string,
     public sold: number = 0,
     public updatedAt?: Date,
-    public createdAt?: Date
+    public createdAt?: Date,
+    /** Units ordered beyond stock, waiting for stock to be received */
+    public backordered: number = 0,
+    /** Can be sold when out of stock; the order waits for the next delivery */
+    public backorderable: boolean = false,
+    /** Can be sold before its release date, without stock */
+    public preorderable: boolean = false,
+    public releaseDate?: Date,
+    /** Cap on `backordered` (no cap when unset) */
+    public maxBackorder?: number,
   ) {}
-}
\ No newline at end of file
+
+  /** Units that can be reserved right now */
+  get available(): number {
+    return Math.max(0, this.stock - this.reserved);
+  }
+
+  /** Whether units ordered now that are not in stock would be pre-ordered */
+  isPreorder(now: Date = new Date()): boolean {
+    return this.preorderable && !!this.releaseDate && this.releaseDate > now;
+  }
+
+  /** Whether `quantity` more units may be back-ordered or pre-ordered */
+  canBackorder(quantity: number, now: Date = new Date()): boolean {
+    if (!this.backorderable && !this.isPreorder(now)) return false;
+    return (
+      this.maxBackorder == null ||
+      this.backordered + quantity <= this.maxBackorder
+    );
+  }
+}
@@ -19,6 +19,25 @@ export class InventoryItemModel {
 
   @Prop()
   location?: string;
+
+  @Prop({ required: true, default: 0 })
+  backordered!: number;
+
+  @Prop({ default: false })
+  backorderable!: boolean;
+
+  @Prop({ default: false })
+  preorderable!: boolean;
+
+  @Prop()
+  releaseDate?: Date;
+
+  @Prop()
+  maxBackorder?: number;
+
+  /** Latest returns whose units were restocked, so none is counted twice */
+  @Prop({ type: [String], default: [] })
+  restockedReturns!: string[];
 }
 
 export const InventoryItemSchema = SchemaFactory.createForClass(InventoryItemModel);
@@ -94,7 +94,9 @@ export class KafkaConsumer implements OnModuleInit, OnModuleDestroy {
           await handler(payload);
         } catch (err) {
           this.logger.error(`❌ Handler error for topic=${topic}`, err);
-          // do not throw to avoid stopping the consumer loop; consider DLQ/outbox pattern here
+          // Rethrow so the message is redelivered; handlers that cannot
+          // succeed on retry log and return instead of throwing
+          throw err;
         }
       },
     });
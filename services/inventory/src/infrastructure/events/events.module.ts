@@ -1,6 +1,7 @@
 import { Module } from '@nestjs/common';
 import { InventoryEventHandler } from './inventory-event.handler';
 import { CreateItemUseCase } from '../../application/use-cases/create-item.usecase';
+import { AllocateBackordersUseCase } from '../../application/use-cases/allocate-backorders.usecase';
 import { InventoryRepository } from '../repositories/inventory.repository';
 import { InventoryMapper } from '../mappers/inventory.mapper';
 import { InventoryProducer } from './inventory.producer';
@@ -25,6 +26,7 @@ import { InventoryDatabaseModule } from '../database/database.module';
 
     // ✅ use-case (needs InventoryRepository)
     CreateItemUseCase,
+    AllocateBackordersUseCase,
 
     // ✅ dependencies required by use-case
     InventoryRepository,
@@ -2,6 +2,7 @@ import { Injectable, Logger } from '@nestjs/common';
 import { Kafka, Consumer } from 'kafkajs';
 
 import { CreateItemUseCase } from '../../application/use-cases/create-item.usecase';
+import { AllocateBackordersUseCase } from '../../application/use-cases/allocate-backorders.usecase';
 import { InventoryRepository } from '../repositories/inventory.repository';
 
 @Injectable()
@@ -12,6 +13,7 @@ export class InventoryEventHandler {
   constructor(
     private readonly createInventory: CreateItemUseCase,
     private readonly repo: InventoryRepository,
+    private readonly allocateBackorders: AllocateBackordersUseCase,
   ) {
     const kafka = new Kafka({
       clientId: 'inventory-service',
@@ -122,6 +124,11 @@ export class InventoryEventHandler {
       if (Object.keys(updateFields).length > 0) {
         await this.repo.updateFields(event.sku, updateFields);
         this.logger.log(`✅ Inventory updated for SKU=${event.sku}`);
+
+        // Stock received: back-ordered units are served first
+        if (updateFields.stock > existing.stock && existing.backordered > 0) {
+          await this.allocateBackorders.execute(event.sku);
+        }
       } else {
         this.logger.log(
           `ℹ️ Product updated event received but no inventory fields changed`,
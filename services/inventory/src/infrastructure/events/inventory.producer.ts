@@ -1,6 +1,17 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { EventBusService } from '../event-bus/event-bus.service';
 
+/**
+ * Allocation of an order's SKU: `backordered` of its units wait for stock,
+ * the others are reserved
+ */
+export interface LineAllocation {
+  sku: string;
+  backordered: number;
+  preorder?: boolean;
+  releaseDate?: string;
+}
+
 /**
  * ✅ Inventory Event Producer
  *
@@ -9,6 +20,10 @@ import { EventBusService } from '../event-bus/event-bus.service';
  *
  * Event Types:
  * - inventory.reserved: Stock reserved for an order
+ * - inventory.backordered: Units of an order waiting for stock (back-/pre-order)
+ * - inventory.allocation_changed: Back-ordered units of an order's lines changed
+ * - inventory.reservation_succeeded: Every item of an order reserved (order saga)
+ * - inventory.reservation_failed: An order could not be reserved (order saga)
  * - inventory.released: Reserved stock released (order cancelled)
  * - inventory.deducted: Stock deducted (order delivered)
  * - inventory.low_stock: Low stock alert
@@ -52,6 +67,146 @@ export class InventoryProducer {
     }
   }
 
+  /**
+   * Publish order reservation succeeded event
+   * Tells the order service that every item of the order is reserved
+   */
+  async publishReservationSucceeded(payload: {
+    orderId: string;
+    items: Array<LineAllocation & { quantity: number }>;
+    timestamp: string;
+  }): Promise<void> {
+    try {
+      await this.eventBus.emit('inventory.reservation_succeeded', {
+        event: 'inventory.reservation_succeeded',
+        ...payload,
+      });
+      this.logger.log(
+        `📤 Reservation succeeded event published for order ${payload.orderId}`
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to publish reservation succeeded event for order ${payload.orderId}:`,
+        error
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Publish stock back-ordered event
+   * Triggered when units of an order are back-ordered (or pre-ordered)
+   * because the SKU is out of stock
+   */
+  async publishStockBackordered(payload: {
+    orderId: string;
+    sku: string;
+    quantity: number;
+    backorderedStock: number;
+    preorder: boolean;
+    releaseDate?: string;
+    timestamp: string;
+  }): Promise<void> {
+    try {
+      await this.eventBus.emit('inventory.backordered', {
+        event: 'inventory.backordered',
+        ...payload,
+      });
+      this.logger.log(
+        `📤 Stock ${payload.preorder ? 'pre' : 'back'}-ordered event published for SKU ${payload.sku}, quantity: ${payload.quantity}`
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to publish stock back-ordered event for SKU ${payload.sku}:`,
+        error
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Publish allocation changed event
+   * Tells the order service how many units of the order's lines are still
+   * waiting for stock (after an amendment, or when back-orders were allocated)
+   */
+  async publishAllocationChanged(payload: {
+    orderId: string;
+    items: LineAllocation[];
+    timestamp: string;
+  }): Promise<void> {
+    try {
+      await this.eventBus.emit('inventory.allocation_changed', {
+        event: 'inventory.allocation_changed',
+        ...payload,
+      });
+      this.logger.log(
+        `📤 Allocation changed event published for order ${payload.orderId}`
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to publish allocation changed event for order ${payload.orderId}:`,
+        error
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Publish order reservation failed event
+   * Tells the order service to cancel the order; nothing stays reserved
+   */
+  async publishReservationFailed(payload: {
+    orderId: string;
+    failedSku?: string;
+    reason: string;
+    timestamp: string;
+  }): Promise<void> {
+    try {
+      await this.eventBus.emit('inventory.reservation_failed', {
+        event: 'inventory.reservation_failed',
+        ...payload,
+      });
+      this.logger.warn(
+        `⚠️ Reservation failed event published for order ${payload.orderId}: ${payload.reason}`
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to publish reservation failed event for order ${payload.orderId}:`,
+        error
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Publish amendment reservation failed event
+   * The units an order amendment added could not be reserved (nothing of
+   * the amendment was applied); the order service reverts the amendment
+   */
+  async publishAmendmentFailed(payload: {
+    orderId: string;
+    amendment: number;
+    failedSku?: string;
+    reason: string;
+    timestamp: string;
+  }): Promise<void> {
+    try {
+      await this.eventBus.emit('inventory.amendment_failed', {
+        event: 'inventory.amendment_failed',
+        ...payload,
+      });
+      this.logger.warn(
+        `⚠️ Amendment failed event published for order ${payload.orderId} (#${payload.amendment}): ${payload.reason}`
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to publish amendment failed event for order ${payload.orderId}:`,
+        error
+      );
+      throw error;
+    }
+  }
+
   /**
    * Publish stock released event
    * Triggered when reserved stock is released (e.g., order cancelled)
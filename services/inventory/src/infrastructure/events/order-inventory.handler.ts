@@ -3,6 +3,31 @@ import { KafkaConsumer } from '../event-bus/kafka/kafka.consumer';
 import { ReserveStockUseCase } from '../../application/use-cases/reserve-stock.usecase';
 import { ReleaseReservedStockUseCase } from '../../application/use-cases/release-reserved-stock.usecase';
 import { DeductStockUseCase } from '../../application/use-cases/deduct-stock.usecase';
+import { AdjustStockUseCase } from '../../application/use-cases/adjust-stock.usecase';
+import { InventoryProducer, LineAllocation } from './inventory.producer';
+import { RedisService } from '../redis/redis.service';
+import { BackorderQueue } from '../redis/backorder-queue.service';
+
+/**
+ * Outcome of an order's reservation, kept in Redis under
+ * `inventory:reservation:<orderId>` so redelivered events are not applied twice
+ */
+interface ReservationRecord {
+  status: 'reserved' | 'failed' | 'released';
+  failedSku?: string;
+  reason?: string;
+  /** Units held for the order (absent on records older than amendments) */
+  items?: ReservedItem[];
+  /** Last order amendment applied (or refused) */
+  amendment?: number;
+}
+
+interface ReservedItem {
+  sku: string;
+  quantity: number;
+}
+
+const RESERVATION_TTL_SECONDS = 30 * 24 * 60 * 60;
 
 /**
  * ✅ Order-Inventory Event Handler
@@ -12,10 +37,25 @@ import { DeductStockUseCase } from '../../application/use-cases/deduct-stock.use
  * Order Created (pending) → Reserve Stock
  * - Reserves inventory for all items in the order
  * - Ensures stock availability before order proceeds
- * - Emits inventory.reserved events
+ * - Back-orders (or pre-orders) missing units of SKUs that allow it
+ * - Emits inventory.reserved / inventory.backordered events
+ * - Emits inventory.reservation_succeeded (with each line's back-ordered
+ *   units) / inventory.reservation_failed so the order service can confirm
+ *   or cancel the order
+ *
+ * Order Amended → Reserve / Release the Difference
+ * - Compares the amended lines with the units held for the order
+ * - Reserves all added units or none (inventory.amendment_failed on
+ *   failure, so the order service reverts the amendment)
+ * - Then releases the removed units
+ * - Reserves the whole order if order.created was not processed yet
+ * - Amendments already applied (redelivered or stale) are skipped
+ * - Emits inventory.allocation_changed for the changed lines
  *
  * Order Cancelled → Release Reserved Stock
  * - Returns reserved stock back to available pool
+ * - Cancels units still back-ordered
+ * - Skipped when the reservation failed (already rolled back) or was released
  * - Makes stock available for other orders
  * - Emits inventory.released events
  *
@@ -26,6 +66,12 @@ import { DeductStockUseCase } from '../../application/use-cases/deduct-stock.use
  * - Emits inventory.deducted events
  * - Triggers low stock alerts if needed
  *
+ * Return Restocked → Add Stock Back
+ * - Adds the returned units marked restockable to available stock
+ * - SKUs already restocked for the return are skipped on redelivery
+ * - Failed restocks are retried (the event is redelivered)
+ * - Emits inventory.stock_changed events
+ *
  * Order Shipped → (No Action)
  * - Stock remains reserved until delivery
  *
@@ -43,6 +89,10 @@ export class OrderInventoryHandler implements OnModuleInit {
     private readonly reserveStockUseCase: ReserveStockUseCase,
     private readonly releaseReservedStockUseCase: ReleaseReservedStockUseCase,
     private readonly deductStockUseCase: DeductStockUseCase,
+    private readonly adjustStockUseCase: AdjustStockUseCase,
+    private readonly producer: InventoryProducer,
+    private readonly redis: RedisService,
+    private readonly backorders: BackorderQueue,
   ) { }
 
   /**
@@ -54,11 +104,13 @@ export class OrderInventoryHandler implements OnModuleInit {
     // Subscribe to order lifecycle events (register handlers)
     await this.kafkaConsumer.subscribe('order.created', this.handleOrderCreated.bind(this));
     await this.kafkaConsumer.subscribe('order.updated', this.handleOrderUpdated.bind(this));
+    await this.kafkaConsumer.subscribe('order.amended', this.handleOrderAmended.bind(this));
     await this.kafkaConsumer.subscribe('order.processing', this.handleOrderUpdated.bind(this));
     await this.kafkaConsumer.subscribe('order.cancelled', this.handleOrderCancelled.bind(this));
     await this.kafkaConsumer.subscribe('order.delivered', this.handleOrderDelivered.bind(this));
     await this.kafkaConsumer.subscribe('order.shipped', this.handleOrderShipped.bind(this));
     await this.kafkaConsumer.subscribe('order.paid', this.handleOrderPaid.bind(this));
+    await this.kafkaConsumer.subscribe('return.restocked', this.handleReturnRestocked.bind(this));
 
     // Start consuming after all handlers are registered
     await this.kafkaConsumer.startConsuming();
@@ -99,42 +151,196 @@ export class OrderInventoryHandler implements OnModuleInit {
         `📥 Processing order.created event for order ${orderId} with ${items.length} items`
       );
 
-      // Extract SKUs and quantities
-      const itemsToReserve = items.map((item: any) => ({
-        sku: item.sku,
-        quantity: item.quantity || 1,
-      }));
+      // Redelivered event: report the recorded outcome again instead of reserving twice
+      const previous = await this.getReservation(orderId);
+      if (previous) {
+        this.logger.warn(
+          `⚠️ Order ${orderId} already processed (${previous.status}), re-publishing outcome`
+        );
+        await this.publishReservationOutcome(orderId, items, previous);
+        return;
+      }
 
-      // Reserve stock for all items in the order
-      const result = await this.reserveStockUseCase.executeBatch(
-        orderId,
-        itemsToReserve
+      await this.reserveOrder(orderId, items);
+    } catch (error: any) {
+      this.logger.error(
+        `❌ Error handling order.created event:`,
+        error.stack
       );
+      // Don't throw - we don't want to crash the consumer
+      // The order will remain in pending state and can be retried
+    }
+  }
 
-      if (result.success) {
+  /**
+   * Reserve all lines of an order and report the outcome to the order service
+   *
+   * @param amendment - Set when the order was amended before order.created was processed
+   */
+  private async reserveOrder(orderId: string, items: any[], amendment?: number): Promise<void> {
+    // Extract SKUs and quantities
+    const itemsToReserve: ReservedItem[] = items.map((item: any) => ({
+      sku: item.sku,
+      quantity: item.quantity || 1,
+    }));
+
+    // Reserve stock for all items in the order
+    const result = await this.reserveStockUseCase.executeBatch(
+      orderId,
+      itemsToReserve
+    );
+
+    const outcome: ReservationRecord = result.success
+      ? { status: 'reserved', items: itemsToReserve, amendment }
+      : { status: 'failed', failedSku: result.failedSku, reason: result.message, amendment };
+
+    if (result.success) {
+      this.logger.log(
+        `✅ Successfully reserved stock for order ${orderId}`
+      );
+    } else {
+      this.logger.error(
+        `❌ Failed to reserve stock for order ${orderId}: ${result.message}`,
+        { failedSku: result.failedSku }
+      );
+    }
+
+    await this.setReservation(orderId, outcome);
+    await this.publishReservationOutcome(orderId, items, outcome);
+  }
+
+  /**
+   * Handle order.amended event
+   * Reserves units added to the order (all or none) and releases removed ones
+   *
+   * Event payload example:
+   * {
+   *   orderId: '123',
+   *   amendment: 2,
+   *   items: [{ sku: 'PROD-001', quantity: 3 }],       // all lines after the change
+   *   delta: [{ sku: 'PROD-001', quantity: 1 }, { sku: 'PROD-002', quantity: -1 }]
+   * }
+   */
+  private async handleOrderAmended(event: any): Promise<void> {
+    try {
+      const orderId = event.orderId;
+      const amendment = event.amendment;
+      const items = event.items || [];
+
+      if (!orderId || !amendment || !items.length) {
+        this.logger.warn(
+          `⚠️ Invalid order.amended event: missing orderId, amendment or items`,
+          JSON.stringify(event)
+        );
+        return;
+      }
+
+      this.logger.log(
+        `✏️ Processing amendment #${amendment} of order ${orderId}`
+      );
+
+      const reservation = await this.getReservation(orderId);
+      if (!reservation) {
+        // order.created not processed yet: reserve the amended lines now, it will only re-publish the outcome
+        this.logger.log(`ℹ️ Order ${orderId} not reserved yet, reserving its amended lines`);
+        await this.reserveOrder(orderId, items, amendment);
+        return;
+      }
+      if (reservation.status !== 'reserved') {
         this.logger.log(
-          `✅ Successfully reserved stock for order ${orderId}`
+          `ℹ️ Order ${orderId} amended, reservation ${reservation.status} - nothing to adjust`
         );
-      } else {
-        this.logger.error(
-          `❌ Failed to reserve stock for order ${orderId}: ${result.message}`,
-          { failedSku: result.failedSku }
+        return;
+      }
+      if ((reservation.amendment ?? 0) >= amendment) {
+        this.logger.warn(
+          `⚠️ Amendment #${amendment} of order ${orderId} already processed, skipping`
+        );
+        return;
+      }
+
+      // Difference with what is actually held, so a refused amendment is not counted
+      const delta: ReservedItem[] = reservation.items
+        ? this.difference(items, reservation.items)
+        : (event.delta || []).filter((d: ReservedItem) => d.quantity !== 0);
+      const added = delta.filter((d) => d.quantity > 0);
+      const removed = delta
+        .filter((d) => d.quantity < 0)
+        .map((d) => ({ sku: d.sku, quantity: -d.quantity }));
+
+      if (added.length) {
+        const result = await this.reserveStockUseCase.executeBatch(orderId, added);
+        if (!result.success) {
+          this.logger.error(
+            `❌ Failed to reserve added units for amendment #${amendment} of order ${orderId}: ${result.message}`
+          );
+          // Keep holding the previous lines; the order service reverts the amendment
+          await this.setReservation(orderId, { ...reservation, amendment });
+          await this.producer.publishAmendmentFailed({
+            orderId,
+            amendment,
+            failedSku: result.failedSku,
+            reason: result.message || 'Stock reservation failed',
+            timestamp: new Date().toISOString(),
+          });
+          return;
+        }
+      }
+
+      if (removed.length) {
+        const result = await this.releaseReservedStockUseCase.executeBatch(
+          orderId,
+          removed,
+          'order_amended'
         );
+        if (!result.success) {
+          // Those units stay reserved - manual intervention may be needed
+          this.logger.error(
+            `❌ Failed to release removed units for amendment #${amendment} of order ${orderId}: ${result.message}`,
+            { failedItems: result.failedItems }
+          );
+        }
+      }
 
-        // TODO: Emit order.inventory_reservation_failed event
-        // This should trigger order service to mark order as failed or pending_stock
-        // For now, we log the error and the order service should handle timeout
+      await this.setReservation(orderId, {
+        status: 'reserved',
+        items: this.difference(items, []), // merged per SKU
+        amendment,
+      });
+      if (delta.length) {
+        await this.producer.publishAllocationChanged({
+          orderId,
+          items: await this.allocationsOf(orderId, delta.map((d) => d.sku)),
+          timestamp: new Date().toISOString(),
+        });
       }
+      this.logger.log(
+        `✅ Amendment #${amendment} of order ${orderId} applied (${added.length} added, ${removed.length} removed)`
+      );
     } catch (error: any) {
       this.logger.error(
-        `❌ Error handling order.created event:`,
+        `❌ Error handling order.amended event:`,
         error.stack
       );
-      // Don't throw - we don't want to crash the consumer
-      // The order will remain in pending state and can be retried
     }
   }
 
+  /**
+   * Units per SKU in `items` minus those in `held` (non-zero entries only)
+   */
+  private difference(items: ReservedItem[], held: ReservedItem[]): ReservedItem[] {
+    const quantities = new Map<string, number>();
+    for (const item of items) {
+      quantities.set(item.sku, (quantities.get(item.sku) ?? 0) + (item.quantity || 1));
+    }
+    for (const item of held) {
+      quantities.set(item.sku, (quantities.get(item.sku) ?? 0) - item.quantity);
+    }
+    return [...quantities.entries()]
+      .filter(([, quantity]) => quantity !== 0)
+      .map(([sku, quantity]) => ({ sku, quantity }));
+  }
+
   /**
    * Handle order.updated event
    * Processes order status changes
@@ -174,10 +380,11 @@ export class OrderInventoryHandler implements OnModuleInit {
           await this.handleOrderCancelled(event);
           break;
 
+        case 'partially_shipped':
         case 'shipped':
-          // Stock remains reserved - no action needed
+          // Stock remains reserved until the whole order is delivered
           this.logger.debug(
-            `Order ${orderId} shipped - stock remains reserved`
+            `Order ${orderId} ${status} - stock remains reserved`
           );
           break;
 
@@ -296,21 +503,31 @@ export class OrderInventoryHandler implements OnModuleInit {
         `❌ Processing order cancellation for order ${orderId}`
       );
 
-      // If items are not provided, we can't release stock
-      // This should be handled by including items in the cancelled event
-      if (!items.length) {
-        this.logger.warn(
-          `⚠️ Order ${orderId} cancelled but no items provided - cannot release stock`
+      // Nothing is held for orders whose reservation failed (rolled back) or was already released
+      const reservation = await this.getReservation(orderId);
+      if (reservation && reservation.status !== 'reserved') {
+        this.logger.log(
+          `ℹ️ Order ${orderId} cancelled, reservation ${reservation.status} - nothing to release`
         );
         return;
       }
 
-      // Extract SKUs and quantities
-      const itemsToRelease = items.map((item: any) => ({
+      // Release what is held for the order (a refused amendment may differ
+      // from the cancelled lines); older records only have the event's items
+      const itemsToRelease: ReservedItem[] = reservation?.items ?? items.map((item: any) => ({
         sku: item.sku,
         quantity: item.quantity || 1,
       }));
 
+      // If items are not provided, we can't release stock
+      // This should be handled by including items in the cancelled event
+      if (!itemsToRelease.length) {
+        this.logger.warn(
+          `⚠️ Order ${orderId} cancelled but no items provided - cannot release stock`
+        );
+        return;
+      }
+
       // Release reserved stock for all items
       const result = await this.releaseReservedStockUseCase.executeBatch(
         orderId,
@@ -319,6 +536,7 @@ export class OrderInventoryHandler implements OnModuleInit {
       );
 
       if (result.success) {
+        await this.setReservation(orderId, { status: 'released' });
         this.logger.log(
           `✅ Successfully released reserved stock for cancelled order ${orderId}`
         );
@@ -395,6 +613,105 @@ export class OrderInventoryHandler implements OnModuleInit {
     }
   }
 
+  /**
+   * Handle return.restocked event
+   * Adds returned units that can be sold again back to stock
+   *
+   * Event payload example:
+   * {
+   *   returnId: 'r-789',
+   *   orderId: '123',
+   *   items: [{ sku: 'PROD-001', quantity: 1 }]
+   * }
+   */
+  private async handleReturnRestocked(event: any): Promise<void> {
+    const returnId = event.returnId;
+    const items = event.items || [];
+
+    if (!returnId || !items.length) {
+      this.logger.warn(
+        `⚠️ Invalid return.restocked event: missing returnId or items`,
+        JSON.stringify(event)
+      );
+      return;
+    }
+
+    this.logger.log(
+      `↩️ Restocking ${items.length} item(s) from return ${returnId} (order ${event.orderId})`
+    );
+
+    // Failures are thrown so the event is redelivered; SKUs already
+    // restocked for the return are skipped then
+    for (const item of items) {
+      const restocked = await this.adjustStockUseCase.restock(item.sku, item.quantity, returnId);
+      if (!restocked) {
+        this.logger.error(`❌ Cannot restock unknown SKU ${item.sku} for return ${returnId}`);
+      }
+    }
+  }
+
+  /**
+   * Tell the order service whether the order's stock is reserved
+   */
+  private async publishReservationOutcome(
+    orderId: string,
+    items: Array<{ sku: string; quantity?: number }>,
+    outcome: ReservationRecord,
+  ): Promise<void> {
+    const timestamp = new Date().toISOString();
+
+    if (outcome.status === 'failed') {
+      await this.producer.publishReservationFailed({
+        orderId,
+        failedSku: outcome.failedSku,
+        reason: outcome.reason || 'Stock reservation failed',
+        timestamp,
+      });
+    } else if (outcome.status === 'reserved') {
+      const allocations = await this.allocationsOf(orderId, items.map((item) => item.sku));
+      await this.producer.publishReservationSucceeded({
+        orderId,
+        items: items.map((item) => ({
+          ...allocations.find((allocation) => allocation.sku === item.sku)!,
+          quantity: item.quantity || 1,
+        })),
+        timestamp,
+      });
+    }
+  }
+
+  /**
+   * Units of the order's SKUs still waiting for stock
+   */
+  private async allocationsOf(orderId: string, skus: string[]): Promise<LineAllocation[]> {
+    const allocations: LineAllocation[] = [];
+    for (const sku of new Set(skus)) {
+      const backorder = await this.backorders.get(sku, orderId);
+      allocations.push(
+        backorder
+          ? {
+            sku,
+            backordered: backorder.quantity,
+            preorder: backorder.preorder,
+            releaseDate: backorder.releaseDate,
+          }
+          : { sku, backordered: 0 },
+      );
+    }
+    return allocations;
+  }
+
+  private async getReservation(orderId: string): Promise<ReservationRecord | null> {
+    const raw = await this.redis.getClient().get(`inventory:reservation:${orderId}`);
+    return raw ? (JSON.parse(raw) as ReservationRecord) : null;
+  }
+
+  private async setReservation(orderId: string, record: ReservationRecord): Promise<void> {
+    await this.redis
+      .getClient()
+      .set(`inventory:reservation:${orderId}`, JSON.stringify(record), 'EX', RESERVATION_TTL_SECONDS);
+  }
+
   /**
    * Health check method for monitoring
    */
@@ -407,10 +724,12 @@ export class OrderInventoryHandler implements OnModuleInit {
       subscribedTopics: [
         'order.created',
         'order.updated',
+        'order.amended',
         'order.cancelled',
         'order.delivered',
         'order.shipped',
         'order.paid',
+        'return.restocked',
       ],
     };
   }
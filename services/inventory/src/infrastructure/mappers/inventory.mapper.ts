@@ -8,8 +8,14 @@ export class InventoryMapper {
       doc.stock,
       doc.reserved ?? 0,
       doc.location,
+      doc.sold ?? 0,
       doc.updatedAt,
       doc.createdAt,
+      doc.backordered ?? 0,
+      doc.backorderable ?? false,
+      doc.preorderable ?? false,
+      doc.releaseDate,
+      doc.maxBackorder,
     );
   }
 
@@ -20,6 +26,11 @@ export class InventoryMapper {
       stock: item.stock,
       reserved: item.reserved,
       location: item.location,
+      backordered: item.backordered,
+      backorderable: item.backorderable,
+      preorderable: item.preorderable,
+      releaseDate: item.releaseDate,
+      maxBackorder: item.maxBackorder,
       createdAt: item.createdAt,
       updatedAt: item.updatedAt,
     };
@@ -0,0 +1,143 @@
+import { Injectable } from '@nestjs/common';
+import { RedisService } from './redis.service';
+
+/**
+ * Units of a SKU an order is waiting for
+ */
+export interface Backorder {
+  orderId: string;
+  quantity: number;
+  /** Ordered before the SKU's release date */
+  preorder: boolean;
+  releaseDate?: string;
+  /** Place in the queue (back-order time), as listed */
+  queuedAt?: number;
+}
+
+/**
+ * ✅ Back-order Queue
+ *
+ * Orders waiting for stock of a SKU, first come first served:
+ * - `inventory:backorders:<sku>` sorted set of order IDs by back-order time
+ * - `inventory:backorders:<sku>:lines` hash of order ID → waiting units
+ *
+ * Callers hold the SKU lock (`inventory:lock:<sku>`), like for every other
+ * stock change, so entries are read and written without races.
+ */
+@Injectable()
+export class BackorderQueue {
+  constructor(private readonly redis: RedisService) {}
+
+  /**
+   * Add units to the order's back-order (keeping its place in the queue)
+   */
+  async add(sku: string, backorder: Backorder): Promise<void> {
+    const current = await this.get(sku, backorder.orderId);
+    const entry: Omit<Backorder, 'orderId'> = {
+      quantity: (current?.quantity ?? 0) + backorder.quantity,
+      preorder: current?.preorder ?? backorder.preorder,
+      releaseDate: current?.releaseDate ?? backorder.releaseDate,
+    };
+
+    await this.redis
+      .getClient()
+      .multi()
+      .zadd(this.queueKey(sku), 'NX', Date.now(), backorder.orderId)
+      .hset(this.linesKey(sku), backorder.orderId, JSON.stringify(entry))
+      .exec();
+  }
+
+  async get(sku: string, orderId: string): Promise<Backorder | null> {
+    const raw = await this.redis.getClient().hget(this.linesKey(sku), orderId);
+    return raw
+      ? { orderId, ...(JSON.parse(raw) as Omit<Backorder, 'orderId'>) }
+      : null;
+  }
+
+  /**
+   * Back-orders of the SKU, oldest first
+   */
+  async list(sku: string): Promise<Backorder[]> {
+    const queue = await this.redis
+      .getClient()
+      .zrange(this.queueKey(sku), 0, -1, 'WITHSCORES');
+    const backorders: Backorder[] = [];
+    for (let i = 0; i < queue.length; i += 2) {
+      const backorder = await this.get(sku, queue[i]);
+      if (!backorder) continue;
+      backorders.push({ ...backorder, queuedAt: Number(queue[i + 1]) });
+    }
+    return backorders;
+  }
+
+  /**
+   * Remove up to `quantity` units from the order's back-order
+   *
+   * @returns Units taken and units still waiting
+   */
+  async take(
+    sku: string,
+    orderId: string,
+    quantity: number,
+  ): Promise<{ taken: number; remaining: number }> {
+    const current = await this.get(sku, orderId);
+    if (!current) return { taken: 0, remaining: 0 };
+
+    const taken = Math.min(quantity, current.quantity);
+    const remaining = current.quantity - taken;
+    const client = this.redis.getClient();
+
+    if (remaining > 0) {
+      const entry: Omit<Backorder, 'orderId'> = {
+        quantity: remaining,
+        preorder: current.preorder,
+        releaseDate: current.releaseDate,
+      };
+      await client.hset(this.linesKey(sku), orderId, JSON.stringify(entry));
+    } else {
+      await client
+        .multi()
+        .zrem(this.queueKey(sku), orderId)
+        .hdel(this.linesKey(sku), orderId)
+        .exec();
+    }
+
+    return { taken, remaining };
+  }
+
+  /**
+   * Give back units removed with `take` (e.g. they could not be reserved),
+   * at the back-order's place in the queue
+   */
+  async restore(
+    sku: string,
+    backorder: Backorder,
+    quantity: number,
+  ): Promise<void> {
+    const current = await this.get(sku, backorder.orderId);
+    const entry: Omit<Backorder, 'orderId'> = {
+      quantity: (current?.quantity ?? 0) + quantity,
+      preorder: backorder.preorder,
+      releaseDate: backorder.releaseDate,
+    };
+
+    await this.redis
+      .getClient()
+      .multi()
+      .zadd(
+        this.queueKey(sku),
+        backorder.queuedAt ?? Date.now(),
+        backorder.orderId,
+      )
+      .hset(this.linesKey(sku), backorder.orderId, JSON.stringify(entry))
+      .exec();
+  }
+
+  private queueKey(sku: string): string {
+    return `inventory:backorders:${sku}`;
+  }
+
+  private linesKey(sku: string): string {
+    return `inventory:backorders:${sku}:lines`;
+  }
+}
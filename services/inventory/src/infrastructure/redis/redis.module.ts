@@ -1,10 +1,11 @@
 import { Global, Module } from '@nestjs/common';
 import { RedisService } from './redis.service';
 import { RedisLockService } from './redis-lock.service';
+import { BackorderQueue } from './backorder-queue.service';
 
 @Global()
 @Module({
-  providers: [RedisService, RedisLockService],
-  exports: [RedisService, RedisLockService],
+  providers: [RedisService, RedisLockService, BackorderQueue],
+  exports: [RedisService, RedisLockService, BackorderQueue],
 })
 export class RedisModule {}
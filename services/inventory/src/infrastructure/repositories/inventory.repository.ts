@@ -10,6 +10,9 @@ import {
 import { InventoryItem } from '../../domain/entities/inventory-item.entity';
 import { InventoryMapper } from '../mappers/inventory.mapper';
 
+/** Latest restocked returns remembered per SKU, to skip redelivered ones */
+const RESTOCKED_RETURNS_KEPT = 500;
+
 @Injectable()
 export class InventoryRepository {
   constructor(
@@ -41,6 +44,28 @@ export class InventoryRepository {
     return InventoryMapper.toDomain(updated)!;
   }
 
+  /**
+   * ✅ Add returned units back to stock, once per return
+   * The return id is recorded with the increment, so a redelivered restock
+   * matches nothing and leaves stock unchanged
+   *
+   * @returns null if the item is not found or the return was already restocked
+   */
+  async restock(sku: string, quantity: number, returnId: string): Promise<InventoryItem | null> {
+    const updated = await this.model
+      .findOneAndUpdate(
+        { sku, restockedReturns: { $ne: returnId } },
+        {
+          $inc: { stock: quantity },
+          $push: { restockedReturns: { $each: [returnId], $slice: -RESTOCKED_RETURNS_KEPT } },
+        },
+        { new: true }
+      )
+      .lean();
+
+    return InventoryMapper.toDomain(updated);
+  }
+
   async list(filters: any): Promise<InventoryItem[]> {
     const docs = await this.model.find(filters).sort({ updatedAt: -1 }).lean();
     return docs.map((d) => InventoryMapper.toDomain(d)!);
@@ -116,6 +141,142 @@ export class InventoryRepository {
     return InventoryMapper.toDomain(updated)!;
   }
 
+  /**
+   * ✅ Reserve stock, back-ordering what is missing
+   * Reserves the available units and, when the SKU allows back-orders (or
+   * pre-orders before its release date), counts the rest as back-ordered.
+   * Callers hold the SKU lock; the update still fails if the item changed.
+   *
+   * @param sku - Product SKU
+   * @param quantity - Quantity ordered
+   * @returns Updated inventory item and the split of the quantity
+   * @throws Error if item not found, or stock is insufficient and the rest cannot be back-ordered
+   */
+  async reserveOrBackorder(
+    sku: string,
+    quantity: number,
+    now: Date = new Date(),
+  ): Promise<{ item: InventoryItem; reserved: number; backordered: number; preorder: boolean }> {
+    const item = await this.findBySku(sku);
+    if (!item) {
+      throw new Error(`Item with SKU ${sku} not found`);
+    }
+
+    const reserved = Math.min(item.available, quantity);
+    const backordered = quantity - reserved;
+    if (backordered > 0 && !item.canBackorder(backordered, now)) {
+      throw new Error(
+        item.backorderable || item.isPreorder(now)
+          ? `Back-order limit reached for SKU ${sku}. Back-ordered: ${item.backordered}, Limit: ${item.maxBackorder}`
+          : `Insufficient stock for SKU ${sku}. Available: ${item.available}, Required: ${quantity}`
+      );
+    }
+
+    const updated = await this.model
+      .findOneAndUpdate(
+        {
+          sku,
+          backordered: item.backordered,
+          $expr: { $gte: [{ $subtract: ['$stock', '$reserved'] }, reserved] },
+        },
+        {
+          $inc: { reserved, backordered },
+        },
+        { new: true }
+      )
+      .lean();
+
+    if (!updated) {
+      throw new Error(`Inventory for SKU ${sku} changed concurrently, please retry`);
+    }
+
+    return {
+      item: InventoryMapper.toDomain(updated)!,
+      reserved,
+      backordered,
+      preorder: backordered > 0 && item.isPreorder(now),
+    };
+  }
+
+  /**
+   * ✅ Allocate back-ordered units from stock (e.g., stock received)
+   * Atomically moves units from back-ordered to reserved
+   *
+   * @throws Error if item not found or not enough available or back-ordered units
+   */
+  async allocateBackorder(sku: string, quantity: number): Promise<InventoryItem> {
+    const updated = await this.model
+      .findOneAndUpdate(
+        {
+          sku,
+          backordered: { $gte: quantity },
+          $expr: { $gte: [{ $subtract: ['$stock', '$reserved'] }, quantity] },
+        },
+        {
+          $inc: { reserved: quantity, backordered: -quantity },
+        },
+        { new: true }
+      )
+      .lean();
+
+    if (!updated) {
+      throw new Error(`Cannot allocate ${quantity} back-ordered units of SKU ${sku}`);
+    }
+
+    return InventoryMapper.toDomain(updated)!;
+  }
+
+  /**
+   * ✅ Cancel back-ordered units (e.g., order cancelled before allocation)
+   *
+   * @throws Error if item not found or fewer units are back-ordered
+   */
+  async releaseBackorder(sku: string, quantity: number): Promise<InventoryItem> {
+    const updated = await this.model
+      .findOneAndUpdate(
+        { sku, backordered: { $gte: quantity } },
+        { $inc: { backordered: -quantity } },
+        { new: true }
+      )
+      .lean();
+
+    if (!updated) {
+      throw new Error(`Cannot release ${quantity} back-ordered units of SKU ${sku}`);
+    }
+
+    return InventoryMapper.toDomain(updated)!;
+  }
+
+  /**
+   * ✅ Update whether a SKU can be back-ordered or pre-ordered
+   * `null` clears the release date / back-order limit
+   */
+  async updateBackorderSettings(
+    sku: string,
+    settings: {
+      backorderable?: boolean;
+      preorderable?: boolean;
+      releaseDate?: Date | null;
+      maxBackorder?: number | null;
+    },
+  ): Promise<InventoryItem> {
+    const $set: Record<string, unknown> = {};
+    const $unset: Record<string, 1> = {};
+    for (const [field, value] of Object.entries(settings)) {
+      if (value === undefined) continue;
+      if (value === null) $unset[field] = 1;
+      else $set[field] = value;
+    }
+
+    const updated = await this.model
+      .findOneAndUpdate({ sku }, { $set, $unset }, { new: true })
+      .lean();
+
+    if (!updated) throw new Error('Item not found');
+
+    return InventoryMapper.toDomain(updated)!;
+  }
+
   /**
    * ✅ Release reserved stock (e.g., when order is cancelled)
    * Atomically decrements reserved stock
@@ -1,9 +1,13 @@
-import { Controller, Post, Body, Param, Get, Query } from '@nestjs/common';
+import { Controller, Post, Patch, Body, Param, Get, Query } from '@nestjs/common';
 import { CreateItemUseCase } from '../../application/use-cases/create-item.usecase';
 import { GetItemUseCase } from '../../application/use-cases/get-item.usecase';
 import { ListItemsUseCase } from '../../application/use-cases/list-items.usecase';
+import { AdjustStockUseCase } from '../../application/use-cases/adjust-stock.usecase';
+import { UpdateBackorderSettingsUseCase } from '../../application/use-cases/update-backorder-settings.usecase';
 import { CreateInventoryItemDto } from '../../application/dto/create-inventory-item.dto';
 import { FilterInventoryDto } from '../../application/dto/filter-inventory.dto';
+import { AdjustStockDto } from '../../application/dto/adjust-stock.dto';
+import { UpdateBackorderSettingsDto } from '../../application/dto/update-backorder-settings.dto';
 import { InventoryRepository } from '../../infrastructure/repositories/inventory.repository';
 
 /**
@@ -16,6 +20,8 @@ import { InventoryRepository } from '../../infrastructure/repositories/inventory
  * - GET /inventory/:sku - Get inventory by SKU
  * - GET /inventory - List inventory items
  * - GET /inventory/batch - Get inventory for multiple SKUs (NEW)
+ * - POST /inventory/adjust - Add or remove stock (stock received → back-orders allocated)
+ * - PATCH /inventory/:sku/backorder - Back-order / pre-order settings of a SKU
  */
 @Controller('inventory/inventory')
 export class InventoryController {
@@ -23,6 +29,8 @@ export class InventoryController {
     private readonly createUseCase: CreateItemUseCase,
     private readonly getUseCase: GetItemUseCase,
     private readonly listUseCase: ListItemsUseCase,
+    private readonly adjustStockUseCase: AdjustStockUseCase,
+    private readonly updateBackorderSettingsUseCase: UpdateBackorderSettingsUseCase,
     private readonly inventoryRepository: InventoryRepository,
   ) {}
 
@@ -34,6 +42,55 @@ export class InventoryController {
     return this.createUseCase.execute(dto);
   }
 
+  /**
+   * Add or remove stock
+   * Received stock is allocated to back-ordered orders first
+   */
+  @Post('adjust')
+  async adjust(@Body() dto: AdjustStockDto) {
+    try {
+      const inventory = await this.adjustStockUseCase.execute(dto.sku, dto.delta);
+      return {
+        success: true,
+        data: {
+          ...inventory,
+          available: inventory.stock - inventory.reserved,
+        },
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        message: error.message || 'Failed to adjust stock',
+      };
+    }
+  }
+
+  /**
+   * Update whether a SKU can be back-ordered or pre-ordered
+   * (with its release date and back-order limit)
+   */
+  @Patch(':sku/backorder')
+  async updateBackorderSettings(
+    @Param('sku') sku: string,
+    @Body() dto: UpdateBackorderSettingsDto,
+  ) {
+    try {
+      const inventory = await this.updateBackorderSettingsUseCase.execute(sku, dto);
+      return {
+        success: true,
+        data: {
+          ...inventory,
+          available: inventory.stock - inventory.reserved,
+        },
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        message: error.message || 'Failed to update back-order settings',
+      };
+    }
+  }
+
   /**
    * ✅ NEW: Get inventory for multiple SKUs (batch operation)
    * Used by admin dashboard to show reserved/available stock for all products
@@ -72,6 +129,10 @@ export class InventoryController {
               stock: inventory.stock,
               reserved: inventory.reserved,
               sold: inventory.sold,
+              backordered: inventory.backordered,
+              backorderable: inventory.backorderable,
+              preorderable: inventory.preorderable,
+              releaseDate: inventory.releaseDate,
               available: inventory.stock - inventory.reserved,
             };
           }
@@ -80,6 +141,7 @@ export class InventoryController {
             stock: 0,
             reserved: 0,
             sold: 0,
+            backordered: 0,
             available: 0,
           };
         } catch (error) {
@@ -89,6 +151,7 @@ export class InventoryController {
             stock: 0,
             reserved: 0,
             sold: 0,
+            backordered: 0,
             available: 0,
           };
         }
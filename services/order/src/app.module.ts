@@ -1,28 +1,125 @@
 import { Module } from '@nestjs/common';
-import { ConfigModule } from '@nestjs/config';
+import { ConfigModule, ConfigService } from '@nestjs/config';
 import orderConfig from './config/order.config';
 import { MongooseModule } from '@nestjs/mongoose';
 import { EventBusModule } from './infrastructure/event-bus/event-bus.module';
+import { RedisModule } from './infrastructure/redis/redis.module';
+import { SessionAuthGuard } from './shared/guards/session-auth.guard';
+import { AdminGuard } from './shared/guards/admin.guard';
 
 import { OrderController } from './presentation/controllers/order.controller';
+import { OutboxController } from './presentation/controllers/outbox.controller';
+import { CouponController } from './presentation/controllers/coupon.controller';
+import { TaxController } from './presentation/controllers/tax.controller';
+import { ShippingController } from './presentation/controllers/shipping.controller';
+import { CurrencyController } from './presentation/controllers/currency.controller';
+import { ReturnController } from './presentation/controllers/return.controller';
+import { AnalyticsController } from './presentation/controllers/analytics.controller';
 
 import { OrderRepository } from './infrastructure/repositories/order.repository';
 import { OrderMapper } from './infrastructure/mappers/order.mapper';
 import { OrderProducer } from './infrastructure/events/order.producer';
+import { OutboxRelay } from './infrastructure/events/outbox.relay';
+import { OrderEventHandler } from './infrastructure/events/order-event.handler';
+import { ReservationTimeoutWatcher } from './infrastructure/events/reservation-timeout.watcher';
+import { UnpaidOrderExpiryWatcher } from './infrastructure/events/unpaid-order-expiry.watcher';
+import { OutboxRepository } from './infrastructure/repositories/outbox.repository';
+import { CouponRepository } from './infrastructure/repositories/coupon.repository';
+import { CouponMapper } from './infrastructure/mappers/coupon.mapper';
+import { InvoiceNumberRepository } from './infrastructure/repositories/invoice-number.repository';
+import { InvoiceRenderer } from './infrastructure/documents/invoice.renderer';
+import { OrderExportWriter } from './infrastructure/documents/order-export.writer';
+import { ReturnRequestRepository } from './infrastructure/repositories/return-request.repository';
+import { OrderAnalyticsRepository } from './infrastructure/repositories/order-analytics.repository';
+import { ReturnRequestMapper } from './infrastructure/mappers/return-request.mapper';
+import { ReturnProducer } from './infrastructure/events/return.producer';
 import { OrderSchema, OrderModel } from './infrastructure/database/order.schema';
+import { OutboxEventSchema, OutboxEventModel } from './infrastructure/database/outbox.schema';
+import {
+  CouponSchema,
+  CouponModel,
+  CouponRedemptionSchema,
+  CouponRedemptionModel,
+} from './infrastructure/database/coupon.schema';
+import { CounterSchema, CounterModel } from './infrastructure/database/counter.schema';
+import { MinorUnitsMigration } from './infrastructure/database/minor-units.migration';
+import {
+  ReturnRequestSchema,
+  ReturnRequestModel,
+} from './infrastructure/database/return-request.schema';
 
 import { OrderDomainService } from './domain/services/order-domain.service';
 import { OrderFactory } from './domain/factories/order.factory';
+import { ReturnRequestFactory } from './domain/factories/return-request.factory';
+import { ShipmentFactory } from './domain/factories/shipment.factory';
+import { OrderAmendmentFactory } from './domain/factories/order-amendment.factory';
+import { TaxService } from './domain/services/tax.service';
+import { ShippingService } from './domain/services/shipping.service';
+import { CurrencyService } from './domain/services/currency.service';
 import { CreateOrderUseCase } from './application/use-cases/create-order.usecase';
 import { GetOrderUseCase } from './application/use-cases/get-order.usecase';
 import { ListOrdersUseCase } from './application/use-cases/list-orders.usecase';
+import { GetOrderStatsUseCase } from './application/use-cases/get-order-stats.usecase';
 import { UpdateOrderStatusUseCase } from './application/use-cases/update-order-status.usecase';
+import { CancelOrderUseCase } from './application/use-cases/cancel-order.usecase';
+import { GetOrderInvoiceUseCase } from './application/use-cases/get-order-invoice.usecase';
+import { CreateShipmentUseCase } from './application/use-cases/create-shipment.usecase';
+import { DeliverShipmentUseCase } from './application/use-cases/deliver-shipment.usecase';
+import { AmendOrderUseCase } from './application/use-cases/amend-order.usecase';
+import { ExportOrdersUseCase } from './application/use-cases/export-orders.usecase';
+import { ListStuckOutboxEventsUseCase } from './application/use-cases/list-stuck-outbox-events.usecase';
+import { RedriveOutboxEventsUseCase } from './application/use-cases/redrive-outbox-events.usecase';
+import { ApplyReservationResultUseCase } from './application/use-cases/apply-reservation-result.usecase';
+import { ApplyAllocationUseCase } from './application/use-cases/apply-allocation.usecase';
+import { RecordCheckoutUseCase } from './application/use-cases/record-checkout.usecase';
+import { ApplyPaymentResultUseCase } from './application/use-cases/apply-payment-result.usecase';
+import { ApplyRefundUseCase } from './application/use-cases/apply-refund.usecase';
+import { CancelUnreservedOrdersUseCase } from './application/use-cases/cancel-unreserved-orders.usecase';
+import { ExpireUnpaidOrdersUseCase } from './application/use-cases/expire-unpaid-orders.usecase';
+import { CreateCouponUseCase } from './application/use-cases/create-coupon.usecase';
+import { ListCouponsUseCase } from './application/use-cases/list-coupons.usecase';
+import { DisableCouponUseCase } from './application/use-cases/disable-coupon.usecase';
+import { ValidateCouponUseCase } from './application/use-cases/validate-coupon.usecase';
+import { QuoteTaxUseCase } from './application/use-cases/quote-tax.usecase';
+import { QuoteShippingUseCase } from './application/use-cases/quote-shipping.usecase';
+import { ListCurrenciesUseCase } from './application/use-cases/list-currencies.usecase';
+import { RequestReturnUseCase } from './application/use-cases/request-return.usecase';
+import { ListReturnsUseCase } from './application/use-cases/list-returns.usecase';
+import { UpdateReturnStatusUseCase } from './application/use-cases/update-return-status.usecase';
+import { ReceiveReturnUseCase } from './application/use-cases/receive-return.usecase';
+import { GetSalesReportUseCase } from './application/use-cases/get-sales-report.usecase';
+import { LookupGuestOrderUseCase } from './application/use-cases/lookup-guest-order.usecase';
+import { ClaimGuestOrdersUseCase } from './application/use-cases/claim-guest-orders.usecase';
+import { OrderLookupTokenService } from './application/services/order-lookup-token.service';
 import { ORDER_REPOSITORY } from './domain/interfaces/order-repository.interface';
+import { OUTBOX_REPOSITORY } from './domain/interfaces/outbox-repository.interface';
+import { COUPON_REPOSITORY } from './domain/interfaces/coupon-repository.interface';
+import { RETURN_REPOSITORY } from './domain/interfaces/return-repository.interface';
+import { ORDER_ANALYTICS } from './domain/interfaces/order-analytics.interface';
+import { PRODUCT_CATALOG } from './domain/interfaces/product-catalog.interface';
+import {
+  TAX_RATE_TABLE,
+  TaxRateTable,
+} from './domain/interfaces/tax-rate-table.interface';
+import {
+  SHIPPING_RATE_TABLE,
+  ShippingRateTable,
+} from './domain/interfaces/shipping-rate-table.interface';
+import {
+  EXCHANGE_RATE_TABLE,
+  ExchangeRateTable,
+} from './domain/interfaces/exchange-rate-table.interface';
+import { ProductCatalogClient } from './infrastructure/http/product-catalog.client';
+import { IDEMPOTENCY_STORE } from './domain/interfaces/idempotency-store.interface';
+import { RedisIdempotencyStore } from './infrastructure/redis/redis-idempotency.store';
+import { DISTRIBUTED_LOCK } from './domain/interfaces/distributed-lock.interface';
+import { RedisDistributedLock } from './infrastructure/redis/redis-distributed-lock';
 
 @Module({
   imports: [
     ConfigModule.forRoot({
       isGlobal: true,
+      load: [orderConfig],
       envFilePath: (() => {
         const env = process.env.NODE_ENV;
 
@@ -37,28 +134,143 @@ import { ORDER_REPOSITORY } from './domain/interfaces/order-repository.interface
 
     MongooseModule.forFeature([
       { name: OrderModel.name, schema: OrderSchema },
+      { name: OutboxEventModel.name, schema: OutboxEventSchema },
+      { name: CouponModel.name, schema: CouponSchema },
+      { name: CouponRedemptionModel.name, schema: CouponRedemptionSchema },
+      { name: CounterModel.name, schema: CounterSchema },
+      { name: ReturnRequestModel.name, schema: ReturnRequestSchema },
     ]),
 
     EventBusModule,        // Event bus 
+    RedisModule,           // Session lookup, idempotency keys
+  ],
+  controllers: [
+    OrderController,
+    OutboxController,
+    CouponController,
+    TaxController,
+    ShippingController,
+    CurrencyController,
+    ReturnController,
+    AnalyticsController,
   ],
-  controllers: [OrderController],
 
   providers: [
     {
       provide: ORDER_REPOSITORY,
       useClass: OrderRepository,
     },
+    OutboxRepository,
+    {
+      provide: OUTBOX_REPOSITORY,
+      useExisting: OutboxRepository,
+    },
+    CouponRepository,
+    {
+      provide: COUPON_REPOSITORY,
+      useExisting: CouponRepository,
+    },
+    InvoiceNumberRepository,
+    MinorUnitsMigration,
+    ReturnRequestRepository,
+    {
+      provide: RETURN_REPOSITORY,
+      useExisting: ReturnRequestRepository,
+    },
+    {
+      provide: ORDER_ANALYTICS,
+      useClass: OrderAnalyticsRepository,
+    },
+    {
+      provide: PRODUCT_CATALOG,
+      useClass: ProductCatalogClient,
+    },
+    {
+      provide: TAX_RATE_TABLE,
+      useFactory: (config: ConfigService) =>
+        config.getOrThrow<TaxRateTable>('order.tax'),
+      inject: [ConfigService],
+    },
+    {
+      provide: SHIPPING_RATE_TABLE,
+      useFactory: (config: ConfigService) =>
+        config.getOrThrow<ShippingRateTable>('order.shipping'),
+      inject: [ConfigService],
+    },
+    {
+      provide: EXCHANGE_RATE_TABLE,
+      useFactory: (config: ConfigService) =>
+        config.getOrThrow<ExchangeRateTable>('order.exchangeRates'),
+      inject: [ConfigService],
+    },
+    {
+      provide: IDEMPOTENCY_STORE,
+      useClass: RedisIdempotencyStore,
+    },
+    {
+      provide: DISTRIBUTED_LOCK,
+      useClass: RedisDistributedLock,
+    },
 
     OrderMapper,
+    CouponMapper,
+    ReturnRequestMapper,
+    InvoiceRenderer,
+    OrderExportWriter,
     OrderProducer,
+    ReturnProducer,
+    OutboxRelay,
+    OrderEventHandler,           // Inventory reservation results (saga)
+    ReservationTimeoutWatcher,
+    UnpaidOrderExpiryWatcher,        // Cancels unpaid orders (one replica at a time)
 
     OrderDomainService,
     OrderFactory,
+    ReturnRequestFactory,
+    ShipmentFactory,
+    OrderAmendmentFactory,
+    TaxService,
+    ShippingService,
+    CurrencyService,
+    OrderLookupTokenService,
 
     CreateOrderUseCase,
     GetOrderUseCase,
     ListOrdersUseCase,
+    GetOrderStatsUseCase,
     UpdateOrderStatusUseCase,
+    CancelOrderUseCase,
+    GetOrderInvoiceUseCase,
+    CreateShipmentUseCase,
+    DeliverShipmentUseCase,
+    AmendOrderUseCase,
+    ExportOrdersUseCase,
+    ListStuckOutboxEventsUseCase,
+    RedriveOutboxEventsUseCase,
+    ApplyReservationResultUseCase,
+    ApplyAllocationUseCase,
+    RecordCheckoutUseCase,
+    ApplyPaymentResultUseCase,
+    ApplyRefundUseCase,
+    CancelUnreservedOrdersUseCase,
+    ExpireUnpaidOrdersUseCase,
+    CreateCouponUseCase,
+    ListCouponsUseCase,
+    DisableCouponUseCase,
+    ValidateCouponUseCase,
+    QuoteTaxUseCase,
+    QuoteShippingUseCase,
+    ListCurrenciesUseCase,
+    RequestReturnUseCase,
+    ListReturnsUseCase,
+    UpdateReturnStatusUseCase,
+    ReceiveReturnUseCase,
+    GetSalesReportUseCase,
+    LookupGuestOrderUseCase,
+    ClaimGuestOrdersUseCase,
+
+    SessionAuthGuard,
+    AdminGuard,
   ],
 
   exports: [
@@ -66,6 +278,7 @@ import { ORDER_REPOSITORY } from './domain/interfaces/order-repository.interface
     GetOrderUseCase,
     ListOrdersUseCase,
     UpdateOrderStatusUseCase,
+    CancelOrderUseCase,
   ],
 })
 export class AppModule { }
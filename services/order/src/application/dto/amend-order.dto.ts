@@ -0,0 +1,62 @@
+import {
+  IsArray,
+  IsInt,
+  IsObject,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+import { ShippingAddressDto } from './create-order.dto';
+
+class AmendOrderLineDto {
+  @ApiProperty({ example: 'SKU123', description: 'Product SKU' })
+  @IsString()
+  sku: string;
+
+  @ApiProperty({
+    example: 3,
+    description:
+      'New quantity of the line; 0 removes it, a SKU not in the order adds a line',
+  })
+  @IsInt()
+  @Min(0)
+  quantity: number;
+}
+
+export class AmendOrderDto {
+  @ApiProperty({
+    type: [AmendOrderLineDto],
+    required: false,
+    description: 'Lines to change; lines not listed are kept as they are',
+  })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => AmendOrderLineDto)
+  items?: AmendOrderLineDto[];
+
+  @ApiProperty({
+    type: ShippingAddressDto,
+    required: false,
+    description: 'New shipping address (tax and shipping are priced for it)',
+  })
+  @IsOptional()
+  @IsObject()
+  @ValidateNested()
+  @Type(() => ShippingAddressDto)
+  shippingAddress?: ShippingAddressDto;
+
+  @ApiProperty({
+    example: 'Customer asked for one more mug',
+    required: false,
+    description: 'Why the order is changed, kept in the amendment history',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  reason?: string;
+}
@@ -0,0 +1,67 @@
+import {
+  IsDateString,
+  IsIn,
+  IsInt,
+  IsOptional,
+  Matches,
+  Max,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  REPORT_INTERVALS,
+  ReportInterval,
+  TOP_SKU_SORTS,
+  TopSkuSort,
+} from '../../domain/interfaces/order-analytics.interface';
+
+export class AnalyticsQueryDto {
+  @ApiPropertyOptional({
+    example: '2025-01-01',
+    description: 'Orders created on or after (ISO date)',
+  })
+  @IsOptional()
+  @IsDateString()
+  createdFrom?: string;
+
+  @ApiPropertyOptional({
+    example: '2025-01-31',
+    description:
+      'Orders created on or before (ISO date; a bare date includes the whole day)',
+  })
+  @IsOptional()
+  @IsDateString()
+  createdTo?: string;
+
+  @ApiPropertyOptional({
+    example: 'EUR',
+    description:
+      'Only orders charged in this currency, reported in it. All orders, converted to the base currency, when omitted',
+  })
+  @IsOptional()
+  @Matches(/^[A-Za-z]{3}$/, { message: 'currency must be an ISO 4217 code' })
+  currency?: string;
+}
+
+export class RevenueReportQueryDto extends AnalyticsQueryDto {
+  @ApiPropertyOptional({ enum: REPORT_INTERVALS, default: 'day' })
+  @IsOptional()
+  @IsIn(REPORT_INTERVALS)
+  interval?: ReportInterval;
+}
+
+export class TopSkusQueryDto extends AnalyticsQueryDto {
+  @ApiPropertyOptional({ enum: TOP_SKU_SORTS, default: 'revenue' })
+  @IsOptional()
+  @IsIn(TOP_SKU_SORTS)
+  sortBy?: TopSkuSort;
+
+  @ApiPropertyOptional({ example: 10, default: 10, maximum: 50 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(50)
+  limit?: number;
+}
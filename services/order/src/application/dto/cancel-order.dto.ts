@@ -0,0 +1,13 @@
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class CancelOrderDto {
+  @ApiProperty({
+    example: 'Ordered the wrong size',
+    description: 'Why the customer is cancelling',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  reason: string;
+}
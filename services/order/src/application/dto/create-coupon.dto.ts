@@ -0,0 +1,94 @@
+import {
+  IsArray,
+  IsDateString,
+  IsIn,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsPositive,
+  IsString,
+  Matches,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { COUPON_TYPES, CouponType } from '../../domain/entities/coupon.entity';
+
+export class CreateCouponDto {
+  @ApiProperty({
+    example: 'SUMMER10',
+    description: 'Promo code (letters, digits, - and _; stored upper-case)',
+  })
+  @IsString()
+  @Matches(/^[A-Za-z0-9_-]{3,32}$/, {
+    message: 'code must be 3-32 letters, digits, - or _',
+  })
+  code: string;
+
+  @ApiProperty({ enum: COUPON_TYPES, example: 'percentage' })
+  @IsIn(COUPON_TYPES)
+  type: CouponType;
+
+  @ApiProperty({
+    example: 10,
+    description: 'Percent off (max 100) or fixed amount off',
+  })
+  @IsNumber()
+  @IsPositive()
+  value: number;
+
+  @ApiPropertyOptional({ example: 'Summer sale' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  description?: string;
+
+  @ApiPropertyOptional({ example: 50, description: 'Minimum order subtotal' })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  minSpend?: number;
+
+  @ApiPropertyOptional({ example: '2025-06-01T00:00:00Z' })
+  @IsOptional()
+  @IsDateString()
+  startsAt?: string;
+
+  @ApiPropertyOptional({ example: '2025-09-01T00:00:00Z' })
+  @IsOptional()
+  @IsDateString()
+  expiresAt?: string;
+
+  @ApiPropertyOptional({
+    example: 1000,
+    description: 'Total redemptions across all customers',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  maxRedemptions?: number;
+
+  @ApiPropertyOptional({ example: 1, description: 'Redemptions per customer' })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  maxRedemptionsPerCustomer?: number;
+
+  @ApiPropertyOptional({
+    type: [String],
+    description: 'Only discount these SKUs',
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  skus?: string[];
+
+  @ApiPropertyOptional({
+    type: [String],
+    description: 'Only discount products in these categories',
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  categories?: string[];
+}
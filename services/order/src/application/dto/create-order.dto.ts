@@ -1,26 +1,42 @@
-import { IsString, IsArray, ValidateNested, IsNumber, IsOptional, IsObject } from 'class-validator';
+import { IsString, IsArray, ValidateNested, IsNumber, IsOptional, IsObject, IsInt, Min, ArrayNotEmpty, MaxLength, IsIn, IsEmail, IsNotEmpty, Matches, ValidateIf } from 'class-validator';
 import { Type } from 'class-transformer';
 import { ApiProperty } from '@nestjs/swagger';
+import {
+  GUEST_BUYER_PREFIX,
+  PAYMENT_METHODS,
+  PaymentMethod,
+} from '../../domain/entities/order.entity';
 
 class CreateOrderItemDto {
   @ApiProperty({ example: 'SKU123', description: 'Unique product SKU' })
   @IsString()
   sku: string;
 
-  @ApiProperty({ example: 'Red T-shirt', description: 'Product name' })
+  @ApiProperty({
+    example: 'Red T-shirt',
+    description: 'Product name (ignored, the catalog name is used)',
+    required: false,
+  })
   @IsString()
-  name: string;
+  @IsOptional()
+  name?: string;
 
-  @ApiProperty({ example: 499, description: 'Unit price of the product' })
+  @ApiProperty({
+    example: 499,
+    description: 'Unit price the customer saw, in the order currency. If it differs from the catalog price the order is rejected with PRICE_CHANGED',
+    required: false,
+  })
   @IsNumber()
-  unitPrice: number;
+  @IsOptional()
+  unitPrice?: number;
 
   @ApiProperty({ example: 2, description: 'Quantity purchased' })
-  @IsNumber()
+  @IsInt()
+  @Min(1)
   quantity: number;
 }
 
-class ShippingAddressDto {
+export class ShippingAddressDto {
   @ApiProperty({ example: '123 Main St', description: 'Street address' })
   @IsString()
   street: string;
@@ -43,15 +59,37 @@ class ShippingAddressDto {
 }
 
 export class CreateOrderDto {
-  @ApiProperty({ example: 'user-123', description: 'ID of the buyer' })
+  @ApiProperty({
+    example: 'user-123',
+    description:
+      'ID of the buyer; omit it and set guestEmail to check out as a guest',
+    required: false,
+  })
+  @ValidateIf((dto: CreateOrderDto) => dto.guestEmail === undefined)
   @IsString()
-  buyerId: string;
+  @IsNotEmpty()
+  @Matches(new RegExp(`^(?!${GUEST_BUYER_PREFIX})`), {
+    message: 'buyerId must be an account id; use guestEmail for guest checkout',
+  })
+  buyerId?: string;
+
+  @ApiProperty({
+    example: 'jane@example.com',
+    description:
+      'Email of a guest without an account. The response then includes a lookupToken for viewing the order without signing in',
+    required: false,
+  })
+  @ValidateIf((dto: CreateOrderDto) => dto.buyerId === undefined)
+  @IsEmail()
+  @MaxLength(254)
+  guestEmail?: string;
 
   @ApiProperty({
     type: [CreateOrderItemDto],
     description: 'List of items inside the order',
   })
   @IsArray()
+  @ArrayNotEmpty()
   @ValidateNested({ each: true })
   @Type(() => CreateOrderItemDto)
   items: CreateOrderItemDto[];
@@ -69,7 +107,8 @@ export class CreateOrderDto {
 
   @ApiProperty({
     example: 'USD',
-    description: 'Currency code of the order',
+    description:
+      'Currency to charge in (default: the base currency). Must have an exchange rate, otherwise UNSUPPORTED_CURRENCY',
     required: false,
   })
   @IsString()
@@ -77,11 +116,33 @@ export class CreateOrderDto {
   currency?: string;
 
   @ApiProperty({
-    example: 49.9,
-    description: 'Tax amount (optional, will be calculated as 10% if not provided)',
+    example: 'SUMMER10',
+    description: 'Promo code; applied as a discount if valid, otherwise the order is rejected with INVALID_COUPON',
     required: false,
   })
-  @IsNumber()
+  @IsString()
+  @IsOptional()
+  @MaxLength(32)
+  couponCode?: string;
+
+  @ApiProperty({
+    example: 'standard',
+    description:
+      'Shipping method id from the shipping quote (default: standard)',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  @MaxLength(32)
+  shippingMethod?: string;
+
+  @ApiProperty({
+    enum: PAYMENT_METHODS,
+    example: 'cod',
+    description: 'How the order will be paid (default: cod)',
+    required: false,
+  })
+  @IsIn(PAYMENT_METHODS)
   @IsOptional()
-  tax?: number;
+  paymentMethod?: PaymentMethod;
 }
@@ -0,0 +1,49 @@
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsInt,
+  IsNotEmpty,
+  IsString,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+
+class ReturnLineDto {
+  @ApiProperty({ example: 'SKU123', description: 'SKU of the order line' })
+  @IsString()
+  sku: string;
+
+  @ApiProperty({ example: 1, description: 'Units to return' })
+  @IsInt()
+  @Min(1)
+  quantity: number;
+}
+
+export class CreateReturnDto {
+  @ApiProperty({ example: 'order-123', description: 'Delivered order' })
+  @IsString()
+  @IsNotEmpty()
+  orderId: string;
+
+  @ApiProperty({
+    type: [ReturnLineDto],
+    description: 'Lines and quantities to return',
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @ValidateNested({ each: true })
+  @Type(() => ReturnLineDto)
+  items: ReturnLineDto[];
+
+  @ApiProperty({
+    example: 'Wrong size',
+    description: 'Why the items are returned',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  reason: string;
+}
@@ -0,0 +1,49 @@
+import {
+  IsArray,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+
+class ShipmentLineDto {
+  @ApiProperty({ example: 'SKU123', description: 'SKU of the order line' })
+  @IsString()
+  sku: string;
+
+  @ApiProperty({ example: 1, description: 'Units in this shipment' })
+  @IsInt()
+  @Min(1)
+  quantity: number;
+}
+
+export class CreateShipmentDto {
+  @ApiProperty({ example: 'UPS' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  carrier: string;
+
+  @ApiProperty({ example: '1Z999AA10123456784' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  trackingNumber: string;
+
+  @ApiProperty({
+    type: [ShipmentLineDto],
+    required: false,
+    description:
+      'Lines and quantities shipped; everything not shipped yet when omitted',
+  })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => ShipmentLineDto)
+  items?: ShipmentLineDto[];
+}
@@ -0,0 +1,33 @@
+import { IsIn, IsOptional } from 'class-validator';
+import { ApiPropertyOptional, OmitType } from '@nestjs/swagger';
+import { FilterOrderDto } from './filter-order.dto';
+import { ExportFormat, ExportRows } from '../use-cases/export-orders.usecase';
+
+/**
+ * The order list filters (without sorting and paging: exports are always
+ * oldest first and complete) plus the file layout.
+ */
+export class ExportOrdersDto extends OmitType(FilterOrderDto, [
+  'sortBy',
+  'sortOrder',
+  'page',
+  'limit',
+] as const) {
+  @ApiPropertyOptional({
+    enum: ['csv', 'ndjson'],
+    default: 'csv',
+    description: 'CSV with a header row, or one JSON object per line',
+  })
+  @IsOptional()
+  @IsIn(['csv', 'ndjson'])
+  format?: ExportFormat;
+
+  @ApiPropertyOptional({
+    enum: ['order', 'item'],
+    default: 'order',
+    description: 'One row per order, or one row per line item',
+  })
+  @IsOptional()
+  @IsIn(['order', 'item'])
+  rows?: ExportRows;
+}
@@ -1,14 +1,100 @@
-import { IsOptional, IsString } from 'class-validator';
+import {
+  IsDateString,
+  IsIn,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
 import { ApiPropertyOptional } from '@nestjs/swagger';
+import { ORDER_SORT_FIELDS } from '../../domain/interfaces/order-repository.interface';
 
 export class FilterOrderDto {
-  @ApiPropertyOptional({ example: 'user-123', description: 'Filter by buyer ID' })
+  @ApiPropertyOptional({
+    example: 'user-123',
+    description: 'Filter by buyer ID',
+  })
   @IsOptional()
   @IsString()
   buyerId?: string;
 
-  @ApiPropertyOptional({ example: 'PENDING', description: 'Filter by status' })
+  @ApiPropertyOptional({ example: 'pending', description: 'Filter by status' })
   @IsOptional()
   @IsString()
   status?: string;
+
+  @ApiPropertyOptional({
+    example: 'SKU123',
+    description: 'Only orders containing this SKU',
+  })
+  @IsOptional()
+  @IsString()
+  sku?: string;
+
+  @ApiPropertyOptional({
+    example: '2025-01-01',
+    description: 'Created on or after (ISO date)',
+  })
+  @IsOptional()
+  @IsDateString()
+  createdFrom?: string;
+
+  @ApiPropertyOptional({
+    example: '2025-01-31T23:59:59Z',
+    description: 'Created on or before (ISO date)',
+  })
+  @IsOptional()
+  @IsDateString()
+  createdTo?: string;
+
+  @ApiPropertyOptional({ example: 10, description: 'Minimum order total' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  minTotal?: number;
+
+  @ApiPropertyOptional({ example: 500, description: 'Maximum order total' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  maxTotal?: number;
+
+  @ApiPropertyOptional({
+    enum: ORDER_SORT_FIELDS,
+    default: 'createdAt',
+    description: 'Sort field',
+  })
+  @IsOptional()
+  @IsIn(ORDER_SORT_FIELDS)
+  sortBy?: (typeof ORDER_SORT_FIELDS)[number];
+
+  @ApiPropertyOptional({
+    enum: ['asc', 'desc'],
+    default: 'desc',
+    description: 'Sort direction',
+  })
+  @IsOptional()
+  @IsIn(['asc', 'desc'])
+  sortOrder?: 'asc' | 'desc';
+
+  // ✅ Pagination - Transform string to number from query params
+  @ApiPropertyOptional({ example: 1, default: 1 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number;
+
+  @ApiPropertyOptional({ example: 20, default: 20, maximum: 100 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number;
 }
@@ -0,0 +1,29 @@
+import { IsIn, IsInt, IsOptional, Max, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export class FilterOutboxDto {
+  @ApiPropertyOptional({
+    enum: ['pending', 'failed'],
+    description:
+      'pending: not yet sent and older than the stuck threshold; failed: gave up retrying. Both when omitted',
+  })
+  @IsOptional()
+  @IsIn(['pending', 'failed'])
+  status?: 'pending' | 'failed';
+
+  @ApiPropertyOptional({ example: 1, default: 1 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number;
+
+  @ApiPropertyOptional({ example: 20, default: 20, maximum: 100 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+}
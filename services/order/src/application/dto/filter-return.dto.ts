@@ -0,0 +1,34 @@
+import { IsIn, IsInt, IsOptional, IsString, Max, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  RETURN_STATUSES,
+  ReturnStatus,
+} from '../../domain/entities/return-request.entity';
+
+export class FilterReturnDto {
+  @ApiPropertyOptional({ enum: RETURN_STATUSES })
+  @IsOptional()
+  @IsIn(RETURN_STATUSES)
+  status?: ReturnStatus;
+
+  @ApiPropertyOptional({ example: 'order-123' })
+  @IsOptional()
+  @IsString()
+  orderId?: string;
+
+  @ApiPropertyOptional({ example: 1, default: 1 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number;
+
+  @ApiPropertyOptional({ example: 20, default: 20, maximum: 100 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+}
@@ -0,0 +1,33 @@
+import {
+  ArrayMaxSize,
+  ArrayNotEmpty,
+  IsArray,
+  IsNotEmpty,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class LookupOrderQueryDto {
+  @ApiProperty({
+    description: 'The lookupToken returned when the guest order was placed',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(2048)
+  token: string;
+}
+
+export class ClaimGuestOrdersDto {
+  @ApiProperty({
+    type: [String],
+    description:
+      'Lookup tokens of guest orders placed with the account email; any one of them proves access to that email',
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayMaxSize(50)
+  @IsString({ each: true })
+  @MaxLength(2048, { each: true })
+  tokens: string[];
+}
@@ -0,0 +1,14 @@
+import { IsIn, IsOptional } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { InvoiceFormat } from '../use-cases/get-order-invoice.usecase';
+
+export class InvoiceQueryDto {
+  @ApiPropertyOptional({
+    enum: ['pdf', 'html'],
+    default: 'pdf',
+    description: 'Document format',
+  })
+  @IsOptional()
+  @IsIn(['pdf', 'html'])
+  format?: InvoiceFormat;
+}
@@ -0,0 +1,47 @@
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsInt,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+
+class ReceivedLineDto {
+  @ApiProperty({ example: 'SKU123' })
+  @IsString()
+  sku: string;
+
+  @ApiProperty({ example: 1, description: 'Units fit to sell again' })
+  @IsInt()
+  @Min(0)
+  restockable: number;
+
+  @ApiProperty({ example: 0, description: 'Units written off' })
+  @IsInt()
+  @Min(0)
+  damaged: number;
+}
+
+export class ReceiveReturnDto {
+  @ApiProperty({
+    type: [ReceivedLineDto],
+    description:
+      'Condition of every returned line; the two counts add up to the returned quantity',
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @ValidateNested({ each: true })
+  @Type(() => ReceivedLineDto)
+  items: ReceivedLineDto[];
+
+  @ApiProperty({ required: false, example: 'Box damaged in transit' })
+  @IsString()
+  @IsOptional()
+  @MaxLength(500)
+  note?: string;
+}
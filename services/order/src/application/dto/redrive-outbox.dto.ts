@@ -0,0 +1,14 @@
+import { ArrayMaxSize, IsArray, IsOptional, IsString } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export class RedriveOutboxDto {
+  @ApiPropertyOptional({
+    type: [String],
+    description: 'Outbox event IDs to re-drive; all failed events when omitted',
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(500)
+  @IsString({ each: true })
+  ids?: string[];
+}
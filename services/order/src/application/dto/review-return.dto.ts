@@ -0,0 +1,18 @@
+import { IsIn, IsOptional, IsString, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class ReviewReturnDto {
+  @ApiProperty({ enum: ['approve', 'reject'], example: 'approve' })
+  @IsIn(['approve', 'reject'])
+  decision: 'approve' | 'reject';
+
+  @ApiProperty({
+    example: 'Item unused, label attached',
+    description: 'Shown to the customer in the return history',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  @MaxLength(500)
+  note?: string;
+}
@@ -0,0 +1,44 @@
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsInt,
+  IsObject,
+  IsOptional,
+  IsString,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+import { ShippingAddressDto } from './create-order.dto';
+
+class ShippingQuoteItemDto {
+  @ApiProperty({ example: 'SKU123' })
+  @IsString()
+  sku: string;
+
+  @ApiProperty({ example: 2 })
+  @IsInt()
+  @Min(1)
+  quantity: number;
+}
+
+export class ShippingQuoteDto {
+  @ApiProperty({ type: [ShippingQuoteItemDto] })
+  @IsArray()
+  @ArrayNotEmpty()
+  @ValidateNested({ each: true })
+  @Type(() => ShippingQuoteItemDto)
+  items: ShippingQuoteItemDto[];
+
+  @ApiProperty({
+    type: ShippingAddressDto,
+    description: 'Destination; only catch-all zones apply without it',
+    required: false,
+  })
+  @IsOptional()
+  @IsObject()
+  @ValidateNested()
+  @Type(() => ShippingAddressDto)
+  shippingAddress?: ShippingAddressDto;
+}
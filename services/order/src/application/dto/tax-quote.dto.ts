@@ -0,0 +1,55 @@
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsInt,
+  IsObject,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+import { ShippingAddressDto } from './create-order.dto';
+
+class TaxQuoteItemDto {
+  @ApiProperty({ example: 'SKU123' })
+  @IsString()
+  sku: string;
+
+  @ApiProperty({ example: 2 })
+  @IsInt()
+  @Min(1)
+  quantity: number;
+}
+
+export class TaxQuoteDto {
+  @ApiProperty({ type: [TaxQuoteItemDto] })
+  @IsArray()
+  @ArrayNotEmpty()
+  @ValidateNested({ each: true })
+  @Type(() => TaxQuoteItemDto)
+  items: TaxQuoteItemDto[];
+
+  @ApiProperty({
+    type: ShippingAddressDto,
+    description: 'Tax jurisdiction; the default rate applies without it',
+    required: false,
+  })
+  @IsOptional()
+  @IsObject()
+  @ValidateNested()
+  @Type(() => ShippingAddressDto)
+  shippingAddress?: ShippingAddressDto;
+
+  @ApiProperty({
+    example: 'SUMMER10',
+    description: 'Promo code; tax is charged on the discounted amount',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  @MaxLength(32)
+  couponCode?: string;
+}
@@ -0,0 +1,40 @@
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsInt,
+  IsString,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+
+class ValidateCouponItemDto {
+  @ApiProperty({ example: 'SKU123' })
+  @IsString()
+  sku: string;
+
+  @ApiProperty({ example: 2 })
+  @IsInt()
+  @Min(1)
+  quantity: number;
+}
+
+export class ValidateCouponDto {
+  @ApiProperty({ example: 'SUMMER10' })
+  @IsString()
+  @MaxLength(32)
+  code: string;
+
+  @ApiProperty({ example: 'user-123', description: 'ID of the buyer' })
+  @IsString()
+  buyerId: string;
+
+  @ApiProperty({ type: [ValidateCouponItemDto] })
+  @IsArray()
+  @ArrayNotEmpty()
+  @ValidateNested({ each: true })
+  @Type(() => ValidateCouponItemDto)
+  items: ValidateCouponItemDto[];
+}
@@ -0,0 +1,93 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+/** What a valid lookup token grants access to */
+export interface OrderLookupClaims {
+  orderId: string;
+  /** Lowercased email the guest checked out with */
+  email: string;
+  expiresAt: Date;
+}
+
+/**
+ * ✅ Order Lookup Tokens
+ *
+ * Signed links that let a guest see their order without an account:
+ * `<base64url JSON {orderId, email, exp}>.<base64url HMAC-SHA256>`.
+ * Holding one also proves the guest received the order confirmation, which
+ * is what allows their orders to be claimed into an account later.
+ */
+@Injectable()
+export class OrderLookupTokenService {
+  private readonly logger = new Logger(OrderLookupTokenService.name);
+  private readonly secret: string;
+  private readonly ttlSeconds: number;
+
+  constructor(config: ConfigService) {
+    const secret = config.get<string>('order.guestCheckout.lookupTokenSecret');
+    if (!secret) {
+      this.logger.warn(
+        '⚠️ ORDER_LOOKUP_TOKEN_SECRET is not set: guest order links stop working when the service restarts',
+      );
+    }
+    this.secret = secret || randomBytes(32).toString('hex');
+    this.ttlSeconds = config.get<number>(
+      'order.guestCheckout.lookupTokenTtlSeconds',
+      180 * 86400,
+    );
+  }
+
+  issue(orderId: string, email: string, now = new Date()): string {
+    const payload = Buffer.from(
+      JSON.stringify({
+        orderId,
+        email: email.trim().toLowerCase(),
+        exp: Math.floor(now.getTime() / 1000) + this.ttlSeconds,
+      }),
+    ).toString('base64url');
+    return `${payload}.${this.sign(payload)}`;
+  }
+
+  /**
+   * Claims of a token signed by this service, or null when it was tampered
+   * with, is malformed or has expired.
+   */
+  verify(token: string, now = new Date()): OrderLookupClaims | null {
+    const [payload, signature, ...rest] = token.split('.');
+    if (!payload || !signature || rest.length) return null;
+
+    const expected = Buffer.from(this.sign(payload));
+    const given = Buffer.from(signature);
+    if (expected.length !== given.length || !timingSafeEqual(expected, given)) {
+      return null;
+    }
+
+    type Payload = { orderId?: unknown; email?: unknown; exp?: unknown };
+    let claims: Payload;
+    try {
+      claims = JSON.parse(
+        Buffer.from(payload, 'base64url').toString('utf8'),
+      ) as Payload;
+    } catch {
+      return null;
+    }
+    if (
+      typeof claims.orderId !== 'string' ||
+      typeof claims.email !== 'string' ||
+      typeof claims.exp !== 'number'
+    ) {
+      return null;
+    }
+
+    const expiresAt = new Date(claims.exp * 1000);
+    if (expiresAt <= now) return null;
+    return { orderId: claims.orderId, email: claims.email, expiresAt };
+  }
+
+  private sign(payload: string): string {
+    return createHmac('sha256', this.secret)
+      .update(payload)
+      .digest('base64url');
+  }
+}
@@ -0,0 +1,259 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  HttpException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  ORDER_REPOSITORY,
+  OrderRepositoryInterface,
+} from '../../domain/interfaces/order-repository.interface';
+import {
+  COUPON_REPOSITORY,
+  CouponRepositoryInterface,
+} from '../../domain/interfaces/coupon-repository.interface';
+import {
+  PRODUCT_CATALOG,
+  ProductCatalogInterface,
+} from '../../domain/interfaces/product-catalog.interface';
+import { Order, ShippingAddress } from '../../domain/entities/order.entity';
+import { AmendmentNotAllowedError } from '../../domain/entities/order-amendment.entity';
+import { CouponRejectedError } from '../../domain/entities/coupon.entity';
+import { ShippingMethodUnavailableError } from '../../domain/services/shipping.service';
+import { CatalogLine } from '../../domain/factories/order.factory';
+import { OrderAmendmentFactory } from '../../domain/factories/order-amendment.factory';
+import { OrderProducer } from '../../infrastructure/events/order.producer';
+import { OrderMapper } from '../../infrastructure/mappers/order.mapper';
+import {
+  AmendmentNotAllowedException,
+  InactiveProductException,
+  InvalidCouponException,
+  ShippingMethodUnavailableException,
+  UnknownProductException,
+} from '../../infrastructure/exceptions/order.exceptions';
+import { AuthenticatedUser } from '../../shared/guards/session-auth.guard';
+import { AmendOrderDto } from '../dto/amend-order.dto';
+
+/**
+ * ✅ Amend Order Use Case
+ *
+ * Lets the buyer or support change the shipping address and the lines of
+ * an order that is still pending or processing, until a checkout is opened
+ * for its total (the payment service announces it with
+ * payment.checkout_started). The order is priced again
+ * (current catalog prices, tax for the address, shipping, coupon) and the
+ * change is kept in its amendment history with the previous values.
+ *
+ * order.amended is recorded with the change, and inventory reserves the
+ * added units (all or none) and releases the removed ones. When the extra
+ * units cannot be reserved, inventory answers inventory.amendment_failed and
+ * `revert` restores the previous lines and address as a new amendment.
+ *
+ * Events:
+ * - order.amended
+ */
+@Injectable()
+export class AmendOrderUseCase {
+  private readonly logger = new Logger(AmendOrderUseCase.name);
+
+  constructor(
+    @Inject(ORDER_REPOSITORY)
+    private readonly orderRepository: OrderRepositoryInterface,
+
+    @Inject(PRODUCT_CATALOG)
+    private readonly catalog: ProductCatalogInterface,
+
+    @Inject(COUPON_REPOSITORY)
+    private readonly coupons: CouponRepositoryInterface,
+
+    private readonly factory: OrderAmendmentFactory,
+    private readonly producer: OrderProducer,
+    private readonly mapper: OrderMapper,
+  ) {}
+
+  /**
+   * @param user - The buyer or an admin
+   * @returns Amended order response
+   * @throws BadRequestException if neither items nor an address are given
+   * @throws NotFoundException if order doesn't exist
+   * @throws ForbiddenException if the caller is neither the buyer nor an admin
+   * @throws AmendmentNotAllowedException if the order can no longer be changed
+   * @throws UnknownProductException / InactiveProductException for added units
+   * @throws InvalidCouponException if the order's coupon no longer applies
+   * @throws ShippingMethodUnavailableException if the method is not offered any more
+   * @throws ConflictException if the order changed meanwhile
+   */
+  async execute(id: string, dto: AmendOrderDto, user: AuthenticatedUser) {
+    if (!dto.items?.length && !dto.shippingAddress) {
+      throw new BadRequestException(
+        'Provide the items and/or the shipping address to change',
+      );
+    }
+
+    const order = await this.orderRepository.findById(id);
+    if (!order) {
+      throw new NotFoundException(`Order with ID ${id} not found`);
+    }
+
+    if (order.buyerId !== user.userId && !user.roles.includes('admin')) {
+      this.logger.warn(
+        `🚫 User ${user.userId} tried to amend order ${id} owned by ${order.buyerId}`,
+      );
+      throw new ForbiddenException('You can only change your own orders');
+    }
+
+    const saved = await this.amend(
+      order,
+      dto.items ?? [],
+      dto.shippingAddress,
+      user.userId,
+      dto.reason,
+    );
+    return this.mapper.toResponse(saved);
+  }
+
+  /**
+   * Undo amendment `number` because its extra units could not be reserved.
+   * Skipped when the order was amended again or left the amendable
+   * statuses since; the later change decides what inventory holds.
+   */
+  async revert(id: string, number: number, reason: string) {
+    const order = await this.orderRepository.findById(id);
+    const amendment = order?.amendments[order.amendments.length - 1];
+    if (!order || amendment?.number !== number) {
+      this.logger.log(
+        `ℹ️ Amendment #${number} of order ${id} is not the latest, not reverted`,
+      );
+      return null;
+    }
+
+    try {
+      const saved = await this.amend(
+        order,
+        amendment.lines.map((line) => ({
+          sku: line.sku,
+          quantity: line.from,
+        })),
+        amendment.addressChanged
+          ? amendment.previousShippingAddress
+          : undefined,
+        'inventory-service',
+        `Reverted amendment #${number}: ${reason}`,
+        true,
+      );
+      return this.mapper.toResponse(saved);
+    } catch (error) {
+      // Changed meanwhile, shipped, or a product is gone: needs a person
+      if (error instanceof HttpException) {
+        this.logger.warn(
+          `⚠️ Could not revert amendment #${number} of order ${id}: ${error.message}`,
+        );
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * @param restoring - Lines come back from an earlier version of the
+   *   order, so products deactivated since are accepted
+   */
+  private async amend(
+    order: Order,
+    changes: { sku: string; quantity: number }[],
+    shippingAddress: ShippingAddress | undefined,
+    changedBy: string,
+    reason?: string,
+    restoring = false,
+  ): Promise<Order> {
+    try {
+      this.factory.assertAmendable(order);
+      const lines = this.factory.linesAfter(order, changes);
+      const items = await this.priceLines(order, lines, restoring);
+      const coupon = order.couponCode
+        ? ((await this.coupons.findByCode(order.couponCode)) ?? undefined)
+        : undefined;
+
+      const { order: amended, amendment } = this.factory.amend(order, {
+        items,
+        shippingAddress,
+        coupon,
+        changedBy,
+        reason,
+      });
+
+      // order.amended is recorded in the same transaction as the change
+      const saved = await this.orderRepository.amend(
+        order,
+        amended,
+        (updated) => [this.producer.orderAmended(updated, amendment)],
+      );
+      if (!saved) {
+        throw new ConflictException({
+          success: false,
+          message: `Order ${order.id} was modified concurrently, please retry`,
+        });
+      }
+
+      this.logger.log(
+        `✏️ Order ${order.id} amended (#${amendment.number}) by ${changedBy}: total ${amendment.previousTotal} → ${amendment.total}`,
+      );
+      return saved;
+    } catch (error) {
+      if (error instanceof AmendmentNotAllowedError) {
+        throw new AmendmentNotAllowedException(error);
+      }
+      if (error instanceof CouponRejectedError) {
+        throw new InvalidCouponException(error);
+      }
+      if (error instanceof ShippingMethodUnavailableError) {
+        throw new ShippingMethodUnavailableException(error);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Price every line of the amended order from the catalog. Units added to
+   * the order must be of known, active products.
+   */
+  private async priceLines(
+    order: Order,
+    lines: { sku: string; quantity: number }[],
+    restoring: boolean,
+  ): Promise<CatalogLine[]> {
+    const products = await Promise.all(
+      lines.map((line) => this.catalog.findBySku(line.sku)),
+    );
+
+    const unknown = lines.filter((_, i) => !products[i]).map((l) => l.sku);
+    if (unknown.length) throw new UnknownProductException(unknown);
+
+    const ordered = new Map(order.items.map((i) => [i.sku, i.quantity]));
+    const inactive = lines
+      .filter(
+        (line, i) =>
+          !restoring &&
+          !products[i]!.isActive &&
+          line.quantity > (ordered.get(line.sku) ?? 0),
+      )
+      .map((line) => line.sku);
+    if (inactive.length) throw new InactiveProductException(inactive);
+
+    return lines.map((line, i) => {
+      const product = products[i]!;
+      return {
+        sku: product.sku,
+        name: product.name,
+        unitPrice: product.price,
+        quantity: line.quantity,
+        category: product.category,
+        weight: product.weight,
+      };
+    });
+  }
+}
@@ -0,0 +1,91 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import {
+  ORDER_REPOSITORY,
+  OrderRepositoryInterface,
+} from '../../domain/interfaces/order-repository.interface';
+import { LineAllocation, Order } from '../../domain/entities/order.entity';
+import { OrderProducer } from '../../infrastructure/events/order.producer';
+
+/** Allocation of one SKU of an order, as reported by the inventory service */
+export interface AllocationUpdate {
+  sku: string;
+  /** Units still waiting for stock */
+  backordered: number;
+  preorder?: boolean;
+  releaseDate?: string;
+}
+
+/**
+ * The line allocations `updates` describe, per SKU of `order` (SKUs that
+ * are not in the order are ignored).
+ */
+export function allocationsFor(
+  order: Order,
+  updates: AllocationUpdate[] = [],
+): Record<string, LineAllocation> {
+  const allocations: Record<string, LineAllocation> = {};
+  for (const update of updates) {
+    if (!order.items.some((i) => i.sku === update.sku)) continue;
+    allocations[update.sku] =
+      update.backordered > 0
+        ? {
+            status: update.preorder ? 'preordered' : 'backordered',
+            backordered: update.backordered,
+            ...(update.preorder &&
+              update.releaseDate && {
+                releaseDate: new Date(update.releaseDate),
+              }),
+          }
+        : { status: 'allocated', backordered: 0 };
+  }
+  return allocations;
+}
+
+/**
+ * ✅ Apply Allocation Use Case
+ *
+ * Records how the inventory service covers an order's lines after it
+ * changed: back-ordered or pre-ordered units were allocated when stock was
+ * received, or an amendment back-ordered more. Emits
+ * order.allocation_changed so the buyer sees the line states update.
+ * Cancelled orders are left alone.
+ */
+@Injectable()
+export class ApplyAllocationUseCase {
+  private readonly logger = new Logger(ApplyAllocationUseCase.name);
+
+  constructor(
+    @Inject(ORDER_REPOSITORY)
+    private readonly orderRepository: OrderRepositoryInterface,
+    private readonly producer: OrderProducer,
+  ) {}
+
+  async execute(orderId: string, updates: AllocationUpdate[]) {
+    const order = await this.orderRepository.findById(orderId);
+    if (!order) {
+      this.logger.warn(`⚠️ Allocation update for unknown order ${orderId}`);
+      return null;
+    }
+    if (order.status === 'cancelled') {
+      this.logger.log(
+        `ℹ️ Ignoring allocation update for cancelled order ${order.id}`,
+      );
+      return null;
+    }
+
+    const allocations = allocationsFor(order, updates);
+    if (!Object.keys(allocations).length) return order;
+
+    const updated = await this.orderRepository.updateAllocations(
+      order.id,
+      allocations,
+      (saved) => [this.producer.orderAllocationChanged(saved)],
+    );
+    this.logger.log(
+      `📦 Order ${order.id} allocation updated: ${Object.entries(allocations)
+        .map(([sku, a]) => `${sku} ${a.status}`)
+        .join(', ')}`,
+    );
+    return updated;
+  }
+}
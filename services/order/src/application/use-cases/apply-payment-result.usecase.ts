@@ -0,0 +1,150 @@
+import { ConflictException, Inject, Injectable, Logger } from '@nestjs/common';
+import {
+  ORDER_REPOSITORY,
+  OrderRepositoryInterface,
+} from '../../domain/interfaces/order-repository.interface';
+import { Order, UNPAID_STATUSES } from '../../domain/entities/order.entity';
+import { Money } from '../../domain/value-objects/order-vo';
+import { UpdateOrderStatusUseCase } from './update-order-status.usecase';
+
+export interface PaymentResult {
+  orderId: string;
+  outcome: 'succeeded' | 'failed' | 'expired';
+  /** Amount paid, in minor units */
+  amount?: number;
+  currency?: string;
+  /** Payment provider, e.g. stripe */
+  provider?: string;
+  /** The provider's payment (or checkout session) ID */
+  providerReference?: string;
+  reason?: string;
+}
+
+/** How often a result is re-applied when the order changes meanwhile */
+const MAX_ATTEMPTS = 3;
+
+/**
+ * ✅ Apply Payment Result Use Case
+ *
+ * Reacts to the payment service's checkout outcome for an unpaid order:
+ * - payment.succeeded → paid, but only when the amount and currency paid
+ *   match the order total; otherwise the order stays unpaid and the
+ *   payment is recorded on it as unapplied, to be refunded
+ * - payment.failed / payment.expired → cancelled, with the reason in the
+ *   history (order.cancelled releases the stock)
+ *
+ * Results for orders that are no longer unpaid (paid already, cancelled,
+ * redelivered events) are ignored, except a payment for a cancelled order,
+ * which is recorded as unapplied too. When the order changes while the result
+ * is applied (e.g. stock reserved at the same time), it is read again and
+ * the result re-applied; if it keeps changing the error is rethrown so the
+ * event is redelivered.
+ */
+@Injectable()
+export class ApplyPaymentResultUseCase {
+  private readonly logger = new Logger(ApplyPaymentResultUseCase.name);
+
+  constructor(
+    @Inject(ORDER_REPOSITORY)
+    private readonly orderRepository: OrderRepositoryInterface,
+    private readonly updateOrderStatus: UpdateOrderStatusUseCase,
+  ) {}
+
+  async execute(result: PaymentResult) {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.apply(result);
+      } catch (error) {
+        // Someone else moved the order in the meantime
+        if (!(error instanceof ConflictException) || attempt >= MAX_ATTEMPTS) {
+          throw error;
+        }
+        this.logger.log(
+          `ℹ️ Order ${result.orderId} changed concurrently, re-applying payment result (attempt ${attempt})`,
+        );
+      }
+    }
+  }
+
+  private async apply(result: PaymentResult) {
+    const order = await this.orderRepository.findById(result.orderId);
+    if (!order) {
+      this.logger.warn(`⚠️ Payment result for unknown order ${result.orderId}`);
+      return null;
+    }
+
+    if (!UNPAID_STATUSES.includes(order.status)) {
+      const log = `payment ${result.outcome} for order ${order.id} (already ${order.status})`;
+      if (result.outcome === 'succeeded' && order.status === 'cancelled') {
+        this.logger.error(`🚨 Ignoring ${log}: the payment needs a refund`);
+        await this.recordUnapplied(
+          order,
+          result,
+          'Paid after the order was cancelled',
+        );
+      } else {
+        this.logger.log(`ℹ️ Ignoring ${log}`);
+      }
+      return null;
+    }
+
+    const provider = result.provider || 'payment provider';
+    if (result.outcome === 'succeeded') {
+      const expected = order.chargeAmount();
+      const paid = this.paidAmount(result);
+      if (!paid?.equals(expected)) {
+        this.logger.error(
+          `🚨 Order ${order.id} not marked paid: ${result.amount} ${result.currency} paid via ${provider} (${result.providerReference}), expected ${expected.amount} ${expected.currency}`,
+        );
+        await this.recordUnapplied(
+          order,
+          result,
+          `Paid ${paid?.toString() ?? 'an unknown amount'}, expected ${expected.toString()}`,
+        );
+        return null;
+      }
+
+      this.logger.log(`💳 Payment received for order ${order.id}`);
+      return await this.updateOrderStatus.execute(
+        order.id,
+        'paid',
+        'payment-service',
+        `Paid ${expected.toString()} via ${provider} (${result.providerReference})`,
+      );
+    }
+
+    this.logger.warn(
+      `🛑 Payment ${result.outcome} for order ${order.id}: ${result.reason}`,
+    );
+    return await this.updateOrderStatus.execute(
+      order.id,
+      'cancelled',
+      'payment-service',
+      result.outcome === 'expired'
+        ? 'Checkout expired before payment'
+        : `Payment failed: ${result.reason || 'unknown reason'}`,
+    );
+  }
+
+  /** The amount paid, or null when the provider reported none usable */
+  private paidAmount({ amount, currency }: PaymentResult): Money | null {
+    return Number.isInteger(amount) && amount! >= 0 && currency
+      ? new Money(amount!, currency)
+      : null;
+  }
+
+  /** Keep a payment that cannot be applied on the order, for a refund */
+  private async recordUnapplied(
+    order: Order,
+    result: PaymentResult,
+    reason: string,
+  ) {
+    await this.orderRepository.addUnappliedPayment(order.id, {
+      amount: this.paidAmount(result) ?? undefined,
+      provider: result.provider,
+      reference: result.providerReference,
+      reason,
+      receivedAt: new Date(),
+    });
+  }
+}
@@ -0,0 +1,115 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import {
+  ORDER_REPOSITORY,
+  OrderRepositoryInterface,
+} from '../../domain/interfaces/order-repository.interface';
+import {
+  OrderStatus,
+  StatusHistoryEntry,
+} from '../../domain/entities/order.entity';
+import { Money } from '../../domain/value-objects/order-vo';
+import { OrderProducer } from '../../infrastructure/events/order.producer';
+
+/** A refund issued in the payment service, as published on payment.refunded */
+export interface RefundResult {
+  orderId: string;
+  refundId?: string;
+  /** This refund, in minor units */
+  amount: number;
+  /** Everything refunded on the payment so far, in minor units */
+  refundedAmount: number;
+  currency: string;
+  /** Payment provider, e.g. stripe */
+  provider?: string;
+  reason?: string;
+}
+
+/** How often a refund is re-applied when the order changes meanwhile */
+const MAX_ATTEMPTS = 3;
+
+/**
+ * ✅ Apply Refund Use Case
+ *
+ * Records a refund issued in the payment service on its order: the
+ * refunded total is raised to the payment's running total, and the order
+ * moves to refunded once it covers the order total, or to
+ * partially_refunded before that. Orders that cannot take the status
+ * (cancelled after payment, say) only get the amount.
+ *
+ * The payment's running total is used rather than adding each refund up,
+ * so redelivered or reordered events never count a refund twice.
+ */
+@Injectable()
+export class ApplyRefundUseCase {
+  private readonly logger = new Logger(ApplyRefundUseCase.name);
+
+  constructor(
+    @Inject(ORDER_REPOSITORY)
+    private readonly orderRepository: OrderRepositoryInterface,
+    private readonly producer: OrderProducer,
+  ) {}
+
+  async execute(result: RefundResult) {
+    for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+      const order = await this.orderRepository.findById(result.orderId);
+      if (!order) {
+        this.logger.warn(`⚠️ Refund for unknown order ${result.orderId}`);
+        return null;
+      }
+
+      const charged = order.chargeAmount();
+      if (result.currency?.toUpperCase() !== charged.currency) {
+        this.logger.error(
+          `🚨 Refund ${result.refundId} of order ${order.id} is in ${result.currency}, the order in ${charged.currency}`,
+        );
+        return null;
+      }
+
+      const refunded = new Money(result.refundedAmount, result.currency);
+      if (refunded.amount <= order.refundedAmount.amount) {
+        this.logger.log(
+          `ℹ️ Refund ${result.refundId} already recorded on order ${order.id}`,
+        );
+        return order;
+      }
+
+      const next: OrderStatus =
+        refunded.amount >= charged.amount ? 'refunded' : 'partially_refunded';
+      const entry: StatusHistoryEntry | undefined =
+        next !== order.status && order.canTransitionTo(next)
+          ? {
+              from: order.status,
+              to: next,
+              changedBy: 'payment-service',
+              reason: `Refunded ${new Money(result.amount, result.currency).toString()} via ${result.provider || 'payment provider'} (${result.refundId})${result.reason ? `: ${result.reason}` : ''}`,
+              changedAt: new Date(),
+            }
+          : undefined;
+
+      const updated = await this.orderRepository.recordRefund(
+        order,
+        refunded,
+        entry,
+        (saved) => [
+          entry
+            ? this.producer.statusChanged(saved)
+            : this.producer.orderUpdated(saved),
+        ],
+      );
+      if (updated) {
+        this.logger.log(
+          `💸 Order ${order.id} refunded ${refunded.toString()} in total (${updated.status})`,
+        );
+        return updated;
+      }
+      this.logger.log(
+        `ℹ️ Order ${order.id} changed while recording refund ${result.refundId} (attempt ${attempt})`,
+      );
+    }
+
+    this.logger.error(
+      `🚨 Could not record refund ${result.refundId} on order ${result.orderId}`,
+    );
+    return null;
+  }
+}
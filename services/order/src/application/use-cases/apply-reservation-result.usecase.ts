@@ -0,0 +1,102 @@
+import { ConflictException, Inject, Injectable, Logger } from '@nestjs/common';
+import {
+  ORDER_REPOSITORY,
+  OrderRepositoryInterface,
+} from '../../domain/interfaces/order-repository.interface';
+import { UpdateOrderStatusUseCase } from './update-order-status.usecase';
+import { AllocationUpdate, allocationsFor } from './apply-allocation.usecase';
+
+export interface ReservationResult {
+  orderId: string;
+  reserved: boolean;
+  reason?: string;
+  /** Per SKU, the units back-ordered or pre-ordered instead of reserved */
+  items?: AllocationUpdate[];
+}
+
+/** How often a result is re-applied when the order changes meanwhile */
+const MAX_ATTEMPTS = 3;
+
+/**
+ * ✅ Apply Reservation Result Use Case (order saga)
+ *
+ * Reacts to the inventory service's answer for a pending order:
+ * - all items reserved (or back-ordered / pre-ordered) → processing, with
+ *   each line's allocation recorded
+ * - reservation failed → cancelled, with the inventory reason in the history
+ *
+ * Results for orders that already left `pending` (cancelled by the buyer,
+ * timed out, redelivered events) are ignored. When the order changes while
+ * the result is applied, it is read again and the result re-applied; if it
+ * keeps changing the error is rethrown so the event is redelivered.
+ */
+@Injectable()
+export class ApplyReservationResultUseCase {
+  private readonly logger = new Logger(ApplyReservationResultUseCase.name);
+
+  constructor(
+    @Inject(ORDER_REPOSITORY)
+    private readonly orderRepository: OrderRepositoryInterface,
+    private readonly updateOrderStatus: UpdateOrderStatusUseCase,
+  ) {}
+
+  async execute(result: ReservationResult) {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.apply(result);
+      } catch (error) {
+        // Someone else moved the order in the meantime
+        if (!(error instanceof ConflictException) || attempt >= MAX_ATTEMPTS) {
+          throw error;
+        }
+        this.logger.log(
+          `ℹ️ Order ${result.orderId} changed concurrently, re-applying reservation result (attempt ${attempt})`,
+        );
+      }
+    }
+  }
+
+  private async apply(result: ReservationResult) {
+    const order = await this.orderRepository.findById(result.orderId);
+    if (!order) {
+      this.logger.warn(
+        `⚠️ Reservation result for unknown order ${result.orderId}`,
+      );
+      return null;
+    }
+
+    if (order.status !== 'pending') {
+      this.logger.log(
+        `ℹ️ Ignoring reservation result for order ${order.id} (already ${order.status})`,
+      );
+      return null;
+    }
+
+    if (result.reserved) {
+      const allocations = allocationsFor(order, result.items);
+      if (Object.keys(allocations).length) {
+        await this.orderRepository.updateAllocations(order.id, allocations);
+      }
+      const waiting = Object.values(allocations).some((a) => a.backordered > 0);
+      this.logger.log(`✅ Stock reserved for order ${order.id}, confirming`);
+      return await this.updateOrderStatus.execute(
+        order.id,
+        'processing',
+        'inventory-service',
+        waiting
+          ? 'Items reserved, some waiting for stock'
+          : 'All items reserved',
+      );
+    }
+
+    this.logger.warn(
+      `🛑 Stock reservation failed for order ${order.id}: ${result.reason}`,
+    );
+    return await this.updateOrderStatus.execute(
+      order.id,
+      'cancelled',
+      'inventory-service',
+      `Stock reservation failed: ${result.reason || 'unknown reason'}`,
+    );
+  }
+}
@@ -0,0 +1,64 @@
+import {
+  ConflictException,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  ORDER_REPOSITORY,
+  OrderRepositoryInterface,
+} from '../../domain/interfaces/order-repository.interface';
+import { UpdateOrderStatusUseCase } from './update-order-status.usecase';
+
+/**
+ * ✅ Cancel Order Use Case (customer)
+ *
+ * Lets a buyer cancel their own order before it ships. The change goes
+ * through the regular status path, so the transition table is enforced,
+ * the reason lands in statusHistory and order.cancelled is emitted
+ * (inventory releases the reserved stock).
+ */
+@Injectable()
+export class CancelOrderUseCase {
+  private readonly logger = new Logger(CancelOrderUseCase.name);
+
+  constructor(
+    @Inject(ORDER_REPOSITORY)
+    private readonly orderRepository: OrderRepositoryInterface,
+    private readonly updateOrderStatus: UpdateOrderStatusUseCase,
+  ) {}
+
+  /**
+   * @param id - Order ID
+   * @param userId - Authenticated caller
+   * @param reason - Cancellation reason recorded in the status history
+   * @throws NotFoundException if order doesn't exist
+   * @throws ForbiddenException if the caller is not the buyer
+   * @throws ConflictException if the order can no longer be cancelled
+   */
+  async execute(id: string, userId: string, reason: string) {
+    const order = await this.orderRepository.findById(id);
+    if (!order) {
+      throw new NotFoundException(`Order with ID ${id} not found`);
+    }
+
+    if (order.buyerId !== userId) {
+      this.logger.warn(
+        `🚫 User ${userId} tried to cancel order ${id} owned by ${order.buyerId}`,
+      );
+      throw new ForbiddenException('You can only cancel your own orders');
+    }
+
+    if (!order.canTransitionTo('cancelled')) {
+      throw new ConflictException({
+        success: false,
+        message: `Order is already ${order.status} and can no longer be cancelled`,
+      });
+    }
+
+    this.logger.log(`🛑 Buyer ${userId} cancelling order ${id}: ${reason}`);
+    return this.updateOrderStatus.execute(id, 'cancelled', userId, reason);
+  }
+}
@@ -0,0 +1,60 @@
+import { ConflictException, Inject, Injectable, Logger } from '@nestjs/common';
+import {
+  ORDER_REPOSITORY,
+  OrderRepositoryInterface,
+} from '../../domain/interfaces/order-repository.interface';
+import { UpdateOrderStatusUseCase } from './update-order-status.usecase';
+
+const BATCH_SIZE = 100;
+
+/**
+ * ✅ Cancel Unreserved Orders Use Case (order saga timeout)
+ *
+ * Cancels orders still `pending` (no reservation result from inventory)
+ * that were created before the cutoff. The cancellation releases anything
+ * inventory may have reserved in the meantime.
+ */
+@Injectable()
+export class CancelUnreservedOrdersUseCase {
+  private readonly logger = new Logger(CancelUnreservedOrdersUseCase.name);
+
+  constructor(
+    @Inject(ORDER_REPOSITORY)
+    private readonly orderRepository: OrderRepositoryInterface,
+    private readonly updateOrderStatus: UpdateOrderStatusUseCase,
+  ) {}
+
+  /**
+   * @param createdBefore - Orders pending since before this date are cancelled
+   * @returns Number of orders cancelled
+   */
+  async execute(createdBefore: Date): Promise<number> {
+    const stale = await this.orderRepository.findAll(
+      { status: 'pending', createdTo: createdBefore },
+      { page: 1, limit: BATCH_SIZE, sortBy: 'createdAt', sortOrder: 'asc' },
+    );
+
+    let cancelled = 0;
+    for (const order of stale) {
+      try {
+        await this.updateOrderStatus.execute(
+          order.id,
+          'cancelled',
+          'system',
+          'Stock reservation timed out',
+        );
+        cancelled++;
+      } catch (error) {
+        // The reservation result (or the buyer) got there first
+        if (!(error instanceof ConflictException)) throw error;
+      }
+    }
+
+    if (cancelled) {
+      this.logger.warn(
+        `⏱️ Cancelled ${cancelled} order(s) with no reservation result`,
+      );
+    }
+    return cancelled;
+  }
+}
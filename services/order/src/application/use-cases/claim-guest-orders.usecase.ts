@@ -0,0 +1,73 @@
+import {
+  ForbiddenException,
+  Inject,
+  Injectable,
+  Logger,
+  UnauthorizedException,
+} from '@nestjs/common';
+import {
+  ORDER_REPOSITORY,
+  OrderRepositoryInterface,
+} from '../../domain/interfaces/order-repository.interface';
+import { guestBuyerId } from '../../domain/entities/order.entity';
+import { OrderProducer } from '../../infrastructure/events/order.producer';
+import { OrderMapper } from '../../infrastructure/mappers/order.mapper';
+import { AuthenticatedUser } from '../../shared/guards/session-auth.guard';
+import { OrderLookupTokenService } from '../services/order-lookup-token.service';
+
+/**
+ * ✅ Claim Guest Orders Use Case
+ *
+ * Moves the orders a guest placed into their new account. Accounts do not
+ * verify their email, so the account email alone is not enough: the caller
+ * must also present a lookup token issued for that email, which only the
+ * guest who checked out received. All guest orders of the email are then
+ * claimed, not only the ones the tokens were issued for.
+ *
+ * Events:
+ * - order.claimed (per order)
+ */
+@Injectable()
+export class ClaimGuestOrdersUseCase {
+  private readonly logger = new Logger(ClaimGuestOrdersUseCase.name);
+
+  constructor(
+    @Inject(ORDER_REPOSITORY)
+    private readonly repo: OrderRepositoryInterface,
+    private readonly lookupTokens: OrderLookupTokenService,
+    private readonly producer: OrderProducer,
+    private readonly mapper: OrderMapper,
+  ) {}
+
+  /**
+   * @throws UnauthorizedException if none of the tokens is valid
+   * @throws ForbiddenException if a token was issued for another email
+   */
+  async execute(tokens: string[], user: AuthenticatedUser) {
+    const claims = tokens
+      .map((token) => this.lookupTokens.verify(token))
+      .filter((c) => c !== null);
+    if (!claims.length) {
+      throw new UnauthorizedException(
+        'These order links are invalid or have expired',
+      );
+    }
+
+    const email = user.email.trim().toLowerCase();
+    if (claims.some((c) => c.email !== email)) {
+      throw new ForbiddenException(
+        'Only orders placed with your account email can be claimed',
+      );
+    }
+
+    const orders = await this.repo.claimGuestOrders(
+      guestBuyerId(email),
+      user.userId,
+      (order) => [this.producer.orderClaimed(order)],
+    );
+    this.logger.log(
+      `🔗 User ${user.userId} claimed ${orders.length} guest order(s)`,
+    );
+    return orders.map((order) => this.mapper.toResponse(order));
+  }
+}
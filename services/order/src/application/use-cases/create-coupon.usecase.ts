@@ -0,0 +1,70 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Inject,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import { Coupon } from '../../domain/entities/coupon.entity';
+import {
+  COUPON_REPOSITORY,
+  CouponRepositoryInterface,
+} from '../../domain/interfaces/coupon-repository.interface';
+import { CouponMapper } from '../../infrastructure/mappers/coupon.mapper';
+import { CreateCouponDto } from '../dto/create-coupon.dto';
+
+/**
+ * ✅ Create Coupon Use Case (admin)
+ */
+@Injectable()
+export class CreateCouponUseCase {
+  private readonly logger = new Logger(CreateCouponUseCase.name);
+
+  constructor(
+    @Inject(COUPON_REPOSITORY)
+    private readonly coupons: CouponRepositoryInterface,
+    private readonly mapper: CouponMapper,
+  ) {}
+
+  /**
+   * @throws BadRequestException for a percentage above 100 or an empty validity window
+   * @throws ConflictException if the code already exists
+   */
+  async execute(dto: CreateCouponDto) {
+    if (dto.type === 'percentage' && dto.value > 100) {
+      throw new BadRequestException('A percentage discount cannot exceed 100');
+    }
+
+    const startsAt = dto.startsAt ? new Date(dto.startsAt) : undefined;
+    const expiresAt = dto.expiresAt ? new Date(dto.expiresAt) : undefined;
+    if (startsAt && expiresAt && expiresAt <= startsAt) {
+      throw new BadRequestException('expiresAt must be after startsAt');
+    }
+
+    const code = dto.code.toUpperCase();
+    if (await this.coupons.findByCode(code)) {
+      throw new ConflictException(`Coupon ${code} already exists`);
+    }
+
+    const coupon = await this.coupons.create(
+      new Coupon(
+        code,
+        dto.type,
+        dto.value,
+        true,
+        0,
+        dto.minSpend,
+        startsAt,
+        expiresAt,
+        dto.maxRedemptions,
+        dto.maxRedemptionsPerCustomer,
+        dto.skus ?? [],
+        dto.categories ?? [],
+        dto.description,
+      ),
+    );
+
+    this.logger.log(`🎟️ Coupon ${code} created (${dto.type} ${dto.value})`);
+    return this.mapper.toResponse(coupon);
+  }
+}
@@ -1,40 +1,336 @@
-import { Inject, Injectable } from '@nestjs/common';
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import { createHash } from 'crypto';
 import { OrderFactory } from '../../domain/factories/order.factory';
-import { ORDER_REPOSITORY, OrderRepositoryInterface } from '../../domain/interfaces/order-repository.interface';
+import {
+  ORDER_REPOSITORY,
+  OrderRepositoryInterface,
+} from '../../domain/interfaces/order-repository.interface';
+import {
+  COUPON_REPOSITORY,
+  CouponRepositoryInterface,
+} from '../../domain/interfaces/coupon-repository.interface';
+import {
+  Coupon,
+  CouponRejectedError,
+} from '../../domain/entities/coupon.entity';
+import { ShippingMethodUnavailableError } from '../../domain/services/shipping.service';
+import {
+  CurrencyService,
+  UnsupportedCurrencyError,
+} from '../../domain/services/currency.service';
+import { Money } from '../../domain/value-objects/order-vo';
+import { guestBuyerId } from '../../domain/entities/order.entity';
+import {
+  IDEMPOTENCY_STORE,
+  IdempotencyStoreInterface,
+} from '../../domain/interfaces/idempotency-store.interface';
+import {
+  PRODUCT_CATALOG,
+  ProductCatalogInterface,
+} from '../../domain/interfaces/product-catalog.interface';
 import { OrderDomainService } from '../../domain/services/order-domain.service';
 import { OrderProducer } from '../../infrastructure/events/order.producer';
 import { OrderMapper } from '../../infrastructure/mappers/order.mapper';
+import {
+  IdempotencyKeyInProgressException,
+  IdempotencyKeyReusedException,
+  InactiveProductException,
+  InvalidCouponException,
+  ShippingMethodUnavailableException,
+  UnsupportedCurrencyException,
+  PriceChange,
+  PriceChangedException,
+  UnknownProductException,
+} from '../../infrastructure/exceptions/order.exceptions';
 import { CreateOrderDto } from '../dto/create-order.dto';
+import { OrderLookupTokenService } from '../services/order-lookup-token.service';
 
+/** The created order; guest orders also get the token for viewing them */
+export type CreatedOrderResponse = ReturnType<OrderMapper['toResponse']> & {
+  lookupToken?: string;
+};
+
+/**
+ * ✅ Create Order Use Case
+ *
+ * Prices every line from the product catalog instead of trusting the
+ * client: name and unit price come from the product service, unknown or
+ * inactive SKUs are rejected, and a client price that no longer matches
+ * the catalog fails with PRICE_CHANGED so checkout can ask the customer
+ * to review their cart.
+ *
+ * A `couponCode` is checked by the factory and becomes the order's
+ * discount; its redemption is recorded in the same transaction as the
+ * order, so usage limits hold under concurrency (INVALID_COUPON otherwise).
+ * Shipping is priced for the chosen method, which must be offered for the
+ * destination (SHIPPING_METHOD_UNAVAILABLE otherwise).
+ *
+ * With an idempotency key, a retry of the same request replays the
+ * original response instead of creating a second order; reusing the key
+ * for a different body is rejected with IDEMPOTENCY_KEY_REUSED. The key is
+ * released whenever no response could be stored for it, so it is never
+ * left in progress until it expires.
+ *
+ * Guests check out with `guestEmail` instead of `buyerId`. Their orders are
+ * kept under a guest buyer id for that email until claimed into an account,
+ * and the response carries a signed `lookupToken` to view the order with.
+ *
+ * Events:
+ * - order.created
+ */
 @Injectable()
 export class CreateOrderUseCase {
+  private readonly logger = new Logger(CreateOrderUseCase.name);
+
   constructor(
     private readonly factory: OrderFactory,
 
     @Inject(ORDER_REPOSITORY)
     private readonly repo: OrderRepositoryInterface,
 
+    @Inject(PRODUCT_CATALOG)
+    private readonly catalog: ProductCatalogInterface,
+
+    @Inject(IDEMPOTENCY_STORE)
+    private readonly idempotency: IdempotencyStoreInterface,
+
+    @Inject(COUPON_REPOSITORY)
+    private readonly coupons: CouponRepositoryInterface,
+
     private readonly domain: OrderDomainService,
     private readonly producer: OrderProducer,
     private readonly mapper: OrderMapper,
+    private readonly currencies: CurrencyService,
+    private readonly lookupTokens: OrderLookupTokenService,
   ) {}
 
-  async execute(dto: CreateOrderDto) {
-    const order = this.factory.createFrom({
-      buyerId: dto.buyerId,
-      items: dto.items,
-      currency: dto.currency,
-      shippingAddress: dto.shippingAddress,
-      tax: dto.tax, // Pass tax from frontend if provided
-    });
+  async execute(
+    dto: CreateOrderDto,
+    idempotencyKey?: string,
+  ): Promise<CreatedOrderResponse> {
+    const buyerId = this.buyerOf(dto);
+    if (!idempotencyKey) return this.place(dto, buyerId);
+
+    // Keys are per buyer so one customer can never replay another's order
+    const key = `${buyerId}:${idempotencyKey}`;
+    const requestHash = this.hashRequest(dto);
+
+    const claim = await this.idempotency.claim(key, requestHash);
+    if (claim.state !== 'claimed') {
+      if (claim.requestHash !== requestHash) {
+        throw new IdempotencyKeyReusedException();
+      }
+      if (claim.state === 'in_progress') {
+        throw new IdempotencyKeyInProgressException();
+      }
+      return claim.response as CreatedOrderResponse;
+    }
+
+    let response: CreatedOrderResponse;
+    try {
+      response = await this.place(dto, buyerId);
+    } catch (error) {
+      await this.release(key);
+      throw error;
+    }
+
+    try {
+      await this.idempotency.complete(key, requestHash, response);
+    } catch (error) {
+      // The order exists, so it is answered anyway; a retry is no longer
+      // replayed but is not refused as in progress either
+      this.logger.error(
+        `❌ Failed to store the response for idempotency key ${key}: ${(error as Error).message}`,
+      );
+      await this.release(key);
+    }
+    return response;
+  }
+
+  /** Drop a key without hiding the error that made the request end */
+  private async release(key: string): Promise<void> {
+    try {
+      await this.idempotency.release(key);
+    } catch (error) {
+      this.logger.error(
+        `❌ Failed to release idempotency key ${key}: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  /**
+   * The account placing the order, or the guest buyer id for `guestEmail`.
+   */
+  private buyerOf(dto: CreateOrderDto): string {
+    if (dto.buyerId && dto.guestEmail) {
+      throw new BadRequestException(
+        'Set either buyerId or guestEmail, not both',
+      );
+    }
+    if (dto.guestEmail) return guestBuyerId(dto.guestEmail);
+    if (!dto.buyerId) {
+      throw new BadRequestException('buyerId or guestEmail is required');
+    }
+    return dto.buyerId;
+  }
 
-    this.domain.validateOrder(order);
+  private async place(
+    dto: CreateOrderDto,
+    buyerId: string,
+  ): Promise<CreatedOrderResponse> {
+    const currency = this.orderCurrency(dto.currency);
+    const items = await this.priceItems(dto.items, currency);
+    const coupon = dto.couponCode
+      ? await this.findCoupon(dto.couponCode)
+      : undefined;
 
-    const saved = await this.repo.create(order);
+    try {
+      const order = this.factory.createFrom({
+        buyerId,
+        guestEmail: dto.guestEmail?.trim().toLowerCase(),
+        items,
+        currency,
+        shippingAddress: dto.shippingAddress,
+        shippingMethod: dto.shippingMethod,
+        paymentMethod: dto.paymentMethod,
+        coupon,
+        couponRedemptions: coupon
+          ? await this.coupons.countRedemptions(coupon.code, buyerId)
+          : 0,
+      });
+
+      this.domain.validateOrder(order);
+
+      // order.created (and the coupon redemption) are recorded in the same transaction
+      const saved = await this.repo.create(
+        order,
+        (created) => [this.producer.orderCreated(created)],
+        coupon,
+      );
+
+      // Return mapped response with proper field names
+      const response = this.mapper.toResponse(saved);
+      if (!saved.guestEmail) return response;
+      return {
+        ...response,
+        lookupToken: this.lookupTokens.issue(saved.id, saved.guestEmail),
+      };
+    } catch (error) {
+      if (error instanceof CouponRejectedError) {
+        throw new InvalidCouponException(error);
+      }
+      if (error instanceof ShippingMethodUnavailableError) {
+        throw new ShippingMethodUnavailableException(error);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * @throws UnsupportedCurrencyException when there is no exchange rate for it
+   */
+  private orderCurrency(requested?: string): string {
+    const currency = (requested || this.currencies.baseCurrency).toUpperCase();
+    try {
+      this.currencies.rateFor(currency);
+    } catch (error) {
+      if (error instanceof UnsupportedCurrencyError) {
+        throw new UnsupportedCurrencyException(
+          currency,
+          this.currencies.supported().map((c) => c.code),
+        );
+      }
+      throw error;
+    }
+    return currency;
+  }
+
+  private async findCoupon(rawCode: string): Promise<Coupon> {
+    const code = rawCode.trim().toUpperCase();
+    const coupon = await this.coupons.findByCode(code);
+    if (!coupon) {
+      throw new InvalidCouponException(
+        new CouponRejectedError(code, 'NOT_FOUND', 'Invalid promo code'),
+      );
+    }
+    return coupon;
+  }
+
+  /**
+   * SHA-256 of the body with object keys sorted, so the same request
+   * hashes the same regardless of property order.
+   */
+  private hashRequest(dto: CreateOrderDto): string {
+    const canonical = (value: unknown): unknown => {
+      if (Array.isArray(value)) return value.map(canonical);
+      if (value && typeof value === 'object') {
+        return Object.keys(value)
+          .sort()
+          .reduce<Record<string, unknown>>((acc, k) => {
+            acc[k] = canonical((value as Record<string, unknown>)[k]);
+            return acc;
+          }, {});
+      }
+      return value;
+    };
+    return createHash('sha256')
+      .update(JSON.stringify(canonical(dto)))
+      .digest('hex');
+  }
+
+  /**
+   * Resolve each requested line against the catalog. Submitted prices are
+   * compared in the order currency, to the minor unit.
+   */
+  private async priceItems(
+    requested: CreateOrderDto['items'],
+    currency: string,
+  ) {
+    const products = await Promise.all(
+      requested.map((item) => this.catalog.findBySku(item.sku)),
+    );
+
+    const unknown = requested
+      .filter((_, i) => !products[i])
+      .map((item) => item.sku);
+    if (unknown.length) throw new UnknownProductException(unknown);
+
+    const inactive = products.filter((p) => !p!.isActive).map((p) => p!.sku);
+    if (inactive.length) throw new InactiveProductException(inactive);
+
+    const changes: PriceChange[] = [];
+    const items = requested.map((item, i) => {
+      const product = products[i]!;
+      const current = this.currencies.fromBase(product.price, currency);
+      if (
+        item.unitPrice !== undefined &&
+        !Money.of(item.unitPrice, currency).equals(current)
+      ) {
+        changes.push({
+          sku: product.sku,
+          name: product.name,
+          submittedPrice: item.unitPrice,
+          currentPrice: current.toMajor(),
+          currentBasePrice: product.price.toMajor(),
+        });
+      }
+      return {
+        sku: product.sku,
+        name: product.name,
+        unitPrice: product.price,
+        quantity: item.quantity,
+        category: product.category,
+        weight: product.weight,
+      };
+    });
 
-    await this.producer.orderCreated(saved);
+    if (changes.length) throw new PriceChangedException(changes);
 
-    // Return mapped response with proper field names
-    return this.mapper.toResponse(saved);
+    return items;
   }
 }
@@ -0,0 +1,96 @@
+import {
+  ConflictException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  OrderRepositoryInterface,
+  ORDER_REPOSITORY,
+} from '../../domain/interfaces/order-repository.interface';
+import { StatusHistoryEntry } from '../../domain/entities/order.entity';
+import {
+  Shipment,
+  ShipmentNotAllowedError,
+} from '../../domain/entities/shipment.entity';
+import { ShipmentFactory } from '../../domain/factories/shipment.factory';
+import { OrderMapper } from '../../infrastructure/mappers/order.mapper';
+import { OrderProducer } from '../../infrastructure/events/order.producer';
+import { ShipmentNotAllowedException } from '../../infrastructure/exceptions/order.exceptions';
+import { CreateShipmentDto } from '../dto/create-shipment.dto';
+
+/**
+ * ✅ Create Shipment Use Case (admin)
+ *
+ * Ships some or all of an order's remaining units with a carrier and
+ * tracking number. The order moves to partially_shipped or shipped
+ * accordingly, and order.shipped carries the shipment so the buyer gets
+ * the tracking details in real time.
+ */
+@Injectable()
+export class CreateShipmentUseCase {
+  private readonly logger = new Logger(CreateShipmentUseCase.name);
+
+  constructor(
+    @Inject(ORDER_REPOSITORY)
+    private readonly orderRepository: OrderRepositoryInterface,
+    private readonly factory: ShipmentFactory,
+    private readonly mapper: OrderMapper,
+    private readonly producer: OrderProducer,
+  ) {}
+
+  /**
+   * @param changedBy - Admin creating the shipment
+   * @returns Updated order response, with its shipments
+   * @throws NotFoundException if order doesn't exist
+   * @throws ShipmentNotAllowedException if the order or items cannot be shipped
+   * @throws ConflictException if the order changed meanwhile
+   */
+  async execute(id: string, dto: CreateShipmentDto, changedBy: string) {
+    const order = await this.orderRepository.findById(id);
+    if (!order) {
+      throw new NotFoundException(`Order with ID ${id} not found`);
+    }
+
+    let shipment: Shipment;
+    try {
+      shipment = this.factory.createFor(order, dto);
+    } catch (error) {
+      if (error instanceof ShipmentNotAllowedError) {
+        throw new ShipmentNotAllowedException(error);
+      }
+      throw error;
+    }
+
+    const next = order.fulfillmentStatus([...order.shipments, shipment]);
+    const entry: StatusHistoryEntry | undefined =
+      next !== order.status
+        ? {
+            from: order.status,
+            to: next,
+            changedBy,
+            reason: `Shipment ${shipment.trackingNumber} via ${shipment.carrier}`,
+            changedAt: shipment.shippedAt,
+          }
+        : undefined;
+
+    const updated = await this.orderRepository.addShipment(
+      order,
+      shipment,
+      entry,
+      (saved) => [this.producer.orderShipped(saved, shipment)],
+    );
+    if (!updated) {
+      throw new ConflictException({
+        success: false,
+        message: `Order ${id} was modified concurrently, please retry`,
+      });
+    }
+
+    this.logger.log(
+      `🚚 Order ${id}: shipment ${shipment.id} (${shipment.carrier} ${shipment.trackingNumber}), order ${updated.status}`,
+    );
+    return this.mapper.toResponse(updated);
+  }
+}
@@ -0,0 +1,108 @@
+import {
+  ConflictException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  OrderRepositoryInterface,
+  ORDER_REPOSITORY,
+} from '../../domain/interfaces/order-repository.interface';
+import { StatusHistoryEntry } from '../../domain/entities/order.entity';
+import { Shipment } from '../../domain/entities/shipment.entity';
+import { OrderMapper } from '../../infrastructure/mappers/order.mapper';
+import { OrderProducer } from '../../infrastructure/events/order.producer';
+
+/**
+ * ✅ Deliver Shipment Use Case (admin)
+ *
+ * Marks one shipment as delivered. Once every unit has shipped and every
+ * shipment is delivered the order becomes delivered and order.delivered
+ * triggers the stock deduction; earlier deliveries emit order.updated
+ * with the shipment.
+ */
+@Injectable()
+export class DeliverShipmentUseCase {
+  private readonly logger = new Logger(DeliverShipmentUseCase.name);
+
+  constructor(
+    @Inject(ORDER_REPOSITORY)
+    private readonly orderRepository: OrderRepositoryInterface,
+    private readonly mapper: OrderMapper,
+    private readonly producer: OrderProducer,
+  ) {}
+
+  /**
+   * @returns Updated order response
+   * @throws NotFoundException if the order or shipment doesn't exist
+   * @throws ConflictException if already delivered or changed meanwhile
+   */
+  async execute(id: string, shipmentId: string, changedBy: string) {
+    const order = await this.orderRepository.findById(id);
+    const shipment = order?.shipments.find((s) => s.id === shipmentId);
+    if (!order || !shipment) {
+      throw new NotFoundException(
+        `Shipment ${shipmentId} of order ${id} not found`,
+      );
+    }
+    if (shipment.status === 'delivered') {
+      throw new ConflictException({
+        success: false,
+        message: `Shipment ${shipmentId} is already delivered`,
+      });
+    }
+
+    const now = new Date();
+    const shipments = order.shipments.map((s) =>
+      s.id === shipmentId
+        ? new Shipment(
+            s.id,
+            s.items,
+            s.carrier,
+            s.trackingNumber,
+            'delivered',
+            s.shippedAt,
+            now,
+          )
+        : s,
+    );
+    const next = order.fulfillmentStatus(shipments);
+    const entry: StatusHistoryEntry | undefined =
+      next !== order.status
+        ? {
+            from: order.status,
+            to: next,
+            changedBy,
+            reason: `Shipment ${shipment.trackingNumber} delivered`,
+            changedAt: now,
+          }
+        : undefined;
+
+    const updated = await this.orderRepository.updateShipmentStatus(
+      order,
+      shipmentId,
+      'delivered',
+      entry,
+      (saved) => [
+        saved.status === 'delivered'
+          ? this.producer.statusChanged(saved)
+          : this.producer.shipmentDelivered(
+              saved,
+              saved.shipments.find((s) => s.id === shipmentId)!,
+            ),
+      ],
+    );
+    if (!updated) {
+      throw new ConflictException({
+        success: false,
+        message: `Order ${id} was modified concurrently, please retry`,
+      });
+    }
+
+    this.logger.log(
+      `📦 Order ${id}: shipment ${shipmentId} delivered, order ${updated.status}`,
+    );
+    return this.mapper.toResponse(updated);
+  }
+}
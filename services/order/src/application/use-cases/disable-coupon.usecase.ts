@@ -0,0 +1,36 @@
+import { Inject, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import {
+  COUPON_REPOSITORY,
+  CouponRepositoryInterface,
+} from '../../domain/interfaces/coupon-repository.interface';
+import { CouponMapper } from '../../infrastructure/mappers/coupon.mapper';
+
+/**
+ * ✅ Disable Coupon Use Case (admin)
+ *
+ * A disabled coupon is rejected for new orders; existing orders keep
+ * their discount.
+ */
+@Injectable()
+export class DisableCouponUseCase {
+  private readonly logger = new Logger(DisableCouponUseCase.name);
+
+  constructor(
+    @Inject(COUPON_REPOSITORY)
+    private readonly coupons: CouponRepositoryInterface,
+    private readonly mapper: CouponMapper,
+  ) {}
+
+  /**
+   * @throws NotFoundException if the coupon doesn't exist
+   */
+  async execute(code: string) {
+    const coupon = await this.coupons.setActive(code.toUpperCase(), false);
+    if (!coupon) {
+      throw new NotFoundException(`Coupon ${code} not found`);
+    }
+
+    this.logger.log(`🚫 Coupon ${coupon.code} disabled`);
+    return this.mapper.toResponse(coupon);
+  }
+}
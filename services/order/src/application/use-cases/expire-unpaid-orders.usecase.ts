@@ -0,0 +1,71 @@
+import { ConflictException, Inject, Injectable, Logger } from '@nestjs/common';
+import {
+  ORDER_REPOSITORY,
+  OrderRepositoryInterface,
+} from '../../domain/interfaces/order-repository.interface';
+import { UNPAID_STATUSES } from '../../domain/entities/order.entity';
+import { UpdateOrderStatusUseCase } from './update-order-status.usecase';
+
+const BATCH_SIZE = 100;
+
+/**
+ * ✅ Expire Unpaid Orders Use Case
+ *
+ * Cancels orders that are still unpaid once the payment window of their
+ * payment method has passed. Cancelling goes through the regular status
+ * path, so order.cancelled is emitted and inventory releases the stock.
+ */
+@Injectable()
+export class ExpireUnpaidOrdersUseCase {
+  private readonly logger = new Logger(ExpireUnpaidOrdersUseCase.name);
+
+  constructor(
+    @Inject(ORDER_REPOSITORY)
+    private readonly orderRepository: OrderRepositoryInterface,
+    private readonly updateOrderStatus: UpdateOrderStatusUseCase,
+  ) {}
+
+  /**
+   * @param windowsSeconds - Payment window per payment method; methods
+   *   without a window never expire
+   * @param now - Reference time for the windows
+   * @returns Number of orders cancelled
+   */
+  async execute(
+    windowsSeconds: Record<string, number>,
+    now = new Date(),
+  ): Promise<number> {
+    let cancelled = 0;
+
+    for (const [paymentMethod, seconds] of Object.entries(windowsSeconds)) {
+      const createdTo = new Date(now.getTime() - seconds * 1000);
+
+      for (const status of UNPAID_STATUSES) {
+        const expired = await this.orderRepository.findAll(
+          { status, paymentMethod, createdTo },
+          { page: 1, limit: BATCH_SIZE, sortBy: 'createdAt', sortOrder: 'asc' },
+        );
+
+        for (const order of expired) {
+          try {
+            await this.updateOrderStatus.execute(
+              order.id,
+              'cancelled',
+              'system',
+              'Payment not received in time',
+            );
+            cancelled++;
+          } catch (error) {
+            // Paid or cancelled in the meantime
+            if (!(error instanceof ConflictException)) throw error;
+          }
+        }
+      }
+    }
+
+    if (cancelled) {
+      this.logger.warn(`⏱️ Cancelled ${cancelled} unpaid order(s)`);
+    }
+    return cancelled;
+  }
+}
@@ -0,0 +1,87 @@
+import {
+  ForbiddenException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  ORDER_REPOSITORY,
+  OrderRepositoryInterface,
+} from '../../domain/interfaces/order-repository.interface';
+import { InvoiceRenderer } from '../../infrastructure/documents/invoice.renderer';
+import { InvoiceNotAvailableException } from '../../infrastructure/exceptions/order.exceptions';
+import { AuthenticatedUser } from '../../shared/guards/session-auth.guard';
+
+export type InvoiceFormat = 'pdf' | 'html';
+
+export interface InvoiceDocument {
+  filename: string;
+  contentType: string;
+  body: Buffer | string;
+}
+
+/**
+ * ✅ Get Order Invoice Use Case
+ *
+ * Renders the invoice of a paid order for its buyer or an admin. The
+ * number is normally allocated on the paid transition; orders paid before
+ * numbering existed get theirs on first download, and keep it.
+ */
+@Injectable()
+export class GetOrderInvoiceUseCase {
+  private readonly logger = new Logger(GetOrderInvoiceUseCase.name);
+
+  constructor(
+    @Inject(ORDER_REPOSITORY)
+    private readonly orderRepository: OrderRepositoryInterface,
+    private readonly renderer: InvoiceRenderer,
+  ) {}
+
+  /**
+   * @throws NotFoundException if order doesn't exist
+   * @throws ForbiddenException if the caller is neither the buyer nor an admin
+   * @throws InvoiceNotAvailableException if the order has not been paid
+   */
+  async execute(
+    id: string,
+    user: AuthenticatedUser,
+    format: InvoiceFormat,
+  ): Promise<InvoiceDocument> {
+    let order = await this.orderRepository.findById(id);
+    if (!order) {
+      throw new NotFoundException(`Order with ID ${id} not found`);
+    }
+
+    if (order.buyerId !== user.userId && !user.roles.includes('admin')) {
+      this.logger.warn(
+        `🚫 User ${user.userId} tried to read the invoice of order ${id}`,
+      );
+      throw new ForbiddenException('You can only download your own invoices');
+    }
+
+    if (!order.isInvoiceable()) {
+      throw new InvoiceNotAvailableException(order.status);
+    }
+    if (!order.invoiceNumber) {
+      order = await this.orderRepository.assignInvoiceNumber(id);
+      if (!order) throw new InvoiceNotAvailableException('not invoiceable');
+      this.logger.log(
+        `🧾 Assigned invoice ${order.invoiceNumber} to order ${id}`,
+      );
+    }
+
+    const filename = `invoice-${order.invoiceNumber}.${format}`;
+    return format === 'pdf'
+      ? {
+          filename,
+          contentType: 'application/pdf',
+          body: this.renderer.toPdf(order),
+        }
+      : {
+          filename,
+          contentType: 'text/html; charset=utf-8',
+          body: this.renderer.toHtml(order),
+        };
+  }
+}
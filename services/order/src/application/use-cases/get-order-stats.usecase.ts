@@ -0,0 +1,42 @@
+import { Inject, Injectable } from '@nestjs/common';
+import {
+  ORDER_REPOSITORY,
+  OrderRepositoryInterface,
+} from '../../domain/interfaces/order-repository.interface';
+import { ORDER_STATUSES } from '../../domain/entities/order.entity';
+import { CurrencyService } from '../../domain/services/currency.service';
+import { Money } from '../../domain/value-objects/order-vo';
+
+/**
+ * ✅ Get Order Stats Use Case
+ *
+ * Order counts for the admin order list: every order, the orders in each
+ * status and the revenue of delivered orders, in the base currency.
+ * Aggregated in the database, so no order is loaded.
+ */
+@Injectable()
+export class GetOrderStatsUseCase {
+  constructor(
+    @Inject(ORDER_REPOSITORY)
+    private readonly repo: OrderRepositoryInterface,
+    private readonly currencies: CurrencyService,
+  ) {}
+
+  async execute() {
+    const totals = await this.repo.totalsByStatus();
+    const countOf = (status: string) =>
+      totals.find((t) => t.status === status)?.orders ?? 0;
+    const revenue = totals.find((t) => t.status === 'delivered')?.amount ?? 0;
+
+    return {
+      total: totals.reduce((sum, t) => sum + t.orders, 0),
+      ...Object.fromEntries(
+        ORDER_STATUSES.map((status) => [status, countOf(status)]),
+      ),
+      totalRevenue: new Money(
+        Math.round(revenue),
+        this.currencies.baseCurrency,
+      ).toMajor(),
+    };
+  }
+}
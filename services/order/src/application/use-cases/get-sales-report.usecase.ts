@@ -0,0 +1,189 @@
+import { Inject, Injectable } from '@nestjs/common';
+import {
+  AnalyticsFilter,
+  ORDER_ANALYTICS,
+  OrderAnalyticsInterface,
+  ReportInterval,
+} from '../../domain/interfaces/order-analytics.interface';
+import { ORDER_STATUSES } from '../../domain/entities/order.entity';
+import { CurrencyService } from '../../domain/services/currency.service';
+import { Money } from '../../domain/value-objects/order-vo';
+import {
+  AnalyticsQueryDto,
+  RevenueReportQueryDto,
+  TopSkusQueryDto,
+} from '../dto/analytics-query.dto';
+
+const DEFAULT_TOP_SKUS = 10;
+
+/**
+ * ✅ Get Sales Report Use Case
+ *
+ * Revenue and order figures for the admin dashboard. Revenue is what
+ * orders that were not cancelled were charged (after discount, with
+ * shipping and tax); refunds of returns are not subtracted. Amounts are in
+ * the requested currency, or in the base currency across all orders.
+ */
+@Injectable()
+export class GetSalesReportUseCase {
+  constructor(
+    @Inject(ORDER_ANALYTICS)
+    private readonly analytics: OrderAnalyticsInterface,
+    private readonly currencies: CurrencyService,
+  ) {}
+
+  /**
+   * Totals, average order value, orders per status and cancellation rate
+   * (cancelled share of every order placed in the range).
+   */
+  async summary(dto: AnalyticsQueryDto = {}) {
+    const filter = this.toFilter(dto);
+    const currency = this.currencyOf(filter);
+
+    const [periods, counts] = await Promise.all([
+      this.analytics.revenueByPeriod(filter, 'month'),
+      this.analytics.statusCounts(filter),
+    ]);
+
+    const revenue = periods.reduce((sum, p) => sum + p.revenue, 0);
+    const orders = periods.reduce((sum, p) => sum + p.orders, 0);
+    const statuses = ORDER_STATUSES.map((status) => ({
+      status,
+      count: counts.find((c) => c.status === status)?.count ?? 0,
+    }));
+    const placed = statuses.reduce((sum, s) => sum + s.count, 0);
+    const cancelled =
+      statuses.find((s) => s.status === 'cancelled')?.count ?? 0;
+
+    return {
+      currency,
+      revenue: this.round(revenue, currency),
+      orders,
+      averageOrderValue: this.round(orders ? revenue / orders : 0, currency),
+      cancelledOrders: cancelled,
+      cancellationRate: placed ? Number((cancelled / placed).toFixed(4)) : 0,
+      statuses,
+    };
+  }
+
+  /**
+   * Revenue, order count and average order value per day, week (from
+   * Monday) or month, oldest first. Periods without orders are reported
+   * as 0 so charts keep an even time axis.
+   */
+  async revenue(dto: RevenueReportQueryDto = {}) {
+    const filter = this.toFilter(dto);
+    const currency = this.currencyOf(filter);
+    const interval = dto.interval ?? 'day';
+
+    const periods = await this.analytics.revenueByPeriod(filter, interval);
+    const byStart = new Map(periods.map((p) => [p.periodStart.getTime(), p]));
+    const first = filter.createdFrom ?? periods[0]?.periodStart;
+    const last = filter.createdTo ?? periods[periods.length - 1]?.periodStart;
+
+    const series: {
+      period: string;
+      revenue: number;
+      orders: number;
+      averageOrderValue: number;
+    }[] = [];
+    if (first && last) {
+      for (
+        let start = this.periodStart(first, interval);
+        start <= last;
+        start = this.nextPeriod(start, interval)
+      ) {
+        const period = byStart.get(start.getTime());
+        const revenue = period?.revenue ?? 0;
+        const orders = period?.orders ?? 0;
+        series.push({
+          period: start.toISOString().slice(0, 10),
+          revenue: this.round(revenue, currency),
+          orders,
+          averageOrderValue: this.round(
+            orders ? revenue / orders : 0,
+            currency,
+          ),
+        });
+      }
+    }
+
+    return { currency, interval, series };
+  }
+
+  /**
+   * Best-selling SKUs by line revenue or by units.
+   */
+  async topSkus(dto: TopSkusQueryDto = {}) {
+    const filter = this.toFilter(dto);
+    const currency = this.currencyOf(filter);
+    const sortBy = dto.sortBy ?? 'revenue';
+
+    const skus = await this.analytics.topSkus(
+      filter,
+      sortBy,
+      dto.limit ?? DEFAULT_TOP_SKUS,
+    );
+
+    return {
+      currency,
+      sortBy,
+      skus: skus.map((s) => ({
+        ...s,
+        revenue: this.round(s.revenue, currency),
+      })),
+    };
+  }
+
+  private toFilter(dto: AnalyticsQueryDto): AnalyticsFilter {
+    return {
+      createdFrom: dto.createdFrom ? new Date(dto.createdFrom) : undefined,
+      createdTo: dto.createdTo ? this.endOfRange(dto.createdTo) : undefined,
+      currency: dto.currency?.toUpperCase(),
+    };
+  }
+
+  private currencyOf(filter: AnalyticsFilter): string {
+    return filter.currency ?? this.currencies.baseCurrency;
+  }
+
+  /** Minor units, rounded, as a decimal amount */
+  private round(amount: number, currency: string): number {
+    return new Money(Math.round(amount), currency).toMajor();
+  }
+
+  /**
+   * A bare date (YYYY-MM-DD) as upper bound means "through the end of that day".
+   */
+  private endOfRange(value: string) {
+    const date = new Date(value);
+    if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+      date.setUTCHours(23, 59, 59, 999);
+    }
+    return date;
+  }
+
+  /**
+   * Start of the UTC day, week (Monday) or month `date` falls in, as the
+   * database groups them.
+   */
+  private periodStart(date: Date, interval: ReportInterval): Date {
+    const start = new Date(
+      Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()),
+    );
+    if (interval === 'week') {
+      start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7));
+    } else if (interval === 'month') {
+      start.setUTCDate(1);
+    }
+    return start;
+  }
+
+  private nextPeriod(start: Date, interval: ReportInterval): Date {
+    const next = new Date(start);
+    if (interval === 'day') next.setUTCDate(next.getUTCDate() + 1);
+    if (interval === 'week') next.setUTCDate(next.getUTCDate() + 7);
+    if (interval === 'month') next.setUTCMonth(next.getUTCMonth() + 1);
+    return next;
+  }
+}
@@ -0,0 +1,46 @@
+import { Inject, Injectable } from '@nestjs/common';
+import {
+  COUPON_REPOSITORY,
+  CouponRepositoryInterface,
+} from '../../domain/interfaces/coupon-repository.interface';
+import { CouponMapper } from '../../infrastructure/mappers/coupon.mapper';
+import { FilterCouponDto } from '../dto/filter-coupon.dto';
+
+const DEFAULT_PAGE_SIZE = 20;
+
+/**
+ * ✅ List Coupons Use Case (admin)
+ */
+@Injectable()
+export class ListCouponsUseCase {
+  constructor(
+    @Inject(COUPON_REPOSITORY)
+    private readonly coupons: CouponRepositoryInterface,
+    private readonly mapper: CouponMapper,
+  ) {}
+
+  async execute(dto: FilterCouponDto = {}) {
+    const page = dto.page || 1;
+    const limit = dto.limit || DEFAULT_PAGE_SIZE;
+
+    const { coupons, total } = await this.coupons.findAll({
+      active: dto.active,
+      page,
+      limit,
+    });
+
+    const totalPages = Math.ceil(total / limit);
+
+    return {
+      coupons: coupons.map((coupon) => this.mapper.toResponse(coupon)),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages,
+        hasNextPage: page < totalPages,
+        hasPrevPage: page > 1,
+      },
+    };
+  }
+}
@@ -0,0 +1,26 @@
+import { Injectable } from '@nestjs/common';
+import { CurrencyService } from '../../domain/services/currency.service';
+import { Money } from '../../domain/value-objects/order-vo';
+
+/**
+ * ✅ List Currencies Use Case
+ *
+ * Currencies orders can be charged in, with the exchange rates used to
+ * convert base-currency prices. Storefronts convert each price with
+ * the rate and round it to the currency's minor unit.
+ */
+@Injectable()
+export class ListCurrenciesUseCase {
+  constructor(private readonly currencies: CurrencyService) {}
+
+  execute() {
+    return {
+      baseCurrency: this.currencies.baseCurrency,
+      currencies: this.currencies.supported().map(({ code, rate }) => ({
+        code,
+        rate,
+        minorUnitDigits: Money.digits(code),
+      })),
+    };
+  }
+}
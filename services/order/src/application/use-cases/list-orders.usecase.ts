@@ -1,6 +1,43 @@
 import { Inject, Injectable } from '@nestjs/common';
-import { ORDER_REPOSITORY, OrderRepositoryInterface } from '../../domain/interfaces/order-repository.interface';
+import {
+  ORDER_REPOSITORY,
+  OrderListFilter,
+  OrderListOptions,
+  OrderRepositoryInterface,
+} from '../../domain/interfaces/order-repository.interface';
 import { OrderMapper } from '../../infrastructure/mappers/order.mapper';
+import { FilterOrderDto } from '../dto/filter-order.dto';
+
+const DEFAULT_PAGE_SIZE = 20;
+
+/**
+ * Repository filter for the list query; shared with the order export so
+ * both select the same orders.
+ */
+export function toOrderListFilter(
+  dto: Omit<FilterOrderDto, 'sortBy' | 'sortOrder' | 'page' | 'limit'>,
+): OrderListFilter {
+  return {
+    buyerId: dto.buyerId,
+    status: dto.status,
+    sku: dto.sku,
+    createdFrom: dto.createdFrom ? new Date(dto.createdFrom) : undefined,
+    createdTo: dto.createdTo ? endOfRange(dto.createdTo) : undefined,
+    minTotal: dto.minTotal,
+    maxTotal: dto.maxTotal,
+  };
+}
+
+/**
+ * A bare date (YYYY-MM-DD) as upper bound means "through the end of that day".
+ */
+function endOfRange(value: string) {
+  const date = new Date(value);
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    date.setUTCHours(23, 59, 59, 999);
+  }
+  return date;
+}
 
 @Injectable()
 export class ListOrdersUseCase {
@@ -10,9 +47,33 @@ export class ListOrdersUseCase {
     private readonly mapper: OrderMapper,
   ) {}
 
-  async execute(filter: any = {}) {
-    const orders = await this.repo.findAll(filter);
-    // Map all orders to response format
-    return orders.map((order) => this.mapper.toResponse(order));
+  async execute(dto: FilterOrderDto = {}) {
+    const filter = toOrderListFilter(dto);
+
+    const options: OrderListOptions = {
+      page: dto.page || 1,
+      limit: dto.limit || DEFAULT_PAGE_SIZE,
+      sortBy: dto.sortBy || 'createdAt',
+      sortOrder: dto.sortOrder || 'desc',
+    };
+
+    const [orders, total] = await Promise.all([
+      this.repo.findAll(filter, options),
+      this.repo.count(filter),
+    ]);
+
+    const totalPages = Math.ceil(total / options.limit);
+
+    return {
+      orders: orders.map((order) => this.mapper.toResponse(order)),
+      pagination: {
+        page: options.page,
+        limit: options.limit,
+        total,
+        totalPages,
+        hasNextPage: options.page < totalPages,
+        hasPrevPage: options.page > 1,
+      },
+    };
   }
 }
@@ -0,0 +1,50 @@
+import { Inject, Injectable } from '@nestjs/common';
+import {
+  RETURN_REPOSITORY,
+  ReturnRepositoryInterface,
+} from '../../domain/interfaces/return-repository.interface';
+import { ReturnRequestMapper } from '../../infrastructure/mappers/return-request.mapper';
+import { FilterReturnDto } from '../dto/filter-return.dto';
+
+const DEFAULT_PAGE_SIZE = 20;
+
+/**
+ * ✅ List Returns Use Case
+ *
+ * All returns for admins, or only the buyer's own when `buyerId` is set.
+ */
+@Injectable()
+export class ListReturnsUseCase {
+  constructor(
+    @Inject(RETURN_REPOSITORY)
+    private readonly returnRepository: ReturnRepositoryInterface,
+    private readonly mapper: ReturnRequestMapper,
+  ) {}
+
+  async execute(dto: FilterReturnDto = {}, buyerId?: string) {
+    const page = dto.page || 1;
+    const limit = dto.limit || DEFAULT_PAGE_SIZE;
+
+    const { returns, total } = await this.returnRepository.findAll({
+      status: dto.status,
+      orderId: dto.orderId,
+      buyerId,
+      page,
+      limit,
+    });
+
+    const totalPages = Math.ceil(total / limit);
+
+    return {
+      returns: returns.map((ret) => this.mapper.toResponse(ret)),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages,
+        hasNextPage: page < totalPages,
+        hasPrevPage: page > 1,
+      },
+    };
+  }
+}
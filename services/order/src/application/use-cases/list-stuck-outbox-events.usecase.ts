@@ -0,0 +1,55 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  OUTBOX_REPOSITORY,
+  OutboxRepositoryInterface,
+} from '../../domain/interfaces/outbox-repository.interface';
+import { FilterOutboxDto } from '../dto/filter-outbox.dto';
+
+const DEFAULT_PAGE_SIZE = 20;
+
+/**
+ * ✅ List Stuck Outbox Events Use Case
+ *
+ * Events the relay could not publish: failed ones, and pending ones older
+ * than `order.outbox.stuckAfterSeconds`.
+ */
+@Injectable()
+export class ListStuckOutboxEventsUseCase {
+  private readonly stuckAfterMs: number;
+
+  constructor(
+    @Inject(OUTBOX_REPOSITORY)
+    private readonly outbox: OutboxRepositoryInterface,
+    config: ConfigService,
+  ) {
+    this.stuckAfterMs =
+      config.get<number>('order.outbox.stuckAfterSeconds', 300) * 1000;
+  }
+
+  async execute(dto: FilterOutboxDto = {}) {
+    const page = dto.page || 1;
+    const limit = dto.limit || DEFAULT_PAGE_SIZE;
+
+    const { events, total } = await this.outbox.findStuck({
+      pendingBefore: new Date(Date.now() - this.stuckAfterMs),
+      status: dto.status,
+      page,
+      limit,
+    });
+
+    const totalPages = Math.ceil(total / limit);
+
+    return {
+      events,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages,
+        hasNextPage: page < totalPages,
+        hasPrevPage: page > 1,
+      },
+    };
+  }
+}
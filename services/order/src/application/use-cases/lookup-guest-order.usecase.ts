@@ -0,0 +1,47 @@
+import {
+  Inject,
+  Injectable,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import {
+  ORDER_REPOSITORY,
+  OrderRepositoryInterface,
+} from '../../domain/interfaces/order-repository.interface';
+import { OrderMapper } from '../../infrastructure/mappers/order.mapper';
+import { OrderLookupTokenService } from '../services/order-lookup-token.service';
+
+/**
+ * ✅ Lookup Guest Order Use Case
+ *
+ * Shows a guest order to whoever holds its lookup token, without a
+ * session. It keeps working after the order was claimed into an account.
+ */
+@Injectable()
+export class LookupGuestOrderUseCase {
+  constructor(
+    @Inject(ORDER_REPOSITORY)
+    private readonly repo: OrderRepositoryInterface,
+    private readonly mapper: OrderMapper,
+    private readonly lookupTokens: OrderLookupTokenService,
+  ) {}
+
+  /**
+   * @throws UnauthorizedException if the token is invalid or expired
+   * @throws NotFoundException if the order no longer exists
+   */
+  async execute(token: string) {
+    const claims = this.lookupTokens.verify(token);
+    if (!claims) {
+      throw new UnauthorizedException(
+        'This order link is invalid or has expired',
+      );
+    }
+
+    const order = await this.repo.findById(claims.orderId);
+    if (!order || order.guestEmail !== claims.email) {
+      throw new NotFoundException('Order not found');
+    }
+    return this.mapper.toResponse(order);
+  }
+}
@@ -0,0 +1,46 @@
+import { Inject, Injectable } from '@nestjs/common';
+import {
+  PRODUCT_CATALOG,
+  ProductCatalogInterface,
+} from '../../domain/interfaces/product-catalog.interface';
+import { ShippingService } from '../../domain/services/shipping.service';
+import { ShippingQuoteDto } from '../dto/shipping-quote.dto';
+
+/**
+ * ✅ Quote Shipping Use Case
+ *
+ * Lists the shipping methods offered for a cart and destination, priced
+ * from catalog prices and weights, so checkout can let the customer pick one.
+ */
+@Injectable()
+export class QuoteShippingUseCase {
+  constructor(
+    @Inject(PRODUCT_CATALOG)
+    private readonly catalog: ProductCatalogInterface,
+
+    private readonly shipping: ShippingService,
+  ) {}
+
+  async execute(dto: ShippingQuoteDto) {
+    const products = await Promise.all(
+      dto.items.map((item) => this.catalog.findBySku(item.sku)),
+    );
+    // Unknown SKUs are reported when the order is placed
+    const lines = dto.items.flatMap((item, i) => {
+      const product = products[i];
+      return product
+        ? [
+            {
+              unitPrice: product.price,
+              quantity: item.quantity,
+              weight: product.weight,
+            },
+          ]
+        : [];
+    });
+
+    return this.shipping
+      .options(lines, dto.shippingAddress)
+      .map((option) => ({ ...option, cost: option.cost.toMajor() }));
+  }
+}
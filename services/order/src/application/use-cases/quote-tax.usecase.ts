@@ -0,0 +1,118 @@
+import { Inject, Injectable } from '@nestjs/common';
+import {
+  CouponLine,
+  CouponRejectedError,
+} from '../../domain/entities/coupon.entity';
+import {
+  COUPON_REPOSITORY,
+  CouponRepositoryInterface,
+} from '../../domain/interfaces/coupon-repository.interface';
+import {
+  PRODUCT_CATALOG,
+  ProductCatalogInterface,
+} from '../../domain/interfaces/product-catalog.interface';
+import { TaxService } from '../../domain/services/tax.service';
+import { CurrencyService } from '../../domain/services/currency.service';
+import { Money } from '../../domain/value-objects/order-vo';
+import { InvalidCouponException } from '../../infrastructure/exceptions/order.exceptions';
+import { TaxQuoteDto } from '../dto/tax-quote.dto';
+
+/**
+ * ✅ Quote Tax Use Case
+ *
+ * Prices the cart from the catalog and returns the tax and total the
+ * order would be created with, so checkout can show them before submitting.
+ */
+@Injectable()
+export class QuoteTaxUseCase {
+  constructor(
+    @Inject(PRODUCT_CATALOG)
+    private readonly catalog: ProductCatalogInterface,
+
+    @Inject(COUPON_REPOSITORY)
+    private readonly coupons: CouponRepositoryInterface,
+
+    private readonly taxes: TaxService,
+    private readonly currencies: CurrencyService,
+  ) {}
+
+  /**
+   * @param buyerId - The signed-in caller, whose redemptions limit the promo code
+   * @throws InvalidCouponException (422, INVALID_COUPON) when the promo code does not apply
+   */
+  async execute(dto: TaxQuoteDto, buyerId: string) {
+    const products = await Promise.all(
+      dto.items.map((item) => this.catalog.findBySku(item.sku)),
+    );
+    // Unknown SKUs are reported when the order is placed
+    const lines = dto.items.flatMap((item, i) => {
+      const product = products[i];
+      return product
+        ? [
+            {
+              sku: product.sku,
+              category: product.category,
+              unitPrice: product.price,
+              quantity: item.quantity,
+            },
+          ]
+        : [];
+    });
+    // Catalog prices are in the base currency
+    const currency = this.currencies.baseCurrency;
+    const subtotal = lines.reduce(
+      (s, line) => s.add(line.unitPrice.multiply(line.quantity)),
+      Money.zero(currency),
+    );
+
+    const discount = dto.couponCode
+      ? await this.discountFor(dto.couponCode, buyerId, lines)
+      : Money.zero(currency);
+
+    const quote = this.taxes.calculate({
+      buyerId,
+      currency,
+      lines,
+      shippingAddress: dto.shippingAddress,
+      discount,
+    });
+
+    return {
+      subtotal: subtotal.toMajor(),
+      discount: discount.toMajor(),
+      taxableAmount: quote.taxableAmount.toMajor(),
+      tax: quote.tax.toMajor(),
+      exempt: quote.exempt,
+      jurisdiction: quote.jurisdiction,
+      breakdown: quote.breakdown.map((line) => ({
+        rate: line.rate,
+        taxableAmount: line.taxableAmount.toMajor(),
+        tax: line.tax.toMajor(),
+      })),
+      total: subtotal.subtract(discount).add(quote.tax).toMajor(),
+    };
+  }
+
+  private async discountFor(
+    rawCode: string,
+    buyerId: string,
+    lines: CouponLine[],
+  ): Promise<Money> {
+    const code = rawCode.trim().toUpperCase();
+    try {
+      const coupon = await this.coupons.findByCode(code);
+      if (!coupon) {
+        throw new CouponRejectedError(code, 'NOT_FOUND', 'Invalid promo code');
+      }
+      return coupon.discountFor(
+        lines,
+        await this.coupons.countRedemptions(code, buyerId),
+      );
+    } catch (error) {
+      if (error instanceof CouponRejectedError) {
+        throw new InvalidCouponException(error);
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,68 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  RETURN_REPOSITORY,
+  ReturnRepositoryInterface,
+} from '../../domain/interfaces/return-repository.interface';
+import { ReturnItem } from '../../domain/entities/return-request.entity';
+import { ReceiveReturnDto } from '../dto/receive-return.dto';
+import { UpdateReturnStatusUseCase } from './update-return-status.usecase';
+
+/**
+ * ✅ Receive Return Use Case (admin)
+ *
+ * Checks in the goods of an approved return. Every line is split into
+ * restockable units (added back to stock by inventory) and damaged ones.
+ */
+@Injectable()
+export class ReceiveReturnUseCase {
+  constructor(
+    @Inject(RETURN_REPOSITORY)
+    private readonly returnRepository: ReturnRepositoryInterface,
+    private readonly updateReturnStatus: UpdateReturnStatusUseCase,
+  ) {}
+
+  /**
+   * @throws NotFoundException if the return doesn't exist
+   * @throws BadRequestException if a line is missing or its counts don't add up
+   * @throws ConflictException if the return is not approved
+   */
+  async execute(id: string, dto: ReceiveReturnDto, adminId: string) {
+    const existing = await this.returnRepository.findById(id);
+    if (!existing) {
+      throw new NotFoundException(`Return with ID ${id} not found`);
+    }
+
+    const items = existing.items.map((item) => {
+      const received = dto.items.find((i) => i.sku === item.sku);
+      if (!received) {
+        throw new BadRequestException(`Missing condition for ${item.sku}`);
+      }
+      if (received.restockable + received.damaged !== item.quantity) {
+        throw new BadRequestException(
+          `${item.sku}: restockable and damaged must add up to ${item.quantity}`,
+        );
+      }
+      return new ReturnItem(
+        item.sku,
+        item.name,
+        item.unitPrice,
+        item.quantity,
+        received.restockable,
+        received.damaged,
+      );
+    });
+
+    return this.updateReturnStatus.execute(
+      id,
+      'received',
+      adminId,
+      dto.note,
+      items,
+    );
+  }
+}
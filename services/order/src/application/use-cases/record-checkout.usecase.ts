@@ -0,0 +1,52 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import {
+  ORDER_REPOSITORY,
+  OrderRepositoryInterface,
+} from '../../domain/interfaces/order-repository.interface';
+
+/** A checkout opened in the payment service, as published on payment.checkout_started */
+export interface CheckoutStarted {
+  orderId: string;
+  /** The provider's checkout session ID */
+  sessionId?: string;
+  timestamp?: string;
+}
+
+/**
+ * ✅ Record Checkout Use Case
+ *
+ * Notes on the order that the payment service opened a checkout for its
+ * total. From then on the order can no longer be amended, so the customer
+ * is never charged a total the order does not have any more. Redelivered
+ * events keep the first checkout time.
+ */
+@Injectable()
+export class RecordCheckoutUseCase {
+  private readonly logger = new Logger(RecordCheckoutUseCase.name);
+
+  constructor(
+    @Inject(ORDER_REPOSITORY)
+    private readonly orderRepository: OrderRepositoryInterface,
+  ) {}
+
+  async execute(checkout: CheckoutStarted) {
+    const startedAt = checkout.timestamp
+      ? new Date(checkout.timestamp)
+      : new Date();
+    const order = await this.orderRepository.recordCheckout(
+      checkout.orderId,
+      startedAt,
+    );
+    if (!order) {
+      this.logger.log(
+        `ℹ️ Checkout ${checkout.sessionId} not recorded: order ${checkout.orderId} is unknown or already has one`,
+      );
+      return null;
+    }
+
+    this.logger.log(
+      `🔒 Checkout ${checkout.sessionId} started for order ${order.id}, amendments closed`,
+    );
+    return order;
+  }
+}
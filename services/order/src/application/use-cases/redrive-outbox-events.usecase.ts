@@ -0,0 +1,30 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import {
+  OUTBOX_REPOSITORY,
+  OutboxRepositoryInterface,
+} from '../../domain/interfaces/outbox-repository.interface';
+
+/**
+ * ✅ Re-drive Outbox Events Use Case
+ *
+ * Puts stuck events back in the relay queue with a fresh retry budget.
+ */
+@Injectable()
+export class RedriveOutboxEventsUseCase {
+  private readonly logger = new Logger(RedriveOutboxEventsUseCase.name);
+
+  constructor(
+    @Inject(OUTBOX_REPOSITORY)
+    private readonly outbox: OutboxRepositoryInterface,
+  ) {}
+
+  /**
+   * @param ids - Events to re-drive; all failed events when omitted
+   * @returns Number of events re-queued
+   */
+  async execute(ids?: string[]) {
+    const requeued = await this.outbox.requeue(ids);
+    this.logger.log(`🔁 Re-queued ${requeued} outbox event(s)`);
+    return { requeued };
+  }
+}
@@ -0,0 +1,95 @@
+import {
+  ForbiddenException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  ORDER_REPOSITORY,
+  OrderRepositoryInterface,
+} from '../../domain/interfaces/order-repository.interface';
+import {
+  RETURN_REPOSITORY,
+  ReturnRepositoryInterface,
+} from '../../domain/interfaces/return-repository.interface';
+import {
+  ReturnNotAllowedError,
+  ReturnRequest,
+} from '../../domain/entities/return-request.entity';
+import { ReturnRequestFactory } from '../../domain/factories/return-request.factory';
+import { ReturnRequestMapper } from '../../infrastructure/mappers/return-request.mapper';
+import { ReturnProducer } from '../../infrastructure/events/return.producer';
+import { ReturnNotAllowedException } from '../../infrastructure/exceptions/order.exceptions';
+import { CreateReturnDto } from '../dto/create-return.dto';
+
+/**
+ * ✅ Request Return Use Case (customer)
+ *
+ * Opens a return (RMA) for some lines of the caller's delivered order.
+ * Units already in other returns that were not rejected cannot be
+ * returned again, also when requests for the order arrive at the same
+ * time. The request waits for an admin to approve or reject it.
+ */
+@Injectable()
+export class RequestReturnUseCase {
+  private readonly logger = new Logger(RequestReturnUseCase.name);
+  private readonly windowDays: number;
+
+  constructor(
+    @Inject(ORDER_REPOSITORY)
+    private readonly orderRepository: OrderRepositoryInterface,
+    @Inject(RETURN_REPOSITORY)
+    private readonly returnRepository: ReturnRepositoryInterface,
+    private readonly factory: ReturnRequestFactory,
+    private readonly mapper: ReturnRequestMapper,
+    private readonly producer: ReturnProducer,
+    config: ConfigService,
+  ) {
+    this.windowDays = config.get<number>('order.returns.windowDays', 30);
+  }
+
+  /**
+   * @throws NotFoundException if order doesn't exist
+   * @throws ForbiddenException if the caller is not the buyer
+   * @throws ReturnNotAllowedException if the items cannot be returned
+   */
+  async execute(dto: CreateReturnDto, userId: string) {
+    const order = await this.orderRepository.findById(dto.orderId);
+    if (!order) {
+      throw new NotFoundException(`Order with ID ${dto.orderId} not found`);
+    }
+    if (order.buyerId !== userId) {
+      this.logger.warn(
+        `🚫 User ${userId} tried to return items of order ${order.id} owned by ${order.buyerId}`,
+      );
+      throw new ForbiddenException('You can only return your own orders');
+    }
+
+    let created: ReturnRequest;
+    try {
+      created = await this.returnRepository.create(
+        order.id,
+        (alreadyReturned) =>
+          this.factory.createFrom({
+            order,
+            items: dto.items,
+            reason: dto.reason,
+            alreadyReturned,
+            windowDays: this.windowDays,
+          }),
+        (r) => [this.producer.returnRequested(r)],
+      );
+    } catch (error) {
+      if (error instanceof ReturnNotAllowedError) {
+        throw new ReturnNotAllowedException(error);
+      }
+      throw error;
+    }
+    this.logger.log(
+      `↩️ Return ${created.id} requested for order ${order.id} (${created.refundAmount.toString()})`,
+    );
+    return this.mapper.toResponse(created);
+  }
+}
@@ -1,5 +1,11 @@
-import { Injectable, NotFoundException, Inject, Logger } from '@nestjs/common';
+import { Injectable, NotFoundException, ConflictException, Inject, Logger } from '@nestjs/common';
 import { OrderRepositoryInterface, ORDER_REPOSITORY } from '../../domain/interfaces/order-repository.interface';
+import {
+  FULFILLMENT_STATUSES,
+  OrderStatus,
+  ORDER_STATUS_TRANSITIONS,
+  REFUND_STATUSES,
+} from '../../domain/entities/order.entity';
 import { OrderMapper } from '../../infrastructure/mappers/order.mapper';
 import { OrderProducer } from '../../infrastructure/events/order.producer';
 
@@ -9,7 +15,16 @@ import { OrderProducer } from '../../infrastructure/events/order.producer';
  * Handles updating the status of an existing order.
  * Used primarily by administrators to move orders through their lifecycle.
  *
- * Emits appropriate events based on status change:
+ * Transitions are validated against ORDER_STATUS_TRANSITIONS; anything else
+ * is rejected with 409 Conflict, as is setting partially_shipped (or any
+ * fulfillment status once the order has shipments) by hand: those follow
+ * from the order's shipments, and setting partially_refunded or refunded:
+ * those follow from refunds issued in the payment service. Every accepted
+ * change is appended to the order's statusHistory together with who made
+ * it and why.
+ *
+ * The status event is written to the outbox in the same transaction as
+ * the change, so it is published even if Kafka is down right now:
  * - cancelled → order.cancelled (triggers inventory release)
  * - delivered → order.delivered (triggers stock deduction)
  * - shipped → order.shipped
@@ -31,10 +46,13 @@ export class UpdateOrderStatusUseCase {
    * Execute the update order status operation
    * @param id - Order ID
    * @param status - New status for the order
+   * @param changedBy - User or system component making the change
+   * @param reason - Optional free-text reason recorded in the history
    * @returns Updated order response
    * @throws NotFoundException if order doesn't exist
+   * @throws ConflictException if the transition is not allowed
    */
-  async execute(id: string, status: string) {
+  async execute(id: string, status: OrderStatus, changedBy = 'system', reason?: string) {
     // Validate order exists
     const existingOrder = await this.orderRepository.findById(id);
     if (!existingOrder) {
@@ -45,52 +63,56 @@ export class UpdateOrderStatusUseCase {
       `Updating order ${id} status from ${existingOrder.status} to ${status}`
     );
 
-    // Update the status
-    const updatedOrder = await this.orderRepository.updateStatus(id, status);
-    if (!updatedOrder) {
-      throw new NotFoundException(`Failed to update order ${id}`);
+    if (
+      FULFILLMENT_STATUSES.includes(status) &&
+      (status === 'partially_shipped' || existingOrder.shipments.length > 0)
+    ) {
+      throw new ConflictException({
+        success: false,
+        message: `Order ${id} status '${status}' follows its shipments`,
+        error: 'Create shipments or mark them delivered instead',
+      });
     }
 
-    // Emit appropriate event based on status
-    try {
-      await this.emitStatusEvent(updatedOrder);
-    } catch (error: any) {
-      this.logger.error(
-        `Failed to emit event for order ${id} status ${status}:`,
-        error
-      );
-      // Don't throw - order is already updated, event failure shouldn't rollback
+    if (REFUND_STATUSES.includes(status)) {
+      throw new ConflictException({
+        success: false,
+        message: `Order ${id} status '${status}' follows its refunds`,
+        error: 'Issue refunds through the payment service instead',
+      });
     }
 
-    return this.mapper.toResponse(updatedOrder);
-  }
-
-  /**
-   * Emit the appropriate event based on order status
-   */
-  private async emitStatusEvent(order: any): Promise<void> {
-    switch (order.status) {
-      case 'cancelled':
-        await this.producer.orderCancelled(order);
-        break;
-
-      case 'delivered':
-        await this.producer.orderDelivered(order);
-        break;
-        
-
-      case 'shipped':
-        await this.producer.orderShipped(order);
-        break;
-
-      case 'paid':
-        await this.producer.orderPaid(order);
-        break;
+    if (!existingOrder.canTransitionTo(status)) {
+      const allowed = ORDER_STATUS_TRANSITIONS[existingOrder.status] ?? [];
+      throw new ConflictException({
+        success: false,
+        message: `Cannot change order status from '${existingOrder.status}' to '${status}'`,
+        error: allowed.length
+          ? `Allowed next statuses: ${allowed.join(', ')}`
+          : `Order is already ${existingOrder.status}`,
+      });
+    }
 
-      default:
-        // For any other status change, emit generic update event
-        await this.producer.orderUpdated(order);
-        break;
+    // Update the status only if nobody changed it in the meantime
+    const updatedOrder = await this.orderRepository.transitionStatus(
+      id,
+      existingOrder.status,
+      {
+        from: existingOrder.status,
+        to: status,
+        changedBy,
+        reason,
+        changedAt: new Date(),
+      },
+      (order) => [this.producer.statusChanged(order)],
+    );
+    if (!updatedOrder) {
+      throw new ConflictException({
+        success: false,
+        message: `Order ${id} was modified concurrently, please retry`,
+      });
     }
+
+    return this.mapper.toResponse(updatedOrder);
   }
 }
@@ -0,0 +1,93 @@
+import {
+  ConflictException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  RETURN_REPOSITORY,
+  ReturnRepositoryInterface,
+} from '../../domain/interfaces/return-repository.interface';
+import {
+  RETURN_STATUS_TRANSITIONS,
+  ReturnItem,
+  ReturnStatus,
+} from '../../domain/entities/return-request.entity';
+import { ReturnRequestMapper } from '../../infrastructure/mappers/return-request.mapper';
+import { ReturnProducer } from '../../infrastructure/events/return.producer';
+
+/**
+ * ✅ Update Return Status Use Case (admin)
+ *
+ * Moves a return through RETURN_STATUS_TRANSITIONS and records who did it.
+ * The status events go to the outbox with the change:
+ * - approved → return.approved + order.refund_requested (payment service)
+ * - received → return.received (+ return.restocked for inventory)
+ * - rejected → return.rejected
+ */
+@Injectable()
+export class UpdateReturnStatusUseCase {
+  private readonly logger = new Logger(UpdateReturnStatusUseCase.name);
+
+  constructor(
+    @Inject(RETURN_REPOSITORY)
+    private readonly returnRepository: ReturnRepositoryInterface,
+    private readonly mapper: ReturnRequestMapper,
+    private readonly producer: ReturnProducer,
+  ) {}
+
+  /**
+   * @param items - Replacement items, e.g. with received quantities
+   * @throws NotFoundException if the return doesn't exist
+   * @throws ConflictException if the transition is not allowed
+   */
+  async execute(
+    id: string,
+    status: ReturnStatus,
+    changedBy: string,
+    note?: string,
+    items?: ReturnItem[],
+  ) {
+    const existing = await this.returnRepository.findById(id);
+    if (!existing) {
+      throw new NotFoundException(`Return with ID ${id} not found`);
+    }
+
+    if (!existing.canTransitionTo(status)) {
+      const allowed = RETURN_STATUS_TRANSITIONS[existing.status];
+      throw new ConflictException({
+        success: false,
+        message: `Cannot change return status from '${existing.status}' to '${status}'`,
+        error: allowed.length
+          ? `Allowed next statuses: ${allowed.join(', ')}`
+          : `Return is already ${existing.status}`,
+      });
+    }
+
+    const updated = await this.returnRepository.transitionStatus(
+      id,
+      existing.status,
+      {
+        from: existing.status,
+        to: status,
+        changedBy,
+        note,
+        changedAt: new Date(),
+      },
+      items,
+      (ret) => this.producer.statusChanged(ret),
+    );
+    if (!updated) {
+      throw new ConflictException({
+        success: false,
+        message: `Return ${id} was modified concurrently, please retry`,
+      });
+    }
+
+    this.logger.log(
+      `↩️ Return ${id} ${existing.status} → ${status} by ${changedBy}`,
+    );
+    return this.mapper.toResponse(updated);
+  }
+}
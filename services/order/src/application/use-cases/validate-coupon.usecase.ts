@@ -0,0 +1,80 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { CouponRejectedError } from '../../domain/entities/coupon.entity';
+import {
+  COUPON_REPOSITORY,
+  CouponRepositoryInterface,
+} from '../../domain/interfaces/coupon-repository.interface';
+import {
+  PRODUCT_CATALOG,
+  ProductCatalogInterface,
+} from '../../domain/interfaces/product-catalog.interface';
+import { InvalidCouponException } from '../../infrastructure/exceptions/order.exceptions';
+import { ValidateCouponDto } from '../dto/validate-coupon.dto';
+
+/**
+ * ✅ Validate Coupon Use Case
+ *
+ * Checks a promo code against the buyer's cart (priced from the catalog)
+ * so checkout can show the discount before the order is placed. The same
+ * rules run again when the order is created.
+ */
+@Injectable()
+export class ValidateCouponUseCase {
+  constructor(
+    @Inject(COUPON_REPOSITORY)
+    private readonly coupons: CouponRepositoryInterface,
+
+    @Inject(PRODUCT_CATALOG)
+    private readonly catalog: ProductCatalogInterface,
+  ) {}
+
+  /**
+   * @throws InvalidCouponException (422, INVALID_COUPON) when the code does not apply
+   */
+  async execute(dto: ValidateCouponDto) {
+    const code = dto.code.trim().toUpperCase();
+    const coupon = await this.coupons.findByCode(code);
+
+    try {
+      if (!coupon) {
+        throw new CouponRejectedError(code, 'NOT_FOUND', 'Invalid promo code');
+      }
+
+      const products = await Promise.all(
+        dto.items.map((item) => this.catalog.findBySku(item.sku)),
+      );
+      // Unknown SKUs are reported when the order is placed
+      const lines = dto.items.flatMap((item, i) => {
+        const product = products[i];
+        return product
+          ? [
+              {
+                sku: product.sku,
+                category: product.category,
+                unitPrice: product.price,
+                quantity: item.quantity,
+              },
+            ]
+          : [];
+      });
+
+      const discount = coupon.discountFor(
+        lines,
+        await this.coupons.countRedemptions(code, dto.buyerId),
+      );
+
+      return {
+        code,
+        description: coupon.description,
+        type: coupon.type,
+        value: coupon.value,
+        discount: discount.toMajor(),
+      };
+    } catch (error) {
+      if (error instanceof CouponRejectedError) {
+        throw new InvalidCouponException(error);
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,12 @@
+import { ExchangeRateTable } from '../domain/interfaces/exchange-rate-table.interface';
+
+/**
+ * Default exchange rates against DEFAULT_CURRENCY, overridable with
+ * ORDER_EXCHANGE_RATES (a JSON object such as {"EUR": 0.92}).
+ */
+export const DEFAULT_EXCHANGE_RATES: ExchangeRateTable['rates'] = {
+  USD: 1,
+  EUR: 0.92,
+  GBP: 0.79,
+  INR: 83.3,
+};
@@ -1,6 +1,104 @@
+import { DEFAULT_TAX_RULES } from './tax-rates';
+import { DEFAULT_SHIPPING_RATES } from './shipping-rates';
+import { DEFAULT_EXCHANGE_RATES } from './exchange-rates';
+import { TaxRule } from '../domain/interfaces/tax-rate-table.interface';
+import { ShippingRateTable } from '../domain/interfaces/shipping-rate-table.interface';
+
 export default () => ({
   order: {
     port: process.env.PORT ? Number(process.env.PORT) : 5003,
     defaultCurrency: process.env.DEFAULT_CURRENCY || 'USD',
+    productServiceUrl:
+      process.env.PRODUCT_SERVICE_URL || 'http://localhost:3002',
+    productServiceTimeoutMs: process.env.PRODUCT_SERVICE_TIMEOUT_MS
+      ? Number(process.env.PRODUCT_SERVICE_TIMEOUT_MS)
+      : 5000,
+    idempotencyTtlSeconds: process.env.ORDER_IDEMPOTENCY_TTL_SECONDS
+      ? Number(process.env.ORDER_IDEMPOTENCY_TTL_SECONDS)
+      : 86400,
+    reservationTimeoutSeconds: process.env.ORDER_RESERVATION_TIMEOUT_SECONDS
+      ? Number(process.env.ORDER_RESERVATION_TIMEOUT_SECONDS)
+      : 120,
+    reservationSweepIntervalMs: process.env.ORDER_RESERVATION_SWEEP_INTERVAL_MS
+      ? Number(process.env.ORDER_RESERVATION_SWEEP_INTERVAL_MS)
+      : 30000,
+    unpaidExpiry: {
+      // Seconds an order may stay unpaid, per payment method; cash on delivery is paid at the door
+      windowsSeconds: process.env.ORDER_UNPAID_EXPIRY_SECONDS
+        ? (JSON.parse(process.env.ORDER_UNPAID_EXPIRY_SECONDS) as Record<
+            string,
+            number
+          >)
+        : { card: 1800 },
+      sweepIntervalMs: process.env.ORDER_UNPAID_EXPIRY_SWEEP_INTERVAL_MS
+        ? Number(process.env.ORDER_UNPAID_EXPIRY_SWEEP_INTERVAL_MS)
+        : 60000,
+      lockTtlMs: process.env.ORDER_UNPAID_EXPIRY_LOCK_TTL_MS
+        ? Number(process.env.ORDER_UNPAID_EXPIRY_LOCK_TTL_MS)
+        : 120000,
+    },
+    returns: {
+      // Days after delivery during which a return can be requested
+      windowDays: process.env.ORDER_RETURN_WINDOW_DAYS
+        ? Number(process.env.ORDER_RETURN_WINDOW_DAYS)
+        : 30,
+    },
+    guestCheckout: {
+      // Signs the order links given to guests; without it a random secret is used per process
+      lookupTokenSecret: process.env.ORDER_LOOKUP_TOKEN_SECRET || undefined,
+      lookupTokenTtlSeconds: process.env.ORDER_LOOKUP_TOKEN_TTL_SECONDS
+        ? Number(process.env.ORDER_LOOKUP_TOKEN_TTL_SECONDS)
+        : 180 * 86400,
+    },
+    exchangeRates: {
+      baseCurrency: process.env.DEFAULT_CURRENCY || 'USD',
+      rates: process.env.ORDER_EXCHANGE_RATES
+        ? (JSON.parse(process.env.ORDER_EXCHANGE_RATES) as Record<
+            string,
+            number
+          >)
+        : DEFAULT_EXCHANGE_RATES,
+    },
+    tax: {
+      defaultRate: process.env.ORDER_TAX_DEFAULT_RATE
+        ? Number(process.env.ORDER_TAX_DEFAULT_RATE)
+        : 0.1,
+      rules: process.env.ORDER_TAX_RULES
+        ? (JSON.parse(process.env.ORDER_TAX_RULES) as TaxRule[])
+        : DEFAULT_TAX_RULES,
+      exemptBuyers: (process.env.ORDER_TAX_EXEMPT_BUYERS || '')
+        .split(',')
+        .map((id) => id.trim())
+        .filter(Boolean),
+    },
+    shipping: process.env.ORDER_SHIPPING_RATES
+      ? (JSON.parse(process.env.ORDER_SHIPPING_RATES) as ShippingRateTable)
+      : DEFAULT_SHIPPING_RATES,
+    invoice: {
+      numberPrefix: process.env.INVOICE_NUMBER_PREFIX || 'INV-',
+      seller: {
+        name: process.env.INVOICE_SELLER_NAME || 'E-Commerce Store',
+        address: (process.env.INVOICE_SELLER_ADDRESS || '')
+          .split('|')
+          .map((line) => line.trim())
+          .filter(Boolean),
+        taxId: process.env.INVOICE_SELLER_TAX_ID || undefined,
+        email: process.env.INVOICE_SELLER_EMAIL || undefined,
+      },
+    },
+    outbox: {
+      pollIntervalMs: process.env.OUTBOX_POLL_INTERVAL_MS
+        ? Number(process.env.OUTBOX_POLL_INTERVAL_MS)
+        : 1000,
+      batchSize: process.env.OUTBOX_BATCH_SIZE
+        ? Number(process.env.OUTBOX_BATCH_SIZE)
+        : 50,
+      maxAttempts: process.env.OUTBOX_MAX_ATTEMPTS
+        ? Number(process.env.OUTBOX_MAX_ATTEMPTS)
+        : 10,
+      stuckAfterSeconds: process.env.OUTBOX_STUCK_AFTER_SECONDS
+        ? Number(process.env.OUTBOX_STUCK_AFTER_SECONDS)
+        : 300,
+    },
   },
 });
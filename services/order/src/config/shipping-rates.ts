@@ -0,0 +1,43 @@
+import { ShippingRateTable } from '../domain/interfaces/shipping-rate-table.interface';
+
+/**
+ * Default shipping zones and methods, overridable with ORDER_SHIPPING_RATES
+ * (a JSON object of the same shape).
+ */
+export const DEFAULT_SHIPPING_RATES: ShippingRateTable = {
+  zones: [
+    { id: 'us-remote', countries: ['USA'], states: ['AK', 'HI'] },
+    { id: 'us', countries: ['USA'] },
+    { id: 'international', countries: ['*'] },
+  ],
+  methods: [
+    {
+      id: 'standard',
+      name: 'Standard',
+      estimatedDelivery: '5-7 business days',
+      rates: [
+        { zone: 'us', base: 4.99, perKg: 0.5 },
+        { zone: 'us-remote', base: 9.99, perKg: 1.5 },
+        { zone: 'international', base: 14.99, perKg: 4 },
+      ],
+    },
+    {
+      id: 'express',
+      name: 'Express',
+      estimatedDelivery: '1-2 business days',
+      rates: [
+        { zone: 'us', base: 14.99, perKg: 1.5 },
+        { zone: 'us-remote', base: 24.99, perKg: 3 },
+        { zone: 'international', base: 39.99, perKg: 8 },
+      ],
+    },
+    {
+      id: 'free',
+      name: 'Free Shipping',
+      estimatedDelivery: '7-10 business days',
+      minSubtotal: 50,
+      rates: [{ zone: 'us', base: 0, perKg: 0 }],
+    },
+  ],
+  defaultItemWeightKg: 0.5,
+};
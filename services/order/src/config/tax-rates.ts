@@ -0,0 +1,25 @@
+import { TaxRule } from '../domain/interfaces/tax-rate-table.interface';
+
+/**
+ * Default tax rules, overridable with ORDER_TAX_RULES (a JSON array).
+ * Countries match the shipping address as entered at checkout.
+ */
+export const DEFAULT_TAX_RULES: TaxRule[] = [
+  { country: 'USA', rate: 0.1 },
+  { country: 'USA', state: 'OR', rate: 0 },
+  {
+    country: 'USA',
+    state: 'CA',
+    rate: 0.0725,
+    categoryRates: { groceries: 0 },
+  },
+  { country: 'USA', state: 'CA', zipPrefix: '900', rate: 0.095 },
+  {
+    country: 'USA',
+    state: 'NY',
+    rate: 0.04,
+    categoryRates: { groceries: 0, clothing: 0 },
+  },
+  { country: 'USA', state: 'NY', zipPrefix: '100', rate: 0.08875 },
+  { country: 'India', rate: 0.18, categoryRates: { books: 0 } },
+];
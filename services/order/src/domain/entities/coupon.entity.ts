@@ -0,0 +1,154 @@
+import { Money } from '../value-objects/order-vo';
+
+export type CouponType = 'percentage' | 'fixed';
+
+export const COUPON_TYPES: CouponType[] = ['percentage', 'fixed'];
+
+/**
+ * Why a coupon cannot be applied to an order.
+ */
+export type CouponRejection =
+  | 'NOT_FOUND'
+  | 'INACTIVE'
+  | 'NOT_STARTED'
+  | 'EXPIRED'
+  | 'MIN_SPEND_NOT_MET'
+  | 'NOT_APPLICABLE'
+  | 'USAGE_LIMIT_REACHED'
+  | 'CUSTOMER_LIMIT_REACHED';
+
+export class CouponRejectedError extends Error {
+  constructor(
+    public readonly code: string,
+    public readonly reason: CouponRejection,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Order line as seen by a coupon (category comes from the catalog).
+ */
+export interface CouponLine {
+  sku: string;
+  category?: string;
+  unitPrice: Money;
+  quantity: number;
+}
+
+export class Coupon {
+  constructor(
+    public readonly code: string,
+    public type: CouponType,
+    /** Percent off (0-100) or a fixed decimal amount in the lines' currency */
+    public value: number,
+    public active: boolean,
+    public redemptionCount: number,
+    public minSpend?: number,
+    public startsAt?: Date,
+    public expiresAt?: Date,
+    /** Total redemptions allowed across all customers */
+    public maxRedemptions?: number,
+    public maxRedemptionsPerCustomer?: number,
+    /** When set, only these SKUs/categories are discounted */
+    public skus: string[] = [],
+    public categories: string[] = [],
+    public description?: string,
+    public createdAt?: Date,
+    public updatedAt?: Date,
+  ) {}
+
+  /**
+   * Discount for the given lines, rounded to the minor unit.
+   *
+   * @param customerRedemptions - Times this buyer already used the coupon
+   * @throws CouponRejectedError when the coupon cannot be applied
+   */
+  discountFor(
+    lines: CouponLine[],
+    customerRedemptions: number,
+    now = new Date(),
+  ): Money {
+    if (!this.active)
+      this.reject('INACTIVE', 'This promo code is no longer active');
+    if (this.startsAt && this.startsAt > now) {
+      this.reject('NOT_STARTED', 'This promo code is not active yet');
+    }
+    if (this.expiresAt && this.expiresAt <= now) {
+      this.reject('EXPIRED', 'This promo code has expired');
+    }
+    if (
+      this.maxRedemptions !== undefined &&
+      this.redemptionCount >= this.maxRedemptions
+    ) {
+      this.reject(
+        'USAGE_LIMIT_REACHED',
+        'This promo code has been fully redeemed',
+      );
+    }
+    if (
+      this.maxRedemptionsPerCustomer !== undefined &&
+      customerRedemptions >= this.maxRedemptionsPerCustomer
+    ) {
+      this.reject(
+        'CUSTOMER_LIMIT_REACHED',
+        'You have already used this promo code',
+      );
+    }
+
+    return this.redeemedDiscountFor(lines);
+  }
+
+  /**
+   * Discount for an order that already redeemed the coupon, when its lines
+   * change. Availability and usage limits held at redemption; minimum spend
+   * and eligible items are checked again.
+   *
+   * @throws CouponRejectedError when the coupon no longer applies
+   */
+  redeemedDiscountFor(lines: CouponLine[]): Money {
+    const subtotal = this.sum(lines);
+    if (
+      this.minSpend !== undefined &&
+      subtotal.amount < Money.of(this.minSpend, subtotal.currency).amount
+    ) {
+      this.reject(
+        'MIN_SPEND_NOT_MET',
+        `Spend at least ${this.minSpend.toFixed(2)} to use this promo code`,
+      );
+    }
+
+    const eligible = this.sum(lines.filter((line) => this.appliesTo(line)));
+    if (eligible.isZero()) {
+      this.reject(
+        'NOT_APPLICABLE',
+        'This promo code does not apply to any item in your cart',
+      );
+    }
+
+    return this.type === 'percentage'
+      ? eligible.multiply(Math.min(this.value, 100) / 100)
+      : Money.of(this.value, eligible.currency).min(eligible);
+  }
+
+  private appliesTo(line: CouponLine): boolean {
+    if (!this.skus.length && !this.categories.length) return true;
+    return (
+      this.skus.includes(line.sku) ||
+      (!!line.category && this.categories.includes(line.category))
+    );
+  }
+
+  /** Without lines there is nothing to discount, whatever the currency */
+  private sum(lines: CouponLine[]): Money {
+    return lines.reduce(
+      (s, line) => s.add(line.unitPrice.multiply(line.quantity)),
+      Money.zero(lines[0]?.unitPrice.currency),
+    );
+  }
+
+  private reject(reason: CouponRejection, message: string): never {
+    throw new CouponRejectedError(this.code, reason, message);
+  }
+}
@@ -0,0 +1,37 @@
+import { ShippingAddress } from './order.entity';
+import { Money } from '../value-objects/order-vo';
+
+/**
+ * Why an order cannot be amended as requested.
+ */
+export class AmendmentNotAllowedError extends Error {}
+
+/**
+ * A line whose quantity was changed; `from` is 0 for an added line and
+ * `to` is 0 for a removed one.
+ */
+export interface AmendedLine {
+  sku: string;
+  name: string;
+  from: number;
+  to: number;
+}
+
+/**
+ * One change made to an order before fulfillment, with the previous values
+ * so the order's history shows what was changed and it can be reverted.
+ */
+export interface OrderAmendment {
+  id: string;
+  /** 1 for the first amendment of an order, then 2, 3... */
+  number: number;
+  lines: AmendedLine[];
+  addressChanged: boolean;
+  previousShippingAddress?: ShippingAddress;
+  /** Order total before and after re-pricing */
+  previousTotal: Money;
+  total: Money;
+  changedBy: string;
+  reason?: string;
+  changedAt: Date;
+}
@@ -1,11 +1,146 @@
-export type OrderStatus = 'pending' | 'processing' |'paid' | 'cancelled' | 'shipped' | 'delivered';
+import { Money } from '../value-objects/order-vo';
+import { Shipment } from './shipment.entity';
+import { OrderAmendment } from './order-amendment.entity';
+
+export type OrderStatus =
+  | 'pending'
+  | 'processing'
+  | 'paid'
+  | 'cancelled'
+  | 'partially_shipped'
+  | 'shipped'
+  | 'delivered'
+  | 'partially_refunded'
+  | 'refunded';
+
+/**
+ * Allowed status transitions.
+ *
+ * pending → processing → paid → shipped → delivered, with cancellation
+ * possible until the order leaves the warehouse. processing → shipped is
+ * allowed for cash-on-delivery orders that are never marked paid up front.
+ * partially_shipped is reached when only some lines have left in shipments.
+ * Once paid, refunds issued in the payment service move the order to
+ * partially_refunded, which fulfillment can still move on from, or to
+ * refunded. delivered, refunded and cancelled are terminal, except that a
+ * delivered order can still be refunded.
+ */
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: ['processing', 'paid', 'cancelled'],
+  processing: ['paid', 'partially_shipped', 'shipped', 'cancelled'],
+  paid: [
+    'partially_shipped',
+    'shipped',
+    'cancelled',
+    'partially_refunded',
+    'refunded',
+  ],
+  partially_shipped: ['shipped', 'partially_refunded', 'refunded'],
+  shipped: ['delivered', 'partially_refunded', 'refunded'],
+  delivered: ['partially_refunded', 'refunded'],
+  partially_refunded: ['partially_shipped', 'shipped', 'delivered', 'refunded'],
+  refunded: [],
+  cancelled: [],
+};
+
+export const ORDER_STATUSES = Object.keys(ORDER_STATUS_TRANSITIONS) as OrderStatus[];
+
+export const PAYMENT_METHODS = ['cod', 'card'] as const;
+export type PaymentMethod = (typeof PAYMENT_METHODS)[number];
+
+/** Orders placed before the payment method was recorded were all cash on delivery */
+export const DEFAULT_PAYMENT_METHOD: PaymentMethod = 'cod';
+
+/**
+ * Statuses of an order still waiting for its money: pending (stock being
+ * reserved) and processing (reserved, not paid yet).
+ */
+export const UNPAID_STATUSES: OrderStatus[] = ['pending', 'processing'];
+
+/**
+ * Statuses that imply payment. Orders paid before invoice numbering existed
+ * get their number on first download instead of on the paid transition.
+ */
+export const INVOICEABLE_STATUSES: OrderStatus[] = [
+  'paid',
+  'partially_shipped',
+  'shipped',
+  'delivered',
+  'partially_refunded',
+  'refunded',
+];
+
+/**
+ * Statuses that follow from refunds issued in the payment service; they
+ * cannot be set by hand.
+ */
+export const REFUND_STATUSES: OrderStatus[] = [
+  'partially_refunded',
+  'refunded',
+];
+
+/**
+ * Statuses in which lines and the shipping address can still be changed:
+ * nothing has been paid or shipped yet.
+ */
+export const AMENDABLE_STATUSES: OrderStatus[] = ['pending', 'processing'];
+
+/** Statuses in which (more) shipments can be created */
+export const SHIPPABLE_STATUSES: OrderStatus[] = [
+  'processing',
+  'paid',
+  'partially_shipped',
+  'partially_refunded',
+];
+
+/**
+ * Statuses derived from shipments once an order has any; they cannot be
+ * set by hand on such orders.
+ */
+export const FULFILLMENT_STATUSES: OrderStatus[] = [
+  'partially_shipped',
+  'shipped',
+  'delivered',
+];
+
+/**
+ * Guest orders have no account; their buyer id is the prefix plus the
+ * lowercased email until they are claimed into an account.
+ */
+export const GUEST_BUYER_PREFIX = 'guest:';
+
+export function guestBuyerId(email: string): string {
+  return `${GUEST_BUYER_PREFIX}${email.trim().toLowerCase()}`;
+}
+
+/**
+ * How a line is covered by stock: reserved in full, or with some units
+ * back-ordered (out of stock) or pre-ordered (not released yet) until stock
+ * is received.
+ */
+export const ALLOCATION_STATUSES = [
+  'allocated',
+  'backordered',
+  'preordered',
+] as const;
+export type AllocationStatus = (typeof ALLOCATION_STATUSES)[number];
+
+export interface LineAllocation {
+  status: AllocationStatus;
+  /** Units still waiting for stock; 0 once allocated */
+  backordered: number;
+  /** When pre-ordered units are expected to be released */
+  releaseDate?: Date;
+}
 
 export class OrderItem {
   constructor(
     public readonly sku: string,
     public readonly name: string,
-    public readonly unitPrice: number,
+    public readonly unitPrice: Money,
     public readonly quantity: number,
+    /** Unknown until inventory has processed the order */
+    public readonly allocation?: LineAllocation,
   ) {}
 }
 
@@ -17,18 +152,151 @@ export interface ShippingAddress {
   country: string;
 }
 
+export interface StatusHistoryEntry {
+  from: OrderStatus | null;
+  to: OrderStatus;
+  changedBy: string;
+  reason?: string;
+  changedAt: Date;
+}
+
+/** Tax charged at one rate, in the order currency */
+export interface TaxBreakdownLine {
+  rate: number;
+  taxableAmount: Money;
+  tax: Money;
+}
+
+/**
+ * A payment received that could not be applied to the order: the amount
+ * or currency did not match, or the order was already cancelled. The
+ * customer was charged, so it needs a refund.
+ */
+export interface UnappliedPayment {
+  /** Missing when the provider reported no usable amount */
+  amount?: Money;
+  /** Payment provider, e.g. stripe */
+  provider?: string;
+  /** The provider's payment (or checkout session) ID */
+  reference?: string;
+  reason: string;
+  receivedAt: Date;
+}
+
 export class Order {
   constructor(
     public readonly id: string,
     public buyerId: string,
     public items: OrderItem[],
-    public subtotal: number,
-    public tax: number,
-    public total: number,
+    public subtotal: Money,
+    public tax: Money,
+    public total: Money,
     public currency: string,
     public status: OrderStatus,
     public shippingAddress?: ShippingAddress,
     public createdAt?: Date,
     public updatedAt?: Date,
+    public statusHistory: StatusHistoryEntry[] = [],
+    /** Coupon discount, already subtracted from total */
+    public discount: Money = Money.zero(currency),
+    public couponCode?: string,
+    public shippingMethod?: string,
+    /** Included in total; tax is charged on items only */
+    public shippingCost: Money = Money.zero(currency),
+    /** Reporting currency and the total converted into it */
+    public baseCurrency?: string,
+    public baseTotal?: Money,
+    /** Units of `currency` per unit of `baseCurrency` when the order was placed */
+    public exchangeRate: number = 1,
+    /** Tax grouped by rate; the taxes add up to `tax` */
+    public taxBreakdown: TaxBreakdownLine[] = [],
+    /** Sequential number, allocated once when the order is paid */
+    public invoiceNumber?: string,
+    public invoicedAt?: Date,
+    public paymentMethod: PaymentMethod = DEFAULT_PAYMENT_METHOD,
+    public shipments: Shipment[] = [],
+    /** Changes made before fulfillment, oldest first */
+    public amendments: OrderAmendment[] = [],
+    /** Email a guest checked out with; kept after the order is claimed */
+    public guestEmail?: string,
+    /** When a guest order was moved into the buyer's account */
+    public claimedAt?: Date,
+    /** Refunded so far through the payment service, in `currency` */
+    public refundedAmount: Money = Money.zero(currency),
+    /** Payments that could not be applied and must be refunded */
+    public unappliedPayments: UnappliedPayment[] = [],
+    /**
+     * When the payment service opened a checkout for the total; the order
+     * can no longer be amended after that
+     */
+    public checkoutStartedAt?: Date,
   ) {}
+
+  /** Placed without an account and not claimed yet */
+  isGuest(): boolean {
+    return this.buyerId.startsWith(GUEST_BUYER_PREFIX);
+  }
+
+  /**
+   * Amount to charge the customer, in the order currency.
+   */
+  chargeAmount(): Money {
+    return this.total;
+  }
+
+  isInvoiceable(): boolean {
+    return !!this.invoiceNumber || INVOICEABLE_STATUSES.includes(this.status);
+  }
+
+  /** Units per SKU not in any shipment yet */
+  unshippedQuantities(
+    shipments: Shipment[] = this.shipments,
+  ): Record<string, number> {
+    const remaining: Record<string, number> = {};
+    for (const item of this.items) {
+      remaining[item.sku] = (remaining[item.sku] ?? 0) + item.quantity;
+    }
+    for (const item of shipments.flatMap((s) => s.items)) {
+      remaining[item.sku] = (remaining[item.sku] ?? 0) - item.quantity;
+    }
+    return remaining;
+  }
+
+  /**
+   * Units per SKU that can go in a new shipment: not shipped yet and not
+   * waiting for stock
+   */
+  shippableQuantities(): Record<string, number> {
+    const shippable = this.unshippedQuantities();
+    for (const item of this.items) {
+      shippable[item.sku] -= item.allocation?.backordered ?? 0;
+    }
+    return shippable;
+  }
+
+  /** Some lines still wait for stock to be received */
+  hasBackorders(): boolean {
+    return this.items.some((i) => (i.allocation?.backordered ?? 0) > 0);
+  }
+
+  /**
+   * Status that follows from `shipments`: partially_shipped while some units
+   * have not left, shipped once all have, delivered when every shipment is.
+   * Without shipments, or once refunded in full, the status is the current
+   * one.
+   */
+  fulfillmentStatus(shipments: Shipment[] = this.shipments): OrderStatus {
+    if (!shipments.length || this.status === 'refunded') return this.status;
+    const allShipped = Object.values(this.unshippedQuantities(shipments)).every(
+      (q) => q <= 0,
+    );
+    if (!allShipped) return 'partially_shipped';
+    return shipments.every((s) => s.status === 'delivered')
+      ? 'delivered'
+      : 'shipped';
+  }
+
+  canTransitionTo(next: OrderStatus): boolean {
+    return ORDER_STATUS_TRANSITIONS[this.status]?.includes(next) ?? false;
+  }
 }
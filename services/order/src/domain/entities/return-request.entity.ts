@@ -0,0 +1,74 @@
+import { Money } from '../value-objects/order-vo';
+
+export type ReturnStatus = 'requested' | 'approved' | 'rejected' | 'received';
+
+/**
+ * Allowed return transitions.
+ *
+ * requested → approved (refund requested) → received (goods checked in),
+ * or requested → rejected. rejected and received are terminal.
+ */
+export const RETURN_STATUS_TRANSITIONS: Record<ReturnStatus, ReturnStatus[]> = {
+  requested: ['approved', 'rejected'],
+  approved: ['received'],
+  rejected: [],
+  received: [],
+};
+
+export const RETURN_STATUSES = Object.keys(
+  RETURN_STATUS_TRANSITIONS,
+) as ReturnStatus[];
+
+/**
+ * Why a return cannot be opened for an order.
+ */
+export class ReturnNotAllowedError extends Error {}
+
+export class ReturnItem {
+  constructor(
+    public readonly sku: string,
+    public readonly name: string,
+    /** Price paid per unit, in the order currency */
+    public readonly unitPrice: Money,
+    public readonly quantity: number,
+    /** Set when the goods are received; the two add up to `quantity` */
+    public restockedQuantity?: number,
+    public damagedQuantity?: number,
+  ) {}
+}
+
+export interface ReturnHistoryEntry {
+  from: ReturnStatus | null;
+  to: ReturnStatus;
+  changedBy: string;
+  note?: string;
+  changedAt: Date;
+}
+
+export class ReturnRequest {
+  constructor(
+    public readonly id: string,
+    public readonly orderId: string,
+    public readonly buyerId: string,
+    public items: ReturnItem[],
+    public reason: string,
+    public status: ReturnStatus,
+    /** Refunded on approval: items less their share of the discount, plus their tax */
+    public refundAmount: Money,
+    public currency: string,
+    public statusHistory: ReturnHistoryEntry[] = [],
+    public createdAt?: Date,
+    public updatedAt?: Date,
+  ) {}
+
+  canTransitionTo(next: ReturnStatus): boolean {
+    return RETURN_STATUS_TRANSITIONS[this.status]?.includes(next) ?? false;
+  }
+
+  /** Units to put back on sale, per SKU */
+  restockable(): { sku: string; quantity: number }[] {
+    return this.items
+      .filter((item) => (item.restockedQuantity ?? 0) > 0)
+      .map((item) => ({ sku: item.sku, quantity: item.restockedQuantity! }));
+  }
+}
@@ -0,0 +1,27 @@
+export type ShipmentStatus = 'shipped' | 'delivered';
+
+/**
+ * Why items cannot be shipped, or a shipment cannot be updated.
+ */
+export class ShipmentNotAllowedError extends Error {}
+
+export interface ShipmentItem {
+  sku: string;
+  name: string;
+  quantity: number;
+}
+
+/**
+ * A parcel sent for part (or all) of an order's lines
+ */
+export class Shipment {
+  constructor(
+    public readonly id: string,
+    public readonly items: ShipmentItem[],
+    public readonly carrier: string,
+    public readonly trackingNumber: string,
+    public status: ShipmentStatus = 'shipped',
+    public readonly shippedAt: Date = new Date(),
+    public deliveredAt?: Date,
+  ) {}
+}
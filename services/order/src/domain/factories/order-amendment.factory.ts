@@ -0,0 +1,168 @@
+import { Injectable } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import {
+  AMENDABLE_STATUSES,
+  Order,
+  ShippingAddress,
+} from '../entities/order.entity';
+import {
+  AmendedLine,
+  AmendmentNotAllowedError,
+  OrderAmendment,
+} from '../entities/order-amendment.entity';
+import { Coupon } from '../entities/coupon.entity';
+import { CatalogLine, OrderFactory } from './order.factory';
+
+@Injectable()
+export class OrderAmendmentFactory {
+  constructor(private readonly orders: OrderFactory) {}
+
+  /**
+   * @throws AmendmentNotAllowedError once the order is paid, shipped or
+   *   cancelled, or a checkout was opened for its total
+   */
+  assertAmendable(order: Order): void {
+    if (!AMENDABLE_STATUSES.includes(order.status)) {
+      throw new AmendmentNotAllowedError(
+        `Orders in status '${order.status}' can no longer be changed`,
+      );
+    }
+    if (order.checkoutStartedAt) {
+      throw new AmendmentNotAllowedError(
+        'Payment of this order has started, it can no longer be changed',
+      );
+    }
+  }
+
+  /**
+   * Quantity per SKU after applying `changes` to the order's lines: a new
+   * SKU adds a line, 0 removes one and SKUs not listed are kept.
+   *
+   * @throws AmendmentNotAllowedError if no line would be left
+   */
+  linesAfter(
+    order: Order,
+    changes: { sku: string; quantity: number }[],
+  ): { sku: string; quantity: number }[] {
+    const quantities = new Map<string, number>();
+    for (const item of order.items) {
+      quantities.set(item.sku, (quantities.get(item.sku) ?? 0) + item.quantity);
+    }
+    // The last change listed for a SKU wins
+    for (const change of changes) {
+      quantities.set(change.sku, change.quantity);
+    }
+
+    const lines = [...quantities.entries()]
+      .filter(([, quantity]) => quantity > 0)
+      .map(([sku, quantity]) => ({ sku, quantity }));
+    if (!lines.length) {
+      throw new AmendmentNotAllowedError(
+        'An order needs at least one item; cancel it instead',
+      );
+    }
+    return lines;
+  }
+
+  /**
+   * Apply new lines and/or a new shipping address and price the order
+   * again. The amendment, with the previous values, is appended to the
+   * returned order's amendments.
+   *
+   * @param input.items - Every line of the amended order, priced from the catalog
+   * @throws AmendmentNotAllowedError if the order cannot be amended or nothing changes
+   * @throws CouponRejectedError if the order's coupon no longer applies
+   * @throws ShippingMethodUnavailableError if the shipping method is not offered any more
+   */
+  amend(
+    order: Order,
+    input: {
+      items: CatalogLine[];
+      /** Omitted to keep the current address */
+      shippingAddress?: ShippingAddress;
+      coupon?: Coupon;
+      changedBy: string;
+      reason?: string;
+      now?: Date;
+    },
+  ): { order: Order; amendment: OrderAmendment } {
+    this.assertAmendable(order);
+    const now = input.now ?? new Date();
+
+    const lines = this.changedLines(order, input.items);
+    const shippingAddress = input.shippingAddress ?? order.shippingAddress;
+    const addressChanged =
+      !!input.shippingAddress &&
+      !this.sameAddress(input.shippingAddress, order.shippingAddress);
+    if (!lines.length && !addressChanged) {
+      throw new AmendmentNotAllowedError(
+        'The amendment does not change the order',
+      );
+    }
+
+    const amended = this.orders.reprice(order, {
+      items: input.items,
+      shippingAddress,
+      coupon: input.coupon,
+      now,
+    });
+    const amendment: OrderAmendment = {
+      id: randomUUID(),
+      number: order.amendments.length + 1,
+      lines,
+      addressChanged,
+      ...(addressChanged && {
+        previousShippingAddress: order.shippingAddress,
+      }),
+      previousTotal: order.total,
+      total: amended.total,
+      changedBy: input.changedBy,
+      reason: input.reason,
+      changedAt: now,
+    };
+    amended.amendments = [...order.amendments, amendment];
+
+    return { order: amended, amendment };
+  }
+
+  private changedLines(order: Order, items: CatalogLine[]): AmendedLine[] {
+    const before = new Map<string, { name: string; quantity: number }>();
+    for (const item of order.items) {
+      const line = before.get(item.sku);
+      before.set(item.sku, {
+        name: item.name,
+        quantity: (line?.quantity ?? 0) + item.quantity,
+      });
+    }
+
+    const changed: AmendedLine[] = [];
+    for (const item of items) {
+      const from = before.get(item.sku)?.quantity ?? 0;
+      if (from !== item.quantity) {
+        changed.push({
+          sku: item.sku,
+          name: item.name,
+          from,
+          to: item.quantity,
+        });
+      }
+      before.delete(item.sku);
+    }
+    // Lines not in the amended order were removed
+    for (const [sku, line] of before) {
+      changed.push({ sku, name: line.name, from: line.quantity, to: 0 });
+    }
+    return changed;
+  }
+
+  private sameAddress(a: ShippingAddress, b?: ShippingAddress): boolean {
+    if (!b) return false;
+    return (
+      a.street === b.street &&
+      a.city === b.city &&
+      a.state === b.state &&
+      a.zipCode === b.zipCode &&
+      a.country === b.country
+    );
+  }
+}
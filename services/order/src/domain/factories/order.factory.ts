@@ -1,38 +1,260 @@
 import { Injectable } from '@nestjs/common';
-import { Order, OrderItem, ShippingAddress } from '../entities/order.entity';
+import {
+  Order,
+  OrderItem,
+  PaymentMethod,
+  ShippingAddress,
+} from '../entities/order.entity';
+import { Coupon, CouponLine } from '../entities/coupon.entity';
+import { Money } from '../value-objects/order-vo';
+import { TaxService } from '../services/tax.service';
+import { ShippingService } from '../services/shipping.service';
+import { CurrencyService } from '../services/currency.service';
 import { randomUUID } from 'crypto';
 
+/** A line priced from the catalog, in the base currency */
+export interface CatalogLine {
+  sku: string;
+  name: string;
+  unitPrice: Money;
+  quantity: number;
+  category?: string;
+  weight?: number;
+}
+
 @Injectable()
 export class OrderFactory {
+  constructor(
+    private readonly taxes: TaxService,
+    private readonly shipping: ShippingService,
+    private readonly currencies: CurrencyService,
+  ) {}
+
+  /**
+   * Item prices are catalog prices in the base currency. Every amount is
+   * worked out in the base currency first, then each part is converted to
+   * the order currency so the charged total is exactly the sum of its lines.
+   *
+   * @throws UnsupportedCurrencyError if `currency` has no exchange rate
+   */
   createFrom(dto: {
     buyerId: string;
-    items: { sku: string; name: string; unitPrice: number; quantity: number }[],
-    currency?: string,
-    shippingAddress?: ShippingAddress,
-    tax?: number
+    items: CatalogLine[];
+    currency?: string;
+    shippingAddress?: ShippingAddress;
+    /** Defaults to standard shipping */
+    shippingMethod?: string;
+    paymentMethod?: PaymentMethod;
+    coupon?: Coupon;
+    /** How many times the buyer already redeemed `coupon` */
+    couponRedemptions?: number;
+    /** Set for guest checkouts; `buyerId` is then the guest buyer id */
+    guestEmail?: string;
   }): Order {
-    const id = randomUUID();
-    const items = dto.items.map(i => new OrderItem(i.sku, i.name, i.unitPrice, i.quantity));
-    const subtotal = items.reduce((s, it) => s + it.unitPrice * it.quantity, 0);
-
-    // Calculate tax - use provided tax or calculate 10% if not provided
-    const TAX_RATE = 0.10;
-    const tax = dto.tax !== undefined ? dto.tax : subtotal * TAX_RATE;
-    const total = subtotal + tax;
+    const currency = (
+      dto.currency || this.currencies.baseCurrency
+    ).toUpperCase();
+    const priced = this.price({
+      ...dto,
+      currency,
+      shippingMethod: dto.shippingMethod ?? 'standard',
+      discountFor: (lines) =>
+        dto.coupon?.discountFor(lines, dto.couponRedemptions ?? 0),
+    });
+    const now = new Date();
 
     const order = new Order(
-      id,
+      randomUUID(),
       dto.buyerId,
-      items,
-      subtotal,
-      tax,
-      total,
-      dto.currency || 'USD',
+      priced.items,
+      priced.subtotal,
+      priced.tax,
+      priced.total,
+      currency,
       'pending',
       dto.shippingAddress,
-      new Date(),
-      new Date()
+      now,
+      now,
+      [
+        {
+          from: null,
+          to: 'pending',
+          changedBy: dto.buyerId,
+          reason: 'Order placed',
+          changedAt: now,
+        },
+      ],
+      priced.discount,
+      dto.coupon?.code,
+      priced.shippingMethod,
+      priced.shippingCost,
+      priced.baseCurrency,
+      priced.baseTotal,
+      priced.exchangeRate,
+      priced.taxBreakdown,
+      undefined,
+      undefined,
+      dto.paymentMethod,
+      [],
+      [],
+      dto.guestEmail,
     );
     return order;
   }
+
+  /**
+   * The same order with new lines and/or shipping address, priced again
+   * like a new order: current catalog prices and exchange rate, tax for
+   * the (new) address, shipping for its method, and the coupon it redeemed
+   * recalculated for the new lines. Lines keep their stock allocation until
+   * inventory reports it for the new quantities.
+   *
+   * @throws CouponRejectedError if the coupon no longer applies
+   * @throws ShippingMethodUnavailableError if the method is not offered for the new cart/destination
+   */
+  reprice(
+    order: Order,
+    changes: {
+      items: CatalogLine[];
+      shippingAddress?: ShippingAddress;
+      /** The coupon the order redeemed, if it still exists */
+      coupon?: Coupon;
+      now?: Date;
+    },
+  ): Order {
+    const priced = this.price({
+      buyerId: order.buyerId,
+      items: changes.items,
+      currency: order.currency,
+      shippingAddress: changes.shippingAddress,
+      shippingMethod: order.shippingMethod ?? 'standard',
+      discountFor: (lines) => changes.coupon?.redeemedDiscountFor(lines),
+    });
+
+    const items = priced.items.map(
+      (i) =>
+        new OrderItem(
+          i.sku,
+          i.name,
+          i.unitPrice,
+          i.quantity,
+          order.items.find((previous) => previous.sku === i.sku)?.allocation,
+        ),
+    );
+
+    return new Order(
+      order.id,
+      order.buyerId,
+      items,
+      priced.subtotal,
+      priced.tax,
+      priced.total,
+      order.currency,
+      order.status,
+      changes.shippingAddress,
+      order.createdAt,
+      changes.now ?? new Date(),
+      order.statusHistory,
+      priced.discount,
+      order.couponCode,
+      priced.shippingMethod,
+      priced.shippingCost,
+      priced.baseCurrency,
+      priced.baseTotal,
+      priced.exchangeRate,
+      priced.taxBreakdown,
+      order.invoiceNumber,
+      order.invoicedAt,
+      order.paymentMethod,
+      order.shipments,
+      order.amendments,
+      order.guestEmail,
+      order.claimedAt,
+    );
+  }
+
+  /**
+   * Amounts for `items` shipped to `shippingAddress`, in the order currency
+   * (as described on createFrom), with the base-currency total.
+   */
+  private price(dto: {
+    buyerId: string;
+    items: CatalogLine[];
+    currency: string;
+    shippingAddress?: ShippingAddress;
+    shippingMethod: string;
+    discountFor: (lines: CouponLine[]) => Money | undefined;
+  }) {
+    const base = this.currencies.baseCurrency;
+    const currency = dto.currency;
+    const rate = this.currencies.rateFor(currency);
+    const toOrderCurrency = (amount: Money) =>
+      this.currencies.fromBase(amount, currency);
+
+    const baseSubtotal = dto.items.reduce(
+      (s, i) => s.add(i.unitPrice.multiply(i.quantity)),
+      Money.zero(base),
+    );
+
+    // Coupon rules are checked here; throws CouponRejectedError if it does not apply
+    const baseDiscount = dto.discountFor(dto.items) ?? Money.zero(base);
+
+    // Tax always comes from the rate table for the shipping address, never the client
+    const taxQuote = this.taxes.calculate({
+      buyerId: dto.buyerId,
+      currency: base,
+      lines: dto.items,
+      shippingAddress: dto.shippingAddress,
+      discount: baseDiscount,
+    });
+    const baseTax = taxQuote.tax;
+    // Throws ShippingMethodUnavailableError if the method is not offered for this cart/destination
+    const shipping = this.shipping.quote(
+      dto.shippingMethod,
+      dto.items,
+      dto.shippingAddress,
+    );
+    const baseShipping = shipping.cost;
+    const baseTotal = baseSubtotal
+      .subtract(baseDiscount)
+      .add(baseShipping)
+      .add(baseTax);
+
+    // Charged amounts, in the order currency
+    const unitPrices = dto.items.map((i) => toOrderCurrency(i.unitPrice));
+    const items = dto.items.map(
+      (i, n) => new OrderItem(i.sku, i.name, unitPrices[n], i.quantity),
+    );
+    const subtotal = dto.items.reduce(
+      (s, i, n) => s.add(unitPrices[n].multiply(i.quantity)),
+      Money.zero(currency),
+    );
+    const discount = toOrderCurrency(baseDiscount).min(subtotal);
+    const shippingCost = toOrderCurrency(baseShipping);
+    // Each rate is converted on its own so the invoice breakdown adds up to the tax
+    const taxBreakdown = taxQuote.breakdown.map((line) => ({
+      rate: line.rate,
+      taxableAmount: toOrderCurrency(line.taxableAmount),
+      tax: toOrderCurrency(line.tax),
+    }));
+    const tax = taxBreakdown.reduce(
+      (s, line) => s.add(line.tax),
+      Money.zero(currency),
+    );
+    const total = subtotal.subtract(discount).add(shippingCost).add(tax);
+
+    return {
+      items,
+      subtotal,
+      discount,
+      shippingMethod: shipping.method,
+      shippingCost,
+      tax,
+      taxBreakdown,
+      total,
+      baseCurrency: base,
+      baseTotal,
+      exchangeRate: rate,
+    };
+  }
 }
@@ -0,0 +1,107 @@
+import { Injectable } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { Order } from '../entities/order.entity';
+import {
+  ReturnItem,
+  ReturnNotAllowedError,
+  ReturnRequest,
+} from '../entities/return-request.entity';
+import { Money } from '../value-objects/order-vo';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+@Injectable()
+export class ReturnRequestFactory {
+  /**
+   * Open a return for some of the lines of a delivered order. The refund
+   * covers the returned items less their share of the order discount, plus
+   * the tax charged on them; shipping is not refunded.
+   *
+   * @throws ReturnNotAllowedError if the order is not delivered, the return
+   *   window has closed, or more units are returned than were bought
+   */
+  createFrom(input: {
+    order: Order;
+    items: { sku: string; quantity: number }[];
+    reason: string;
+    /** Units per SKU already in other returns that were not rejected */
+    alreadyReturned: Record<string, number>;
+    windowDays: number;
+    now?: Date;
+  }): ReturnRequest {
+    const { order } = input;
+    const now = input.now ?? new Date();
+
+    if (order.status !== 'delivered') {
+      throw new ReturnNotAllowedError('Only delivered orders can be returned');
+    }
+    const deliveredAt =
+      order.statusHistory.filter((h) => h.to === 'delivered').pop()
+        ?.changedAt ?? order.updatedAt;
+    if (
+      deliveredAt &&
+      now.getTime() - new Date(deliveredAt).getTime() >
+        input.windowDays * DAY_MS
+    ) {
+      throw new ReturnNotAllowedError(
+        `Returns are accepted up to ${input.windowDays} days after delivery`,
+      );
+    }
+
+    // The same SKU listed twice counts once
+    const requested = new Map<string, number>();
+    for (const item of input.items) {
+      requested.set(item.sku, (requested.get(item.sku) ?? 0) + item.quantity);
+    }
+
+    const items = [...requested.entries()].map(([sku, quantity]) => {
+      const line = order.items.find((i) => i.sku === sku);
+      if (!line) {
+        throw new ReturnNotAllowedError(`${sku} is not part of this order`);
+      }
+      const returnable = line.quantity - (input.alreadyReturned[sku] ?? 0);
+      if (quantity > returnable) {
+        throw new ReturnNotAllowedError(
+          returnable > 0
+            ? `Only ${returnable} unit(s) of ${line.name} can still be returned`
+            : `${line.name} has already been returned`,
+        );
+      }
+      return new ReturnItem(sku, line.name, line.unitPrice, quantity);
+    });
+
+    const currency = order.currency;
+    const itemsAmount = items.reduce(
+      (s, i) => s.add(i.unitPrice.multiply(i.quantity)),
+      Money.zero(currency),
+    );
+    const share = order.subtotal.isZero()
+      ? 0
+      : itemsAmount.amount / order.subtotal.amount;
+    const refund = itemsAmount
+      .subtract(order.discount.multiply(share).min(itemsAmount))
+      .add(order.tax.multiply(share));
+
+    return new ReturnRequest(
+      randomUUID(),
+      order.id,
+      order.buyerId,
+      items,
+      input.reason,
+      'requested',
+      refund,
+      currency,
+      [
+        {
+          from: null,
+          to: 'requested',
+          changedBy: order.buyerId,
+          note: input.reason,
+          changedAt: now,
+        },
+      ],
+      now,
+      now,
+    );
+  }
+}
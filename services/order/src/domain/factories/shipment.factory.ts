@@ -0,0 +1,81 @@
+import { Injectable } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { Order, SHIPPABLE_STATUSES } from '../entities/order.entity';
+import { Shipment, ShipmentNotAllowedError } from '../entities/shipment.entity';
+
+@Injectable()
+export class ShipmentFactory {
+  /**
+   * Ship some of an order's units that have not left yet; without `items`
+   * everything still unshipped goes in this shipment. Back-ordered and
+   * pre-ordered units cannot be shipped until stock is allocated to them.
+   *
+   * @throws ShipmentNotAllowedError if the order cannot be shipped, or a
+   *   line is not in the order or has fewer units left or allocated
+   */
+  createFor(
+    order: Order,
+    input: {
+      carrier: string;
+      trackingNumber: string;
+      items?: { sku: string; quantity: number }[];
+      now?: Date;
+    },
+  ): Shipment {
+    if (!SHIPPABLE_STATUSES.includes(order.status)) {
+      throw new ShipmentNotAllowedError(
+        `Orders in status '${order.status}' cannot be shipped`,
+      );
+    }
+
+    const remaining = order.unshippedQuantities();
+    const shippable = order.shippableQuantities();
+    const requested = new Map<string, number>();
+    if (input.items?.length) {
+      // The same SKU listed twice counts once
+      for (const item of input.items) {
+        requested.set(item.sku, (requested.get(item.sku) ?? 0) + item.quantity);
+      }
+    } else {
+      for (const [sku, quantity] of Object.entries(shippable)) {
+        if (quantity > 0) requested.set(sku, quantity);
+      }
+    }
+    if (!requested.size) {
+      throw new ShipmentNotAllowedError(
+        order.hasBackorders()
+          ? 'The remaining items are waiting for stock'
+          : 'All items have already been shipped',
+      );
+    }
+
+    const items = [...requested.entries()].map(([sku, quantity]) => {
+      const line = order.items.find((i) => i.sku === sku);
+      if (!line) {
+        throw new ShipmentNotAllowedError(`${sku} is not part of this order`);
+      }
+      if (quantity > remaining[sku]) {
+        throw new ShipmentNotAllowedError(
+          remaining[sku] > 0
+            ? `Only ${remaining[sku]} unit(s) of ${line.name} are left to ship`
+            : `${line.name} has already been shipped`,
+        );
+      }
+      if (quantity > shippable[sku]) {
+        throw new ShipmentNotAllowedError(
+          `${remaining[sku] - Math.max(shippable[sku], 0)} unit(s) of ${line.name} are waiting for stock`,
+        );
+      }
+      return { sku, name: line.name, quantity };
+    });
+
+    return new Shipment(
+      randomUUID(),
+      items,
+      input.carrier,
+      input.trackingNumber,
+      'shipped',
+      input.now ?? new Date(),
+    );
+  }
+}
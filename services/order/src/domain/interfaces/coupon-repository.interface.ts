@@ -0,0 +1,23 @@
+import { Coupon } from '../entities/coupon.entity';
+
+export const COUPON_REPOSITORY = 'COUPON_REPOSITORY';
+
+export interface CouponListFilter {
+  active?: boolean;
+  page: number;
+  limit: number;
+}
+
+export interface CouponRepositoryInterface {
+  /**
+   * Rejects with a duplicate-key error when the code already exists.
+   */
+  create(coupon: Coupon): Promise<Coupon>;
+  findByCode(code: string): Promise<Coupon | null>;
+  findAll(
+    filter: CouponListFilter,
+  ): Promise<{ coupons: Coupon[]; total: number }>;
+  setActive(code: string, active: boolean): Promise<Coupon | null>;
+  /** Times `buyerId` has redeemed the coupon */
+  countRedemptions(code: string, buyerId: string): Promise<number>;
+}
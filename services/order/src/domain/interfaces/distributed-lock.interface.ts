@@ -0,0 +1,19 @@
+export const DISTRIBUTED_LOCK = 'DISTRIBUTED_LOCK';
+
+/**
+ * Cluster-wide lease so only one replica runs a scheduled job at a time.
+ * A lease expires on its own after `ttlMs`, so a crashed holder cannot
+ * block the job forever.
+ */
+export interface DistributedLockInterface {
+  /**
+   * Take the lease on `name`.
+   * @returns A token to release it with, or null if another holder has it
+   */
+  acquire(name: string, ttlMs: number): Promise<string | null>;
+
+  /**
+   * Give the lease back, only if `token` still holds it.
+   */
+  release(name: string, token: string): Promise<void>;
+}
@@ -0,0 +1,11 @@
+export const EXCHANGE_RATE_TABLE = 'EXCHANGE_RATE_TABLE';
+
+/**
+ * Currencies orders can be charged in. Catalog prices, coupon amounts and
+ * shipping rates are in `baseCurrency`.
+ */
+export interface ExchangeRateTable {
+  baseCurrency: string;
+  /** Units of each currency per one unit of the base currency (base = 1) */
+  rates: Record<string, number>;
+}
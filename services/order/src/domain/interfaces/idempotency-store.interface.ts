@@ -0,0 +1,30 @@
+export const IDEMPOTENCY_STORE = 'IDEMPOTENCY_STORE';
+
+/**
+ * What a caller finds when it claims an idempotency key.
+ * - `claimed`: the key is new and now reserved for this request
+ * - `in_progress`: another request with the same key has not finished yet
+ * - `completed`: the original request finished; `response` is what it returned
+ */
+export type IdempotencyClaim =
+  | { state: 'claimed' }
+  | { state: 'in_progress'; requestHash: string }
+  | { state: 'completed'; requestHash: string; response: unknown };
+
+export interface IdempotencyStoreInterface {
+  /**
+   * Atomically reserve `key` for a request with the given hash, or report
+   * what is already stored under it.
+   */
+  claim(key: string, requestHash: string): Promise<IdempotencyClaim>;
+
+  /**
+   * Store the response for a claimed key so retries can replay it.
+   */
+  complete(key: string, requestHash: string, response: unknown): Promise<void>;
+
+  /**
+   * Drop a claimed key after a failed request so the client can retry it.
+   */
+  release(key: string): Promise<void>;
+}
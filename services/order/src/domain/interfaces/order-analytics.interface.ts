@@ -0,0 +1,66 @@
+import { OrderStatus } from '../entities/order.entity';
+
+export const ORDER_ANALYTICS = 'ORDER_ANALYTICS';
+
+export const REPORT_INTERVALS = ['day', 'week', 'month'] as const;
+export type ReportInterval = (typeof REPORT_INTERVALS)[number];
+
+export const TOP_SKU_SORTS = ['revenue', 'units'] as const;
+export type TopSkuSort = (typeof TOP_SKU_SORTS)[number];
+
+export interface AnalyticsFilter {
+  createdFrom?: Date;
+  createdTo?: Date;
+  /**
+   * Only orders charged in this currency, with amounts in it. Without it
+   * every order counts, converted to the base currency.
+   */
+  currency?: string;
+}
+
+/**
+ * Orders that were not cancelled and what they were charged (total after
+ * discount, with shipping and tax), from one period.
+ */
+export interface RevenuePeriod {
+  /** First day of the period (UTC); weeks start on Monday */
+  periodStart: Date;
+  revenue: number;
+  orders: number;
+}
+
+export interface SkuSales {
+  sku: string;
+  name: string;
+  units: number;
+  /** Line value (unit price × quantity), before order discounts */
+  revenue: number;
+}
+
+export interface StatusCount {
+  status: OrderStatus;
+  count: number;
+}
+
+/**
+ * Read-only reporting over orders, aggregated in the database. Amounts
+ * are unrounded sums of minor units; callers round them to the currency.
+ */
+export interface OrderAnalyticsInterface {
+  /**
+   * Revenue and order count per period, oldest first. Periods without
+   * orders are left out.
+   */
+  revenueByPeriod(
+    filter: AnalyticsFilter,
+    interval: ReportInterval,
+  ): Promise<RevenuePeriod[]>;
+  /** Orders of every current status, cancelled ones included */
+  statusCounts(filter: AnalyticsFilter): Promise<StatusCount[]>;
+  /** Best-selling SKUs of orders that were not cancelled */
+  topSkus(
+    filter: AnalyticsFilter,
+    sortBy: TopSkuSort,
+    limit: number,
+  ): Promise<SkuSales[]>;
+}
@@ -1,9 +1,165 @@
-import { Order } from '../entities/order.entity';
+import {
+  LineAllocation,
+  Order,
+  OrderStatus,
+  StatusHistoryEntry,
+  UnappliedPayment,
+} from '../entities/order.entity';
+import { Shipment, ShipmentStatus } from '../entities/shipment.entity';
+import { OutboxMessage } from './outbox-repository.interface';
+import { Coupon } from '../entities/coupon.entity';
+import { Money } from '../value-objects/order-vo';
 export const ORDER_REPOSITORY = 'ORDER_REPOSITORY';
+
+export const ORDER_SORT_FIELDS = ['createdAt', 'updatedAt', 'total', 'status'] as const;
+
+export interface OrderListFilter {
+  buyerId?: string;
+  status?: string;
+  sku?: string;
+  paymentMethod?: string;
+  createdFrom?: Date;
+  createdTo?: Date;
+  minTotal?: number;
+  maxTotal?: number;
+}
+
+export interface OrderListOptions {
+  page: number;
+  limit: number;
+  sortBy: (typeof ORDER_SORT_FIELDS)[number];
+  sortOrder: 'asc' | 'desc';
+}
+
+/**
+ * Orders currently in one status and their summed totals, in minor units
+ * of the base currency.
+ */
+export interface OrderStatusTotal {
+  status: OrderStatus;
+  orders: number;
+  amount: number;
+}
+
+/**
+ * Builds the events to record for a saved order. Repositories write them to
+ * the outbox in the same transaction as the order itself.
+ */
+export type OrderEventsBuilder = (order: Order) => OutboxMessage[];
+
 export interface OrderRepositoryInterface {
-  create(order: Order): Promise<Order>;
+  /**
+   * Persist a new order. With a coupon, the redemption is recorded in the
+   * same transaction and rejects (CouponRejectedError) once a limit is hit.
+   */
+  create(order: Order, events?: OrderEventsBuilder, coupon?: Coupon): Promise<Order>;
   findById(id: string): Promise<Order | null>;
-  findAll(filter?: any): Promise<Order[]>;
+  findAll(filter?: OrderListFilter, options?: OrderListOptions): Promise<Order[]>;
+  count(filter?: OrderListFilter): Promise<number>;
+  /** Orders and totals per status, aggregated in the database */
+  totalsByStatus(): Promise<OrderStatusTotal[]>;
+  /**
+   * Every order matching `filter`, oldest first, read with a database cursor
+   * so large ranges are never held in memory at once.
+   */
+  stream(filter?: OrderListFilter): AsyncIterable<Order>;
   updateStatus(id: string, status: string): Promise<Order | null>;
+  /**
+   * Atomically move an order from `from` to `entry.to` and append the history entry.
+   * Moving to `paid` also allocates the next invoice number; moving to
+   * `cancelled` releases the order's coupon redemption.
+   * Resolves to null when the order is missing or no longer in `from`.
+   */
+  transitionStatus(
+    id: string,
+    from: OrderStatus,
+    entry: StatusHistoryEntry,
+    events?: OrderEventsBuilder,
+  ): Promise<Order | null>;
+  /**
+   * Add a shipment to `order` as it was read, moving it to `entry.to` when
+   * an entry is given. Resolves to null when the order changed meanwhile
+   * (status or shipments), so units are never shipped twice.
+   */
+  addShipment(
+    order: Order,
+    shipment: Shipment,
+    entry?: StatusHistoryEntry,
+    events?: OrderEventsBuilder,
+  ): Promise<Order | null>;
+  /**
+   * Move one shipment of `order` to `status` (and the order to `entry.to`
+   * when given). Resolves to null when the order or that shipment changed
+   * since `order` was read.
+   */
+  updateShipmentStatus(
+    order: Order,
+    shipmentId: string,
+    status: ShipmentStatus,
+    entry?: StatusHistoryEntry,
+    events?: OrderEventsBuilder,
+  ): Promise<Order | null>;
+  /**
+   * Raise the refunded total of `order` to `refundedAmount` (order
+   * currency), moving it to `entry.to` when an entry is given. Resolves to
+   * null when the order changed status since it was read or already has
+   * that much refunded.
+   */
+  recordRefund(
+    order: Order,
+    refundedAmount: Money,
+    entry?: StatusHistoryEntry,
+    events?: OrderEventsBuilder,
+  ): Promise<Order | null>;
+  /**
+   * Record a payment received for order `id` that could not be applied,
+   * so it is refunded. A payment already recorded (same reference) is not
+   * added again. Resolves to null when the order is missing or already has
+   * it.
+   */
+  addUnappliedPayment(
+    id: string,
+    payment: UnappliedPayment,
+  ): Promise<Order | null>;
+  /**
+   * Note that a checkout was opened for order `id` at `startedAt`.
+   * Resolves to null when the order is missing or already has one.
+   */
+  recordCheckout(id: string, startedAt: Date): Promise<Order | null>;
+  /**
+   * Save `amended` (re-priced lines, address and its new amendment) over
+   * `order` as it was read. Resolves to null when the order left the
+   * amendable statuses, was amended or shipped, or a checkout was opened
+   * meanwhile.
+   */
+  amend(
+    order: Order,
+    amended: Order,
+    events?: OrderEventsBuilder,
+  ): Promise<Order | null>;
+  /**
+   * Allocate an invoice number for a paid order that has none yet.
+   * Resolves to the order unchanged if it already has one, or null when
+   * the order is missing or not in an invoiceable status.
+   */
+  assignInvoiceNumber(id: string): Promise<Order | null>;
+  /**
+   * Set the stock allocation of the order's lines, per SKU. Resolves to
+   * null when the order is missing.
+   */
+  updateAllocations(
+    id: string,
+    allocations: Record<string, LineAllocation>,
+    events?: OrderEventsBuilder,
+  ): Promise<Order | null>;
+  /**
+   * Move every order of `guestBuyerId` to `buyerId`, together with its
+   * coupon redemptions so per-customer limits still count them. Resolves
+   * to the orders that were moved.
+   */
+  claimGuestOrders(
+    guestBuyerId: string,
+    buyerId: string,
+    events?: OrderEventsBuilder,
+  ): Promise<Order[]>;
 }
-    
\ No newline at end of file
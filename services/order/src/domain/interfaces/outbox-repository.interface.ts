@@ -0,0 +1,70 @@
+export const OUTBOX_REPOSITORY = 'OUTBOX_REPOSITORY';
+
+/**
+ * - pending: waiting to be published (or waiting for its next retry)
+ * - sent: published to Kafka
+ * - failed: gave up after the maximum number of attempts; needs a re-drive
+ */
+export const OUTBOX_STATUSES = ['pending', 'sent', 'failed'] as const;
+export type OutboxStatus = (typeof OUTBOX_STATUSES)[number];
+
+/**
+ * An event to publish, written alongside the order change that caused it.
+ */
+export interface OutboxMessage {
+  topic: string;
+  /** Kafka message key; the order id, so one order's events share a partition */
+  key: string;
+  payload: Record<string, unknown>;
+}
+
+export interface OutboxEvent extends OutboxMessage {
+  id: string;
+  status: OutboxStatus;
+  attempts: number;
+  lastError?: string;
+  nextAttemptAt: Date;
+  createdAt: Date;
+  sentAt?: Date;
+}
+
+export interface StuckOutboxFilter {
+  /** Pending rows created before this date are considered stuck */
+  pendingBefore: Date;
+  status?: Exclude<OutboxStatus, 'sent'>;
+  page: number;
+  limit: number;
+}
+
+export interface OutboxRepositoryInterface {
+  /**
+   * Lease up to `limit` due pending events for `leaseMs` so that concurrent
+   * relays never publish the same row twice.
+   */
+  claimDue(limit: number, leaseMs: number): Promise<OutboxEvent[]>;
+
+  /**
+   * True when an older event for the same key has not been sent yet;
+   * the relay waits for it so consumers see an order's events in order.
+   */
+  hasUnsentBefore(event: OutboxEvent): Promise<boolean>;
+
+  markSent(id: string): Promise<void>;
+  markFailed(
+    id: string,
+    error: string,
+    nextAttemptAt: Date | null,
+  ): Promise<void>;
+  /** Give the lease back and retry at `until` without counting an attempt */
+  postpone(id: string, until: Date): Promise<void>;
+
+  findStuck(
+    filter: StuckOutboxFilter,
+  ): Promise<{ events: OutboxEvent[]; total: number }>;
+
+  /**
+   * Reset the given (or, without ids, all failed) events to pending for an
+   * immediate retry. Resolves to the number of events re-queued.
+   */
+  requeue(ids?: string[]): Promise<number>;
+}
@@ -0,0 +1,24 @@
+import { Money } from '../value-objects/order-vo';
+
+export const PRODUCT_CATALOG = 'PRODUCT_CATALOG';
+
+/**
+ * Catalog data the order service trusts when pricing an order.
+ */
+export interface CatalogProduct {
+  sku: string;
+  name: string;
+  /** In the base currency */
+  price: Money;
+  category?: string;
+  /** Shipping weight in kg, when the catalog has one */
+  weight?: number;
+  isActive: boolean;
+}
+
+export interface ProductCatalogInterface {
+  /**
+   * Resolves to null when the SKU does not exist in the catalog.
+   */
+  findBySku(sku: string): Promise<CatalogProduct | null>;
+}
@@ -0,0 +1,59 @@
+import {
+  ReturnHistoryEntry,
+  ReturnItem,
+  ReturnRequest,
+  ReturnStatus,
+} from '../entities/return-request.entity';
+import { OutboxMessage } from './outbox-repository.interface';
+
+export const RETURN_REPOSITORY = 'RETURN_REPOSITORY';
+
+export interface ReturnListFilter {
+  status?: ReturnStatus;
+  buyerId?: string;
+  orderId?: string;
+  page: number;
+  limit: number;
+}
+
+/**
+ * Builds the events to record for a saved return, written to the outbox
+ * in the same transaction.
+ */
+export type ReturnEventsBuilder = (ret: ReturnRequest) => OutboxMessage[];
+
+/**
+ * Builds the return to open from the units per SKU of the order already in
+ * returns that were not rejected. Throws when the return is not allowed.
+ */
+export type ReturnBuilder = (
+  alreadyReturned: Record<string, number>,
+) => ReturnRequest;
+
+export interface ReturnRepositoryInterface {
+  /**
+   * Open a return for `orderId`. Returns of the same order are opened one
+   * at a time, so two concurrent requests cannot both claim the same units.
+   */
+  create(
+    orderId: string,
+    build: ReturnBuilder,
+    events?: ReturnEventsBuilder,
+  ): Promise<ReturnRequest>;
+  findById(id: string): Promise<ReturnRequest | null>;
+  findAll(
+    filter: ReturnListFilter,
+  ): Promise<{ returns: ReturnRequest[]; total: number }>;
+  /**
+   * Atomically move a return from `from` to `entry.to`, append the history
+   * entry and, when given, replace the items (received quantities).
+   * Resolves to null when the return is missing or no longer in `from`.
+   */
+  transitionStatus(
+    id: string,
+    from: ReturnStatus,
+    entry: ReturnHistoryEntry,
+    items?: ReturnItem[],
+    events?: ReturnEventsBuilder,
+  ): Promise<ReturnRequest | null>;
+}
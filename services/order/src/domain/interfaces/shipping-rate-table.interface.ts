@@ -0,0 +1,38 @@
+export const SHIPPING_RATE_TABLE = 'SHIPPING_RATE_TABLE';
+
+/**
+ * Destination zone. A zone listing states wins over a country-wide
+ * zone; `*` in `countries` matches any destination (and orders without
+ * a shipping address).
+ */
+export interface ShippingZone {
+  id: string;
+  countries: string[];
+  states?: string[];
+}
+
+/**
+ * Price of a method in one zone, in the base currency: `base + perKg * weight`.
+ */
+export interface ShippingRate {
+  zone: string;
+  base: number;
+  perKg: number;
+}
+
+export interface ShippingMethodConfig {
+  id: string;
+  name: string;
+  /** Shown at checkout, e.g. "3-5 business days" */
+  estimatedDelivery: string;
+  rates: ShippingRate[];
+  /** Only offered when the item subtotal reaches this value */
+  minSubtotal?: number;
+}
+
+export interface ShippingRateTable {
+  zones: ShippingZone[];
+  methods: ShippingMethodConfig[];
+  /** Used for products without a catalog weight */
+  defaultItemWeightKg: number;
+}
@@ -0,0 +1,23 @@
+export const TAX_RATE_TABLE = 'TAX_RATE_TABLE';
+
+/**
+ * Rate for one jurisdiction. The most specific matching rule wins:
+ * zip prefix, then state, then country.
+ */
+export interface TaxRule {
+  country: string;
+  state?: string;
+  zipPrefix?: string;
+  /** Fraction, e.g. 0.0725 for 7.25% */
+  rate: number;
+  /** Overrides `rate` for products in these catalog categories */
+  categoryRates?: Record<string, number>;
+}
+
+export interface TaxRateTable {
+  /** Used when no rule matches or the order has no shipping address */
+  defaultRate: number;
+  rules: TaxRule[];
+  /** Buyer IDs that are never charged tax (e.g. resellers, non-profits) */
+  exemptBuyers: string[];
+}
@@ -0,0 +1,55 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { Money } from '../value-objects/order-vo';
+import {
+  EXCHANGE_RATE_TABLE,
+  ExchangeRateTable,
+} from '../interfaces/exchange-rate-table.interface';
+
+export class UnsupportedCurrencyError extends Error {
+  constructor(public readonly currency: string) {
+    super(`Currency ${currency} is not supported`);
+  }
+}
+
+/**
+ * Converts base-currency amounts into the currencies storefronts charge in,
+ * using the configured exchange-rate table.
+ */
+@Injectable()
+export class CurrencyService {
+  constructor(
+    @Inject(EXCHANGE_RATE_TABLE)
+    private readonly table: ExchangeRateTable,
+  ) {}
+
+  get baseCurrency(): string {
+    return this.table.baseCurrency.toUpperCase();
+  }
+
+  supported(): { code: string; rate: number }[] {
+    return Object.entries(this.table.rates).map(([code, rate]) => ({
+      code: code.toUpperCase(),
+      rate,
+    }));
+  }
+
+  /**
+   * Units of `currency` per one unit of the base currency.
+   *
+   * @throws UnsupportedCurrencyError when the currency has no rate
+   */
+  rateFor(currency: string): number {
+    const code = currency.toUpperCase();
+    if (code === this.baseCurrency) return 1;
+    const rate = this.supported().find((c) => c.code === code)?.rate;
+    if (!rate) throw new UnsupportedCurrencyError(code);
+    return rate;
+  }
+
+  /**
+   * Base-currency amount expressed in `currency`.
+   */
+  fromBase(amount: Money, currency: string): Money {
+    return amount.convert(currency, this.rateFor(currency));
+  }
+}
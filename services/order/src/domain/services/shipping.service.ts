@@ -0,0 +1,143 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { ShippingAddress } from '../entities/order.entity';
+import { Money } from '../value-objects/order-vo';
+import { CurrencyService } from './currency.service';
+import {
+  SHIPPING_RATE_TABLE,
+  ShippingMethodConfig,
+  ShippingRateTable,
+  ShippingZone,
+} from '../interfaces/shipping-rate-table.interface';
+
+export interface ShippableLine {
+  /** In the base currency */
+  unitPrice: Money;
+  quantity: number;
+  /** kg per unit */
+  weight?: number;
+}
+
+export interface ShippingOption {
+  method: string;
+  name: string;
+  estimatedDelivery: string;
+  /** In the base currency */
+  cost: Money;
+}
+
+export class ShippingMethodUnavailableError extends Error {
+  constructor(
+    public readonly method: string,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Prices shipping from the destination zone, the parcel weight and the
+ * item subtotal (before discounts) using the configured rate table, whose
+ * amounts are in the base currency.
+ */
+@Injectable()
+export class ShippingService {
+  constructor(
+    @Inject(SHIPPING_RATE_TABLE)
+    private readonly table: ShippingRateTable,
+
+    private readonly currencies: CurrencyService,
+  ) {}
+
+  /**
+   * Methods available for this cart and destination, cheapest first.
+   */
+  options(
+    lines: ShippableLine[],
+    shippingAddress?: ShippingAddress,
+  ): ShippingOption[] {
+    const zone = this.findZone(shippingAddress);
+    if (!zone) return [];
+
+    const subtotal = lines.reduce(
+      (s, l) => s.add(l.unitPrice.multiply(l.quantity)),
+      Money.zero(this.currencies.baseCurrency),
+    );
+    const weight = lines.reduce(
+      (s, l) => s + (l.weight ?? this.table.defaultItemWeightKg) * l.quantity,
+      0,
+    );
+
+    return this.table.methods
+      .flatMap((method) => {
+        const option = this.price(method, zone, subtotal, weight);
+        return option ? [option] : [];
+      })
+      .sort((a, b) => a.cost.amount - b.cost.amount);
+  }
+
+  /**
+   * @throws ShippingMethodUnavailableError when the method is unknown or not offered here
+   */
+  quote(
+    methodId: string,
+    lines: ShippableLine[],
+    shippingAddress?: ShippingAddress,
+  ): ShippingOption {
+    const option = this.options(lines, shippingAddress).find(
+      (o) => o.method === methodId,
+    );
+    if (!option) {
+      throw new ShippingMethodUnavailableError(
+        methodId,
+        `Shipping method "${methodId}" is not available for this order`,
+      );
+    }
+    return option;
+  }
+
+  private price(
+    method: ShippingMethodConfig,
+    zone: ShippingZone,
+    subtotal: Money,
+    weight: number,
+  ): ShippingOption | null {
+    if (
+      method.minSubtotal !== undefined &&
+      subtotal.amount < Money.of(method.minSubtotal, subtotal.currency).amount
+    ) {
+      return null;
+    }
+    const rate = method.rates.find((r) => r.zone === zone.id);
+    if (!rate) return null;
+
+    return {
+      method: method.id,
+      name: method.name,
+      estimatedDelivery: method.estimatedDelivery,
+      cost: Money.of(rate.base + rate.perKg * weight, subtotal.currency),
+    };
+  }
+
+  private findZone(address?: ShippingAddress): ShippingZone | undefined {
+    const country = address?.country.trim().toUpperCase();
+    const state = address?.state.trim().toUpperCase();
+    const matches = (zone: ShippingZone) =>
+      zone.countries.some((c) => c === '*' || c.toUpperCase() === country);
+
+    return (
+      this.table.zones.find(
+        (zone) =>
+          zone.states?.length &&
+          matches(zone) &&
+          zone.states.some((s) => s.toUpperCase() === state),
+      ) ??
+      this.table.zones.find(
+        (zone) =>
+          !zone.states?.length &&
+          matches(zone) &&
+          !zone.countries.includes('*'),
+      ) ??
+      this.table.zones.find((zone) => zone.countries.includes('*'))
+    );
+  }
+}
@@ -0,0 +1,124 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { ShippingAddress, TaxBreakdownLine } from '../entities/order.entity';
+import { Money } from '../value-objects/order-vo';
+import {
+  TAX_RATE_TABLE,
+  TaxRateTable,
+  TaxRule,
+} from '../interfaces/tax-rate-table.interface';
+
+export interface TaxableLine {
+  sku: string;
+  category?: string;
+  unitPrice: Money;
+  quantity: number;
+}
+
+export interface TaxQuote {
+  /** Subtotal after discount */
+  taxableAmount: Money;
+  tax: Money;
+  exempt: boolean;
+  /** Matched rule, e.g. "USA/CA/900" or "default" */
+  jurisdiction: string;
+  /** One entry per rate applied, highest rate first */
+  breakdown: TaxBreakdownLine[];
+}
+
+/**
+ * Calculates order tax from the shipping address and the rate table.
+ *
+ * A discount is spread over the lines in proportion to their amount,
+ * so discounted items in a lower-rate category lower the tax fairly.
+ */
+@Injectable()
+export class TaxService {
+  constructor(
+    @Inject(TAX_RATE_TABLE)
+    private readonly table: TaxRateTable,
+  ) {}
+
+  calculate(input: {
+    buyerId: string;
+    /** Currency of the line prices, the discount and the quote */
+    currency: string;
+    lines: TaxableLine[];
+    shippingAddress?: ShippingAddress;
+    discount?: Money;
+  }): TaxQuote {
+    const zero = Money.zero(input.currency);
+    const subtotal = input.lines.reduce(
+      (s, line) => s.add(line.unitPrice.multiply(line.quantity)),
+      zero,
+    );
+    const discount = (input.discount ?? zero).min(subtotal);
+    const taxableAmount = subtotal.subtract(discount);
+    const rule = this.findRule(input.shippingAddress);
+    const jurisdiction = rule
+      ? [rule.country, rule.state, rule.zipPrefix].filter(Boolean).join('/')
+      : 'default';
+
+    if (this.table.exemptBuyers.includes(input.buyerId) || subtotal.isZero()) {
+      return {
+        taxableAmount,
+        tax: zero,
+        exempt: !subtotal.isZero(),
+        jurisdiction,
+        breakdown: [],
+      };
+    }
+
+    const remaining = taxableAmount.amount / subtotal.amount;
+    // Minor units, unrounded until the tax for each rate is worked out
+    const taxableByRate = new Map<number, number>();
+    for (const line of input.lines) {
+      const rate = this.rateFor(rule, line.category);
+      taxableByRate.set(
+        rate,
+        (taxableByRate.get(rate) ?? 0) +
+          line.unitPrice.multiply(line.quantity).amount * remaining,
+      );
+    }
+
+    // Rounded per rate so the breakdown printed on an invoice adds up to the tax
+    const breakdown = [...taxableByRate.entries()]
+      .sort(([a], [b]) => b - a)
+      .map(([rate, taxable]) => ({
+        rate,
+        taxableAmount: new Money(Math.round(taxable), input.currency),
+        tax: new Money(Math.round(taxable * rate), input.currency),
+      }));
+    const tax = breakdown.reduce((s, line) => s.add(line.tax), zero);
+
+    return { taxableAmount, tax, exempt: false, jurisdiction, breakdown };
+  }
+
+  private findRule(address?: ShippingAddress): TaxRule | undefined {
+    if (!address) return undefined;
+
+    const country = address.country.trim().toUpperCase();
+    const state = address.state.trim().toUpperCase();
+    const zip = address.zipCode.trim().toUpperCase();
+
+    return this.table.rules
+      .filter(
+        (rule) =>
+          rule.country.toUpperCase() === country &&
+          (!rule.state || rule.state.toUpperCase() === state) &&
+          (!rule.zipPrefix || zip.startsWith(rule.zipPrefix.toUpperCase())),
+      )
+      .sort((a, b) => this.specificity(b) - this.specificity(a))[0];
+  }
+
+  private specificity(rule: TaxRule): number {
+    return (
+      (rule.zipPrefix ? 100 + rule.zipPrefix.length : 0) + (rule.state ? 10 : 0)
+    );
+  }
+
+  private rateFor(rule: TaxRule | undefined, category?: string): number {
+    if (!rule) return this.table.defaultRate;
+    const categoryRate = category ? rule.categoryRates?.[category] : undefined;
+    return categoryRate ?? rule.rate;
+  }
+}
@@ -1,5 +1,124 @@
+/**
+ * Digits after the decimal point, per ISO 4217 as the runtime knows it
+ * (JPY 0, BHD 3...). Unknown codes use 2.
+ */
+export function minorUnitDigits(currency: string): number {
+  try {
+    return (
+      new Intl.NumberFormat('en', {
+        style: 'currency',
+        currency,
+      }).resolvedOptions().maximumFractionDigits ?? 2
+    );
+  } catch {
+    return 2;
+  }
+}
+
+/**
+ * An amount of money as an integer number of minor units (cents, pence,
+ * paise...) in one currency. Arithmetic never goes through floating
+ * point amounts, so totals add up to the cent.
+ *
+ * @example
+ * Money.of(19.99, 'USD').multiply(3).toMajor() // 59.97
+ */
 export class Money {
-  constructor(public amount: number, public currency = 'USD') {
+  readonly currency: string;
+
+  constructor(
+    /** Integer amount in minor units */
+    public readonly amount: number,
+    currency = 'USD',
+  ) {
+    if (!Number.isInteger(amount)) {
+      throw new Error('Amount must be a whole number of minor units');
+    }
     if (amount < 0) throw new Error('Amount must be >= 0');
+    this.currency = currency.toUpperCase();
+  }
+
+  /**
+   * From a decimal amount such as 19.99, rounded to the currency's minor unit.
+   */
+  static of(major: number, currency = 'USD'): Money {
+    return new Money(
+      Math.round(major * 10 ** Money.digits(currency)),
+      currency,
+    );
+  }
+
+  static zero(currency = 'USD'): Money {
+    return new Money(0, currency);
+  }
+
+  static digits(currency: string): number {
+    return minorUnitDigits(currency);
+  }
+
+  add(other: Money): Money {
+    this.assertSameCurrency(other);
+    return new Money(this.amount + other.amount, this.currency);
+  }
+
+  /**
+   * @throws Error if the result would be negative
+   */
+  subtract(other: Money): Money {
+    this.assertSameCurrency(other);
+    if (other.amount > this.amount) {
+      throw new Error(
+        `Cannot subtract ${other.toString()} from ${this.toString()}`,
+      );
+    }
+    return new Money(this.amount - other.amount, this.currency);
+  }
+
+  /**
+   * Multiply by a quantity or rate, rounding half up to the minor unit.
+   */
+  multiply(factor: number): Money {
+    return new Money(Math.round(this.amount * factor), this.currency);
+  }
+
+  /**
+   * Convert with `rate` units of `currency` per unit of this currency,
+   * rounding to the target currency's minor unit.
+   */
+  convert(currency: string, rate: number): Money {
+    if (currency.toUpperCase() === this.currency) return this;
+    return Money.of(this.toMajor() * rate, currency);
+  }
+
+  min(other: Money): Money {
+    this.assertSameCurrency(other);
+    return this.amount <= other.amount ? this : other;
+  }
+
+  equals(other: Money): boolean {
+    return this.currency === other.currency && this.amount === other.amount;
+  }
+
+  isZero(): boolean {
+    return this.amount === 0;
+  }
+
+  /**
+   * Decimal amount for APIs and display, e.g. 1999 USD → 19.99.
+   */
+  toMajor(): number {
+    return this.amount / 10 ** Money.digits(this.currency);
+  }
+
+  toString(): string {
+    return `${this.toMajor().toFixed(Money.digits(this.currency))} ${this.currency}`;
+  }
+
+  private assertSameCurrency(other: Money) {
+    if (other.currency !== this.currency) {
+      throw new Error(
+        `Currency mismatch: ${this.currency} and ${other.currency}`,
+      );
+    }
   }
 }
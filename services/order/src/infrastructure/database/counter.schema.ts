@@ -0,0 +1,19 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument } from 'mongoose';
+
+export type CounterDocument = HydratedDocument<CounterModel>;
+
+/**
+ * Named sequences, e.g. invoice numbers. Incremented with $inc inside the
+ * caller's transaction, so an aborted transaction leaves no gap.
+ */
+@Schema({ collection: 'order_counters' })
+export class CounterModel {
+  @Prop({ required: true, unique: true })
+  name!: string;
+
+  @Prop({ default: 0 })
+  seq!: number;
+}
+
+export const CounterSchema = SchemaFactory.createForClass(CounterModel);
@@ -0,0 +1,76 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument } from 'mongoose';
+
+export type CouponDocument = HydratedDocument<CouponModel>;
+
+@Schema({ collection: 'coupons', timestamps: true })
+export class CouponModel {
+  @Prop({ required: true, unique: true })
+  code!: string;
+
+  @Prop({ required: true })
+  type!: string;
+
+  @Prop({ required: true })
+  value!: number;
+
+  @Prop()
+  description?: string;
+
+  @Prop({ default: true })
+  active!: boolean;
+
+  @Prop()
+  minSpend?: number;
+
+  @Prop()
+  startsAt?: Date;
+
+  @Prop()
+  expiresAt?: Date;
+
+  @Prop()
+  maxRedemptions?: number;
+
+  @Prop()
+  maxRedemptionsPerCustomer?: number;
+
+  @Prop({ default: 0 })
+  redemptionCount!: number;
+
+  @Prop({ type: [String], default: [] })
+  skus!: string[];
+
+  @Prop({ type: [String], default: [] })
+  categories!: string[];
+}
+
+export const CouponSchema = SchemaFactory.createForClass(CouponModel);
+CouponSchema.index({ active: 1, createdAt: -1 });
+
+/**
+ * One document per coupon and buyer. `count` is incremented with a
+ * conditional upsert so the per-customer limit holds under concurrency.
+ * `orderIds` lists the orders that redeemed it, indexed so a cancelled
+ * order's redemption is found without scanning the collection.
+ */
+@Schema({ collection: 'coupon_redemptions', timestamps: true })
+export class CouponRedemptionModel {
+  @Prop({ required: true })
+  code!: string;
+
+  @Prop({ required: true })
+  buyerId!: string;
+
+  @Prop({ default: 0 })
+  count!: number;
+
+  @Prop({ type: [String], default: [] })
+  orderIds!: string[];
+}
+
+export const CouponRedemptionSchema = SchemaFactory.createForClass(
+  CouponRedemptionModel,
+);
+CouponRedemptionSchema.index({ code: 1, buyerId: 1 }, { unique: true });
+CouponRedemptionSchema.index({ orderIds: 1 });
@@ -0,0 +1,76 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { minorUnitScale } from './minor-units';
+import { OrderModel } from './order.schema';
+
+/**
+ * Converts the decimal amounts of orders stored before amounts were kept
+ * in minor units, once, when the service starts. Converted orders are
+ * flagged `minorUnits`, so running it again is a no-op.
+ */
+@Injectable()
+export class MinorUnitsMigration implements OnModuleInit {
+  private readonly logger = new Logger(MinorUnitsMigration.name);
+
+  constructor(
+    @InjectModel(OrderModel.name)
+    private readonly orderModel: Model<OrderModel>,
+  ) {}
+
+  async onModuleInit() {
+    const result = await this.orderModel.updateMany(
+      { minorUnits: { $ne: true } },
+      [
+        {
+          $set: {
+            items: this.mapAmounts('$items', ['unitPrice']),
+            subtotal: this.toMinor('$subtotal'),
+            discount: this.toMinor('$discount'),
+            shippingCost: this.toMinor('$shippingCost'),
+            tax: this.toMinor('$tax'),
+            total: this.toMinor('$total'),
+            baseTotal: this.toMinor(
+              '$baseTotal',
+              minorUnitScale({ $ifNull: ['$baseCurrency', '$currency'] }),
+            ),
+            minorUnits: true,
+          },
+        },
+      ],
+    );
+
+    if (result.modifiedCount) {
+      this.logger.log(
+        `💱 Converted ${result.modifiedCount} order(s) to minor units`,
+      );
+    }
+  }
+
+  /** A decimal amount of the document currency in minor units; missing stays missing */
+  private toMinor(
+    amount: string,
+    scale: unknown = minorUnitScale('$currency'),
+  ) {
+    return {
+      $ifNull: [{ $round: [{ $multiply: [amount, scale] }, 0] }, '$$REMOVE'],
+    };
+  }
+
+  private mapAmounts(array: string, fields: string[]) {
+    return {
+      $map: {
+        input: { $ifNull: [array, []] },
+        as: 'entry',
+        in: {
+          $mergeObjects: [
+            '$$entry',
+            Object.fromEntries(
+              fields.map((field) => [field, this.toMinor(`$$entry.${field}`)]),
+            ),
+          ],
+        },
+      },
+    };
+  }
+}
@@ -0,0 +1,35 @@
+import { minorUnitDigits } from '../../domain/value-objects/order-vo';
+
+// Typed from ES2022, newer than the compile target
+const currencies = (
+  Intl as unknown as { supportedValuesOf(key: 'currency'): string[] }
+).supportedValuesOf('currency');
+
+/**
+ * ISO 4217 codes whose minor unit is not a hundredth (JPY, BHD...),
+ * grouped by digits after the decimal point.
+ */
+export const UNCOMMON_MINOR_UNITS: { digits: number; currencies: string[] }[] =
+  [...new Set(currencies.map(minorUnitDigits))]
+    .filter((digits) => digits !== 2)
+    .map((digits) => ({
+      digits,
+      currencies: currencies.filter((c) => minorUnitDigits(c) === digits),
+    }));
+
+/**
+ * Aggregation expression for the minor units per major unit (100 for USD,
+ * 1 for JPY) of the currency code that `currency` evaluates to, so stored
+ * minor units can be converted between currencies or to decimals.
+ */
+export function minorUnitScale(currency: unknown) {
+  return {
+    $switch: {
+      branches: UNCOMMON_MINOR_UNITS.map((group) => ({
+        case: { $in: [currency, group.currencies] },
+        then: 10 ** group.digits,
+      })),
+      default: 100,
+    },
+  };
+}
@@ -12,23 +12,177 @@ export class OrderModel {
   buyerId!: string;
 
   @Prop({ type: Array, default: [] })
-  items!: any[];
+  items!: {
+    sku: string;
+    name: string;
+    unitPrice: number;
+    quantity: number;
+    allocation?: {
+      status: string;
+      backordered: number;
+      releaseDate?: Date;
+    };
+  }[];
 
   @Prop({ required: true })
   subtotal!: number;
 
+  @Prop({ default: 0 })
+  discount!: number;
+
+  @Prop()
+  couponCode?: string;
+
+  @Prop()
+  shippingMethod?: string;
+
+  @Prop({ default: 'cod' })
+  paymentMethod!: string;
+
+  @Prop()
+  guestEmail?: string;
+
+  @Prop()
+  claimedAt?: Date;
+
+  @Prop({ default: 0 })
+  refundedAmount!: number;
+
+  @Prop({
+    type: [
+      {
+        _id: false,
+        amount: { type: Number },
+        currency: { type: String },
+        provider: { type: String },
+        reference: { type: String },
+        reason: { type: String, required: true },
+        receivedAt: { type: Date, required: true },
+      },
+    ],
+    default: [],
+  })
+  unappliedPayments!: {
+    amount?: number;
+    currency?: string;
+    provider?: string;
+    reference?: string;
+    reason: string;
+    receivedAt: Date;
+  }[];
+
+  @Prop()
+  checkoutStartedAt?: Date;
+
+  @Prop({ default: 0 })
+  shippingCost!: number;
+
+  @Prop()
+  baseCurrency?: string;
+
+  @Prop()
+  baseTotal?: number;
+
+  @Prop({ default: 1 })
+  exchangeRate!: number;
+
   @Prop({ required: true })
   tax!: number;
 
+  @Prop({
+    type: [
+      {
+        _id: false,
+        rate: { type: Number, required: true },
+        taxableAmount: { type: Number, required: true },
+        tax: { type: Number, required: true },
+      },
+    ],
+    default: [],
+  })
+  taxBreakdown!: { rate: number; taxableAmount: number; tax: number }[];
+
+  @Prop()
+  invoiceNumber?: string;
+
+  @Prop()
+  invoicedAt?: Date;
+
   @Prop({ required: true })
   total!: number;
 
   @Prop({ default: 'USD' })
   currency!: string;
 
+  /**
+   * Set when the amounts (prices, totals, tax breakdown, amendment totals,
+   * refunds) are integer minor units of `currency`, and `baseTotal` of
+   * `baseCurrency`. Orders stored before were decimal until migrated.
+   */
+  @Prop()
+  minorUnits?: boolean;
+
   @Prop({ default: 'pending' })
   status!: string;
 
+  @Prop({
+    type: [
+      {
+        _id: false,
+        shipmentId: { type: String, required: true },
+        items: [{ _id: false, sku: String, name: String, quantity: Number }],
+        carrier: { type: String, required: true },
+        trackingNumber: { type: String, required: true },
+        status: { type: String, required: true },
+        shippedAt: { type: Date, required: true },
+        deliveredAt: { type: Date },
+      },
+    ],
+    default: [],
+  })
+  shipments!: {
+    shipmentId: string;
+    items: { sku: string; name: string; quantity: number }[];
+    carrier: string;
+    trackingNumber: string;
+    status: string;
+    shippedAt: Date;
+    deliveredAt?: Date;
+  }[];
+
+  @Prop({
+    type: [
+      {
+        _id: false,
+        amendmentId: { type: String, required: true },
+        number: { type: Number, required: true },
+        lines: [
+          { _id: false, sku: String, name: String, from: Number, to: Number },
+        ],
+        addressChanged: { type: Boolean, default: false },
+        previousShippingAddress: { type: Object },
+        previousTotal: { type: Number, required: true },
+        total: { type: Number, required: true },
+        changedBy: { type: String, required: true },
+        reason: { type: String },
+        changedAt: { type: Date, required: true },
+      },
+    ],
+    default: [],
+  })
+  amendments!: {
+    amendmentId: string;
+    number: number;
+    lines: { sku: string; name: string; from: number; to: number }[];
+    addressChanged: boolean;
+    previousShippingAddress?: Record<string, string>;
+    previousTotal: number;
+    total: number;
+    changedBy: string;
+    reason?: string;
+    changedAt: Date;
+  }[];
+
   @Prop({ type: Object, required: false })
   shippingAddress?: {
     street: string;
@@ -37,8 +191,38 @@ export class OrderModel {
     zipCode: string;
     country: string;
   };
+
+  @Prop({
+    type: [
+      {
+        _id: false,
+        from: { type: String, default: null },
+        to: { type: String, required: true },
+        changedBy: { type: String, required: true },
+        reason: { type: String },
+        changedAt: { type: Date, required: true },
+      },
+    ],
+    default: [],
+  })
+  statusHistory!: {
+    from: string | null;
+    to: string;
+    changedBy: string;
+    reason?: string;
+    changedAt: Date;
+  }[];
 }
 
 export const OrderSchema = SchemaFactory.createForClass(OrderModel);
+
+// ✅ Indexes backing the order list filters and sorts
+OrderSchema.index({ createdAt: -1 });
+OrderSchema.index({ buyerId: 1, createdAt: -1 });
+OrderSchema.index({ status: 1, createdAt: -1 });
+OrderSchema.index({ status: 1, paymentMethod: 1, createdAt: 1 });
+OrderSchema.index({ 'items.sku': 1, createdAt: -1 });
+OrderSchema.index({ total: 1 });
+OrderSchema.index({ invoiceNumber: 1 }, { unique: true, sparse: true });
 export const OrderModelName = 'OrderModel';
 export { OrderModel as OrderModelClass };
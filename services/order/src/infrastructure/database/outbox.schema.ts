@@ -0,0 +1,44 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument } from 'mongoose';
+
+export type OutboxEventDocument = HydratedDocument<OutboxEventModel>;
+
+@Schema({ collection: 'order_outbox', timestamps: true })
+export class OutboxEventModel {
+  @Prop({ required: true, unique: true })
+  eventId!: string;
+
+  @Prop({ required: true })
+  topic!: string;
+
+  @Prop({ required: true })
+  key!: string;
+
+  @Prop({ type: Object, required: true })
+  payload!: Record<string, unknown>;
+
+  @Prop({ default: 'pending' })
+  status!: string;
+
+  @Prop({ default: 0 })
+  attempts!: number;
+
+  @Prop()
+  lastError?: string;
+
+  @Prop({ required: true })
+  nextAttemptAt!: Date;
+
+  @Prop({ type: Date, default: null })
+  lockedUntil?: Date | null;
+
+  @Prop()
+  sentAt?: Date;
+}
+
+export const OutboxEventSchema = SchemaFactory.createForClass(OutboxEventModel);
+
+// ✅ Relay polling, per-order ordering and stuck-event listing
+OutboxEventSchema.index({ status: 1, nextAttemptAt: 1 });
+OutboxEventSchema.index({ key: 1, createdAt: 1 });
+OutboxEventSchema.index({ status: 1, createdAt: 1 });
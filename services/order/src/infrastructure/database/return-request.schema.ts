@@ -0,0 +1,80 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument } from 'mongoose';
+
+export type ReturnRequestDocument = HydratedDocument<ReturnRequestModel>;
+
+@Schema({ collection: 'order_returns', timestamps: true })
+export class ReturnRequestModel {
+  @Prop({ required: true, unique: true })
+  returnId!: string;
+
+  @Prop({ required: true, index: true })
+  orderId!: string;
+
+  @Prop({ required: true })
+  buyerId!: string;
+
+  @Prop({
+    type: [
+      {
+        _id: false,
+        sku: { type: String, required: true },
+        name: { type: String, required: true },
+        unitPrice: { type: Number, required: true },
+        quantity: { type: Number, required: true },
+        restockedQuantity: { type: Number },
+        damagedQuantity: { type: Number },
+      },
+    ],
+    default: [],
+  })
+  items!: {
+    sku: string;
+    name: string;
+    unitPrice: number;
+    quantity: number;
+    restockedQuantity?: number;
+    damagedQuantity?: number;
+  }[];
+
+  @Prop({ required: true })
+  reason!: string;
+
+  @Prop({ default: 'requested' })
+  status!: string;
+
+  /** Integer minor units of `currency`, like the item unit prices */
+  @Prop({ required: true })
+  refundAmount!: number;
+
+  @Prop({ required: true })
+  currency!: string;
+
+  @Prop({
+    type: [
+      {
+        _id: false,
+        from: { type: String, default: null },
+        to: { type: String, required: true },
+        changedBy: { type: String, required: true },
+        note: { type: String },
+        changedAt: { type: Date, required: true },
+      },
+    ],
+    default: [],
+  })
+  statusHistory!: {
+    from: string | null;
+    to: string;
+    changedBy: string;
+    note?: string;
+    changedAt: Date;
+  }[];
+}
+
+export const ReturnRequestSchema =
+  SchemaFactory.createForClass(ReturnRequestModel);
+
+// ✅ Admin queue and customer history
+ReturnRequestSchema.index({ status: 1, createdAt: -1 });
+ReturnRequestSchema.index({ buyerId: 1, createdAt: -1 });
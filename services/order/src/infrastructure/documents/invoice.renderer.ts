@@ -0,0 +1,267 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Order } from '../../domain/entities/order.entity';
+import { PAGE_HEIGHT, PAGE_WIDTH, PdfDocument } from './pdf-document';
+
+export interface InvoiceSeller {
+  name: string;
+  address: string[];
+  taxId?: string;
+  email?: string;
+}
+
+interface InvoiceRow {
+  label: string;
+  amount: string;
+  bold?: boolean;
+}
+
+const MARGIN = 50;
+
+/**
+ * Renders a paid order as an invoice, in HTML or PDF. Both formats show
+ * the same content, worked out once in `rows`/`parties`.
+ */
+@Injectable()
+export class InvoiceRenderer {
+  private readonly seller: InvoiceSeller;
+
+  constructor(config: ConfigService) {
+    this.seller = config.getOrThrow<InvoiceSeller>('order.invoice.seller');
+  }
+
+  toHtml(order: Order): string {
+    const e = (value: string) => this.escapeHtml(value);
+    const { seller, billTo } = this.parties(order);
+    const block = (lines: string[]) => lines.map(e).join('<br>');
+
+    const items = order.items
+      .map(
+        (item) => `
+        <tr>
+          <td>${e(item.name)}<br><small>${e(item.sku)}</small></td>
+          <td class="num">${item.quantity}</td>
+          <td class="num">${e(item.unitPrice.toString())}</td>
+          <td class="num">${e(item.unitPrice.multiply(item.quantity).toString())}</td>
+        </tr>`,
+      )
+      .join('');
+    const totals = this.rows(order)
+      .map(
+        (row) => `
+        <tr${row.bold ? ' class="total"' : ''}>
+          <td colspan="3">${e(row.label)}</td>
+          <td class="num">${e(row.amount)}</td>
+        </tr>`,
+      )
+      .join('');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>Invoice ${e(order.invoiceNumber ?? '')}</title>
+  <style>
+    body { font-family: Helvetica, Arial, sans-serif; color: #111; max-width: 800px; margin: 40px auto; }
+    h1 { margin-bottom: 4px; }
+    .meta { margin: 0 0 24px; }
+    .parties { display: flex; justify-content: space-between; margin-bottom: 24px; }
+    table { width: 100%; border-collapse: collapse; }
+    th, td { padding: 8px; border-bottom: 1px solid #ddd; text-align: left; vertical-align: top; }
+    .num { text-align: right; }
+    .total td { font-weight: bold; border-top: 2px solid #111; }
+    small { color: #666; }
+  </style>
+</head>
+<body>
+  <h1>Invoice</h1>
+  <p class="meta">${block(this.meta(order))}</p>
+  <div class="parties">
+    <div><strong>From</strong><br>${block(seller)}</div>
+    <div><strong>Bill to</strong><br>${block(billTo)}</div>
+  </div>
+  <table>
+    <thead>
+      <tr><th>Item</th><th class="num">Qty</th><th class="num">Unit price</th><th class="num">Amount</th></tr>
+    </thead>
+    <tbody>${items}
+    </tbody>
+    <tfoot>${totals}
+    </tfoot>
+  </table>
+</body>
+</html>
+`;
+  }
+
+  toPdf(order: Order): Buffer {
+    const pdf = new PdfDocument();
+    const right = PAGE_WIDTH - MARGIN;
+    const columns = { qty: 350, unitPrice: 450, amount: right, totals: 260 };
+    let y = PAGE_HEIGHT - MARGIN - 10;
+
+    const ensureSpace = (needed: number) => {
+      if (y - needed >= MARGIN) return;
+      pdf.addPage();
+      y = PAGE_HEIGHT - MARGIN;
+    };
+
+    pdf.text(MARGIN, y, 'INVOICE', { size: 22, bold: true });
+    y -= 28;
+    for (const line of this.meta(order)) {
+      pdf.text(MARGIN, y, line);
+      y -= 14;
+    }
+
+    y -= 12;
+    const { seller, billTo } = this.parties(order);
+    pdf.text(MARGIN, y, 'From', { bold: true });
+    pdf.text(320, y, 'Bill to', { bold: true });
+    y -= 14;
+    for (let n = 0; n < Math.max(seller.length, billTo.length); n++) {
+      if (seller[n]) pdf.text(MARGIN, y, seller[n]);
+      if (billTo[n]) pdf.text(320, y, billTo[n]);
+      y -= 14;
+    }
+
+    y -= 16;
+    pdf.text(MARGIN, y, 'Item', { bold: true });
+    pdf.text(columns.qty, y, 'Qty', { bold: true, align: 'right' });
+    pdf.text(columns.unitPrice, y, 'Unit price', {
+      bold: true,
+      align: 'right',
+    });
+    pdf.text(columns.amount, y, 'Amount', { bold: true, align: 'right' });
+    y -= 6;
+    pdf.line(MARGIN, y, right, y);
+    y -= 16;
+
+    for (const item of order.items) {
+      ensureSpace(30);
+      pdf.text(MARGIN, y, item.name);
+      pdf.text(columns.qty, y, String(item.quantity), { align: 'right' });
+      pdf.text(columns.unitPrice, y, item.unitPrice.toString(), {
+        align: 'right',
+      });
+      pdf.text(
+        columns.amount,
+        y,
+        item.unitPrice.multiply(item.quantity).toString(),
+        { align: 'right' },
+      );
+      pdf.text(MARGIN, y - 11, item.sku, { size: 8 });
+      y -= 28;
+    }
+
+    const rows = this.rows(order);
+    ensureSpace(rows.length * 16 + 10);
+    pdf.line(MARGIN, y + 10, right, y + 10);
+    for (const row of rows) {
+      if (row.bold) {
+        y -= 4;
+        pdf.line(columns.totals, y + 14, right, y + 14, 1);
+      }
+      pdf.text(columns.totals, y, row.label, { bold: row.bold });
+      pdf.text(columns.amount, y, row.amount, {
+        bold: row.bold,
+        align: 'right',
+      });
+      y -= 16;
+    }
+
+    return pdf.toBuffer();
+  }
+
+  private meta(order: Order): string[] {
+    return [
+      `Invoice number: ${order.invoiceNumber ?? '-'}`,
+      `Invoice date: ${this.date(order.invoicedAt ?? order.updatedAt)}`,
+      `Order: ${order.id}`,
+      `Order date: ${this.date(order.createdAt)}`,
+    ];
+  }
+
+  private parties(order: Order): { seller: string[]; billTo: string[] } {
+    const address = order.shippingAddress;
+    return {
+      seller: [
+        this.seller.name,
+        ...this.seller.address,
+        ...(this.seller.taxId ? [`Tax ID: ${this.seller.taxId}`] : []),
+        ...(this.seller.email ? [this.seller.email] : []),
+      ],
+      billTo: [
+        `Customer ${order.buyerId}`,
+        ...(address
+          ? [
+              address.street,
+              `${address.city}, ${address.state} ${address.zipCode}`,
+              address.country,
+            ]
+          : []),
+      ],
+    };
+  }
+
+  /**
+   * Totals section. Orders placed before the breakdown was stored show a
+   * single tax line.
+   */
+  private rows(order: Order): InvoiceRow[] {
+    const rows: InvoiceRow[] = [
+      { label: 'Subtotal', amount: order.subtotal.toString() },
+    ];
+
+    if (!order.discount.isZero()) {
+      rows.push({
+        label: order.couponCode ? `Discount (${order.couponCode})` : 'Discount',
+        amount: `-${order.discount.toString()}`,
+      });
+    }
+    if (!order.shippingCost.isZero() || order.shippingMethod) {
+      rows.push({
+        label: order.shippingMethod
+          ? `Shipping (${order.shippingMethod})`
+          : 'Shipping',
+        amount: order.shippingCost.toString(),
+      });
+    }
+
+    const taxed = order.taxBreakdown.filter((line) => line.rate > 0);
+    if (taxed.length) {
+      for (const line of taxed) {
+        rows.push({
+          label: `Tax ${this.percent(line.rate)} on ${line.taxableAmount.toString()}`,
+          amount: line.tax.toString(),
+        });
+      }
+    } else {
+      rows.push({ label: 'Tax', amount: order.tax.toString() });
+    }
+
+    rows.push({ label: 'Total', amount: order.total.toString(), bold: true });
+    return rows;
+  }
+
+  private percent(rate: number): string {
+    return `${Number((rate * 100).toFixed(3))}%`;
+  }
+
+  private date(value?: Date): string {
+    return (value ?? new Date()).toISOString().slice(0, 10);
+  }
+
+  private escapeHtml(value: string): string {
+    return value.replace(
+      /[&<>"']/g,
+      (char) =>
+        ({
+          '&': '&amp;',
+          '<': '&lt;',
+          '>': '&gt;',
+          '"': '&quot;',
+          "'": '&#39;',
+        })[char] as string,
+    );
+  }
+}
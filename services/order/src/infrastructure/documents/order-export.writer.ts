@@ -0,0 +1,128 @@
+import { Injectable } from '@nestjs/common';
+import { Order, OrderItem } from '../../domain/entities/order.entity';
+
+type Cell = string | number | undefined;
+
+interface Column<T> {
+  name: string;
+  value: (row: T) => Cell;
+}
+
+interface ItemRow {
+  order: Order;
+  item: OrderItem;
+}
+
+/** Order-level columns, shared by both layouts */
+const ORDER_COLUMNS: Column<Order>[] = [
+  { name: 'orderId', value: (o) => o.id },
+  { name: 'createdAt', value: (o) => o.createdAt?.toISOString() },
+  { name: 'status', value: (o) => o.status },
+  { name: 'buyerId', value: (o) => o.buyerId },
+  { name: 'paymentMethod', value: (o) => o.paymentMethod },
+  { name: 'currency', value: (o) => o.currency },
+];
+
+const PER_ORDER: Column<Order>[] = [
+  ...ORDER_COLUMNS,
+  { name: 'lines', value: (o) => o.items.length },
+  {
+    name: 'units',
+    value: (o) => o.items.reduce((sum, i) => sum + i.quantity, 0),
+  },
+  { name: 'subtotal', value: (o) => o.subtotal.toMajor() },
+  { name: 'discount', value: (o) => o.discount.toMajor() },
+  { name: 'couponCode', value: (o) => o.couponCode },
+  { name: 'shippingMethod', value: (o) => o.shippingMethod },
+  { name: 'shippingCost', value: (o) => o.shippingCost.toMajor() },
+  { name: 'tax', value: (o) => o.tax.toMajor() },
+  { name: 'total', value: (o) => o.total.toMajor() },
+  { name: 'baseCurrency', value: (o) => o.baseCurrency },
+  { name: 'baseTotal', value: (o) => o.baseTotal?.toMajor() },
+  { name: 'exchangeRate', value: (o) => o.exchangeRate },
+  { name: 'invoiceNumber', value: (o) => o.invoiceNumber },
+  { name: 'shippingCountry', value: (o) => o.shippingAddress?.country },
+];
+
+const PER_ITEM: Column<ItemRow>[] = [
+  ...ORDER_COLUMNS.map((column) => ({
+    name: column.name,
+    value: (row: ItemRow) => column.value(row.order),
+  })),
+  { name: 'sku', value: (r) => r.item.sku },
+  { name: 'name', value: (r) => r.item.name },
+  { name: 'quantity', value: (r) => r.item.quantity },
+  { name: 'unitPrice', value: (r) => r.item.unitPrice.toMajor() },
+  {
+    name: 'lineTotal',
+    value: (r) => r.item.unitPrice.multiply(r.item.quantity).toMajor(),
+  },
+  { name: 'invoiceNumber', value: (r) => r.order.invoiceNumber },
+];
+
+/**
+ * Writes orders as CSV or NDJSON lines for finance exports, either one
+ * row per order or one per line item. Amounts are in the order currency.
+ */
+@Injectable()
+export class OrderExportWriter {
+  /**
+   * The CSV header line; NDJSON has none.
+   */
+  header(format: 'csv' | 'ndjson', rows: 'order' | 'item'): string {
+    if (format === 'ndjson') return '';
+    const columns: { name: string }[] = rows === 'order' ? PER_ORDER : PER_ITEM;
+    return this.csvLine(columns.map((c) => c.name));
+  }
+
+  /**
+   * The lines of one order, each ending with a newline.
+   */
+  lines(
+    order: Order,
+    format: 'csv' | 'ndjson',
+    rows: 'order' | 'item',
+  ): string {
+    if (rows === 'order') {
+      return this.write(PER_ORDER, [order], format);
+    }
+    return this.write(
+      PER_ITEM,
+      order.items.map((item) => ({ order, item })),
+      format,
+    );
+  }
+
+  private write<T>(
+    columns: Column<T>[],
+    rows: T[],
+    format: 'csv' | 'ndjson',
+  ): string {
+    return rows
+      .map((row) => {
+        const cells = columns.map((c) => c.value(row));
+        if (format === 'csv') return this.csvLine(cells);
+        const record = Object.fromEntries(
+          columns.map((c, i) => [c.name, cells[i] ?? null]),
+        );
+        return `${JSON.stringify(record)}\n`;
+      })
+      .join('');
+  }
+
+  private csvLine(cells: Cell[]): string {
+    return `${cells.map((cell) => this.csvCell(cell)).join(',')}\r\n`;
+  }
+
+  /**
+   * RFC 4180 quoting. Text starting like a formula is prefixed with a
+   * quote so spreadsheets do not evaluate it.
+   */
+  private csvCell(cell: Cell): string {
+    if (cell === undefined) return '';
+    if (typeof cell === 'number') return String(cell);
+
+    const text = /^[=+\-@\t\r]/.test(cell) ? `'${cell}` : cell;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+}
@@ -0,0 +1,163 @@
+/** A4 in PDF points (1/72 inch) */
+export const PAGE_WIDTH = 595;
+export const PAGE_HEIGHT = 842;
+
+/**
+ * Characters WinAnsi places in 0x80-0x9F, where Latin-1 has control codes
+ */
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80,
+  '‚': 0x82,
+  ƒ: 0x83,
+  '„': 0x84,
+  '…': 0x85,
+  '†': 0x86,
+  '‡': 0x87,
+  ˆ: 0x88,
+  '‰': 0x89,
+  Š: 0x8a,
+  '‹': 0x8b,
+  Œ: 0x8c,
+  Ž: 0x8e,
+  '‘': 0x91,
+  '’': 0x92,
+  '“': 0x93,
+  '”': 0x94,
+  '•': 0x95,
+  '–': 0x96,
+  '—': 0x97,
+  '˜': 0x98,
+  '™': 0x99,
+  š: 0x9a,
+  '›': 0x9b,
+  œ: 0x9c,
+  ž: 0x9e,
+  Ÿ: 0x9f,
+};
+
+export interface TextOptions {
+  size?: number;
+  bold?: boolean;
+  /** `x` is the right edge of the text when 'right' */
+  align?: 'left' | 'right';
+}
+
+/**
+ * Minimal single-font PDF 1.4 writer: positioned text and rules on A4
+ * pages with the built-in Helvetica faces, so no font files or native
+ * dependencies are needed. Text is written in WinAnsi, the fonts'
+ * encoding: accented letters it lacks lose their accent and other
+ * characters (e.g. Cyrillic or CJK) are replaced with "?".
+ *
+ * Coordinates are in points from the bottom-left corner, as in PDF.
+ */
+export class PdfDocument {
+  private readonly pages: string[][] = [[]];
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  addPage(): this {
+    this.pages.push([]);
+    return this;
+  }
+
+  text(x: number, y: number, value: string, options: TextOptions = {}): this {
+    const size = options.size ?? 10;
+    const left = options.align === 'right' ? x - this.widthOf(value, size) : x;
+    const font = options.bold ? 'F2' : 'F1';
+    this.current.push(
+      `BT /${font} ${size} Tf ${left.toFixed(2)} ${y.toFixed(2)} Td (${this.escape(value)}) Tj ET`,
+    );
+    return this;
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, width = 0.5): this {
+    this.current.push(`${width} w ${x1} ${y1} m ${x2} ${y2} l S`);
+    return this;
+  }
+
+  /**
+   * Approximate Helvetica advance width; exact for digits and separators,
+   * which is what right-aligned amount columns need.
+   */
+  widthOf(value: string, size: number): number {
+    let units = 0;
+    for (const char of value) {
+      if (/[0-9$]/.test(char)) units += 556;
+      else if (/[ .,:;!|il'-]/.test(char)) units += 278;
+      else if (/[A-Z]/.test(char)) units += 667;
+      else if (/[mwMW%]/.test(char)) units += 889;
+      else units += 500;
+    }
+    return (units / 1000) * size;
+  }
+
+  toBuffer(): Buffer {
+    // 1: catalog, 2: page tree, 3-4: fonts, then a page + content stream per page
+    const objects: string[] = [];
+    const pageIds = this.pages.map((_, n) => 5 + n * 2);
+
+    objects.push('<< /Type /Catalog /Pages 2 0 R >>');
+    objects.push(
+      `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`,
+    );
+    objects.push(this.font('Helvetica'));
+    objects.push(this.font('Helvetica-Bold'));
+    this.pages.forEach((ops, n) => {
+      const stream = ops.join('\n');
+      objects.push(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+          `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[n] + 1} 0 R >>`,
+      );
+      objects.push(
+        `<< /Length ${Buffer.byteLength(stream, 'latin1')} >>\nstream\n${stream}\nendstream`,
+      );
+    });
+
+    let body = '%PDF-1.4\n';
+    const offsets = objects.map((object, n) => {
+      const offset = Buffer.byteLength(body, 'latin1');
+      body += `${n + 1} 0 obj\n${object}\nendobj\n`;
+      return offset;
+    });
+    const xrefOffset = Buffer.byteLength(body, 'latin1');
+    body +=
+      `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n` +
+      offsets.map((o) => `${String(o).padStart(10, '0')} 00000 n \n`).join('') +
+      `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\n` +
+      `startxref\n${xrefOffset}\n%%EOF\n`;
+
+    return Buffer.from(body, 'latin1');
+  }
+
+  private get current(): string[] {
+    return this.pages[this.pages.length - 1];
+  }
+
+  private font(name: string): string {
+    return `<< /Type /Font /Subtype /Type1 /BaseFont /${name} /Encoding /WinAnsiEncoding >>`;
+  }
+
+  /**
+   * `value` as a WinAnsi string literal: one Latin-1 char per byte, with
+   * the PDF string delimiters escaped
+   */
+  private escape(value: string): string {
+    let encoded = '';
+    for (const char of value) encoded += this.toWinAnsi(char);
+    return encoded.replace(/[\\()]/g, (char) => `\\${char}`);
+  }
+
+  private toWinAnsi(char: string): string {
+    if (/[\x20-\x7e\xa0-\xff]/.test(char)) return char;
+    if (char in WIN_ANSI_EXTRAS) {
+      return String.fromCharCode(WIN_ANSI_EXTRAS[char]);
+    }
+    // Letters WinAnsi lacks are written without their accents (ő → o)
+    const base = char.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+    if (base !== char && /^[\x20-\x7e\xa0-\xff]+$/.test(base)) return base;
+    return '?';
+  }
+}
@@ -10,7 +10,7 @@ export class EventBusService {
 
   constructor(private readonly producer: KafkaProducer) {}
 
-  async emit(event: string, payload: any): Promise<void> {
+  async emit(event: string, payload: any, key?: string): Promise<void> {
     const start = Date.now();
 
     try {
@@ -29,7 +29,7 @@ export class EventBusService {
       );
 
       // ✅ Publish event
-      await this.producer.emit(event, payload);
+      await this.producer.emit(event, payload, key);
 
       // ✅ Success log with execution time
       this.logger.log(
@@ -15,4 +15,9 @@ export class KafkaConfig {
   getGroupId(): string {
     return process.env.KAFKA_GROUP_ID || 'order-service-group';
   }
+
+  /** Where messages that can never be handled are parked, per topic */
+  getDeadLetterTopic(topic: string): string {
+    return `${topic}.dlq`;
+  }
 }
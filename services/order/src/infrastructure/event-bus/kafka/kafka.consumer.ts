@@ -1,13 +1,52 @@
-import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import {
+    HttpException,
+    HttpStatus,
+    Injectable,
+    Logger,
+    OnModuleDestroy,
+    OnModuleInit,
+} from '@nestjs/common';
 import { Kafka, Consumer } from 'kafkajs';
+import { Error as MongooseError } from 'mongoose';
 import { KafkaConfig } from './kafka.config';
+import { KafkaProducer } from './kafka.producer';
+
+type Handler = (data: any) => Promise<void>;
+
+/** Client errors a redelivery can resolve (the order changed meanwhile) */
+const RETRIABLE_STATUSES: number[] = [
+    HttpStatus.REQUEST_TIMEOUT,
+    HttpStatus.CONFLICT,
+    HttpStatus.TOO_MANY_REQUESTS,
+];
+
+/**
+ * Whether handling the event can never succeed, however often it is
+ * redelivered: it is rejected (validation, unknown order, not allowed in the
+ * order's state) or cannot be stored as it is.
+ */
+export function isPermanentFailure(error: unknown): boolean {
+    if (error instanceof HttpException) {
+        const status = error.getStatus();
+        return status < 500 && !RETRIABLE_STATUSES.includes(status);
+    }
+    return (
+        error instanceof MongooseError.ValidationError ||
+        error instanceof MongooseError.CastError
+    );
+}
 
 @Injectable()
-export class KafkaConsumer implements OnModuleInit {
+export class KafkaConsumer implements OnModuleInit, OnModuleDestroy {
     private logger = new Logger(KafkaConsumer.name);
     private consumer: Consumer;
+    private handlers = new Map<string, Handler>();
+    private isRunning = false;
 
-    constructor(private readonly config: KafkaConfig) { }
+    constructor(
+        private readonly config: KafkaConfig,
+        private readonly producer: KafkaProducer,
+    ) { }
 
     async onModuleInit() {
         const kafka = new Kafka({
@@ -23,9 +62,29 @@ export class KafkaConsumer implements OnModuleInit {
         this.logger.log('✅ Kafka Consumer connected');
     }
 
-    async subscribe(topic: string, handler: (data: any) => Promise<void>) {
-        await this.consumer.subscribe({ topic });
+    /**
+     * Register a handler for a topic. Call startConsuming() once every
+     * handler is registered: kafkajs allows a single run() per consumer.
+     */
+    async subscribe(topic: string, handler: Handler) {
+        if (this.handlers.has(topic)) {
+            this.logger.warn(`⚠️ Handler already registered for topic: ${topic}`);
+            return;
+        }
+
+        this.handlers.set(topic, handler);
+        this.logger.log(`✅ Registered handler for topic: ${topic}`);
+    }
+
+    async startConsuming() {
+        if (this.isRunning || this.handlers.size === 0) return;
 
+        for (const topic of this.handlers.keys()) {
+            await this.consumer.subscribe({ topic });
+            this.logger.log(`✅ Subscribed to Kafka topic: ${topic}`);
+        }
+
+        this.isRunning = true;
         await this.consumer.run({
             eachMessage: async ({ topic, partition, message }) => {
                 if (!message.value) {
@@ -44,14 +103,46 @@ export class KafkaConsumer implements OnModuleInit {
                     return;
                 }
 
-                this.logger.log(`📥 Event received: ${event.event}`);
+                this.logger.log(`📥 Event received: ${event.event ?? topic}`);
+
+                const handler = this.handlers.get(topic);
+                if (!handler) {
+                    this.logger.warn(`⚠️ No handler registered for topic: ${topic}`);
+                    return;
+                }
 
-                // ✅ Continue with your event handling
-                
-            }
+                try {
+                    await handler(event);
+                } catch (err) {
+                    this.logger.error(`❌ Handler error for topic ${topic}`, err);
+                    // Rethrow transient errors (database down, conflicts) so the
+                    // offset is not committed and kafkajs retries the message
+                    if (!isPermanentFailure(err)) throw err;
 
+                    // A retry would fail the same way and block the partition:
+                    // park the message instead (a failed publish is retried too)
+                    const deadLetterTopic = this.config.getDeadLetterTopic(topic);
+                    await this.producer.emit(
+                        deadLetterTopic,
+                        {
+                            topic,
+                            partition,
+                            offset: message.offset,
+                            event,
+                            error: (err as Error).message,
+                            failedAt: new Date().toISOString(),
+                        },
+                        message.key?.toString(),
+                    );
+                    this.logger.warn(
+                        `⚠️ Message ${topic}[${partition}]@${message.offset} moved to ${deadLetterTopic}`,
+                    );
+                }
+            },
         });
+    }
 
-        this.logger.log(`✅ Subscribed to Kafka topic: ${topic}`);
+    async onModuleDestroy() {
+        await this.consumer?.disconnect();
     }
 }
@@ -21,11 +21,11 @@ export class KafkaProducer implements OnModuleInit {
     this.logger.log('✅ Kafka Producer connected');
   }
 
-  async emit(topic: string, message: any) {
+  async emit(topic: string, message: any, key?: string) {
     try {
       await this.producer.send({
         topic,
-        messages: [{ value: JSON.stringify(message) }],
+        messages: [{ key, value: JSON.stringify(message) }],
       });
 
       this.logger.log(`✅ Event emitted → ${topic}`);
@@ -1,17 +1,175 @@
 import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
 import { KafkaConsumer } from '../event-bus/kafka/kafka.consumer';
+import { ApplyReservationResultUseCase } from '../../application/use-cases/apply-reservation-result.usecase';
+import { AmendOrderUseCase } from '../../application/use-cases/amend-order.usecase';
+import {
+  AllocationUpdate,
+  ApplyAllocationUseCase,
+} from '../../application/use-cases/apply-allocation.usecase';
+import {
+  ApplyPaymentResultUseCase,
+  PaymentResult,
+} from '../../application/use-cases/apply-payment-result.usecase';
+import {
+  ApplyRefundUseCase,
+  RefundResult,
+} from '../../application/use-cases/apply-refund.usecase';
+import {
+  CheckoutStarted,
+  RecordCheckoutUseCase,
+} from '../../application/use-cases/record-checkout.usecase';
 
+interface ReservationEvent {
+  orderId?: string;
+  failedSku?: string;
+  reason?: string;
+  items?: AllocationUpdate[];
+}
+
+interface AmendmentReservationEvent extends ReservationEvent {
+  amendment?: number;
+}
+
+/**
+ * ✅ Order Event Handler
+ *
+ * Consumes the inventory service's reservation results for the order saga:
+ * - inventory.reservation_succeeded → order moves to processing, with each
+ *   line's allocation (reserved, back-ordered or pre-ordered)
+ * - inventory.reservation_failed → order is cancelled with the reason
+ * - inventory.amendment_failed → units added by an amendment could not be
+ *   reserved, the amendment is reverted
+ * - inventory.allocation_changed → back-ordered units were allocated, or an
+ *   amendment changed what waits for stock
+ *
+ * and the payment service's checkouts and their outcomes:
+ * - payment.checkout_started → the order can no longer be amended
+ * - payment.succeeded → order is marked paid if the amount matches its total
+ * - payment.failed / payment.expired → order is cancelled
+ * - payment.refunded → refunded total is recorded, and the order becomes
+ *   partially_refunded or refunded
+ */
 @Injectable()
 export class OrderEventHandler implements OnModuleInit {
   private logger = new Logger(OrderEventHandler.name);
 
-  constructor(private readonly consumer: KafkaConsumer) {}
+  constructor(
+    private readonly consumer: KafkaConsumer,
+    private readonly applyReservationResult: ApplyReservationResultUseCase,
+    private readonly amendOrder: AmendOrderUseCase,
+    private readonly applyAllocation: ApplyAllocationUseCase,
+    private readonly applyPaymentResult: ApplyPaymentResultUseCase,
+    private readonly applyRefund: ApplyRefundUseCase,
+    private readonly recordCheckout: RecordCheckoutUseCase,
+  ) {}
 
   async onModuleInit() {
-    await this.consumer.subscribe('inventory.updated', async (data) => {
-      this.logger.log(`📥 Received inventory.updated → ${JSON.stringify(data)}`);
+    await this.consumer.subscribe(
+      'inventory.reservation_succeeded',
+      async (data: ReservationEvent) => {
+        if (!data?.orderId) {
+          this.logger.warn(
+            `⚠️ reservation_succeeded without orderId → ${JSON.stringify(data)}`,
+          );
+          return;
+        }
+        await this.applyReservationResult.execute({
+          orderId: data.orderId,
+          reserved: true,
+          items: data.items,
+        });
+      },
+    );
+
+    await this.consumer.subscribe(
+      'inventory.reservation_failed',
+      async (data: ReservationEvent) => {
+        if (!data?.orderId) {
+          this.logger.warn(
+            `⚠️ reservation_failed without orderId → ${JSON.stringify(data)}`,
+          );
+          return;
+        }
+        await this.applyReservationResult.execute({
+          orderId: data.orderId,
+          reserved: false,
+          reason: data.reason,
+        });
+      },
+    );
+
+    await this.consumer.subscribe(
+      'inventory.amendment_failed',
+      async (data: AmendmentReservationEvent) => {
+        if (!data?.orderId || !data.amendment) {
+          this.logger.warn(
+            `⚠️ amendment_failed without orderId/amendment → ${JSON.stringify(data)}`,
+          );
+          return;
+        }
+        await this.amendOrder.revert(
+          data.orderId,
+          data.amendment,
+          `Stock reservation failed: ${data.reason || 'unknown reason'}`,
+        );
+      },
+    );
+
+    await this.consumer.subscribe(
+      'inventory.allocation_changed',
+      async (data: ReservationEvent) => {
+        if (!data?.orderId || !data.items?.length) {
+          this.logger.warn(
+            `⚠️ allocation_changed without orderId/items → ${JSON.stringify(data)}`,
+          );
+          return;
+        }
+        await this.applyAllocation.execute(data.orderId, data.items);
+      },
+    );
+
+    await this.consumer.subscribe(
+      'payment.checkout_started',
+      async (data: CheckoutStarted) => {
+        if (!data?.orderId) {
+          this.logger.warn(
+            `⚠️ payment.checkout_started without orderId → ${JSON.stringify(data)}`,
+          );
+          return;
+        }
+        await this.recordCheckout.execute(data);
+      },
+    );
+
+    for (const outcome of ['succeeded', 'failed', 'expired'] as const) {
+      await this.consumer.subscribe(
+        `payment.${outcome}`,
+        async (data: Omit<PaymentResult, 'outcome'>) => {
+          if (!data?.orderId) {
+            this.logger.warn(
+              `⚠️ payment.${outcome} without orderId → ${JSON.stringify(data)}`,
+            );
+            return;
+          }
+          await this.applyPaymentResult.execute({ ...data, outcome });
+        },
+      );
+    }
+
+    await this.consumer.subscribe(
+      'payment.refunded',
+      async (data: RefundResult) => {
+        if (!data?.orderId || !Number.isInteger(data.refundedAmount)) {
+          this.logger.warn(
+            `⚠️ payment.refunded without orderId/refundedAmount → ${JSON.stringify(data)}`,
+          );
+          return;
+        }
+        await this.applyRefund.execute(data);
+      },
+    );
 
-      // TODO: Add logic (update order, notify user, etc.)
-    });
+    // Start consuming after all handlers are registered
+    await this.consumer.startConsuming();
   }
 }
@@ -1,242 +1,292 @@
-import { Injectable, Logger } from '@nestjs/common';
-import { EventBusService } from '../event-bus/event-bus.service';
+import { Injectable } from '@nestjs/common';
 import { Order } from '../../domain/entities/order.entity';
+import { Shipment } from '../../domain/entities/shipment.entity';
+import { OrderAmendment } from '../../domain/entities/order-amendment.entity';
+import { OutboxMessage } from '../../domain/interfaces/outbox-repository.interface';
 
 /**
  * ✅ Order Event Producer
  *
- * Publishes order lifecycle events to Kafka topics
+ * Builds order lifecycle events for Kafka topics
  * These events are consumed by other microservices (Inventory, Realtime, Notification, etc.)
  *
+ * Events are not sent from here: the repository writes them to the outbox
+ * in the same transaction as the order change, and OutboxRelay publishes them.
+ *
  * Event Types:
  * - order.created: New order placed (triggers inventory reservation)
  * - order.updated: Order status changed
  * - order.cancelled: Order cancelled (triggers inventory release)
  * - order.delivered: Order delivered (triggers stock deduction)
- * - order.shipped: Order shipped
+ * - order.shipped: Order (partially) shipped, with carrier and tracking details
  * - order.paid: Payment completed
+ * - order.amended: Lines or address changed before fulfillment (inventory
+ *   reserves or releases the difference)
+ * - order.claimed: Guest order moved into the buyer's new account
+ * - order.allocation_changed: Back-ordered or pre-ordered units of the order
+ *   were allocated (or more units wait for stock after an amendment)
+ *
+ * Amounts are integer minor units of `currency` (`baseTotal` of
+ * `baseCurrency`), e.g. 1999 for 19.99 USD.
  *
  * @Injectable
  */
 @Injectable()
 export class OrderProducer {
-  private readonly logger = new Logger(OrderProducer.name);
-
-  constructor(private readonly bus: EventBusService) {}
+  /**
+   * Event for the order's current status (used after a status transition)
+   */
+  statusChanged(order: Order): OutboxMessage {
+    switch (order.status) {
+      case 'cancelled':
+        return this.orderCancelled(order);
+      case 'delivered':
+        return this.orderDelivered(order);
+      case 'partially_shipped':
+      case 'shipped':
+        return this.orderShipped(order);
+      case 'paid':
+        return this.orderPaid(order);
+      default:
+        // For any other status change, emit generic update event
+        return this.orderUpdated(order);
+    }
+  }
 
   /**
-   * Emit order created event
+   * Order created event
    * Triggers inventory reservation in inventory service
    */
-  async orderCreated(order: Order): Promise<void> {
-    try {
-      await this.bus.emit('order.created', {
-        event: 'order.created',
-        orderId: order.id,
-        buyerId: order.buyerId,
-        items: order.items.map(item => ({
-          sku: item.sku,
-          name: item.name,
-          quantity: item.quantity,
-          unitPrice: item.unitPrice,
-        })),
-        subtotal: order.subtotal,
-        tax: order.tax,
-        total: order.total,
-        currency: order.currency,
-        status: order.status,
-        shippingAddress: order.shippingAddress,
-        createdAt: order.createdAt?.toISOString() || new Date().toISOString(),
-      });
-
-      this.logger.log(
-        `📤 Order created event emitted for order ${order.id}`
-      );
-    } catch (error: any) {
-      this.logger.error(
-        `Failed to emit order created event for order ${order.id}:`,
-        error
-      );
-      throw error;
-    }
+  orderCreated(order: Order): OutboxMessage {
+    return this.message('order.created', order, {
+      buyerId: order.buyerId,
+      guestEmail: order.guestEmail,
+      items: this.items(order),
+      subtotal: order.subtotal.amount,
+      discount: order.discount.amount,
+      couponCode: order.couponCode,
+      shippingMethod: order.shippingMethod,
+      shippingCost: order.shippingCost.amount,
+      paymentMethod: order.paymentMethod,
+      tax: order.tax.amount,
+      total: order.total.amount,
+      currency: order.currency,
+      baseCurrency: order.baseCurrency,
+      baseTotal: order.baseTotal?.amount,
+      exchangeRate: order.exchangeRate,
+      status: order.status,
+      shippingAddress: order.shippingAddress,
+      createdAt: order.createdAt?.toISOString() || new Date().toISOString(),
+    });
   }
 
   /**
-   * Emit order updated event
+   * Order updated event
    * Includes full order details for inventory operations
    */
-  async orderUpdated(order: Order): Promise<void> {
-    try {
-      const payload: any = {
-        event: 'order.updated',
-        orderId: order.id,
-        buyerId: order.buyerId,
-        status: order.status,
-        updatedAt: order.updatedAt?.toISOString() || new Date().toISOString(),
-      };
-
+  orderUpdated(order: Order): OutboxMessage {
+    return this.message('order.updated', order, {
+      buyerId: order.buyerId,
+      status: order.status,
+      updatedAt: order.updatedAt?.toISOString() || new Date().toISOString(),
       // Include items for statuses that require inventory operations
-      if (['delivered', 'cancelled'].includes(order.status)) {
-        payload.items = order.items.map(item => ({
-          sku: item.sku,
-          name: item.name,
-          quantity: item.quantity,
-          unitPrice: item.unitPrice,
-        }));
-      }
-
-      await this.bus.emit('order.updated', payload);
-
-      this.logger.log(
-        `📤 Order updated event emitted for order ${order.id}, status: ${order.status}`
-      );
-    } catch (error: any) {
-      this.logger.error(
-        `Failed to emit order updated event for order ${order.id}:`,
-        error
-      );
-      throw error;
-    }
+      ...(['delivered', 'cancelled'].includes(order.status) && {
+        items: this.items(order),
+      }),
+    });
   }
 
   /**
-   * Emit order cancelled event
+   * Order cancelled event
    * Triggers inventory reservation release
    */
-  async orderCancelled(order: Order): Promise<void> {
-    try {
-      await this.bus.emit('order.cancelled', {
-        event: 'order.cancelled',
-        orderId: order.id,
-        buyerId: order.buyerId,
-        items: order.items.map(item => ({
-          sku: item.sku,
-          name: item.name,
-          quantity: item.quantity,
-          unitPrice: item.unitPrice,
-        })),
-        total: order.total,
-        status: 'cancelled',
-        cancelledAt: new Date().toISOString(),
-      });
-
-      this.logger.log(
-        `📤 Order cancelled event emitted for order ${order.id}`
-      );
-    } catch (error: any) {
-      this.logger.error(
-        `Failed to emit order cancelled event for order ${order.id}:`,
-        error
-      );
-      throw error;
-    }
+  orderCancelled(order: Order): OutboxMessage {
+    const cancellation = order.statusHistory?.filter((h) => h.to === 'cancelled').pop();
+    return this.message('order.cancelled', order, {
+      buyerId: order.buyerId,
+      items: this.items(order),
+      total: order.total.amount,
+      currency: order.currency,
+      status: 'cancelled',
+      cancelledBy: cancellation?.changedBy,
+      reason: cancellation?.reason,
+      cancelledAt: (cancellation?.changedAt ?? new Date()).toISOString(),
+    });
   }
 
   /**
-   * Emit order delivered event
+   * Order delivered event
    * Triggers stock deduction in inventory service
    */
-  async orderDelivered(order: Order): Promise<void> {
-    try {
-      await this.bus.emit('order.delivered', {
-        event: 'order.delivered',
-        orderId: order.id,
-        buyerId: order.buyerId,
-        items: order.items.map(item => ({
-          sku: item.sku,
-          name: item.name,
-          quantity: item.quantity,
-          unitPrice: item.unitPrice,
-        })),
-        total: order.total,
-        status: 'delivered',
-        deliveredAt: new Date().toISOString(),
-      });
-
-      this.logger.log(
-        `📤 Order delivered event emitted for order ${order.id}`
-      );
-    } catch (error: any) {
-      this.logger.error(
-        `Failed to emit order delivered event for order ${order.id}:`,
-        error
-      );
-      throw error;
-    }
+  orderDelivered(order: Order): OutboxMessage {
+    return this.message('order.delivered', order, {
+      buyerId: order.buyerId,
+      items: this.items(order),
+      total: order.total.amount,
+      currency: order.currency,
+      status: 'delivered',
+      deliveredAt: this.changedAt(order, 'delivered'),
+    });
   }
 
   /**
-   * Emit order shipped event
+   * Order shipped event
+   * Sent for every shipment; `shipment` is the one that just left and
+   * `status` is partially_shipped until all units are on their way.
    */
-  async orderShipped(order: Order): Promise<void> {
-    try {
-      await this.bus.emit('order.shipped', {
-        event: 'order.shipped',
-        orderId: order.id,
-        buyerId: order.buyerId,
-        status: 'shipped',
-        shippedAt: new Date().toISOString(),
-      });
-
-      this.logger.log(
-        `📤 Order shipped event emitted for order ${order.id}`
-      );
-    } catch (error: any) {
-      this.logger.error(
-        `Failed to emit order shipped event for order ${order.id}:`,
-        error
-      );
-      // Don't throw - shipping event is not critical
-    }
+  orderShipped(order: Order, shipment?: Shipment): OutboxMessage {
+    return this.message('order.shipped', order, {
+      buyerId: order.buyerId,
+      status: order.status,
+      shippedAt: shipment
+        ? shipment.shippedAt.toISOString()
+        : this.changedAt(order, order.status),
+      ...(shipment && { shipment: this.shipment(shipment) }),
+      shipments: order.shipments.map((s) => this.shipment(s)),
+    });
   }
+
   /**
-   * Emit order processing event
+   * A shipment arrived but other parts of the order are still on their way
+   * (the last delivery produces order.delivered instead)
    */
-  async orderProcessing(order: Order): Promise<void> {
-    try {
-      await this.bus.emit('order.processing', {
-        event: 'order.processing',
-        orderId: order.id,
-        buyerId: order.buyerId,
-        status: 'processing',
-        processingAt: new Date().toISOString(),
-      });
-
-      this.logger.log(
-        `📤 Order processing event emitted for order ${order.id}`
-      );
-    } catch (error: any) {
-      this.logger.error(
-        `Failed to emit order processing event for order ${order.id}:`,
-        error
-      );
-      // Don't throw - processing event is not critical
-    }
+  shipmentDelivered(order: Order, shipment: Shipment): OutboxMessage {
+    return this.message('order.updated', order, {
+      buyerId: order.buyerId,
+      status: order.status,
+      updatedAt: order.updatedAt?.toISOString() || new Date().toISOString(),
+      shipment: this.shipment(shipment),
+    });
   }
 
   /**
-   * Emit order paid event
+   * Order amended event
+   * Carries the re-priced order with all of its lines, and the change in
+   * quantity per SKU (`delta`, negative when units were removed) so
+   * inventory can adjust the reservation. `amendment` numbers the
+   * amendments of the order so stale or redelivered ones can be skipped.
    */
-  async orderPaid(order: Order): Promise<void> {
-    try {
-      await this.bus.emit('order.paid', {
-        event: 'order.paid',
-        orderId: order.id,
-        buyerId: order.buyerId,
-        total: order.total,
-        status: 'paid',
-        paidAt: new Date().toISOString(),
-      });
-
-      this.logger.log(
-        `📤 Order paid event emitted for order ${order.id}`
-      );
-    } catch (error: any) {
-      this.logger.error(
-        `Failed to emit order paid event for order ${order.id}:`,
-        error
-      );
-      // Don't throw - payment event is not critical for inventory
-    }
+  orderAmended(order: Order, amendment: OrderAmendment): OutboxMessage {
+    return this.message('order.amended', order, {
+      buyerId: order.buyerId,
+      status: order.status,
+      amendmentId: amendment.id,
+      amendment: amendment.number,
+      items: this.items(order),
+      delta: amendment.lines.map((line) => ({
+        sku: line.sku,
+        quantity: line.to - line.from,
+      })),
+      shippingAddress: order.shippingAddress,
+      subtotal: order.subtotal.amount,
+      discount: order.discount.amount,
+      shippingCost: order.shippingCost.amount,
+      tax: order.tax.amount,
+      previousTotal: amendment.previousTotal.amount,
+      total: order.total.amount,
+      currency: order.currency,
+      baseTotal: order.baseTotal?.amount,
+      amendedBy: amendment.changedBy,
+      reason: amendment.reason,
+      amendedAt: amendment.changedAt.toISOString(),
+    });
+  }
+
+  /**
+   * Order claimed event
+   * A guest order now belongs to `buyerId`; `guestEmail` is the email it was placed with
+   */
+  orderClaimed(order: Order): OutboxMessage {
+    return this.message('order.claimed', order, {
+      buyerId: order.buyerId,
+      guestEmail: order.guestEmail,
+      status: order.status,
+      claimedAt: (order.claimedAt ?? new Date()).toISOString(),
+    });
+  }
+
+  /**
+   * Order allocation changed event
+   * Each line with the units still waiting for stock
+   */
+  orderAllocationChanged(order: Order): OutboxMessage {
+    return this.message('order.allocation_changed', order, {
+      buyerId: order.buyerId,
+      status: order.status,
+      items: order.items.map((item) => ({
+        sku: item.sku,
+        name: item.name,
+        quantity: item.quantity,
+        allocation: item.allocation?.status,
+        backordered: item.allocation?.backordered ?? 0,
+        releaseDate: item.allocation?.releaseDate?.toISOString(),
+      })),
+    });
+  }
+
+  /**
+   * Order processing event
+   */
+  orderProcessing(order: Order): OutboxMessage {
+    return this.message('order.processing', order, {
+      buyerId: order.buyerId,
+      status: 'processing',
+      processingAt: this.changedAt(order, 'processing'),
+    });
+  }
+
+  /**
+   * Order paid event
+   */
+  orderPaid(order: Order): OutboxMessage {
+    return this.message('order.paid', order, {
+      buyerId: order.buyerId,
+      total: order.total.amount,
+      currency: order.currency,
+      status: 'paid',
+      paidAt: this.changedAt(order, 'paid'),
+    });
+  }
+
+  private message(
+    topic: string,
+    order: Order,
+    fields: Record<string, unknown>,
+  ): OutboxMessage {
+    return {
+      topic,
+      key: order.id,
+      payload: { event: topic, orderId: order.id, ...fields },
+    };
+  }
+
+  private items(order: Order) {
+    return order.items.map(item => ({
+      sku: item.sku,
+      name: item.name,
+      quantity: item.quantity,
+      unitPrice: item.unitPrice.amount,
+    }));
+  }
+
+  private shipment(shipment: Shipment) {
+    return {
+      shipmentId: shipment.id,
+      carrier: shipment.carrier,
+      trackingNumber: shipment.trackingNumber,
+      status: shipment.status,
+      items: shipment.items,
+      shippedAt: shipment.shippedAt.toISOString(),
+      deliveredAt: shipment.deliveredAt?.toISOString(),
+    };
+  }
+
+  /**
+   * When the order entered `status`; events may be published well after
+   * the change, so the timestamp comes from the history, not the clock.
+   */
+  private changedAt(order: Order, status: string): string {
+    const entry = order.statusHistory?.filter((h) => h.to === status).pop();
+    return (entry?.changedAt ?? new Date()).toISOString();
   }
 }
@@ -0,0 +1,132 @@
+import {
+  Inject,
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  OUTBOX_REPOSITORY,
+  OutboxEvent,
+  OutboxRepositoryInterface,
+} from '../../domain/interfaces/outbox-repository.interface';
+import { EventBusService } from '../event-bus/event-bus.service';
+
+const BASE_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+const LEASE_MS = 30 * 1000;
+
+/**
+ * ✅ Outbox Relay
+ *
+ * Polls the order outbox and publishes pending events to Kafka.
+ * - Failed sends are retried with exponential backoff (1s … 5min)
+ * - After `order.outbox.maxAttempts` an event is marked failed and waits
+ *   for an admin re-drive (POST /order/outbox/redrive)
+ * - An order's events are published in the order they were recorded
+ */
+@Injectable()
+export class OutboxRelay implements OnApplicationBootstrap, OnModuleDestroy {
+  private readonly logger = new Logger(OutboxRelay.name);
+  private readonly pollIntervalMs: number;
+  private readonly batchSize: number;
+  private readonly maxAttempts: number;
+  private timer?: NodeJS.Timeout;
+  private stopped = false;
+
+  constructor(
+    @Inject(OUTBOX_REPOSITORY)
+    private readonly outbox: OutboxRepositoryInterface,
+    private readonly bus: EventBusService,
+    config: ConfigService,
+  ) {
+    this.pollIntervalMs = config.get<number>(
+      'order.outbox.pollIntervalMs',
+      1000,
+    );
+    this.batchSize = config.get<number>('order.outbox.batchSize', 50);
+    this.maxAttempts = config.get<number>('order.outbox.maxAttempts', 10);
+  }
+
+  onApplicationBootstrap() {
+    this.logger.log(`✅ Outbox relay started (every ${this.pollIntervalMs}ms)`);
+    this.schedule(0);
+  }
+
+  onModuleDestroy() {
+    this.stopped = true;
+    clearTimeout(this.timer);
+  }
+
+  /**
+   * Publish one batch of due events. Resolves to the number sent.
+   */
+  async drain(): Promise<number> {
+    const events = await this.outbox.claimDue(this.batchSize, LEASE_MS);
+    let sent = 0;
+    for (const event of events) {
+      if (await this.publish(event)) sent++;
+    }
+    return sent;
+  }
+
+  private schedule(delayMs: number) {
+    if (this.stopped) return;
+    this.timer = setTimeout(() => void this.tick(), delayMs);
+  }
+
+  private async tick() {
+    let sent = 0;
+    try {
+      sent = await this.drain();
+    } catch (error) {
+      this.logger.error(
+        `❌ Outbox relay poll failed: ${(error as Error).message}`,
+      );
+    }
+    // A full batch means there is likely more waiting
+    this.schedule(sent === this.batchSize ? 0 : this.pollIntervalMs);
+  }
+
+  private async publish(event: OutboxEvent): Promise<boolean> {
+    if (await this.outbox.hasUnsentBefore(event)) {
+      await this.outbox.postpone(
+        event.id,
+        new Date(Date.now() + BASE_RETRY_DELAY_MS),
+      );
+      return false;
+    }
+
+    try {
+      await this.bus.emit(event.topic, event.payload, event.key);
+      await this.outbox.markSent(event.id);
+      return true;
+    } catch (error) {
+      const message = (error as Error).message;
+      const attempts = event.attempts + 1;
+
+      if (attempts >= this.maxAttempts) {
+        this.logger.error(
+          `❌ Outbox event ${event.id} (${event.topic}) failed after ${attempts} attempts: ${message}`,
+        );
+        await this.outbox.markFailed(event.id, message, null);
+        return false;
+      }
+
+      const delay = Math.min(
+        BASE_RETRY_DELAY_MS * 2 ** (attempts - 1),
+        MAX_RETRY_DELAY_MS,
+      );
+      this.logger.warn(
+        `⚠️ Outbox event ${event.id} (${event.topic}) attempt ${attempts} failed, retrying in ${delay}ms: ${message}`,
+      );
+      await this.outbox.markFailed(
+        event.id,
+        message,
+        new Date(Date.now() + delay),
+      );
+      return false;
+    }
+  }
+}
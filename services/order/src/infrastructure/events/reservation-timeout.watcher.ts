@@ -0,0 +1,59 @@
+import {
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { CancelUnreservedOrdersUseCase } from '../../application/use-cases/cancel-unreserved-orders.usecase';
+
+/**
+ * ✅ Reservation Timeout Watcher
+ *
+ * Periodically cancels orders whose inventory reservation result never
+ * arrived within `order.reservationTimeoutSeconds`.
+ */
+@Injectable()
+export class ReservationTimeoutWatcher
+  implements OnApplicationBootstrap, OnModuleDestroy
+{
+  private readonly logger = new Logger(ReservationTimeoutWatcher.name);
+  private readonly timeoutMs: number;
+  private readonly intervalMs: number;
+  private timer?: NodeJS.Timeout;
+
+  constructor(
+    private readonly cancelUnreserved: CancelUnreservedOrdersUseCase,
+    config: ConfigService,
+  ) {
+    this.timeoutMs =
+      config.get<number>('order.reservationTimeoutSeconds', 120) * 1000;
+    this.intervalMs = config.get<number>(
+      'order.reservationSweepIntervalMs',
+      30000,
+    );
+  }
+
+  onApplicationBootstrap() {
+    this.timer = setInterval(() => void this.sweep(), this.intervalMs);
+    this.logger.log(
+      `✅ Reservation timeout watcher started (timeout ${this.timeoutMs / 1000}s)`,
+    );
+  }
+
+  onModuleDestroy() {
+    clearInterval(this.timer);
+  }
+
+  async sweep() {
+    try {
+      await this.cancelUnreserved.execute(
+        new Date(Date.now() - this.timeoutMs),
+      );
+    } catch (error) {
+      this.logger.error(
+        `❌ Reservation timeout sweep failed: ${(error as Error).message}`,
+      );
+    }
+  }
+}
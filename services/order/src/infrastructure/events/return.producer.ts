@@ -0,0 +1,110 @@
+import { Injectable } from '@nestjs/common';
+import { ReturnRequest } from '../../domain/entities/return-request.entity';
+import { OutboxMessage } from '../../domain/interfaces/outbox-repository.interface';
+
+/**
+ * ✅ Return Event Producer
+ *
+ * Builds return (RMA) events. Like order events they are keyed by order ID,
+ * written to the outbox with the return change and published by OutboxRelay.
+ *
+ * Event Types:
+ * - return.requested: Customer asked to return items
+ * - return.approved / return.rejected: Admin decision
+ * - order.refund_requested: Refund for an approved return (payment service)
+ * - return.received: Goods checked in, with restockable/damaged quantities
+ * - return.restocked: Units to add back to stock (inventory service)
+ *
+ * Amounts are integer minor units of `currency`.
+ */
+@Injectable()
+export class ReturnProducer {
+  /**
+   * Events for the return's current status (used after a transition)
+   */
+  statusChanged(ret: ReturnRequest): OutboxMessage[] {
+    switch (ret.status) {
+      case 'approved':
+        return [this.returnApproved(ret), this.refundRequested(ret)];
+      case 'received': {
+        const restockable = ret.restockable();
+        return [
+          this.returnReceived(ret),
+          ...(restockable.length ? [this.returnRestocked(ret)] : []),
+        ];
+      }
+      default:
+        return [this.message(`return.${ret.status}`, ret, this.summary(ret))];
+    }
+  }
+
+  returnRequested(ret: ReturnRequest): OutboxMessage {
+    return this.message('return.requested', ret, {
+      ...this.summary(ret),
+      reason: ret.reason,
+    });
+  }
+
+  returnApproved(ret: ReturnRequest): OutboxMessage {
+    return this.message('return.approved', ret, this.summary(ret));
+  }
+
+  /**
+   * Asks the payment service to refund the buyer for an approved return
+   */
+  refundRequested(ret: ReturnRequest): OutboxMessage {
+    return this.message('order.refund_requested', ret, {
+      buyerId: ret.buyerId,
+      amount: ret.refundAmount.amount,
+      currency: ret.currency,
+      reason: `Return ${ret.id}`,
+    });
+  }
+
+  returnReceived(ret: ReturnRequest): OutboxMessage {
+    return this.message('return.received', ret, {
+      ...this.summary(ret),
+      items: ret.items.map((i) => ({
+        sku: i.sku,
+        quantity: i.quantity,
+        restockedQuantity: i.restockedQuantity ?? 0,
+        damagedQuantity: i.damagedQuantity ?? 0,
+      })),
+    });
+  }
+
+  /**
+   * Tells inventory which returned units can be sold again
+   */
+  returnRestocked(ret: ReturnRequest): OutboxMessage {
+    return this.message('return.restocked', ret, {
+      items: ret.restockable(),
+    });
+  }
+
+  private summary(ret: ReturnRequest) {
+    return {
+      buyerId: ret.buyerId,
+      status: ret.status,
+      refundAmount: ret.refundAmount.amount,
+      currency: ret.currency,
+    };
+  }
+
+  private message(
+    topic: string,
+    ret: ReturnRequest,
+    fields: Record<string, unknown>,
+  ): OutboxMessage {
+    return {
+      topic,
+      key: ret.orderId,
+      payload: {
+        event: topic,
+        returnId: ret.id,
+        orderId: ret.orderId,
+        ...fields,
+      },
+    };
+  }
+}
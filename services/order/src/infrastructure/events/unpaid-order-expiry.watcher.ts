@@ -0,0 +1,90 @@
+import {
+  Inject,
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ExpireUnpaidOrdersUseCase } from '../../application/use-cases/expire-unpaid-orders.usecase';
+import {
+  DISTRIBUTED_LOCK,
+  DistributedLockInterface,
+} from '../../domain/interfaces/distributed-lock.interface';
+
+const LOCK_NAME = 'unpaid-order-expiry';
+
+/**
+ * ✅ Unpaid Order Expiry Watcher
+ *
+ * Periodically cancels orders left unpaid past `order.unpaidExpiry`. Every
+ * replica runs the timer, but a sweep only runs under the cluster lease,
+ * so an order is never cancelled twice in parallel.
+ */
+@Injectable()
+export class UnpaidOrderExpiryWatcher
+  implements OnApplicationBootstrap, OnModuleDestroy
+{
+  private readonly logger = new Logger(UnpaidOrderExpiryWatcher.name);
+  private readonly windowsSeconds: Record<string, number>;
+  private readonly intervalMs: number;
+  private readonly lockTtlMs: number;
+  private timer?: NodeJS.Timeout;
+
+  constructor(
+    private readonly expireUnpaid: ExpireUnpaidOrdersUseCase,
+    @Inject(DISTRIBUTED_LOCK)
+    private readonly lock: DistributedLockInterface,
+    config: ConfigService,
+  ) {
+    this.windowsSeconds = config.get<Record<string, number>>(
+      'order.unpaidExpiry.windowsSeconds',
+      {},
+    );
+    this.intervalMs = config.get<number>(
+      'order.unpaidExpiry.sweepIntervalMs',
+      60000,
+    );
+    this.lockTtlMs = config.get<number>('order.unpaidExpiry.lockTtlMs', 120000);
+  }
+
+  onApplicationBootstrap() {
+    if (!Object.keys(this.windowsSeconds).length) {
+      this.logger.log('ℹ️ No unpaid order windows configured, expiry disabled');
+      return;
+    }
+    this.timer = setInterval(() => void this.sweep(), this.intervalMs);
+    this.logger.log(
+      `✅ Unpaid order expiry watcher started (${JSON.stringify(this.windowsSeconds)})`,
+    );
+  }
+
+  onModuleDestroy() {
+    clearInterval(this.timer);
+  }
+
+  async sweep() {
+    let token: string | null = null;
+    try {
+      token = await this.lock.acquire(LOCK_NAME, this.lockTtlMs);
+      // Another replica is sweeping
+      if (!token) return;
+
+      await this.expireUnpaid.execute(this.windowsSeconds);
+    } catch (error) {
+      this.logger.error(
+        `❌ Unpaid order expiry sweep failed: ${(error as Error).message}`,
+      );
+    } finally {
+      if (token) {
+        await this.lock
+          .release(LOCK_NAME, token)
+          .catch((error: Error) =>
+            this.logger.warn(
+              `⚠️ Could not release ${LOCK_NAME} lock: ${error.message}`,
+            ),
+          );
+      }
+    }
+  }
+}
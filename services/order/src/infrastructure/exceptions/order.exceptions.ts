@@ -0,0 +1,175 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { CouponRejectedError } from '../../domain/entities/coupon.entity';
+import { ShippingMethodUnavailableError } from '../../domain/services/shipping.service';
+import { ReturnNotAllowedError } from '../../domain/entities/return-request.entity';
+import { ShipmentNotAllowedError } from '../../domain/entities/shipment.entity';
+import { AmendmentNotAllowedError } from '../../domain/entities/order-amendment.entity';
+
+/**
+ * Base class for order errors that the client is expected to act on.
+ * The body matches the controller's `{ success, message, error }` shape and
+ * adds a stable `code` so the frontend can branch on it.
+ */
+export class OrderException extends HttpException {
+  constructor(
+    code: string,
+    message: string,
+    status: HttpStatus,
+    details?: unknown,
+  ) {
+    super(
+      {
+        success: false,
+        code,
+        message,
+        error: message,
+        details,
+        timestamp: new Date().toISOString(),
+      },
+      status,
+    );
+  }
+}
+
+export class UnknownProductException extends OrderException {
+  constructor(skus: string[]) {
+    super(
+      'UNKNOWN_PRODUCT',
+      `Unknown product SKU(s): ${skus.join(', ')}`,
+      HttpStatus.UNPROCESSABLE_ENTITY,
+      { skus },
+    );
+  }
+}
+
+export class InactiveProductException extends OrderException {
+  constructor(skus: string[]) {
+    super(
+      'PRODUCT_UNAVAILABLE',
+      `Product(s) no longer available: ${skus.join(', ')}`,
+      HttpStatus.UNPROCESSABLE_ENTITY,
+      { skus },
+    );
+  }
+}
+
+export interface PriceChange {
+  sku: string;
+  name: string;
+  submittedPrice: number;
+  currentPrice: number;
+  /** Catalog price in the base currency (prices above are in the order currency) */
+  currentBasePrice: number;
+}
+
+export class PriceChangedException extends OrderException {
+  constructor(changes: PriceChange[]) {
+    super(
+      'PRICE_CHANGED',
+      changes.length === 1
+        ? `The price of ${changes[0].name} has changed to ${changes[0].currentPrice}. Please review your cart.`
+        : `The prices of ${changes.length} items have changed. Please review your cart.`,
+      HttpStatus.CONFLICT,
+      { changes },
+    );
+  }
+}
+
+export class InvalidCouponException extends OrderException {
+  constructor(error: CouponRejectedError) {
+    super('INVALID_COUPON', error.message, HttpStatus.UNPROCESSABLE_ENTITY, {
+      couponCode: error.code,
+      reason: error.reason,
+    });
+  }
+}
+
+export class ShippingMethodUnavailableException extends OrderException {
+  constructor(error: ShippingMethodUnavailableError) {
+    super(
+      'SHIPPING_METHOD_UNAVAILABLE',
+      error.message,
+      HttpStatus.UNPROCESSABLE_ENTITY,
+      { shippingMethod: error.method },
+    );
+  }
+}
+
+export class UnsupportedCurrencyException extends OrderException {
+  constructor(currency: string, supported: string[]) {
+    super(
+      'UNSUPPORTED_CURRENCY',
+      `Orders cannot be placed in ${currency}`,
+      HttpStatus.UNPROCESSABLE_ENTITY,
+      { currency, supported },
+    );
+  }
+}
+
+export class IdempotencyKeyReusedException extends OrderException {
+  constructor() {
+    super(
+      'IDEMPOTENCY_KEY_REUSED',
+      'This Idempotency-Key was already used with a different request body.',
+      HttpStatus.UNPROCESSABLE_ENTITY,
+    );
+  }
+}
+
+export class IdempotencyKeyInProgressException extends OrderException {
+  constructor() {
+    super(
+      'IDEMPOTENCY_KEY_IN_PROGRESS',
+      'A request with this Idempotency-Key is still being processed. Please retry shortly.',
+      HttpStatus.CONFLICT,
+    );
+  }
+}
+
+export class CatalogUnavailableException extends OrderException {
+  constructor(details: string) {
+    super(
+      'CATALOG_UNAVAILABLE',
+      'Unable to verify product prices right now. Please try again shortly.',
+      HttpStatus.SERVICE_UNAVAILABLE,
+      { details },
+    );
+  }
+}
+
+export class InvoiceNotAvailableException extends OrderException {
+  constructor(status: string) {
+    super(
+      'INVOICE_NOT_AVAILABLE',
+      `An invoice is issued once the order is paid (order is ${status})`,
+      HttpStatus.CONFLICT,
+      { status },
+    );
+  }
+}
+
+export class ReturnNotAllowedException extends OrderException {
+  constructor(error: ReturnNotAllowedError) {
+    super('RETURN_NOT_ALLOWED', error.message, HttpStatus.UNPROCESSABLE_ENTITY);
+  }
+}
+
+export class ShipmentNotAllowedException extends OrderException {
+  constructor(error: ShipmentNotAllowedError) {
+    super(
+      'SHIPMENT_NOT_ALLOWED',
+      error.message,
+      HttpStatus.UNPROCESSABLE_ENTITY,
+    );
+  }
+}
+
+export class AmendmentNotAllowedException extends OrderException {
+  constructor(error: AmendmentNotAllowedError) {
+    super(
+      'AMENDMENT_NOT_ALLOWED',
+      error.message,
+      HttpStatus.UNPROCESSABLE_ENTITY,
+    );
+  }
+}
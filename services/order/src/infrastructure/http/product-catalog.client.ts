@@ -0,0 +1,80 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  CatalogProduct,
+  ProductCatalogInterface,
+} from '../../domain/interfaces/product-catalog.interface';
+import { Money } from '../../domain/value-objects/order-vo';
+import { CatalogUnavailableException } from '../exceptions/order.exceptions';
+
+interface ProductPayload {
+  sku: string;
+  name: string;
+  price: number | string;
+  category?: string;
+  weight?: number | string;
+  isActive?: boolean;
+}
+
+/**
+ * ✅ Product Catalog HTTP Client
+ *
+ * Reads current product data from the product service
+ * (GET /product/products/sku/:sku) so orders are priced server-side.
+ */
+@Injectable()
+export class ProductCatalogClient implements ProductCatalogInterface {
+  private readonly logger = new Logger(ProductCatalogClient.name);
+  private readonly baseUrl: string;
+  private readonly timeoutMs: number;
+  private readonly baseCurrency: string;
+
+  constructor(config: ConfigService) {
+    this.baseUrl = config.get<string>(
+      'order.productServiceUrl',
+      'http://localhost:3002',
+    );
+    this.timeoutMs = config.get<number>('order.productServiceTimeoutMs', 5000);
+    // Catalog prices are kept in the store's base currency
+    this.baseCurrency = config.get<string>('order.defaultCurrency', 'USD');
+  }
+
+  async findBySku(sku: string): Promise<CatalogProduct | null> {
+    const url = `${this.baseUrl}/product/products/sku/${encodeURIComponent(sku)}`;
+
+    let res: Response;
+    try {
+      res = await fetch(url, { signal: AbortSignal.timeout(this.timeoutMs) });
+    } catch (error) {
+      const message = (error as Error).message;
+      this.logger.error(
+        `❌ Product service unreachable for SKU ${sku}: ${message}`,
+      );
+      throw new CatalogUnavailableException(message);
+    }
+
+    if (res.status === 404) return null;
+
+    if (!res.ok) {
+      this.logger.error(
+        `❌ Product service returned ${res.status} for SKU ${sku}`,
+      );
+      throw new CatalogUnavailableException(
+        `Product service responded with ${res.status}`,
+      );
+    }
+
+    const body = (await res.json()) as { data?: ProductPayload };
+    const product = body.data;
+    if (!product) return null;
+
+    return {
+      sku: product.sku,
+      name: product.name,
+      price: Money.of(Number(product.price), this.baseCurrency),
+      category: product.category,
+      weight: product.weight !== undefined ? Number(product.weight) : undefined,
+      isActive: product.isActive !== false,
+    };
+  }
+}
@@ -0,0 +1,55 @@
+import { Injectable } from '@nestjs/common';
+import { Coupon, CouponType } from '../../domain/entities/coupon.entity';
+import { CouponModel } from '../database/coupon.schema';
+
+type CouponRecord = CouponModel & { createdAt?: Date; updatedAt?: Date };
+
+@Injectable()
+export class CouponMapper {
+  toDomain(raw: CouponRecord | null): Coupon | null {
+    if (!raw) return null;
+    return new Coupon(
+      raw.code,
+      raw.type as CouponType,
+      raw.value,
+      raw.active ?? true,
+      raw.redemptionCount ?? 0,
+      raw.minSpend ?? undefined,
+      raw.startsAt ? new Date(raw.startsAt) : undefined,
+      raw.expiresAt ? new Date(raw.expiresAt) : undefined,
+      raw.maxRedemptions ?? undefined,
+      raw.maxRedemptionsPerCustomer ?? undefined,
+      raw.skus ?? [],
+      raw.categories ?? [],
+      raw.description,
+      raw.createdAt ? new Date(raw.createdAt) : undefined,
+      raw.updatedAt ? new Date(raw.updatedAt) : undefined,
+    );
+  }
+
+  toPersistence(coupon: Coupon) {
+    return {
+      code: coupon.code,
+      type: coupon.type,
+      value: coupon.value,
+      description: coupon.description,
+      active: coupon.active,
+      minSpend: coupon.minSpend,
+      startsAt: coupon.startsAt,
+      expiresAt: coupon.expiresAt,
+      maxRedemptions: coupon.maxRedemptions,
+      maxRedemptionsPerCustomer: coupon.maxRedemptionsPerCustomer,
+      redemptionCount: coupon.redemptionCount,
+      skus: coupon.skus,
+      categories: coupon.categories,
+    };
+  }
+
+  toResponse(coupon: Coupon) {
+    return {
+      ...this.toPersistence(coupon),
+      createdAt: coupon.createdAt,
+      updatedAt: coupon.updatedAt,
+    };
+  }
+}
@@ -1,54 +1,269 @@
 import { Injectable } from '@nestjs/common';
-import { Order } from '../../domain/entities/order.entity';
+import {
+  DEFAULT_PAYMENT_METHOD,
+  Order,
+  OrderItem,
+  OrderStatus,
+  PaymentMethod,
+  ShippingAddress,
+  StatusHistoryEntry,
+  UnappliedPayment,
+} from '../../domain/entities/order.entity';
+import {
+  Shipment,
+  ShipmentStatus,
+} from '../../domain/entities/shipment.entity';
+import { OrderAmendment } from '../../domain/entities/order-amendment.entity';
+import { Money } from '../../domain/value-objects/order-vo';
+import { OrderModel } from '../database/order.schema';
+
+/** A stored order; documents from before buyerId may only have userId or _id */
+type OrderRecord = Partial<OrderModel> & {
+  _id?: { toString(): string };
+  id?: string;
+  userId?: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+};
 
 @Injectable()
 export class OrderMapper {
-  toDomain(raw: any): Order | null {
+  toDomain(raw: OrderRecord | null): Order | null {
     if (!raw) return null;
+    const currency = raw.currency ?? 'USD';
+    // Orders not migrated yet hold decimal amounts
+    const money = (amount = 0, inCurrency = currency) =>
+      raw.minorUnits
+        ? new Money(amount, inCurrency)
+        : Money.of(amount, inCurrency);
+
     return new Order(
-      raw.orderId ?? raw._id?.toString() ?? raw.id,
-      raw.buyerId ?? raw.userId,
-      raw.items ?? [],
-      raw.subtotal ?? 0,
-      raw.tax ?? 0,
-      raw.total ?? 0,
-      raw.currency ?? 'USD',
-      raw.status ?? 'pending',
+      (raw.orderId ?? raw._id?.toString() ?? raw.id)!,
+      (raw.buyerId ?? raw.userId)!,
+      (raw.items ?? []).map(
+        (i) =>
+          new OrderItem(
+            i.sku,
+            i.name,
+            money(i.unitPrice),
+            i.quantity,
+            i.allocation as OrderItem['allocation'],
+          ),
+      ),
+      money(raw.subtotal),
+      money(raw.tax),
+      money(raw.total),
+      currency,
+      (raw.status ?? 'pending') as OrderStatus,
       raw.shippingAddress,
       raw.createdAt ? new Date(raw.createdAt) : new Date(),
       raw.updatedAt ? new Date(raw.updatedAt) : new Date(),
+      (raw.statusHistory ?? []) as StatusHistoryEntry[],
+      money(raw.discount),
+      raw.couponCode,
+      raw.shippingMethod,
+      money(raw.shippingCost),
+      raw.baseCurrency,
+      raw.baseTotal !== undefined
+        ? money(raw.baseTotal, raw.baseCurrency)
+        : undefined,
+      raw.exchangeRate ?? 1,
+      (raw.taxBreakdown ?? []).map((line) => ({
+        rate: line.rate,
+        taxableAmount: money(line.taxableAmount),
+        tax: money(line.tax),
+      })),
+      raw.invoiceNumber,
+      raw.invoicedAt ? new Date(raw.invoicedAt) : undefined,
+      (raw.paymentMethod ?? DEFAULT_PAYMENT_METHOD) as PaymentMethod,
+      (raw.shipments ?? []).map(
+        (s) =>
+          new Shipment(
+            s.shipmentId,
+            s.items ?? [],
+            s.carrier,
+            s.trackingNumber,
+            s.status as ShipmentStatus,
+            new Date(s.shippedAt),
+            s.deliveredAt ? new Date(s.deliveredAt) : undefined,
+          ),
+      ),
+      (raw.amendments ?? []).map(
+        (a): OrderAmendment => ({
+          id: a.amendmentId,
+          number: a.number,
+          lines: a.lines ?? [],
+          addressChanged: !!a.addressChanged,
+          previousShippingAddress: a.previousShippingAddress as
+            | ShippingAddress
+            | undefined,
+          previousTotal: money(a.previousTotal),
+          total: money(a.total),
+          changedBy: a.changedBy,
+          reason: a.reason,
+          changedAt: new Date(a.changedAt),
+        }),
+      ),
+      raw.guestEmail,
+      raw.claimedAt ? new Date(raw.claimedAt) : undefined,
+      money(raw.refundedAmount),
+      (raw.unappliedPayments ?? []).map((p) => ({
+        amount:
+          p.amount !== undefined && p.currency
+            ? new Money(p.amount, p.currency)
+            : undefined,
+        provider: p.provider,
+        reference: p.reference,
+        reason: p.reason,
+        receivedAt: new Date(p.receivedAt),
+      })),
+      raw.checkoutStartedAt ? new Date(raw.checkoutStartedAt) : undefined,
     );
   }
 
+  unappliedPaymentToPersistence(payment: UnappliedPayment) {
+    const { amount, ...fields } = payment;
+    return {
+      ...fields,
+      amount: amount?.amount,
+      currency: amount?.currency,
+    };
+  }
+
+  amendmentToPersistence(amendment: OrderAmendment) {
+    const { id, previousTotal, total, ...fields } = amendment;
+    return {
+      amendmentId: id,
+      ...fields,
+      previousTotal: previousTotal.amount,
+      total: total.amount,
+    };
+  }
+
+  itemToPersistence(item: OrderItem) {
+    return {
+      sku: item.sku,
+      name: item.name,
+      unitPrice: item.unitPrice.amount,
+      quantity: item.quantity,
+      allocation: item.allocation,
+    };
+  }
+
+  shipmentToPersistence(shipment: Shipment) {
+    return {
+      shipmentId: shipment.id,
+      items: shipment.items,
+      carrier: shipment.carrier,
+      trackingNumber: shipment.trackingNumber,
+      status: shipment.status,
+      shippedAt: shipment.shippedAt,
+      deliveredAt: shipment.deliveredAt,
+    };
+  }
+
+  shipmentToResponse(shipment: Shipment) {
+    return {
+      id: shipment.id,
+      items: shipment.items,
+      carrier: shipment.carrier,
+      trackingNumber: shipment.trackingNumber,
+      status: shipment.status,
+      shippedAt: shipment.shippedAt,
+      deliveredAt: shipment.deliveredAt,
+    };
+  }
+
   toPersistence(order: Order) {
     return {
       orderId: order.id,
       buyerId: order.buyerId,
-      items: order.items,
-      subtotal: order.subtotal,
-      tax: order.tax,
-      total: order.total,
+      items: order.items.map((i) => this.itemToPersistence(i)),
+      subtotal: order.subtotal.amount,
+      tax: order.tax.amount,
+      total: order.total.amount,
       currency: order.currency,
+      minorUnits: true,
       status: order.status,
       shippingAddress: order.shippingAddress,
       createdAt: order.createdAt,
       updatedAt: order.updatedAt,
+      statusHistory: order.statusHistory,
+      discount: order.discount.amount,
+      couponCode: order.couponCode,
+      shippingMethod: order.shippingMethod,
+      shippingCost: order.shippingCost.amount,
+      paymentMethod: order.paymentMethod,
+      baseCurrency: order.baseCurrency,
+      baseTotal: order.baseTotal?.amount,
+      exchangeRate: order.exchangeRate,
+      taxBreakdown: order.taxBreakdown.map((line) => ({
+        rate: line.rate,
+        taxableAmount: line.taxableAmount.amount,
+        tax: line.tax.amount,
+      })),
+      invoiceNumber: order.invoiceNumber,
+      invoicedAt: order.invoicedAt,
+      shipments: order.shipments.map((s) => this.shipmentToPersistence(s)),
+      amendments: order.amendments.map((a) => this.amendmentToPersistence(a)),
+      guestEmail: order.guestEmail,
+      claimedAt: order.claimedAt,
+      refundedAmount: order.refundedAmount.amount,
+      unappliedPayments: order.unappliedPayments.map((p) =>
+        this.unappliedPaymentToPersistence(p),
+      ),
+      checkoutStartedAt: order.checkoutStartedAt,
     };
   }
 
+  /** Amounts are decimal in API responses, e.g. 19.99 */
   toResponse(order: Order) {
     return {
       id: order.id,
       _id: order.id, // Frontend expects _id
       userId: order.buyerId, // Frontend expects userId
       buyerId: order.buyerId,
-      items: order.items || [],
-      subtotal: order.subtotal,
-      tax: order.tax,
-      total: order.total,
+      items: order.items.map((i) => ({
+        ...i,
+        unitPrice: i.unitPrice.toMajor(),
+      })),
+      subtotal: order.subtotal.toMajor(),
+      discount: order.discount.toMajor(),
+      couponCode: order.couponCode,
+      shippingMethod: order.shippingMethod,
+      shippingCost: order.shippingCost.toMajor(),
+      paymentMethod: order.paymentMethod,
+      tax: order.tax.toMajor(),
+      taxBreakdown: order.taxBreakdown.map((line) => ({
+        rate: line.rate,
+        taxableAmount: line.taxableAmount.toMajor(),
+        tax: line.tax.toMajor(),
+      })),
+      total: order.total.toMajor(),
       currency: order.currency,
+      invoiceNumber: order.invoiceNumber,
+      invoicedAt: order.invoicedAt,
+      baseCurrency: order.baseCurrency,
+      baseTotal: order.baseTotal?.toMajor(),
+      exchangeRate: order.exchangeRate,
       status: order.status,
       shippingAddress: order.shippingAddress,
+      shipments: order.shipments.map((s) => this.shipmentToResponse(s)),
+      amendments: order.amendments.map((a) => ({
+        ...a,
+        previousTotal: a.previousTotal.toMajor(),
+        total: a.total.toMajor(),
+      })),
+      guestEmail: order.guestEmail,
+      claimedAt: order.claimedAt,
+      refundedAmount: order.refundedAmount.toMajor(),
+      unappliedPayments: order.unappliedPayments.map((p) => ({
+        ...p,
+        amount: p.amount?.toMajor(),
+        currency: p.amount?.currency,
+      })),
+      checkoutStartedAt: order.checkoutStartedAt,
+      statusHistory: order.statusHistory || [],
       createdAt: order.createdAt,
       updatedAt: order.updatedAt,
     };
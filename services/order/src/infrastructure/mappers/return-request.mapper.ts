@@ -0,0 +1,78 @@
+import { Injectable } from '@nestjs/common';
+import {
+  ReturnHistoryEntry,
+  ReturnItem,
+  ReturnRequest,
+  ReturnStatus,
+} from '../../domain/entities/return-request.entity';
+import { Money } from '../../domain/value-objects/order-vo';
+import { ReturnRequestModel } from '../database/return-request.schema';
+
+type ReturnRequestRecord = ReturnRequestModel & {
+  createdAt?: Date;
+  updatedAt?: Date;
+};
+
+@Injectable()
+export class ReturnRequestMapper {
+  toDomain(raw: ReturnRequestRecord | null): ReturnRequest | null {
+    if (!raw) return null;
+    const money = (amount: number) => new Money(amount, raw.currency);
+
+    return new ReturnRequest(
+      raw.returnId,
+      raw.orderId,
+      raw.buyerId,
+      (raw.items ?? []).map(
+        (i) =>
+          new ReturnItem(
+            i.sku,
+            i.name,
+            money(i.unitPrice),
+            i.quantity,
+            i.restockedQuantity ?? undefined,
+            i.damagedQuantity ?? undefined,
+          ),
+      ),
+      raw.reason,
+      raw.status as ReturnStatus,
+      money(raw.refundAmount),
+      raw.currency,
+      (raw.statusHistory ?? []) as ReturnHistoryEntry[],
+      raw.createdAt ? new Date(raw.createdAt) : undefined,
+      raw.updatedAt ? new Date(raw.updatedAt) : undefined,
+    );
+  }
+
+  toPersistence(ret: ReturnRequest) {
+    return {
+      returnId: ret.id,
+      orderId: ret.orderId,
+      buyerId: ret.buyerId,
+      items: ret.items.map((i) => ({ ...i, unitPrice: i.unitPrice.amount })),
+      reason: ret.reason,
+      status: ret.status,
+      refundAmount: ret.refundAmount.amount,
+      currency: ret.currency,
+      statusHistory: ret.statusHistory,
+    };
+  }
+
+  /** Amounts are decimal in API responses, e.g. 19.99 */
+  toResponse(ret: ReturnRequest) {
+    return {
+      id: ret.id,
+      returnId: ret.id,
+      orderId: ret.orderId,
+      buyerId: ret.buyerId,
+      items: ret.items.map((i) => ({ ...i, unitPrice: i.unitPrice.toMajor() })),
+      reason: ret.reason,
+      status: ret.status,
+      refundAmount: ret.refundAmount.toMajor(),
+      currency: ret.currency,
+      statusHistory: ret.statusHistory,
+      createdAt: ret.createdAt,
+      updatedAt: ret.updatedAt,
+    };
+  }
+}
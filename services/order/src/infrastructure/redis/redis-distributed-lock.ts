@@ -0,0 +1,41 @@
+import { Injectable } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { DistributedLockInterface } from '../../domain/interfaces/distributed-lock.interface';
+import { RedisService } from './redis.service';
+
+// Delete only our own lease; a lease that expired and was taken over is left alone
+const RELEASE_SCRIPT = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+  return redis.call('del', KEYS[1])
+end
+return 0
+`;
+
+/**
+ * ✅ Redis Distributed Lock
+ *
+ * `order:lock:<name>` set with NX and a PX expiry, holding a random token
+ * so a replica can only release the lease it took.
+ */
+@Injectable()
+export class RedisDistributedLock implements DistributedLockInterface {
+  constructor(private readonly redis: RedisService) {}
+
+  async acquire(name: string, ttlMs: number): Promise<string | null> {
+    const token = randomUUID();
+    const set = await this.redis
+      .getClient()
+      .set(this.redisKey(name), token, 'PX', ttlMs, 'NX');
+    return set === 'OK' ? token : null;
+  }
+
+  async release(name: string, token: string): Promise<void> {
+    await this.redis
+      .getClient()
+      .eval(RELEASE_SCRIPT, 1, this.redisKey(name), token);
+  }
+
+  private redisKey(name: string): string {
+    return `order:lock:${name}`;
+  }
+}
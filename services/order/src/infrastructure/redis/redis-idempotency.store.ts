@@ -0,0 +1,83 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  IdempotencyClaim,
+  IdempotencyStoreInterface,
+} from '../../domain/interfaces/idempotency-store.interface';
+import { RedisService } from './redis.service';
+
+interface StoredRecord {
+  status: 'in_progress' | 'completed';
+  requestHash: string;
+  response?: unknown;
+}
+
+/**
+ * ✅ Redis Idempotency Store
+ *
+ * Keeps `order:idempotency:<key>` for `order.idempotencyTtlSeconds`.
+ * SET NX makes the claim atomic, so two concurrent retries cannot both
+ * create an order.
+ */
+@Injectable()
+export class RedisIdempotencyStore implements IdempotencyStoreInterface {
+  private readonly ttlSeconds: number;
+
+  constructor(
+    private readonly redis: RedisService,
+    config: ConfigService,
+  ) {
+    this.ttlSeconds = config.get<number>('order.idempotencyTtlSeconds', 86400);
+  }
+
+  async claim(key: string, requestHash: string): Promise<IdempotencyClaim> {
+    const client = this.redis.getClient();
+    const record: StoredRecord = { status: 'in_progress', requestHash };
+
+    const set = await client.set(
+      this.redisKey(key),
+      JSON.stringify(record),
+      'EX',
+      this.ttlSeconds,
+      'NX',
+    );
+    if (set === 'OK') return { state: 'claimed' };
+
+    const raw = await client.get(this.redisKey(key));
+    // Expired between SET and GET: try once more
+    if (!raw) return this.claim(key, requestHash);
+
+    const existing = JSON.parse(raw) as StoredRecord;
+    if (existing.status === 'completed') {
+      return {
+        state: 'completed',
+        requestHash: existing.requestHash,
+        response: existing.response,
+      };
+    }
+    return { state: 'in_progress', requestHash: existing.requestHash };
+  }
+
+  async complete(
+    key: string,
+    requestHash: string,
+    response: unknown,
+  ): Promise<void> {
+    const record: StoredRecord = {
+      status: 'completed',
+      requestHash,
+      response,
+    };
+    await this.redis
+      .getClient()
+      .set(this.redisKey(key), JSON.stringify(record), 'EX', this.ttlSeconds);
+  }
+
+  async release(key: string): Promise<void> {
+    await this.redis.getClient().del(this.redisKey(key));
+  }
+
+  private redisKey(key: string): string {
+    return `order:idempotency:${key}`;
+  }
+}
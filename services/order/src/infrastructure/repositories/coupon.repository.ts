@@ -0,0 +1,179 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ClientSession, Model } from 'mongoose';
+import {
+  Coupon,
+  CouponRejectedError,
+} from '../../domain/entities/coupon.entity';
+import {
+  CouponListFilter,
+  CouponRepositoryInterface,
+} from '../../domain/interfaces/coupon-repository.interface';
+import { CouponModel, CouponRedemptionModel } from '../database/coupon.schema';
+import { CouponMapper } from '../mappers/coupon.mapper';
+
+const DUPLICATE_KEY = 11000;
+
+@Injectable()
+export class CouponRepository implements CouponRepositoryInterface {
+  constructor(
+    @InjectModel(CouponModel.name)
+    private readonly couponModel: Model<CouponModel>,
+    @InjectModel(CouponRedemptionModel.name)
+    private readonly redemptionModel: Model<CouponRedemptionModel>,
+    private readonly mapper: CouponMapper,
+  ) {}
+
+  async create(coupon: Coupon): Promise<Coupon> {
+    const saved = await this.couponModel.create(
+      this.mapper.toPersistence(coupon),
+    );
+    return this.mapper.toDomain(saved.toObject()) as Coupon;
+  }
+
+  async findByCode(code: string): Promise<Coupon | null> {
+    return this.mapper.toDomain(
+      await this.couponModel.findOne({ code }).lean(),
+    );
+  }
+
+  async findAll(
+    filter: CouponListFilter,
+  ): Promise<{ coupons: Coupon[]; total: number }> {
+    const query = filter.active === undefined ? {} : { active: filter.active };
+    const [rows, total] = await Promise.all([
+      this.couponModel
+        .find(query)
+        .sort({ createdAt: -1 })
+        .skip((filter.page - 1) * filter.limit)
+        .limit(filter.limit)
+        .lean(),
+      this.couponModel.countDocuments(query),
+    ]);
+    return {
+      coupons: rows.map((r) => this.mapper.toDomain(r) as Coupon),
+      total,
+    };
+  }
+
+  async setActive(code: string, active: boolean): Promise<Coupon | null> {
+    const updated = await this.couponModel
+      .findOneAndUpdate({ code }, { $set: { active } }, { new: true })
+      .lean();
+    return this.mapper.toDomain(updated);
+  }
+
+  async countRedemptions(code: string, buyerId: string): Promise<number> {
+    const row = await this.redemptionModel.findOne({ code, buyerId }).lean();
+    return row?.count ?? 0;
+  }
+
+  /**
+   * Move the redemptions of `fromBuyerId` to `toBuyerId`, adding to any the
+   * latter already has, inside the caller's transaction (guest orders being
+   * claimed into an account).
+   */
+  async transferRedemptions(
+    fromBuyerId: string,
+    toBuyerId: string,
+    session: ClientSession,
+  ): Promise<void> {
+    const rows = await this.redemptionModel
+      .find({ buyerId: fromBuyerId }, null, { session })
+      .lean();
+    for (const row of rows) {
+      await this.redemptionModel.updateOne(
+        { code: row.code, buyerId: toBuyerId },
+        {
+          $inc: { count: row.count },
+          $push: { orderIds: { $each: row.orderIds } },
+        },
+        { upsert: true, session },
+      );
+    }
+    await this.redemptionModel.deleteMany(
+      { buyerId: fromBuyerId },
+      { session },
+    );
+  }
+
+  /**
+   * Give back the redemption made by `orderId`, inside the caller's
+   * transaction (the order being cancelled), so it counts towards neither
+   * limit any more. Does nothing when the order redeemed no coupon or was
+   * already released. Not part of the domain interface, like `redeem`.
+   */
+  async release(orderId: string, session: ClientSession): Promise<void> {
+    const released = await this.redemptionModel
+      .findOneAndUpdate(
+        { orderIds: orderId },
+        { $inc: { count: -1 }, $pull: { orderIds: orderId } },
+        { session },
+      )
+      .lean();
+    if (!released) return;
+
+    await this.couponModel.updateOne(
+      { code: released.code, redemptionCount: { $gt: 0 } },
+      { $inc: { redemptionCount: -1 } },
+      { session },
+    );
+  }
+
+  /**
+   * Record a redemption inside the caller's transaction. Both limits are
+   * enforced by conditional updates, so concurrent orders cannot exceed them.
+   * Not part of the domain interface: only OrderRepository owns the session.
+   *
+   * @throws CouponRejectedError when a limit was reached or the coupon was disabled
+   */
+  async redeem(
+    coupon: Coupon,
+    buyerId: string,
+    orderId: string,
+    session: ClientSession,
+  ): Promise<void> {
+    const claimed = await this.couponModel.updateOne(
+      {
+        code: coupon.code,
+        active: true,
+        ...(coupon.maxRedemptions !== undefined && {
+          redemptionCount: { $lt: coupon.maxRedemptions },
+        }),
+      },
+      { $inc: { redemptionCount: 1 } },
+      { session },
+    );
+    if (!claimed.modifiedCount) {
+      throw new CouponRejectedError(
+        coupon.code,
+        'USAGE_LIMIT_REACHED',
+        'This promo code has been fully redeemed',
+      );
+    }
+
+    try {
+      // A buyer at their limit does not match, so the upsert hits the unique index
+      await this.redemptionModel.updateOne(
+        {
+          code: coupon.code,
+          buyerId,
+          ...(coupon.maxRedemptionsPerCustomer !== undefined && {
+            count: { $lt: coupon.maxRedemptionsPerCustomer },
+          }),
+        },
+        { $inc: { count: 1 }, $push: { orderIds: orderId } },
+        { upsert: true, session },
+      );
+    } catch (error) {
+      if ((error as { code?: number }).code === DUPLICATE_KEY) {
+        throw new CouponRejectedError(
+          coupon.code,
+          'CUSTOMER_LIMIT_REACHED',
+          'You have already used this promo code',
+        );
+      }
+      throw error;
+    }
+  }
+}
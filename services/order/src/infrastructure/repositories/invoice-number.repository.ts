@@ -0,0 +1,36 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { ClientSession, Model } from 'mongoose';
+import { CounterModel } from '../database/counter.schema';
+
+const INVOICE_COUNTER = 'invoice';
+
+@Injectable()
+export class InvoiceNumberRepository {
+  private readonly prefix: string;
+
+  constructor(
+    @InjectModel(CounterModel.name)
+    private readonly counterModel: Model<CounterModel>,
+    config: ConfigService,
+  ) {
+    this.prefix = config.get<string>('order.invoice.numberPrefix', 'INV-');
+  }
+
+  /**
+   * Allocate the next invoice number inside the caller's transaction.
+   * Not part of the domain interface: OrderRepository calls it when an
+   * order is paid, so numbers are sequential and never reused.
+   */
+  async next(session: ClientSession): Promise<string> {
+    const counter = await this.counterModel
+      .findOneAndUpdate(
+        { name: INVOICE_COUNTER },
+        { $inc: { seq: 1 } },
+        { new: true, upsert: true, session },
+      )
+      .lean();
+    return `${this.prefix}${String(counter.seq).padStart(6, '0')}`;
+  }
+}
@@ -0,0 +1,152 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import {
+  AnalyticsFilter,
+  OrderAnalyticsInterface,
+  ReportInterval,
+  RevenuePeriod,
+  SkuSales,
+  StatusCount,
+  TopSkuSort,
+} from '../../domain/interfaces/order-analytics.interface';
+import { OrderModel } from '../database/order.schema';
+import { minorUnitScale } from '../database/minor-units';
+
+@Injectable()
+export class OrderAnalyticsRepository implements OrderAnalyticsInterface {
+  constructor(
+    @InjectModel(OrderModel.name)
+    private readonly orderModel: Model<OrderModel>,
+  ) {}
+
+  async revenueByPeriod(
+    filter: AnalyticsFilter,
+    interval: ReportInterval,
+  ): Promise<RevenuePeriod[]> {
+    const rows = await this.orderModel.aggregate<{
+      _id: Date;
+      revenue: number;
+      orders: number;
+    }>([
+      { $match: this.match(filter, true) },
+      {
+        $group: {
+          _id: {
+            $dateTrunc: {
+              date: '$createdAt',
+              unit: interval,
+              timezone: 'UTC',
+              startOfWeek: 'monday',
+            },
+          },
+          revenue: { $sum: this.orderAmount(filter) },
+          orders: { $sum: 1 },
+        },
+      },
+      { $sort: { _id: 1 } },
+    ]);
+    return rows.map((r) => ({
+      periodStart: r._id,
+      revenue: r.revenue,
+      orders: r.orders,
+    }));
+  }
+
+  async statusCounts(filter: AnalyticsFilter): Promise<StatusCount[]> {
+    const rows = await this.orderModel.aggregate<{
+      _id: StatusCount['status'];
+      count: number;
+    }>([
+      { $match: this.match(filter, false) },
+      { $group: { _id: '$status', count: { $sum: 1 } } },
+    ]);
+    return rows.map((r) => ({ status: r._id, count: r.count }));
+  }
+
+  async topSkus(
+    filter: AnalyticsFilter,
+    sortBy: TopSkuSort,
+    limit: number,
+  ): Promise<SkuSales[]> {
+    const lineValue = {
+      $multiply: ['$items.unitPrice', '$items.quantity'],
+    };
+    const rows = await this.orderModel.aggregate<{
+      _id: string;
+      name?: string;
+      units: number;
+      revenue: number;
+    }>([
+      { $match: this.match(filter, true) },
+      { $unwind: '$items' },
+      {
+        $group: {
+          _id: '$items.sku',
+          name: { $first: '$items.name' },
+          units: { $sum: '$items.quantity' },
+          revenue: {
+            $sum: filter.currency ? lineValue : this.toBase(lineValue),
+          },
+        },
+      },
+      { $sort: { [sortBy]: -1, _id: 1 } },
+      { $limit: limit },
+    ]);
+    return rows.map((r) => ({
+      sku: r._id,
+      name: r.name ?? r._id,
+      units: r.units,
+      revenue: r.revenue,
+    }));
+  }
+
+  /**
+   * @param placed - Leave out cancelled orders, which brought in nothing
+   */
+  private match(filter: AnalyticsFilter, placed: boolean) {
+    const query: Record<string, any> = {};
+    if (placed) query.status = { $ne: 'cancelled' };
+    if (filter.currency) query.currency = filter.currency.toUpperCase();
+
+    if (filter.createdFrom || filter.createdTo) {
+      const createdAt: { $gte?: Date; $lte?: Date } = {};
+      if (filter.createdFrom) createdAt.$gte = filter.createdFrom;
+      if (filter.createdTo) createdAt.$lte = filter.createdTo;
+      query.createdAt = createdAt;
+    }
+    return query;
+  }
+
+  /**
+   * What the order was charged, in the filtered currency or else the base
+   * currency (orders stored before baseTotal existed were in the base
+   * currency).
+   */
+  private orderAmount(filter: AnalyticsFilter) {
+    return filter.currency ? '$total' : { $ifNull: ['$baseTotal', '$total'] };
+  }
+
+  /**
+   * Minor units of the order currency in minor units of the base currency,
+   * at the order's exchange rate.
+   */
+  private toBase(amount: unknown) {
+    return {
+      $divide: [
+        {
+          $multiply: [
+            amount,
+            minorUnitScale({ $ifNull: ['$baseCurrency', '$currency'] }),
+          ],
+        },
+        {
+          $multiply: [
+            { $ifNull: ['$exchangeRate', 1] },
+            minorUnitScale('$currency'),
+          ],
+        },
+      ],
+    };
+  }
+}
@@ -1,22 +1,53 @@
 import { Injectable } from '@nestjs/common';
-import { InjectModel } from '@nestjs/mongoose';
-import { Model } from 'mongoose';
-import { OrderRepositoryInterface } from '../../domain/interfaces/order-repository.interface';
-import { Order } from '../../domain/entities/order.entity';
+import { InjectConnection, InjectModel } from '@nestjs/mongoose';
+import { ClientSession, Connection, Model } from 'mongoose';
+import {
+  OrderEventsBuilder,
+  OrderListFilter,
+  OrderListOptions,
+  OrderRepositoryInterface,
+  OrderStatusTotal,
+} from '../../domain/interfaces/order-repository.interface';
+import {
+  AMENDABLE_STATUSES,
+  DEFAULT_PAYMENT_METHOD,
+  INVOICEABLE_STATUSES,
+  LineAllocation,
+  Order,
+  OrderStatus,
+  StatusHistoryEntry,
+  UnappliedPayment,
+} from '../../domain/entities/order.entity';
 import { OrderModel } from '../database/order.schema';
 import { OrderMapper } from '../mappers/order.mapper';
+import { OutboxRepository } from './outbox.repository';
+import { CouponRepository } from './coupon.repository';
+import { InvoiceNumberRepository } from './invoice-number.repository';
+import { Coupon } from '../../domain/entities/coupon.entity';
+import { Shipment, ShipmentStatus } from '../../domain/entities/shipment.entity';
+import { Money } from '../../domain/value-objects/order-vo';
+import { UNCOMMON_MINOR_UNITS } from '../database/minor-units';
 
 @Injectable()
 export class OrderRepository implements OrderRepositoryInterface {
   constructor(
-    @InjectModel('OrderModel') private readonly orderModel: Model<any>,
+    @InjectModel('OrderModel') private readonly orderModel: Model<OrderModel>,
     private readonly mapper: OrderMapper,
+    @InjectConnection() private readonly connection: Connection,
+    private readonly outbox: OutboxRepository,
+    private readonly coupons: CouponRepository,
+    private readonly invoiceNumbers: InvoiceNumberRepository,
   ) {}
 
-  async create(order: Order): Promise<Order> {
-    const doc = new this.orderModel(this.mapper.toPersistence(order));
-    const saved = await doc.save();
-    return this.mapper.toDomain(saved.toObject()) as Order;
+  async create(order: Order, events?: OrderEventsBuilder, coupon?: Coupon): Promise<Order> {
+    return this.inTransaction(async (session) => {
+      if (coupon) await this.coupons.redeem(coupon, order.buyerId, order.id, session);
+      const doc = new this.orderModel(this.mapper.toPersistence(order));
+      const saved = await doc.save({ session });
+      const created = this.mapper.toDomain(saved.toObject()) as Order;
+      if (events) await this.outbox.append(events(created), session);
+      return created;
+    });
   }
 
   async findById(id: string): Promise<Order | null> {
@@ -24,13 +55,413 @@ export class OrderRepository implements OrderRepositoryInterface {
     return this.mapper.toDomain(found);
   }
 
-  async findAll(filter: any = {}): Promise<Order[]> {
-    const rows = await this.orderModel.find(filter).sort({ createdAt: -1 }).lean();
+  async findAll(filter: OrderListFilter = {}, options?: OrderListOptions): Promise<Order[]> {
+    let query = this.orderModel.find(this.buildQuery(filter));
+
+    if (options) {
+      const direction = options.sortOrder === 'asc' ? 1 : -1;
+      // orderId as tie-breaker keeps pages stable when the sort field has duplicates
+      query = query
+        .sort({ [options.sortBy]: direction, orderId: direction })
+        .skip((options.page - 1) * options.limit)
+        .limit(options.limit);
+    } else {
+      query = query.sort({ createdAt: -1 });
+    }
+
+    const rows = await query.lean();
     return rows.map((r) => this.mapper.toDomain(r) as Order);
   }
 
+  async count(filter: OrderListFilter = {}): Promise<number> {
+    return this.orderModel.countDocuments(this.buildQuery(filter));
+  }
+
+  async totalsByStatus(): Promise<OrderStatusTotal[]> {
+    const rows = await this.orderModel.aggregate<{
+      _id: OrderStatus;
+      orders: number;
+      amount: number;
+    }>([
+      {
+        $group: {
+          _id: '$status',
+          orders: { $sum: 1 },
+          // Orders charged in another currency count with their base-currency total
+          amount: { $sum: { $ifNull: ['$baseTotal', '$total'] } },
+        },
+      },
+    ]);
+    return rows.map((r) => ({
+      status: r._id,
+      orders: r.orders,
+      amount: r.amount,
+    }));
+  }
+
+  async *stream(filter: OrderListFilter = {}): AsyncIterable<Order> {
+    const cursor = this.orderModel
+      .find(this.buildQuery(filter))
+      .sort({ createdAt: 1, orderId: 1 })
+      .lean()
+      .cursor();
+    for await (const row of cursor) {
+      yield this.mapper.toDomain(row) as Order;
+    }
+  }
+
   async updateStatus(id: string, status: string): Promise<Order | null> {
     const updated = await this.orderModel.findOneAndUpdate({ orderId: id }, { status }, { new: true }).lean();
     return this.mapper.toDomain(updated);
   }
+
+  /**
+   * Translate list filters into a Mongo query (only whitelisted fields are used)
+   */
+  private buildQuery(filter: OrderListFilter) {
+    const query: Record<string, any> = {};
+
+    if (filter.buyerId) query.buyerId = filter.buyerId;
+    if (filter.status) query.status = filter.status;
+    if (filter.sku) query['items.sku'] = filter.sku;
+    if (filter.paymentMethod) {
+      // Orders stored before the field existed use the default method
+      query.paymentMethod =
+        filter.paymentMethod === DEFAULT_PAYMENT_METHOD
+          ? { $in: [filter.paymentMethod, null] }
+          : filter.paymentMethod;
+    }
+
+    if (filter.createdFrom || filter.createdTo) {
+      query.createdAt = {};
+      if (filter.createdFrom) query.createdAt.$gte = filter.createdFrom;
+      if (filter.createdTo) query.createdAt.$lte = filter.createdTo;
+    }
+
+    if (filter.minTotal !== undefined || filter.maxTotal !== undefined) {
+      // Totals are stored in minor units, whose size depends on the currency
+      const range = (scale: number) => {
+        const total: { $gte?: number; $lte?: number } = {};
+        if (filter.minTotal !== undefined)
+          total.$gte = Math.round(filter.minTotal * scale);
+        if (filter.maxTotal !== undefined)
+          total.$lte = Math.round(filter.maxTotal * scale);
+        return total;
+      };
+      query.$or = [
+        {
+          currency: { $nin: UNCOMMON_MINOR_UNITS.flatMap((g) => g.currencies) },
+          total: range(100),
+        },
+        ...UNCOMMON_MINOR_UNITS.map((g) => ({
+          currency: { $in: g.currencies },
+          total: range(10 ** g.digits),
+        })),
+      ];
+    }
+
+    return query;
+  }
+
+  async transitionStatus(
+    id: string,
+    from: OrderStatus,
+    entry: StatusHistoryEntry,
+    events?: OrderEventsBuilder,
+  ): Promise<Order | null> {
+    return this.inTransaction(async (session) => {
+      const updated = await this.orderModel
+        .findOneAndUpdate(
+          { orderId: id, status: from },
+          { $set: { status: entry.to }, $push: { statusHistory: entry } },
+          { new: true, session },
+        )
+        .lean();
+      let order = this.mapper.toDomain(updated);
+      if (order && entry.to === 'cancelled' && order.couponCode) {
+        await this.coupons.release(id, session);
+      }
+      if (order && entry.to === 'paid' && !order.invoiceNumber) {
+        order = await this.allocateInvoiceNumber(id, session);
+      }
+      if (order && events) await this.outbox.append(events(order), session);
+      return order;
+    });
+  }
+
+  async addShipment(
+    order: Order,
+    shipment: Shipment,
+    entry?: StatusHistoryEntry,
+    events?: OrderEventsBuilder,
+  ): Promise<Order | null> {
+    const count = order.shipments.length;
+    return this.inTransaction(async (session) => {
+      const updated = await this.orderModel
+        .findOneAndUpdate(
+          {
+            orderId: order.id,
+            status: order.status,
+            // Same shipments as when read: no slot `count`, and slot `count - 1` filled
+            [`shipments.${count}`]: { $exists: false },
+            ...(count > 0 && { [`shipments.${count - 1}`]: { $exists: true } }),
+            // Not amended since it was read, so the shipped lines are still the order's
+            [`amendments.${order.amendments.length}`]: { $exists: false },
+          },
+          {
+            ...(entry && { $set: { status: entry.to } }),
+            $push: {
+              shipments: this.mapper.shipmentToPersistence(shipment),
+              ...(entry && { statusHistory: entry }),
+            },
+          },
+          { new: true, session },
+        )
+        .lean();
+      const saved = this.mapper.toDomain(updated);
+      if (saved && events) await this.outbox.append(events(saved), session);
+      return saved;
+    });
+  }
+
+  async updateShipmentStatus(
+    order: Order,
+    shipmentId: string,
+    status: ShipmentStatus,
+    entry?: StatusHistoryEntry,
+    events?: OrderEventsBuilder,
+  ): Promise<Order | null> {
+    const current = order.shipments.find((s) => s.id === shipmentId);
+    return this.inTransaction(async (session) => {
+      const updated = await this.orderModel
+        .findOneAndUpdate(
+          {
+            orderId: order.id,
+            status: order.status,
+            shipments: { $elemMatch: { shipmentId, status: current?.status } },
+          },
+          {
+            $set: {
+              'shipments.$.status': status,
+              ...(status === 'delivered' && { 'shipments.$.deliveredAt': new Date() }),
+              ...(entry && { status: entry.to }),
+            },
+            ...(entry && { $push: { statusHistory: entry } }),
+          },
+          { new: true, session },
+        )
+        .lean();
+      const saved = this.mapper.toDomain(updated);
+      if (saved && events) await this.outbox.append(events(saved), session);
+      return saved;
+    });
+  }
+
+  async recordRefund(
+    order: Order,
+    refundedAmount: Money,
+    entry?: StatusHistoryEntry,
+    events?: OrderEventsBuilder,
+  ): Promise<Order | null> {
+    const amount = refundedAmount.amount;
+    return this.inTransaction(async (session) => {
+      const updated = await this.orderModel
+        .findOneAndUpdate(
+          {
+            orderId: order.id,
+            status: order.status,
+            // Never lower the total, so a redelivered refund is a no-op
+            refundedAmount: { $not: { $gte: amount } },
+          },
+          {
+            $set: { refundedAmount: amount, ...(entry && { status: entry.to }) },
+            ...(entry && { $push: { statusHistory: entry } }),
+          },
+          { new: true, session },
+        )
+        .lean();
+      const saved = this.mapper.toDomain(updated);
+      if (saved && events) await this.outbox.append(events(saved), session);
+      return saved;
+    });
+  }
+
+  async addUnappliedPayment(
+    id: string,
+    payment: UnappliedPayment,
+  ): Promise<Order | null> {
+    const updated = await this.orderModel
+      .findOneAndUpdate(
+        {
+          orderId: id,
+          // Redelivered payment events are recorded once
+          ...(payment.reference && {
+            'unappliedPayments.reference': { $ne: payment.reference },
+          }),
+        },
+        {
+          $push: {
+            unappliedPayments:
+              this.mapper.unappliedPaymentToPersistence(payment),
+          },
+        },
+        { new: true },
+      )
+      .lean();
+    return this.mapper.toDomain(updated);
+  }
+
+  async recordCheckout(id: string, startedAt: Date): Promise<Order | null> {
+    const updated = await this.orderModel
+      .findOneAndUpdate(
+        { orderId: id, checkoutStartedAt: { $exists: false } },
+        { $set: { checkoutStartedAt: startedAt } },
+        { new: true },
+      )
+      .lean();
+    return this.mapper.toDomain(updated);
+  }
+
+  async amend(order: Order, amended: Order, events?: OrderEventsBuilder): Promise<Order | null> {
+    const count = order.amendments.length;
+    const amendment = amended.amendments[count];
+    const stored = this.mapper.toPersistence(amended);
+    return this.inTransaction(async (session) => {
+      const updated = await this.orderModel
+        .findOneAndUpdate(
+          {
+            orderId: order.id,
+            status: { $in: AMENDABLE_STATUSES },
+            'shipments.0': { $exists: false },
+            checkoutStartedAt: { $exists: false },
+            [`amendments.${count}`]: { $exists: false },
+            ...(count > 0 && { [`amendments.${count - 1}`]: { $exists: true } }),
+          },
+          {
+            $set: {
+              items: stored.items,
+              shippingAddress: stored.shippingAddress,
+              subtotal: stored.subtotal,
+              discount: stored.discount,
+              shippingMethod: stored.shippingMethod,
+              shippingCost: stored.shippingCost,
+              tax: stored.tax,
+              taxBreakdown: stored.taxBreakdown,
+              total: stored.total,
+              baseTotal: stored.baseTotal,
+              exchangeRate: stored.exchangeRate,
+            },
+            $push: { amendments: this.mapper.amendmentToPersistence(amendment) },
+          },
+          { new: true, session },
+        )
+        .lean();
+      const saved = this.mapper.toDomain(updated);
+      if (saved && events) await this.outbox.append(events(saved), session);
+      return saved;
+    });
+  }
+
+  async assignInvoiceNumber(id: string): Promise<Order | null> {
+    return this.inTransaction(async (session) => {
+      const found = await this.orderModel
+        .findOne({ orderId: id }, null, { session })
+        .lean();
+      const order = this.mapper.toDomain(found);
+      if (!order || order.invoiceNumber) return order;
+      if (!INVOICEABLE_STATUSES.includes(order.status)) return null;
+      return this.allocateInvoiceNumber(id, session);
+    });
+  }
+
+  async updateAllocations(
+    id: string,
+    allocations: Record<string, LineAllocation>,
+    events?: OrderEventsBuilder,
+  ): Promise<Order | null> {
+    const skus = Object.keys(allocations);
+    return this.inTransaction(async (session) => {
+      const updated = await this.orderModel
+        .findOneAndUpdate(
+          { orderId: id },
+          {
+            $set: Object.fromEntries(
+              skus.map((sku, n) => [
+                `items.$[line${n}].allocation`,
+                allocations[sku],
+              ]),
+            ),
+          },
+          {
+            arrayFilters: skus.map((sku, n) => ({ [`line${n}.sku`]: sku })),
+            new: true,
+            session,
+          },
+        )
+        .lean();
+      const saved = this.mapper.toDomain(updated);
+      if (saved && events) await this.outbox.append(events(saved), session);
+      return saved;
+    });
+  }
+
+  async claimGuestOrders(
+    guestBuyerId: string,
+    buyerId: string,
+    events?: OrderEventsBuilder,
+  ): Promise<Order[]> {
+    return this.inTransaction(async (session) => {
+      const rows = await this.orderModel
+        .find({ buyerId: guestBuyerId }, { orderId: 1 }, { session })
+        .lean();
+      const orderIds = rows.map((r) => r.orderId as string);
+      if (!orderIds.length) return [];
+
+      await this.orderModel.updateMany(
+        { orderId: { $in: orderIds }, buyerId: guestBuyerId },
+        { $set: { buyerId, claimedAt: new Date() } },
+        { session },
+      );
+      await this.coupons.transferRedemptions(guestBuyerId, buyerId, session);
+
+      const claimed = await this.orderModel
+        .find({ orderId: { $in: orderIds } }, null, { session })
+        .sort({ createdAt: -1 })
+        .lean();
+      const orders = claimed.map((r) => this.mapper.toDomain(r) as Order);
+      if (events) {
+        await this.outbox.append(orders.flatMap(events), session);
+      }
+      return orders;
+    });
+  }
+
+  /**
+   * Must run in the transaction that read the order without a number, so
+   * a concurrent allocation aborts one of them instead of burning a number.
+   */
+  private async allocateInvoiceNumber(id: string, session: ClientSession): Promise<Order | null> {
+    const invoiceNumber = await this.invoiceNumbers.next(session);
+    const updated = await this.orderModel
+      .findOneAndUpdate(
+        { orderId: id, invoiceNumber: { $exists: false } },
+        { $set: { invoiceNumber, invoicedAt: new Date() } },
+        { new: true, session },
+      )
+      .lean();
+    return this.mapper.toDomain(updated);
+  }
+
+  /**
+   * Run `work` in a Mongo transaction (requires a replica set) so order
+   * changes and their outbox events are committed together.
+   */
+  private async inTransaction<T>(work: (session: ClientSession) => Promise<T>): Promise<T> {
+    const session = await this.connection.startSession();
+    try {
+      return await session.withTransaction(() => work(session));
+    } finally {
+      await session.endSession();
+    }
+  }
 }
@@ -0,0 +1,166 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ClientSession, Model } from 'mongoose';
+import { randomUUID } from 'crypto';
+import {
+  OutboxEvent,
+  OutboxMessage,
+  OutboxRepositoryInterface,
+  OutboxStatus,
+  StuckOutboxFilter,
+} from '../../domain/interfaces/outbox-repository.interface';
+import { OutboxEventModel } from '../database/outbox.schema';
+
+@Injectable()
+export class OutboxRepository implements OutboxRepositoryInterface {
+  constructor(
+    @InjectModel(OutboxEventModel.name)
+    private readonly outboxModel: Model<OutboxEventModel>,
+  ) {}
+
+  /**
+   * Insert events inside the caller's transaction.
+   * Not part of the domain interface: only repositories that own the
+   * session (e.g. OrderRepository) write to the outbox.
+   */
+  async append(messages: OutboxMessage[], session: ClientSession) {
+    if (!messages.length) return;
+    const now = new Date();
+    await this.outboxModel.insertMany(
+      messages.map((m) => ({
+        eventId: randomUUID(),
+        topic: m.topic,
+        key: m.key,
+        payload: m.payload,
+        status: 'pending',
+        attempts: 0,
+        nextAttemptAt: now,
+      })),
+      { session },
+    );
+  }
+
+  async claimDue(limit: number, leaseMs: number): Promise<OutboxEvent[]> {
+    const claimed: OutboxEvent[] = [];
+    for (let i = 0; i < limit; i++) {
+      const now = new Date();
+      const row = await this.outboxModel
+        .findOneAndUpdate(
+          {
+            status: 'pending',
+            nextAttemptAt: { $lte: now },
+            $or: [{ lockedUntil: null }, { lockedUntil: { $lte: now } }],
+          },
+          { $set: { lockedUntil: new Date(now.getTime() + leaseMs) } },
+          { sort: { createdAt: 1 }, new: true },
+        )
+        .lean();
+      if (!row) break;
+      claimed.push(this.toEvent(row));
+    }
+    return claimed;
+  }
+
+  async hasUnsentBefore(event: OutboxEvent): Promise<boolean> {
+    const older = await this.outboxModel.exists({
+      key: event.key,
+      status: { $ne: 'sent' },
+      createdAt: { $lt: event.createdAt },
+    });
+    return !!older;
+  }
+
+  async markSent(id: string): Promise<void> {
+    await this.outboxModel.updateOne(
+      { eventId: id },
+      {
+        $set: { status: 'sent', sentAt: new Date(), lockedUntil: null },
+        $inc: { attempts: 1 },
+      },
+    );
+  }
+
+  async markFailed(
+    id: string,
+    error: string,
+    nextAttemptAt: Date | null,
+  ): Promise<void> {
+    await this.outboxModel.updateOne(
+      { eventId: id },
+      {
+        $set: {
+          status: nextAttemptAt ? 'pending' : 'failed',
+          lastError: error,
+          lockedUntil: null,
+          ...(nextAttemptAt && { nextAttemptAt }),
+        },
+        $inc: { attempts: 1 },
+      },
+    );
+  }
+
+  async postpone(id: string, until: Date): Promise<void> {
+    await this.outboxModel.updateOne(
+      { eventId: id },
+      { $set: { nextAttemptAt: until, lockedUntil: null } },
+    );
+  }
+
+  async findStuck(
+    filter: StuckOutboxFilter,
+  ): Promise<{ events: OutboxEvent[]; total: number }> {
+    const stuckPending = {
+      status: 'pending',
+      createdAt: { $lt: filter.pendingBefore },
+    };
+    const query =
+      filter.status === 'failed'
+        ? { status: 'failed' }
+        : filter.status === 'pending'
+          ? stuckPending
+          : { $or: [{ status: 'failed' }, stuckPending] };
+
+    const [rows, total] = await Promise.all([
+      this.outboxModel
+        .find(query)
+        .sort({ createdAt: 1 })
+        .skip((filter.page - 1) * filter.limit)
+        .limit(filter.limit)
+        .lean(),
+      this.outboxModel.countDocuments(query),
+    ]);
+
+    return { events: rows.map((r) => this.toEvent(r)), total };
+  }
+
+  async requeue(ids?: string[]): Promise<number> {
+    const query = ids?.length
+      ? { eventId: { $in: ids }, status: { $ne: 'sent' } }
+      : { status: 'failed' };
+
+    const result = await this.outboxModel.updateMany(query, {
+      $set: {
+        status: 'pending',
+        attempts: 0,
+        nextAttemptAt: new Date(),
+        lockedUntil: null,
+      },
+    });
+    return result.modifiedCount;
+  }
+
+  private toEvent(row: OutboxEventModel & { createdAt?: Date }): OutboxEvent {
+    return {
+      id: row.eventId,
+      topic: row.topic,
+      key: row.key,
+      payload: row.payload,
+      status: row.status as OutboxStatus,
+      attempts: row.attempts,
+      lastError: row.lastError,
+      nextAttemptAt: row.nextAttemptAt,
+      createdAt: row.createdAt ?? new Date(0),
+      sentAt: row.sentAt,
+    };
+  }
+}
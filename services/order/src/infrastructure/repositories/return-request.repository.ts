@@ -0,0 +1,144 @@
+import { Injectable } from '@nestjs/common';
+import { InjectConnection, InjectModel } from '@nestjs/mongoose';
+import { ClientSession, Connection, Model } from 'mongoose';
+import {
+  ReturnHistoryEntry,
+  ReturnItem,
+  ReturnRequest,
+  ReturnStatus,
+} from '../../domain/entities/return-request.entity';
+import {
+  ReturnBuilder,
+  ReturnEventsBuilder,
+  ReturnListFilter,
+  ReturnRepositoryInterface,
+} from '../../domain/interfaces/return-repository.interface';
+import { CounterModel } from '../database/counter.schema';
+import { ReturnRequestModel } from '../database/return-request.schema';
+import { ReturnRequestMapper } from '../mappers/return-request.mapper';
+import { OutboxRepository } from './outbox.repository';
+
+@Injectable()
+export class ReturnRequestRepository implements ReturnRepositoryInterface {
+  constructor(
+    @InjectModel(ReturnRequestModel.name)
+    private readonly returnModel: Model<ReturnRequestModel>,
+    @InjectModel(CounterModel.name)
+    private readonly counterModel: Model<CounterModel>,
+    private readonly mapper: ReturnRequestMapper,
+    @InjectConnection() private readonly connection: Connection,
+    private readonly outbox: OutboxRepository,
+  ) {}
+
+  async create(
+    orderId: string,
+    build: ReturnBuilder,
+    events?: ReturnEventsBuilder,
+  ): Promise<ReturnRequest> {
+    return this.inTransaction(async (session) => {
+      // Bumping the order's return counter first makes a concurrent request
+      // for the same order conflict; it is retried and then sees this return
+      await this.counterModel.updateOne(
+        { name: `returns:${orderId}` },
+        { $inc: { seq: 1 } },
+        { upsert: true, session },
+      );
+      const ret = build(await this.returnedQuantities(orderId, session));
+      const [saved] = await this.returnModel.create(
+        [this.mapper.toPersistence(ret)],
+        { session },
+      );
+      const created = this.mapper.toDomain(saved.toObject()) as ReturnRequest;
+      if (events) await this.outbox.append(events(created), session);
+      return created;
+    });
+  }
+
+  async findById(id: string): Promise<ReturnRequest | null> {
+    return this.mapper.toDomain(
+      await this.returnModel.findOne({ returnId: id }).lean(),
+    );
+  }
+
+  async findAll(
+    filter: ReturnListFilter,
+  ): Promise<{ returns: ReturnRequest[]; total: number }> {
+    const query: Record<string, string> = {};
+    if (filter.status) query.status = filter.status;
+    if (filter.buyerId) query.buyerId = filter.buyerId;
+    if (filter.orderId) query.orderId = filter.orderId;
+
+    const [rows, total] = await Promise.all([
+      this.returnModel
+        .find(query)
+        .sort({ createdAt: -1 })
+        .skip((filter.page - 1) * filter.limit)
+        .limit(filter.limit)
+        .lean(),
+      this.returnModel.countDocuments(query),
+    ]);
+    return {
+      returns: rows.map((r) => this.mapper.toDomain(r) as ReturnRequest),
+      total,
+    };
+  }
+
+  async transitionStatus(
+    id: string,
+    from: ReturnStatus,
+    entry: ReturnHistoryEntry,
+    items?: ReturnItem[],
+    events?: ReturnEventsBuilder,
+  ): Promise<ReturnRequest | null> {
+    return this.inTransaction(async (session) => {
+      const updated = await this.returnModel
+        .findOneAndUpdate(
+          { returnId: id, status: from },
+          {
+            $set: {
+              status: entry.to,
+              ...(items && { items: items.map((i) => ({ ...i })) }),
+            },
+            $push: { statusHistory: entry },
+          },
+          { new: true, session },
+        )
+        .lean();
+      const ret = this.mapper.toDomain(updated);
+      if (ret && events) await this.outbox.append(events(ret), session);
+      return ret;
+    });
+  }
+
+  /** Units per SKU of `orderId` in returns that were not rejected */
+  private async returnedQuantities(
+    orderId: string,
+    session: ClientSession,
+  ): Promise<Record<string, number>> {
+    const rows = await this.returnModel
+      .aggregate<{ _id: string; quantity: number }>([
+        { $match: { orderId, status: { $ne: 'rejected' } } },
+        { $unwind: '$items' },
+        {
+          $group: { _id: '$items.sku', quantity: { $sum: '$items.quantity' } },
+        },
+      ])
+      .session(session);
+    return Object.fromEntries(rows.map((r) => [r._id, r.quantity]));
+  }
+
+  /**
+   * Run `work` in a Mongo transaction so return changes and their outbox
+   * events are committed together.
+   */
+  private async inTransaction<T>(
+    work: (session: ClientSession) => Promise<T>,
+  ): Promise<T> {
+    const session = await this.connection.startSession();
+    try {
+      return await session.withTransaction(() => work(session));
+    } finally {
+      await session.endSession();
+    }
+  }
+}
@@ -0,0 +1,183 @@
+import {
+  Controller,
+  Get,
+  HttpException,
+  HttpStatus,
+  Logger,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiCookieAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+
+import { GetSalesReportUseCase } from '../../application/use-cases/get-sales-report.usecase';
+import {
+  AnalyticsQueryDto,
+  RevenueReportQueryDto,
+  TopSkusQueryDto,
+} from '../../application/dto/analytics-query.dto';
+import { SessionAuthGuard } from '../../shared/guards/session-auth.guard';
+import { AdminGuard } from '../../shared/guards/admin.guard';
+
+/**
+ * Analytics Controller (Admin)
+ *
+ * Sales reporting over orders. Every report takes createdFrom/createdTo
+ * and an optional currency.
+ *
+ * @example
+ * GET /order/analytics/summary - Revenue, AOV, status funnel, cancellation rate
+ * GET /order/analytics/revenue?interval=week - Revenue and orders per period
+ * GET /order/analytics/top-skus?sortBy=units - Best-selling SKUs
+ */
+@ApiTags('analytics')
+@ApiCookieAuth()
+@UseGuards(SessionAuthGuard, AdminGuard)
+@Controller('order/analytics')
+export class AnalyticsController {
+  private readonly logger = new Logger(AnalyticsController.name);
+
+  constructor(private readonly salesReport: GetSalesReportUseCase) {
+    this.logger.log('✅ AnalyticsController initialized');
+  }
+
+  /**
+   * Sales summary
+   *
+   * @returns Promise<{success, message, data: {currency, revenue, orders, averageOrderValue, cancelledOrders, cancellationRate, statuses}}>
+   *
+   * @throws HttpException(401) - If not logged in
+   * @throws HttpException(403) - If the user is not an admin
+   *
+   * @example
+   * GET /order/analytics/summary?createdFrom=2025-01-01&createdTo=2025-01-31&currency=USD
+   */
+  @Get('summary')
+  @ApiOperation({
+    summary: 'Revenue, order count, status funnel and cancellation rate',
+  })
+  @ApiResponse({ status: 200, description: 'Summary fetched successfully' })
+  @ApiResponse({ status: 401, description: 'Not authenticated' })
+  @ApiResponse({ status: 403, description: 'Admin access required' })
+  async summary(@Query() q: AnalyticsQueryDto) {
+    try {
+      const data = await this.salesReport.summary(q);
+      return {
+        success: true,
+        message: 'Summary fetched successfully',
+        data,
+      };
+    } catch (error) {
+      const message = (error as Error).message;
+      this.logger.error(`❌ Failed to build sales summary: ${message}`);
+
+      if (error instanceof HttpException) {
+        throw error;
+      }
+
+      throw new HttpException(
+        {
+          success: false,
+          message: 'Failed to retrieve sales summary',
+          error:
+            process.env.NODE_ENV === 'production'
+              ? 'Internal server error'
+              : message,
+        },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * Revenue per period
+   *
+   * @returns Promise<{success, message, data: {currency, interval, series}}>
+   *
+   * @example
+   * GET /order/analytics/revenue?interval=month&createdFrom=2025-01-01
+   */
+  @Get('revenue')
+  @ApiOperation({
+    summary: 'Revenue, orders and average order value by day, week or month',
+  })
+  @ApiResponse({ status: 200, description: 'Revenue fetched successfully' })
+  @ApiResponse({ status: 401, description: 'Not authenticated' })
+  @ApiResponse({ status: 403, description: 'Admin access required' })
+  async revenue(@Query() q: RevenueReportQueryDto) {
+    try {
+      const data = await this.salesReport.revenue(q);
+      return {
+        success: true,
+        message: 'Revenue fetched successfully',
+        data,
+      };
+    } catch (error) {
+      const message = (error as Error).message;
+      this.logger.error(`❌ Failed to build revenue report: ${message}`);
+
+      if (error instanceof HttpException) {
+        throw error;
+      }
+
+      throw new HttpException(
+        {
+          success: false,
+          message: 'Failed to retrieve revenue',
+          error:
+            process.env.NODE_ENV === 'production'
+              ? 'Internal server error'
+              : message,
+        },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * Top SKUs
+   *
+   * @returns Promise<{success, message, data: {currency, sortBy, skus}}>
+   *
+   * @example
+   * GET /order/analytics/top-skus?sortBy=revenue&limit=10
+   */
+  @Get('top-skus')
+  @ApiOperation({ summary: 'Best-selling SKUs by revenue or units' })
+  @ApiResponse({ status: 200, description: 'Top SKUs fetched successfully' })
+  @ApiResponse({ status: 401, description: 'Not authenticated' })
+  @ApiResponse({ status: 403, description: 'Admin access required' })
+  async topSkus(@Query() q: TopSkusQueryDto) {
+    try {
+      const data = await this.salesReport.topSkus(q);
+      return {
+        success: true,
+        message: 'Top SKUs fetched successfully',
+        data,
+      };
+    } catch (error) {
+      const message = (error as Error).message;
+      this.logger.error(`❌ Failed to build top SKUs report: ${message}`);
+
+      if (error instanceof HttpException) {
+        throw error;
+      }
+
+      throw new HttpException(
+        {
+          success: false,
+          message: 'Failed to retrieve top SKUs',
+          error:
+            process.env.NODE_ENV === 'production'
+              ? 'Internal server error'
+              : message,
+        },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+}
@@ -0,0 +1,235 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpException,
+  HttpStatus,
+  Logger,
+  Param,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBody,
+  ApiCookieAuth,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+
+import { CreateCouponUseCase } from '../../application/use-cases/create-coupon.usecase';
+import { ListCouponsUseCase } from '../../application/use-cases/list-coupons.usecase';
+import { DisableCouponUseCase } from '../../application/use-cases/disable-coupon.usecase';
+import { ValidateCouponUseCase } from '../../application/use-cases/validate-coupon.usecase';
+import { CreateCouponDto } from '../../application/dto/create-coupon.dto';
+import { FilterCouponDto } from '../../application/dto/filter-coupon.dto';
+import { ValidateCouponDto } from '../../application/dto/validate-coupon.dto';
+import { SessionAuthGuard } from '../../shared/guards/session-auth.guard';
+import { AdminGuard } from '../../shared/guards/admin.guard';
+
+/**
+ * Coupon Controller
+ *
+ * Promo code management (admin) and cart validation (checkout).
+ *
+ * @example
+ * POST /order/coupons - Create a coupon (admin)
+ * GET /order/coupons - List coupons (admin)
+ * PATCH /order/coupons/:code/disable - Disable a coupon (admin)
+ * POST /order/coupons/validate - Check a code against a cart
+ */
+@ApiTags('coupons')
+@Controller('order/coupons')
+export class CouponController {
+  private readonly logger = new Logger(CouponController.name);
+
+  constructor(
+    private readonly createCoupon: CreateCouponUseCase,
+    private readonly listCoupons: ListCouponsUseCase,
+    private readonly disableCoupon: DisableCouponUseCase,
+    private readonly validateCoupon: ValidateCouponUseCase,
+  ) {
+    this.logger.log('✅ CouponController initialized');
+  }
+
+  /**
+   * Create a coupon
+   *
+   * @throws HttpException(400) - Invalid value or validity window
+   * @throws HttpException(409) - Code already exists
+   */
+  @Post()
+  @UseGuards(SessionAuthGuard, AdminGuard)
+  @ApiCookieAuth()
+  @ApiOperation({ summary: 'Create a coupon (admin)' })
+  @ApiBody({ type: CreateCouponDto })
+  @ApiResponse({ status: 201, description: 'Coupon created' })
+  @ApiResponse({ status: 400, description: 'Invalid coupon data' })
+  @ApiResponse({ status: 403, description: 'Admin access required' })
+  @ApiResponse({ status: 409, description: 'Coupon code already exists' })
+  async create(@Body() dto: CreateCouponDto) {
+    try {
+      const coupon = await this.createCoupon.execute(dto);
+      return {
+        success: true,
+        message: 'Coupon created successfully',
+        data: coupon,
+      };
+    } catch (error) {
+      const message = (error as Error).message;
+      this.logger.error(`❌ Failed to create coupon: ${message}`);
+
+      if (error instanceof HttpException) {
+        throw error;
+      }
+
+      throw new HttpException(
+        {
+          success: false,
+          message: 'Failed to create coupon',
+          error:
+            process.env.NODE_ENV === 'production'
+              ? 'Internal server error'
+              : message,
+        },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * List coupons, newest first
+   */
+  @Get()
+  @UseGuards(SessionAuthGuard, AdminGuard)
+  @ApiCookieAuth()
+  @ApiOperation({ summary: 'List coupons (admin)' })
+  @ApiResponse({ status: 200, description: 'Coupons fetched successfully' })
+  @ApiResponse({ status: 403, description: 'Admin access required' })
+  async list(@Query() q: FilterCouponDto) {
+    try {
+      const { coupons, pagination } = await this.listCoupons.execute(q);
+      return {
+        success: true,
+        message: 'Coupons fetched successfully',
+        data: coupons,
+        pagination,
+      };
+    } catch (error) {
+      const message = (error as Error).message;
+      this.logger.error(`❌ Failed to list coupons: ${message}`);
+
+      if (error instanceof HttpException) {
+        throw error;
+      }
+
+      throw new HttpException(
+        {
+          success: false,
+          message: 'Failed to retrieve coupons',
+          error:
+            process.env.NODE_ENV === 'production'
+              ? 'Internal server error'
+              : message,
+        },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * Disable a coupon for new orders
+   *
+   * @throws HttpException(404) - Coupon not found
+   */
+  @Patch(':code/disable')
+  @UseGuards(SessionAuthGuard, AdminGuard)
+  @ApiCookieAuth()
+  @ApiOperation({ summary: 'Disable a coupon (admin)' })
+  @ApiParam({ name: 'code', example: 'SUMMER10' })
+  @ApiResponse({ status: 200, description: 'Coupon disabled' })
+  @ApiResponse({ status: 403, description: 'Admin access required' })
+  @ApiResponse({ status: 404, description: 'Coupon not found' })
+  async disable(@Param('code') code: string) {
+    try {
+      const coupon = await this.disableCoupon.execute(code);
+      return {
+        success: true,
+        message: `Coupon ${coupon.code} disabled`,
+        data: coupon,
+      };
+    } catch (error) {
+      const message = (error as Error).message;
+      this.logger.error(`❌ Failed to disable coupon: ${message}`);
+
+      if (error instanceof HttpException) {
+        throw error;
+      }
+
+      throw new HttpException(
+        {
+          success: false,
+          message: 'Failed to disable coupon',
+          error:
+            process.env.NODE_ENV === 'production'
+              ? 'Internal server error'
+              : message,
+        },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * Validate a promo code against a cart
+   *
+   * @returns Promise<{success, message, data: {code, discount, ...}}>
+   *
+   * @throws HttpException(422) - Code invalid, expired, not applicable or used up (code INVALID_COUPON)
+   */
+  @Post('validate')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Check a promo code against a cart' })
+  @ApiBody({ type: ValidateCouponDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Coupon applies; returns the discount',
+  })
+  @ApiResponse({
+    status: 422,
+    description: 'Coupon does not apply (code INVALID_COUPON)',
+  })
+  async validate(@Body() dto: ValidateCouponDto) {
+    try {
+      const result = await this.validateCoupon.execute(dto);
+      return {
+        success: true,
+        message: 'Promo code applied',
+        data: result,
+      };
+    } catch (error) {
+      const message = (error as Error).message;
+      this.logger.error(`❌ Failed to validate coupon: ${message}`);
+
+      if (error instanceof HttpException) {
+        throw error;
+      }
+
+      throw new HttpException(
+        {
+          success: false,
+          message: 'Failed to validate coupon',
+          error:
+            process.env.NODE_ENV === 'production'
+              ? 'Internal server error'
+              : message,
+        },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+}
@@ -0,0 +1,66 @@
+import {
+  Controller,
+  Get,
+  HttpException,
+  HttpStatus,
+  Logger,
+} from '@nestjs/common';
+import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+
+import { ListCurrenciesUseCase } from '../../application/use-cases/list-currencies.usecase';
+
+/**
+ * Currency Controller
+ *
+ * Exchange rates for storefronts that display and charge in a currency
+ * other than the base currency.
+ *
+ * @example
+ * GET /order/currencies - Base currency and supported currencies with rates
+ */
+@ApiTags('currencies')
+@Controller('order/currencies')
+export class CurrencyController {
+  private readonly logger = new Logger(CurrencyController.name);
+
+  constructor(private readonly listCurrencies: ListCurrenciesUseCase) {
+    this.logger.log('✅ CurrencyController initialized');
+  }
+
+  /**
+   * List supported currencies
+   *
+   * @returns {success, message, data: {baseCurrency, currencies: Array<{code, rate, minorUnitDigits}>}}
+   */
+  @Get()
+  @ApiOperation({ summary: 'List supported currencies and exchange rates' })
+  @ApiResponse({ status: 200, description: 'Currencies fetched successfully' })
+  list() {
+    try {
+      return {
+        success: true,
+        message: 'Currencies fetched successfully',
+        data: this.listCurrencies.execute(),
+      };
+    } catch (error) {
+      const message = (error as Error).message;
+      this.logger.error(`❌ Failed to list currencies: ${message}`);
+
+      if (error instanceof HttpException) {
+        throw error;
+      }
+
+      throw new HttpException(
+        {
+          success: false,
+          message: 'Failed to retrieve currencies',
+          error:
+            process.env.NODE_ENV === 'production'
+              ? 'Internal server error'
+              : message,
+        },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+}
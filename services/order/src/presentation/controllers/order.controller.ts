@@ -1,13 +1,64 @@
-import { Body, Controller, Get, Param, Post, Query, Patch, HttpStatus, HttpException, Logger } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse, ApiParam, ApiBody, ApiQuery } from '@nestjs/swagger';
+import {
+  Body,
+  Controller,
+  Get,
+  Headers,
+  Param,
+  Post,
+  Query,
+  Patch,
+  HttpStatus,
+  HttpException,
+  HttpCode,
+  Logger,
+  StreamableFile,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBody,
+  ApiCookieAuth,
+  ApiHeader,
+} from '@nestjs/swagger';
 
 import { CreateOrderUseCase } from '../../application/use-cases/create-order.usecase';
 import { GetOrderUseCase } from '../../application/use-cases/get-order.usecase';
 import { ListOrdersUseCase } from '../../application/use-cases/list-orders.usecase';
 import { UpdateOrderStatusUseCase } from '../../application/use-cases/update-order-status.usecase';
+import { CancelOrderUseCase } from '../../application/use-cases/cancel-order.usecase';
+import { GetOrderInvoiceUseCase } from '../../application/use-cases/get-order-invoice.usecase';
+import { CreateShipmentUseCase } from '../../application/use-cases/create-shipment.usecase';
+import { DeliverShipmentUseCase } from '../../application/use-cases/deliver-shipment.usecase';
+import { AmendOrderUseCase } from '../../application/use-cases/amend-order.usecase';
+import { ExportOrdersUseCase } from '../../application/use-cases/export-orders.usecase';
+import { LookupGuestOrderUseCase } from '../../application/use-cases/lookup-guest-order.usecase';
+import { ClaimGuestOrdersUseCase } from '../../application/use-cases/claim-guest-orders.usecase';
+import { GetOrderStatsUseCase } from '../../application/use-cases/get-order-stats.usecase';
 
 import { CreateOrderDto } from '../../application/dto/create-order.dto';
 import { FilterOrderDto } from '../../application/dto/filter-order.dto';
+import { CancelOrderDto } from '../../application/dto/cancel-order.dto';
+import { InvoiceQueryDto } from '../../application/dto/invoice-query.dto';
+import { CreateShipmentDto } from '../../application/dto/create-shipment.dto';
+import { AmendOrderDto } from '../../application/dto/amend-order.dto';
+import { ExportOrdersDto } from '../../application/dto/export-orders.dto';
+import {
+  ClaimGuestOrdersDto,
+  LookupOrderQueryDto,
+} from '../../application/dto/guest-order.dto';
+import {
+  SessionAuthGuard,
+  AuthenticatedUser,
+} from '../../shared/guards/session-auth.guard';
+import { AdminGuard } from '../../shared/guards/admin.guard';
+import { CurrentUser } from '../../shared/decorators/current-user.decorator';
+import {
+  OrderStatus,
+  ORDER_STATUSES,
+} from '../../domain/entities/order.entity';
 
 /**
  * Order Controller
@@ -23,10 +74,19 @@ import { FilterOrderDto } from '../../application/dto/filter-order.dto';
  * - Business logic is delegated to use cases for clean separation of concerns
  *
  * @example
- * POST /order/orders - Create a new order
+ * POST /order/orders - Create a new order (account or guest checkout)
+ * GET /order/orders/lookup?token= - View a guest order with its lookup token
+ * POST /order/orders/guest/claim - Move guest orders into the caller's account
  * GET /order/orders/:id - Get order by ID
  * GET /order/orders - List all orders with optional filters
+ * GET /order/orders/export - Stream filtered orders as CSV or NDJSON (admin)
+ * GET /order/orders/stats - Orders per status and delivered revenue (admin)
  * PATCH /order/orders/:id/status - Update order status
+ * POST /order/orders/:id/cancel - Cancel own order (customer)
+ * PATCH /order/orders/:id - Change lines or shipping address before fulfillment (buyer or admin)
+ * GET /order/orders/:id/invoice - Download the invoice (PDF or HTML)
+ * POST /order/orders/:id/shipments - Ship some or all remaining items (admin)
+ * PATCH /order/orders/:id/shipments/:shipmentId/deliver - Mark a shipment delivered (admin)
  */
 @ApiTags('orders')
 @Controller('order/orders')
@@ -38,6 +98,15 @@ export class OrderController {
     private readonly getOrder: GetOrderUseCase,
     private readonly listOrders: ListOrdersUseCase,
     private readonly updateOrderStatus: UpdateOrderStatusUseCase,
+    private readonly cancelOrder: CancelOrderUseCase,
+    private readonly getOrderInvoice: GetOrderInvoiceUseCase,
+    private readonly createShipment: CreateShipmentUseCase,
+    private readonly deliverShipment: DeliverShipmentUseCase,
+    private readonly amendOrder: AmendOrderUseCase,
+    private readonly exportOrders: ExportOrdersUseCase,
+    private readonly lookupGuestOrder: LookupGuestOrderUseCase,
+    private readonly claimGuestOrders: ClaimGuestOrdersUseCase,
+    private readonly getOrderStats: GetOrderStatsUseCase,
   ) {
     this.logger.log('✅ OrderController initialized');
   }
@@ -46,20 +115,30 @@ export class OrderController {
    * Create a new order
    *
    * Creates a new order with the provided order details including items,
-   * shipping address, and buyer information. This endpoint validates the
-   * order data, checks inventory availability, reserves stock, and emits
-   * events for order creation.
+   * shipping address, and buyer information. Each line is priced from the
+   * product catalog (client-sent names and prices are never trusted), then
+   * the order is persisted and events are emitted for order creation.
    *
    * @param dto - Order creation data transfer object containing:
-   *   - buyerId: Customer ID placing the order
-   *   - items: Array of order items with SKU, quantity, and pricing
+   *   - buyerId: Customer ID placing the order, or
+   *   - guestEmail: Email of a guest checking out without an account (the
+   *     response then includes a lookupToken for viewing the order)
+   *   - items: Array of order items with SKU, quantity, and the price the customer saw
    *   - shippingAddress: Delivery address details
    *   - currency: Order currency (default: USD)
+   *   - couponCode: Optional promo code, applied as the order discount
+   * @param idempotencyKey - Optional `Idempotency-Key` header (max 255 chars).
+   *   Retrying with the same key and body returns the original order.
    *
    * @returns Promise<{success: boolean, message: string, data: Order}>
    *
    * @throws HttpException(400) - If validation fails or data is invalid
-   * @throws HttpException(409) - If inventory is insufficient
+   * @throws HttpException(409) - If inventory is insufficient, a price changed (code PRICE_CHANGED)
+   *   or a request with the same Idempotency-Key is still running (code IDEMPOTENCY_KEY_IN_PROGRESS)
+   * @throws HttpException(422) - If a SKU is unknown or no longer active, or the
+   *   Idempotency-Key was used with a different body (code IDEMPOTENCY_KEY_REUSED),
+   *   or the promo code cannot be applied (code INVALID_COUPON)
+   * @throws HttpException(503) - If the product catalog cannot be reached
    * @throws HttpException(500) - If order creation fails due to system error
    *
    * @example
@@ -73,18 +152,54 @@ export class OrderController {
   @Post()
   @ApiOperation({ summary: 'Create a new order' })
   @ApiBody({ type: CreateOrderDto })
+  @ApiHeader({
+    name: 'Idempotency-Key',
+    required: false,
+    description:
+      'Unique key per checkout attempt; retries with the same key return the original order',
+  })
   @ApiResponse({
     status: 201,
-    description: 'Order created successfully',
+    description:
+      'Order created successfully (or replayed for a repeated Idempotency-Key)',
   })
   @ApiResponse({ status: 400, description: 'Validation failed or invalid data' })
-  @ApiResponse({ status: 409, description: 'Insufficient inventory for order items' })
+  @ApiResponse({
+    status: 409,
+    description:
+      'Insufficient inventory, catalog price changed or Idempotency-Key in progress',
+  })
+  @ApiResponse({
+    status: 422,
+    description:
+      'Unknown or inactive product SKU, Idempotency-Key reused with a different body, or invalid promo code',
+  })
+  @ApiResponse({ status: 503, description: 'Product catalog unavailable' })
   @ApiResponse({ status: 500, description: 'Internal server error during order creation' })
-  async create(@Body() dto: CreateOrderDto) {
+  async create(
+    @Body() dto: CreateOrderDto,
+    @Headers('idempotency-key') idempotencyKey?: string,
+  ) {
+    if (
+      idempotencyKey !== undefined &&
+      (!idempotencyKey.trim() || idempotencyKey.length > 255)
+    ) {
+      throw new HttpException(
+        {
+          success: false,
+          message: 'Idempotency-Key must be between 1 and 255 characters',
+          error: 'Invalid Idempotency-Key header',
+        },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
     try {
-      this.logger.log(`📝 Creating new order for buyer: ${dto.buyerId}`);
+      this.logger.log(
+        `📝 Creating new order for ${dto.guestEmail ? 'guest' : `buyer: ${dto.buyerId}`}`,
+      );
 
-      const result = await this.createOrder.execute(dto);
+      const result = await this.createOrder.execute(dto, idempotencyKey);
 
       this.logger.log(`✅ Order created successfully: ${result._id || result.id}`);
       return result;
@@ -131,11 +246,236 @@ export class OrderController {
     }
   }
 
+  /**
+   * Export orders (Admin only)
+   *
+   * Streams every order matching the list filters, oldest first, as CSV
+   * (with a header row) or NDJSON. Declared before `:id` so "export" is not
+   * taken for an order ID.
+   *
+   * @param q - The list filters (buyerId, status, sku, createdFrom/createdTo,
+   *   minTotal/maxTotal) plus format (csv | ndjson) and rows (order | item)
+   *
+   * @returns StreamableFile - The export, as an attachment
+   *
+   * @throws HttpException(400) - If a filter value is invalid
+   * @throws HttpException(401) - If not logged in
+   * @throws HttpException(403) - If the user is not an admin
+   *
+   * @example
+   * GET /order/orders/export?status=delivered&createdFrom=2025-01-01&createdTo=2025-01-31&format=csv&rows=item
+   */
+  @Get('export')
+  @UseGuards(SessionAuthGuard, AdminGuard)
+  @ApiCookieAuth('session_id')
+  @ApiOperation({ summary: 'Export filtered orders as CSV or NDJSON (Admin)' })
+  @ApiResponse({
+    status: 200,
+    description: 'Export file (text/csv or application/x-ndjson)',
+  })
+  @ApiResponse({ status: 401, description: 'Not authenticated' })
+  @ApiResponse({ status: 403, description: 'Admin access required' })
+  exportList(@Query() q: ExportOrdersDto) {
+    try {
+      this.logger.log(`📤 Exporting orders with filters: ${JSON.stringify(q)}`);
+
+      const file = this.exportOrders.execute(q);
+
+      return new StreamableFile(file.body, {
+        type: file.contentType,
+        disposition: `attachment; filename="${file.filename}"`,
+      });
+    } catch (error) {
+      const message = (error as Error).message;
+      this.logger.error(
+        `❌ Failed to export orders: ${message}`,
+        (error as Error).stack,
+      );
+
+      throw new HttpException(
+        {
+          success: false,
+          message: 'Failed to export orders',
+          error:
+            process.env.NODE_ENV === 'production'
+              ? 'Internal server error'
+              : message,
+        },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * Look up a guest order
+   *
+   * Lets a guest see their order (status, shipments, totals) without an
+   * account, using the signed token returned when the order was placed.
+   * Declared before `:id` so "lookup" is not taken for an order ID.
+   *
+   * @param q - token: the order's lookupToken
+   *
+   * @returns Promise<Order> - The order
+   *
+   * @throws HttpException(401) - If the token is invalid or expired
+   * @throws HttpException(404) - If the order no longer exists
+   *
+   * @example
+   * GET /order/orders/lookup?token=eyJvcmRlcklkIjoi...
+   */
+  @Get('lookup')
+  @ApiOperation({ summary: 'View a guest order with its lookup token' })
+  @ApiResponse({ status: 200, description: 'Order fetched successfully' })
+  @ApiResponse({ status: 401, description: 'Invalid or expired token' })
+  @ApiResponse({ status: 404, description: 'Order not found' })
+  async lookup(@Query() q: LookupOrderQueryDto) {
+    try {
+      return await this.lookupGuestOrder.execute(q.token);
+    } catch (error) {
+      const message = (error as Error).message;
+      this.logger.error(`❌ Failed to look up guest order: ${message}`);
+
+      if (error instanceof HttpException) {
+        throw error;
+      }
+
+      throw new HttpException(
+        {
+          success: false,
+          message: 'Failed to fetch order',
+          error:
+            process.env.NODE_ENV === 'production'
+              ? 'Internal server error'
+              : message,
+        },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * Claim guest orders
+   *
+   * Moves every order placed as a guest with the caller's email into their
+   * account. The caller proves the email is theirs with a lookup token of
+   * one of those orders, as accounts do not verify their email.
+   *
+   * @param dto - tokens: lookup tokens saved from guest checkouts
+   * @param user - Caller resolved from the session cookie
+   *
+   * @returns Promise<{success: boolean, message: string, data: Order[]}> - The claimed orders
+   *
+   * @throws HttpException(401) - If not logged in or no token is valid
+   * @throws HttpException(403) - If a token belongs to another email
+   *
+   * @example
+   * POST /order/orders/guest/claim
+   * Body: { "tokens": ["eyJvcmRlcklkIjoi..."] }
+   */
+  @Post('guest/claim')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(SessionAuthGuard)
+  @ApiCookieAuth('session_id')
+  @ApiOperation({ summary: 'Move guest orders into your account' })
+  @ApiBody({ type: ClaimGuestOrdersDto })
+  @ApiResponse({ status: 200, description: 'Guest orders claimed' })
+  @ApiResponse({
+    status: 401,
+    description: 'Not authenticated, or invalid or expired tokens',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Orders were placed with another email',
+  })
+  async claimGuest(
+    @Body() dto: ClaimGuestOrdersDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    try {
+      const orders = await this.claimGuestOrders.execute(dto.tokens, user);
+
+      return {
+        success: true,
+        message: `${orders.length} order(s) added to your account`,
+        data: orders,
+      };
+    } catch (error) {
+      const message = (error as Error).message;
+      this.logger.error(
+        `❌ Failed to claim guest orders for ${user.userId}: ${message}`,
+      );
+
+      if (error instanceof HttpException) {
+        throw error;
+      }
+
+      throw new HttpException(
+        {
+          success: false,
+          message: 'Failed to claim orders',
+          error:
+            process.env.NODE_ENV === 'production'
+              ? 'Internal server error'
+              : message,
+        },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * Order statistics (Admin only)
+   *
+   * Counts every order and the orders in each status, and sums the totals
+   * of delivered orders (in the base currency), in the database. Declared
+   * before `:id` so "stats" is not taken for an order ID.
+   *
+   * @returns Promise<{success, message, data: {total, <status>: count, totalRevenue}}>
+   *
+   * @throws HttpException(401) - If not logged in
+   * @throws HttpException(403) - If the user is not an admin
+   *
+   * @example
+   * GET /order/orders/stats
+   */
+  @Get('stats')
+  @UseGuards(SessionAuthGuard, AdminGuard)
+  @ApiCookieAuth('session_id')
+  @ApiOperation({ summary: 'Order counts per status and revenue (Admin)' })
+  @ApiResponse({ status: 200, description: 'Order statistics' })
+  @ApiResponse({ status: 401, description: 'Not authenticated' })
+  @ApiResponse({ status: 403, description: 'Admin access required' })
+  async stats() {
+    try {
+      return {
+        success: true,
+        message: 'Order statistics fetched successfully',
+        data: await this.getOrderStats.execute(),
+      };
+    } catch (error) {
+      const message = (error as Error).message;
+      this.logger.error(`❌ Failed to compute order statistics: ${message}`);
+
+      throw new HttpException(
+        {
+          success: false,
+          message: 'Failed to fetch order statistics',
+          error:
+            process.env.NODE_ENV === 'production'
+              ? 'Internal server error'
+              : message,
+        },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
   /**
    * Get order by ID
    *
    * Retrieves a specific order by its unique identifier.
-   * Returns complete order details including items, status, and shipping information.
+   * Returns complete order details including items, status, status history,
+   * and shipping information.
    *
    * @param id - Unique order identifier (orderId or _id)
    *
@@ -206,24 +546,26 @@ export class OrderController {
   /**
    * List orders with optional filters
    *
-   * Retrieves a list of orders with optional filtering by buyer ID and status.
-   * Results are sorted by creation date (newest first).
+   * Retrieves a page of orders with optional filtering and sorting.
+   * Defaults to newest first, 20 per page.
    *
    * @param q - Filter criteria object containing:
-   *   - buyerId (optional): Filter orders by specific buyer
-   *   - status (optional): Filter orders by status (pending, paid, cancelled, shipped, delivered)
+   *   - buyerId, status, sku (optional): Exact-match filters
+   *   - createdFrom / createdTo (optional): Creation date range (ISO dates, inclusive)
+   *   - minTotal / maxTotal (optional): Order total range
+   *   - sortBy (createdAt | updatedAt | total | status), sortOrder (asc | desc)
+   *   - page, limit (max 100)
    *
-   * @returns Promise<Order[]> - Array of orders matching the filter criteria
+   * @returns Promise<{success, message, data: Order[], pagination}> - Same envelope as the product list
    *
+   * @throws HttpException(400) - If a filter value is invalid
    * @throws HttpException(500) - If listing fails due to system error
    *
    * @example
-   * GET /order/orders?buyerId=user-123&status=pending
+   * GET /order/orders?buyerId=user-123&status=pending&sortBy=total&sortOrder=asc&page=2&limit=20
    */
   @Get()
-  @ApiOperation({ summary: 'List orders with optional filters' })
-  @ApiQuery({ name: 'buyerId', required: false, description: 'Filter by buyer ID' })
-  @ApiQuery({ name: 'status', required: false, description: 'Filter by order status' })
+  @ApiOperation({ summary: 'List orders with filters, sorting and pagination' })
   @ApiResponse({
     status: 200,
     description: 'List of orders returned successfully',
@@ -233,10 +575,17 @@ export class OrderController {
     try {
       this.logger.log(`📋 Listing orders with filters: ${JSON.stringify(q)}`);
 
-      const orders = await this.listOrders.execute(q);
+      const result = await this.listOrders.execute(q);
 
-      this.logger.log(`✅ Retrieved ${Array.isArray(orders) ? orders.length : 0} orders`);
-      return orders;
+      this.logger.log(
+        `✅ Retrieved ${result.orders.length} of ${result.pagination.total} orders`,
+      );
+      return {
+        success: true,
+        message: 'Orders fetched successfully',
+        data: result.orders,
+        pagination: result.pagination,
+      };
     } catch (error: any) {
       this.logger.error(`❌ Failed to list orders: ${error.message}`, error.stack);
 
@@ -258,26 +607,36 @@ export class OrderController {
    * business logic including inventory updates, notifications, and event emissions.
    *
    * Status transitions:
-   * - pending → paid/cancelled
+   * - pending → processing/paid/cancelled
+   * - processing → paid/shipped/cancelled
    * - paid → shipped/cancelled
-   * - shipped → delivered/cancelled
+   * - shipped → delivered
    * - delivered → final state
    * - cancelled → final state
    *
+   * Every accepted change is recorded in the order's statusHistory.
+   *
    * @param id - Unique order identifier
    * @param status - New order status (pending, paid, cancelled, shipped, delivered)
+   * @param reason - Optional reason recorded in the status history
+   * @param user - Admin making the change, recorded in the status history
    *
    * @returns Promise<Order> - Updated order object
    *
+   * @throws HttpException(401) - If not logged in
+   * @throws HttpException(403) - If the user is not an admin
    * @throws HttpException(404) - If order is not found
-   * @throws HttpException(400) - If status transition is invalid
+   * @throws HttpException(400) - If status value is invalid
+   * @throws HttpException(409) - If status transition is not allowed
    * @throws HttpException(500) - If update fails due to system error
    *
    * @example
    * PATCH /order/orders/order-123/status
-   * Body: { "status": "shipped" }
+   * Body: { "status": "shipped", "reason": "Handed to carrier" }
    */
   @Patch(':id/status')
+  @UseGuards(SessionAuthGuard, AdminGuard)
+  @ApiCookieAuth('session_id')
   @ApiOperation({ summary: 'Update order status (Admin)' })
   @ApiParam({ name: 'id', example: 'order-123', description: 'Unique order identifier' })
   @ApiBody({
@@ -288,7 +647,13 @@ export class OrderController {
           type: 'string',
           enum: ['pending', 'paid', 'processing', 'cancelled', 'shipped', 'delivered'],
           example: 'shipped',
-          description: 'New order status',
+          description:
+            'New order status (fulfillment statuses follow shipments once there are any)',
+        },
+        reason: {
+          type: 'string',
+          example: 'Handed to carrier',
+          description: 'Reason recorded in the status history',
         },
       },
       required: ['status'],
@@ -298,28 +663,36 @@ export class OrderController {
     status: 200,
     description: 'Order status updated successfully',
   })
+  @ApiResponse({ status: 403, description: 'Admin access required' })
   @ApiResponse({ status: 404, description: 'Order not found' })
-  @ApiResponse({ status: 400, description: 'Invalid status or status transition' })
+  @ApiResponse({ status: 400, description: 'Invalid status value' })
+  @ApiResponse({ status: 409, description: 'Status transition not allowed' })
   async updateStatus(
     @Param('id') id: string,
-    @Body('status') status: string,
+    @Body('status') status: OrderStatus,
+    @CurrentUser() user: AuthenticatedUser,
+    @Body('reason') reason?: string,
   ) {
     try {
       this.logger.log(`🔄 Updating order ${id} status to: ${status}`);
 
       // Validate status value
-      const validStatuses = ['pending', 'paid', 'processing', 'cancelled', 'shipped', 'delivered'];
-      if (!validStatuses.includes(status)) {
+      if (!ORDER_STATUSES.includes(status)) {
         throw new HttpException(
           {
             success: false,
-            message: `Invalid status '${status}'. Valid statuses are: ${validStatuses.join(', ')}`,
+            message: `Invalid status '${status}'. Valid statuses are: ${ORDER_STATUSES.join(', ')}`,
           },
           HttpStatus.BAD_REQUEST,
         );
       }
 
-      const updatedOrder = await this.updateOrderStatus.execute(id, status);
+      const updatedOrder = await this.updateOrderStatus.execute(
+        id,
+        status,
+        user.userId,
+        reason,
+      );
 
       if (!updatedOrder) {
         throw new HttpException(
@@ -350,4 +723,407 @@ export class OrderController {
       );
     }
   }
+
+  /**
+   * Cancel an order (Customer)
+   *
+   * Lets the authenticated buyer cancel their own order while it is still
+   * pending, processing or paid. The reason is recorded in the status history
+   * and order.cancelled is emitted so reserved stock is released.
+   *
+   * @param id - Unique order identifier
+   * @param dto - Cancellation reason
+   * @param user - Caller resolved from the session cookie
+   *
+   * @returns Promise<Order> - Cancelled order object
+   *
+   * @throws HttpException(401) - If the caller is not logged in
+   * @throws HttpException(403) - If the order belongs to someone else
+   * @throws HttpException(404) - If order is not found
+   * @throws HttpException(409) - If the order has already shipped or was cancelled
+   *
+   * @example
+   * POST /order/orders/order-123/cancel
+   * Body: { "reason": "Ordered the wrong size" }
+   */
+  @Post(':id/cancel')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(SessionAuthGuard)
+  @ApiCookieAuth('session_id')
+  @ApiOperation({ summary: 'Cancel own order (Customer)' })
+  @ApiParam({
+    name: 'id',
+    example: 'order-123',
+    description: 'Unique order identifier',
+  })
+  @ApiBody({ type: CancelOrderDto })
+  @ApiResponse({ status: 200, description: 'Order cancelled successfully' })
+  @ApiResponse({ status: 401, description: 'Not authenticated' })
+  @ApiResponse({
+    status: 403,
+    description: 'Order belongs to another customer',
+  })
+  @ApiResponse({ status: 404, description: 'Order not found' })
+  @ApiResponse({ status: 409, description: 'Order can no longer be cancelled' })
+  async cancel(
+    @Param('id') id: string,
+    @Body() dto: CancelOrderDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    try {
+      this.logger.log(`🛑 Customer ${user.userId} cancelling order ${id}`);
+
+      const cancelled = await this.cancelOrder.execute(
+        id,
+        user.userId,
+        dto.reason,
+      );
+
+      this.logger.log(`✅ Order ${id} cancelled by customer`);
+      return cancelled;
+    } catch (error) {
+      const message = (error as Error).message;
+      this.logger.error(`❌ Failed to cancel order ${id}: ${message}`);
+
+      if (error instanceof HttpException) {
+        throw error;
+      }
+
+      throw new HttpException(
+        {
+          success: false,
+          message: 'Failed to cancel order',
+          error:
+            process.env.NODE_ENV === 'production'
+              ? 'Internal server error'
+              : message,
+        },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * Amend an order
+   *
+   * Changes item quantities, adds or removes lines and/or changes the
+   * shipping address of a pending or processing order. The order is
+   * re-priced and re-taxed, the change is kept in its amendment history and
+   * order.amended lets inventory reserve or release the difference.
+   *
+   * @param id - Unique order identifier
+   * @param dto - Lines to change (quantity 0 removes a line) and/or the new address
+   * @param user - The buyer or an admin
+   *
+   * @returns Promise<{success: boolean, message: string, data: Order}>
+   *
+   * @throws HttpException(400) - If nothing to change is given
+   * @throws HttpException(403) - If the order belongs to someone else
+   * @throws HttpException(404) - If order is not found
+   * @throws HttpException(409) - If the order changed meanwhile
+   * @throws HttpException(422) - If the order can no longer be changed (code AMENDMENT_NOT_ALLOWED),
+   *   a product is unknown or unavailable, or the promo code no longer applies (code INVALID_COUPON)
+   *
+   * @example
+   * PATCH /order/orders/order-123
+   * Body: { "items": [{ "sku": "SKU-001", "quantity": 3 }, { "sku": "SKU-002", "quantity": 0 }] }
+   */
+  @Patch(':id')
+  @UseGuards(SessionAuthGuard)
+  @ApiCookieAuth('session_id')
+  @ApiOperation({
+    summary: 'Change lines or shipping address before fulfillment',
+  })
+  @ApiParam({
+    name: 'id',
+    example: 'order-123',
+    description: 'Unique order identifier',
+  })
+  @ApiBody({ type: AmendOrderDto })
+  @ApiResponse({ status: 200, description: 'Order amended and re-priced' })
+  @ApiResponse({ status: 400, description: 'Nothing to change' })
+  @ApiResponse({ status: 401, description: 'Not authenticated' })
+  @ApiResponse({
+    status: 403,
+    description: 'Order belongs to another customer',
+  })
+  @ApiResponse({ status: 404, description: 'Order not found' })
+  @ApiResponse({ status: 409, description: 'Order modified concurrently' })
+  @ApiResponse({
+    status: 422,
+    description: 'Order cannot be changed (AMENDMENT_NOT_ALLOWED)',
+  })
+  async amend(
+    @Param('id') id: string,
+    @Body() dto: AmendOrderDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    try {
+      this.logger.log(`✏️ User ${user.userId} amending order ${id}`);
+
+      const order = await this.amendOrder.execute(id, dto, user);
+
+      return {
+        success: true,
+        message: 'Order updated successfully',
+        data: order,
+      };
+    } catch (error) {
+      const message = (error as Error).message;
+      this.logger.error(`❌ Failed to amend order ${id}: ${message}`);
+
+      if (error instanceof HttpException) {
+        throw error;
+      }
+
+      throw new HttpException(
+        {
+          success: false,
+          message: 'Failed to update order',
+          error:
+            process.env.NODE_ENV === 'production'
+              ? 'Internal server error'
+              : message,
+        },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * Download an order invoice
+   *
+   * Renders the invoice of a paid order for its buyer or an admin. The
+   * invoice number is allocated when the order is paid and never changes.
+   *
+   * @param id - Unique order identifier
+   * @param q - format: pdf (default) or html
+   * @param user - Authenticated caller (buyer or admin)
+   *
+   * @returns StreamableFile - The document, as an attachment for PDF or inline for HTML
+   *
+   * @throws HttpException(403) - If the order belongs to another customer
+   * @throws HttpException(404) - If order with given ID is not found
+   * @throws HttpException(409) - If the order has not been paid yet (code INVOICE_NOT_AVAILABLE)
+   * @throws HttpException(500) - If rendering fails due to system error
+   *
+   * @example
+   * GET /order/orders/order-123/invoice?format=html
+   */
+  @Get(':id/invoice')
+  @UseGuards(SessionAuthGuard)
+  @ApiCookieAuth('session_id')
+  @ApiOperation({ summary: 'Download the invoice of a paid order' })
+  @ApiParam({
+    name: 'id',
+    example: 'order-123',
+    description: 'Unique order identifier',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Invoice document (application/pdf or text/html)',
+  })
+  @ApiResponse({ status: 401, description: 'Not authenticated' })
+  @ApiResponse({
+    status: 403,
+    description: 'Order belongs to another customer',
+  })
+  @ApiResponse({ status: 404, description: 'Order not found' })
+  @ApiResponse({
+    status: 409,
+    description: 'Order not paid yet (INVOICE_NOT_AVAILABLE)',
+  })
+  async invoice(
+    @Param('id') id: string,
+    @Query() q: InvoiceQueryDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    try {
+      const format = q.format ?? 'pdf';
+      this.logger.log(`🧾 Rendering ${format} invoice for order ${id}`);
+
+      const document = await this.getOrderInvoice.execute(id, user, format);
+
+      return new StreamableFile(
+        typeof document.body === 'string'
+          ? Buffer.from(document.body, 'utf8')
+          : document.body,
+        {
+          type: document.contentType,
+          disposition: `${format === 'pdf' ? 'attachment' : 'inline'}; filename="${document.filename}"`,
+        },
+      );
+    } catch (error) {
+      const message = (error as Error).message;
+      this.logger.error(
+        `❌ Failed to render invoice for order ${id}: ${message}`,
+      );
+
+      if (error instanceof HttpException) {
+        throw error;
+      }
+
+      throw new HttpException(
+        {
+          success: false,
+          message: 'Failed to render invoice',
+          error:
+            process.env.NODE_ENV === 'production'
+              ? 'Internal server error'
+              : message,
+        },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * Ship items of an order
+   *
+   * Creates a shipment with a carrier and tracking number for the given
+   * lines (or everything not shipped yet). The order becomes
+   * partially_shipped or shipped, and order.shipped carries the tracking
+   * details to the buyer.
+   *
+   * @param id - Order ID
+   * @param dto - Carrier, tracking number and optional lines
+   * @param user - Admin creating the shipment
+   *
+   * @returns Promise<{success: boolean, message: string, data: Order}>
+   *
+   * @throws HttpException(404) - If order is not found
+   * @throws HttpException(409) - If the order changed meanwhile
+   * @throws HttpException(422) - If the order or items cannot be shipped (code SHIPMENT_NOT_ALLOWED)
+   *
+   * @example
+   * POST /order/orders/order-123/shipments
+   * Body: { "carrier": "UPS", "trackingNumber": "1Z999", "items": [{ "sku": "SKU1", "quantity": 1 }] }
+   */
+  @Post(':id/shipments')
+  @UseGuards(SessionAuthGuard, AdminGuard)
+  @ApiCookieAuth('session_id')
+  @ApiOperation({ summary: 'Ship items of an order (Admin)' })
+  @ApiParam({
+    name: 'id',
+    example: 'order-123',
+    description: 'Unique order identifier',
+  })
+  @ApiBody({ type: CreateShipmentDto })
+  @ApiResponse({ status: 201, description: 'Shipment created' })
+  @ApiResponse({ status: 403, description: 'Admin access required' })
+  @ApiResponse({ status: 404, description: 'Order not found' })
+  @ApiResponse({ status: 409, description: 'Order modified concurrently' })
+  @ApiResponse({
+    status: 422,
+    description: 'Items cannot be shipped (SHIPMENT_NOT_ALLOWED)',
+  })
+  async ship(
+    @Param('id') id: string,
+    @Body() dto: CreateShipmentDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    try {
+      this.logger.log(`🚚 Shipping items of order ${id} via ${dto.carrier}`);
+
+      const order = await this.createShipment.execute(id, dto, user.userId);
+
+      return {
+        success: true,
+        message: 'Shipment created successfully',
+        data: order,
+      };
+    } catch (error) {
+      const message = (error as Error).message;
+      this.logger.error(`❌ Failed to ship order ${id}: ${message}`);
+
+      if (error instanceof HttpException) {
+        throw error;
+      }
+
+      throw new HttpException(
+        {
+          success: false,
+          message: 'Failed to create shipment',
+          error:
+            process.env.NODE_ENV === 'production'
+              ? 'Internal server error'
+              : message,
+        },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * Mark a shipment as delivered
+   *
+   * The order becomes delivered (and stock is deducted) once all of its
+   * items have shipped and every shipment is delivered.
+   *
+   * @param id - Order ID
+   * @param shipmentId - Shipment ID
+   * @param user - Admin recording the delivery
+   *
+   * @returns Promise<{success: boolean, message: string, data: Order}>
+   *
+   * @throws HttpException(404) - If order or shipment is not found
+   * @throws HttpException(409) - If already delivered or the order changed meanwhile
+   */
+  @Patch(':id/shipments/:shipmentId/deliver')
+  @UseGuards(SessionAuthGuard, AdminGuard)
+  @ApiCookieAuth('session_id')
+  @ApiOperation({ summary: 'Mark a shipment delivered (Admin)' })
+  @ApiParam({
+    name: 'id',
+    example: 'order-123',
+    description: 'Unique order identifier',
+  })
+  @ApiParam({ name: 'shipmentId', description: 'Shipment identifier' })
+  @ApiResponse({ status: 200, description: 'Shipment delivered' })
+  @ApiResponse({ status: 403, description: 'Admin access required' })
+  @ApiResponse({ status: 404, description: 'Order or shipment not found' })
+  @ApiResponse({
+    status: 409,
+    description: 'Already delivered or modified concurrently',
+  })
+  async deliver(
+    @Param('id') id: string,
+    @Param('shipmentId') shipmentId: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    try {
+      const order = await this.deliverShipment.execute(
+        id,
+        shipmentId,
+        user.userId,
+      );
+
+      return {
+        success: true,
+        message: 'Shipment marked as delivered',
+        data: order,
+      };
+    } catch (error) {
+      const message = (error as Error).message;
+      this.logger.error(
+        `❌ Failed to deliver shipment ${shipmentId} of order ${id}: ${message}`,
+      );
+
+      if (error instanceof HttpException) {
+        throw error;
+      }
+
+      throw new HttpException(
+        {
+          success: false,
+          message: 'Failed to update shipment',
+          error:
+            process.env.NODE_ENV === 'production'
+              ? 'Internal server error'
+              : message,
+        },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
 }
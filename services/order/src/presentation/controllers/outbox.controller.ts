@@ -0,0 +1,160 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpException,
+  HttpStatus,
+  Logger,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBody,
+  ApiCookieAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+
+import { ListStuckOutboxEventsUseCase } from '../../application/use-cases/list-stuck-outbox-events.usecase';
+import { RedriveOutboxEventsUseCase } from '../../application/use-cases/redrive-outbox-events.usecase';
+import { FilterOutboxDto } from '../../application/dto/filter-outbox.dto';
+import { RedriveOutboxDto } from '../../application/dto/redrive-outbox.dto';
+import { SessionAuthGuard } from '../../shared/guards/session-auth.guard';
+import { AdminGuard } from '../../shared/guards/admin.guard';
+
+/**
+ * Outbox Controller (Admin)
+ *
+ * Operational endpoints for order events that have not reached Kafka.
+ *
+ * @example
+ * GET /order/outbox - List stuck events
+ * POST /order/outbox/redrive - Re-queue stuck events
+ */
+@ApiTags('outbox')
+@ApiCookieAuth()
+@UseGuards(SessionAuthGuard, AdminGuard)
+@Controller('order/outbox')
+export class OutboxController {
+  private readonly logger = new Logger(OutboxController.name);
+
+  constructor(
+    private readonly listStuck: ListStuckOutboxEventsUseCase,
+    private readonly redrive: RedriveOutboxEventsUseCase,
+  ) {
+    this.logger.log('✅ OutboxController initialized');
+  }
+
+  /**
+   * List stuck outbox events
+   *
+   * Returns failed events and pending events older than the stuck threshold,
+   * oldest first.
+   *
+   * @returns Promise<{success, message, data: OutboxEvent[], pagination}>
+   *
+   * @throws HttpException(401) - If not logged in
+   * @throws HttpException(403) - If the user is not an admin
+   *
+   * @example
+   * GET /order/outbox?status=failed&page=1&limit=20
+   */
+  @Get()
+  @ApiOperation({ summary: 'List order events stuck in the outbox' })
+  @ApiResponse({
+    status: 200,
+    description: 'Stuck events fetched successfully',
+  })
+  @ApiResponse({ status: 401, description: 'Not authenticated' })
+  @ApiResponse({ status: 403, description: 'Admin access required' })
+  async list(@Query() q: FilterOutboxDto) {
+    try {
+      const { events, pagination } = await this.listStuck.execute(q);
+
+      this.logger.log(`📋 Found ${pagination.total} stuck outbox event(s)`);
+      return {
+        success: true,
+        message: 'Stuck events fetched successfully',
+        data: events,
+        pagination,
+      };
+    } catch (error) {
+      const message = (error as Error).message;
+      this.logger.error(`❌ Failed to list outbox events: ${message}`);
+
+      if (error instanceof HttpException) {
+        throw error;
+      }
+
+      throw new HttpException(
+        {
+          success: false,
+          message: 'Failed to retrieve outbox events',
+          error:
+            process.env.NODE_ENV === 'production'
+              ? 'Internal server error'
+              : message,
+        },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * Re-drive stuck outbox events
+   *
+   * Resets the given events (or every failed event) to pending with a fresh
+   * retry budget; the relay publishes them on its next poll.
+   *
+   * @param dto - Optional list of event IDs
+   *
+   * @returns Promise<{success, message, data: {requeued: number}}>
+   *
+   * @throws HttpException(401) - If not logged in
+   * @throws HttpException(403) - If the user is not an admin
+   *
+   * @example
+   * POST /order/outbox/redrive
+   * Body: { "ids": ["6b1f..."] }
+   */
+  @Post('redrive')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Re-queue stuck outbox events for publishing' })
+  @ApiBody({ type: RedriveOutboxDto })
+  @ApiResponse({ status: 200, description: 'Events re-queued' })
+  @ApiResponse({ status: 401, description: 'Not authenticated' })
+  @ApiResponse({ status: 403, description: 'Admin access required' })
+  async redriveEvents(@Body() dto: RedriveOutboxDto) {
+    try {
+      const result = await this.redrive.execute(dto.ids);
+
+      return {
+        success: true,
+        message: `${result.requeued} event(s) re-queued`,
+        data: result,
+      };
+    } catch (error) {
+      const message = (error as Error).message;
+      this.logger.error(`❌ Failed to re-drive outbox events: ${message}`);
+
+      if (error instanceof HttpException) {
+        throw error;
+      }
+
+      throw new HttpException(
+        {
+          success: false,
+          message: 'Failed to re-drive outbox events',
+          error:
+            process.env.NODE_ENV === 'production'
+              ? 'Internal server error'
+              : message,
+        },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+}
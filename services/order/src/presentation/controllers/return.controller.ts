@@ -0,0 +1,304 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpException,
+  HttpStatus,
+  Logger,
+  Param,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBody,
+  ApiCookieAuth,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+
+import { RequestReturnUseCase } from '../../application/use-cases/request-return.usecase';
+import { ListReturnsUseCase } from '../../application/use-cases/list-returns.usecase';
+import { UpdateReturnStatusUseCase } from '../../application/use-cases/update-return-status.usecase';
+import { ReceiveReturnUseCase } from '../../application/use-cases/receive-return.usecase';
+import { CreateReturnDto } from '../../application/dto/create-return.dto';
+import { FilterReturnDto } from '../../application/dto/filter-return.dto';
+import { ReviewReturnDto } from '../../application/dto/review-return.dto';
+import { ReceiveReturnDto } from '../../application/dto/receive-return.dto';
+import {
+  AuthenticatedUser,
+  SessionAuthGuard,
+} from '../../shared/guards/session-auth.guard';
+import { AdminGuard } from '../../shared/guards/admin.guard';
+import { CurrentUser } from '../../shared/decorators/current-user.decorator';
+
+/**
+ * Return Controller
+ *
+ * Return (RMA) requests from customers and their handling by admins.
+ *
+ * @example
+ * POST /order/returns - Request a return (customer)
+ * GET /order/returns/mine - List own returns (customer)
+ * GET /order/returns - List returns (admin)
+ * PATCH /order/returns/:id/review - Approve or reject (admin)
+ * PATCH /order/returns/:id/receive - Check in the goods (admin)
+ */
+@ApiTags('returns')
+@Controller('order/returns')
+export class ReturnController {
+  private readonly logger = new Logger(ReturnController.name);
+
+  constructor(
+    private readonly requestReturn: RequestReturnUseCase,
+    private readonly listReturns: ListReturnsUseCase,
+    private readonly updateReturnStatus: UpdateReturnStatusUseCase,
+    private readonly receiveReturn: ReceiveReturnUseCase,
+  ) {
+    this.logger.log('✅ ReturnController initialized');
+  }
+
+  /**
+   * Request a return for items of a delivered order
+   *
+   * @throws HttpException(403) - Not the buyer
+   * @throws HttpException(404) - Order not found
+   * @throws HttpException(422) - Not delivered, window closed or too many units (code RETURN_NOT_ALLOWED)
+   */
+  @Post()
+  @UseGuards(SessionAuthGuard)
+  @ApiCookieAuth()
+  @ApiOperation({ summary: 'Request a return' })
+  @ApiBody({ type: CreateReturnDto })
+  @ApiResponse({ status: 201, description: 'Return requested' })
+  @ApiResponse({ status: 403, description: 'Not your order' })
+  @ApiResponse({ status: 404, description: 'Order not found' })
+  @ApiResponse({ status: 422, description: 'Items cannot be returned' })
+  async create(
+    @Body() dto: CreateReturnDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    try {
+      const ret = await this.requestReturn.execute(dto, user.userId);
+      return {
+        success: true,
+        message: 'Return requested successfully',
+        data: ret,
+      };
+    } catch (error) {
+      const message = (error as Error).message;
+      this.logger.error(`❌ Failed to request return: ${message}`);
+
+      if (error instanceof HttpException) {
+        throw error;
+      }
+
+      throw new HttpException(
+        {
+          success: false,
+          message: 'Failed to request return',
+          error:
+            process.env.NODE_ENV === 'production'
+              ? 'Internal server error'
+              : message,
+        },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * List the caller's returns, newest first
+   */
+  @Get('mine')
+  @UseGuards(SessionAuthGuard)
+  @ApiCookieAuth()
+  @ApiOperation({ summary: 'List my returns' })
+  @ApiResponse({ status: 200, description: 'Returns fetched successfully' })
+  async listMine(
+    @Query() q: FilterReturnDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    try {
+      const { returns, pagination } = await this.listReturns.execute(
+        q,
+        user.userId,
+      );
+      return {
+        success: true,
+        message: 'Returns fetched successfully',
+        data: returns,
+        pagination,
+      };
+    } catch (error) {
+      const message = (error as Error).message;
+      this.logger.error(`❌ Failed to list returns: ${message}`);
+
+      if (error instanceof HttpException) {
+        throw error;
+      }
+
+      throw new HttpException(
+        {
+          success: false,
+          message: 'Failed to retrieve returns',
+          error:
+            process.env.NODE_ENV === 'production'
+              ? 'Internal server error'
+              : message,
+        },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * List all returns, newest first
+   */
+  @Get()
+  @UseGuards(SessionAuthGuard, AdminGuard)
+  @ApiCookieAuth()
+  @ApiOperation({ summary: 'List returns (admin)' })
+  @ApiResponse({ status: 200, description: 'Returns fetched successfully' })
+  @ApiResponse({ status: 403, description: 'Admin access required' })
+  async list(@Query() q: FilterReturnDto) {
+    try {
+      const { returns, pagination } = await this.listReturns.execute(q);
+      return {
+        success: true,
+        message: 'Returns fetched successfully',
+        data: returns,
+        pagination,
+      };
+    } catch (error) {
+      const message = (error as Error).message;
+      this.logger.error(`❌ Failed to list returns: ${message}`);
+
+      if (error instanceof HttpException) {
+        throw error;
+      }
+
+      throw new HttpException(
+        {
+          success: false,
+          message: 'Failed to retrieve returns',
+          error:
+            process.env.NODE_ENV === 'production'
+              ? 'Internal server error'
+              : message,
+        },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * Approve (and request the refund) or reject a return
+   *
+   * @throws HttpException(404) - Return not found
+   * @throws HttpException(409) - Return already reviewed
+   */
+  @Patch(':id/review')
+  @UseGuards(SessionAuthGuard, AdminGuard)
+  @ApiCookieAuth()
+  @ApiOperation({ summary: 'Approve or reject a return (admin)' })
+  @ApiParam({ name: 'id', description: 'Return ID' })
+  @ApiBody({ type: ReviewReturnDto })
+  @ApiResponse({ status: 200, description: 'Return reviewed' })
+  @ApiResponse({ status: 403, description: 'Admin access required' })
+  @ApiResponse({ status: 404, description: 'Return not found' })
+  @ApiResponse({ status: 409, description: 'Return already reviewed' })
+  async review(
+    @Param('id') id: string,
+    @Body() dto: ReviewReturnDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    try {
+      const ret = await this.updateReturnStatus.execute(
+        id,
+        dto.decision === 'approve' ? 'approved' : 'rejected',
+        user.userId,
+        dto.note,
+      );
+      return {
+        success: true,
+        message: `Return ${ret.status}`,
+        data: ret,
+      };
+    } catch (error) {
+      const message = (error as Error).message;
+      this.logger.error(`❌ Failed to review return ${id}: ${message}`);
+
+      if (error instanceof HttpException) {
+        throw error;
+      }
+
+      throw new HttpException(
+        {
+          success: false,
+          message: 'Failed to review return',
+          error:
+            process.env.NODE_ENV === 'production'
+              ? 'Internal server error'
+              : message,
+        },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * Record the returned goods as restockable or damaged
+   *
+   * @throws HttpException(400) - Quantities don't match the return
+   * @throws HttpException(404) - Return not found
+   * @throws HttpException(409) - Return not approved
+   */
+  @Patch(':id/receive')
+  @UseGuards(SessionAuthGuard, AdminGuard)
+  @ApiCookieAuth()
+  @ApiOperation({ summary: 'Receive returned goods (admin)' })
+  @ApiParam({ name: 'id', description: 'Return ID' })
+  @ApiBody({ type: ReceiveReturnDto })
+  @ApiResponse({ status: 200, description: 'Return received' })
+  @ApiResponse({ status: 400, description: 'Quantities do not match' })
+  @ApiResponse({ status: 403, description: 'Admin access required' })
+  @ApiResponse({ status: 404, description: 'Return not found' })
+  @ApiResponse({ status: 409, description: 'Return not approved' })
+  async receive(
+    @Param('id') id: string,
+    @Body() dto: ReceiveReturnDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    try {
+      const ret = await this.receiveReturn.execute(id, dto, user.userId);
+      return {
+        success: true,
+        message: 'Return received',
+        data: ret,
+      };
+    } catch (error) {
+      const message = (error as Error).message;
+      this.logger.error(`❌ Failed to receive return ${id}: ${message}`);
+
+      if (error instanceof HttpException) {
+        throw error;
+      }
+
+      throw new HttpException(
+        {
+          success: false,
+          message: 'Failed to receive return',
+          error:
+            process.env.NODE_ENV === 'production'
+              ? 'Internal server error'
+              : message,
+        },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+}
@@ -0,0 +1,75 @@
+import {
+  Body,
+  Controller,
+  HttpCode,
+  HttpException,
+  HttpStatus,
+  Logger,
+  Post,
+} from '@nestjs/common';
+import { ApiBody, ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+
+import { QuoteShippingUseCase } from '../../application/use-cases/quote-shipping.usecase';
+import { ShippingQuoteDto } from '../../application/dto/shipping-quote.dto';
+
+/**
+ * Shipping Controller
+ *
+ * Shipping options for checkout. The chosen method is re-priced
+ * server-side when the order is created.
+ *
+ * @example
+ * POST /order/shipping/quote - Available methods and costs for a cart
+ */
+@ApiTags('shipping')
+@Controller('order/shipping')
+export class ShippingController {
+  private readonly logger = new Logger(ShippingController.name);
+
+  constructor(private readonly quoteShipping: QuoteShippingUseCase) {
+    this.logger.log('✅ ShippingController initialized');
+  }
+
+  /**
+   * Quote shipping methods for a cart
+   *
+   * @returns Promise<{success, message, data: Array<{method, name, estimatedDelivery, cost}>}>
+   */
+  @Post('quote')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'List shipping methods and costs for a cart' })
+  @ApiBody({ type: ShippingQuoteDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Available methods, cheapest first',
+  })
+  async quote(@Body() dto: ShippingQuoteDto) {
+    try {
+      const options = await this.quoteShipping.execute(dto);
+      return {
+        success: true,
+        message: 'Shipping options calculated',
+        data: options,
+      };
+    } catch (error) {
+      const message = (error as Error).message;
+      this.logger.error(`❌ Failed to quote shipping: ${message}`);
+
+      if (error instanceof HttpException) {
+        throw error;
+      }
+
+      throw new HttpException(
+        {
+          success: false,
+          message: 'Failed to quote shipping',
+          error:
+            process.env.NODE_ENV === 'production'
+              ? 'Internal server error'
+              : message,
+        },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+}
@@ -0,0 +1,98 @@
+import {
+  Body,
+  Controller,
+  HttpCode,
+  HttpException,
+  HttpStatus,
+  Logger,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBody,
+  ApiCookieAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+
+import { QuoteTaxUseCase } from '../../application/use-cases/quote-tax.usecase';
+import { TaxQuoteDto } from '../../application/dto/tax-quote.dto';
+import {
+  AuthenticatedUser,
+  SessionAuthGuard,
+} from '../../shared/guards/session-auth.guard';
+import { CurrentUser } from '../../shared/decorators/current-user.decorator';
+
+/**
+ * Tax Controller
+ *
+ * Tax quotes for checkout. Orders are always taxed server-side with the
+ * same rate table, whatever the client shows.
+ *
+ * @example
+ * POST /order/tax/quote - Tax and total for a cart and shipping address
+ */
+@ApiTags('tax')
+@Controller('order/tax')
+export class TaxController {
+  private readonly logger = new Logger(TaxController.name);
+
+  constructor(private readonly quoteTax: QuoteTaxUseCase) {
+    this.logger.log('✅ TaxController initialized');
+  }
+
+  /**
+   * Quote tax for the caller's cart (promo codes are checked against the
+   * caller's redemptions)
+   *
+   * @returns Promise<{success, message, data: {subtotal, discount, taxableAmount, tax, total, exempt, jurisdiction}}>
+   *
+   * @throws HttpException(401) - Not signed in
+   * @throws HttpException(422) - Promo code does not apply (code INVALID_COUPON)
+   */
+  @Post('quote')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(SessionAuthGuard)
+  @ApiCookieAuth()
+  @ApiOperation({ summary: 'Quote tax and total for a cart' })
+  @ApiBody({ type: TaxQuoteDto })
+  @ApiResponse({ status: 200, description: 'Tax quote calculated' })
+  @ApiResponse({ status: 401, description: 'Not authenticated' })
+  @ApiResponse({
+    status: 422,
+    description: 'Promo code does not apply (code INVALID_COUPON)',
+  })
+  async quote(
+    @Body() dto: TaxQuoteDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    try {
+      const quote = await this.quoteTax.execute(dto, user.userId);
+      return {
+        success: true,
+        message: 'Tax quote calculated',
+        data: quote,
+      };
+    } catch (error) {
+      const message = (error as Error).message;
+      this.logger.error(`❌ Failed to quote tax: ${message}`);
+
+      if (error instanceof HttpException) {
+        throw error;
+      }
+
+      throw new HttpException(
+        {
+          success: false,
+          message: 'Failed to quote tax',
+          error:
+            process.env.NODE_ENV === 'production'
+              ? 'Internal server error'
+              : message,
+        },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+}
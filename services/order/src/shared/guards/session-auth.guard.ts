@@ -0,0 +1,91 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  Injectable,
+  Logger,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Request } from 'express';
+import { RedisService } from '../../infrastructure/redis/redis.service';
+
+export const SESSION_COOKIE = 'session_id';
+
+/**
+ * User attached to the request by SessionAuthGuard
+ */
+export interface AuthenticatedUser {
+  userId: string;
+  email: string;
+  roles: string[];
+}
+
+/**
+ * Session Auth Guard
+ *
+ * Authenticates the caller from the `session_id` cookie issued by the auth
+ * service. Sessions live in the shared Redis under `auth:session:<id>`, so
+ * no round-trip to the auth service is needed.
+ */
+@Injectable()
+export class SessionAuthGuard implements CanActivate {
+  private readonly logger = new Logger(SessionAuthGuard.name);
+
+  constructor(private readonly redis: RedisService) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context
+      .switchToHttp()
+      .getRequest<Request & { user?: AuthenticatedUser }>();
+    const sessionId = this.extractSessionId(request);
+
+    if (!sessionId) {
+      throw new UnauthorizedException('Not authenticated');
+    }
+
+    const raw = await this.redis.getClient().get(`auth:session:${sessionId}`);
+    if (!raw) {
+      throw new UnauthorizedException('Session expired or invalid');
+    }
+
+    let session: {
+      userId?: string;
+      email?: string;
+      roles?: string[];
+      expiresAt?: number;
+    };
+    try {
+      session = JSON.parse(raw) as typeof session;
+    } catch {
+      this.logger.warn('⚠️ Invalid session payload in Redis');
+      throw new UnauthorizedException('Session expired or invalid');
+    }
+
+    if (
+      !session.userId ||
+      (session.expiresAt && session.expiresAt < Date.now())
+    ) {
+      throw new UnauthorizedException('Session expired or invalid');
+    }
+
+    request.user = {
+      userId: session.userId,
+      email: session.email ?? '',
+      roles: session.roles ?? [],
+    };
+
+    return true;
+  }
+
+  private extractSessionId(request: Request): string | undefined {
+    const header = request.headers.cookie;
+    if (!header) return undefined;
+
+    for (const part of header.split(';')) {
+      const [name, ...value] = part.trim().split('=');
+      if (name === SESSION_COOKIE) {
+        return decodeURIComponent(value.join('='));
+      }
+    }
+    return undefined;
+  }
+}
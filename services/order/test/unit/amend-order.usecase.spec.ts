@@ -0,0 +1,219 @@
+import { ConflictException, ForbiddenException } from '@nestjs/common';
+import { AmendOrderUseCase } from '../../src/application/use-cases/amend-order.usecase';
+import { Order } from '../../src/domain/entities/order.entity';
+import { OrderFactory } from '../../src/domain/factories/order.factory';
+import { OrderAmendmentFactory } from '../../src/domain/factories/order-amendment.factory';
+import { TaxService } from '../../src/domain/services/tax.service';
+import { ShippingService } from '../../src/domain/services/shipping.service';
+import { CurrencyService } from '../../src/domain/services/currency.service';
+import { Money } from '../../src/domain/value-objects/order-vo';
+import { OrderMapper } from '../../src/infrastructure/mappers/order.mapper';
+import { OrderProducer } from '../../src/infrastructure/events/order.producer';
+import {
+  AmendmentNotAllowedException,
+  InactiveProductException,
+} from '../../src/infrastructure/exceptions/order.exceptions';
+
+describe('AmendOrderUseCase', () => {
+  const catalog = {
+    A: { sku: 'A', name: 'Mug', price: Money.of(10), isActive: true },
+    B: { sku: 'B', name: 'Lamp', price: Money.of(30), isActive: true },
+    OFF: { sku: 'OFF', name: 'Retired', price: Money.of(5), isActive: false },
+  };
+  const buyer = { userId: 'u1', email: 'u1@example.com', roles: ['customer'] };
+  const address = { street: '1 Main St', city: 'NYC', state: 'NY', zipCode: '10001', country: 'US' };
+
+  const currencies = new CurrencyService({ baseCurrency: 'USD', rates: { USD: 1 } });
+  const orders = new OrderFactory(
+    new TaxService({ defaultRate: 0.1, rules: [{ country: 'DE', rate: 0.2 }], exemptBuyers: [] }),
+    new ShippingService(
+      {
+        zones: [{ id: 'anywhere', countries: ['*'] }],
+        methods: [
+          { id: 'standard', name: 'Standard', estimatedDelivery: '5 days', rates: [{ zone: 'anywhere', base: 5, perKg: 0 }] },
+        ],
+        defaultItemWeightKg: 0.5,
+      },
+      currencies,
+    ),
+    currencies,
+  );
+
+  // Two mugs: 20 + 10% tax + 5 shipping
+  const placeOrder = (status: Order['status'] = 'processing') => {
+    const order = orders.createFrom({
+      buyerId: 'u1',
+      items: [{ sku: 'A', name: 'Mug', unitPrice: Money.of(10), quantity: 2 }],
+      shippingAddress: address,
+    });
+    order.status = status;
+    return order;
+  };
+
+  let repo: any;
+  let usecase: AmendOrderUseCase;
+
+  beforeEach(() => {
+    repo = {
+      findById: jest.fn(),
+      // Stands in for the transaction: saves the amended order and builds the outbox events
+      amend: jest.fn(async (_order: Order, amended: Order, events) => {
+        repo.outbox = events(amended);
+        return amended;
+      }),
+      outbox: [],
+    };
+    usecase = new AmendOrderUseCase(
+      repo,
+      { findBySku: jest.fn((sku: string) => Promise.resolve(catalog[sku] ?? null)) },
+      { findByCode: jest.fn(() => Promise.resolve(null)) } as any,
+      new OrderAmendmentFactory(orders),
+      new OrderProducer(),
+      new OrderMapper(),
+    );
+  });
+
+  it('should change quantities and add lines, re-price the order and emit the delta', async () => {
+    repo.findById.mockResolvedValue(placeOrder());
+
+    const order = await usecase.execute(
+      'o1',
+      { items: [{ sku: 'A', quantity: 3 }, { sku: 'B', quantity: 1 }], reason: 'One more' },
+      buyer,
+    );
+
+    expect(order.items.map((i) => [i.sku, i.quantity])).toEqual([['A', 3], ['B', 1]]);
+    expect(order.subtotal).toBe(60);
+    expect(order.tax).toBe(6);
+    expect(order.total).toBe(71);
+    expect(order.amendments).toEqual([
+      expect.objectContaining({
+        number: 1,
+        lines: [
+          { sku: 'A', name: 'Mug', from: 2, to: 3 },
+          { sku: 'B', name: 'Lamp', from: 0, to: 1 },
+        ],
+        previousTotal: 27,
+        total: 71,
+        changedBy: 'u1',
+        reason: 'One more',
+      }),
+    ]);
+    expect(repo.outbox).toEqual([
+      expect.objectContaining({
+        topic: 'order.amended',
+        payload: expect.objectContaining({
+          amendment: 1,
+          delta: [{ sku: 'A', quantity: 1 }, { sku: 'B', quantity: 1 }],
+        }),
+      }),
+    ]);
+  });
+
+  it('should remove lines and re-tax for a new address', async () => {
+    const placed = placeOrder('pending');
+    placed.items.push(...orders.createFrom({
+      buyerId: 'u1',
+      items: [{ sku: 'B', name: 'Lamp', unitPrice: Money.of(30), quantity: 1 }],
+    }).items);
+    repo.findById.mockResolvedValue(placed);
+
+    const order = await usecase.execute(
+      'o1',
+      { items: [{ sku: 'B', quantity: 0 }], shippingAddress: { ...address, country: 'DE' } },
+      buyer,
+    );
+
+    expect(order.items.map((i) => i.sku)).toEqual(['A']);
+    expect(order.tax).toBe(4);
+    expect(order.total).toBe(29);
+    expect(order.amendments[0]).toEqual(
+      expect.objectContaining({
+        lines: [{ sku: 'B', name: 'Lamp', from: 1, to: 0 }],
+        addressChanged: true,
+        previousShippingAddress: address,
+      }),
+    );
+  });
+
+  it('should not amend orders that are paid', async () => {
+    repo.findById.mockResolvedValue(placeOrder('paid'));
+
+    await expect(
+      usecase.execute('o1', { items: [{ sku: 'A', quantity: 1 }] }, buyer),
+    ).rejects.toBeInstanceOf(AmendmentNotAllowedException);
+    expect(repo.amend).not.toHaveBeenCalled();
+  });
+
+  it('should not amend orders once a checkout was opened for their total', async () => {
+    const placed = placeOrder();
+    placed.checkoutStartedAt = new Date();
+    repo.findById.mockResolvedValue(placed);
+
+    await expect(
+      usecase.execute('o1', { items: [{ sku: 'A', quantity: 1 }] }, buyer),
+    ).rejects.toThrow('Payment of this order has started, it can no longer be changed');
+    expect(repo.amend).not.toHaveBeenCalled();
+  });
+
+  it('should only let the buyer or an admin amend', async () => {
+    repo.findById.mockResolvedValue(placeOrder());
+    const dto = { items: [{ sku: 'A', quantity: 1 }] };
+
+    await expect(
+      usecase.execute('o1', dto, { ...buyer, userId: 'u2' }),
+    ).rejects.toBeInstanceOf(ForbiddenException);
+    await expect(
+      usecase.execute('o1', dto, { userId: 'admin-1', email: 'a@example.com', roles: ['admin'] }),
+    ).resolves.toEqual(expect.objectContaining({ subtotal: 10 }));
+  });
+
+  it('should not add units of inactive products', async () => {
+    repo.findById.mockResolvedValue(placeOrder());
+
+    await expect(
+      usecase.execute('o1', { items: [{ sku: 'OFF', quantity: 1 }] }, buyer),
+    ).rejects.toBeInstanceOf(InactiveProductException);
+  });
+
+  it('should report a concurrent change', async () => {
+    repo.findById.mockResolvedValue(placeOrder());
+    repo.amend.mockResolvedValueOnce(null);
+
+    await expect(
+      usecase.execute('o1', { items: [{ sku: 'A', quantity: 1 }] }, buyer),
+    ).rejects.toBeInstanceOf(ConflictException);
+  });
+
+  describe('revert', () => {
+    it('should restore the lines of the latest amendment when its stock was not reserved', async () => {
+      repo.findById.mockResolvedValue(placeOrder());
+      const amended = await usecase.execute('o1', { items: [{ sku: 'A', quantity: 5 }] }, buyer);
+      repo.findById.mockResolvedValue(repo.amend.mock.calls[0][1]);
+
+      const reverted = await usecase.revert('o1', 1, 'Stock reservation failed: out of stock');
+
+      expect(amended.items[0].quantity).toBe(5);
+      expect(reverted!.items[0].quantity).toBe(2);
+      expect(reverted!.total).toBe(27);
+      expect(reverted!.amendments[1]).toEqual(
+        expect.objectContaining({
+          number: 2,
+          lines: [{ sku: 'A', name: 'Mug', from: 5, to: 2 }],
+          changedBy: 'inventory-service',
+        }),
+      );
+    });
+
+    it('should leave the order alone once it was amended again', async () => {
+      repo.findById.mockResolvedValue(placeOrder());
+      await usecase.execute('o1', { items: [{ sku: 'A', quantity: 5 }] }, buyer);
+      repo.findById.mockResolvedValue(repo.amend.mock.calls[0][1]);
+      await usecase.execute('o1', { items: [{ sku: 'A', quantity: 4 }] }, buyer);
+      repo.findById.mockResolvedValue(repo.amend.mock.calls[1][1]);
+
+      await expect(usecase.revert('o1', 1, 'out of stock')).resolves.toBeNull();
+      expect(repo.amend).toHaveBeenCalledTimes(2);
+    });
+  });
+});
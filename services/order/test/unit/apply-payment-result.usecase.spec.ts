@@ -0,0 +1,138 @@
+import { ConflictException } from '@nestjs/common';
+import { ApplyPaymentResultUseCase } from '../../src/application/use-cases/apply-payment-result.usecase';
+import { Order } from '../../src/domain/entities/order.entity';
+import { Money } from '../../src/domain/value-objects/order-vo';
+
+describe('ApplyPaymentResultUseCase', () => {
+  const makeOrder = (status: Order['status'], currency = 'USD') =>
+    new Order('o1', 'u1', [], Money.of(10, currency), Money.of(1.99, currency), Money.of(11.99, currency), currency, status);
+
+  let repo: any;
+  let updateOrderStatus: any;
+  let usecase: ApplyPaymentResultUseCase;
+
+  beforeEach(() => {
+    repo = { findById: jest.fn(), addUnappliedPayment: jest.fn() };
+    updateOrderStatus = { execute: jest.fn() };
+    usecase = new ApplyPaymentResultUseCase(repo, updateOrderStatus);
+  });
+
+  it('should mark the order paid when the amount matches its total', async () => {
+    repo.findById.mockResolvedValue(makeOrder('processing'));
+
+    await usecase.execute({
+      orderId: 'o1',
+      outcome: 'succeeded',
+      amount: 1199,
+      currency: 'usd',
+      provider: 'stripe',
+      providerReference: 'pi_123',
+    });
+
+    expect(updateOrderStatus.execute).toHaveBeenCalledWith(
+      'o1',
+      'paid',
+      'payment-service',
+      'Paid 11.99 USD via stripe (pi_123)',
+    );
+  });
+
+  it.each([
+    ['a different amount', 1000, 'USD'],
+    ['a different currency', 1199, 'EUR'],
+    ['no amount', undefined, 'USD'],
+  ])('should not mark the order paid for %s', async (_, amount, currency) => {
+    repo.findById.mockResolvedValue(makeOrder('processing'));
+
+    await expect(
+      usecase.execute({ orderId: 'o1', outcome: 'succeeded', amount, currency }),
+    ).resolves.toBeNull();
+    expect(updateOrderStatus.execute).not.toHaveBeenCalled();
+    expect(repo.addUnappliedPayment).toHaveBeenCalledWith('o1', expect.objectContaining({ receivedAt: expect.any(Date) }));
+  });
+
+  it('should record a mismatched payment on the order so it gets refunded', async () => {
+    repo.findById.mockResolvedValue(makeOrder('processing'));
+
+    await usecase.execute({
+      orderId: 'o1',
+      outcome: 'succeeded',
+      amount: 1000,
+      currency: 'usd',
+      provider: 'stripe',
+      providerReference: 'pi_123',
+    });
+
+    expect(repo.addUnappliedPayment).toHaveBeenCalledWith('o1', {
+      amount: Money.of(10, 'USD'),
+      provider: 'stripe',
+      reference: 'pi_123',
+      reason: 'Paid 10.00 USD, expected 11.99 USD',
+      receivedAt: expect.any(Date),
+    });
+  });
+
+  it('should cancel the order when the payment failed or expired', async () => {
+    repo.findById.mockResolvedValue(makeOrder('pending'));
+
+    await usecase.execute({ orderId: 'o1', outcome: 'failed', reason: 'Card declined' });
+    await usecase.execute({ orderId: 'o1', outcome: 'expired' });
+
+    expect(updateOrderStatus.execute).toHaveBeenCalledWith('o1', 'cancelled', 'payment-service', 'Payment failed: Card declined');
+    expect(updateOrderStatus.execute).toHaveBeenCalledWith(
+      'o1',
+      'cancelled',
+      'payment-service',
+      'Checkout expired before payment',
+    );
+  });
+
+  it('should ignore results for orders that are no longer unpaid', async () => {
+    repo.findById.mockResolvedValue(makeOrder('paid'));
+
+    await expect(
+      usecase.execute({ orderId: 'o1', outcome: 'succeeded', amount: 1199, currency: 'USD' }),
+    ).resolves.toBeNull();
+    await expect(usecase.execute({ orderId: 'o1', outcome: 'expired' })).resolves.toBeNull();
+    expect(updateOrderStatus.execute).not.toHaveBeenCalled();
+    expect(repo.addUnappliedPayment).not.toHaveBeenCalled();
+  });
+
+  it('should record a payment for a cancelled order so it gets refunded', async () => {
+    repo.findById.mockResolvedValue(makeOrder('cancelled'));
+
+    await expect(
+      usecase.execute({ orderId: 'o1', outcome: 'succeeded', amount: 1199, currency: 'USD', providerReference: 'cs_1' }),
+    ).resolves.toBeNull();
+    expect(updateOrderStatus.execute).not.toHaveBeenCalled();
+    expect(repo.addUnappliedPayment).toHaveBeenCalledWith(
+      'o1',
+      expect.objectContaining({
+        amount: Money.of(11.99, 'USD'),
+        reference: 'cs_1',
+        reason: 'Paid after the order was cancelled',
+      }),
+    );
+  });
+
+  it('should re-read the order and apply the result again when it changed concurrently', async () => {
+    repo.findById.mockResolvedValue(makeOrder('processing'));
+    updateOrderStatus.execute.mockRejectedValueOnce(new ConflictException()).mockResolvedValueOnce(makeOrder('paid'));
+
+    await expect(
+      usecase.execute({ orderId: 'o1', outcome: 'succeeded', amount: 1199, currency: 'USD' }),
+    ).resolves.toEqual(makeOrder('paid'));
+    expect(repo.findById).toHaveBeenCalledTimes(2);
+    expect(updateOrderStatus.execute).toHaveBeenCalledTimes(2);
+  });
+
+  it('should rethrow when the order keeps changing concurrently', async () => {
+    repo.findById.mockResolvedValue(makeOrder('processing'));
+    updateOrderStatus.execute.mockRejectedValue(new ConflictException());
+
+    await expect(
+      usecase.execute({ orderId: 'o1', outcome: 'succeeded', amount: 1199, currency: 'USD' }),
+    ).rejects.toThrow(ConflictException);
+    expect(updateOrderStatus.execute).toHaveBeenCalledTimes(3);
+  });
+});
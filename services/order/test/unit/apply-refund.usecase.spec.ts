@@ -0,0 +1,114 @@
+import { ApplyRefundUseCase } from '../../src/application/use-cases/apply-refund.usecase';
+import { Order } from '../../src/domain/entities/order.entity';
+import { OrderProducer } from '../../src/infrastructure/events/order.producer';
+import { Money } from '../../src/domain/value-objects/order-vo';
+
+describe('ApplyRefundUseCase', () => {
+  const makeOrder = (status: Order['status'], refundedAmount = 0) => {
+    const order = new Order('o1', 'u1', [], Money.of(10, 'USD'), Money.of(1.99, 'USD'), Money.of(11.99, 'USD'), 'USD', status);
+    order.refundedAmount = Money.of(refundedAmount, 'USD');
+    return order;
+  };
+
+  let repo: any;
+  let usecase: ApplyRefundUseCase;
+
+  // Stands in for the transaction: applies the change and builds the outbox events
+  const recordRefund = jest.fn(async (order: Order, refundedAmount: Money, entry, events) => {
+    const saved = makeOrder(entry?.to ?? order.status, refundedAmount.toMajor());
+    repo.outbox = events(saved);
+    return saved;
+  });
+
+  beforeEach(() => {
+    recordRefund.mockClear();
+    repo = { findById: jest.fn(), recordRefund, outbox: [] };
+    usecase = new ApplyRefundUseCase(repo, new OrderProducer());
+  });
+
+  it('should move a paid order to partially_refunded with the refunded total', async () => {
+    repo.findById.mockResolvedValue(makeOrder('paid'));
+
+    const order = await usecase.execute({
+      orderId: 'o1',
+      refundId: 're_1',
+      amount: 500,
+      refundedAmount: 500,
+      currency: 'usd',
+      provider: 'stripe',
+      reason: 'Damaged',
+    });
+
+    expect(order?.status).toBe('partially_refunded');
+    expect(recordRefund).toHaveBeenCalledWith(
+      expect.anything(),
+      Money.of(5, 'USD'),
+      expect.objectContaining({
+        from: 'paid',
+        to: 'partially_refunded',
+        changedBy: 'payment-service',
+        reason: 'Refunded 5.00 USD via stripe (re_1): Damaged',
+      }),
+      expect.any(Function),
+    );
+    expect(repo.outbox).toEqual([expect.objectContaining({ topic: 'order.updated', key: 'o1' })]);
+  });
+
+  it('should move the order to refunded once the total is refunded', async () => {
+    repo.findById.mockResolvedValue(makeOrder('partially_refunded', 5));
+
+    const order = await usecase.execute({ orderId: 'o1', amount: 699, refundedAmount: 1199, currency: 'USD' });
+
+    expect(order?.status).toBe('refunded');
+    expect(order?.refundedAmount).toEqual(Money.of(11.99, 'USD'));
+  });
+
+  it('should only record the amount when the status stays the same', async () => {
+    repo.findById.mockResolvedValue(makeOrder('partially_refunded', 2));
+
+    await usecase.execute({ orderId: 'o1', amount: 300, refundedAmount: 500, currency: 'USD' });
+
+    expect(recordRefund).toHaveBeenCalledWith(expect.anything(), Money.of(5, 'USD'), undefined, expect.any(Function));
+  });
+
+  it('should only record the amount on orders cancelled after payment', async () => {
+    repo.findById.mockResolvedValue(makeOrder('cancelled'));
+
+    const order = await usecase.execute({ orderId: 'o1', amount: 1199, refundedAmount: 1199, currency: 'USD' });
+
+    expect(order?.status).toBe('cancelled');
+    expect(recordRefund).toHaveBeenCalledWith(expect.anything(), Money.of(11.99, 'USD'), undefined, expect.any(Function));
+  });
+
+  it('should ignore refunds already recorded', async () => {
+    repo.findById.mockResolvedValue(makeOrder('partially_refunded', 5));
+
+    await usecase.execute({ orderId: 'o1', amount: 500, refundedAmount: 500, currency: 'USD' });
+
+    expect(recordRefund).not.toHaveBeenCalled();
+  });
+
+  it('should ignore refunds in another currency', async () => {
+    repo.findById.mockResolvedValue(makeOrder('paid'));
+
+    await expect(
+      usecase.execute({ orderId: 'o1', amount: 500, refundedAmount: 500, currency: 'EUR' }),
+    ).resolves.toBeNull();
+    expect(recordRefund).not.toHaveBeenCalled();
+  });
+
+  it('should re-read the order when it changed while recording', async () => {
+    repo.findById.mockResolvedValueOnce(makeOrder('paid')).mockResolvedValueOnce(makeOrder('shipped'));
+    repo.recordRefund = jest.fn().mockResolvedValueOnce(null).mockResolvedValueOnce(makeOrder('partially_refunded', 5));
+
+    await usecase.execute({ orderId: 'o1', amount: 500, refundedAmount: 500, currency: 'USD' });
+
+    expect(repo.recordRefund).toHaveBeenCalledTimes(2);
+    expect(repo.recordRefund).toHaveBeenLastCalledWith(
+      expect.anything(),
+      Money.of(5, 'USD'),
+      expect.objectContaining({ from: 'shipped', to: 'partially_refunded' }),
+      expect.any(Function),
+    );
+  });
+});
@@ -0,0 +1,101 @@
+import { ConflictException } from '@nestjs/common';
+import { ApplyReservationResultUseCase } from '../../src/application/use-cases/apply-reservation-result.usecase';
+import { Order, OrderItem } from '../../src/domain/entities/order.entity';
+import { Money } from '../../src/domain/value-objects/order-vo';
+
+describe('ApplyReservationResultUseCase', () => {
+  const makeOrder = (status: Order['status']) =>
+    new Order('o1', 'u1', [], Money.of(10, 'USD'), Money.of(1, 'USD'), Money.of(11, 'USD'), 'USD', status);
+
+  let repo: any;
+  let updateOrderStatus: any;
+  let usecase: ApplyReservationResultUseCase;
+
+  beforeEach(() => {
+    repo = { findById: jest.fn(), updateAllocations: jest.fn() };
+    updateOrderStatus = { execute: jest.fn() };
+    usecase = new ApplyReservationResultUseCase(repo, updateOrderStatus);
+  });
+
+  it('should confirm a pending order once all items are reserved', async () => {
+    repo.findById.mockResolvedValue(makeOrder('pending'));
+
+    await usecase.execute({ orderId: 'o1', reserved: true });
+
+    expect(updateOrderStatus.execute).toHaveBeenCalledWith('o1', 'processing', 'inventory-service', 'All items reserved');
+  });
+
+  it('should record back-ordered and pre-ordered lines before confirming', async () => {
+    const order = makeOrder('pending');
+    order.items = [new OrderItem('A', 'Mug', Money.of(10, 'USD'), 2), new OrderItem('B', 'Lamp', Money.of(30, 'USD'), 1), new OrderItem('C', 'Book', Money.of(5, 'USD'), 1)];
+    repo.findById.mockResolvedValue(order);
+
+    await usecase.execute({
+      orderId: 'o1',
+      reserved: true,
+      items: [
+        { sku: 'A', backordered: 1 },
+        { sku: 'B', backordered: 0 },
+        { sku: 'C', backordered: 1, preorder: true, releaseDate: '2030-01-01T00:00:00.000Z' },
+        { sku: 'Z', backordered: 3 },
+      ],
+    });
+
+    expect(repo.updateAllocations).toHaveBeenCalledWith('o1', {
+      A: { status: 'backordered', backordered: 1 },
+      B: { status: 'allocated', backordered: 0 },
+      C: { status: 'preordered', backordered: 1, releaseDate: new Date('2030-01-01T00:00:00.000Z') },
+    });
+    expect(updateOrderStatus.execute).toHaveBeenCalledWith(
+      'o1',
+      'processing',
+      'inventory-service',
+      'Items reserved, some waiting for stock',
+    );
+  });
+
+  it('should cancel the order with the inventory reason when reservation fails', async () => {
+    repo.findById.mockResolvedValue(makeOrder('pending'));
+
+    await usecase.execute({ orderId: 'o1', reserved: false, reason: 'Insufficient stock for SKU-1' });
+
+    expect(updateOrderStatus.execute).toHaveBeenCalledWith(
+      'o1',
+      'cancelled',
+      'inventory-service',
+      'Stock reservation failed: Insufficient stock for SKU-1',
+    );
+  });
+
+  it('should ignore results for orders that already left pending', async () => {
+    repo.findById.mockResolvedValue(makeOrder('cancelled'));
+
+    await expect(usecase.execute({ orderId: 'o1', reserved: true })).resolves.toBeNull();
+    expect(updateOrderStatus.execute).not.toHaveBeenCalled();
+  });
+
+  it('should re-read the order and apply the result again when it changed concurrently', async () => {
+    repo.findById.mockResolvedValue(makeOrder('pending'));
+    updateOrderStatus.execute.mockRejectedValueOnce(new ConflictException()).mockResolvedValueOnce(makeOrder('processing'));
+
+    await expect(usecase.execute({ orderId: 'o1', reserved: true })).resolves.toEqual(makeOrder('processing'));
+    expect(repo.findById).toHaveBeenCalledTimes(2);
+    expect(updateOrderStatus.execute).toHaveBeenCalledTimes(2);
+  });
+
+  it('should drop the result once the re-read order has left pending', async () => {
+    repo.findById.mockResolvedValueOnce(makeOrder('pending')).mockResolvedValueOnce(makeOrder('cancelled'));
+    updateOrderStatus.execute.mockRejectedValueOnce(new ConflictException());
+
+    await expect(usecase.execute({ orderId: 'o1', reserved: true })).resolves.toBeNull();
+    expect(updateOrderStatus.execute).toHaveBeenCalledTimes(1);
+  });
+
+  it('should rethrow when the order keeps changing concurrently', async () => {
+    repo.findById.mockResolvedValue(makeOrder('pending'));
+    updateOrderStatus.execute.mockRejectedValue(new ConflictException());
+
+    await expect(usecase.execute({ orderId: 'o1', reserved: true })).rejects.toThrow(ConflictException);
+    expect(updateOrderStatus.execute).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,40 @@
+import { ConflictException, ForbiddenException } from '@nestjs/common';
+import { CancelOrderUseCase } from '../../src/application/use-cases/cancel-order.usecase';
+import { Order } from '../../src/domain/entities/order.entity';
+import { Money } from '../../src/domain/value-objects/order-vo';
+
+describe('CancelOrderUseCase', () => {
+  const makeOrder = (status: Order['status']) =>
+    new Order('o1', 'buyer-1', [], Money.of(10, 'USD'), Money.of(1, 'USD'), Money.of(11, 'USD'), 'USD', status);
+
+  let repo: any;
+  let updateOrderStatus: any;
+  let usecase: CancelOrderUseCase;
+
+  beforeEach(() => {
+    repo = { findById: jest.fn() };
+    updateOrderStatus = { execute: jest.fn().mockResolvedValue({ status: 'cancelled' }) };
+    usecase = new CancelOrderUseCase(repo, updateOrderStatus);
+  });
+
+  it('should cancel through the status path with the buyer and reason', async () => {
+    repo.findById.mockResolvedValue(makeOrder('processing'));
+
+    await usecase.execute('o1', 'buyer-1', 'Changed my mind');
+
+    expect(updateOrderStatus.execute).toHaveBeenCalledWith('o1', 'cancelled', 'buyer-1', 'Changed my mind');
+  });
+
+  it('should forbid cancelling someone else’s order', async () => {
+    repo.findById.mockResolvedValue(makeOrder('pending'));
+
+    await expect(usecase.execute('o1', 'intruder', 'x')).rejects.toBeInstanceOf(ForbiddenException);
+    expect(updateOrderStatus.execute).not.toHaveBeenCalled();
+  });
+
+  it('should refuse once the order has shipped', async () => {
+    repo.findById.mockResolvedValue(makeOrder('shipped'));
+
+    await expect(usecase.execute('o1', 'buyer-1', 'x')).rejects.toBeInstanceOf(ConflictException);
+  });
+});
@@ -0,0 +1,28 @@
+import { ConflictException } from '@nestjs/common';
+import { CancelUnreservedOrdersUseCase } from '../../src/application/use-cases/cancel-unreserved-orders.usecase';
+import { Order } from '../../src/domain/entities/order.entity';
+import { Money } from '../../src/domain/value-objects/order-vo';
+
+describe('CancelUnreservedOrdersUseCase', () => {
+  const makeOrder = (id: string) => new Order(id, 'u1', [], Money.of(10, 'USD'), Money.of(1, 'USD'), Money.of(11, 'USD'), 'USD', 'pending');
+
+  it('should cancel pending orders created before the cutoff', async () => {
+    const repo: any = { findAll: jest.fn().mockResolvedValue([makeOrder('o1'), makeOrder('o2')]) };
+    const updateOrderStatus: any = {
+      execute: jest
+        .fn()
+        .mockResolvedValueOnce({})
+        .mockRejectedValueOnce(new ConflictException()),
+    };
+    const usecase = new CancelUnreservedOrdersUseCase(repo, updateOrderStatus);
+    const cutoff = new Date('2025-01-01T00:00:00Z');
+
+    await expect(usecase.execute(cutoff)).resolves.toBe(1);
+
+    expect(repo.findAll).toHaveBeenCalledWith(
+      { status: 'pending', createdTo: cutoff },
+      expect.objectContaining({ sortBy: 'createdAt', sortOrder: 'asc' }),
+    );
+    expect(updateOrderStatus.execute).toHaveBeenCalledWith('o1', 'cancelled', 'system', 'Stock reservation timed out');
+  });
+});
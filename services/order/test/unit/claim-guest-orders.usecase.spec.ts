@@ -0,0 +1,58 @@
+import { ForbiddenException, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ClaimGuestOrdersUseCase } from '../../src/application/use-cases/claim-guest-orders.usecase';
+import { OrderLookupTokenService } from '../../src/application/services/order-lookup-token.service';
+import { Order, OrderItem } from '../../src/domain/entities/order.entity';
+import { OrderMapper } from '../../src/infrastructure/mappers/order.mapper';
+import { OrderProducer } from '../../src/infrastructure/events/order.producer';
+import { Money } from '../../src/domain/value-objects/order-vo';
+
+describe('ClaimGuestOrdersUseCase', () => {
+  const user = { userId: 'u1', email: 'Jane@Example.com', roles: ['user'] };
+  const lookupTokens = new OrderLookupTokenService(
+    new ConfigService({ order: { guestCheckout: { lookupTokenSecret: 'test-secret', lookupTokenTtlSeconds: 3600 } } }),
+  );
+
+  let repo: any;
+  let usecase: ClaimGuestOrdersUseCase;
+
+  beforeEach(() => {
+    repo = {
+      claimGuestOrders: jest.fn((guestBuyerId: string, buyerId: string, events) => {
+        const order = new Order('o1', buyerId, [new OrderItem('A', 'Mug', Money.of(10, 'USD'), 1)], Money.of(10, 'USD'), Money.of(1, 'USD'), Money.of(16, 'USD'), 'USD', 'processing');
+        order.guestEmail = 'jane@example.com';
+        order.claimedAt = new Date();
+        repo.outbox = events(order);
+        return Promise.resolve([order]);
+      }),
+    };
+    usecase = new ClaimGuestOrdersUseCase(repo, lookupTokens, new OrderProducer(), new OrderMapper());
+  });
+
+  it('should claim every guest order of the account email', async () => {
+    const claimed = await usecase.execute(['garbage', lookupTokens.issue('o1', 'jane@example.com')], user);
+
+    expect(repo.claimGuestOrders).toHaveBeenCalledWith('guest:jane@example.com', 'u1', expect.any(Function));
+    expect(claimed).toEqual([expect.objectContaining({ id: 'o1', buyerId: 'u1' })]);
+    expect(repo.outbox).toEqual([
+      expect.objectContaining({ topic: 'order.claimed', payload: expect.objectContaining({ buyerId: 'u1' }) }),
+    ]);
+  });
+
+  it('should refuse tokens issued for another email', async () => {
+    await expect(
+      usecase.execute([lookupTokens.issue('o2', 'someone@example.com')], user),
+    ).rejects.toBeInstanceOf(ForbiddenException);
+    expect(repo.claimGuestOrders).not.toHaveBeenCalled();
+  });
+
+  it('should refuse tampered and expired tokens', async () => {
+    const [payload, signature] = lookupTokens.issue('o1', 'jane@example.com').split('.');
+    const forged = `${Buffer.from(JSON.stringify({ orderId: 'o1', email: 'jane@example.com', exp: 9999999999 })).toString('base64url')}.${signature}`;
+    const expired = lookupTokens.issue('o1', 'jane@example.com', new Date(Date.now() - 2 * 3600 * 1000));
+
+    expect(lookupTokens.verify(`${payload}.${signature}`)).not.toBeNull();
+    await expect(usecase.execute([forged, expired], user)).rejects.toBeInstanceOf(UnauthorizedException);
+    expect(repo.claimGuestOrders).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,44 @@
+import { CouponRepository } from '../../src/infrastructure/repositories/coupon.repository';
+
+describe('CouponRepository', () => {
+  const session = {} as any;
+
+  let couponModel: any;
+  let redemptionModel: any;
+  let repository: CouponRepository;
+
+  beforeEach(() => {
+    couponModel = { updateOne: jest.fn() };
+    redemptionModel = { findOneAndUpdate: jest.fn() };
+    repository = new CouponRepository(couponModel, redemptionModel, {} as any);
+  });
+
+  describe('release', () => {
+    it("should give back the order's redemption and the coupon's use", async () => {
+      redemptionModel.findOneAndUpdate.mockReturnValue({
+        lean: () => Promise.resolve({ code: 'SAVE10', buyerId: 'u1', count: 1, orderIds: ['o1'] }),
+      });
+
+      await repository.release('o1', session);
+
+      expect(redemptionModel.findOneAndUpdate).toHaveBeenCalledWith(
+        { orderIds: 'o1' },
+        { $inc: { count: -1 }, $pull: { orderIds: 'o1' } },
+        { session },
+      );
+      expect(couponModel.updateOne).toHaveBeenCalledWith(
+        { code: 'SAVE10', redemptionCount: { $gt: 0 } },
+        { $inc: { redemptionCount: -1 } },
+        { session },
+      );
+    });
+
+    it('should leave the coupon alone when the order redeemed none or was released', async () => {
+      redemptionModel.findOneAndUpdate.mockReturnValue({ lean: () => Promise.resolve(null) });
+
+      await repository.release('o1', session);
+
+      expect(couponModel.updateOne).not.toHaveBeenCalled();
+    });
+  });
+});
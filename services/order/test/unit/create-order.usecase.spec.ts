@@ -1,23 +1,248 @@
 import { CreateOrderUseCase } from '../../src/application/use-cases/create-order.usecase';
-import { OrderRepository } from '../../src/infrastructure/repositories/order.repository';
+import { OrderFactory } from '../../src/domain/factories/order.factory';
+import { OrderDomainService } from '../../src/domain/services/order-domain.service';
+import { TaxService } from '../../src/domain/services/tax.service';
+import { ShippingService } from '../../src/domain/services/shipping.service';
+import { CurrencyService } from '../../src/domain/services/currency.service';
+import { Money } from '../../src/domain/value-objects/order-vo';
+import { OrderMapper } from '../../src/infrastructure/mappers/order.mapper';
+import { OrderProducer } from '../../src/infrastructure/events/order.producer';
+import {
+  IdempotencyKeyReusedException,
+  InactiveProductException,
+  InvalidCouponException,
+  PriceChangedException,
+  ShippingMethodUnavailableException,
+  UnknownProductException,
+  UnsupportedCurrencyException,
+} from '../../src/infrastructure/exceptions/order.exceptions';
+import { IdempotencyClaim } from '../../src/domain/interfaces/idempotency-store.interface';
+import { Coupon } from '../../src/domain/entities/coupon.entity';
+import { ConfigService } from '@nestjs/config';
+import { OrderLookupTokenService } from '../../src/application/services/order-lookup-token.service';
 
 describe('CreateOrderUseCase', () => {
-  const mockRepo = {
-    create: jest.fn(),
-  } as unknown as OrderRepository;
+  const catalog = {
+    'SKU-1': { sku: 'SKU-1', name: 'Catalog Shirt', price: Money.of(20), isActive: true, category: 'apparel' },
+    'SKU-OFF': { sku: 'SKU-OFF', name: 'Retired', price: Money.of(5), isActive: false },
+  };
 
-  it('should call repository.create', async () => {
-    mockRepo.create = jest.fn().mockResolvedValue({ userId: 'u1' });
+  let repo: any;
+  let coupons: any;
+  let usecase: CreateOrderUseCase;
+  const lookupTokens = new OrderLookupTokenService(
+    new ConfigService({ order: { guestCheckout: { lookupTokenSecret: 'test-secret' } } }),
+  );
 
-    const usecase = new CreateOrderUseCase(mockRepo);
+  // In-memory stand-in for the Redis store
+  const records = new Map<string, { requestHash: string; response?: unknown }>();
+  const idempotency = {
+    claim: jest.fn(async (key: string, requestHash: string): Promise<IdempotencyClaim> => {
+      const existing = records.get(key);
+      if (!existing) {
+        records.set(key, { requestHash });
+        return { state: 'claimed' };
+      }
+      return existing.response === undefined
+        ? { state: 'in_progress', requestHash: existing.requestHash }
+        : { state: 'completed', requestHash: existing.requestHash, response: existing.response };
+    }),
+    complete: jest.fn(async (key: string, requestHash: string, response: unknown) => {
+      records.set(key, { requestHash, response });
+    }),
+    release: jest.fn(async (key: string) => {
+      records.delete(key);
+    }),
+  };
 
+  beforeEach(() => {
+    records.clear();
+    repo = {
+      create: jest.fn((order, events) => {
+        repo.outbox = events(order);
+        return Promise.resolve(order);
+      }),
+    };
+    coupons = {
+      findByCode: jest.fn((code: string) =>
+        Promise.resolve(
+          code === 'SAVE10' ? new Coupon('SAVE10', 'percentage', 10, true, 0, undefined, undefined, undefined, 5, 1) : null,
+        ),
+      ),
+      countRedemptions: jest.fn(() => Promise.resolve(0)),
+    };
+    const catalogClient = { findBySku: jest.fn((sku: string) => Promise.resolve(catalog[sku] ?? null)) };
+
+    const currencies = new CurrencyService({ baseCurrency: 'USD', rates: { USD: 1, EUR: 0.9 } });
+
+    usecase = new CreateOrderUseCase(
+      new OrderFactory(
+        new TaxService({ defaultRate: 0.1, rules: [], exemptBuyers: [] }),
+        new ShippingService(
+          {
+            zones: [{ id: 'anywhere', countries: ['*'] }],
+            methods: [
+              { id: 'standard', name: 'Standard', estimatedDelivery: '5 days', rates: [{ zone: 'anywhere', base: 5, perKg: 0 }] },
+            ],
+            defaultItemWeightKg: 0.5,
+          },
+          currencies,
+        ),
+        currencies,
+      ),
+      repo,
+      catalogClient,
+      idempotency,
+      coupons,
+      new OrderDomainService(),
+      new OrderProducer(),
+      new OrderMapper(),
+      currencies,
+      lookupTokens,
+    );
+  });
+
+  it('should call repository.create with catalog prices', async () => {
+    const result = await usecase.execute({
+      buyerId: 'u1',
+      items: [{ sku: 'SKU-1', name: 'Hacked', unitPrice: 20, quantity: 2 }],
+    });
+
+    expect(repo.create).toHaveBeenCalled();
+    expect(result.items[0]).toMatchObject({ name: 'Catalog Shirt', unitPrice: 20 });
+    expect(result.subtotal).toBe(40);
+    expect(result.tax).toBe(4);
+    expect(result).toMatchObject({ shippingMethod: 'standard', shippingCost: 5, total: 49 });
+    expect(repo.outbox).toEqual([
+      expect.objectContaining({ topic: 'order.created', key: result.id }),
+    ]);
+  });
+
+  it('should reject a client price that differs from the catalog', async () => {
+    await expect(
+      usecase.execute({ buyerId: 'u1', items: [{ sku: 'SKU-1', unitPrice: 0.01, quantity: 1 }] }),
+    ).rejects.toBeInstanceOf(PriceChangedException);
+    expect(repo.create).not.toHaveBeenCalled();
+  });
+
+  it('should reject unknown and inactive SKUs', async () => {
+    await expect(
+      usecase.execute({ buyerId: 'u1', items: [{ sku: 'NOPE', quantity: 1 }] }),
+    ).rejects.toBeInstanceOf(UnknownProductException);
+    await expect(
+      usecase.execute({ buyerId: 'u1', items: [{ sku: 'SKU-OFF', quantity: 1 }] }),
+    ).rejects.toBeInstanceOf(InactiveProductException);
+  });
+
+  it('should apply a coupon as a discount and redeem it with the order', async () => {
+    const result = await usecase.execute({
+      buyerId: 'u1',
+      items: [{ sku: 'SKU-1', quantity: 2 }],
+      couponCode: ' save10 ',
+    });
+
+    expect(result).toMatchObject({ subtotal: 40, discount: 4, couponCode: 'SAVE10', tax: 3.6, total: 44.6 });
+    expect(repo.create).toHaveBeenCalledWith(expect.anything(), expect.any(Function), expect.any(Coupon));
+  });
+
+  it('should reject unknown and used-up coupons', async () => {
+    await expect(
+      usecase.execute({ buyerId: 'u1', items: [{ sku: 'SKU-1', quantity: 1 }], couponCode: 'NOPE' }),
+    ).rejects.toBeInstanceOf(InvalidCouponException);
+
+    coupons.countRedemptions.mockResolvedValueOnce(1);
+    await expect(
+      usecase.execute({ buyerId: 'u1', items: [{ sku: 'SKU-1', quantity: 1 }], couponCode: 'SAVE10' }),
+    ).rejects.toMatchObject({
+      response: expect.objectContaining({ code: 'INVALID_COUPON', details: expect.objectContaining({ reason: 'CUSTOMER_LIMIT_REACHED' }) }),
+    });
+    expect(repo.create).not.toHaveBeenCalled();
+  });
+
+  it('should reject a shipping method that is not offered', async () => {
+    await expect(
+      usecase.execute({ buyerId: 'u1', items: [{ sku: 'SKU-1', quantity: 1 }], shippingMethod: 'teleport' }),
+    ).rejects.toBeInstanceOf(ShippingMethodUnavailableException);
+    expect(repo.create).not.toHaveBeenCalled();
+  });
+
+  it('should charge in the requested currency and keep the base-currency total', async () => {
     const result = await usecase.execute({
-      userId: 'u1',
-      items: [{ productId: 'p1', quantity: 1 }],
-      totalAmount: 200,
+      buyerId: 'u1',
+      items: [{ sku: 'SKU-1', unitPrice: 18, quantity: 3 }],
+      currency: 'eur',
+    });
+
+    // 60 USD + 5 shipping + 6 tax = 71 USD; each part converted at 0.9
+    expect(result).toMatchObject({
+      currency: 'EUR',
+      subtotal: 54,
+      shippingCost: 4.5,
+      tax: 5.4,
+      total: 63.9,
+      baseCurrency: 'USD',
+      baseTotal: 71,
+      exchangeRate: 0.9,
     });
+    expect(result.items[0].unitPrice).toBe(18);
+  });
+
+  it('should reject currencies without an exchange rate', async () => {
+    await expect(
+      usecase.execute({ buyerId: 'u1', items: [{ sku: 'SKU-1', quantity: 1 }], currency: 'JPY' }),
+    ).rejects.toBeInstanceOf(UnsupportedCurrencyException);
+  });
+
+  it('should replay the original order for a repeated idempotency key', async () => {
+    const dto = { buyerId: 'u1', items: [{ sku: 'SKU-1', quantity: 1 }] };
+
+    const first = await usecase.execute(dto, 'key-1');
+    const retry = await usecase.execute({ items: [{ quantity: 1, sku: 'SKU-1' }], buyerId: 'u1' }, 'key-1');
+
+    expect(retry).toEqual(first);
+    expect(repo.create).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject an idempotency key reused with a different body', async () => {
+    await usecase.execute({ buyerId: 'u1', items: [{ sku: 'SKU-1', quantity: 1 }] }, 'key-1');
+
+    await expect(
+      usecase.execute({ buyerId: 'u1', items: [{ sku: 'SKU-1', quantity: 3 }] }, 'key-1'),
+    ).rejects.toBeInstanceOf(IdempotencyKeyReusedException);
+  });
+
+  it('should release the key when order creation fails', async () => {
+    const dto = { buyerId: 'u1', items: [{ sku: 'NOPE', quantity: 1 }] };
+
+    await expect(usecase.execute(dto, 'key-1')).rejects.toBeInstanceOf(UnknownProductException);
+    expect(idempotency.release).toHaveBeenCalledWith('u1:key-1');
+    expect(records.size).toBe(0);
+  });
+
+  it('should answer and release the key when the response cannot be stored', async () => {
+    const dto = { buyerId: 'u1', items: [{ sku: 'SKU-1', quantity: 1 }] };
+    idempotency.complete.mockRejectedValueOnce(new Error('redis down'));
+
+    await expect(usecase.execute(dto, 'key-1')).resolves.toMatchObject({ id: expect.any(String) });
+    expect(repo.create).toHaveBeenCalledTimes(1);
+    expect(records.size).toBe(0);
+  });
+
+  it('should place a guest order under the email and return a lookup token for it', async () => {
+    const result = await usecase.execute(
+      { guestEmail: ' Jane@Example.com', items: [{ sku: 'SKU-1', quantity: 1 }] },
+      'key-1',
+    );
+
+    expect(result).toMatchObject({ buyerId: 'guest:jane@example.com', guestEmail: 'jane@example.com' });
+    expect(lookupTokens.verify(result.lookupToken!)).toMatchObject({ orderId: result.id, email: 'jane@example.com' });
+    expect(repo.outbox[0].payload).toMatchObject({ guestEmail: 'jane@example.com' });
+    expect(records.has('guest:jane@example.com:key-1')).toBe(true);
+  });
+
+  it('should not issue lookup tokens for account orders', async () => {
+    const result = await usecase.execute({ buyerId: 'u1', items: [{ sku: 'SKU-1', quantity: 1 }] });
 
-    expect(mockRepo.create).toHaveBeenCalled();
-    expect(result.userId).toBe('u1');
+    expect(result.lookupToken).toBeUndefined();
   });
 });
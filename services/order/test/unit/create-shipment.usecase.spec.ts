@@ -0,0 +1,166 @@
+import { ConflictException } from '@nestjs/common';
+import { CreateShipmentUseCase } from '../../src/application/use-cases/create-shipment.usecase';
+import { DeliverShipmentUseCase } from '../../src/application/use-cases/deliver-shipment.usecase';
+import { Order, OrderItem } from '../../src/domain/entities/order.entity';
+import { Shipment } from '../../src/domain/entities/shipment.entity';
+import { ShipmentFactory } from '../../src/domain/factories/shipment.factory';
+import { OrderMapper } from '../../src/infrastructure/mappers/order.mapper';
+import { OrderProducer } from '../../src/infrastructure/events/order.producer';
+import { ShipmentNotAllowedException } from '../../src/infrastructure/exceptions/order.exceptions';
+import { Money } from '../../src/domain/value-objects/order-vo';
+
+describe('Shipments', () => {
+  const makeOrder = (status: Order['status'], shipments: Shipment[] = []) => {
+    const order = new Order(
+      'o1', 'u1', [new OrderItem('A', 'Mug', Money.of(10, 'USD'), 2), new OrderItem('B', 'Lamp', Money.of(30, 'USD'), 1)],
+      Money.of(50, 'USD'), Money.zero('USD'), Money.of(50, 'USD'), 'USD', status,
+    );
+    order.shipments = shipments;
+    return order;
+  };
+
+  let repo: any;
+
+  // Stands in for the transaction: applies the change and builds the outbox events
+  const save = jest.fn(async (order: Order, shipment: Shipment, entry, events) => {
+    const saved = makeOrder(entry?.to ?? order.status, [...order.shipments, shipment]);
+    repo.outbox = events(saved);
+    return saved;
+  });
+
+  beforeEach(() => {
+    repo = { findById: jest.fn(), addShipment: save, updateShipmentStatus: jest.fn(), outbox: [] };
+  });
+
+  describe('CreateShipmentUseCase', () => {
+    const usecase = () =>
+      new CreateShipmentUseCase(repo, new ShipmentFactory(), new OrderMapper(), new OrderProducer());
+
+    it('should partially ship an order and send the tracking details', async () => {
+      repo.findById.mockResolvedValue(makeOrder('paid'));
+
+      const order = await usecase().execute(
+        'o1',
+        { carrier: 'UPS', trackingNumber: '1Z1', items: [{ sku: 'A', quantity: 1 }] },
+        'admin-1',
+      );
+
+      expect(order.status).toBe('partially_shipped');
+      expect(save).toHaveBeenLastCalledWith(
+        expect.anything(),
+        expect.objectContaining({ carrier: 'UPS', items: [{ sku: 'A', name: 'Mug', quantity: 1 }] }),
+        expect.objectContaining({ from: 'paid', to: 'partially_shipped', changedBy: 'admin-1' }),
+        expect.any(Function),
+      );
+      expect(repo.outbox).toEqual([
+        expect.objectContaining({
+          topic: 'order.shipped',
+          payload: expect.objectContaining({
+            status: 'partially_shipped',
+            shipment: expect.objectContaining({ carrier: 'UPS', trackingNumber: '1Z1' }),
+          }),
+        }),
+      ]);
+    });
+
+    it('should ship everything left when no items are given', async () => {
+      const first = new Shipment('s1', [{ sku: 'A', name: 'Mug', quantity: 1 }], 'UPS', '1Z1');
+      repo.findById.mockResolvedValue(makeOrder('partially_shipped', [first]));
+
+      const order = await usecase().execute('o1', { carrier: 'DHL', trackingNumber: 'JD2' }, 'admin-1');
+
+      expect(order.status).toBe('shipped');
+      expect(order.shipments[1].items).toEqual([
+        { sku: 'A', name: 'Mug', quantity: 1 },
+        { sku: 'B', name: 'Lamp', quantity: 1 },
+      ]);
+    });
+
+    it('should not ship more units than are left', async () => {
+      repo.findById.mockResolvedValue(makeOrder('paid'));
+
+      await expect(
+        usecase().execute('o1', { carrier: 'UPS', trackingNumber: '1Z1', items: [{ sku: 'B', quantity: 2 }] }, 'admin-1'),
+      ).rejects.toThrow(ShipmentNotAllowedException);
+    });
+
+    it('should leave back-ordered units out of the shipment until they are allocated', async () => {
+      const order = makeOrder('paid');
+      order.items[0] = new OrderItem('A', 'Mug', Money.of(10, 'USD'), 2, { status: 'backordered', backordered: 1 });
+      repo.findById.mockResolvedValue(order);
+
+      const shipped = await usecase().execute('o1', { carrier: 'UPS', trackingNumber: '1Z1' }, 'admin-1');
+
+      expect(shipped.status).toBe('partially_shipped');
+      expect(shipped.shipments[0].items).toEqual([
+        { sku: 'A', name: 'Mug', quantity: 1 },
+        { sku: 'B', name: 'Lamp', quantity: 1 },
+      ]);
+      await expect(
+        usecase().execute('o1', { carrier: 'UPS', trackingNumber: '1Z2', items: [{ sku: 'A', quantity: 2 }] }, 'admin-1'),
+      ).rejects.toThrow('1 unit(s) of Mug are waiting for stock');
+    });
+
+    it('should not ship orders that are not paid or processing', async () => {
+      repo.findById.mockResolvedValue(makeOrder('pending'));
+
+      await expect(usecase().execute('o1', { carrier: 'UPS', trackingNumber: '1Z1' }, 'admin-1')).rejects.toThrow(
+        'cannot be shipped',
+      );
+    });
+  });
+
+  describe('DeliverShipmentUseCase', () => {
+    const usecase = () => new DeliverShipmentUseCase(repo, new OrderMapper(), new OrderProducer());
+    const shipped = (id: string, sku: string, quantity: number) =>
+      new Shipment(id, [{ sku, name: sku, quantity }], 'UPS', `T-${id}`);
+
+    // Stands in for the transaction: marks the shipment delivered and builds the outbox events
+    const deliver = (order: Order) =>
+      jest.fn(async (_order, shipmentId, status, entry, events) => {
+        const saved = makeOrder(
+          entry?.to ?? order.status,
+          order.shipments.map((s) => (s.id === shipmentId ? new Shipment(s.id, s.items, s.carrier, s.trackingNumber, status) : s)),
+        );
+        repo.outbox = events(saved);
+        return saved;
+      });
+
+    it('should deliver the order with its last shipment', async () => {
+      const order = makeOrder('shipped', [shipped('s1', 'A', 2), shipped('s2', 'B', 1)]);
+      order.shipments[0].status = 'delivered';
+      repo.findById.mockResolvedValue(order);
+      repo.updateShipmentStatus = deliver(order);
+
+      const result = await usecase().execute('o1', 's2', 'admin-1');
+
+      expect(result.status).toBe('delivered');
+      expect(repo.outbox).toEqual([expect.objectContaining({ topic: 'order.delivered' })]);
+    });
+
+    it('should keep the order status while other shipments are on their way', async () => {
+      const order = makeOrder('shipped', [shipped('s1', 'A', 2), shipped('s2', 'B', 1)]);
+      repo.findById.mockResolvedValue(order);
+      repo.updateShipmentStatus = deliver(order);
+
+      const result = await usecase().execute('o1', 's1', 'admin-1');
+
+      expect(result.status).toBe('shipped');
+      expect(repo.updateShipmentStatus).toHaveBeenCalledWith(order, 's1', 'delivered', undefined, expect.any(Function));
+      expect(repo.outbox).toEqual([
+        expect.objectContaining({
+          topic: 'order.updated',
+          payload: expect.objectContaining({ shipment: expect.objectContaining({ shipmentId: 's1', status: 'delivered' }) }),
+        }),
+      ]);
+    });
+
+    it('should reject shipments that are already delivered', async () => {
+      const order = makeOrder('shipped', [shipped('s1', 'A', 2)]);
+      order.shipments[0].status = 'delivered';
+      repo.findById.mockResolvedValue(order);
+
+      await expect(usecase().execute('o1', 's1', 'admin-1')).rejects.toThrow(ConflictException);
+    });
+  });
+});
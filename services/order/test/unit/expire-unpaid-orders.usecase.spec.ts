@@ -0,0 +1,57 @@
+import { ConflictException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ExpireUnpaidOrdersUseCase } from '../../src/application/use-cases/expire-unpaid-orders.usecase';
+import { UnpaidOrderExpiryWatcher } from '../../src/infrastructure/events/unpaid-order-expiry.watcher';
+import { Order } from '../../src/domain/entities/order.entity';
+import { Money } from '../../src/domain/value-objects/order-vo';
+
+describe('ExpireUnpaidOrdersUseCase', () => {
+  const makeOrder = (id: string, status: Order['status']) => new Order(id, 'u1', [], Money.of(10, 'USD'), Money.of(1, 'USD'), Money.of(11, 'USD'), 'USD', status);
+
+  it('should cancel unpaid orders older than the window of their payment method', async () => {
+    const repo: any = {
+      findAll: jest
+        .fn()
+        .mockResolvedValueOnce([makeOrder('o1', 'pending')])
+        .mockResolvedValueOnce([makeOrder('o2', 'processing'), makeOrder('o3', 'processing')]),
+    };
+    const updateOrderStatus: any = {
+      execute: jest.fn().mockResolvedValueOnce({}).mockResolvedValueOnce({}).mockRejectedValueOnce(new ConflictException()),
+    };
+    const usecase = new ExpireUnpaidOrdersUseCase(repo, updateOrderStatus);
+    const now = new Date('2025-01-01T01:00:00Z');
+
+    await expect(usecase.execute({ card: 1800 }, now)).resolves.toBe(2);
+
+    const cutoff = new Date('2025-01-01T00:30:00Z');
+    expect(repo.findAll).toHaveBeenCalledWith(
+      { status: 'pending', paymentMethod: 'card', createdTo: cutoff },
+      expect.objectContaining({ sortBy: 'createdAt', sortOrder: 'asc' }),
+    );
+    expect(repo.findAll).toHaveBeenCalledWith(
+      { status: 'processing', paymentMethod: 'card', createdTo: cutoff },
+      expect.anything(),
+    );
+    expect(updateOrderStatus.execute).toHaveBeenCalledWith('o1', 'cancelled', 'system', 'Payment not received in time');
+  });
+});
+
+describe('UnpaidOrderExpiryWatcher', () => {
+  const config = { get: (_key: string, fallback: unknown) => fallback } as unknown as ConfigService;
+
+  it('should only sweep while holding the lease, and release it afterwards', async () => {
+    const expireUnpaid: any = { execute: jest.fn().mockResolvedValue(0) };
+    const lock: any = {
+      acquire: jest.fn().mockResolvedValueOnce('token-1').mockResolvedValueOnce(null),
+      release: jest.fn().mockResolvedValue(undefined),
+    };
+    const watcher = new UnpaidOrderExpiryWatcher(expireUnpaid, lock, config);
+
+    await watcher.sweep();
+    await watcher.sweep();
+
+    expect(expireUnpaid.execute).toHaveBeenCalledTimes(1);
+    expect(lock.release).toHaveBeenCalledTimes(1);
+    expect(lock.release).toHaveBeenCalledWith('unpaid-order-expiry', 'token-1');
+  });
+});
@@ -0,0 +1,74 @@
+import { Readable } from 'stream';
+import { ExportOrdersUseCase } from '../../src/application/use-cases/export-orders.usecase';
+import { Order, OrderItem } from '../../src/domain/entities/order.entity';
+import { OrderExportWriter } from '../../src/infrastructure/documents/order-export.writer';
+import { Money } from '../../src/domain/value-objects/order-vo';
+
+describe('ExportOrdersUseCase', () => {
+  const orders = [
+    new Order(
+      'o1', 'u1',
+      [new OrderItem('A', 'Mug, "large"', Money.of(10, 'USD'), 2), new OrderItem('B', '=HYPERLINK()', Money.of(2.5, 'USD'), 3)],
+      Money.of(27.5, 'USD'), Money.of(2.75, 'USD'), Money.of(35.25, 'USD'), 'USD', 'delivered',
+      { street: '1 Main St', city: 'NYC', state: 'NY', zipCode: '10001', country: 'US' },
+      new Date('2025-01-02T10:00:00Z'),
+    ),
+    new Order('o2', 'u2', [new OrderItem('A', 'Mug', Money.of(10, 'EUR'), 1)], Money.of(10, 'EUR'), Money.of(1, 'EUR'), Money.of(16, 'EUR'), 'EUR', 'pending', undefined, new Date('2025-01-03T10:00:00Z')),
+  ];
+
+  let repo: any;
+  let usecase: ExportOrdersUseCase;
+
+  beforeEach(() => {
+    repo = {
+      stream: jest.fn(async function* () {
+        yield* orders;
+      }),
+    };
+    usecase = new ExportOrdersUseCase(repo, new OrderExportWriter());
+  });
+
+  const read = async (body: Readable) => {
+    let text = '';
+    for await (const chunk of body) text += chunk;
+    return text;
+  };
+
+  it('should stream one CSV row per order with the list filters applied', async () => {
+    const file = usecase.execute({ status: 'delivered', createdTo: '2025-01-31' });
+    const lines = (await read(file.body)).split('\r\n');
+
+    const [filter] = repo.stream.mock.calls[0];
+    expect(filter).toMatchObject({ status: 'delivered' });
+    expect(filter.createdTo.toISOString()).toBe('2025-01-31T23:59:59.999Z');
+    expect(file.contentType).toBe('text/csv; charset=utf-8');
+    expect(file.filename).toMatch(/^orders-\d{4}-\d{2}-\d{2}\.csv$/);
+
+    expect(lines[0]).toBe(
+      'orderId,createdAt,status,buyerId,paymentMethod,currency,lines,units,subtotal,discount,couponCode,' +
+        'shippingMethod,shippingCost,tax,total,baseCurrency,baseTotal,exchangeRate,invoiceNumber,shippingCountry',
+    );
+    expect(lines[1]).toBe('o1,2025-01-02T10:00:00.000Z,delivered,u1,cod,USD,2,5,27.5,0,,,0,2.75,35.25,,,1,,US');
+    expect(lines).toHaveLength(4); // header, two orders, trailing newline
+  });
+
+  it('should write one row per line item, quoting and defusing formulas', async () => {
+    const lines = (await read(usecase.execute({ rows: 'item' }).body)).split('\r\n');
+
+    expect(lines[0]).toBe('orderId,createdAt,status,buyerId,paymentMethod,currency,sku,name,quantity,unitPrice,lineTotal,invoiceNumber');
+    expect(lines[1]).toBe('o1,2025-01-02T10:00:00.000Z,delivered,u1,cod,USD,A,"Mug, ""large""",2,10,20,');
+    expect(lines[2]).toBe("o1,2025-01-02T10:00:00.000Z,delivered,u1,cod,USD,B,'=HYPERLINK(),3,2.5,7.5,");
+    expect(lines[3]).toContain('o2,');
+  });
+
+  it('should write NDJSON without a header', async () => {
+    const file = usecase.execute({ format: 'ndjson', rows: 'item' });
+    const records = (await read(file.body)).trim().split('\n').map((line) => JSON.parse(line));
+
+    expect(file.contentType).toBe('application/x-ndjson; charset=utf-8');
+    expect(records).toHaveLength(3);
+    expect(records[0]).toEqual(
+      expect.objectContaining({ orderId: 'o1', sku: 'A', name: 'Mug, "large"', quantity: 2, lineTotal: 20, invoiceNumber: null }),
+    );
+  });
+});
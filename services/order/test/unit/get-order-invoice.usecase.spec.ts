@@ -0,0 +1,115 @@
+import { ForbiddenException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { GetOrderInvoiceUseCase } from '../../src/application/use-cases/get-order-invoice.usecase';
+import { InvoiceRenderer } from '../../src/infrastructure/documents/invoice.renderer';
+import { InvoiceNotAvailableException } from '../../src/infrastructure/exceptions/order.exceptions';
+import { Order, OrderItem } from '../../src/domain/entities/order.entity';
+import { Money } from '../../src/domain/value-objects/order-vo';
+
+describe('GetOrderInvoiceUseCase', () => {
+  const makeOrder = (status: Order['status'], invoiceNumber?: string) =>
+    new Order(
+      'o1',
+      'buyer-1',
+      [new OrderItem('SHIRT', 'T-Shirt (blue)', Money.of(40, 'USD'), 2)],
+      Money.of(80, 'USD'),
+      Money.of(5.8, 'USD'),
+      Money.of(90.8, 'USD'),
+      'USD',
+      status,
+      {
+        street: '1 Main St',
+        city: 'Austin',
+        state: 'TX',
+        zipCode: '73301',
+        country: 'USA',
+      },
+      new Date('2025-03-01'),
+      new Date('2025-03-02'),
+      [],
+      Money.zero('USD'),
+      undefined,
+      'standard',
+      Money.of(5, 'USD'),
+      'USD',
+      Money.of(90.8, 'USD'),
+      1,
+      [{ rate: 0.0725, taxableAmount: Money.of(80, 'USD'), tax: Money.of(5.8, 'USD') }],
+      invoiceNumber,
+      invoiceNumber ? new Date('2025-03-02') : undefined,
+    );
+  const user = (userId: string, roles: string[] = []) => ({
+    userId,
+    email: `${userId}@example.com`,
+    roles,
+  });
+  const buyer = user('buyer-1', ['customer']);
+
+  let repo: any;
+  let usecase: GetOrderInvoiceUseCase;
+
+  beforeEach(() => {
+    repo = { findById: jest.fn(), assignInvoiceNumber: jest.fn() };
+    const config = {
+      getOrThrow: () => ({
+        name: 'Acme Ltd',
+        address: ['9 Market St'],
+        taxId: 'US-123',
+      }),
+    } as unknown as ConfigService;
+    usecase = new GetOrderInvoiceUseCase(repo, new InvoiceRenderer(config));
+  });
+
+  it('should render a PDF for the buyer', async () => {
+    repo.findById.mockResolvedValue(makeOrder('paid', 'INV-000042'));
+
+    const document = await usecase.execute('o1', buyer, 'pdf');
+
+    expect(document.filename).toBe('invoice-INV-000042.pdf');
+    expect(document.contentType).toBe('application/pdf');
+    const pdf = (document.body as Buffer).toString('latin1');
+    expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+    expect(pdf).toContain('(T-Shirt \\(blue\\)) Tj');
+    expect(pdf.trimEnd().endsWith('%%EOF')).toBe(true);
+    expect(repo.assignInvoiceNumber).not.toHaveBeenCalled();
+  });
+
+  it('should show seller details and the tax breakdown in HTML for admins', async () => {
+    repo.findById.mockResolvedValue(makeOrder('shipped', 'INV-000042'));
+
+    const document = await usecase.execute(
+      'o1',
+      user('admin-1', ['admin']),
+      'html',
+    );
+
+    expect(document.body).toContain('Acme Ltd');
+    expect(document.body).toContain('Tax ID: US-123');
+    expect(document.body).toContain('Tax 7.25% on 80.00 USD');
+    expect(document.body).toContain('90.80 USD');
+  });
+
+  it('should number orders paid before invoicing existed on first download', async () => {
+    repo.findById.mockResolvedValue(makeOrder('delivered'));
+    repo.assignInvoiceNumber.mockResolvedValue(
+      makeOrder('delivered', 'INV-000043'),
+    );
+
+    const document = await usecase.execute('o1', buyer, 'html');
+
+    expect(repo.assignInvoiceNumber).toHaveBeenCalledWith('o1');
+    expect(document.filename).toBe('invoice-INV-000043.html');
+  });
+
+  it('should refuse unpaid orders and other customers', async () => {
+    repo.findById.mockResolvedValue(makeOrder('pending'));
+    await expect(usecase.execute('o1', buyer, 'pdf')).rejects.toBeInstanceOf(
+      InvoiceNotAvailableException,
+    );
+
+    repo.findById.mockResolvedValue(makeOrder('paid', 'INV-000042'));
+    await expect(
+      usecase.execute('o1', user('intruder'), 'pdf'),
+    ).rejects.toBeInstanceOf(ForbiddenException);
+  });
+});
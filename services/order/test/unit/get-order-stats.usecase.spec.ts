@@ -0,0 +1,42 @@
+import { GetOrderStatsUseCase } from '../../src/application/use-cases/get-order-stats.usecase';
+import { CurrencyService } from '../../src/domain/services/currency.service';
+
+describe('GetOrderStatsUseCase', () => {
+  let repo: any;
+  let usecase: GetOrderStatsUseCase;
+
+  beforeEach(() => {
+    repo = { totalsByStatus: jest.fn() };
+    usecase = new GetOrderStatsUseCase(
+      repo,
+      new CurrencyService({ baseCurrency: 'USD', rates: { USD: 1 } }),
+    );
+  });
+
+  it('should count orders per status and total the revenue of delivered ones', async () => {
+    repo.totalsByStatus.mockResolvedValue([
+      { status: 'pending', orders: 2, amount: 4000 },
+      { status: 'delivered', orders: 3, amount: 15000.4 },
+      { status: 'cancelled', orders: 1, amount: 999 },
+    ]);
+
+    await expect(usecase.execute()).resolves.toEqual(
+      expect.objectContaining({
+        total: 6,
+        pending: 2,
+        processing: 0,
+        delivered: 3,
+        cancelled: 1,
+        totalRevenue: 150,
+      }),
+    );
+  });
+
+  it('should report zeros without orders', async () => {
+    repo.totalsByStatus.mockResolvedValue([]);
+
+    await expect(usecase.execute()).resolves.toEqual(
+      expect.objectContaining({ total: 0, shipped: 0, totalRevenue: 0 }),
+    );
+  });
+});
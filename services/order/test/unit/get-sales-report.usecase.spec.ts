@@ -0,0 +1,124 @@
+import { GetSalesReportUseCase } from '../../src/application/use-cases/get-sales-report.usecase';
+import { CurrencyService } from '../../src/domain/services/currency.service';
+
+describe('GetSalesReportUseCase', () => {
+  let analytics: any;
+  let usecase: GetSalesReportUseCase;
+
+  beforeEach(() => {
+    analytics = {
+      revenueByPeriod: jest.fn().mockResolvedValue([]),
+      statusCounts: jest.fn().mockResolvedValue([]),
+      topSkus: jest.fn().mockResolvedValue([]),
+    };
+    usecase = new GetSalesReportUseCase(
+      analytics,
+      new CurrencyService({ baseCurrency: 'USD', rates: { USD: 1, EUR: 0.9 } }),
+    );
+  });
+
+  describe('summary', () => {
+    it('should total revenue, average order value and cancellation rate', async () => {
+      analytics.revenueByPeriod.mockResolvedValue([
+        { periodStart: new Date('2025-01-01'), revenue: 10000.5, orders: 2 },
+        { periodStart: new Date('2025-02-01'), revenue: 5000, orders: 1 },
+      ]);
+      analytics.statusCounts.mockResolvedValue([
+        { status: 'delivered', count: 3 },
+        { status: 'cancelled', count: 1 },
+      ]);
+
+      const summary = await usecase.summary({});
+
+      expect(summary).toEqual(
+        expect.objectContaining({
+          currency: 'USD',
+          revenue: 150.01,
+          orders: 3,
+          averageOrderValue: 50,
+          cancelledOrders: 1,
+          cancellationRate: 0.25,
+        }),
+      );
+      // Every status in flow order, zero-filled
+      expect(summary.statuses.map((s) => [s.status, s.count])).toEqual([
+        ['pending', 0],
+        ['processing', 0],
+        ['paid', 0],
+        ['partially_shipped', 0],
+        ['shipped', 0],
+        ['delivered', 3],
+        ['partially_refunded', 0],
+        ['refunded', 0],
+        ['cancelled', 1],
+      ]);
+    });
+
+    it('should filter by the date range and currency', async () => {
+      const summary = await usecase.summary({
+        createdFrom: '2025-01-01',
+        createdTo: '2025-01-31',
+        currency: 'eur',
+      });
+
+      const [filter] = analytics.statusCounts.mock.calls[0];
+      expect(filter.currency).toBe('EUR');
+      expect(filter.createdFrom.toISOString()).toBe('2025-01-01T00:00:00.000Z');
+      expect(filter.createdTo.toISOString()).toBe('2025-01-31T23:59:59.999Z');
+      expect(summary).toEqual(
+        expect.objectContaining({ currency: 'EUR', revenue: 0, averageOrderValue: 0, cancellationRate: 0 }),
+      );
+    });
+  });
+
+  describe('revenue', () => {
+    it('should fill periods without orders across the requested range', async () => {
+      analytics.revenueByPeriod.mockResolvedValue([
+        { periodStart: new Date('2025-01-06'), revenue: 3000, orders: 2 },
+      ]);
+
+      const report = await usecase.revenue({
+        interval: 'week',
+        createdFrom: '2025-01-01',
+        createdTo: '2025-01-19',
+      });
+
+      expect(analytics.revenueByPeriod.mock.calls[0][1]).toBe('week');
+      expect(report.series).toEqual([
+        { period: '2024-12-30', revenue: 0, orders: 0, averageOrderValue: 0 },
+        { period: '2025-01-06', revenue: 30, orders: 2, averageOrderValue: 15 },
+        { period: '2025-01-13', revenue: 0, orders: 0, averageOrderValue: 0 },
+      ]);
+    });
+
+    it('should span the periods with orders when no range is given', async () => {
+      analytics.revenueByPeriod.mockResolvedValue([
+        { periodStart: new Date('2025-01-01'), revenue: 1000, orders: 1 },
+        { periodStart: new Date('2025-03-01'), revenue: 2000, orders: 1 },
+      ]);
+
+      const report = await usecase.revenue({ interval: 'month' });
+
+      expect(report.series.map((p) => [p.period, p.revenue])).toEqual([
+        ['2025-01-01', 10],
+        ['2025-02-01', 0],
+        ['2025-03-01', 20],
+      ]);
+    });
+  });
+
+  it('should rank SKUs by revenue by default', async () => {
+    analytics.topSkus.mockResolvedValue([
+      { sku: 'A', name: 'Mug', units: 3, revenue: 2999.9999 },
+    ]);
+
+    const report = await usecase.topSkus({ currency: 'EUR' });
+
+    expect(analytics.topSkus).toHaveBeenCalledWith(expect.objectContaining({ currency: 'EUR' }), 'revenue', 10);
+    expect(report).toEqual({
+      currency: 'EUR',
+      sortBy: 'revenue',
+      skus: [{ sku: 'A', name: 'Mug', units: 3, revenue: 30 }],
+    });
+  });
+});
@@ -0,0 +1,91 @@
+import {
+  ConflictException,
+  NotFoundException,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { EachMessagePayload } from 'kafkajs';
+import { KafkaConsumer } from '../../src/infrastructure/event-bus/kafka/kafka.consumer';
+import { KafkaConfig } from '../../src/infrastructure/event-bus/kafka/kafka.config';
+import { KafkaProducer } from '../../src/infrastructure/event-bus/kafka/kafka.producer';
+
+const kafkaConsumer = {
+  connect: jest.fn(),
+  subscribe: jest.fn(),
+  run: jest.fn(),
+};
+jest.mock('kafkajs', () => ({
+  Kafka: jest.fn(() => ({ consumer: () => kafkaConsumer })),
+}));
+
+describe('KafkaConsumer', () => {
+  let producer: { emit: jest.Mock };
+  let handler: jest.Mock;
+  let eachMessage: (payload: Partial<EachMessagePayload>) => Promise<void>;
+
+  const deliver = () =>
+    eachMessage({
+      topic: 'payment.succeeded',
+      partition: 0,
+      message: {
+        key: Buffer.from('o1'),
+        value: Buffer.from(JSON.stringify({ orderId: 'o1' })),
+        offset: '42',
+      } as EachMessagePayload['message'],
+    });
+
+  beforeEach(async () => {
+    process.env.KAFKA_BROKERS = 'localhost:9092';
+    kafkaConsumer.run.mockImplementation(
+      (config: { eachMessage: typeof eachMessage }) => {
+        eachMessage = config.eachMessage;
+      },
+    );
+    producer = { emit: jest.fn() };
+    handler = jest.fn();
+
+    const consumer = new KafkaConsumer(
+      new KafkaConfig(),
+      producer as unknown as KafkaProducer,
+    );
+    await consumer.onModuleInit();
+    await consumer.subscribe('payment.succeeded', handler);
+    await consumer.startConsuming();
+  });
+
+  it('should rethrow transient errors so the message is redelivered', async () => {
+    handler.mockRejectedValueOnce(new Error('connection reset'));
+    await expect(deliver()).rejects.toThrow('connection reset');
+
+    handler.mockRejectedValueOnce(new ConflictException('Order changed'));
+    await expect(deliver()).rejects.toBeInstanceOf(ConflictException);
+
+    handler.mockRejectedValueOnce(new ServiceUnavailableException());
+    await expect(deliver()).rejects.toBeInstanceOf(ServiceUnavailableException);
+    expect(producer.emit).not.toHaveBeenCalled();
+  });
+
+  it('should move messages that can never be handled to the dead-letter topic', async () => {
+    handler.mockRejectedValueOnce(new NotFoundException('Order o1 not found'));
+
+    await expect(deliver()).resolves.toBeUndefined();
+
+    expect(producer.emit).toHaveBeenCalledWith(
+      'payment.succeeded.dlq',
+      expect.objectContaining({
+        topic: 'payment.succeeded',
+        partition: 0,
+        offset: '42',
+        event: { orderId: 'o1' },
+        error: 'Order o1 not found',
+      }),
+      'o1',
+    );
+  });
+
+  it('should retry the message when it cannot be dead-lettered', async () => {
+    handler.mockRejectedValueOnce(new NotFoundException());
+    producer.emit.mockRejectedValueOnce(new Error('Kafka emit failed'));
+
+    await expect(deliver()).rejects.toThrow('Kafka emit failed');
+  });
+});
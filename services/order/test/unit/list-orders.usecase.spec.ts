@@ -0,0 +1,40 @@
+import { ListOrdersUseCase } from '../../src/application/use-cases/list-orders.usecase';
+import { Order } from '../../src/domain/entities/order.entity';
+import { OrderMapper } from '../../src/infrastructure/mappers/order.mapper';
+import { Money } from '../../src/domain/value-objects/order-vo';
+
+describe('ListOrdersUseCase', () => {
+  let repo: any;
+  let usecase: ListOrdersUseCase;
+
+  beforeEach(() => {
+    repo = {
+      findAll: jest.fn().mockResolvedValue([new Order('o1', 'u1', [], Money.of(10, 'USD'), Money.of(1, 'USD'), Money.of(11, 'USD'), 'USD', 'pending')]),
+      count: jest.fn().mockResolvedValue(45),
+    };
+    usecase = new ListOrdersUseCase(repo, new OrderMapper());
+  });
+
+  it('should return the { orders, pagination } envelope', async () => {
+    const result = await usecase.execute({ page: 2, limit: 20 });
+
+    expect(result.orders).toHaveLength(1);
+    expect(result.pagination).toEqual({
+      page: 2,
+      limit: 20,
+      total: 45,
+      totalPages: 3,
+      hasNextPage: true,
+      hasPrevPage: true,
+    });
+  });
+
+  it('should translate filters and default the sort to newest first', async () => {
+    await usecase.execute({ buyerId: 'u1', sku: 'SKU-1', createdTo: '2025-01-31', minTotal: 5 });
+
+    const [filter, options] = repo.findAll.mock.calls[0];
+    expect(filter).toMatchObject({ buyerId: 'u1', sku: 'SKU-1', minTotal: 5 });
+    expect(filter.createdTo.toISOString()).toBe('2025-01-31T23:59:59.999Z');
+    expect(options).toEqual({ page: 1, limit: 20, sortBy: 'createdAt', sortOrder: 'desc' });
+  });
+});
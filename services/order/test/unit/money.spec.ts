@@ -0,0 +1,23 @@
+import { Money } from '../../src/domain/value-objects/order-vo';
+
+describe('Money', () => {
+  it('should keep amounts in minor units', () => {
+    expect(Money.of(19.99).amount).toBe(1999);
+    expect(Money.of(0.1).add(Money.of(0.2)).toMajor()).toBe(0.3);
+    expect(Money.of(19.99, 'usd').multiply(3).toMajor()).toBe(59.97);
+    expect(Money.of(1500, 'JPY').amount).toBe(1500);
+    expect(Money.of(1.5, 'KWD').amount).toBe(1500);
+  });
+
+  it('should convert and round to the target minor unit', () => {
+    expect(Money.of(19.99).convert('INR', 83.3).toMajor()).toBe(1665.17);
+    expect(Money.of(19.99).convert('JPY', 151.37).amount).toBe(3026);
+    expect(Money.of(10).convert('USD', 2).toMajor()).toBe(10);
+  });
+
+  it('should refuse mixed currencies and fractional minor units', () => {
+    expect(() => Money.of(1, 'USD').add(Money.of(1, 'EUR'))).toThrow('Currency mismatch');
+    expect(() => new Money(10.5, 'USD')).toThrow();
+    expect(() => Money.of(1).subtract(Money.of(2))).toThrow('Cannot subtract 2.00 USD from 1.00 USD');
+  });
+});
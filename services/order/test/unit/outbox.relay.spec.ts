@@ -0,0 +1,71 @@
+import { ConfigService } from '@nestjs/config';
+import { OutboxRelay } from '../../src/infrastructure/events/outbox.relay';
+import { OutboxEvent } from '../../src/domain/interfaces/outbox-repository.interface';
+
+describe('OutboxRelay', () => {
+  const makeEvent = (attempts = 0): OutboxEvent => ({
+    id: 'e1',
+    topic: 'order.created',
+    key: 'o1',
+    payload: { orderId: 'o1' },
+    status: 'pending',
+    attempts,
+    nextAttemptAt: new Date(),
+    createdAt: new Date(),
+  });
+
+  let outbox: any;
+  let bus: any;
+  let relay: OutboxRelay;
+
+  beforeEach(() => {
+    outbox = {
+      claimDue: jest.fn(),
+      hasUnsentBefore: jest.fn().mockResolvedValue(false),
+      markSent: jest.fn(),
+      markFailed: jest.fn(),
+      postpone: jest.fn(),
+    };
+    bus = { emit: jest.fn() };
+    const config = new ConfigService({ order: { outbox: { maxAttempts: 3 } } });
+    relay = new OutboxRelay(outbox, bus, config);
+  });
+
+  it('should publish due events keyed by order and mark them sent', async () => {
+    outbox.claimDue.mockResolvedValue([makeEvent()]);
+
+    await expect(relay.drain()).resolves.toBe(1);
+
+    expect(bus.emit).toHaveBeenCalledWith('order.created', { orderId: 'o1' }, 'o1');
+    expect(outbox.markSent).toHaveBeenCalledWith('e1');
+  });
+
+  it('should schedule a retry when Kafka is down', async () => {
+    outbox.claimDue.mockResolvedValue([makeEvent(0)]);
+    bus.emit.mockRejectedValue(new Error('Kafka emit failed'));
+
+    await relay.drain();
+
+    expect(outbox.markFailed).toHaveBeenCalledWith('e1', 'Kafka emit failed', expect.any(Date));
+    expect(outbox.markSent).not.toHaveBeenCalled();
+  });
+
+  it('should give up after the maximum number of attempts', async () => {
+    outbox.claimDue.mockResolvedValue([makeEvent(2)]);
+    bus.emit.mockRejectedValue(new Error('Kafka emit failed'));
+
+    await relay.drain();
+
+    expect(outbox.markFailed).toHaveBeenCalledWith('e1', 'Kafka emit failed', null);
+  });
+
+  it('should wait for older unsent events of the same order', async () => {
+    outbox.claimDue.mockResolvedValue([makeEvent()]);
+    outbox.hasUnsentBefore.mockResolvedValue(true);
+
+    await relay.drain();
+
+    expect(bus.emit).not.toHaveBeenCalled();
+    expect(outbox.postpone).toHaveBeenCalledWith('e1', expect.any(Date));
+  });
+});
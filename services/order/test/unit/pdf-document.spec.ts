@@ -0,0 +1,20 @@
+import { PdfDocument } from '../../src/infrastructure/documents/pdf-document';
+
+describe('PdfDocument', () => {
+  const contentOf = (value: string) =>
+    new PdfDocument().text(0, 0, value).toBuffer();
+
+  it('should write WinAnsi-only characters as their WinAnsi bytes', () => {
+    const pdf = contentOf('Café – 12,50 €');
+
+    expect(pdf.includes(Buffer.from([0x43, 0x61, 0x66, 0xe9]))).toBe(true);
+    expect(pdf.includes(Buffer.from([0x96]))).toBe(true);
+    expect(pdf.includes(Buffer.from([0x80]))).toBe(true);
+  });
+
+  it('should drop accents WinAnsi lacks and replace other characters', () => {
+    const pdf = contentOf('Dvořák Łódź Иван (1)').toString('latin1');
+
+    expect(pdf).toContain('(Dvorák ?ódz ???? \\(1\\)) Tj');
+  });
+});
@@ -0,0 +1,42 @@
+import { BadRequestException } from '@nestjs/common';
+import { ReceiveReturnUseCase } from '../../src/application/use-cases/receive-return.usecase';
+import { ReturnItem, ReturnRequest } from '../../src/domain/entities/return-request.entity';
+import { Money } from '../../src/domain/value-objects/order-vo';
+
+describe('ReceiveReturnUseCase', () => {
+  const existing = new ReturnRequest(
+    'r1', 'o1', 'u1',
+    [new ReturnItem('A', 'Mug', Money.of(10, 'USD'), 2), new ReturnItem('B', 'Lamp', Money.of(30, 'USD'), 1)],
+    'Cracked', 'approved', Money.of(50, 'USD'), 'USD',
+  );
+
+  it('should record restockable and damaged units and mark the return received', async () => {
+    const repo: any = { findById: jest.fn().mockResolvedValue(existing) };
+    const updateReturnStatus: any = { execute: jest.fn().mockResolvedValue({ id: 'r1' }) };
+    const usecase = new ReceiveReturnUseCase(repo, updateReturnStatus);
+
+    await usecase.execute(
+      'r1',
+      { items: [{ sku: 'A', restockable: 1, damaged: 1 }, { sku: 'B', restockable: 1, damaged: 0 }], note: 'Checked' },
+      'admin',
+    );
+
+    const [, status, changedBy, note, items] = updateReturnStatus.execute.mock.calls[0];
+    expect([status, changedBy, note]).toEqual(['received', 'admin', 'Checked']);
+    expect(items).toEqual([
+      expect.objectContaining({ sku: 'A', restockedQuantity: 1, damagedQuantity: 1 }),
+      expect.objectContaining({ sku: 'B', restockedQuantity: 1, damagedQuantity: 0 }),
+    ]);
+  });
+
+  it('should reject counts that do not add up to the returned quantity', async () => {
+    const repo: any = { findById: jest.fn().mockResolvedValue(existing) };
+    const updateReturnStatus: any = { execute: jest.fn() };
+    const usecase = new ReceiveReturnUseCase(repo, updateReturnStatus);
+
+    await expect(
+      usecase.execute('r1', { items: [{ sku: 'A', restockable: 2, damaged: 1 }, { sku: 'B', restockable: 1, damaged: 0 }] }, 'admin'),
+    ).rejects.toThrow(BadRequestException);
+    expect(updateReturnStatus.execute).not.toHaveBeenCalled();
+  });
+});
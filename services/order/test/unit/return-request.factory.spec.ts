@@ -0,0 +1,60 @@
+import { ReturnRequestFactory } from '../../src/domain/factories/return-request.factory';
+import { ReturnNotAllowedError } from '../../src/domain/entities/return-request.entity';
+import { Order, OrderItem } from '../../src/domain/entities/order.entity';
+import { Money } from '../../src/domain/value-objects/order-vo';
+
+describe('ReturnRequestFactory', () => {
+  const factory = new ReturnRequestFactory();
+  const deliveredAt = new Date('2025-01-10T00:00:00Z');
+  const makeOrder = (status: Order['status'] = 'delivered') =>
+    new Order(
+      'o1', 'u1',
+      [new OrderItem('A', 'Mug', Money.of(10, 'USD'), 2), new OrderItem('B', 'Lamp', Money.of(30, 'USD'), 1)],
+      Money.of(50, 'USD'), Money.of(4.5, 'USD'), Money.of(49.5, 'USD'), 'USD', status, undefined, undefined, undefined,
+      [{ from: 'shipped', to: 'delivered', changedBy: 'admin', changedAt: deliveredAt }],
+      Money.of(5, 'USD'),
+    );
+  const input = (overrides: Partial<Parameters<ReturnRequestFactory['createFrom']>[0]> = {}) => ({
+    order: makeOrder(),
+    items: [{ sku: 'A', quantity: 1 }],
+    reason: 'Cracked',
+    alreadyReturned: {},
+    windowDays: 30,
+    now: new Date('2025-01-20T00:00:00Z'),
+    ...overrides,
+  });
+
+  it('should refund the items less their discount share plus their tax', () => {
+    const ret = factory.createFrom(input());
+
+    expect(ret.status).toBe('requested');
+    expect(ret.items).toEqual([expect.objectContaining({ sku: 'A', name: 'Mug', unitPrice: Money.of(10, 'USD'), quantity: 1 })]);
+    // 10 - 5 * 0.2 + 4.5 * 0.2
+    expect(ret.refundAmount).toEqual(Money.of(9.9, 'USD'));
+    expect(ret.statusHistory).toEqual([expect.objectContaining({ from: null, to: 'requested', changedBy: 'u1' })]);
+  });
+
+  it('should merge repeated SKUs', () => {
+    const ret = factory.createFrom(input({ items: [{ sku: 'A', quantity: 1 }, { sku: 'A', quantity: 1 }] }));
+
+    expect(ret.items).toHaveLength(1);
+    expect(ret.items[0].quantity).toBe(2);
+  });
+
+  it('should reject orders that are not delivered', () => {
+    expect(() => factory.createFrom(input({ order: makeOrder('shipped') }))).toThrow(ReturnNotAllowedError);
+  });
+
+  it('should reject requests after the return window', () => {
+    expect(() => factory.createFrom(input({ now: new Date('2025-02-10T00:00:00Z') }))).toThrow(
+      'Returns are accepted up to 30 days after delivery',
+    );
+  });
+
+  it('should not return more units than were bought, counting earlier returns', () => {
+    expect(() => factory.createFrom(input({ items: [{ sku: 'A', quantity: 2 }], alreadyReturned: { A: 1 } }))).toThrow(
+      'Only 1 unit(s) of Mug can still be returned',
+    );
+    expect(() => factory.createFrom(input({ items: [{ sku: 'C', quantity: 1 }] }))).toThrow('C is not part of this order');
+  });
+});
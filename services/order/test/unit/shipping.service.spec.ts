@@ -0,0 +1,56 @@
+import { ShippingMethodUnavailableError, ShippingService } from '../../src/domain/services/shipping.service';
+import { CurrencyService } from '../../src/domain/services/currency.service';
+import { Money } from '../../src/domain/value-objects/order-vo';
+
+describe('ShippingService', () => {
+  const shipping = new ShippingService({
+    zones: [
+      { id: 'us-remote', countries: ['USA'], states: ['HI'] },
+      { id: 'us', countries: ['USA'] },
+      { id: 'international', countries: ['*'] },
+    ],
+    methods: [
+      {
+        id: 'standard',
+        name: 'Standard',
+        estimatedDelivery: '5-7 business days',
+        rates: [
+          { zone: 'us', base: 5, perKg: 1 },
+          { zone: 'us-remote', base: 10, perKg: 2 },
+          { zone: 'international', base: 20, perKg: 4 },
+        ],
+      },
+      {
+        id: 'express',
+        name: 'Express',
+        estimatedDelivery: '1-2 business days',
+        rates: [{ zone: 'us', base: 15, perKg: 2 }],
+      },
+      { id: 'free', name: 'Free', estimatedDelivery: '7-10 business days', minSubtotal: 50, rates: [{ zone: 'us', base: 0, perKg: 0 }] },
+    ],
+    defaultItemWeightKg: 0.5,
+  }, new CurrencyService({ baseCurrency: 'USD', rates: {} }));
+
+  const address = (country: string, state: string) => ({ street: '1 Main St', city: 'X', state, zipCode: '00000', country });
+  const usd = (amount: number) => Money.of(amount, 'USD');
+  // 2 x 1kg + 2 x default 0.5kg = 3kg, subtotal 40
+  const lines = [
+    { unitPrice: usd(10), quantity: 2, weight: 1 },
+    { unitPrice: usd(10), quantity: 2 },
+  ];
+
+  it('should price each method by zone and weight, cheapest first', () => {
+    expect(shipping.options(lines, address('USA', 'NY'))).toEqual([
+      expect.objectContaining({ method: 'standard', cost: usd(8) }),
+      expect.objectContaining({ method: 'express', cost: usd(21) }),
+    ]);
+    expect(shipping.options(lines, address('usa', 'hi'))).toEqual([expect.objectContaining({ method: 'standard', cost: usd(16) })]);
+    expect(shipping.options(lines, address('India', 'KA'))).toEqual([expect.objectContaining({ method: 'standard', cost: usd(32) })]);
+  });
+
+  it('should offer free shipping over the threshold', () => {
+    const bigCart = [{ unitPrice: usd(60), quantity: 1, weight: 1 }];
+    expect(shipping.quote('free', bigCart, address('USA', 'NY')).cost).toEqual(usd(0));
+    expect(() => shipping.quote('free', lines, address('USA', 'NY'))).toThrow(ShippingMethodUnavailableError);
+  });
+});
@@ -0,0 +1,64 @@
+import { TaxService } from '../../src/domain/services/tax.service';
+import { Money } from '../../src/domain/value-objects/order-vo';
+
+describe('TaxService', () => {
+  const taxes = new TaxService({
+    defaultRate: 0.1,
+    rules: [
+      { country: 'USA', rate: 0.05 },
+      { country: 'USA', state: 'CA', rate: 0.0725, categoryRates: { groceries: 0 } },
+      { country: 'USA', state: 'CA', zipPrefix: '900', rate: 0.095 },
+    ],
+    exemptBuyers: ['charity-1'],
+  });
+
+  const address = (state: string, zipCode: string) => ({
+    street: '1 Main St',
+    city: 'Somewhere',
+    state,
+    zipCode,
+    country: 'usa',
+  });
+  const usd = (amount: number) => Money.of(amount, 'USD');
+  const lines = [
+    { sku: 'SHIRT', category: 'clothing', unitPrice: usd(100), quantity: 1 },
+    { sku: 'BREAD', category: 'groceries', unitPrice: usd(10), quantity: 5 },
+  ];
+
+  it('should use the most specific matching rule', () => {
+    expect(taxes.calculate({ currency: 'USD', buyerId: 'u1', lines, shippingAddress: address('TX', '73301') })).toMatchObject({
+      tax: usd(7.5),
+      jurisdiction: 'USA',
+    });
+    expect(taxes.calculate({ currency: 'USD', buyerId: 'u1', lines, shippingAddress: address('CA', '94105') })).toMatchObject({
+      tax: usd(7.25),
+      jurisdiction: 'USA/CA',
+    });
+    expect(taxes.calculate({ currency: 'USD', buyerId: 'u1', lines, shippingAddress: address('CA', '90012') })).toMatchObject({
+      tax: usd(14.25),
+      jurisdiction: 'USA/CA/900',
+    });
+  });
+
+  it('should break the tax down by rate', () => {
+    expect(taxes.calculate({ currency: 'USD', buyerId: 'u1', lines, shippingAddress: address('CA', '94105') }).breakdown).toEqual([
+      { rate: 0.0725, taxableAmount: usd(100), tax: usd(7.25) },
+      { rate: 0, taxableAmount: usd(50), tax: usd(0) },
+    ]);
+  });
+
+  it('should fall back to the default rate without a matching address', () => {
+    expect(taxes.calculate({ currency: 'USD', buyerId: 'u1', lines })).toMatchObject({ tax: usd(15), jurisdiction: 'default' });
+  });
+
+  it('should tax the discounted amount', () => {
+    expect(taxes.calculate({ currency: 'USD', buyerId: 'u1', lines, discount: usd(30) })).toMatchObject({ taxableAmount: usd(120), tax: usd(12) });
+  });
+
+  it('should not tax exempt buyers', () => {
+    expect(taxes.calculate({ currency: 'USD', buyerId: 'charity-1', lines, shippingAddress: address('CA', '90012') })).toMatchObject({
+      tax: usd(0),
+      exempt: true,
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import { ConflictException, NotFoundException } from '@nestjs/common';
+import { UpdateOrderStatusUseCase } from '../../src/application/use-cases/update-order-status.usecase';
+import { Order } from '../../src/domain/entities/order.entity';
+import { Shipment } from '../../src/domain/entities/shipment.entity';
+import { OrderMapper } from '../../src/infrastructure/mappers/order.mapper';
+import { OrderProducer } from '../../src/infrastructure/events/order.producer';
+import { Money } from '../../src/domain/value-objects/order-vo';
+
+describe('UpdateOrderStatusUseCase', () => {
+  const makeOrder = (status: Order['status']) =>
+    new Order('o1', 'u1', [], Money.of(10, 'USD'), Money.of(1, 'USD'), Money.of(11, 'USD'), 'USD', status);
+
+  let repo: any;
+  let usecase: UpdateOrderStatusUseCase;
+
+  // Stands in for the transaction: builds the outbox events for the updated order
+  const transitionTo = (order: Order | null) =>
+    jest.fn(async (_id, _from, _entry, events) => {
+      if (order) repo.outbox = events(order);
+      return order;
+    });
+
+  beforeEach(() => {
+    repo = { findById: jest.fn(), transitionStatus: jest.fn(), outbox: [] };
+    usecase = new UpdateOrderStatusUseCase(repo, new OrderMapper(), new OrderProducer());
+  });
+
+  it('should record the transition in the status history', async () => {
+    repo.findById.mockResolvedValue(makeOrder('paid'));
+    repo.transitionStatus = transitionTo(makeOrder('shipped'));
+
+    await usecase.execute('o1', 'shipped', 'admin-1', 'Handed to carrier');
+
+    expect(repo.transitionStatus).toHaveBeenCalledWith(
+      'o1',
+      'paid',
+      expect.objectContaining({ from: 'paid', to: 'shipped', changedBy: 'admin-1', reason: 'Handed to carrier' }),
+      expect.any(Function),
+    );
+  });
+
+  it('should record the status event in the outbox with the change', async () => {
+    repo.findById.mockResolvedValue(makeOrder('pending'));
+    repo.transitionStatus = transitionTo(makeOrder('cancelled'));
+
+    await usecase.execute('o1', 'cancelled');
+
+    expect(repo.outbox).toEqual([
+      expect.objectContaining({ topic: 'order.cancelled', key: 'o1' }),
+    ]);
+  });
+
+  it('should reject transitions that are not in the table', async () => {
+    repo.findById.mockResolvedValue(makeOrder('delivered'));
+
+    await expect(usecase.execute('o1', 'pending')).rejects.toBeInstanceOf(ConflictException);
+    expect(repo.transitionStatus).not.toHaveBeenCalled();
+  });
+
+  it('should reject when the order changed concurrently', async () => {
+    repo.findById.mockResolvedValue(makeOrder('pending'));
+    repo.transitionStatus.mockResolvedValue(null);
+
+    await expect(usecase.execute('o1', 'cancelled')).rejects.toBeInstanceOf(ConflictException);
+  });
+
+  it('should throw NotFoundException for unknown orders', async () => {
+    repo.findById.mockResolvedValue(null);
+
+    await expect(usecase.execute('missing', 'paid')).rejects.toBeInstanceOf(NotFoundException);
+  });
+
+  it('should leave fulfillment statuses to shipments once an order has any', async () => {
+    const order = makeOrder('partially_shipped');
+    order.shipments = [new Shipment('s1', [], 'UPS', '1Z1')];
+    repo.findById.mockResolvedValue(order);
+
+    await expect(usecase.execute('o1', 'shipped')).rejects.toThrow(ConflictException);
+    expect(repo.transitionStatus).not.toHaveBeenCalled();
+  });
+
+  it('should leave refund statuses to the payment service', async () => {
+    repo.findById.mockResolvedValue(makeOrder('paid'));
+
+    await expect(usecase.execute('o1', 'refunded')).rejects.toThrow(ConflictException);
+    expect(repo.transitionStatus).not.toHaveBeenCalled();
+  });
+});
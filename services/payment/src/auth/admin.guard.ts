@@ -0,0 +1,28 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+import { Request } from 'express';
+import { AuthenticatedUser } from './session-auth.guard';
+
+/**
+ * Admin Guard
+ *
+ * Allows only users with the `admin` role. Use after SessionAuthGuard,
+ * which attaches the user to the request.
+ */
+@Injectable()
+export class AdminGuard implements CanActivate {
+  canActivate(context: ExecutionContext): boolean {
+    const { user } = context
+      .switchToHttp()
+      .getRequest<Request & { user?: AuthenticatedUser }>();
+
+    if (!user?.roles.includes('admin')) {
+      throw new ForbiddenException('Admin access required');
+    }
+    return true;
+  }
+}
@@ -0,0 +1,18 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import { AuthenticatedUser } from './session-auth.guard';
+
+/**
+ * Decorator to extract current user from request
+ *
+ * Use after SessionAuthGuard to get the authenticated user
+ */
+export const CurrentUser = createParamDecorator(
+  (data: keyof AuthenticatedUser | undefined, ctx: ExecutionContext) => {
+    const request = ctx
+      .switchToHttp()
+      .getRequest<{ user?: AuthenticatedUser }>();
+    const user = request.user;
+
+    return data ? user?.[data] : user;
+  },
+);
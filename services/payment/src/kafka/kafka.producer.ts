@@ -0,0 +1,46 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Kafka, Producer } from 'kafkajs';
+
+@Injectable()
+export class KafkaProducer implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(KafkaProducer.name);
+  private producer: Producer;
+
+  constructor(private readonly config: ConfigService) {}
+
+  async onModuleInit(): Promise<void> {
+    const brokers = this.config.get<string>('KAFKA_BROKERS');
+    if (!brokers) {
+      throw new Error('❌ KAFKA_BROKERS missing in .env');
+    }
+
+    const kafka = new Kafka({
+      clientId: this.config.get<string>('KAFKA_CLIENT_ID') || 'payment-service',
+      brokers: brokers.split(',').map((b) => b.trim()),
+      retry: { initialRetryTime: 300, retries: 5 },
+    });
+
+    this.producer = kafka.producer();
+    await this.producer.connect();
+    this.logger.log('✅ Kafka Producer connected');
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    await this.producer?.disconnect();
+  }
+
+  async emit(topic: string, key: string, payload: object): Promise<void> {
+    await this.producer.send({
+      topic,
+      // Keyed by order so an order's payment events stay in order
+      messages: [{ key, value: JSON.stringify(payload) }],
+    });
+    this.logger.debug(`📤 Emitted ${topic}`);
+  }
+}
@@ -0,0 +1,176 @@
+import { Payment, RefundNotAllowedError } from './payment.entity';
+
+describe('Payment', () => {
+  const makePayment = () => {
+    const payment = Payment.create({
+      orderId: 'o1',
+      userId: 'u1',
+      provider: 'fake',
+      currency: 'usd',
+      amount: 3000,
+      sessionId: 'cs_1',
+      items: [
+        { sku: 'SKU-1', name: 'Mug', unitAmount: 1000, quantity: 2 },
+        { sku: 'SKU-2', name: 'Cap', unitAmount: 1000, quantity: 1 },
+      ],
+    });
+    return Object.assign(payment, { id: 'p1' });
+  };
+
+  const captured = () => {
+    const payment = makePayment();
+    payment.capturedAmount = 3000;
+    payment.transition('captured', { amount: 3000 });
+    return payment;
+  };
+
+  describe('transition', () => {
+    it('should record the change in the ledger', () => {
+      const payment = makePayment();
+
+      const entry = payment.transition('captured', { reference: 'pi_1' });
+
+      expect(payment.status).toBe('captured');
+      expect(entry).toEqual(
+        expect.objectContaining({
+          type: 'status_changed',
+          from: 'created',
+          to: 'captured',
+          reference: 'pi_1',
+        }),
+      );
+      expect(payment.ledger).toHaveLength(2);
+    });
+
+    it('should let a failed attempt be followed by a successful one', () => {
+      const payment = makePayment();
+      payment.transition('failed');
+
+      expect(payment.canTransitionTo('captured')).toBe(true);
+    });
+
+    it('should not let a captured payment fail', () => {
+      const payment = captured();
+
+      expect(payment.canTransitionTo('failed')).toBe(false);
+      expect(() => payment.transition('failed')).toThrow(
+        "Payment p1 cannot go from 'captured' to 'failed'",
+      );
+      expect(payment.status).toBe('captured');
+    });
+
+    it('should not leave refunded', () => {
+      const payment = captured();
+      payment.completeRefund(
+        payment.requestRefund({ amount: 3000, reason: 'r', createdBy: 'a' }).id,
+        're_1',
+      );
+
+      expect(payment.status).toBe('refunded');
+      expect(payment.canTransitionTo('partially_refunded')).toBe(false);
+    });
+  });
+
+  describe('requestRefund', () => {
+    it('should price items at what was paid for them', () => {
+      const payment = captured();
+
+      const refund = payment.requestRefund({
+        items: [{ sku: 'SKU-1', quantity: 2 }],
+        reason: 'Damaged',
+        createdBy: 'admin1',
+      });
+
+      expect(refund).toEqual(
+        expect.objectContaining({ amount: 2000, status: 'pending' }),
+      );
+      expect(payment.refundableAmount()).toBe(1000);
+    });
+
+    it('should count pending refunds against the refundable amount', () => {
+      const payment = captured();
+      payment.requestRefund({ amount: 2500, reason: 'r', createdBy: 'a' });
+
+      expect(() =>
+        payment.requestRefund({ amount: 1000, reason: 'r', createdBy: 'a' }),
+      ).toThrow(RefundNotAllowedError);
+    });
+
+    it('should make a failed refund refundable again', () => {
+      const payment = captured();
+      const refund = payment.requestRefund({
+        items: [{ sku: 'SKU-2', quantity: 1 }],
+        reason: 'r',
+        createdBy: 'a',
+      });
+      payment.failRefund(refund.id, 'declined');
+
+      expect(payment.refundableAmount()).toBe(3000);
+      expect(payment.refundableQuantity('SKU-2')).toBe(1);
+    });
+
+    it('should reject more units than were bought or are left', () => {
+      const payment = captured();
+      payment.requestRefund({
+        items: [{ sku: 'SKU-1', quantity: 1 }],
+        reason: 'r',
+        createdBy: 'a',
+      });
+
+      expect(() =>
+        payment.requestRefund({
+          items: [{ sku: 'SKU-1', quantity: 2 }],
+          reason: 'r',
+          createdBy: 'a',
+        }),
+      ).toThrow('Only 1 unit(s) of SKU-1 can still be refunded');
+    });
+
+    it('should reject unknown SKUs and non-whole quantities', () => {
+      const payment = captured();
+
+      expect(() =>
+        payment.requestRefund({
+          items: [{ sku: 'SKU-9', quantity: 1 }],
+          reason: 'r',
+          createdBy: 'a',
+        }),
+      ).toThrow(RefundNotAllowedError);
+      expect(() =>
+        payment.requestRefund({
+          items: [{ sku: 'SKU-1', quantity: 0.5 }],
+          reason: 'r',
+          createdBy: 'a',
+        }),
+      ).toThrow(RefundNotAllowedError);
+    });
+
+    it('should reject a refund before anything was captured', () => {
+      const payment = makePayment();
+
+      expect(() =>
+        payment.requestRefund({ amount: 100, reason: 'r', createdBy: 'a' }),
+      ).toThrow(RefundNotAllowedError);
+    });
+  });
+
+  describe('completeRefund', () => {
+    it('should move to partially_refunded, then refunded once all is back', () => {
+      const payment = captured();
+
+      payment.completeRefund(
+        payment.requestRefund({ amount: 1000, reason: 'r', createdBy: 'a' }).id,
+        're_1',
+      );
+      expect(payment.status).toBe('partially_refunded');
+      expect(payment.refundedAmount).toBe(1000);
+
+      payment.completeRefund(
+        payment.requestRefund({ amount: 2000, reason: 'r', createdBy: 'a' }).id,
+        're_2',
+      );
+      expect(payment.status).toBe('refunded');
+      expect(payment.refundableAmount()).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,331 @@
+import { randomUUID } from 'crypto';
+import { PaymentEvent } from '../providers/payment-provider';
+
+export const PAYMENT_STATUSES = [
+  'created',
+  'authorized',
+  'captured',
+  'partially_refunded',
+  'refunded',
+  'failed',
+] as const;
+export type PaymentStatus = (typeof PAYMENT_STATUSES)[number];
+
+/**
+ * Allowed status changes. A failed attempt can still be followed by a
+ * successful one in the same checkout session.
+ */
+export const PAYMENT_STATUS_TRANSITIONS: Record<
+  PaymentStatus,
+  PaymentStatus[]
+> = {
+  created: ['authorized', 'captured', 'failed'],
+  authorized: ['captured', 'failed'],
+  captured: ['partially_refunded', 'refunded'],
+  partially_refunded: ['partially_refunded', 'refunded'],
+  refunded: [],
+  failed: ['authorized', 'captured'],
+};
+
+/**
+ * One line of a payment's ledger: a status change or a webhook received.
+ * Entries are only ever appended.
+ */
+export interface LedgerEntry {
+  type: 'status_changed' | 'webhook';
+  at: Date;
+  from?: PaymentStatus;
+  to?: PaymentStatus;
+  /** Minor units moved by the change (captured or refunded) */
+  amount?: number;
+  /** Provider ID of what caused the entry (payment, refund, event) */
+  reference?: string;
+  /** Provider event type, for webhooks */
+  providerType?: string;
+  reason?: string;
+}
+
+/** A line of the checkout, as charged */
+export interface PaymentLine {
+  sku?: string;
+  name: string;
+  /** Minor units */
+  unitAmount: number;
+  quantity: number;
+}
+
+export type RefundStatus = 'pending' | 'succeeded' | 'failed';
+
+/**
+ * A refund issued on the payment. Pending refunds count against what can
+ * still be refunded, so two refunds never exceed the captured amount.
+ */
+export interface Refund {
+  id: string;
+  /** Minor units */
+  amount: number;
+  reason: string;
+  /** Lines refunded, when the refund was for items */
+  items?: { sku: string; quantity: number }[];
+  status: RefundStatus;
+  /** The provider's refund ID, once it succeeded */
+  providerRefundId?: string;
+  failureReason?: string;
+  /** Admin who issued it */
+  createdBy: string;
+  createdAt: Date;
+  updatedAt?: Date;
+}
+
+/** Thrown when a refund asks for more than can be refunded */
+export class RefundNotAllowedError extends Error {}
+
+/**
+ * ✅ Payment Aggregate
+ *
+ * One checkout of an order with a payment provider: how much was asked,
+ * captured and refunded (all in minor units of `currency`), the provider
+ * IDs, and the ledger of everything that happened to it.
+ */
+export class Payment {
+  constructor(
+    public readonly id: string,
+    public readonly orderId: string,
+    public readonly userId: string | undefined,
+    public readonly provider: string,
+    public readonly currency: string,
+    /** Amount of the checkout, in minor units */
+    public readonly amount: number,
+    public status: PaymentStatus = 'created',
+    public capturedAmount = 0,
+    public refundedAmount = 0,
+    public sessionId?: string,
+    public paymentId?: string,
+    public ledger: LedgerEntry[] = [],
+    /** Optimistic concurrency version, bumped on every save */
+    public version = 0,
+    public readonly createdAt?: Date,
+    public updatedAt?: Date,
+    public items: PaymentLine[] = [],
+    public refunds: Refund[] = [],
+  ) {}
+
+  /**
+   * A new payment for a checkout session; it gets its ID when saved
+   */
+  static create(
+    props: {
+      orderId: string;
+      userId?: string;
+      provider: string;
+      currency: string;
+      amount: number;
+      sessionId: string;
+      items?: PaymentLine[];
+    },
+    at = new Date(),
+  ): Payment {
+    const payment = new Payment(
+      '',
+      props.orderId,
+      props.userId,
+      props.provider,
+      props.currency.toUpperCase(),
+      props.amount,
+    );
+    payment.sessionId = props.sessionId;
+    payment.items = props.items ?? [];
+    payment.append({
+      type: 'status_changed',
+      at,
+      to: 'created',
+      amount: props.amount,
+      reference: props.sessionId,
+    });
+    return payment;
+  }
+
+  canTransitionTo(status: PaymentStatus): boolean {
+    return PAYMENT_STATUS_TRANSITIONS[this.status].includes(status);
+  }
+
+  /**
+   * Change the status and append the ledger entry for it
+   *
+   * @throws Error if the transition is not allowed
+   */
+  transition(
+    to: PaymentStatus,
+    detail: Pick<LedgerEntry, 'amount' | 'reference' | 'reason'> = {},
+    at = new Date(),
+  ): LedgerEntry {
+    if (!this.canTransitionTo(to)) {
+      throw new Error(
+        `Payment ${this.id} cannot go from '${this.status}' to '${to}'`,
+      );
+    }
+    return this.append(
+      { type: 'status_changed', at, from: this.status, to, ...detail },
+      to,
+    );
+  }
+
+  /**
+   * Minor units that can still be refunded: captured, less refunds that
+   * succeeded or are pending
+   */
+  refundableAmount(): number {
+    const pending = this.refunds
+      .filter((r) => r.status === 'pending')
+      .reduce((sum, r) => sum + r.amount, 0);
+    return this.capturedAmount - this.refundedAmount - pending;
+  }
+
+  /**
+   * Units of `sku` not refunded yet (nor in a pending refund)
+   */
+  refundableQuantity(sku: string): number {
+    const bought = this.items
+      .filter((line) => line.sku === sku)
+      .reduce((sum, line) => sum + line.quantity, 0);
+    const refunded = this.refunds
+      .filter((r) => r.status !== 'failed')
+      .flatMap((r) => r.items ?? [])
+      .filter((item) => item.sku === sku)
+      .reduce((sum, item) => sum + item.quantity, 0);
+    return bought - refunded;
+  }
+
+  /**
+   * Open a pending refund of `amount`, or of `items` at the price paid
+   *
+   * @throws RefundNotAllowedError if it exceeds what can be refunded
+   */
+  requestRefund(
+    request: {
+      amount?: number;
+      items?: { sku: string; quantity: number }[];
+      reason: string;
+      createdBy: string;
+    },
+    at = new Date(),
+  ): Refund {
+    let amount = request.amount ?? 0;
+    const requested = new Map<string, number>();
+    for (const item of request.items ?? []) {
+      const line = this.items.find((l) => l.sku === item.sku);
+      if (!line) {
+        throw new RefundNotAllowedError(
+          `SKU ${item.sku} is not part of payment ${this.id}`,
+        );
+      }
+      if (!Number.isInteger(item.quantity) || item.quantity <= 0) {
+        throw new RefundNotAllowedError(
+          `Quantity of ${item.sku} must be a positive whole number`,
+        );
+      }
+      const quantity = (requested.get(item.sku) ?? 0) + item.quantity;
+      requested.set(item.sku, quantity);
+      const refundable = this.refundableQuantity(item.sku);
+      if (quantity > refundable) {
+        throw new RefundNotAllowedError(
+          `Only ${refundable} unit(s) of ${item.sku} can still be refunded`,
+        );
+      }
+      amount += line.unitAmount * item.quantity;
+    }
+
+    if (!Number.isInteger(amount) || amount <= 0) {
+      throw new RefundNotAllowedError('Refund amount must be positive');
+    }
+    if (amount > this.refundableAmount()) {
+      throw new RefundNotAllowedError(
+        `Refund of ${amount} exceeds the ${this.refundableAmount()} still refundable on payment ${this.id}`,
+      );
+    }
+
+    const refund: Refund = {
+      id: randomUUID(),
+      amount,
+      reason: request.reason,
+      items: request.items,
+      status: 'pending',
+      createdBy: request.createdBy,
+      createdAt: at,
+    };
+    this.refunds.push(refund);
+    return refund;
+  }
+
+  /**
+   * The provider refunded a pending refund: count it and move the payment
+   * to partially_refunded or refunded
+   */
+  completeRefund(
+    refundId: string,
+    providerRefundId: string,
+    at = new Date(),
+  ): LedgerEntry {
+    const refund = this.pendingRefund(refundId);
+    refund.status = 'succeeded';
+    refund.providerRefundId = providerRefundId;
+    refund.updatedAt = at;
+
+    const entry = this.transition(
+      this.refundedAmount + refund.amount >= this.capturedAmount
+        ? 'refunded'
+        : 'partially_refunded',
+      {
+        amount: refund.amount,
+        reference: providerRefundId,
+        reason: refund.reason,
+      },
+      at,
+    );
+    this.refundedAmount += refund.amount;
+    return entry;
+  }
+
+  /** The provider rejected a pending refund; its amount is refundable again */
+  failRefund(refundId: string, reason: string, at = new Date()): Refund {
+    const refund = this.pendingRefund(refundId);
+    refund.status = 'failed';
+    refund.failureReason = reason;
+    refund.updatedAt = at;
+    return refund;
+  }
+
+  /** Whether the provider event is in the ledger already */
+  hasWebhook(eventId: string): boolean {
+    return this.ledger.some(
+      (entry) => entry.type === 'webhook' && entry.reference === eventId,
+    );
+  }
+
+  recordWebhook(event: PaymentEvent, at = new Date()): LedgerEntry {
+    return this.append({
+      type: 'webhook',
+      at,
+      providerType: event.providerType,
+      reference: event.id,
+      amount: event.amount,
+      reason: event.reason,
+    });
+  }
+
+  private pendingRefund(refundId: string): Refund {
+    const refund = this.refunds.find(
+      (r) => r.id === refundId && r.status === 'pending',
+    );
+    if (!refund) {
+      throw new Error(`No pending refund ${refundId} on payment ${this.id}`);
+    }
+    return refund;
+  }
+
+  private append(entry: LedgerEntry, status?: PaymentStatus): LedgerEntry {
+    if (status) this.status = status;
+    this.ledger.push(entry);
+    return entry;
+  }
+}
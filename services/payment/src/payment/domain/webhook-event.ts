@@ -0,0 +1,48 @@
+import { PaymentEvent } from '../providers/payment-provider';
+
+/**
+ * processing while a delivery is being handled, processed once it was,
+ * failed when handling threw (the provider then delivers it again)
+ */
+export const WEBHOOK_EVENT_STATUSES = [
+  'processing',
+  'processed',
+  'failed',
+] as const;
+export type WebhookEventStatus = (typeof WEBHOOK_EVENT_STATUSES)[number];
+
+/**
+ * What the event did, resolved against the payment's state at the time:
+ * - applied: the payment is in the state the event reports, and the
+ *   outcome was published
+ * - stale: the payment had moved on (e.g. a failure arriving after a
+ *   success), nothing was published
+ * - unmatched: no payment has the event's session or payment ID
+ * - ignored: an event type that does not affect payments
+ */
+export type WebhookOutcome = 'applied' | 'stale' | 'unmatched' | 'ignored';
+
+/**
+ * A webhook event received from the payment provider, stored once per
+ * provider event ID so redeliveries are recognised
+ */
+export interface WebhookEventRecord {
+  provider: string;
+  /** The provider's event ID */
+  eventId: string;
+  /** The verified event, kept so it can be processed again */
+  event: PaymentEvent;
+  status: WebhookEventStatus;
+  outcome?: WebhookOutcome;
+  /** Why the last attempt failed */
+  error?: string;
+  /** Times the provider delivered the event */
+  deliveries: number;
+  /** Times the event was processed, including re-processing by admins */
+  attempts: number;
+  /** When the current attempt started, to take over attempts that died */
+  lockedAt?: Date;
+  processedAt?: Date;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
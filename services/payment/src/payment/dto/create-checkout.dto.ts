@@ -1,11 +1,6 @@
+/** What is charged comes from the order, not from the request */
 export class CreateCheckoutDto {
   orderId: string;
-  userId: string;
-  items: {
-    name: string;
-    price: number;
-    quantity: number;
-  }[];
   successUrl: string;
   cancelUrl: string;
 }
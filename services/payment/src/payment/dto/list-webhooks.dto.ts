@@ -0,0 +1,7 @@
+export class ListWebhooksDto {
+  /** processing, processed or failed */
+  status?: string;
+  orderId?: string;
+  page?: string;
+  limit?: string;
+}
@@ -0,0 +1,7 @@
+export class RefundOrderDto {
+  /** Decimal amount in the payment currency; or give `items` */
+  amount?: number;
+  /** Lines to refund at the price paid; or give `amount` */
+  items?: { sku: string; quantity: number }[];
+  reason: string;
+}
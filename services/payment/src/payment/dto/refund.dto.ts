@@ -1,3 +0,0 @@
-export class RefundDto {
-  paymentIntent: string;
-}
@@ -0,0 +1,85 @@
+import {
+  BadRequestException,
+  Controller,
+  Get,
+  Header,
+  Inject,
+  NotFoundException,
+  Param,
+  Post,
+  Query,
+  Res,
+} from '@nestjs/common';
+import {
+  PAYMENT_PROVIDER,
+  PaymentProvider,
+} from './providers/payment-provider';
+import {
+  FAKE_CHECKOUT_OUTCOMES,
+  FakeCheckoutOutcome,
+  FakePaymentProvider,
+} from './providers/fake-payment.provider';
+
+const HTML_ENTITIES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, (c) => HTML_ENTITIES[c]);
+
+/**
+ * The fake provider's hosted checkout page. Only served when
+ * PAYMENT_PROVIDER=fake; CI can skip the page and POST the outcome directly.
+ */
+@Controller('payment/fake/checkout')
+export class FakeCheckoutController {
+  constructor(
+    @Inject(PAYMENT_PROVIDER) private readonly provider: PaymentProvider,
+  ) {}
+
+  @Get(':id')
+  @Header('Content-Type', 'text/html; charset=utf-8')
+  show(@Param('id') id: string) {
+    const session = this.fake().getSession(id);
+    const action = `/payment/fake/checkout/${encodeURIComponent(id)}`;
+
+    return `<!doctype html>
+<html>
+  <head><title>Fake checkout</title></head>
+  <body>
+    <h1>Fake checkout</h1>
+    <p>Order ${escapeHtml(session.orderId)}: ${session.amount} (minor units, ${escapeHtml(session.currency.toUpperCase())})</p>
+    <p>Status: ${session.status}</p>
+    <form method="post" action="${action}?outcome=succeeded"><button>Pay</button></form>
+    <form method="post" action="${action}?outcome=failed"><button>Fail payment</button></form>
+    <form method="post" action="${action}?outcome=expired"><button>Let it expire</button></form>
+  </body>
+</html>`;
+  }
+
+  @Post(':id')
+  async complete(
+    @Param('id') id: string,
+    @Query('outcome') outcome: FakeCheckoutOutcome,
+    @Res() res,
+  ) {
+    if (!FAKE_CHECKOUT_OUTCOMES.includes(outcome)) {
+      throw new BadRequestException(
+        `outcome must be one of: ${FAKE_CHECKOUT_OUTCOMES.join(', ')}`,
+      );
+    }
+    const redirectUrl = await this.fake().complete(id, outcome);
+    res.redirect(303, redirectUrl);
+  }
+
+  private fake(): FakePaymentProvider {
+    if (!(this.provider instanceof FakePaymentProvider)) {
+      throw new NotFoundException();
+    }
+    return this.provider;
+  }
+}
@@ -0,0 +1,31 @@
+/**
+ * Digits after the decimal point, per ISO 4217 as the runtime knows it
+ * (JPY 0, BHD 3...), the same source the order service prices with.
+ * Unknown codes use 2.
+ */
+function minorUnitDigits(currency: string): number {
+  try {
+    return (
+      new Intl.NumberFormat('en', {
+        style: 'currency',
+        currency,
+      }).resolvedOptions().maximumFractionDigits ?? 2
+    );
+  } catch {
+    return 2;
+  }
+}
+
+/**
+ * Decimal amount (19.99) to the integer minor units Stripe expects (1999).
+ */
+export function toMinorUnits(amount: number, currency: string): number {
+  return Math.round(amount * 10 ** minorUnitDigits(currency));
+}
+
+/**
+ * Integer minor units (1999) back to the decimal amount (19.99).
+ */
+export function fromMinorUnits(amount: number, currency: string): number {
+  return amount / 10 ** minorUnitDigits(currency);
+}
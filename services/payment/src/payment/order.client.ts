@@ -0,0 +1,69 @@
+import {
+  Injectable,
+  Logger,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+/**
+ * The parts of an order a checkout is built from, as the order service
+ * returns it
+ */
+export interface OrderSummary {
+  id: string;
+  buyerId: string;
+  status: string;
+  /** Decimal amount in `currency`, with tax, shipping and discount */
+  total: number;
+  currency: string;
+  items: { sku: string; name: string; unitPrice: number; quantity: number }[];
+}
+
+/**
+ * ✅ Order HTTP Client
+ *
+ * Reads orders from the order service (GET /order/orders/:id), so what a
+ * checkout charges comes from the order and not from the buyer.
+ */
+@Injectable()
+export class OrderClient {
+  private readonly logger = new Logger(OrderClient.name);
+  private readonly baseUrl: string;
+  private readonly timeoutMs: number;
+
+  constructor(config: ConfigService) {
+    this.baseUrl =
+      config.get<string>('ORDER_SERVICE_URL') || 'http://localhost:5003';
+    this.timeoutMs =
+      Number(config.get<string>('ORDER_SERVICE_TIMEOUT_MS')) || 5000;
+  }
+
+  /**
+   * @throws ServiceUnavailableException if the order service cannot answer
+   */
+  async findById(orderId: string): Promise<OrderSummary | null> {
+    const url = `${this.baseUrl}/order/orders/${encodeURIComponent(orderId)}`;
+
+    let res: Response;
+    try {
+      res = await fetch(url, { signal: AbortSignal.timeout(this.timeoutMs) });
+    } catch (error) {
+      const message = (error as Error).message;
+      this.logger.error(
+        `❌ Order service unreachable for order ${orderId}: ${message}`,
+      );
+      throw new ServiceUnavailableException('Order service unavailable');
+    }
+
+    if (res.status === 404) return null;
+
+    if (!res.ok) {
+      this.logger.error(
+        `❌ Order service returned ${res.status} for order ${orderId}`,
+      );
+      throw new ServiceUnavailableException('Order service unavailable');
+    }
+
+    return (await res.json()) as OrderSummary;
+  }
+}
@@ -1,65 +1,138 @@
 import {
   Controller,
+  ConflictException,
+  Get,
+  Logger,
   Post,
   Body,
+  Param,
+  Query,
   Req,
   Res,
+  UseGuards,
 } from '@nestjs/common';
 import { PaymentService } from './payment.service';
-import { ConfigService } from '@nestjs/config';
-import Stripe from 'stripe';
+import { PaymentMapper } from './payment.mapper';
+import {
+  AuthenticatedUser,
+  SessionAuthGuard,
+} from '../auth/session-auth.guard';
+import { AdminGuard } from '../auth/admin.guard';
+import { CurrentUser } from '../auth/current-user.decorator';
+import { PaymentEvent } from './providers/payment-provider';
 import { CreateCheckoutDto } from './dto/create-checkout.dto';
-import { RefundDto } from './dto/refund.dto';
+import { RefundOrderDto } from './dto/refund-order.dto';
+import { CaptureDto } from './dto/capture.dto';
+import { ListWebhooksDto } from './dto/list-webhooks.dto';
 
 @Controller('payment')
 export class PaymentController {
+  private readonly logger = new Logger(PaymentController.name);
+
   constructor(
     private paymentService: PaymentService,
-    private config: ConfigService,
+    private mapper: PaymentMapper,
   ) {}
 
+  // ✅ Checkout for the signed-in buyer's order
   @Post('create-checkout')
-  async createCheckout(@Body() dto: CreateCheckoutDto) {
-    const session = await this.paymentService.createCheckoutSession(dto);
+  @UseGuards(SessionAuthGuard)
+  async createCheckout(
+    @Body() dto: CreateCheckoutDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const session = await this.paymentService.createCheckoutSession(
+      dto,
+      user.userId,
+    );
     return { id: session.id, url: session.url };
   }
 
-  @Post('refund')
-  async refund(@Body() dto: RefundDto) {
-    return await this.paymentService.refund(dto.paymentIntent);
+  // ✅ Capture an authorized payment (admin)
+  @Post('capture')
+  @UseGuards(SessionAuthGuard, AdminGuard)
+  async capture(@Body() dto: CaptureDto) {
+    return await this.paymentService.capture(dto.paymentId);
+  }
+
+  // ✅ Refund part or all of an order's payment (admin)
+  @Post('orders/:orderId/refunds')
+  @UseGuards(SessionAuthGuard, AdminGuard)
+  async refundOrder(
+    @Param('orderId') orderId: string,
+    @Body() dto: RefundOrderDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const { payment, refund } = await this.paymentService.refundOrder(
+      orderId,
+      dto,
+      user.userId,
+    );
+    return {
+      refund: this.mapper.refundToResponse(payment, refund),
+      payment: this.mapper.toResponse(payment),
+    };
   }
 
-  // ✅ Stripe webhook
+  // ✅ Payments of an order with their ledger, newest first (admin)
+  @Get('orders/:orderId')
+  @UseGuards(SessionAuthGuard, AdminGuard)
+  async findByOrder(@Param('orderId') orderId: string) {
+    const payments = await this.paymentService.findByOrderId(orderId);
+    return payments.map((payment) => this.mapper.toResponse(payment));
+  }
+
+  // ✅ Payment provider webhook
   @Post('webhook')
   async handleWebhook(@Req() req, @Res() res) {
-    let event: Stripe.Event;
+    let event: PaymentEvent;
 
     try {
-      const signature = req.headers['stripe-signature'];
-      const webhookSecret = this.config.get('STRIPE_WEBHOOK_SECRET');
-
-      event = this.paymentService.stripe.webhooks.constructEvent(
-        req.rawBody,
-        signature,
-        webhookSecret,
+      // /payment/webhook is parsed as raw, so the body is the exact bytes signed
+      event = this.paymentService.verifyWebhook(
+        req.rawBody ?? req.body,
+        req.headers,
       );
     } catch (error) {
       return res.status(400).send(`Webhook error: ${error.message}`);
     }
 
-    // ✅ handle events
-    switch (event.type) {
-      case 'checkout.session.completed':
-        const session = event.data.object;
-        console.log('✅ Payment completed for order:', session.metadata.orderId);
-        // Call Order Service here
-        break;
-
-      case 'payment_intent.payment_failed':
-        console.log('❌ Payment failed');
-        break;
+    // ✅ record it once per event, then hand the outcome to the order service
+    try {
+      await this.paymentService.handleWebhook(event);
+    } catch (error) {
+      if (error instanceof ConflictException) {
+        // Another delivery of it is in flight; let the provider retry
+        return res.status(409).send(error.message);
+      }
+      // Not acknowledged, so the provider delivers the webhook again
+      this.logger.error(
+        `❌ Could not process webhook ${event.id}: ${error.message}`,
+        error.stack,
+      );
+      return res.status(500).send('Could not process webhook');
     }
 
     res.status(200).send('ok');
   }
+
+  // ✅ Webhook events received, newest first (admin)
+  @Get('webhooks')
+  @UseGuards(SessionAuthGuard, AdminGuard)
+  async listWebhooks(@Query() query: ListWebhooksDto) {
+    const { events, pagination } =
+      await this.paymentService.listWebhooks(query);
+    return {
+      data: events.map((record) => this.mapper.webhookEventToResponse(record)),
+      pagination,
+    };
+  }
+
+  // ✅ Process a received webhook event again (admin)
+  @Post('webhooks/:eventId/reprocess')
+  @UseGuards(SessionAuthGuard, AdminGuard)
+  async reprocessWebhook(@Param('eventId') eventId: string) {
+    const record = await this.paymentService.reprocessWebhook(eventId);
+    return this.mapper.webhookEventToResponse(record);
+  }
 }
@@ -0,0 +1,87 @@
+import { Injectable } from '@nestjs/common';
+import { Payment, Refund } from './domain/payment.entity';
+import { WebhookEventRecord } from './domain/webhook-event';
+import { fromMinorUnits } from './money';
+
+/**
+ * Payments as the API returns them: amounts as decimals in the payment
+ * currency, like the order service does.
+ */
+@Injectable()
+export class PaymentMapper {
+  toResponse(payment: Payment) {
+    const major = (amount: number) => fromMinorUnits(amount, payment.currency);
+
+    return {
+      id: payment.id,
+      orderId: payment.orderId,
+      userId: payment.userId,
+      provider: payment.provider,
+      status: payment.status,
+      currency: payment.currency,
+      amount: major(payment.amount),
+      capturedAmount: major(payment.capturedAmount),
+      refundedAmount: major(payment.refundedAmount),
+      sessionId: payment.sessionId,
+      paymentId: payment.paymentId,
+      ledger: payment.ledger.map((entry) => ({
+        type: entry.type,
+        at: entry.at,
+        from: entry.from,
+        to: entry.to,
+        amount: entry.amount === undefined ? undefined : major(entry.amount),
+        reference: entry.reference,
+        providerType: entry.providerType,
+        reason: entry.reason,
+      })),
+      refunds: payment.refunds.map((refund) =>
+        this.refundToResponse(payment, refund),
+      ),
+      createdAt: payment.createdAt,
+      updatedAt: payment.updatedAt,
+    };
+  }
+
+  refundToResponse(payment: Payment, refund: Refund) {
+    return {
+      id: refund.id,
+      amount: fromMinorUnits(refund.amount, payment.currency),
+      currency: payment.currency,
+      reason: refund.reason,
+      items: refund.items,
+      status: refund.status,
+      providerRefundId: refund.providerRefundId,
+      failureReason: refund.failureReason,
+      createdBy: refund.createdBy,
+      createdAt: refund.createdAt,
+      updatedAt: refund.updatedAt,
+    };
+  }
+
+  webhookEventToResponse(record: WebhookEventRecord) {
+    const { event } = record;
+    return {
+      eventId: record.eventId,
+      provider: record.provider,
+      type: event.type,
+      providerType: event.providerType,
+      orderId: event.orderId,
+      sessionId: event.sessionId,
+      paymentId: event.paymentId,
+      amount:
+        event.amount === undefined || !event.currency
+          ? undefined
+          : fromMinorUnits(event.amount, event.currency),
+      currency: event.currency?.toUpperCase(),
+      reason: event.reason,
+      status: record.status,
+      outcome: record.outcome,
+      error: record.error,
+      deliveries: record.deliveries,
+      attempts: record.attempts,
+      receivedAt: record.createdAt,
+      processedAt: record.processedAt,
+      updatedAt: record.updatedAt,
+    };
+  }
+}
@@ -1,9 +1,52 @@
 import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MongooseModule } from '@nestjs/mongoose';
 import { PaymentController } from './payment.controller';
+import { FakeCheckoutController } from './fake-checkout.controller';
 import { PaymentService } from './payment.service';
+import { PaymentProducer } from './payment.producer';
+import { PaymentMapper } from './payment.mapper';
+import { OrderClient } from './order.client';
+import { PaymentRepository } from './persistence/payment.repository';
+import { PaymentModel, PaymentSchema } from './persistence/payment.schema';
+import { WebhookEventRepository } from './persistence/webhook-event.repository';
+import {
+  WebhookEventModel,
+  WebhookEventSchema,
+} from './persistence/webhook-event.schema';
+import { SessionAuthGuard } from '../auth/session-auth.guard';
+import { AdminGuard } from '../auth/admin.guard';
+import { KafkaModule } from '../kafka/kafka.module';
+import { PAYMENT_PROVIDER } from './providers/payment-provider';
+import { StripePaymentProvider } from './providers/stripe-payment.provider';
+import { FakePaymentProvider } from './providers/fake-payment.provider';
 
 @Module({
-  controllers: [PaymentController],
-  providers: [PaymentService],
+  imports: [
+    KafkaModule,
+    MongooseModule.forFeature([
+      { name: PaymentModel.name, schema: PaymentSchema },
+      { name: WebhookEventModel.name, schema: WebhookEventSchema },
+    ]),
+  ],
+  controllers: [PaymentController, FakeCheckoutController],
+  providers: [
+    PaymentService,
+    PaymentProducer,
+    PaymentRepository,
+    WebhookEventRepository,
+    PaymentMapper,
+    OrderClient,
+    SessionAuthGuard,
+    AdminGuard,
+    {
+      provide: PAYMENT_PROVIDER,
+      useFactory: (config: ConfigService) =>
+        config.get('PAYMENT_PROVIDER') === 'fake'
+          ? new FakePaymentProvider(config)
+          : new StripePaymentProvider(config),
+      inject: [ConfigService],
+    },
+  ],
 })
 export class PaymentModule {}
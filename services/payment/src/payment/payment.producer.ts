@@ -0,0 +1,110 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { KafkaProducer } from '../kafka/kafka.producer';
+import { PaymentEvent } from './providers/payment-provider';
+import { Payment, Refund } from './domain/payment.entity';
+
+/**
+ * ✅ Payment Event Producer
+ *
+ * Publishes the outcome of checkouts to Kafka; the order service marks the
+ * order paid or cancels it.
+ *
+ * Event Types:
+ * - payment.checkout_started: Checkout opened for the order total, which
+ *   can no longer be amended
+ * - payment.succeeded: Checkout paid (amount in minor units)
+ * - payment.failed: Payment was declined or failed
+ * - payment.expired: Checkout session expired before it was paid
+ * - payment.refunded: Part or all of a payment was refunded, including a
+ *   checkout paid after its order was cancelled
+ */
+@Injectable()
+export class PaymentProducer {
+  private readonly logger = new Logger(PaymentProducer.name);
+
+  constructor(private readonly kafka: KafkaProducer) {}
+
+  /**
+   * Publish the payment event a webhook stands for; webhooks the order
+   * service does not act on are skipped
+   *
+   * @returns The topic published to, if any
+   */
+  async publish(provider: string, event: PaymentEvent): Promise<string | null> {
+    const topic = {
+      'checkout.completed': 'payment.succeeded',
+      'payment.failed': 'payment.failed',
+      'checkout.expired': 'payment.expired',
+      other: null,
+    }[event.type];
+    if (!topic) return null;
+
+    if (!event.orderId) {
+      this.logger.warn(
+        `⚠️ ${event.providerType} webhook ${event.id} has no order ID, not published`,
+      );
+      return null;
+    }
+
+    await this.kafka.emit(topic, event.orderId, {
+      event: topic,
+      orderId: event.orderId,
+      userId: event.userId,
+      amount: event.amount,
+      currency: event.currency?.toUpperCase(),
+      provider,
+      providerReference: event.paymentId ?? event.sessionId,
+      sessionId: event.sessionId,
+      reason: event.reason,
+      webhookId: event.id,
+      timestamp: new Date().toISOString(),
+    });
+    this.logger.log(`📤 ${topic} published for order ${event.orderId}`);
+    return topic;
+  }
+
+  /**
+   * Publish payment.checkout_started for a checkout just opened
+   */
+  async publishCheckoutStarted(payment: Payment): Promise<void> {
+    await this.kafka.emit('payment.checkout_started', payment.orderId, {
+      event: 'payment.checkout_started',
+      orderId: payment.orderId,
+      userId: payment.userId,
+      provider: payment.provider,
+      sessionId: payment.sessionId,
+      amount: payment.amount,
+      currency: payment.currency,
+      timestamp: new Date().toISOString(),
+    });
+    this.logger.log(
+      `📤 payment.checkout_started published for order ${payment.orderId}`,
+    );
+  }
+
+  /**
+   * Publish payment.refunded for a refund that succeeded; refundedAmount
+   * is the running total, so consumers can apply events in any order
+   */
+  async publishRefunded(payment: Payment, refund: Refund): Promise<void> {
+    await this.kafka.emit('payment.refunded', payment.orderId, {
+      event: 'payment.refunded',
+      orderId: payment.orderId,
+      paymentId: payment.id,
+      provider: payment.provider,
+      providerReference: refund.providerRefundId,
+      refundId: refund.id,
+      amount: refund.amount,
+      refundedAmount: payment.refundedAmount,
+      capturedAmount: payment.capturedAmount,
+      currency: payment.currency,
+      fullyRefunded: payment.status === 'refunded',
+      reason: refund.reason,
+      items: refund.items,
+      timestamp: new Date().toISOString(),
+    });
+    this.logger.log(
+      `📤 payment.refunded published for order ${payment.orderId} (${refund.amount} ${payment.currency})`,
+    );
+  }
+}
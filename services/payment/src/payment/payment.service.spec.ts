@@ -0,0 +1,388 @@
+import {
+  BadGatewayException,
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { PaymentService } from './payment.service';
+import { PaymentProducer } from './payment.producer';
+import { OrderClient, OrderSummary } from './order.client';
+import { PaymentRepository } from './persistence/payment.repository';
+import { WebhookEventRepository } from './persistence/webhook-event.repository';
+import { Payment } from './domain/payment.entity';
+import { WebhookEventRecord } from './domain/webhook-event';
+import { PaymentEvent, PaymentProvider } from './providers/payment-provider';
+
+describe('PaymentService', () => {
+  const order: OrderSummary = {
+    id: 'o1',
+    buyerId: 'u1',
+    status: 'pending',
+    total: 27.5,
+    currency: 'USD',
+    items: [{ sku: 'SKU-1', name: 'Mug', unitPrice: 12.5, quantity: 2 }],
+  };
+
+  const makePayment = (status: 'created' | 'captured' = 'created') => {
+    const payment = Object.assign(
+      Payment.create({
+        orderId: 'o1',
+        userId: 'u1',
+        provider: 'fake',
+        currency: 'USD',
+        amount: 2750,
+        sessionId: 'cs_1',
+        items: [{ sku: 'SKU-1', name: 'Mug', unitAmount: 1250, quantity: 2 }],
+      }),
+      { id: 'p1' },
+    );
+    if (status === 'captured') {
+      payment.capturedAmount = 2750;
+      payment.paymentId = 'pi_1';
+      payment.transition('captured');
+    }
+    return payment;
+  };
+
+  const event = (type: PaymentEvent['type']): PaymentEvent => ({
+    id: 'evt_1',
+    type,
+    providerType: type,
+    orderId: 'o1',
+    sessionId: 'cs_1',
+    paymentId: 'pi_1',
+    amount: 2750,
+    currency: 'USD',
+  });
+
+  const record = (
+    status: WebhookEventRecord['status'],
+    type: PaymentEvent['type'] = 'checkout.completed',
+  ): WebhookEventRecord => ({
+    provider: 'fake',
+    eventId: 'evt_1',
+    event: event(type),
+    status,
+    deliveries: 1,
+    attempts: 1,
+  });
+
+  let provider: Record<'createCheckout' | 'refund', jest.Mock> & {
+    name: string;
+  };
+  let producer: Record<
+    'publish' | 'publishRefunded' | 'publishCheckoutStarted',
+    jest.Mock
+  >;
+  let payments: Record<
+    | 'create'
+    | 'save'
+    | 'findById'
+    | 'findByOrderId'
+    | 'findBySessionId'
+    | 'findByPaymentId',
+    jest.Mock
+  >;
+  let webhookEvents: Record<
+    'receive' | 'claim' | 'complete' | 'fail' | 'find',
+    jest.Mock
+  >;
+  let orders: Record<'findById', jest.Mock>;
+  let service: PaymentService;
+
+  beforeEach(() => {
+    provider = {
+      name: 'fake',
+      createCheckout: jest.fn(),
+      refund: jest.fn().mockResolvedValue({ id: 're_1' }),
+    };
+    producer = {
+      publish: jest.fn(),
+      publishRefunded: jest.fn(),
+      publishCheckoutStarted: jest.fn(),
+    };
+    payments = {
+      create: jest.fn((p: Payment) => Promise.resolve(p)),
+      save: jest.fn((p: Payment) => Promise.resolve(p)),
+      findById: jest.fn(),
+      findByOrderId: jest.fn().mockResolvedValue([]),
+      findBySessionId: jest.fn(),
+      findByPaymentId: jest.fn(),
+    };
+    webhookEvents = {
+      receive: jest.fn(),
+      claim: jest.fn(),
+      complete: jest.fn((_provider: string, _id: string, outcome: string) =>
+        Promise.resolve({ ...record('processed'), outcome }),
+      ),
+      fail: jest.fn(),
+      find: jest.fn(),
+    };
+    orders = {
+      findById: jest.fn().mockResolvedValue(order),
+    };
+    service = new PaymentService(
+      provider as unknown as PaymentProvider,
+      producer as unknown as PaymentProducer,
+      payments as unknown as PaymentRepository,
+      webhookEvents as unknown as WebhookEventRepository,
+      orders as unknown as OrderClient,
+    );
+  });
+
+  describe('createCheckoutSession', () => {
+    const dto = {
+      orderId: 'o1',
+      successUrl: 'http://shop/success',
+      cancelUrl: 'http://shop/cancel',
+    };
+
+    it("should charge the order's own total, in minor units", async () => {
+      provider.createCheckout.mockResolvedValue({ id: 'cs_1', url: 'u' });
+
+      await service.createCheckoutSession(dto, 'u1');
+
+      expect(provider.createCheckout).toHaveBeenCalledWith(
+        expect.objectContaining({ orderId: 'o1', amount: 2750 }),
+      );
+      const created = payments.create.mock.calls[0][0] as Payment;
+      expect(created.amount).toBe(2750);
+      expect(created.items).toEqual([
+        { sku: 'SKU-1', name: 'Mug', unitAmount: 1250, quantity: 2 },
+      ]);
+      expect(producer.publishCheckoutStarted).toHaveBeenCalledWith(created);
+    });
+
+    it("should not open a checkout for another buyer's order", async () => {
+      await expect(
+        service.createCheckoutSession(dto, 'u2'),
+      ).rejects.toBeInstanceOf(ForbiddenException);
+      expect(provider.createCheckout).not.toHaveBeenCalled();
+    });
+
+    it('should not open a checkout for a cancelled order', async () => {
+      orders.findById.mockResolvedValue({ ...order, status: 'cancelled' });
+
+      await expect(
+        service.createCheckoutSession(dto, 'u1'),
+      ).rejects.toBeInstanceOf(ConflictException);
+    });
+  });
+
+  describe('handleWebhook', () => {
+    it('should capture the payment and publish the success', async () => {
+      const payment = makePayment();
+      payments.findBySessionId.mockResolvedValue(payment);
+      webhookEvents.receive.mockResolvedValue({
+        record: record('processing'),
+        duplicate: false,
+      });
+
+      await expect(
+        service.handleWebhook(event('checkout.completed')),
+      ).resolves.toEqual(expect.objectContaining({ outcome: 'applied' }));
+
+      expect(payment.status).toBe('captured');
+      expect(payment.capturedAmount).toBe(2750);
+      expect(payment.hasWebhook('evt_1')).toBe(true);
+      expect(producer.publish).toHaveBeenCalledWith(
+        'fake',
+        expect.objectContaining({ type: 'checkout.completed' }),
+      );
+    });
+
+    it('should not publish a failure arriving after the success', async () => {
+      payments.findBySessionId.mockResolvedValue(makePayment('captured'));
+      webhookEvents.receive.mockResolvedValue({
+        record: record('processing', 'payment.failed'),
+        duplicate: false,
+      });
+
+      await expect(
+        service.handleWebhook(event('payment.failed')),
+      ).resolves.toEqual(expect.objectContaining({ outcome: 'stale' }));
+      expect(producer.publish).not.toHaveBeenCalled();
+    });
+
+    it('should refund a checkout paid after its order was cancelled', async () => {
+      const payment = makePayment();
+      payments.findBySessionId.mockResolvedValue(payment);
+      payments.findByOrderId.mockResolvedValue([payment]);
+      orders.findById.mockResolvedValue({ ...order, status: 'cancelled' });
+      webhookEvents.receive.mockResolvedValue({
+        record: record('processing'),
+        duplicate: false,
+      });
+
+      await service.handleWebhook(event('checkout.completed'));
+
+      expect(provider.refund).toHaveBeenCalledWith('pi_1', 2750);
+      expect(payment.status).toBe('refunded');
+      expect(producer.publishRefunded).toHaveBeenCalled();
+      expect(producer.publish).not.toHaveBeenCalled();
+    });
+
+    it('should publish the success when the automatic refund fails', async () => {
+      const payment = makePayment();
+      payments.findBySessionId.mockResolvedValue(payment);
+      payments.findByOrderId.mockResolvedValue([payment]);
+      orders.findById.mockResolvedValue({ ...order, status: 'cancelled' });
+      provider.refund.mockRejectedValue(new Error('declined'));
+      webhookEvents.receive.mockResolvedValue({
+        record: record('processing'),
+        duplicate: false,
+      });
+
+      await service.handleWebhook(event('checkout.completed'));
+
+      expect(payment.refunds[0].status).toBe('failed');
+      expect(producer.publish).toHaveBeenCalled();
+    });
+
+    it('should acknowledge a redelivery of a processed event without processing it', async () => {
+      webhookEvents.receive.mockResolvedValue({
+        record: record('processed'),
+        duplicate: true,
+      });
+
+      await service.handleWebhook(event('checkout.completed'));
+
+      expect(webhookEvents.claim).not.toHaveBeenCalled();
+      expect(payments.findBySessionId).not.toHaveBeenCalled();
+      expect(producer.publish).not.toHaveBeenCalled();
+    });
+
+    it('should process a redelivery of a failed event again', async () => {
+      payments.findBySessionId.mockResolvedValue(makePayment());
+      webhookEvents.receive.mockResolvedValue({
+        record: record('failed'),
+        duplicate: true,
+      });
+      webhookEvents.claim.mockResolvedValue(record('processing'));
+
+      await service.handleWebhook(event('checkout.completed'));
+
+      expect(webhookEvents.claim).toHaveBeenCalledWith(
+        'fake',
+        'evt_1',
+        ['failed'],
+        expect.any(Date),
+      );
+      expect(producer.publish).toHaveBeenCalled();
+    });
+
+    it('should reject a redelivery while the event is being processed', async () => {
+      webhookEvents.receive.mockResolvedValue({
+        record: record('processing'),
+        duplicate: true,
+      });
+      webhookEvents.claim.mockResolvedValue(null);
+
+      await expect(
+        service.handleWebhook(event('checkout.completed')),
+      ).rejects.toBeInstanceOf(ConflictException);
+    });
+
+    it('should mark the event failed when processing throws', async () => {
+      payments.findBySessionId.mockRejectedValue(new Error('db down'));
+      webhookEvents.receive.mockResolvedValue({
+        record: record('processing'),
+        duplicate: false,
+      });
+
+      await expect(
+        service.handleWebhook(event('checkout.completed')),
+      ).rejects.toThrow('db down');
+      expect(webhookEvents.fail).toHaveBeenCalledWith(
+        'fake',
+        'evt_1',
+        'db down',
+      );
+    });
+  });
+
+  describe('reprocessWebhook', () => {
+    it('should claim a processed event and apply it again', async () => {
+      payments.findBySessionId.mockResolvedValue(makePayment());
+      webhookEvents.find.mockResolvedValue(record('processed'));
+      webhookEvents.claim.mockResolvedValue(record('processing'));
+
+      await service.reprocessWebhook('evt_1');
+
+      expect(webhookEvents.claim).toHaveBeenCalledWith(
+        'fake',
+        'evt_1',
+        ['processed', 'failed'],
+        expect.any(Date),
+      );
+      expect(producer.publish).toHaveBeenCalled();
+    });
+  });
+
+  describe('refundOrder', () => {
+    beforeEach(() => {
+      payments.findByOrderId.mockResolvedValue([makePayment('captured')]);
+    });
+
+    it('should refund items at the price paid', async () => {
+      const { payment, refund } = await service.refundOrder(
+        'o1',
+        { items: [{ sku: 'SKU-1', quantity: 1 }], reason: 'Damaged' },
+        'admin1',
+      );
+
+      expect(provider.refund).toHaveBeenCalledWith('pi_1', 1250);
+      expect(refund).toEqual(
+        expect.objectContaining({ status: 'succeeded', createdBy: 'admin1' }),
+      );
+      expect(payment.status).toBe('partially_refunded');
+      expect(producer.publishRefunded).toHaveBeenCalledWith(payment, refund);
+    });
+
+    it('should reject a request with both an amount and items', async () => {
+      await expect(
+        service.refundOrder(
+          'o1',
+          {
+            amount: 5,
+            items: [{ sku: 'SKU-1', quantity: 1 }],
+            reason: 'Damaged',
+          },
+          'admin1',
+        ),
+      ).rejects.toBeInstanceOf(BadRequestException);
+    });
+
+    it('should reject a refund without a reason', async () => {
+      await expect(
+        service.refundOrder('o1', { amount: 5, reason: ' ' }, 'admin1'),
+      ).rejects.toBeInstanceOf(BadRequestException);
+    });
+
+    it('should reject more than was captured', async () => {
+      await expect(
+        service.refundOrder('o1', { amount: 30, reason: 'Damaged' }, 'admin1'),
+      ).rejects.toBeInstanceOf(BadRequestException);
+      expect(provider.refund).not.toHaveBeenCalled();
+    });
+
+    it('should fail the pending refund when the provider rejects it', async () => {
+      const payment = makePayment('captured');
+      payments.findByOrderId.mockResolvedValue([payment]);
+      provider.refund.mockRejectedValue(new Error('declined'));
+
+      await expect(
+        service.refundOrder('o1', { amount: 5, reason: 'Damaged' }, 'admin1'),
+      ).rejects.toBeInstanceOf(BadGatewayException);
+
+      expect(payment.refunds[0]).toEqual(
+        expect.objectContaining({
+          status: 'failed',
+          failureReason: 'declined',
+        }),
+      );
+      expect(payment.refundableAmount()).toBe(2750);
+      expect(producer.publishRefunded).not.toHaveBeenCalled();
+    });
+  });
+});
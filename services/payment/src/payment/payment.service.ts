@@ -1,44 +1,494 @@
-import { Injectable } from '@nestjs/common';
-import Stripe from 'stripe';
-import { ConfigService } from '@nestjs/config';
+import {
+  BadGatewayException,
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { CreateCheckoutDto } from './dto/create-checkout.dto';
+import { RefundOrderDto } from './dto/refund-order.dto';
+import { ListWebhooksDto } from './dto/list-webhooks.dto';
+import { PaymentProducer } from './payment.producer';
+import { OrderClient } from './order.client';
+import { PaymentRepository } from './persistence/payment.repository';
+import { WebhookEventRepository } from './persistence/webhook-event.repository';
+import {
+  LedgerEntry,
+  Payment,
+  Refund,
+  RefundNotAllowedError,
+} from './domain/payment.entity';
+import {
+  WEBHOOK_EVENT_STATUSES,
+  WebhookEventRecord,
+  WebhookEventStatus,
+  WebhookOutcome,
+} from './domain/webhook-event';
+import { fromMinorUnits, toMinorUnits } from './money';
+import {
+  PAYMENT_PROVIDER,
+  PaymentEvent,
+  PaymentProvider,
+} from './providers/payment-provider';
+
+/** How long an attempt at a webhook may run before a redelivery takes over */
+const WEBHOOK_LOCK_MS = 5 * 60 * 1000;
+
+/** Order statuses that still wait for payment */
+const PAYABLE_ORDER_STATUSES = ['pending', 'processing'];
 
 @Injectable()
 export class PaymentService {
-  stripe: Stripe;
+  private readonly logger = new Logger(PaymentService.name);
+
+  constructor(
+    @Inject(PAYMENT_PROVIDER) private readonly provider: PaymentProvider,
+    private readonly producer: PaymentProducer,
+    private readonly payments: PaymentRepository,
+    private readonly webhookEvents: WebhookEventRepository,
+    private readonly orders: OrderClient,
+  ) {}
 
-  constructor(private config: ConfigService) {
-    this.stripe = new Stripe(this.config.get('STRIPE_SECRET_KEY'), {
-      apiVersion: '2024-06-20',
+  /**
+   * Open a checkout for the buyer's order. The amount and currency are the
+   * order's own total, read from the order service, and
+   * payment.checkout_started is published before the session is handed out
+   * so the order stops taking amendments.
+   *
+   * @throws NotFoundException if the order does not exist
+   * @throws ForbiddenException if the order belongs to another buyer
+   * @throws ConflictException if the order no longer waits for payment
+   */
+  async createCheckoutSession(dto: CreateCheckoutDto, userId: string) {
+    const order = await this.orders.findById(dto.orderId);
+    if (!order) {
+      throw new NotFoundException(`Order ${dto.orderId} not found`);
+    }
+    if (order.buyerId !== userId) {
+      throw new ForbiddenException('Order belongs to another customer');
+    }
+    if (!PAYABLE_ORDER_STATUSES.includes(order.status)) {
+      throw new ConflictException(
+        `Order ${order.id} is ${order.status}, it cannot be paid`,
+      );
+    }
+
+    const currency = order.currency;
+    const amount = toMinorUnits(order.total, currency);
+    const session = await this.provider.createCheckout({
+      orderId: order.id,
+      userId,
+      currency,
+      amount,
+      successUrl: dto.successUrl,
+      cancelUrl: dto.cancelUrl,
     });
+
+    const payment = await this.payments.create(
+      Payment.create({
+        orderId: order.id,
+        userId,
+        provider: this.provider.name,
+        currency,
+        amount,
+        sessionId: session.id,
+        items: order.items.map((item) => ({
+          sku: item.sku,
+          name: item.name,
+          unitAmount: toMinorUnits(item.unitPrice, currency),
+          quantity: item.quantity,
+        })),
+      }),
+    );
+    await this.producer.publishCheckoutStarted(payment);
+
+    return session;
   }
 
-  async createCheckoutSession(order: any) {
-    return await this.stripe.checkout.sessions.create({
-      mode: 'payment',
-      payment_method_types: ['card'],
+  async capture(paymentId: string) {
+    const payment = await this.findByPaymentId(paymentId);
+    if (!payment.canTransitionTo('captured')) {
+      throw new ConflictException(
+        `Payment ${paymentId} is ${payment.status}, it cannot be captured`,
+      );
+    }
+    const captured = await this.provider.capture(paymentId);
 
-      line_items: order.items.map((item) => ({
-        price_data: {
-          currency: 'usd',
-          product_data: { name: item.name },
-          unit_amount: item.price * 100,
-        },
-        quantity: item.quantity,
-      })),
+    await this.update(payment, (p) => {
+      p.capturedAmount = captured.amount;
+      return [
+        p.transition('captured', {
+          amount: captured.amount,
+          reference: paymentId,
+        }),
+      ];
+    });
+    return captured;
+  }
+
+  /**
+   * Refund part or all of what was captured for an order, by amount or by
+   * lines at the price paid. The refund is saved as pending before the
+   * provider is called, so concurrent refunds cannot exceed the captured
+   * amount, and payment.refunded is published once it succeeded.
+   *
+   * @throws BadRequestException if the request is invalid or exceeds what
+   *   can still be refunded
+   * @throws NotFoundException if the order has no captured payment
+   * @throws BadGatewayException if the provider rejected the refund
+   */
+  async refundOrder(
+    orderId: string,
+    dto: RefundOrderDto,
+    createdBy: string,
+  ): Promise<{ payment: Payment; refund: Refund }> {
+    const reason = typeof dto.reason === 'string' ? dto.reason.trim() : '';
+    if (!reason) {
+      throw new BadRequestException('A reason is required');
+    }
+    const byAmount = dto.amount !== undefined && dto.amount !== null;
+    const byItems = Array.isArray(dto.items) && dto.items.length > 0;
+    if (byAmount === byItems) {
+      throw new BadRequestException('Give either an amount or items');
+    }
+    if (byAmount && !(typeof dto.amount === 'number' && dto.amount > 0)) {
+      throw new BadRequestException('Amount must be a positive number');
+    }
+
+    const payment = (await this.payments.findByOrderId(orderId)).find(
+      (p) => p.capturedAmount > 0 && p.paymentId,
+    );
+    if (!payment) {
+      throw new NotFoundException(`Order ${orderId} has no captured payment`);
+    }
 
-      success_url: `${order.successUrl}?session_id={CHECKOUT_SESSION_ID}`,
-      cancel_url: order.cancelUrl,
+    // 1. Reserve the amount with a pending refund
+    let refund!: Refund;
+    let pending: Payment;
+    try {
+      pending = await this.update(payment, (p) => {
+        refund = p.requestRefund({
+          amount: byAmount ? toMinorUnits(dto.amount!, p.currency) : undefined,
+          items: byItems
+            ? dto.items!.map((i) => ({ sku: i.sku, quantity: i.quantity }))
+            : undefined,
+          reason,
+          createdBy,
+        });
+        return [];
+      });
+    } catch (error) {
+      if (error instanceof RefundNotAllowedError) {
+        throw new BadRequestException(error.message);
+      }
+      throw error;
+    }
+
+    // 2. Refund with the provider
+    let providerRefundId: string;
+    try {
+      providerRefundId = (
+        await this.provider.refund(pending.paymentId!, refund.amount)
+      ).id;
+    } catch (error) {
+      const message = (error as Error).message;
+      await this.update(pending, (p) => {
+        p.failRefund(refund.id, message);
+        return [];
+      });
+      this.logger.error(
+        `❌ Refund ${refund.id} of order ${orderId} failed: ${message}`,
+      );
+      throw new BadGatewayException(`Refund failed: ${message}`);
+    }
+
+    // 3. Count it and tell the order service
+    const saved = await this.update(pending, (p) => [
+      p.completeRefund(refund.id, providerRefundId),
+    ]);
+    const completed = saved.refunds.find((r) => r.id === refund.id)!;
+    await this.producer.publishRefunded(saved, completed);
+    this.logger.log(
+      `💸 Refunded ${completed.amount} ${saved.currency} of order ${orderId} (${saved.status})`,
+    );
+
+    return { payment: saved, refund: completed };
+  }
+
+  async findByOrderId(orderId: string): Promise<Payment[]> {
+    return await this.payments.findByOrderId(orderId);
+  }
+
+  verifyWebhook(
+    rawBody: Buffer,
+    headers: Record<string, string | string[] | undefined>,
+  ): PaymentEvent {
+    return this.provider.verifyWebhook(rawBody, headers);
+  }
+
+  /**
+   * Handle a verified webhook delivery, once per provider event ID.
+   * Redeliveries of an event already processed are acknowledged without
+   * touching the payment or publishing again; events whose processing
+   * failed are processed again.
+   *
+   * @throws ConflictException while another delivery of the event is
+   *   being processed, so the provider delivers it again later
+   */
+  async handleWebhook(event: PaymentEvent): Promise<WebhookEventRecord> {
+    const { record, duplicate } = await this.webhookEvents.receive(
+      this.provider.name,
+      event,
+    );
+    if (!duplicate) return await this.processWebhook(record.event);
+
+    if (record.status === 'processed') {
+      this.logger.log(
+        `ℹ️ Webhook ${event.id} already processed (${record.outcome}), delivery ${record.deliveries} acknowledged`,
+      );
+      return record;
+    }
+    const claimed = await this.webhookEvents.claim(
+      this.provider.name,
+      event.id,
+      ['failed'],
+      new Date(Date.now() - WEBHOOK_LOCK_MS),
+    );
+    if (!claimed) {
+      throw new ConflictException(`Webhook ${event.id} is being processed`);
+    }
+    return await this.processWebhook(claimed.event);
+  }
 
-      metadata: {
-        orderId: order.orderId,
-        userId: order.userId,
+  /**
+   * Process a stored webhook event again (admin), against the payment's
+   * current state
+   *
+   * @throws NotFoundException if no such event was received
+   * @throws ConflictException while the event is being processed
+   */
+  async reprocessWebhook(eventId: string): Promise<WebhookEventRecord> {
+    const record = await this.webhookEvents.find(this.provider.name, eventId);
+    if (!record) {
+      throw new NotFoundException(`Webhook event ${eventId} not found`);
+    }
+    const claimed = await this.webhookEvents.claim(
+      this.provider.name,
+      eventId,
+      ['processed', 'failed'],
+      new Date(Date.now() - WEBHOOK_LOCK_MS),
+    );
+    if (!claimed) {
+      throw new ConflictException(`Webhook ${eventId} is being processed`);
+    }
+    this.logger.log(`🔁 Re-processing webhook ${eventId}`);
+    return await this.processWebhook(claimed.event);
+  }
+
+  /**
+   * Webhook events received from the provider, newest first
+   *
+   * @throws BadRequestException for an unknown status
+   */
+  async listWebhooks(query: ListWebhooksDto) {
+    const statuses: readonly string[] = WEBHOOK_EVENT_STATUSES;
+    if (query.status && !statuses.includes(query.status)) {
+      throw new BadRequestException(
+        `Status must be one of ${WEBHOOK_EVENT_STATUSES.join(', ')}`,
+      );
+    }
+    const page = Math.max(1, Number.parseInt(query.page ?? '', 10) || 1);
+    const limit = Math.min(
+      100,
+      Math.max(1, Number.parseInt(query.limit ?? '', 10) || 20),
+    );
+
+    const { events, total } = await this.webhookEvents.list(
+      {
+        status: query.status as WebhookEventStatus | undefined,
+        orderId: query.orderId,
       },
-    });
+      page,
+      limit,
+    );
+    const totalPages = Math.ceil(total / limit);
+    return {
+      events,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages,
+        hasNextPage: page < totalPages,
+        hasPrevPage: page > 1,
+      },
+    };
   }
 
-  async refund(paymentIntent: string) {
-    return await this.stripe.refunds.create({
-      payment_intent: paymentIntent,
+  /**
+   * Apply a claimed webhook event and publish its outcome when the payment
+   * ended up in the state the event reports. A checkout paid after its
+   * order was cancelled is refunded instead of reported as succeeded.
+   */
+  private async processWebhook(
+    event: PaymentEvent,
+  ): Promise<WebhookEventRecord> {
+    try {
+      const outcome = await this.applyWebhook(event);
+      if (outcome === 'applied' && !(await this.refundIfCancelled(event))) {
+        await this.publishOutcome(event);
+      }
+      return (await this.webhookEvents.complete(
+        this.provider.name,
+        event.id,
+        outcome,
+      ))!;
+    } catch (error) {
+      await this.webhookEvents.fail(
+        this.provider.name,
+        event.id,
+        (error as Error).message,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Append the webhook to the payment's ledger (once per event) and apply
+   * the status change it reports (captured or failed) if the payment can
+   * still take it. Events are resolved against the payment's current
+   * state, so one arriving out of order (a failure after the success) is
+   * stale and changes nothing.
+   */
+  private async applyWebhook(event: PaymentEvent): Promise<WebhookOutcome> {
+    const payment =
+      (event.sessionId &&
+        (await this.payments.findBySessionId(event.sessionId))) ||
+      (event.paymentId &&
+        (await this.payments.findByPaymentId(event.paymentId))) ||
+      null;
+    if (!payment) {
+      this.logger.warn(
+        `⚠️ No payment for ${event.providerType} webhook ${event.id}`,
+      );
+      return 'unmatched';
+    }
+
+    const saved = await this.update(payment, (p) => {
+      const entries = p.hasWebhook(event.id) ? [] : [p.recordWebhook(event)];
+      // A stale event must not replace the ID of the payment that succeeded
+      if (event.paymentId && !p.paymentId) p.paymentId = event.paymentId;
+
+      const to =
+        event.type === 'checkout.completed'
+          ? 'captured'
+          : event.type === 'payment.failed' || event.type === 'checkout.expired'
+            ? 'failed'
+            : null;
+      if (!to) return entries;
+      if (!p.canTransitionTo(to)) {
+        this.logger.warn(
+          `⚠️ Payment ${p.id} is ${p.status}, stale ${event.providerType} webhook ${event.id} does not change it`,
+        );
+        return entries;
+      }
+
+      if (to === 'captured') {
+        p.capturedAmount = event.amount ?? p.amount;
+        p.paymentId = event.paymentId ?? p.paymentId;
+      }
+      entries.push(
+        p.transition(to, {
+          amount: to === 'captured' ? p.capturedAmount : undefined,
+          reference: event.paymentId ?? event.sessionId,
+          reason:
+            event.type === 'checkout.expired'
+              ? 'Checkout expired'
+              : event.reason,
+        }),
+      );
+      return entries;
     });
+
+    if (event.type === 'other') return 'ignored';
+    const settled =
+      event.type === 'checkout.completed'
+        ? saved.capturedAmount > 0
+        : saved.status === 'failed';
+    return settled ? 'applied' : 'stale';
+  }
+
+  /**
+   * Refund the whole captured amount of a checkout whose order was
+   * cancelled while it was open (payment.refunded is published instead of
+   * payment.succeeded). When the order cannot be read or the refund fails,
+   * the success is published and the order service flags it for a manual
+   * refund.
+   *
+   * @returns Whether the payment was refunded
+   */
+  private async refundIfCancelled(event: PaymentEvent): Promise<boolean> {
+    if (event.type !== 'checkout.completed' || !event.orderId) return false;
+    try {
+      const order = await this.orders.findById(event.orderId);
+      if (order?.status !== 'cancelled') return false;
+
+      const [payment] = (await this.payments.findByOrderId(event.orderId))
+        .filter((p) => p.capturedAmount > 0)
+        .filter((p) => !event.sessionId || p.sessionId === event.sessionId);
+      if (!payment) return false;
+      await this.refundOrder(
+        event.orderId,
+        {
+          amount: fromMinorUnits(payment.capturedAmount, payment.currency),
+          reason: 'Order was cancelled before the payment went through',
+        },
+        'system',
+      );
+      return true;
+    } catch (error) {
+      this.logger.error(
+        `❌ Could not refund order ${event.orderId} paid after it was cancelled: ${(error as Error).message}`,
+      );
+      return false;
+    }
+  }
+
+  /**
+   * Tell the order service how a checkout ended (payment.succeeded,
+   * payment.failed or payment.expired)
+   */
+  private async publishOutcome(event: PaymentEvent) {
+    return await this.producer.publish(this.provider.name, event);
+  }
+
+  private async findByPaymentId(paymentId: string): Promise<Payment> {
+    const payment = await this.payments.findByPaymentId(paymentId);
+    if (!payment) {
+      throw new NotFoundException(`Payment ${paymentId} not found`);
+    }
+    return payment;
+  }
+
+  /**
+   * Apply `change` to the latest state of the payment and save it with the
+   * ledger entries it returns, retrying when the payment was saved
+   * concurrently (webhooks can arrive at the same time as a refund)
+   */
+  private async update(
+    payment: Payment,
+    change: (payment: Payment) => LedgerEntry[],
+    attempts = 3,
+  ): Promise<Payment> {
+    let current: Payment | null = payment;
+    for (let attempt = 1; current && attempt <= attempts; attempt++) {
+      const saved = await this.payments.save(current, change(current));
+      if (saved) return saved;
+      current = await this.payments.findById(payment.id);
+    }
+    throw new Error(`Payment ${payment.id} was modified concurrently`);
   }
 }
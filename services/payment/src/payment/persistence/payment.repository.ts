@@ -0,0 +1,107 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import {
+  LedgerEntry,
+  Payment,
+  PaymentStatus,
+} from '../domain/payment.entity';
+import { PaymentDocument, PaymentModel } from './payment.schema';
+
+/**
+ * Payments in Mongo. The ledger is only ever appended to: `save` pushes
+ * the new entries and bumps the version, failing if someone else saved
+ * the payment in the meantime (e.g. two refunds issued at once).
+ */
+@Injectable()
+export class PaymentRepository {
+  constructor(
+    @InjectModel(PaymentModel.name)
+    private readonly model: Model<PaymentDocument>,
+  ) {}
+
+  async create(payment: Payment): Promise<Payment> {
+    const doc = await this.model.create({
+      orderId: payment.orderId,
+      userId: payment.userId,
+      provider: payment.provider,
+      currency: payment.currency,
+      amount: payment.amount,
+      status: payment.status,
+      sessionId: payment.sessionId,
+      paymentId: payment.paymentId,
+      ledger: payment.ledger,
+      items: payment.items,
+    });
+    return this.toDomain(doc);
+  }
+
+  /**
+   * Persist the payment's current state and append `entries` to its ledger
+   *
+   * @returns The saved payment, or null if it was changed concurrently
+   */
+  async save(payment: Payment, entries: LedgerEntry[]): Promise<Payment | null> {
+    const doc = await this.model.findOneAndUpdate(
+      { _id: payment.id, version: payment.version },
+      {
+        $set: {
+          status: payment.status,
+          capturedAmount: payment.capturedAmount,
+          refundedAmount: payment.refundedAmount,
+          sessionId: payment.sessionId,
+          paymentId: payment.paymentId,
+          // Refunds change status, so they are saved whole; the ledger is not
+          refunds: payment.refunds,
+        },
+        $push: { ledger: { $each: entries } },
+        $inc: { version: 1 },
+      },
+      { new: true },
+    );
+    return doc ? this.toDomain(doc) : null;
+  }
+
+  async findById(id: string): Promise<Payment | null> {
+    const doc = await this.model.findById(id);
+    return doc ? this.toDomain(doc) : null;
+  }
+
+  /** Payments of an order, newest first */
+  async findByOrderId(orderId: string): Promise<Payment[]> {
+    const docs = await this.model.find({ orderId }).sort({ createdAt: -1 });
+    return docs.map((doc) => this.toDomain(doc));
+  }
+
+  async findBySessionId(sessionId: string): Promise<Payment | null> {
+    const doc = await this.model.findOne({ sessionId });
+    return doc ? this.toDomain(doc) : null;
+  }
+
+  async findByPaymentId(paymentId: string): Promise<Payment | null> {
+    const doc = await this.model.findOne({ paymentId });
+    return doc ? this.toDomain(doc) : null;
+  }
+
+  private toDomain(doc: PaymentDocument): Payment {
+    return new Payment(
+      doc._id.toString(),
+      doc.orderId,
+      doc.userId,
+      doc.provider,
+      doc.currency,
+      doc.amount,
+      doc.status as PaymentStatus,
+      doc.capturedAmount ?? 0,
+      doc.refundedAmount ?? 0,
+      doc.sessionId,
+      doc.paymentId,
+      doc.ledger ?? [],
+      doc.version ?? 0,
+      doc.createdAt,
+      doc.updatedAt,
+      doc.items ?? [],
+      doc.refunds ?? [],
+    );
+  }
+}
@@ -0,0 +1,102 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument } from 'mongoose';
+import { LedgerEntry, PaymentLine, Refund } from '../domain/payment.entity';
+
+export type PaymentDocument = HydratedDocument<PaymentModel>;
+
+@Schema({ timestamps: true })
+export class PaymentModel {
+  @Prop({ required: true, index: true })
+  orderId!: string;
+
+  @Prop()
+  userId?: string;
+
+  @Prop({ required: true })
+  provider!: string;
+
+  @Prop({ required: true })
+  currency!: string;
+
+  /** Minor units, like every amount of a payment */
+  @Prop({ required: true })
+  amount!: number;
+
+  @Prop({ required: true, default: 'created' })
+  status!: string;
+
+  @Prop({ default: 0 })
+  capturedAmount!: number;
+
+  @Prop({ default: 0 })
+  refundedAmount!: number;
+
+  @Prop({ index: true, sparse: true })
+  sessionId?: string;
+
+  @Prop({ index: true, sparse: true })
+  paymentId?: string;
+
+  @Prop({
+    type: [
+      {
+        _id: false,
+        type: { type: String, required: true },
+        at: { type: Date, required: true },
+        from: String,
+        to: String,
+        amount: Number,
+        reference: String,
+        providerType: String,
+        reason: String,
+      },
+    ],
+    default: [],
+  })
+  ledger!: LedgerEntry[];
+
+  @Prop({
+    type: [
+      {
+        _id: false,
+        sku: String,
+        name: { type: String, required: true },
+        unitAmount: { type: Number, required: true },
+        quantity: { type: Number, required: true },
+      },
+    ],
+    default: [],
+  })
+  items!: PaymentLine[];
+
+  @Prop({
+    type: [
+      {
+        _id: false,
+        id: { type: String, required: true },
+        amount: { type: Number, required: true },
+        reason: { type: String, required: true },
+        items: {
+          type: [{ _id: false, sku: String, quantity: Number }],
+          default: undefined,
+        },
+        status: { type: String, required: true },
+        providerRefundId: String,
+        failureReason: String,
+        createdBy: { type: String, required: true },
+        createdAt: { type: Date, required: true },
+        updatedAt: Date,
+      },
+    ],
+    default: [],
+  })
+  refunds!: Refund[];
+
+  @Prop({ default: 0 })
+  version!: number;
+
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export const PaymentSchema = SchemaFactory.createForClass(PaymentModel);
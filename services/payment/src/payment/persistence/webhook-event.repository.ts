@@ -0,0 +1,164 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { PaymentEvent } from '../providers/payment-provider';
+import {
+  WebhookEventRecord,
+  WebhookEventStatus,
+  WebhookOutcome,
+} from '../domain/webhook-event';
+import {
+  WebhookEventDocument,
+  WebhookEventModel,
+} from './webhook-event.schema';
+
+/** Mongo's duplicate key error, raised by the unique provider/event index */
+const DUPLICATE_KEY = 11000;
+
+/**
+ * Webhook events in Mongo, one per provider event ID. Every status change
+ * is a conditional update, so only one delivery processes an event at a
+ * time.
+ */
+@Injectable()
+export class WebhookEventRepository {
+  constructor(
+    @InjectModel(WebhookEventModel.name)
+    private readonly model: Model<WebhookEventDocument>,
+  ) {}
+
+  /**
+   * Store a delivery of `event`. The first delivery creates the record,
+   * already claimed for processing; later ones only count the delivery.
+   */
+  async receive(
+    provider: string,
+    event: PaymentEvent,
+    at = new Date(),
+  ): Promise<{ record: WebhookEventRecord; duplicate: boolean }> {
+    try {
+      const doc = await this.model.create({
+        provider,
+        eventId: event.id,
+        event,
+        orderId: event.orderId,
+        status: 'processing',
+        deliveries: 1,
+        attempts: 1,
+        lockedAt: at,
+      });
+      return { record: this.toDomain(doc), duplicate: false };
+    } catch (error) {
+      if ((error as { code?: number }).code !== DUPLICATE_KEY) throw error;
+    }
+
+    const doc = await this.model.findOneAndUpdate(
+      { provider, eventId: event.id },
+      { $inc: { deliveries: 1 } },
+      { new: true },
+    );
+    return { record: this.toDomain(doc!), duplicate: true };
+  }
+
+  /**
+   * Start another attempt at an event in one of the `from` statuses, or
+   * whose current attempt started before `staleBefore` and never finished
+   *
+   * @returns The claimed event, or null if it is missing or busy
+   */
+  async claim(
+    provider: string,
+    eventId: string,
+    from: WebhookEventStatus[],
+    staleBefore: Date,
+    at = new Date(),
+  ): Promise<WebhookEventRecord | null> {
+    const doc = await this.model.findOneAndUpdate(
+      {
+        provider,
+        eventId,
+        $or: [
+          { status: { $in: from } },
+          { status: 'processing', lockedAt: { $lt: staleBefore } },
+        ],
+      },
+      {
+        $set: { status: 'processing', lockedAt: at },
+        $unset: { error: 1 },
+        $inc: { attempts: 1 },
+      },
+      { new: true },
+    );
+    return doc ? this.toDomain(doc) : null;
+  }
+
+  async complete(
+    provider: string,
+    eventId: string,
+    outcome: WebhookOutcome,
+    at = new Date(),
+  ): Promise<WebhookEventRecord | null> {
+    const doc = await this.model.findOneAndUpdate(
+      { provider, eventId },
+      {
+        $set: { status: 'processed', outcome, processedAt: at },
+        $unset: { lockedAt: 1 },
+      },
+      { new: true },
+    );
+    return doc ? this.toDomain(doc) : null;
+  }
+
+  async fail(provider: string, eventId: string, error: string): Promise<void> {
+    await this.model.updateOne(
+      { provider, eventId },
+      { $set: { status: 'failed', error }, $unset: { lockedAt: 1 } },
+    );
+  }
+
+  async find(
+    provider: string,
+    eventId: string,
+  ): Promise<WebhookEventRecord | null> {
+    const doc = await this.model.findOne({ provider, eventId });
+    return doc ? this.toDomain(doc) : null;
+  }
+
+  /** Events received, newest first */
+  async list(
+    filter: { status?: WebhookEventStatus; orderId?: string },
+    page: number,
+    limit: number,
+  ): Promise<{ events: WebhookEventRecord[]; total: number }> {
+    const query = {
+      ...(filter.status && { status: filter.status }),
+      ...(filter.orderId && { orderId: filter.orderId }),
+    };
+    const [docs, total] = await Promise.all([
+      this.model
+        .find(query)
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      this.model.countDocuments(query),
+    ]);
+    return { events: docs.map((doc) => this.toDomain(doc)), total };
+  }
+
+  private toDomain(doc: WebhookEventDocument): WebhookEventRecord {
+    return {
+      provider: doc.provider,
+      eventId: doc.eventId,
+      event: doc.event,
+      status: doc.status as WebhookEventStatus,
+      outcome: doc.outcome as WebhookOutcome | undefined,
+      error: doc.error,
+      deliveries: doc.deliveries ?? 1,
+      attempts: doc.attempts ?? 1,
+      lockedAt: doc.lockedAt,
+      processedAt: doc.processedAt,
+      createdAt: doc.createdAt,
+      updatedAt: doc.updatedAt,
+    };
+  }
+}
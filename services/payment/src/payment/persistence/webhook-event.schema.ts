@@ -0,0 +1,51 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument, SchemaTypes } from 'mongoose';
+import { PaymentEvent } from '../providers/payment-provider';
+
+export type WebhookEventDocument = HydratedDocument<WebhookEventModel>;
+
+@Schema({ timestamps: true })
+export class WebhookEventModel {
+  @Prop({ required: true })
+  provider!: string;
+
+  @Prop({ required: true })
+  eventId!: string;
+
+  @Prop({ type: SchemaTypes.Mixed, required: true })
+  event!: PaymentEvent;
+
+  /** Copied out of the event for listing */
+  @Prop({ index: true, sparse: true })
+  orderId?: string;
+
+  @Prop({ required: true, index: true })
+  status!: string;
+
+  @Prop()
+  outcome?: string;
+
+  @Prop()
+  error?: string;
+
+  @Prop({ default: 1 })
+  deliveries!: number;
+
+  @Prop({ default: 1 })
+  attempts!: number;
+
+  @Prop()
+  lockedAt?: Date;
+
+  @Prop()
+  processedAt?: Date;
+
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export const WebhookEventSchema =
+  SchemaFactory.createForClass(WebhookEventModel);
+
+// One record per provider event, however often it is delivered
+WebhookEventSchema.index({ provider: 1, eventId: 1 }, { unique: true });
@@ -0,0 +1,239 @@
+import { Logger, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHmac, randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+import {
+  CapturedPayment,
+  CheckoutRequest,
+  CheckoutSession,
+  PaymentEvent,
+  PaymentProvider,
+  PaymentRefund,
+} from './payment-provider';
+
+export const FAKE_CHECKOUT_OUTCOMES = [
+  'succeeded',
+  'failed',
+  'expired',
+] as const;
+export type FakeCheckoutOutcome = (typeof FAKE_CHECKOUT_OUTCOMES)[number];
+
+export interface FakeCheckoutSession {
+  id: string;
+  orderId: string;
+  userId: string;
+  currency: string;
+  /** Minor units */
+  amount: number;
+  successUrl: string;
+  cancelUrl: string;
+  status: 'open' | 'paid' | 'failed' | 'expired';
+  paymentId?: string;
+  /** Minor units refunded so far */
+  refunded: number;
+}
+
+/** Header carrying `t=<unix seconds>,v1=<hex HMAC-SHA256 of "t.body">` */
+export const FAKE_SIGNATURE_HEADER = 'fake-signature';
+
+/** How old a signed webhook may be, like Stripe's default tolerance */
+const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+/**
+ * ✅ Fake Payment Provider
+ *
+ * Runs the whole payment flow offline for development and CI. Checkout
+ * sessions live in memory and their URL is a local page
+ * (`/payment/fake/checkout/:id`) where the payment is made to succeed,
+ * fail or expire; a signed webhook is posted to FAKE_PAYMENT_WEBHOOK_URL
+ * (this service's `/payment/webhook` by default), the way Stripe would.
+ */
+export class FakePaymentProvider implements PaymentProvider {
+  readonly name = 'fake';
+  private readonly logger = new Logger(FakePaymentProvider.name);
+  private readonly sessions = new Map<string, FakeCheckoutSession>();
+  private readonly publicUrl: string;
+  private readonly webhookUrl: string;
+  private readonly webhookSecret: string;
+
+  constructor(config: ConfigService) {
+    this.publicUrl =
+      config.get<string>('PAYMENT_PUBLIC_URL') ||
+      `http://localhost:${config.get<string>('PORT') || 5005}`;
+    this.webhookUrl =
+      config.get<string>('FAKE_PAYMENT_WEBHOOK_URL') ||
+      `${this.publicUrl}/payment/webhook`;
+    this.webhookSecret =
+      config.get<string>('FAKE_PAYMENT_WEBHOOK_SECRET') ||
+      randomBytes(32).toString('hex');
+  }
+
+  async createCheckout(order: CheckoutRequest): Promise<CheckoutSession> {
+    const currency = (order.currency || 'USD').toLowerCase();
+    const session: FakeCheckoutSession = {
+      id: `cs_fake_${randomUUID()}`,
+      orderId: order.orderId,
+      userId: order.userId,
+      currency,
+      amount: order.amount,
+      successUrl: order.successUrl,
+      cancelUrl: order.cancelUrl,
+      status: 'open',
+      refunded: 0,
+    };
+    this.sessions.set(session.id, session);
+
+    return {
+      id: session.id,
+      url: `${this.publicUrl}/payment/fake/checkout/${session.id}`,
+    };
+  }
+
+  getSession(sessionId: string): FakeCheckoutSession {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new NotFoundException(`Checkout session ${sessionId} not found`);
+    }
+    return session;
+  }
+
+  /**
+   * Pay, fail or expire an open checkout session and post the webhook
+   *
+   * @returns Where the buyer is redirected, like Stripe Checkout does
+   */
+  async complete(
+    sessionId: string,
+    outcome: FakeCheckoutOutcome,
+  ): Promise<string> {
+    const session = this.getSession(sessionId);
+    if (session.status === 'open') {
+      session.status = (
+        { succeeded: 'paid', failed: 'failed', expired: 'expired' } as const
+      )[outcome];
+      if (outcome !== 'expired') session.paymentId = `pi_fake_${randomUUID()}`;
+      await this.postWebhook(session);
+    }
+
+    return session.status === 'paid'
+      ? `${session.successUrl}?session_id=${session.id}`
+      : session.cancelUrl;
+  }
+
+  async capture(paymentId: string): Promise<CapturedPayment> {
+    const session = this.paidSession(paymentId);
+    return {
+      paymentId,
+      status: 'succeeded',
+      amount: session.amount,
+      currency: session.currency,
+    };
+  }
+
+  async refund(paymentId: string, amount?: number): Promise<PaymentRefund> {
+    const session = this.paidSession(paymentId);
+    const refundable = session.amount - session.refunded;
+    const refunded = amount ?? refundable;
+    if (refunded <= 0 || refunded > refundable) {
+      throw new Error(
+        `Cannot refund ${refunded} of payment ${paymentId}: ${refundable} is refundable`,
+      );
+    }
+    session.refunded += refunded;
+
+    return {
+      id: `re_fake_${randomUUID()}`,
+      paymentId,
+      status: 'succeeded',
+      amount: refunded,
+      currency: session.currency,
+    };
+  }
+
+  verifyWebhook(
+    rawBody: Buffer,
+    headers: Record<string, string | string[] | undefined>,
+  ): PaymentEvent {
+    const header = headers[FAKE_SIGNATURE_HEADER];
+    const parts = Object.fromEntries(
+      String(header ?? '')
+        .split(',')
+        .map((part) => part.split('=', 2)),
+    ) as { t?: string; v1?: string };
+    if (!parts.t || !parts.v1) {
+      throw new Error('Missing or malformed fake-signature header');
+    }
+
+    const age = Math.floor(Date.now() / 1000) - Number(parts.t);
+    if (!(Math.abs(age) <= SIGNATURE_TOLERANCE_SECONDS)) {
+      throw new Error('Webhook timestamp outside the tolerance zone');
+    }
+
+    const expected = Buffer.from(this.sign(parts.t, rawBody.toString('utf8')));
+    const given = Buffer.from(parts.v1);
+    if (expected.length !== given.length || !timingSafeEqual(expected, given)) {
+      throw new Error('Webhook signature does not match');
+    }
+
+    return JSON.parse(rawBody.toString('utf8')) as PaymentEvent;
+  }
+
+  private paidSession(paymentId: string): FakeCheckoutSession {
+    for (const session of this.sessions.values()) {
+      if (session.paymentId === paymentId && session.status === 'paid') {
+        return session;
+      }
+    }
+    throw new NotFoundException(`Payment ${paymentId} not found`);
+  }
+
+  private async postWebhook(session: FakeCheckoutSession): Promise<void> {
+    const [type, providerType] = {
+      open: null,
+      paid: ['checkout.completed', 'checkout.session.completed'],
+      failed: ['payment.failed', 'checkout.session.async_payment_failed'],
+      expired: ['checkout.expired', 'checkout.session.expired'],
+    }[session.status] as [PaymentEvent['type'], string];
+    const event: PaymentEvent = {
+      id: `evt_fake_${randomUUID()}`,
+      type,
+      providerType,
+      orderId: session.orderId,
+      userId: session.userId,
+      sessionId: session.id,
+      paymentId: session.paymentId,
+      amount: session.amount,
+      currency: session.currency,
+      ...(session.status === 'failed' && {
+        reason: 'Your card was declined (fake provider)',
+      }),
+    };
+    const body = JSON.stringify(event);
+    const timestamp = String(Math.floor(Date.now() / 1000));
+
+    try {
+      const response = await fetch(this.webhookUrl, {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+          [FAKE_SIGNATURE_HEADER]: `t=${timestamp},v1=${this.sign(timestamp, body)}`,
+        },
+        body,
+      });
+      if (!response.ok) {
+        this.logger.warn(
+          `⚠️ Webhook ${event.id} was rejected with ${response.status}`,
+        );
+      }
+    } catch (error) {
+      this.logger.error(
+        `❌ Could not post webhook ${event.id} to ${this.webhookUrl}: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  private sign(timestamp: string, body: string): string {
+    return createHmac('sha256', this.webhookSecret)
+      .update(`${timestamp}.${body}`)
+      .digest('hex');
+  }
+}
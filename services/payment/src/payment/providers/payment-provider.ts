@@ -0,0 +1,87 @@
+/** DI token of the configured `PaymentProvider` */
+export const PAYMENT_PROVIDER = 'PAYMENT_PROVIDER';
+
+/** A checkout of an order's total, for the buyer who placed it */
+export interface CheckoutRequest {
+  orderId: string;
+  userId: string;
+  /** ISO 4217 code the order was placed in, e.g. "EUR" */
+  currency: string;
+  /** The order total, in minor units */
+  amount: number;
+  successUrl: string;
+  cancelUrl: string;
+}
+
+export interface CheckoutSession {
+  id: string;
+  /** Hosted page the buyer is redirected to */
+  url: string;
+}
+
+export interface CapturedPayment {
+  paymentId: string;
+  status: string;
+  /** Amount captured, in minor units */
+  amount: number;
+  currency: string;
+}
+
+export interface PaymentRefund {
+  id: string;
+  paymentId: string;
+  status: string;
+  /** Amount refunded, in minor units */
+  amount: number;
+  currency: string;
+}
+
+/**
+ * A verified webhook, in the same shape whatever provider sent it.
+ * Events the service does not act on have type `other`.
+ */
+export interface PaymentEvent {
+  id: string;
+  type: 'checkout.completed' | 'payment.failed' | 'checkout.expired' | 'other';
+  /** The provider's own event type, e.g. `checkout.session.completed` */
+  providerType: string;
+  orderId?: string;
+  userId?: string;
+  sessionId?: string;
+  paymentId?: string;
+  /** Minor units */
+  amount?: number;
+  currency?: string;
+  /** Why the payment failed */
+  reason?: string;
+}
+
+/**
+ * ✅ Payment Provider
+ *
+ * What the payment service needs from a payment processor. Selected with
+ * PAYMENT_PROVIDER: `stripe` (default) or `fake`, which runs offline.
+ */
+export interface PaymentProvider {
+  readonly name: string;
+
+  createCheckout(order: CheckoutRequest): Promise<CheckoutSession>;
+
+  /** Capture an authorized payment */
+  capture(paymentId: string): Promise<CapturedPayment>;
+
+  /**
+   * Refund a captured payment, fully unless `amount` (minor units) is given
+   */
+  refund(paymentId: string, amount?: number): Promise<PaymentRefund>;
+
+  /**
+   * The event of a webhook request, after checking its signature
+   *
+   * @throws Error when the signature is missing or wrong
+   */
+  verifyWebhook(
+    rawBody: Buffer,
+    headers: Record<string, string | string[] | undefined>,
+  ): PaymentEvent;
+}
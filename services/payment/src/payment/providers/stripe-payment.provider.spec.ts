@@ -0,0 +1,113 @@
+import { ConfigService } from '@nestjs/config';
+import Stripe from 'stripe';
+import { StripePaymentProvider } from './stripe-payment.provider';
+
+describe('StripePaymentProvider', () => {
+  let provider: StripePaymentProvider;
+  let constructEvent: jest.SpyInstance;
+
+  const verify = (event: object) => {
+    constructEvent.mockReturnValue(event as Stripe.Event);
+    return provider.verifyWebhook(Buffer.from('{}'), {
+      'stripe-signature': 'sig',
+    });
+  };
+
+  const sessionEvent = (type: string, paymentStatus = 'paid') => ({
+    id: 'evt_1',
+    type,
+    data: {
+      object: {
+        id: 'cs_1',
+        payment_status: paymentStatus,
+        payment_intent: 'pi_1',
+        amount_total: 3000,
+        currency: 'usd',
+        metadata: { orderId: 'o1', userId: 'u1' },
+      },
+    },
+  });
+
+  beforeEach(() => {
+    const config = {
+      get: jest.fn((key: string) =>
+        key === 'STRIPE_SECRET_KEY' ? 'sk_test_123' : 'whsec_123',
+      ),
+    };
+    provider = new StripePaymentProvider(config as unknown as ConfigService);
+    constructEvent = jest.spyOn(provider['stripe'].webhooks, 'constructEvent');
+  });
+
+  it('should verify the signature with the webhook secret', () => {
+    verify(sessionEvent('checkout.session.completed'));
+
+    expect(constructEvent).toHaveBeenCalledWith(
+      expect.any(Buffer),
+      'sig',
+      'whsec_123',
+    );
+  });
+
+  it('should map a paid checkout to checkout.completed', () => {
+    expect(verify(sessionEvent('checkout.session.completed'))).toEqual({
+      id: 'evt_1',
+      type: 'checkout.completed',
+      providerType: 'checkout.session.completed',
+      orderId: 'o1',
+      userId: 'u1',
+      sessionId: 'cs_1',
+      paymentId: 'pi_1',
+      amount: 3000,
+      currency: 'usd',
+    });
+  });
+
+  it('should not complete a checkout whose delayed payment is unpaid', () => {
+    expect(
+      verify(sessionEvent('checkout.session.completed', 'unpaid')).type,
+    ).toBe('other');
+    expect(
+      verify(sessionEvent('checkout.session.async_payment_succeeded')).type,
+    ).toBe('checkout.completed');
+  });
+
+  it('should end the checkout on an async failure or expiry', () => {
+    expect(
+      verify(sessionEvent('checkout.session.async_payment_failed', 'unpaid'))
+        .type,
+    ).toBe('payment.failed');
+    expect(
+      verify(sessionEvent('checkout.session.expired', 'unpaid')).type,
+    ).toBe('checkout.expired');
+  });
+
+  it('should only record a declined attempt, since the session stays open', () => {
+    const event = verify({
+      id: 'evt_2',
+      type: 'payment_intent.payment_failed',
+      data: {
+        object: {
+          id: 'pi_1',
+          amount: 3000,
+          currency: 'usd',
+          metadata: { orderId: 'o1', userId: 'u1' },
+          last_payment_error: { message: 'Your card was declined.' },
+        },
+      },
+    });
+
+    expect(event).toEqual(
+      expect.objectContaining({
+        type: 'other',
+        paymentId: 'pi_1',
+        reason: 'Your card was declined.',
+      }),
+    );
+  });
+
+  it('should pass other events through as other', () => {
+    expect(
+      verify({ id: 'evt_3', type: 'charge.refunded', data: { object: {} } }),
+    ).toEqual({ id: 'evt_3', type: 'other', providerType: 'charge.refunded' });
+  });
+});
@@ -0,0 +1,145 @@
+import { ConfigService } from '@nestjs/config';
+import Stripe from 'stripe';
+import {
+  CapturedPayment,
+  CheckoutRequest,
+  CheckoutSession,
+  PaymentEvent,
+  PaymentProvider,
+  PaymentRefund,
+} from './payment-provider';
+
+/**
+ * Payments through Stripe Checkout; needs STRIPE_SECRET_KEY and
+ * STRIPE_WEBHOOK_SECRET.
+ */
+export class StripePaymentProvider implements PaymentProvider {
+  readonly name = 'stripe';
+  private readonly stripe: Stripe;
+
+  constructor(private readonly config: ConfigService) {
+    this.stripe = new Stripe(this.config.get<string>('STRIPE_SECRET_KEY')!, {
+      apiVersion: '2024-06-20',
+    });
+  }
+
+  async createCheckout(order: CheckoutRequest): Promise<CheckoutSession> {
+    const currency = (order.currency || 'USD').toLowerCase();
+    const metadata = { orderId: order.orderId, userId: order.userId };
+
+    const session = await this.stripe.checkout.sessions.create({
+      mode: 'payment',
+      payment_method_types: ['card'],
+
+      // One line for the order total, so tax, shipping and discounts match it
+      line_items: [
+        {
+          price_data: {
+            currency,
+            product_data: { name: `Order ${order.orderId}` },
+            unit_amount: order.amount,
+          },
+          quantity: 1,
+        },
+      ],
+
+      success_url: `${order.successUrl}?session_id={CHECKOUT_SESSION_ID}`,
+      cancel_url: order.cancelUrl,
+
+      metadata,
+      // So payment_intent.* events can be traced back to the order too
+      payment_intent_data: { metadata },
+    });
+
+    // Hosted sessions always have a URL
+    return { id: session.id, url: session.url! };
+  }
+
+  async capture(paymentId: string): Promise<CapturedPayment> {
+    const intent = await this.stripe.paymentIntents.capture(paymentId);
+    return {
+      paymentId: intent.id,
+      status: intent.status,
+      amount: intent.amount_received,
+      currency: intent.currency,
+    };
+  }
+
+  async refund(paymentId: string, amount?: number): Promise<PaymentRefund> {
+    const refund = await this.stripe.refunds.create({
+      payment_intent: paymentId,
+      ...(amount !== undefined && { amount }),
+    });
+    return {
+      id: refund.id,
+      paymentId,
+      status: refund.status ?? 'pending',
+      amount: refund.amount,
+      currency: refund.currency,
+    };
+  }
+
+  verifyWebhook(
+    rawBody: Buffer,
+    headers: Record<string, string | string[] | undefined>,
+  ): PaymentEvent {
+    const event = this.stripe.webhooks.constructEvent(
+      rawBody,
+      headers['stripe-signature'] ?? '',
+      this.config.get<string>('STRIPE_WEBHOOK_SECRET')!,
+    );
+
+    switch (event.type) {
+      case 'checkout.session.completed':
+      case 'checkout.session.async_payment_succeeded':
+      case 'checkout.session.async_payment_failed':
+      case 'checkout.session.expired': {
+        const session = event.data.object;
+        let type: PaymentEvent['type'] = 'other';
+        if (event.type === 'checkout.session.expired') {
+          type = 'checkout.expired';
+        } else if (event.type === 'checkout.session.async_payment_failed') {
+          type = 'payment.failed';
+        } else if (session.payment_status !== 'unpaid') {
+          // Delayed payment methods complete unpaid and settle later
+          type = 'checkout.completed';
+        }
+
+        return {
+          id: event.id,
+          type,
+          providerType: event.type,
+          orderId: session.metadata?.orderId,
+          userId: session.metadata?.userId,
+          sessionId: session.id,
+          paymentId:
+            typeof session.payment_intent === 'string'
+              ? session.payment_intent
+              : session.payment_intent?.id,
+          amount: session.amount_total ?? undefined,
+          currency: session.currency ?? undefined,
+        };
+      }
+
+      case 'payment_intent.payment_failed': {
+        // A declined attempt leaves the Checkout session open for another
+        // try; only its expiry or an async failure ends the checkout
+        const intent = event.data.object;
+        return {
+          id: event.id,
+          type: 'other',
+          providerType: event.type,
+          orderId: intent.metadata?.orderId,
+          userId: intent.metadata?.userId,
+          paymentId: intent.id,
+          amount: intent.amount,
+          currency: intent.currency,
+          reason: intent.last_payment_error?.message,
+        };
+      }
+
+      default:
+        return { id: event.id, type: 'other', providerType: event.type };
+    }
+  }
+}
@@ -4,9 +4,10 @@ import {
   IsArray, 
   MinLength, 
   IsNotEmpty, 
-  IsPositive 
+  IsPositive,
+  IsOptional
 } from 'class-validator';
-import { ApiProperty } from '@nestjs/swagger';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 
 export class CreateProductDto {
 
@@ -70,4 +71,13 @@ export class CreateProductDto {
   })
   @IsArray()
   images!: string[];
+
+  @ApiPropertyOptional({
+    description: 'Shipping weight in kg',
+    example: 0.2,
+  })
+  @IsNumber()
+  @IsPositive()
+  @IsOptional()
+  weight?: number;
 }
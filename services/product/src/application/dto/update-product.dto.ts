@@ -39,4 +39,10 @@ export class UpdateProductDto {
   @IsArray()
   @IsOptional()
   images?: string[];
+
+  @ApiPropertyOptional({ description: 'Shipping weight in kg' })
+  @IsNumber()
+  @IsPositive()
+  @IsOptional()
+  weight?: number;
 }
@@ -4,11 +4,13 @@ import { ProductController } from '../presentation/controllers/product.controlle
 import { CreateProductUseCase } from './use-cases/create-product.usecase';
 import { UpdateProductUseCase } from './use-cases/update-product.usecase';
 import { GetProductUseCase } from './use-cases/get-product.usecase';
+import { GetProductBySkuUseCase } from './use-cases/get-product-by-sku.usecase';
 import { ListProductsUseCase } from './use-cases/list-products.usecase';
 import { ProductDomainService } from '../domain/services/product-domain.service';
 import { PRODUCT_REPOSITORY } from '../domain/interfaces/product-repository.interface';
 import { ProductRepository } from '../infrastructure/repositories/product.repository';
 import { ProductModel, ProductSchema } from '../infrastructure/database/product.schema';
+import { MinorUnitsMigration } from '../infrastructure/database/minor-units.migration';
 import { ProductMapper } from '../infrastructure/mappers/product.mapper';
 import { ProductProducer } from '../infrastructure/events/product.producer';
 
@@ -19,10 +21,12 @@ import { ProductProducer } from '../infrastructure/events/product.producer';
     CreateProductUseCase,
     UpdateProductUseCase,
     GetProductUseCase,
+    GetProductBySkuUseCase,
     ListProductsUseCase,
     ProductDomainService,
     ProductMapper,
     ProductProducer,
+    MinorUnitsMigration,
     { provide: PRODUCT_REPOSITORY, useClass: ProductRepository }
   ],
   exports: [PRODUCT_REPOSITORY]
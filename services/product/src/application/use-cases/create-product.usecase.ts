@@ -32,6 +32,10 @@ export class CreateProductUseCase {
         dto.category,
         dto.stock,
         dto.images,
+        true,
+        undefined,
+        undefined,
+        dto.weight,
       );
 
       // ✅ Save product to database
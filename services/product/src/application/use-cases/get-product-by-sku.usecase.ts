@@ -0,0 +1,31 @@
+import { Injectable, NotFoundException, Inject } from '@nestjs/common';
+import {
+  PRODUCT_REPOSITORY,
+  ProductRepositoryInterface,
+} from '../../domain/interfaces/product-repository.interface';
+import { ProductMapper } from '../../infrastructure/mappers/product.mapper';
+
+/**
+ * ✅ Get Product By SKU Use Case
+ *
+ * Used by other services (e.g. order pricing) that only know the SKU.
+ */
+@Injectable()
+export class GetProductBySkuUseCase {
+  constructor(
+    @Inject(PRODUCT_REPOSITORY)
+    private readonly productRepository: ProductRepositoryInterface,
+
+    private readonly mapper: ProductMapper,
+  ) {}
+
+  async execute(sku: string) {
+    const product = await this.productRepository.findBySku(sku);
+
+    if (!product) {
+      throw new NotFoundException(`Product with SKU ${sku} not found`);
+    }
+
+    return this.mapper.toResponse(product);
+  }
+}
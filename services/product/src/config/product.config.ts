@@ -8,8 +8,15 @@ export const validationSchema = Joi.object({
   KAFKA_BROKERS: Joi.string().required(),
   ELASTICSEARCH_NODE: Joi.string().optional().default('http://localhost:9200'),
   NODE_ENV: Joi.string().valid('development', 'production', 'test').default('development'),
+  DEFAULT_CURRENCY: Joi.string().length(3).default('USD'),
 });
 
+/**
+ * Currency of catalog prices, the order service's base currency
+ * (same DEFAULT_CURRENCY variable).
+ */
+export const catalogCurrency = () => process.env.DEFAULT_CURRENCY || 'USD';
+
 export default registerAs('product', () => ({
   port: parseInt(process.env.PORT || '3002', 10),
   database: {
@@ -23,4 +30,5 @@ export default registerAs('product', () => ({
     node: process.env.ELASTICSEARCH_NODE || 'http://localhost:9200',
   },
   environment: process.env.NODE_ENV || 'development',
+  currency: catalogCurrency(),
 }));
\ No newline at end of file
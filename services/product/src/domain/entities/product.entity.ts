@@ -11,5 +11,6 @@ export class Product {
     public isActive: boolean = true,
     public createdAt?: Date,
     public updatedAt?: Date,
+    public weight?: number, // kg
   ) {}
 }
@@ -1,5 +1,32 @@
+/**
+ * Digits after the decimal point, per ISO 4217 as the runtime knows it
+ * (JPY 0, BHD 3...). Unknown codes use 2.
+ */
+function minorUnitDigits(currency: string): number {
+  try {
+    return (
+      new Intl.NumberFormat('en', {
+        style: 'currency',
+        currency,
+      }).resolvedOptions().maximumFractionDigits ?? 2
+    );
+  } catch {
+    return 2;
+  }
+}
+
 export class PriceVO {
   constructor(public readonly value: number) {
     if (value < 0) throw new Error('Price cannot be negative');
   }
+
+  /** A price stored as integer minor units (1999) of `currency` */
+  static fromMinorUnits(amount: number, currency: string): PriceVO {
+    return new PriceVO(amount / 10 ** minorUnitDigits(currency));
+  }
+
+  /** The decimal price (19.99) as integer minor units (1999) of `currency` */
+  toMinorUnits(currency: string): number {
+    return Math.round(this.value * 10 ** minorUnitDigits(currency));
+  }
 }
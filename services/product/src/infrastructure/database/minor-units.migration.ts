@@ -0,0 +1,42 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { ProductModel } from './product.schema';
+import { PriceVO } from '../../domain/value-objects/product-vo';
+import { catalogCurrency } from '../../config/product.config';
+
+/**
+ * ✅ Converts the decimal prices of products saved before prices were kept
+ * in minor units, once, when the service starts. Converted products are
+ * flagged `minorUnits`, so running it again is a no-op.
+ */
+@Injectable()
+export class MinorUnitsMigration implements OnModuleInit {
+  private readonly logger = new Logger(MinorUnitsMigration.name);
+
+  constructor(
+    @InjectModel(ProductModel.name)
+    private readonly productModel: Model<ProductModel>,
+  ) {}
+
+  async onModuleInit() {
+    const scale = new PriceVO(1).toMinorUnits(catalogCurrency());
+    const result = await this.productModel.updateMany(
+      { minorUnits: { $ne: true } },
+      [
+        {
+          $set: {
+            price: { $round: [{ $multiply: ['$price', scale] }, 0] },
+            minorUnits: true,
+          },
+        },
+      ],
+    );
+
+    if (result.modifiedCount) {
+      this.logger.log(
+        `💱 Converted ${result.modifiedCount} product price(s) to minor units`,
+      );
+    }
+  }
+}
@@ -12,7 +12,14 @@ export class ProductModel {
   description!: string;
 
   @Prop({ required: true, index: true })
-  price!: number;
+  price!: number; // ✅ Integer minor units of the catalog currency (1999 = 19.99)
+
+  /**
+   * Set once `price` is in minor units; products saved before that hold
+   * a decimal price until MinorUnitsMigration converts them
+   */
+  @Prop()
+  minorUnits?: boolean;
 
   @Prop({ required: true, unique: true })
   sku!: string; // ✅ Used for Kafka events and inventory syncing
@@ -28,6 +35,9 @@ export class ProductModel {
 
   @Prop({ default: true })
   isActive!: boolean;
+
+  @Prop()
+  weight?: number; // ✅ Shipping weight in kg (used for order shipping rates)
 }
 
 export const ProductSchema = SchemaFactory.createForClass(ProductModel);
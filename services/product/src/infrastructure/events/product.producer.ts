@@ -2,6 +2,8 @@
 
 import { Injectable, Logger } from '@nestjs/common';
 import { Kafka, Producer } from 'kafkajs';
+import { PriceVO } from '../../domain/value-objects/product-vo';
+import { catalogCurrency } from '../../config/product.config';
 
 @Injectable()
 export class ProductProducer {
@@ -66,14 +68,17 @@ export class ProductProducer {
 
   /**
    * ✅ Emit `product.updated` event
+   * `price` is in integer minor units of `currency` (1999 = 19.99)
    */
   async emitProductUpdatedEvent(product: any) {
+    const currency = catalogCurrency();
     const payload = {
       event: 'product.updated',
       productId: product.id,
       sku: product.sku,
       name: product.name,
-      price: product.price,
+      price: new PriceVO(product.price).toMinorUnits(currency),
+      currency,
       stock: product.stock,
       updatedAt: new Date().toISOString(),
     };
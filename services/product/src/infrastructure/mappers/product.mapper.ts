@@ -1,4 +1,6 @@
 import { Product } from '../../domain/entities/product.entity';
+import { PriceVO } from '../../domain/value-objects/product-vo';
+import { catalogCurrency } from '../../config/product.config';
 
 export class ProductMapper {
   // ✅ DB → Domain
@@ -9,7 +11,10 @@ export class ProductMapper {
       raw._id?.toString() ?? raw.id,
       raw.name,
       raw.description,
-      raw.price,
+      // Prices saved before minor units were stored as decimals
+      raw.minorUnits
+        ? PriceVO.fromMinorUnits(raw.price, catalogCurrency()).value
+        : raw.price,
       raw.sku,
       raw.category,
       raw.stock,
@@ -17,9 +22,20 @@ export class ProductMapper {
       raw.isActive,
       raw.createdAt,
       raw.updatedAt,
+      raw.weight,
     );
   }
 
+  // ✅ Domain → DB (prices in integer minor units of the catalog currency)
+  static toPersistence(product: Partial<Product>) {
+    if (product.price === undefined) return product;
+    return {
+      ...product,
+      price: new PriceVO(product.price).toMinorUnits(catalogCurrency()),
+      minorUnits: true,
+    };
+  }
+
   // ✅ Domain → API Response
   toResponse(product: Product) {
     return {
@@ -32,6 +48,7 @@ export class ProductMapper {
       stock: product.stock,
       images: product.images,
       isActive: product.isActive,
+      weight: product.weight,
       createdAt: product.createdAt,
       updatedAt: product.updatedAt,
     };
@@ -9,6 +9,8 @@ import { Product } from '../../domain/entities/product.entity';
 import { ProductModel } from '../database/product.schema';
 import { ProductMapper } from '../mappers/product.mapper';
 import { FilterProductDto } from '../../application/dto/filter-product.dto';
+import { PriceVO } from '../../domain/value-objects/product-vo';
+import { catalogCurrency } from '../../config/product.config';
 
 @Injectable()
 export class ProductRepository implements ProductRepositoryInterface {
@@ -24,7 +26,7 @@ export class ProductRepository implements ProductRepositoryInterface {
    */
   async create(product: Product): Promise<Product> {
     try {
-      const created = await this.productModel.create(product);
+      const created = await this.productModel.create(ProductMapper.toPersistence(product));
       return ProductMapper.toDomain(created.toObject())!;
     } catch (error: any) {
       this.logger.error('❌ Failed to create product', error.message);
@@ -43,7 +45,7 @@ export class ProductRepository implements ProductRepositoryInterface {
   async update(sku: string, product: Partial<Product>): Promise<Product | null> {
     try {
       const updated = await this.productModel
-        .findOneAndUpdate({ sku }, product, { new: true })
+        .findOneAndUpdate({ sku }, ProductMapper.toPersistence(product), { new: true })
         .lean();
 
       if (!updated) {
@@ -117,12 +119,7 @@ export class ProductRepository implements ProductRepositoryInterface {
       }
 
       // ✅ price range
-      if (filter.minPrice) {
-        query.price = { ...query.price, $gte: Number(filter.minPrice) };
-      }
-      if (filter.maxPrice) {
-        query.price = { ...query.price, $lte: Number(filter.maxPrice) };
-      }
+      this.filterPrice(query, filter);
 
       // ✅ Pagination
       const page = filter.page || 1;
@@ -162,12 +159,7 @@ export class ProductRepository implements ProductRepositoryInterface {
           { description: { $regex: filter.search, $options: 'i' } },
         ];
       }
-      if (filter.minPrice) {
-        query.price = { ...query.price, $gte: Number(filter.minPrice) };
-      }
-      if (filter.maxPrice) {
-        query.price = { ...query.price, $lte: Number(filter.maxPrice) };
-      }
+      this.filterPrice(query, filter);
 
       return await this.productModel.countDocuments(query);
     } catch (error: any) {
@@ -178,4 +170,19 @@ export class ProductRepository implements ProductRepositoryInterface {
       });
     }
   }
+
+  /**
+   * ✅ Price range, given in decimals and stored in minor units
+   */
+  private filterPrice(query: any, filter: FilterProductDto) {
+    const minorUnits = (price: string) =>
+      new PriceVO(Number(price)).toMinorUnits(catalogCurrency());
+
+    if (filter.minPrice) {
+      query.price = { ...query.price, $gte: minorUnits(filter.minPrice) };
+    }
+    if (filter.maxPrice) {
+      query.price = { ...query.price, $lte: minorUnits(filter.maxPrice) };
+    }
+  }
 }
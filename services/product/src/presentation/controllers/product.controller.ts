@@ -22,6 +22,7 @@ import {
 import { CreateProductUseCase } from '../../application/use-cases/create-product.usecase';
 import { ListProductsUseCase } from '../../application/use-cases/list-products.usecase';
 import { GetProductUseCase } from '../../application/use-cases/get-product.usecase';
+import { GetProductBySkuUseCase } from '../../application/use-cases/get-product-by-sku.usecase';
 import { UpdateProductUseCase } from '../../application/use-cases/update-product.usecase';
 
 import { UpdateProductDto } from '../../application/dto/update-product.dto';
@@ -36,6 +37,7 @@ export class ProductController {
     private readonly listProducts: ListProductsUseCase,
     private readonly getProduct: GetProductUseCase,
     private readonly updateProduct: UpdateProductUseCase,
+    private readonly getProductBySku: GetProductBySkuUseCase,
   ) { }
 
   /**
@@ -197,6 +199,43 @@ export class ProductController {
     }
   }
 
+  /**
+   * -------------------------------------------------------------
+   * ✅ Get a single product by SKU
+   * -------------------------------------------------------------
+   * Used by the order service to price orders from the catalog.
+   */
+  @Get('sku/:sku')
+  @ApiParam({
+    name: 'sku',
+    type: String,
+    example: 'SKU-12345',
+  })
+  @ApiOperation({ summary: 'Get a single product by SKU' })
+  @ApiResponse({ status: 200, description: 'Product fetched successfully' })
+  @ApiResponse({ status: 404, description: 'Product not found' })
+  @ApiResponse({ status: 500, description: 'Internal server error' })
+  async getOneBySku(@Param('sku') sku: string) {
+    try {
+      const product = await this.getProductBySku.execute(sku);
+
+      return {
+        success: true,
+        message: 'Product fetched successfully',
+        data: product,
+      };
+    } catch (error: any) {
+      throw new HttpException(
+        {
+          success: false,
+          code: 'PRODUCT_FETCH_ERROR',
+          message: error.message || 'Failed to fetch product',
+        },
+        error.status || HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
   /**
    * -------------------------------------------------------------
    * ✅ Update a product by ID
@@ -1,6 +1,7 @@
 import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
 import { KafkaConsumerService } from './kafka.consumer.service';
 import { RealtimeGateway } from '../realtime/realtime.gateway';
+import { toMajor } from './money';
 
 /**
  * Inventory Events Consumer
@@ -161,7 +162,7 @@ export class InventoryEventsConsumer implements OnModuleInit {
       this.gateway.broadcastToAll('product:updated', {
         productId: payload._id || payload.productId,
         name: payload.name,
-        price: payload.price,
+        price: toMajor(payload.price, payload.currency),
         stock: payload.stock,
         updatedAt: payload.updatedAt || new Date().toISOString(),
       });
@@ -57,6 +57,7 @@ export class KafkaConsumerService implements OnModuleInit, OnModuleDestroy {
           'order.shipped',
           'order.paid',
           'order.cancelled',
+          'order.amended',
           'inventory.updated',
           'product.created',
           'product.updated',
@@ -0,0 +1,20 @@
+/**
+ * Amounts in order and product events are integer minor units (1999);
+ * the client works in decimal amounts (19.99), like the APIs return them.
+ *
+ * @param amount - Amount in minor units of `currency`
+ * @param currency - ISO 4217 code, USD when missing
+ * @returns Decimal amount, or the value as is when it is not a number
+ */
+export function toMajor(amount: number | undefined, currency = 'USD') {
+  if (typeof amount !== 'number') return amount;
+  let digits = 2;
+  try {
+    digits =
+      new Intl.NumberFormat('en', { style: 'currency', currency })
+        .resolvedOptions().maximumFractionDigits ?? 2;
+  } catch {
+    // Unknown code, assume cents
+  }
+  return amount / 10 ** digits;
+}
@@ -1,6 +1,7 @@
 import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
 import { KafkaConsumerService } from './kafka.consumer.service';
 import { RealtimeGateway } from '../realtime/realtime.gateway';
+import { toMajor } from './money';
 
 /**
  * Order Events Consumer
@@ -12,6 +13,7 @@ import { RealtimeGateway } from '../realtime/realtime.gateway';
  * - order.created - New order placed
  * - order.updated - Order status changed
  * - order.cancelled - Order cancelled
+ * - order.amended - Lines or address changed, order re-priced
  *
  * @author E-commerce Platform
  * @version 1.0.0
@@ -73,7 +75,13 @@ export class OrderEventsConsumer implements OnModuleInit {
       this.handleOrderCancelled.bind(this),
     );
 
-    this.logger.log('✅ Order event handlers registered (order.created, order.updated, order.processing, order.shipped, order.paid, order.delivered, order.cancelled)');
+    // Register handler for order.amended
+    this.kafkaConsumer.registerHandler(
+      'order.amended',
+      this.handleOrderAmended.bind(this),
+    );
+
+    this.logger.log('✅ Order event handlers registered (order.created, order.updated, order.processing, order.shipped, order.paid, order.delivered, order.cancelled, order.amended)');
   }
 
   /**
@@ -101,8 +109,11 @@ export class OrderEventsConsumer implements OnModuleInit {
       this.gateway.sendOrderCreated(userId, {
         orderId: payload.orderId || payload._id,
         status: payload.status || 'pending',
-        totalAmount: payload.totalAmount || payload.total,
-        items: payload.items || [],
+        totalAmount: toMajor(
+          payload.totalAmount || payload.total,
+          payload.currency,
+        ),
+        items: this.items(payload),
         createdAt: payload.createdAt || new Date().toISOString(),
         message: 'Your order has been placed successfully!',
       });
@@ -143,13 +154,17 @@ export class OrderEventsConsumer implements OnModuleInit {
         return;
       }
 
+      // Shipment that just left or arrived (order.shipped / order.updated), with tracking
+      const shipment = payload.shipment;
+
       // Broadcast to user via WebSocket
       this.gateway.sendOrderUpdated(userId, {
         orderId: payload.orderId || payload._id,
         status: payload.status,
         previousStatus: payload.previousStatus,
-        updatedAt: payload.updatedAt || new Date().toISOString(),
+        updatedAt: payload.updatedAt || payload.shippedAt || new Date().toISOString(),
         message: this.getStatusMessage(payload.status),
+        ...(shipment && { shipment }),
       });
 
       // Send notification for important status changes
@@ -157,7 +172,9 @@ export class OrderEventsConsumer implements OnModuleInit {
         this.gateway.sendNotification(userId, {
           type: 'order',
           title: 'Order Status Updated',
-          message: `Order #${payload.orderId || payload._id} is now ${payload.status}`,
+          message: shipment
+            ? `Order #${payload.orderId || payload._id}: shipment ${shipment.status} (${shipment.carrier} ${shipment.trackingNumber})`
+            : `Order #${payload.orderId || payload._id} is now ${payload.status}`,
           orderId: payload.orderId || payload._id,
           status: payload.status,
           priority: 'high',
@@ -218,6 +235,55 @@ export class OrderEventsConsumer implements OnModuleInit {
     }
   }
 
+  /**
+   * Handle order.amended event
+   *
+   * Triggered when the buyer or support changes lines or the shipping
+   * address before fulfillment (or a change is reverted for lack of stock).
+   * Sends the re-priced order to the buyer.
+   *
+   * @param payload - Order amendment event data
+   */
+  private async handleOrderAmended(payload: any): Promise<void> {
+    try {
+      this.logger.log(
+        `✏️ Order amended event received - OrderID: ${payload.orderId}, Amendment: #${payload.amendment}`,
+      );
+
+      const userId = payload.buyerId || payload.userId;
+
+      if (!userId) {
+        this.logger.warn('⚠️ Order amended event missing buyerId/userId');
+        return;
+      }
+
+      const reverted = payload.amendedBy === 'inventory-service';
+
+      // Broadcast to user via WebSocket
+      this.gateway.sendOrderUpdated(userId, {
+        orderId: payload.orderId,
+        status: payload.status,
+        updatedAt: payload.amendedAt || new Date().toISOString(),
+        message: reverted
+          ? 'Your order change could not be applied: not enough stock'
+          : 'Your order has been updated',
+        amended: {
+          items: this.items(payload),
+          subtotal: toMajor(payload.subtotal, payload.currency),
+          discount: toMajor(payload.discount, payload.currency),
+          shippingCost: toMajor(payload.shippingCost, payload.currency),
+          tax: toMajor(payload.tax, payload.currency),
+          total: toMajor(payload.total, payload.currency),
+          shippingAddress: payload.shippingAddress,
+        },
+      });
+
+      this.logger.log(`✅ Order amendment sent to user ${userId}`);
+    } catch (error) {
+      this.logger.error('❌ Error handling order.amended event:', error);
+    }
+  }
+
   /**
    * Get user-friendly message for order status
    *
@@ -229,6 +295,7 @@ export class OrderEventsConsumer implements OnModuleInit {
       pending: 'Your order is pending confirmation',
       confirmed: 'Your order has been confirmed',
       processing: 'Your order is being processed',
+      partially_shipped: 'Part of your order has been shipped',
       shipped: 'Your order has been shipped',
       delivered: 'Your order has been delivered',
       cancelled: 'Your order has been cancelled',
@@ -245,7 +312,19 @@ export class OrderEventsConsumer implements OnModuleInit {
    * @returns true if status is important
    */
   private isImportantStatus(status: string): boolean {
-    const importantStatuses = ['shipped', 'delivered', 'cancelled', 'refunded'];
+    const importantStatuses = ['partially_shipped', 'shipped', 'delivered', 'cancelled', 'refunded'];
     return importantStatuses.includes(status);
   }
+
+  /**
+   * Order lines with decimal unit prices, as the client shows them
+   *
+   * @param payload - Order event data
+   */
+  private items(payload: any): any[] {
+    return (payload.items || []).map((item: any) => ({
+      ...item,
+      unitPrice: toMajor(item.unitPrice, payload.currency),
+    }));
+  }
 }
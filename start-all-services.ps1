@@ -91,6 +91,18 @@ Start-MicroService -ServiceName "Order Service" -ServicePath "$PSScriptRoot\serv
 
 Start-Sleep -Seconds 2
 
+# Payment Service
+Start-MicroService -ServiceName "Payment Service" -ServicePath "$PSScriptRoot\services\payment" -EnvVars @{
+    MONGO_URI = $env:MONGO_URI_PAYMENT
+    PORT = $env:PORT_PAYMENT
+    KAFKA_BROKERS = $env:KAFKA_BROKERS
+    REDIS_HOST = $env:REDIS_HOST
+    ORDER_SERVICE_URL = "http://localhost:$($env:PORT_ORDER)"
+    PAYMENT_PROVIDER = $env:PAYMENT_PROVIDER
+} -Port $env:PORT_PAYMENT
+
+Start-Sleep -Seconds 2
+
 # Product Service
 Start-MicroService -ServiceName "Product Service" -ServicePath "$PSScriptRoot\services\product" -EnvVars @{
     MONGO_URI = $env:MONGO_URI_PRODUCT
@@ -140,6 +152,7 @@ Write-Host "  cluster0.ejp03r8.mongodb.net" -ForegroundColor Gray
 Write-Host ""
 Write-Host "Access Points:" -ForegroundColor Cyan
 Write-Host "  Order API: http://localhost:$($env:PORT_ORDER)/docs" -ForegroundColor White
+Write-Host "  Payment API: http://localhost:$($env:PORT_PAYMENT)/payment" -ForegroundColor White
 Write-Host "  Product API: http://localhost:$($env:PORT_PRODUCT)/api" -ForegroundColor White
 Write-Host "  Inventory API: http://localhost:$($env:PORT_INVENTORY)/api" -ForegroundColor White
 Write-Host "  Auth OIDC: http://localhost:$($env:PORT_AUTH)/.well-known/openid-configuration" -ForegroundColor White
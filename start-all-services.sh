@@ -90,6 +90,17 @@ start_service "Order Service" "services/order" $PORT_ORDER \
 
 sleep 2
 
+# Start Payment Service
+start_service "Payment Service" "services/payment" $PORT_PAYMENT \
+    "MONGO_URI=$MONGO_URI_PAYMENT" \
+    "PORT=$PORT_PAYMENT" \
+    "KAFKA_BROKERS=$KAFKA_BROKERS" \
+    "REDIS_HOST=$REDIS_HOST" \
+    "ORDER_SERVICE_URL=http://localhost:$PORT_ORDER" \
+    "PAYMENT_PROVIDER=$PAYMENT_PROVIDER"
+
+sleep 2
+
 # Start Product Service
 start_service "Product Service" "services/product" $PORT_PRODUCT \
     "MONGO_URI=$MONGO_URI_PRODUCT" \
@@ -133,6 +144,7 @@ echo -e "${GRAY}  cluster0.ejp03r8.mongodb.net${NC}"
 echo ""
 echo -e "${CYAN}Access Points:${NC}"
 echo -e "  ${NC}Order API: http://localhost:$PORT_ORDER/docs${NC}"
+echo -e "  ${NC}Payment API: http://localhost:$PORT_PAYMENT/payment${NC}"
 echo -e "  ${NC}Product API: http://localhost:$PORT_PRODUCT/api${NC}"
 echo -e "  ${NC}Inventory API: http://localhost:$PORT_INVENTORY/api${NC}"
 echo -e "  ${NC}Auth OIDC: http://localhost:$PORT_AUTH/.well-known/openid-configuration${NC}"